@@ -1,4 +1,4 @@
-import React, { useEffect, useState, useRef } from "react";
+import React, { useEffect, useRef } from "react";
 import { StatusBar } from "expo-status-bar";
 import { StyleSheet, View, Text, AppState, AppStateStatus } from "react-native";
 import { Provider } from "react-redux";
@@ -6,12 +6,22 @@ import { NavigationContainer, NavigationContainerRef } from "@react-navigation/n
 import { GestureHandlerRootView } from "react-native-gesture-handler";
 import { createStackNavigator } from "@react-navigation/stack";
 import { StripeProvider } from "@stripe/stripe-react-native";
-import { store } from "./src/store";
+import { store, persistConfig, persistStore, PersistGate, useAppDispatch, useAppSelector } from "./src/store";
+import { authStateChanged, selectAuthInitialized, selectCurrentUser, signOut } from "./src/store/slices/authSlice";
+import { fetchWishlist, loadWishlistAlerts } from "./src/store/slices/wishlistSlice";
+import { fetchCart } from "./src/store/slices/cartSlice";
 import { AuthNavigator } from "./src/navigation/AuthNavigator";
 import { MainNavigator } from "./src/navigation/MainNavigator";
 import { LinkingConfiguration } from "./src/navigation/LinkingConfiguration";
 import { navigationService } from "./src/navigation/NavigationService";
-import { getAuthService, initializeAuthService } from "./src/services";
+import {
+  getAuthService,
+  getConnectivityMonitor,
+  getOutboxService,
+  initializeAuthService,
+} from "./src/services";
+import { CrashReportingService } from "./src/services/CrashReportingService";
+import { dataSyncService } from "./src/services/DataSyncService";
 import { AppConfig } from "./src/config/env";
 import { User, RootStackParamList } from "./src/types";
 
@@ -21,6 +31,12 @@ const RootStack = createStackNavigator<RootStackParamList>();
 const navigationRef = React.createRef<NavigationContainerRef<RootStackParamList> | null>();
 let isNavigationReady = false;
 
+// Restores the persisted slices before the app renders
+const persistor = persistStore(store, persistConfig);
+
+// Crash reports carry a sanitized snapshot of the store
+CrashReportingService.getInstance().setStateProvider(() => store.getState());
+
 // Navigation ready handler
 const onNavigationReady = () => {
   isNavigationReady = true;
@@ -41,8 +57,12 @@ const onNavigationStateChange = (state: any) => {
 };
 
 function AppContent() {
-  const [isLoading, setIsLoading] = useState(true);
-  const [user, setUser] = useState<User | null>(null);
+  const dispatch = useAppDispatch();
+  const user = useAppSelector(selectCurrentUser);
+  const authInitialized = useAppSelector(selectAuthInitialized);
+
+  // A user restored from storage can use the app while the auth service starts
+  const isLoading = !authInitialized && !user;
 
   useEffect(() => {
     const initializeAuth = async () => {
@@ -57,8 +77,7 @@ function AppContent() {
         ) {
           const unsubscribe = (authService as any).onAuthStateChanged(
             (user: User | null) => {
-              setUser(user);
-              setIsLoading(false);
+              dispatch(authStateChanged(user));
             }
           );
 
@@ -67,12 +86,11 @@ function AppContent() {
         } else {
           // Fallback for services that don't support listeners
           const currentUser = authService.getCurrentUser();
-          setUser(currentUser);
-          setIsLoading(false);
+          dispatch(authStateChanged(currentUser));
         }
       } catch (error) {
         console.error("Failed to initialize auth service:", error);
-        setIsLoading(false);
+        dispatch(authStateChanged(null));
       }
     };
 
@@ -88,7 +106,26 @@ function AppContent() {
         });
       }
     };
-  }, []);
+  }, [dispatch]);
+
+  // Cart, wishlist and preference edits are recorded for sync against the signed-in user
+  useEffect(() => {
+    dataSyncService.setUserId(user?.id ?? null);
+  }, [user?.id]);
+
+  // The notification inbox is filled at start. A sync can bring in cart and
+  // wishlist changes from another device, so both are reloaded after each one
+  // and the alert check runs again
+  useEffect(() => {
+    if (!user?.id) {
+      return;
+    }
+    dispatch(loadWishlistAlerts());
+    return dataSyncService.onSyncComplete(() => {
+      dispatch(fetchWishlist());
+      dispatch(fetchCart());
+    });
+  }, [user?.id, dispatch]);
 
   // Handle app state changes for session validation
   useEffect(() => {
@@ -99,7 +136,7 @@ function AppContent() {
           const isValid = await authService.isSessionValid();
           if (!isValid) {
             // Session expired, sign out user
-            await authService.signOut();
+            await dispatch(signOut()).unwrap();
           }
         } catch (error) {
           console.error('Error validating session:', error);
@@ -109,7 +146,32 @@ function AppContent() {
 
     const subscription = AppState.addEventListener('change', handleAppStateChange);
     return () => subscription?.remove();
-  }, [user]);
+  }, [user, dispatch]);
+
+  // Offline mode follows the backend's reachability; mutations queued in an
+  // earlier session are replayed on start and whenever the device reconnects
+  useEffect(() => {
+    const monitor = getConnectivityMonitor();
+    monitor.start();
+    getOutboxService()
+      .flush()
+      .catch(error => console.error("Error replaying outbox:", error));
+    // Crash reports are written when the app goes down and sent on the next start
+    CrashReportingService.getInstance()
+      .uploadPendingReports()
+      .catch(error => console.error("Error uploading crash reports:", error));
+
+    const subscription = AppState.addEventListener('change', (nextAppState: AppStateStatus) => {
+      if (nextAppState === 'active') {
+        monitor.checkNow().catch(error => console.error("Error checking connectivity:", error));
+      }
+    });
+
+    return () => {
+      subscription?.remove();
+      monitor.stop();
+    };
+  }, []);
 
 
 
@@ -156,14 +218,23 @@ function AppContent() {
 export default function App() {
   const appShell = (
     <Provider store={store}>
-      <NavigationContainer 
-        linking={LinkingConfiguration}
-        onReady={onNavigationReady}
-        onStateChange={onNavigationStateChange}
-        ref={navigationRef}
+      <PersistGate
+        persistor={persistor}
+        loading={
+          <View style={styles.loadingContainer}>
+            <Text style={styles.loadingText}>Loading...</Text>
+          </View>
+        }
       >
-        <AppContent />
-      </NavigationContainer>
+        <NavigationContainer 
+          linking={LinkingConfiguration}
+          onReady={onNavigationReady}
+          onStateChange={onNavigationStateChange}
+          ref={navigationRef}
+        >
+          <AppContent />
+        </NavigationContainer>
+      </PersistGate>
     </Provider>
   );
 
@@ -0,0 +1,99 @@
+import React from 'react';
+import { render, fireEvent, waitFor } from '@testing-library/react-native';
+import { MouseSwipeableCard } from '../../src/components/product/MouseSwipeableCard';
+import { ProductCard } from '../../src/types';
+import * as SwipeActionService from '../../src/services/SwipeActionService';
+
+const mockSwipeActionService = {
+  onSwipe: jest.fn().mockResolvedValue(undefined),
+  playSwipeFeedback: jest.fn().mockResolvedValue(undefined),
+  onAddToCart: jest.fn().mockResolvedValue(undefined),
+  onViewDetails: jest.fn().mockResolvedValue(undefined),
+};
+
+jest.spyOn(SwipeActionService, 'getSwipeActionService').mockReturnValue(mockSwipeActionService as any);
+
+const mockProduct: ProductCard = {
+  id: 'test-product-1',
+  title: 'Test Product',
+  price: 29.99,
+  currency: 'USD',
+  imageUrls: ['https://example.com/image.jpg'],
+  category: { id: 'cat-1', name: 'Electronics' },
+  description: 'A test product',
+  specifications: {},
+  availability: true,
+};
+
+const LABEL = 'Test Product, $29.99, Electronics';
+
+const performAction = (element: any, actionName: string) =>
+  fireEvent(element, 'accessibilityAction', { nativeEvent: { actionName } });
+
+describe('MouseSwipeableCard accessibility', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should expose the swipe commands as accessibility actions', () => {
+    const { getByLabelText } = render(<MouseSwipeableCard product={mockProduct} userId="user-1" />);
+
+    const card = getByLabelText(LABEL);
+    expect(card.props.accessibilityActions.map((action: { name: string }) => action.name)).toEqual([
+      'like',
+      'skip',
+      'details',
+      'addToCart',
+      'superlike',
+    ]);
+  });
+
+  it('should like through the same completion path as a drag', async () => {
+    const onSwipeRight = jest.fn();
+    const { getByLabelText } = render(
+      <MouseSwipeableCard product={mockProduct} userId="user-1" onSwipeRight={onSwipeRight} />
+    );
+
+    performAction(getByLabelText(LABEL), 'like');
+
+    await waitFor(() => expect(onSwipeRight).toHaveBeenCalledWith('test-product-1'));
+    await waitFor(() => expect(mockSwipeActionService.onSwipe).toHaveBeenCalledWith('right', 'test-product-1'));
+  });
+
+  it('should only play feedback when the parent records swipes', async () => {
+    const onSwipeUp = jest.fn();
+    const { getByLabelText } = render(
+      <MouseSwipeableCard product={mockProduct} userId="user-1" onSwipeUp={onSwipeUp} recordSwipes={false} />
+    );
+
+    performAction(getByLabelText(LABEL), 'addToCart');
+
+    await waitFor(() => expect(onSwipeUp).toHaveBeenCalledWith('test-product-1'));
+    await waitFor(() => expect(mockSwipeActionService.playSwipeFeedback).toHaveBeenCalledWith('cart'));
+    expect(mockSwipeActionService.onSwipe).not.toHaveBeenCalled();
+  });
+
+  it('should not swipe an out-of-stock product into the cart', async () => {
+    const onSwipeUp = jest.fn();
+    const outOfStock = { ...mockProduct, availability: false };
+    const { getByLabelText } = render(
+      <MouseSwipeableCard product={outOfStock} userId="user-1" onSwipeUp={onSwipeUp} />
+    );
+
+    performAction(getByLabelText(`${LABEL}, out of stock`), 'addToCart');
+
+    await new Promise(resolve => setTimeout(resolve, 400));
+    expect(onSwipeUp).not.toHaveBeenCalled();
+  });
+
+  it('should open details from the details action', async () => {
+    const onViewDetails = jest.fn();
+    const { getByLabelText } = render(
+      <MouseSwipeableCard product={mockProduct} userId="user-1" onViewDetails={onViewDetails} />
+    );
+
+    performAction(getByLabelText(LABEL), 'details');
+
+    await waitFor(() => expect(onViewDetails).toHaveBeenCalledWith('test-product-1'));
+  });
+});
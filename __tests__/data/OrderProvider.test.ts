@@ -0,0 +1,129 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { ApiOrderProvider } from '../../src/data/providers/OrderProvider';
+import { OrderService } from '../../src/services/OrderService';
+import { Order } from '../../src/types/checkout';
+
+const userId = 'user-1';
+
+const makeOrder = (orderId: string, createdAt: string): Order => ({
+  orderId,
+  confirmationNumber: `CONF-${orderId}`,
+  userId,
+  items: [{ productId: 'prod-1', title: 'Headphones', price: 40, quantity: 1, imageUrl: '' }],
+  shippingAddress: { street: '1 Main St', city: 'Austin', state: 'TX', postalCode: '73301', country: 'US' },
+  subtotal: 40,
+  tax: 3.2,
+  shipping: 9.99,
+  total: 53.19,
+  status: 'completed',
+  createdAt: new Date(createdAt),
+  estimatedDelivery: new Date(createdAt),
+});
+
+const jsonResponse = (body: unknown, status = 200) => ({
+  ok: status >= 200 && status < 300,
+  status,
+  json: async () => body,
+});
+
+describe('ApiOrderProvider', () => {
+  let fetchMock: jest.Mock;
+
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+    fetchMock = jest.fn();
+    (global as any).fetch = fetchMock;
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('keeps a local copy when the upload fails', async () => {
+    fetchMock.mockRejectedValue(new Error('Network request failed'));
+    const provider = new ApiOrderProvider('https://api.example.com');
+
+    await provider.saveOrder(makeOrder('ORD-1', '2024-05-01T00:00:00Z'));
+
+    const [localOrder] = await OrderService.getOrderHistory(userId);
+    expect(localOrder.orderId).toBe('ORD-1');
+  });
+
+  it('reads history from the server and uploads orders it has not seen', async () => {
+    const remote = JSON.parse(JSON.stringify(makeOrder('ORD-REMOTE', '2024-04-01T00:00:00Z')));
+    await OrderService.saveOrder(makeOrder('ORD-LOCAL', '2024-05-01T00:00:00Z'));
+    fetchMock.mockImplementation(async (url: string, options: RequestInit) =>
+      options.method === 'POST'
+        ? jsonResponse({}, 201)
+        : jsonResponse({ orders: [remote], total: 1, hasMore: false })
+    );
+    const provider = new ApiOrderProvider('https://api.example.com');
+
+    const orders = await provider.getOrderHistory(userId);
+
+    expect(fetchMock).toHaveBeenCalledWith(
+      'https://api.example.com/orders?userId=user-1&limit=100&offset=0',
+      { method: 'GET' }
+    );
+    expect(orders.map(order => order.orderId)).toEqual(['ORD-LOCAL', 'ORD-REMOTE']);
+    expect(orders[1].createdAt).toBeInstanceOf(Date);
+
+    const upload = fetchMock.mock.calls.find(([, options]) => options.method === 'POST');
+    expect(upload[0]).toBe('https://api.example.com/orders');
+    expect(JSON.parse(upload[1].body).orderId).toBe('ORD-LOCAL');
+
+    // The server's orders are now cached for offline use
+    expect((await OrderService.getOrderHistory(userId)).map(order => order.orderId)).toEqual([
+      'ORD-LOCAL',
+      'ORD-REMOTE',
+    ]);
+  });
+
+  it('keeps a local change whose upload failed and uploads it with the next history load', async () => {
+    const order = makeOrder('ORD-1', '2024-05-01T00:00:00Z');
+    const serverCopy = JSON.parse(JSON.stringify(order));
+    const provider = new ApiOrderProvider('https://api.example.com');
+    await OrderService.saveOrder(order);
+
+    fetchMock.mockRejectedValueOnce(new Error('Network request failed'));
+    await provider.saveOrder({ ...order, status: 'cancelled' });
+
+    fetchMock.mockImplementation(async (url: string, options: RequestInit) =>
+      options.method === 'POST'
+        ? jsonResponse({}, 200)
+        : jsonResponse({ orders: [serverCopy], total: 1, hasMore: false })
+    );
+    const orders = await provider.getOrderHistory(userId);
+
+    expect(orders.map(item => item.status)).toEqual(['cancelled']);
+    const upload = fetchMock.mock.calls.find(([, options]) => options.method === 'POST');
+    expect(JSON.parse(upload[1].body).status).toBe('cancelled');
+
+    // Once uploaded, the server's copy is used again
+    fetchMock.mockClear();
+    await provider.getOrderHistory(userId);
+    expect(fetchMock.mock.calls.some(([, options]) => options.method === 'POST')).toBe(false);
+  });
+
+  it('falls back to the local copy when the server is unreachable', async () => {
+    await OrderService.saveOrder(makeOrder('ORD-LOCAL', '2024-05-01T00:00:00Z'));
+    fetchMock.mockResolvedValue(jsonResponse({ error: 'down' }, 503));
+    const provider = new ApiOrderProvider('https://api.example.com');
+
+    const orders = await provider.getOrderHistory(userId);
+    expect(orders.map(order => order.orderId)).toEqual(['ORD-LOCAL']);
+
+    const order = await provider.getOrderById(userId, 'ORD-LOCAL');
+    expect(order?.orderId).toBe('ORD-LOCAL');
+  });
+
+  it('uses the local copy when the server does not know the order', async () => {
+    await OrderService.saveOrder(makeOrder('ORD-LOCAL', '2024-05-01T00:00:00Z'));
+    fetchMock.mockResolvedValue(jsonResponse({ error: 'Order not found' }, 404));
+    const provider = new ApiOrderProvider('https://api.example.com');
+
+    expect((await provider.getOrderById(userId, 'ORD-LOCAL'))?.orderId).toBe('ORD-LOCAL');
+    expect(await provider.getOrderById(userId, 'ORD-MISSING')).toBeNull();
+  });
+});
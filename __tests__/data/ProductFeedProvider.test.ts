@@ -1,4 +1,21 @@
-import { ApiProductFeedProvider } from '../../src/data/providers/ProductFeedProvider';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  ApiProductFeedProvider,
+  CachedProductFeedProvider,
+} from '../../src/data/providers/ProductFeedProvider';
+import { FeedRankingService } from '../../src/services/FeedRankingService';
+import { getSwipeHistoryService } from '../../src/services/SwipeHistoryService';
+
+const dummyProduct = (id: number) => ({
+  id,
+  title: `Product ${id}`,
+  description: '',
+  category: id % 2 ? 'beauty' : 'furniture',
+  price: 10 + id,
+  stock: 5,
+  thumbnail: `https://cdn.example/${id}.jpg`,
+  images: [],
+});
 
 describe('ApiProductFeedProvider DummyJSON integration', () => {
   beforeEach(() => {
@@ -32,13 +49,13 @@ describe('ApiProductFeedProvider DummyJSON integration', () => {
     });
 
     const provider = new ApiProductFeedProvider('https://dummyjson.com');
-    const result = await provider.getPersonalizedFeed({ page: 2, limit: 10 });
+    const result = await provider.getPersonalizedFeed({ page: 1, limit: 10 });
 
     expect((global as any).fetch).toHaveBeenCalledWith(
-      'https://dummyjson.com/products?limit=10&skip=10'
+      'https://dummyjson.com/products?limit=100&skip=0'
     );
     expect(result.pagination.total).toBe(100);
-    expect(result.pagination.page).toBe(2);
+    expect(result.pagination.page).toBe(1);
     expect(result.products[0]).toMatchObject({
       id: '1',
       title: 'Essence Mascara Lash Princess',
@@ -55,6 +72,86 @@ describe('ApiProductFeedProvider DummyJSON integration', () => {
     ]);
   });
 
+  it('ranks the feed once and serves later pages from that order', async () => {
+    const products = Array.from({ length: 30 }, (_, index) => dummyProduct(index + 1));
+    (global as any).fetch.mockResolvedValue({
+      ok: true,
+      json: async () => ({ total: 30, products }),
+    });
+    const ranker = new FeedRankingService({ seed: 7 });
+    const rank = jest.spyOn(ranker, 'rank');
+
+    const provider = new ApiProductFeedProvider('https://dummyjson.com', ranker);
+    const pages = [
+      await provider.getPersonalizedFeed({ page: 1, limit: 10 }),
+      await provider.getPersonalizedFeed({ page: 2, limit: 10 }),
+      await provider.getPersonalizedFeed({ page: 3, limit: 10 }),
+    ];
+
+    expect(rank).toHaveBeenCalledTimes(1);
+    expect((global as any).fetch).toHaveBeenCalledTimes(1);
+    const ids = pages.flatMap(page => page.products.map(product => product.id));
+    expect(ids).toEqual(rank.mock.results[0].value.map((product: { id: string }) => product.id));
+    expect(new Set(ids).size).toBe(30);
+    expect(pages.map(page => page.pagination.hasMore)).toEqual([true, true, false]);
+
+    // Page 1 starts a new feed
+    await provider.getPersonalizedFeed({ page: 1, limit: 10 });
+    expect(rank).toHaveBeenCalledTimes(2);
+  });
+
+  it('fetches the next chunk of candidates once the ranked ones run out', async () => {
+    (global as any).fetch.mockImplementation(async (url: string) => {
+      const skip = Number(new URL(url).searchParams.get('skip'));
+      return {
+        ok: true,
+        json: async () => ({
+          total: 150,
+          products: Array.from({ length: skip === 0 ? 100 : 50 }, (_, index) =>
+            dummyProduct(skip + index + 1)
+          ),
+        }),
+      };
+    });
+
+    const provider = new ApiProductFeedProvider('https://dummyjson.com');
+    const first = await provider.getPersonalizedFeed({ page: 1, limit: 60 });
+    const rest = await provider.getPersonalizedFeed({ page: 2, limit: 60 });
+
+    expect((global as any).fetch.mock.calls.map(([url]: [string]) => url)).toEqual([
+      'https://dummyjson.com/products?limit=100&skip=0',
+      'https://dummyjson.com/products?limit=100&skip=100',
+    ]);
+    expect(rest.products).toHaveLength(60);
+    expect(rest.pagination.hasMore).toBe(true);
+    const ids = [...first.products, ...rest.products].map(product => product.id);
+    expect(new Set(ids).size).toBe(120);
+  });
+
+  it('keeps session swipe history within the persisted history window', async () => {
+    const history = getSwipeHistoryService();
+    const retention = history.getRetention();
+    history.setRetention({ maxEntries: 2 });
+    const ranker = new FeedRankingService({ seed: 7 });
+    const rank = jest.spyOn(ranker, 'rank');
+    (global as any).fetch.mockResolvedValue({
+      ok: true,
+      json: async () => ({ total: 1, products: [dummyProduct(1)] }),
+    });
+
+    try {
+      const provider = new ApiProductFeedProvider('https://dummyjson.com', ranker);
+      for (const productId of ['a', 'b', 'c']) {
+        await provider.recordSwipeAction(productId, 'like', 'user-1');
+      }
+      await provider.getPersonalizedFeed({ page: 1, limit: 10 });
+
+      expect(rank.mock.calls[0][1].map(action => action.productId)).toEqual(['b', 'c']);
+    } finally {
+      history.setRetention(retention);
+    }
+  });
+
   it('returns local success for swipe action in DummyJSON mode', async () => {
     const provider = new ApiProductFeedProvider('https://dummyjson.com');
     const result = await provider.recordSwipeAction('1', 'like', 'user-1');
@@ -62,7 +159,70 @@ describe('ApiProductFeedProvider DummyJSON integration', () => {
     expect(result).toEqual({
       success: true,
       message: 'like action recorded locally',
+      swipeAction: expect.objectContaining({ productId: '1', action: 'like', userId: 'user-1' }),
     });
     expect((global as any).fetch).not.toHaveBeenCalled();
   });
+
+  it('counts search facets over every match before filtering', async () => {
+    (global as any).fetch.mockResolvedValue({
+      ok: true,
+      json: async () => ({
+        total: 3,
+        products: [
+          { id: 1, title: 'Desk Lamp', category: 'home-decoration', price: 50, brand: 'Acme', stock: 3 },
+          { id: 2, title: 'Mini Lamp', category: 'home-decoration', price: 20, brand: 'Acme', stock: 3 },
+          { id: 3, title: 'Floor Lamp', category: 'furniture', price: 300, brand: 'Zeta', stock: 1 },
+        ],
+      }),
+    });
+
+    const provider = new ApiProductFeedProvider('https://dummyjson.com');
+    const result = await provider.searchProducts('lamp', { page: 1, limit: 10 }, {
+      priceRange: { min: 50, max: 100 },
+    });
+
+    expect((global as any).fetch).toHaveBeenCalledWith(
+      'https://dummyjson.com/products/search?q=lamp&limit=100'
+    );
+    expect(result.products.map(product => product.id)).toEqual(['1']);
+    expect(result.pagination.total).toBe(1);
+    expect(result.facets?.priceBuckets.map(bucket => [bucket.value, bucket.count])).toEqual([
+      ['0-25', 1],
+      ['50-100', 1],
+      ['250-500', 1],
+    ]);
+  });
+});
+
+describe('CachedProductFeedProvider', () => {
+  beforeEach(async () => {
+    (global as any).fetch = jest.fn();
+    await AsyncStorage.clear();
+  });
+
+  it('serves the products the online feed cached, without the network', async () => {
+    (global as any).fetch.mockResolvedValue({
+      ok: true,
+      json: async () => ({
+        total: 2,
+        products: [
+          { id: 1, title: 'Mascara', category: 'beauty', price: 9.99, stock: 5 },
+          { id: 2, title: 'Lamp', category: 'home-decoration', price: 40, stock: 2 },
+        ],
+      }),
+    });
+    const online = new ApiProductFeedProvider('https://dummyjson.com');
+    await online.getPersonalizedFeed({ page: 1, limit: 10 });
+    (global as any).fetch.mockRejectedValue(new TypeError('Network request failed'));
+
+    const cached = new CachedProductFeedProvider(online);
+    const feed = await cached.getPersonalizedFeed({ page: 1, limit: 1 });
+    const filtered = await cached.getProducts({ page: 1, limit: 10 }, { categories: ['beauty'] });
+
+    expect(feed.products.map(product => product.id)).toEqual(['1']);
+    expect(feed.pagination).toEqual({ page: 1, limit: 1, total: 2, hasMore: true });
+    expect(filtered.products.map(product => product.title)).toEqual(['Mascara']);
+    expect((global as any).fetch).toHaveBeenCalledTimes(1);
+  });
 });
@@ -400,13 +400,28 @@ describe('OfflineModeService', () => {
     });
 
     it('should record offline swipe actions', async () => {
-      await offlineModeService.recordOfflineSwipe('product1', 'like');
+      await offlineModeService.recordOfflineSwipe('product1', 'like', 'test-user-123');
       
       expect(AsyncStorage.setItem).toHaveBeenCalledWith(
         'offline_data',
         expect.stringContaining('product1')
       );
     });
+
+    it('should forward offline edits to the registered providers', async () => {
+      const targets = {
+        addToCart: jest.fn().mockResolvedValue(undefined),
+        addToWishlist: jest.fn().mockResolvedValue(undefined),
+        recordSwipeAction: jest.fn().mockResolvedValue(undefined),
+      };
+      offlineModeService.setEditTargets(targets);
+
+      await offlineModeService.addToOfflineCart('product2', 1);
+      await offlineModeService.recordOfflineSwipe('product2', 'skip', 'test-user-123');
+
+      expect(targets.addToCart).toHaveBeenCalledWith('product2', 1);
+      expect(targets.recordSwipeAction).toHaveBeenCalledWith('product2', 'skip', 'test-user-123');
+    });
   });
 
   describe('Cache Management', () => {
@@ -0,0 +1,324 @@
+/**
+ * Two devices syncing one user's cart and wishlist through the HTTP
+ * transport. Each device edits and reads through its own CartService and
+ * WishlistService; the fake server below follows the backend's /sync contract.
+ */
+
+import { CartServiceImpl } from '../../src/services/CartService';
+import { DataSyncService, SyncData, SyncStorage } from '../../src/services/DataSyncService';
+import { HttpSyncTransport, compareVersionVectors } from '../../src/services/SyncTransport';
+import { WishlistServiceImpl } from '../../src/services/WishlistService';
+
+const userId = 'user-1';
+const cartKey = `cart_items_${userId}`;
+const wishlistKey = `wishlist_items_${userId}`;
+const baseUrl = 'https://api.example.com';
+
+const jsonResponse = (body: unknown, status = 200) => ({
+  ok: status >= 200 && status < 300,
+  status,
+  json: async () => body,
+});
+
+const createSyncServer = () => {
+  const records = new Map<string, SyncData & { serverVersion: number }>();
+  let cursor = 0;
+
+  const handle = async (url: string, options: RequestInit) => {
+    if (options.method === 'GET') {
+      const since = Number(new URL(url).searchParams.get('since'));
+      const changed = [...records.values()].filter(record => record.serverVersion > since);
+      return jsonResponse({ records: changed, cursor });
+    }
+
+    const { deviceId, records: pushed } = JSON.parse(String(options.body));
+    const results = pushed.map((record: SyncData) => {
+      const existing = records.get(record.id);
+      const order = existing
+        ? compareVersionVectors(record.versionVector, existing.versionVector)
+        : 'after';
+      if (order !== 'after') {
+        const status = { equal: 'unchanged', before: 'stale', concurrent: 'conflict' }[order];
+        return { id: record.id, status, record: existing };
+      }
+      cursor += 1;
+      const stored = { ...record, deviceId, serverVersion: cursor };
+      records.set(record.id, stored);
+      return { id: record.id, status: 'accepted', record: stored };
+    });
+    return jsonResponse({ results, cursor });
+  };
+
+  return { records, handle };
+};
+
+const createDeviceStorage = (): SyncStorage & { values: Map<string, string> } => {
+  const values = new Map<string, string>();
+  return {
+    values,
+    getItem: async (key: string) => values.get(key) ?? null,
+    setItem: async (key: string, value: string) => {
+      values.set(key, value);
+    },
+    removeItem: async (key: string) => {
+      values.delete(key);
+    },
+  } as SyncStorage & { values: Map<string, string> };
+};
+
+const createDevice = (deviceId: string) => {
+  const storage = createDeviceStorage();
+  const transport = new HttpSyncTransport(baseUrl);
+  const service = new DataSyncService({ deviceId, storage, transport });
+  service.setConflictResolutionStrategy('merge');
+  service.setUserId(userId);
+
+  const cart = new CartServiceImpl({ storage, syncService: service });
+  const wishlist = new WishlistServiceImpl({ storage, syncService: service });
+  service.setSyncTargets({
+    cart_items: data => cart.applySyncedData(data),
+    wishlist_items: data => wishlist.applySyncedData(data),
+  });
+  return { service, storage, transport, cart, wishlist };
+};
+
+// Cart lines as the device's cart service shows them
+const readCart = async (device: ReturnType<typeof createDevice>) =>
+  (await device.cart.getCartItems())
+    .map(({ productId, quantity, selectedVariants }) => ({ productId, quantity, selectedVariants }))
+    .sort((a, b) => JSON.stringify(a).localeCompare(JSON.stringify(b)));
+
+const readWishlist = async (device: ReturnType<typeof createDevice>) =>
+  (await device.wishlist.getWishlistItems())
+    .map(({ productId, collectionIds }) => ({ productId, collectionIds: [...(collectionIds ?? [])].sort() }))
+    .sort((a, b) => a.productId.localeCompare(b.productId));
+
+const line = (productId: string, quantity: number, selectedVariants = {}) => ({
+  productId,
+  quantity,
+  selectedVariants,
+});
+
+describe('DataSyncService over HTTP', () => {
+  let server: ReturnType<typeof createSyncServer>;
+
+  beforeEach(() => {
+    server = createSyncServer();
+    (global as any).fetch = jest.fn((url: string, options: RequestInit) => server.handle(url, options));
+  });
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('merges a cart edited on two devices while offline', async () => {
+    const phone = createDevice('phone');
+    const tablet = createDevice('tablet');
+
+    await phone.cart.addToCart('p1');
+    await phone.service.syncUserData(userId);
+    await tablet.service.syncUserData(userId);
+    expect(await readCart(tablet)).toEqual([line('p1', 1)]);
+
+    // Both devices edit the cart without syncing
+    await phone.cart.updateQuantity('p1', 3);
+    await tablet.cart.addToCart('p2');
+
+    const phoneResult = await phone.service.syncUserData(userId);
+    expect(phoneResult.conflicts).toHaveLength(0);
+
+    const tabletResult = await tablet.service.syncUserData(userId);
+    expect(tabletResult.success).toBe(true);
+    expect(tabletResult.conflicts).toHaveLength(1);
+    expect(tabletResult.conflicts[0].conflictType).toBe('version');
+
+    await phone.service.syncUserData(userId);
+
+    const expectedCart = [line('p1', 3), line('p2', 1)];
+    expect(await readCart(phone)).toEqual(expectedCart);
+    expect(await readCart(tablet)).toEqual(expectedCart);
+    expect(server.records.get(cartKey)?.versionVector).toEqual({ phone: 2, tablet: 2 });
+  });
+
+  it('keeps each variant of a product as its own cart line when merging', async () => {
+    const phone = createDevice('phone');
+    const tablet = createDevice('tablet');
+    jest
+      .spyOn(CartServiceImpl.prototype as any, 'assertVariantStock')
+      .mockResolvedValue(undefined);
+
+    await phone.cart.addToCart('p1', 1, { size: 'M' });
+    await tablet.cart.addToCart('p1', 2, { size: 'L' });
+
+    await phone.service.syncUserData(userId);
+    await tablet.service.syncUserData(userId);
+    await phone.service.syncUserData(userId);
+
+    const expectedCart = [line('p1', 1, { size: 'M' }), line('p1', 2, { size: 'L' })];
+    expect(await readCart(phone)).toEqual(expectedCart);
+    expect(await readCart(tablet)).toEqual(expectedCart);
+  });
+
+  it('merges the collections a wishlist item is saved in on each device', async () => {
+    const phone = createDevice('phone');
+    const tablet = createDevice('tablet');
+
+    await phone.wishlist.addToWishlist('p1');
+    await phone.service.syncUserData(userId);
+    await tablet.service.syncUserData(userId);
+
+    // The phone saves p1 to a new collection while the tablet likes p2
+    const gifts = await phone.wishlist.createCollection('Gift ideas');
+    await phone.wishlist.addToWishlist('p1', gifts.id);
+    await tablet.wishlist.addToWishlist('p2');
+
+    await phone.service.syncUserData(userId);
+    const tabletResult = await tablet.service.syncUserData(userId);
+    expect(tabletResult.conflicts).toHaveLength(1);
+    await phone.service.syncUserData(userId);
+
+    const expectedItems = [
+      { productId: 'p1', collectionIds: [gifts.id, 'default'].sort() },
+      { productId: 'p2', collectionIds: ['default'] },
+    ];
+    expect(await readWishlist(phone)).toEqual(expectedItems);
+    expect(await readWishlist(tablet)).toEqual(expectedItems);
+    expect((await tablet.wishlist.getCollections()).map(collection => collection.name)).toContain(
+      'Gift ideas'
+    );
+  });
+
+  it('merges again when another device pushes between pull and push', async () => {
+    const phone = createDevice('phone');
+    const tablet = createDevice('tablet');
+
+    await tablet.cart.addToCart('p2');
+    await phone.cart.addToCart('p1');
+
+    const pull = tablet.transport.pull.bind(tablet.transport);
+    jest.spyOn(tablet.transport, 'pull').mockImplementationOnce(async (...args) => {
+      const result = await pull(...args);
+      await phone.service.syncUserData(userId);
+      return result;
+    });
+
+    const result = await tablet.service.syncUserData(userId);
+    expect(result.success).toBe(true);
+    expect(result.conflicts).toHaveLength(1);
+
+    await phone.service.syncUserData(userId);
+    expect(await readCart(phone)).toEqual(await readCart(tablet));
+    expect((await readCart(phone)).map(item => item.productId)).toEqual(['p1', 'p2']);
+  });
+
+  it('holds conflicts for the user with the manual strategy and pushes their choice', async () => {
+    const phone = createDevice('phone');
+    const tablet = createDevice('tablet');
+    tablet.service.setConflictResolutionStrategy('manual');
+
+    await phone.cart.addToCart('p1');
+    await tablet.cart.addToCart('p2');
+    await phone.service.syncUserData(userId);
+
+    const result = await tablet.service.syncUserData(userId);
+    expect(result.conflicts).toHaveLength(1);
+
+    // Nothing changes on either side until the user decides, even across syncs
+    await tablet.service.syncUserData(userId);
+    expect(await readCart(tablet)).toEqual([line('p2', 1)]);
+    expect(server.records.get(cartKey)?.versionVector).toEqual({ phone: 1 });
+
+    const [pending] = await tablet.service.getPendingConflicts(userId);
+    expect(pending.localData.data.items.map((item: any) => item.productId)).toEqual(['p2']);
+    expect(pending.remoteData.data.items.map((item: any) => item.productId)).toEqual(['p1']);
+
+    await tablet.service.resolveConflict(userId, cartKey, 'remote');
+
+    // The choice reaches the cart the tablet shows, and the phone's on its next sync
+    expect(await readCart(tablet)).toEqual([line('p1', 1)]);
+    await phone.service.syncUserData(userId);
+    expect(await readCart(phone)).toEqual([line('p1', 1)]);
+    expect(await tablet.service.getPendingConflicts(userId)).toEqual([]);
+    expect(server.records.get(cartKey)?.versionVector).toEqual({ phone: 1, tablet: 2 });
+    await expect(tablet.service.resolveConflict(userId, cartKey, 'local')).rejects.toThrow(
+      `No pending conflict for ${cartKey}`
+    );
+  });
+
+  it('shows a merged manual resolution in the wishlist on both devices', async () => {
+    const phone = createDevice('phone');
+    const tablet = createDevice('tablet');
+    tablet.service.setConflictResolutionStrategy('manual');
+
+    await phone.wishlist.addToWishlist('p1');
+    await tablet.wishlist.addToWishlist('p2');
+    await phone.service.syncUserData(userId);
+    await tablet.service.syncUserData(userId);
+    expect(await readWishlist(tablet)).toEqual([{ productId: 'p2', collectionIds: ['default'] }]);
+
+    await tablet.service.resolveConflict(userId, wishlistKey, 'merge');
+    await phone.service.syncUserData(userId);
+
+    const expectedItems = [
+      { productId: 'p1', collectionIds: ['default'] },
+      { productId: 'p2', collectionIds: ['default'] },
+    ];
+    expect(await readWishlist(tablet)).toEqual(expectedItems);
+    expect(await readWishlist(phone)).toEqual(expectedItems);
+  });
+
+  it('tells listeners when a sync completes', async () => {
+    const phone = createDevice('phone');
+    const listener = jest.fn();
+    const unsubscribe = phone.service.onSyncComplete(listener);
+
+    await phone.cart.addToCart('p1');
+    await phone.service.syncUserData(userId);
+    expect(listener).toHaveBeenCalledWith(expect.objectContaining({ success: true }));
+
+    unsubscribe();
+    await phone.service.syncUserData(userId);
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps a sync successful and calls the other listeners when one throws', async () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const phone = createDevice('phone');
+    const listener = jest.fn();
+    phone.service.onSyncComplete(() => {
+      throw new Error('render failed');
+    });
+    phone.service.onSyncComplete(listener);
+
+    await phone.cart.addToCart('p1');
+    const result = await phone.service.syncUserData(userId);
+
+    expect(result.success).toBe(true);
+    expect(result.errors).toEqual([]);
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(warn).toHaveBeenCalledWith('Sync listener failed:', expect.any(Error));
+  });
+
+  it('reports a failed pull without touching local data', async () => {
+    (global as any).fetch = jest.fn(async () => jsonResponse({ error: 'down' }, 503));
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    const phone = createDevice('phone');
+    await phone.cart.addToCart('p1');
+    const before = phone.storage.values.get(cartKey);
+
+    const listener = jest.fn();
+    phone.service.onSyncComplete(listener);
+
+    const result = await phone.service.syncUserData(userId);
+
+    expect(result.success).toBe(false);
+    expect(listener).not.toHaveBeenCalled();
+    expect(result.errors[0]).toContain('Failed to pull sync data: 503');
+    expect(phone.storage.values.get(cartKey)).toBe(before);
+    expect(await readCart(phone)).toEqual([line('p1', 1)]);
+  });
+});
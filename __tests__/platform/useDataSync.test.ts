@@ -325,7 +325,7 @@ describe('useOfflineData Hook', () => {
         await result.current.recordOfflineSwipe('product1', 'like');
       });
 
-      expect(offlineModeService.recordOfflineSwipe).toHaveBeenCalledWith('product1', 'like');
+      expect(offlineModeService.recordOfflineSwipe).toHaveBeenCalledWith('product1', 'like', mockUserId);
     });
 
     it('should not perform offline operations when online', async () => {
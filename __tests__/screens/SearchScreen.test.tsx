@@ -0,0 +1,185 @@
+import React from 'react';
+import { render, fireEvent, waitFor } from '@testing-library/react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { SearchScreen } from '../../src/screens/main/SearchScreen';
+import { getProductFeedProvider } from '../../src/data/providers';
+import { ProductCard, ProductFeedResponse } from '../../src/types';
+
+const mockNavigate = jest.fn();
+let mockRouteParams: { q?: string } | undefined;
+
+jest.mock('@react-navigation/native', () => ({
+  ...jest.requireActual('@react-navigation/native'),
+  useNavigation: () => ({
+    navigate: mockNavigate,
+    goBack: jest.fn(),
+  }),
+  useRoute: () => ({
+    params: mockRouteParams,
+  }),
+}));
+
+jest.mock('../../src/data/providers', () => ({
+  getProductFeedProvider: jest.fn(),
+}));
+
+const mockProduct: ProductCard = {
+  id: 'prod-1',
+  title: 'Premium Wireless Headphones',
+  price: 299.99,
+  currency: 'USD',
+  imageUrls: ['https://example.com/headphones.jpg'],
+  category: { id: 'electronics', name: 'Electronics' },
+  description: 'Noise cancelling headphones',
+  specifications: {},
+  availability: true,
+};
+
+const mockResponse: ProductFeedResponse = {
+  products: [mockProduct],
+  pagination: { page: 1, limit: 20, total: 1, hasMore: false },
+  filters: { categories: [] },
+  facets: {
+    categories: [{ value: 'electronics', label: 'Electronics', count: 1 }],
+    brands: [],
+    priceBuckets: [{ value: '250-500', label: '$250 - $500', min: 250, max: 500, count: 1 }],
+  },
+};
+
+const mockProvider = {
+  searchProducts: jest.fn(),
+  getSearchSuggestions: jest.fn(),
+};
+
+describe('SearchScreen', () => {
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    await AsyncStorage.clear();
+    mockRouteParams = undefined;
+    (getProductFeedProvider as jest.Mock).mockReturnValue(mockProvider);
+    mockProvider.searchProducts.mockResolvedValue(mockResponse);
+    mockProvider.getSearchSuggestions.mockResolvedValue([]);
+  });
+
+  it('should show the empty prompt before a query is entered', () => {
+    const { getByText } = render(<SearchScreen />);
+
+    expect(getByText('Find something new')).toBeTruthy();
+    expect(mockProvider.searchProducts).not.toHaveBeenCalled();
+  });
+
+  it('should search after the debounce and render results with facets', async () => {
+    const { getByLabelText, findByText, getByText } = render(<SearchScreen />);
+
+    fireEvent.changeText(getByLabelText('Search products'), 'headphones');
+
+    expect(await findByText('Premium Wireless Headphones')).toBeTruthy();
+    expect(mockProvider.searchProducts).toHaveBeenCalledTimes(1);
+    expect(mockProvider.searchProducts).toHaveBeenCalledWith(
+      'headphones',
+      { page: 1, limit: 20 },
+      expect.objectContaining({ categories: undefined })
+    );
+    expect(getByText('Electronics (1)')).toBeTruthy();
+    expect(getByText('1 result')).toBeTruthy();
+  });
+
+  it('should prefill the query from the deep link param', async () => {
+    mockRouteParams = { q: 'wireless' };
+
+    const { findByText } = render(<SearchScreen />);
+
+    expect(await findByText('Premium Wireless Headphones')).toBeTruthy();
+    expect(mockProvider.searchProducts).toHaveBeenCalledWith('wireless', expect.anything(), expect.anything());
+  });
+
+  it('should re-run the search with a facet filter when a chip is pressed', async () => {
+    mockRouteParams = { q: 'headphones' };
+    const { findByText } = render(<SearchScreen />);
+
+    fireEvent.press(await findByText('Electronics (1)'));
+
+    await waitFor(() => {
+      expect(mockProvider.searchProducts).toHaveBeenLastCalledWith(
+        'headphones',
+        expect.anything(),
+        expect.objectContaining({ categories: ['electronics'] })
+      );
+    });
+  });
+
+  it('should drop facet filters when the query changes', async () => {
+    mockRouteParams = { q: 'headphones' };
+    const { findByText, getByLabelText } = render(<SearchScreen />);
+
+    fireEvent.press(await findByText('Electronics (1)'));
+    await waitFor(() => {
+      expect(mockProvider.searchProducts).toHaveBeenLastCalledWith(
+        'headphones',
+        expect.anything(),
+        expect.objectContaining({ categories: ['electronics'] })
+      );
+    });
+
+    fireEvent.changeText(getByLabelText('Search products'), 'lamp');
+    fireEvent(getByLabelText('Search products'), 'submitEditing');
+
+    await waitFor(() => {
+      expect(mockProvider.searchProducts).toHaveBeenLastCalledWith(
+        'lamp',
+        expect.anything(),
+        expect.objectContaining({ categories: undefined, priceRange: undefined })
+      );
+    });
+    expect(mockProvider.searchProducts).not.toHaveBeenCalledWith(
+      'lamp',
+      expect.anything(),
+      expect.objectContaining({ categories: ['electronics'] })
+    );
+  });
+
+  it('should load the next page of results at the end of the list', async () => {
+    const secondProduct = { ...mockProduct, id: 'prod-2', title: 'Studio Headphones' };
+    mockProvider.searchProducts
+      .mockResolvedValueOnce({
+        ...mockResponse,
+        pagination: { page: 1, limit: 20, total: 2, hasMore: true },
+      })
+      .mockResolvedValueOnce({
+        ...mockResponse,
+        products: [secondProduct],
+        pagination: { page: 2, limit: 20, total: 2, hasMore: false },
+      });
+    mockRouteParams = { q: 'headphones' };
+    const { findByText, getByTestId } = render(<SearchScreen />);
+
+    expect(await findByText('Showing 1 of 2 results')).toBeTruthy();
+
+    fireEvent(getByTestId('search-results'), 'onEndReached');
+
+    expect(await findByText('Studio Headphones')).toBeTruthy();
+    expect(await findByText('2 results')).toBeTruthy();
+    expect(mockProvider.searchProducts).toHaveBeenLastCalledWith(
+      'headphones',
+      { page: 2, limit: 20 },
+      expect.anything()
+    );
+  });
+
+  it('should open product details and remember the query when a result is tapped', async () => {
+    mockRouteParams = { q: 'headphones' };
+    const { findByText } = render(<SearchScreen />);
+
+    fireEvent.press(await findByText('Premium Wireless Headphones'));
+
+    expect(mockNavigate).toHaveBeenCalledWith('ProductDetails', {
+      productId: 'prod-1',
+      product: mockProduct,
+    });
+    await waitFor(async () => {
+      expect(JSON.parse((await AsyncStorage.getItem('@swipely_recent_searches')) || '[]')).toEqual([
+        'headphones',
+      ]);
+    });
+  });
+});
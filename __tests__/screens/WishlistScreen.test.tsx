@@ -1,7 +1,9 @@
 import React from 'react';
 import { render, fireEvent, waitFor } from '@testing-library/react-native';
 import { Alert } from 'react-native';
+import { Provider } from 'react-redux';
 import { WishlistScreen } from '../../src/screens/main/WishlistScreen';
+import { createAppStore } from '../../src/store';
 import { getWishlistService } from '../../src/services/WishlistService';
 import { getCartService } from '../../src/services/CartService';
 import { ProductCard } from '../../src/types';
@@ -18,6 +20,13 @@ jest.mock('../../src/services/CartService', () => ({
 // Mock Alert
 jest.spyOn(Alert, 'alert');
 
+const renderWishlistScreen = () =>
+  render(
+    <Provider store={createAppStore()}>
+      <WishlistScreen />
+    </Provider>
+  );
+
 const mockWishlistService = {
   getWishlistItemsWithDetails: jest.fn(),
   removeFromWishlist: jest.fn(),
@@ -54,7 +63,7 @@ describe('WishlistScreen', () => {
     it('should show loading state initially', async () => {
       mockWishlistService.getWishlistItemsWithDetails.mockImplementation(() => new Promise(() => {}));
 
-      const { getByText } = render(<WishlistScreen />);
+      const { getByText } = renderWishlistScreen();
 
       expect(getByText('Loading wishlist...')).toBeTruthy();
     });
@@ -64,7 +73,7 @@ describe('WishlistScreen', () => {
     it('should show empty wishlist message when no items', async () => {
       mockWishlistService.getWishlistItemsWithDetails.mockResolvedValue([]);
 
-      const { getByText } = render(<WishlistScreen />);
+      const { getByText } = renderWishlistScreen();
 
       await waitFor(() => {
         expect(getByText('💖 Your wishlist is empty')).toBeTruthy();
@@ -79,7 +88,7 @@ describe('WishlistScreen', () => {
     });
 
     it('should display wishlist items correctly in grid view', async () => {
-      const { getByText } = render(<WishlistScreen />);
+      const { getByText } = renderWishlistScreen();
 
       await waitFor(() => {
         expect(getByText('Wishlist')).toBeTruthy();
@@ -90,7 +99,7 @@ describe('WishlistScreen', () => {
     });
 
     it('should toggle between grid and list view', async () => {
-      const { getByText } = render(<WishlistScreen />);
+      const { getByText } = renderWishlistScreen();
 
       await waitFor(() => {
         const viewModeButton = getByText('☰'); // List view button
@@ -106,7 +115,7 @@ describe('WishlistScreen', () => {
     it('should handle add to cart action', async () => {
       mockCartService.addToCart.mockResolvedValue(undefined);
 
-      const { getAllByText } = render(<WishlistScreen />);
+      const { getAllByText } = renderWishlistScreen();
 
       await waitFor(() => {
         const addToCartButtons = getAllByText('Add to Cart');
@@ -114,7 +123,7 @@ describe('WishlistScreen', () => {
       });
 
       await waitFor(() => {
-        expect(mockCartService.addToCart).toHaveBeenCalledWith('test-product-1', 1);
+        expect(mockCartService.addToCart).toHaveBeenCalledWith('test-product-1', 1, undefined);
         expect(Alert.alert).toHaveBeenCalledWith('Success', 'Item added to cart!');
       });
     });
@@ -124,7 +133,7 @@ describe('WishlistScreen', () => {
       mockWishlistService.getWishlistItemsWithDetails.mockResolvedValueOnce([mockWishlistItemWithProduct])
         .mockResolvedValueOnce([]);
 
-      const { getAllByText } = render(<WishlistScreen />);
+      const { getAllByText } = renderWishlistScreen();
 
       await waitFor(() => {
         const removeButtons = getAllByText('✕');
@@ -144,7 +153,7 @@ describe('WishlistScreen', () => {
     it('should handle add to cart errors', async () => {
       mockCartService.addToCart.mockRejectedValue(new Error('Add to cart failed'));
 
-      const { getAllByText } = render(<WishlistScreen />);
+      const { getAllByText } = renderWishlistScreen();
 
       await waitFor(() => {
         const addToCartButtons = getAllByText('Add to Cart');
@@ -159,7 +168,7 @@ describe('WishlistScreen', () => {
     it('should handle remove from wishlist errors', async () => {
       mockWishlistService.removeFromWishlist.mockRejectedValue(new Error('Remove failed'));
 
-      const { getAllByText } = render(<WishlistScreen />);
+      const { getAllByText } = renderWishlistScreen();
 
       await waitFor(() => {
         const removeButtons = getAllByText('✕');
@@ -183,7 +192,7 @@ describe('WishlistScreen', () => {
     });
 
     it('should show added date in list view', async () => {
-      const { getByText } = render(<WishlistScreen />);
+      const { getByText } = renderWishlistScreen();
 
       // Switch to list view
       await waitFor(() => {
@@ -197,7 +206,7 @@ describe('WishlistScreen', () => {
     });
 
     it('should have different layout for add to cart button in list view', async () => {
-      const { getByText, getAllByText } = render(<WishlistScreen />);
+      const { getByText, getAllByText } = renderWishlistScreen();
 
       // Switch to list view
       await waitFor(() => {
@@ -217,7 +226,7 @@ describe('WishlistScreen', () => {
     it('should handle pull to refresh', async () => {
       mockWishlistService.getWishlistItemsWithDetails.mockResolvedValue([mockWishlistItemWithProduct]);
 
-      render(<WishlistScreen />);
+      renderWishlistScreen();
 
       // In a real test, we would simulate the pull-to-refresh gesture
       // For now, we just verify the service is called
@@ -232,11 +241,11 @@ describe('WishlistScreen', () => {
       const consoleSpy = jest.spyOn(console, 'error').mockImplementation();
       mockWishlistService.getWishlistItemsWithDetails.mockRejectedValue(new Error('Load failed'));
 
-      render(<WishlistScreen />);
+      renderWishlistScreen();
 
       await waitFor(() => {
         expect(Alert.alert).toHaveBeenCalledWith('Error', 'Failed to load wishlist items');
-        expect(consoleSpy).toHaveBeenCalledWith('Failed to load wishlist items:', expect.any(Error));
+        expect(consoleSpy).toHaveBeenCalledWith('Failed to load wishlist items:', expect.objectContaining({ message: 'Load failed' }));
       });
 
       consoleSpy.mockRestore();
@@ -261,7 +270,7 @@ describe('WishlistScreen', () => {
     it('should display correct item count for multiple items', async () => {
       mockWishlistService.getWishlistItemsWithDetails.mockResolvedValue(multipleItems);
 
-      const { getByText } = render(<WishlistScreen />);
+      const { getByText } = renderWishlistScreen();
 
       await waitFor(() => {
         expect(getByText('2 items')).toBeTruthy();
@@ -271,7 +280,7 @@ describe('WishlistScreen', () => {
     it('should render multiple items in grid view', async () => {
       mockWishlistService.getWishlistItemsWithDetails.mockResolvedValue(multipleItems);
 
-      const { getByText } = render(<WishlistScreen />);
+      const { getByText } = renderWishlistScreen();
 
       await waitFor(() => {
         expect(getByText('Test Product')).toBeTruthy();
@@ -0,0 +1,218 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import defaultExperiments from '../../src/config/experiments.json';
+import { ABTest, ABTestingService } from '../../src/services/ABTestingService';
+import { AnalyticsService } from '../../src/services/AnalyticsService';
+import {
+  ExperimentVariantCounts,
+  getExperimentConfigService,
+} from '../../src/services/ExperimentConfigService';
+
+// Sequential ids hash into the same bucket, so scramble them
+const userId = (i: number) => `${((i * 2654435761) >>> 0).toString(36)}-user`;
+
+const checkoutTest: Omit<ABTest, 'id'> = {
+  name: 'Checkout button',
+  description: 'Button copy test',
+  variants: [
+    { id: 'control', name: 'Buy', description: '', allocation: 50, isControl: true, config: {} },
+    { id: 'treatment', name: 'Get it now', description: '', allocation: 50, isControl: false, config: {} },
+  ],
+  trafficAllocation: 100,
+  startDate: new Date(),
+  status: 'active',
+  primaryMetric: 'purchase',
+  sampleSize: 500,
+};
+
+describe('ABTestingService', () => {
+  let service: ABTestingService;
+  let trackEvent: jest.SpyInstance;
+
+  beforeEach(() => {
+    ABTestingService.resetInstance();
+    service = ABTestingService.getInstance();
+    trackEvent = jest.spyOn(AnalyticsService.getInstance(), 'trackEvent').mockResolvedValue();
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    ABTestingService.resetInstance();
+    await AsyncStorage.clear();
+  });
+
+  /**
+   * Expose users one by one and convert them at the given rate per variant
+   */
+  const runTraffic = async (
+    testId: string,
+    users: number,
+    convertEvery: Record<string, number>,
+    metric = 'purchase'
+  ) => {
+    for (let i = 0; i < users; i++) {
+      const variant = await service.getVariant(testId, userId(i));
+      if (variant && i % convertEvery[variant.id] === 0) {
+        await service.trackConversion(testId, userId(i), metric);
+      }
+    }
+  };
+
+  it('reports conversion rates over exposed users, counting each user once', async () => {
+    const testId = await service.createTest(checkoutTest);
+    const users = [0, 1, 2, 3, 4, 5, 6, 7].map(userId);
+    const variants = await Promise.all(users.map(id => service.getVariant(testId, id)));
+    const controlUsers = users.filter((_, i) => variants[i]?.id === 'control');
+
+    await service.trackConversion(testId, controlUsers[0], 'purchase', 20);
+    await service.trackConversion(testId, controlUsers[0], 'purchase', 30);
+
+    const control = service.getTestResults(testId).find(result => result.variantId === 'control')!;
+    expect(control.sampleSize).toBe(controlUsers.length);
+    expect(control.conversions).toBe(1);
+    expect(control.value).toBe(50);
+    expect(control.conversionRate).toBeCloseTo(1 / controlUsers.length, 6);
+    expect(service.getTestResults(testId)).toHaveLength(2);
+  });
+
+  it('never ends a test on a conversion, however lopsided the local results', async () => {
+    const loadResults = jest.spyOn(getExperimentConfigService(), 'loadResults');
+    const testId = await service.createTest(checkoutTest);
+
+    await runTraffic(testId, 600, { control: 10, treatment: 2 });
+
+    expect(service.getAllTests().find(t => t.id === testId)!.status).toBe('active');
+    expect(service.analyzeTest(testId, 'purchase')!.decision).toBe('winner');
+    expect(loadResults).not.toHaveBeenCalled();
+  });
+
+  it('decides the test on the backend counts once every variant reaches the sample size', async () => {
+    const results = (control: ExperimentVariantCounts, treatment: ExperimentVariantCounts) =>
+      jest.spyOn(getExperimentConfigService(), 'loadResults').mockResolvedValue([control, treatment]);
+    const testId = await service.createTest(checkoutTest);
+
+    const loadResults = results(
+      { variantId: 'control', exposures: 500, conversions: 50 },
+      { variantId: 'treatment', exposures: 320, conversions: 160 }
+    );
+    expect((await service.evaluateTest(testId))!.decision).toBe('insufficient_data');
+    expect(loadResults).toHaveBeenCalledWith(testId, 'purchase', 500);
+    expect(service.getAllTests().find(t => t.id === testId)!.status).toBe('active');
+
+    results(
+      { variantId: 'control', exposures: 500, conversions: 50 },
+      { variantId: 'treatment', exposures: 500, conversions: 250 }
+    );
+    expect((await service.evaluateTest(testId))!.decision).toBe('winner');
+
+    const test = service.getAllTests().find(t => t.id === testId)!;
+    expect(test.status).toBe('completed');
+    expect(test.winningVariantId).toBe('treatment');
+    expect(test.endDate).toBeInstanceOf(Date);
+    expect(trackEvent).toHaveBeenCalledWith('ab_test_status_changed', {
+      test_id: testId,
+      old_status: 'active',
+      new_status: 'completed',
+    });
+  });
+
+  it('completes without a winner when the results are close at the sample size', async () => {
+    jest.spyOn(getExperimentConfigService(), 'loadResults').mockResolvedValue([
+      { variantId: 'control', exposures: 500, conversions: 100 },
+      { variantId: 'treatment', exposures: 500, conversions: 104 },
+    ]);
+    const testId = await service.createTest(checkoutTest);
+
+    expect((await service.evaluateTest(testId))!.decision).toBe('no_winner');
+
+    const test = service.getAllTests().find(t => t.id === testId)!;
+    expect(test.status).toBe('completed');
+    expect(test.winningVariantId).toBeUndefined();
+    expect(trackEvent).not.toHaveBeenCalledWith('ab_test_winner', expect.anything());
+  });
+
+  it('leaves a test running when the backend counts cannot be loaded', async () => {
+    jest.spyOn(getExperimentConfigService(), 'loadResults').mockResolvedValue(null);
+    const testId = await service.createTest(checkoutTest);
+
+    expect(await service.evaluateTest(testId)).toBeNull();
+    expect(service.getAllTests().find(t => t.id === testId)!.status).toBe('active');
+  });
+
+  it('replaces the bundled tests with the remote config and honors audiences', async () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const { primaryMetric, sampleSize, ...remote } = checkoutTest;
+    service.applyConfig({
+      version: 2,
+      experiments: [
+        {
+          ...remote,
+          id: 'checkout_v2',
+          startDate: '2024-01-01T00:00:00.000Z',
+          targetAudience: { platforms: ['android'], minAppVersion: '1.0.0' },
+        },
+        {
+          ...remote,
+          id: 'broken_v1',
+          startDate: '2024-01-01T00:00:00.000Z',
+          variants: remote.variants.map(variant => ({ ...variant, allocation: 60 })),
+        },
+      ],
+      flags: {
+        new_checkout: { enabled: true, targetAudience: { maxAppVersion: '0.9.0' } },
+        dark_mode: { enabled: true },
+      },
+    });
+
+    expect(service.getAllTests().map(test => test.id)).toEqual(['checkout_v2']);
+
+    service.setAudienceContext({ platform: 'ios', appVersion: '1.0.0' });
+    expect(await service.getVariant('checkout_v2', userId(1))).toBeNull();
+    service.setAudienceContext({ platform: 'android' });
+    expect(await service.getVariant('checkout_v2', userId(1))).not.toBeNull();
+
+    expect(service.getFeatureFlag('new_checkout', userId(1))).toBe(false);
+    expect(service.getFeatureFlag('dark_mode')).toBe(true);
+    expect(service.getFeatureFlag('unknown_flag', userId(1))).toBeUndefined();
+  });
+
+  it('starts from the bundled experiments and lets the remote config override a completed test', async () => {
+    expect(service.getActiveTests().map(test => test.id)).toEqual(
+      defaultExperiments.experiments.map(experiment => experiment.id)
+    );
+
+    jest.spyOn(getExperimentConfigService(), 'loadResults').mockResolvedValue([
+      { variantId: 'control', exposures: 500, conversions: 50 },
+      { variantId: 'treatment', exposures: 500, conversions: 250 },
+    ]);
+    const { startDate, ...remote } = checkoutTest;
+    const document = {
+      version: 2,
+      experiments: [{ ...remote, id: 'checkout_v2', startDate: '2024-01-01T00:00:00.000Z' }],
+      flags: {},
+    };
+    service.applyConfig(document);
+    await service.evaluateTest('checkout_v2');
+    expect(service.getAllTests()[0].status).toBe('completed');
+
+    service.applyConfig({
+      ...document,
+      experiments: [{ ...document.experiments[0], sampleSize: 2000 }],
+    });
+    const test = service.getAllTests()[0];
+    expect(test.status).toBe('active');
+    expect(test.winningVariantId).toBeUndefined();
+    expect(test.sampleSize).toBe(2000);
+  });
+
+  it('serves a forced variant without counting it in the results', async () => {
+    const testId = await service.createTest(checkoutTest);
+    await service.setVariantOverride(testId, 'treatment');
+
+    const variants = await Promise.all([0, 1, 2, 3, 4, 5].map(i => service.getVariant(testId, userId(i))));
+    expect(variants.every(variant => variant?.id === 'treatment')).toBe(true);
+    expect(service.analyzeTest(testId, 'purchase')!.variants.every(v => v.exposures === 0)).toBe(true);
+
+    await service.setVariantOverride(testId, null);
+    expect(await service.getVariantOverrides()).toEqual({});
+  });
+});
@@ -0,0 +1,177 @@
+import { AnalyticsService, AnalyticsServiceOptions } from '../../src/services/AnalyticsService';
+import { ANALYTICS_SCHEMA_VERSION, AnalyticsPayload } from '../../src/services/AnalyticsTransport';
+import { SyncStorage } from '../../src/services/DataSyncService';
+import { ErrorHandlingService } from '../../src/services/ErrorHandlingService';
+import { ErrorFactory } from '../../src/utils/ErrorFactory';
+
+const createStorage = (): SyncStorage & { values: Map<string, string> } => {
+  const values = new Map<string, string>();
+  return {
+    values,
+    getItem: async (key: string) => values.get(key) ?? null,
+    setItem: async (key: string, value: string) => {
+      values.set(key, value);
+    },
+    removeItem: async (key: string) => {
+      values.delete(key);
+    },
+  } as SyncStorage & { values: Map<string, string> };
+};
+
+const bufferedEvents = (storage: ReturnType<typeof createStorage>) =>
+  JSON.parse(storage.values.get('@swipely_analytics_buffer') ?? '[]');
+
+describe('AnalyticsService', () => {
+  let storage: ReturnType<typeof createStorage>;
+  let sent: AnalyticsPayload[];
+  let send: jest.Mock;
+
+  const createService = (options: AnalyticsServiceOptions = {}) => {
+    AnalyticsService.resetInstance();
+    return AnalyticsService.getInstance({
+      transport: { send },
+      storage,
+      enabled: true,
+      batchSize: 3,
+      flushIntervalMs: 1000,
+      ...options,
+    });
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    storage = createStorage();
+    sent = [];
+    send = jest.fn(async (payload: AnalyticsPayload) => {
+      sent.push(payload);
+    });
+    jest.spyOn(ErrorHandlingService.prototype as any, 'delay').mockResolvedValue(undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    AnalyticsService.resetInstance();
+    jest.restoreAllMocks();
+    jest.useRealTimers();
+  });
+
+  it('sends nothing until the user consents', async () => {
+    const analytics = createService();
+
+    await analytics.trackEvent('screen_view');
+    await analytics.trackEvent('screen_view');
+    await analytics.trackEvent('screen_view');
+    await jest.advanceTimersByTimeAsync(5000);
+
+    expect(send).not.toHaveBeenCalled();
+    expect(storage.values.has('@swipely_analytics_buffer')).toBe(false);
+    expect(analytics.getAnalyticsSummary().totalEvents).toBe(3);
+  });
+
+  it('sends nothing when analytics is turned off for the build', async () => {
+    const analytics = createService({ enabled: false });
+    await analytics.setAnalyticsConsent(true);
+
+    await analytics.trackEvent('screen_view');
+    await analytics.flushEvents();
+
+    expect(send).not.toHaveBeenCalled();
+  });
+
+  it('sends a schema-versioned batch once it is full', async () => {
+    const analytics = createService();
+    await analytics.setAnalyticsConsent(true);
+
+    await analytics.trackEvent('screen_view', { screen: 'feed' }, 'user-1');
+    await analytics.trackEvent('screen_view', { screen: 'cart' }, 'user-1');
+    expect(send).not.toHaveBeenCalled();
+    expect(bufferedEvents(storage)).toHaveLength(2);
+
+    await analytics.trackEvent('screen_view', { screen: 'wishlist' }, 'user-1');
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(sent).toHaveLength(1);
+    expect(sent[0].schemaVersion).toBe(ANALYTICS_SCHEMA_VERSION);
+    expect(sent[0].events.map(event => event.properties.screen)).toEqual(['feed', 'cart', 'wishlist']);
+    expect(new Set(sent[0].events.map(event => event.id)).size).toBe(3);
+    expect(bufferedEvents(storage)).toEqual([]);
+  });
+
+  it('sends a partial batch after the flush interval and restores events after a restart', async () => {
+    const first = createService();
+    await first.setAnalyticsConsent(true);
+    await first.trackEvent('screen_view');
+
+    // The app is killed before the interval passes
+    const restarted = createService();
+    await restarted.hasAnalyticsConsent();
+    await jest.advanceTimersByTimeAsync(1000);
+
+    expect(sent).toHaveLength(1);
+    expect(sent[0].events).toHaveLength(1);
+    expect(sent[0].events[0].name).toBe('screen_view');
+  });
+
+  it('saves the buffer when a buffered swipe is marked undone', async () => {
+    const analytics = createService({ batchSize: 10 });
+    await analytics.setAnalyticsConsent(true);
+    await analytics.trackSwipe('p1', 'like', 'electronics', 25);
+    // The undo event itself is not buffered, so only the undo marking writes the buffer
+    jest.spyOn(analytics, 'trackEvent').mockResolvedValue(undefined);
+
+    expect(await analytics.markSwipeUndone('p1')).toBe(true);
+
+    const swipeEvents = bufferedEvents(storage).filter(
+      (event: { properties: { product_id?: string } }) => event.properties.product_id === 'p1'
+    );
+    expect(swipeEvents.length).toBeGreaterThan(0);
+    expect(swipeEvents.every((event: { undone?: boolean }) => event.undone)).toBe(true);
+  });
+
+  it('keeps events through failures and backs off before trying again', async () => {
+    const analytics = createService();
+    await analytics.setAnalyticsConsent(true);
+    send.mockRejectedValue(ErrorFactory.createNetworkError('Failed to send analytics events: 503', { statusCode: 503 }));
+
+    await analytics.trackEvent('screen_view');
+    await jest.advanceTimersByTimeAsync(1000);
+    // executeWithRetry makes three attempts per flush
+    expect(send).toHaveBeenCalledTimes(3);
+    expect(bufferedEvents(storage)).toHaveLength(1);
+
+    send.mockImplementation(async (payload: AnalyticsPayload) => {
+      sent.push(payload);
+    });
+    await jest.advanceTimersByTimeAsync(1999);
+    expect(sent).toHaveLength(0);
+    await jest.advanceTimersByTimeAsync(1);
+    expect(sent).toHaveLength(1);
+    expect(bufferedEvents(storage)).toEqual([]);
+  });
+
+  it('drops a batch the server rejects', async () => {
+    const analytics = createService();
+    await analytics.setAnalyticsConsent(true);
+    send.mockRejectedValueOnce(ErrorFactory.createNetworkError('Failed to send analytics events: 400', { statusCode: 400 }));
+
+    await analytics.trackEvent('screen_view');
+    await analytics.flushEvents();
+
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(bufferedEvents(storage)).toEqual([]);
+  });
+
+  it('discards unsent events when consent is withdrawn', async () => {
+    const analytics = createService();
+    await analytics.setAnalyticsConsent(true);
+    await analytics.trackEvent('screen_view');
+
+    await analytics.setAnalyticsConsent(false);
+    await jest.advanceTimersByTimeAsync(5000);
+
+    expect(send).not.toHaveBeenCalled();
+    expect(storage.values.has('@swipely_analytics_buffer')).toBe(false);
+    expect(await analytics.hasAnalyticsConsent()).toBe(false);
+  });
+});
@@ -1,6 +1,9 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { CartServiceImpl, getCartService, resetCartService } from '../../src/services/CartService';
-import { CartItem } from '../../src/types';
+import { ProductDetailsService } from '../../src/services/ProductDetailsService';
+import { dataSyncService } from '../../src/services/DataSyncService';
+import { CartItem, ProductCard } from '../../src/types';
+import { getCartLineId } from '../../src/utils/productVariants';
 
 // Mock AsyncStorage
 jest.mock('@react-native-async-storage/async-storage', () => ({
@@ -115,6 +118,25 @@ describe('CartService', () => {
 
       await expect(service.addToCart(mockProductId, 1)).rejects.toThrow('Failed to save cart data');
     });
+
+    it('should record the edit for sync against the signed-in user', async () => {
+      (AsyncStorage.getItem as jest.Mock).mockResolvedValue(null);
+      (AsyncStorage.setItem as jest.Mock).mockResolvedValue(undefined);
+      dataSyncService.setUserId('user-1');
+
+      try {
+        await service.addToCart(mockProductId, 2);
+      } finally {
+        dataSyncService.setUserId(null);
+      }
+
+      const [, recorded] = (AsyncStorage.setItem as jest.Mock).mock.calls.find(
+        ([key]) => key === 'cart_items_user-1'
+      );
+      expect(JSON.parse(recorded).items).toEqual([
+        expect.objectContaining({ productId: mockProductId, quantity: 2 }),
+      ]);
+    });
   });
 
   describe('removeFromCart', () => {
@@ -312,4 +334,68 @@ describe('CartService', () => {
       expect(instance1).not.toBe(instance2);
     });
   });
+
+  describe('Variants', () => {
+    const variantProduct: ProductCard = {
+      id: mockProductId,
+      title: 'Running Shoe',
+      price: 100,
+      currency: 'USD',
+      imageUrls: [],
+      category: { id: 'sports', name: 'Sports' },
+      description: '',
+      specifications: {},
+      availability: true,
+      variantOptions: [{ name: 'Size', values: ['9', '10'] }],
+      variants: [
+        { id: 'shoe-9', options: { Size: '9' }, stock: 2 },
+        { id: 'shoe-10', options: { Size: '10' }, stock: 0 },
+      ],
+    };
+
+    beforeEach(() => {
+      (AsyncStorage.getItem as jest.Mock).mockResolvedValue(null);
+      (AsyncStorage.setItem as jest.Mock).mockResolvedValue(undefined);
+      jest.spyOn(ProductDetailsService, 'getProductDetails').mockResolvedValue(variantProduct);
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should keep each variant of a product on its own line', async () => {
+      await service.addToCart(mockProductId, 1);
+      await service.addToCart(mockProductId, 1, { Size: '9' });
+      const items = await service.getCartItems();
+
+      expect(items).toHaveLength(2);
+      expect(items[1].selectedVariants).toEqual({ Size: '9' });
+    });
+
+    it('should address variant lines by line ID', async () => {
+      await service.addToCart(mockProductId, 1);
+      await service.addToCart(mockProductId, 1, { Size: '9' });
+
+      await service.updateQuantity(getCartLineId(mockProductId, { Size: '9' }), 2);
+      await service.removeFromCart(mockProductId);
+      const items = await service.getCartItems();
+
+      expect(items).toHaveLength(1);
+      expect(items[0].quantity).toBe(2);
+    });
+
+    it('should not add more than the variant has in stock', async () => {
+      await service.addToCart(mockProductId, 2, { Size: '9' });
+
+      await expect(service.addToCart(mockProductId, 1, { Size: '9' })).rejects.toThrow(
+        'Only 2 left in stock'
+      );
+      await expect(service.addToCart(mockProductId, 1, { Size: '10' })).rejects.toThrow(
+        'Selected variant is out of stock'
+      );
+      await expect(
+        service.updateQuantity(getCartLineId(mockProductId, { Size: '9' }), 3)
+      ).rejects.toThrow('Only 2 left in stock');
+    });
+  });
 });
\ No newline at end of file
@@ -0,0 +1,92 @@
+import { ConnectivityMonitorImpl } from '../../src/services/ConnectivityMonitor';
+
+const healthUrl = 'https://api.example.com/health';
+
+describe('ConnectivityMonitor', () => {
+  let fetchMock: jest.Mock;
+  let monitor: ConnectivityMonitorImpl;
+
+  // Let the probe's fetch settle, then move the clock to the next check
+  const advance = async (ms: number) => {
+    await jest.advanceTimersByTimeAsync(ms);
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    fetchMock = jest.fn(async () => ({ ok: true, status: 200 }));
+    (global as any).fetch = fetchMock;
+    monitor = new ConnectivityMonitorImpl({
+      healthUrl,
+      checkIntervalMs: 30000,
+      retryDelayMs: 1000,
+      maxRetryDelayMs: 4000,
+    });
+  });
+
+  afterEach(() => {
+    monitor.stop();
+    jest.useRealTimers();
+  });
+
+  it('reports transitions only', async () => {
+    const listener = jest.fn();
+    monitor.subscribe(listener);
+
+    await monitor.checkNow();
+    expect(listener).not.toHaveBeenCalled();
+
+    fetchMock.mockRejectedValue(new TypeError('Network request failed'));
+    expect(await monitor.checkNow()).toBe(false);
+    await monitor.checkNow();
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith(false);
+    expect(monitor.isOnline()).toBe(false);
+
+    fetchMock.mockResolvedValue({ ok: true, status: 200 });
+    await monitor.checkNow();
+    expect(listener).toHaveBeenLastCalledWith(true);
+  });
+
+  it('treats an unhealthy response as offline', async () => {
+    fetchMock.mockResolvedValue({ ok: false, status: 503 });
+
+    expect(await monitor.checkNow()).toBe(false);
+    expect(fetchMock).toHaveBeenCalledWith(healthUrl, expect.objectContaining({ method: 'GET' }));
+  });
+
+  it('backs off while offline and returns to the normal interval once back', async () => {
+    fetchMock.mockRejectedValue(new TypeError('Network request failed'));
+    monitor.start();
+    await advance(0);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    // 1s, 2s, 4s, then capped at 4s
+    await advance(1000);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    await advance(1999);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    await advance(1);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    await advance(4000);
+    expect(fetchMock).toHaveBeenCalledTimes(4);
+    await advance(4000);
+    expect(fetchMock).toHaveBeenCalledTimes(5);
+
+    fetchMock.mockResolvedValue({ ok: true, status: 200 });
+    await advance(4000);
+    expect(monitor.isOnline()).toBe(true);
+    await advance(29999);
+    expect(fetchMock).toHaveBeenCalledTimes(6);
+    await advance(1);
+    expect(fetchMock).toHaveBeenCalledTimes(7);
+  });
+
+  it('stays online without probing when there is no backend to probe', async () => {
+    const unconfigured = new ConnectivityMonitorImpl({ healthUrl: '' });
+    unconfigured.start();
+
+    expect(await unconfigured.checkNow()).toBe(true);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,211 @@
+import {
+  CrashReportingService,
+  getCrashFingerprint,
+} from '../../src/services/CrashReportingService';
+import { SyncStorage } from '../../src/services/DataSyncService';
+import { ErrorFactory } from '../../src/utils/ErrorFactory';
+import { ErrorSeverity, ErrorType } from '../../src/types/errors';
+
+const createStorage = (): SyncStorage & { values: Map<string, string> } => {
+  const values = new Map<string, string>();
+  return {
+    values,
+    getItem: async (key: string) => values.get(key) ?? null,
+    setItem: async (key: string, value: string) => {
+      values.set(key, value);
+    },
+    removeItem: async (key: string) => {
+      values.delete(key);
+    },
+  } as SyncStorage & { values: Map<string, string> };
+};
+
+const createResponse = (status: number, body: unknown = {}) => ({
+  status,
+  ok: status >= 200 && status < 300,
+  json: async () => body,
+});
+
+// The backend's answer when it stores every report in the upload
+const acceptAll = async (_url: string, init: RequestInit) =>
+  createResponse(202, {
+    accepted: JSON.parse(init.body as string).reports.map((report: { id: string }) => report.id),
+    rejected: [],
+    duplicates: 0,
+  });
+
+const URL = 'http://localhost:3001/crashes';
+
+const createError = (message: string = 'Cannot read property of undefined', line: number = 10) => {
+  const error = ErrorFactory.createAppError(ErrorType.UNKNOWN_ERROR, message, {
+    severity: ErrorSeverity.CRITICAL,
+  });
+  error.stack = `TypeError: ${message}\n    at renderCard (/builds/app/src/components/Card.tsx:${line}:5)\n    at App (/builds/app/App.tsx:3:1)`;
+  return error;
+};
+
+describe('CrashReportingService', () => {
+  let storage: ReturnType<typeof createStorage>;
+  let fetchMock: jest.Mock;
+
+  const createService = () =>
+    CrashReportingService.getInstance({ storage, uploadUrl: URL, uploadEnabled: true });
+
+  beforeEach(() => {
+    CrashReportingService.resetInstance();
+    storage = createStorage();
+    fetchMock = jest.fn();
+    global.fetch = fetchMock as unknown as typeof fetch;
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('persists crash reports so a new instance can read them', async () => {
+    await createService().reportCrash(createError(), true);
+
+    CrashReportingService.resetInstance();
+    const reports = await createService().getCrashReports();
+
+    expect(reports).toHaveLength(1);
+    expect(reports[0].error.message).toBe('Cannot read property of undefined');
+    expect(reports[0].isFatal).toBe(true);
+    expect(reports[0].timestamp).toBeInstanceOf(Date);
+  });
+
+  it('counts repeats of a pending crash on a single report', async () => {
+    const service = createService();
+    await service.reportCrash(createError());
+    await service.reportCrash(createError());
+
+    const reports = await service.getCrashReports();
+    expect(reports).toHaveLength(1);
+    expect(reports[0].occurrences).toBe(2);
+  });
+
+  it('ignores install paths and bundle query strings in fingerprints', () => {
+    const first = getCrashFingerprint(
+      'UNKNOWN_ERROR',
+      'boom',
+      'at renderCard (/data/app/a/index.bundle?platform=ios&dev=false:10:5)'
+    );
+    const second = getCrashFingerprint(
+      'UNKNOWN_ERROR',
+      'boom',
+      'at renderCard (/data/app/b/index.bundle?platform=ios&dev=true:10:5)'
+    );
+
+    expect(first).toBe(second);
+    expect(getCrashFingerprint('UNKNOWN_ERROR', 'Item 12 missing')).toBe(
+      getCrashFingerprint('UNKNOWN_ERROR', 'Item 40 missing')
+    );
+  });
+
+  it('redacts sensitive fields in the attached state', async () => {
+    const service = createService();
+    service.setStateProvider(() => ({
+      auth: { token: 'abc' },
+      user: { profile: { email: 'a@b.c', name: 'Sam' } },
+    }));
+
+    await service.reportCrash(createError());
+
+    const [report] = await service.getCrashReports();
+    expect(report.state).toEqual({
+      auth: '[REDACTED]',
+      user: { profile: { email: '[REDACTED]', name: 'Sam' } },
+    });
+  });
+
+  it('marks reports uploaded once the backend accepts them', async () => {
+    fetchMock.mockImplementation(acceptAll);
+    const service = createService();
+    await service.reportCrash(createError());
+
+    await expect(service.uploadPendingReports()).resolves.toBe(1);
+    await expect(service.uploadPendingReports()).resolves.toBe(0);
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    const body = JSON.parse(fetchMock.mock.calls[0][1].body);
+    expect(body.reports).toHaveLength(1);
+    expect((await service.getCrashReports())[0].uploadedAt).toBeInstanceOf(Date);
+  });
+
+  it('keeps reports for the next launch when the upload fails', async () => {
+    fetchMock
+      .mockRejectedValueOnce(new Error('offline'))
+      .mockResolvedValueOnce(createResponse(503))
+      .mockResolvedValueOnce(createResponse(413));
+    const service = createService();
+    await service.reportCrash(createError());
+
+    await expect(service.uploadPendingReports()).resolves.toBe(0);
+    await expect(service.uploadPendingReports()).resolves.toBe(0);
+    await expect(service.uploadPendingReports()).resolves.toBe(0);
+
+    const [report] = await service.getCrashReports();
+    expect(report.uploadedAt).toBeUndefined();
+    expect(report.rejectionReason).toBeUndefined();
+  });
+
+  it('keeps the reports the backend rejects with the reason and does not send them again', async () => {
+    const service = createService();
+    await service.reportCrash(createError('first', 10));
+    await service.reportCrash(createError('second', 20));
+    const [rejectedReport, acceptedReport] = await service.getCrashReports();
+    fetchMock.mockResolvedValueOnce(
+      createResponse(202, {
+        accepted: [acceptedReport.id],
+        rejected: [{ id: rejectedReport.id, error: 'Report has an invalid timestamp' }],
+        duplicates: 0,
+      })
+    );
+
+    await expect(service.uploadPendingReports()).resolves.toBe(1);
+    await expect(service.uploadPendingReports()).resolves.toBe(0);
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    const reports = await service.getCrashReports();
+    expect(reports.find(report => report.id === rejectedReport.id)!.rejectionReason).toBe(
+      'Report has an invalid timestamp'
+    );
+    expect(reports.find(report => report.id === acceptedReport.id)!.uploadedAt).toBeInstanceOf(Date);
+  });
+
+  it('splits uploads into batches the backend accepts', async () => {
+    fetchMock.mockImplementation(acceptAll);
+    const service = createService();
+    service.setStateProvider(() => ({ log: 'x'.repeat(100 * 1024) }));
+    for (let line = 1; line <= 4; line++) {
+      await service.reportCrash(createError('boom', line));
+    }
+    service.setStateProvider(() => ({ log: 'x'.repeat(300 * 1024) }));
+    await service.reportCrash(createError('boom', 5));
+
+    await expect(service.uploadPendingReports()).resolves.toBe(5);
+
+    const bodies: string[] = fetchMock.mock.calls.map(call => call[1].body);
+    expect(bodies.map(body => JSON.parse(body).reports.length)).toEqual([2, 3]);
+    expect(bodies.every(body => body.length <= 256 * 1024)).toBe(true);
+    expect(JSON.parse(bodies[1]).reports[2].state).toBeUndefined();
+  });
+
+  it('counts a crash that repeats during the upload on a new report', async () => {
+    const service = createService();
+    await service.reportCrash(createError());
+    fetchMock.mockImplementation(async (url: string, init: RequestInit) => {
+      await service.reportCrash(createError());
+      return acceptAll(url, init);
+    });
+
+    await expect(service.uploadPendingReports()).resolves.toBe(1);
+
+    const reports = await service.getCrashReports();
+    expect(reports).toHaveLength(2);
+    expect(reports.map(report => report.occurrences)).toEqual([1, 1]);
+    expect(reports.filter(report => !report.uploadedAt)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,110 @@
+import {
+  ExperimentConfigDocument,
+  ExperimentConfigServiceImpl,
+} from '../../src/services/ExperimentConfigService';
+import { SyncStorage } from '../../src/services/DataSyncService';
+
+const createStorage = (): SyncStorage & { values: Map<string, string> } => {
+  const values = new Map<string, string>();
+  return {
+    values,
+    getItem: async (key: string) => values.get(key) ?? null,
+    setItem: async (key: string, value: string) => {
+      values.set(key, value);
+    },
+    removeItem: async (key: string) => {
+      values.delete(key);
+    },
+  } as SyncStorage & { values: Map<string, string> };
+};
+
+const createResponse = (status: number, body?: unknown, etag?: string) => ({
+  status,
+  ok: status >= 200 && status < 300,
+  headers: { get: (name: string) => (name.toLowerCase() === 'etag' ? etag ?? null : null) },
+  json: async () => body,
+});
+
+const URL = 'http://localhost:3001/config/experiments';
+
+const document: ExperimentConfigDocument = {
+  version: 2,
+  experiments: [],
+  flags: { new_checkout: { enabled: true } },
+};
+
+describe('ExperimentConfigService', () => {
+  let storage: ReturnType<typeof createStorage>;
+  let fetchMock: jest.Mock;
+
+  beforeEach(() => {
+    storage = createStorage();
+    fetchMock = jest.fn();
+    global.fetch = fetchMock as unknown as typeof fetch;
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('revalidates the cached config with its ETag', async () => {
+    fetchMock.mockResolvedValueOnce(createResponse(200, document, '"v2"'));
+    expect(await new ExperimentConfigServiceImpl({ storage, url: URL }).loadConfig()).toEqual(document);
+
+    // The next launch sends the ETag and gets a 304 with no body
+    fetchMock.mockResolvedValueOnce(createResponse(304));
+    const relaunched = new ExperimentConfigServiceImpl({ storage, url: URL });
+
+    expect(await relaunched.loadConfig()).toEqual(document);
+    expect(fetchMock.mock.calls[1][1].headers).toEqual({ 'If-None-Match': '"v2"' });
+  });
+
+  it('falls back to the last good config when offline', async () => {
+    fetchMock.mockResolvedValueOnce(createResponse(200, document, '"v2"'));
+    await new ExperimentConfigServiceImpl({ storage, url: URL }).loadConfig();
+
+    fetchMock.mockRejectedValueOnce(new TypeError('Network request failed'));
+    expect(await new ExperimentConfigServiceImpl({ storage, url: URL }).loadConfig()).toEqual(document);
+
+    fetchMock.mockResolvedValueOnce(createResponse(503));
+    expect(await new ExperimentConfigServiceImpl({ storage, url: URL }).loadConfig()).toEqual(document);
+  });
+
+  it('keeps the last good config when the response is malformed', async () => {
+    fetchMock.mockResolvedValueOnce(createResponse(200, document, '"v2"'));
+    const service = new ExperimentConfigServiceImpl({ storage, url: URL });
+    await service.loadConfig();
+
+    fetchMock.mockResolvedValueOnce(createResponse(200, { version: 3, experiments: 'all' }, '"v3"'));
+
+    expect(await service.loadConfig()).toEqual(document);
+    expect(JSON.parse(storage.values.get('@swipely_experiment_config')!).etag).toBe('"v2"');
+  });
+
+  it('returns null without a remote or cached config', async () => {
+    fetchMock.mockRejectedValueOnce(new TypeError('Network request failed'));
+    expect(await new ExperimentConfigServiceImpl({ storage, url: URL }).loadConfig()).toBeNull();
+
+    expect(await new ExperimentConfigServiceImpl({ storage, url: '' }).loadConfig()).toBeNull();
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('loads the backend counts of a test up to the horizon', async () => {
+    const variants = [{ variantId: 'control', exposures: 500, conversions: 50 }];
+    fetchMock.mockResolvedValueOnce(createResponse(200, { testId: 'checkout v1', variants }));
+    const service = new ExperimentConfigServiceImpl({
+      storage,
+      url: URL,
+      resultsUrl: 'http://localhost:3001/experiments',
+    });
+
+    expect(await service.loadResults('checkout v1', 'purchase', 500)).toEqual(variants);
+    expect(fetchMock.mock.calls[0][0]).toBe(
+      'http://localhost:3001/experiments/checkout%20v1/results?metric=purchase&horizon=500'
+    );
+
+    fetchMock.mockResolvedValueOnce(createResponse(500, { error: 'down' }));
+    expect(await service.loadResults('checkout v1', 'purchase', 500)).toBeNull();
+  });
+});
@@ -0,0 +1,159 @@
+import {
+  FeedRankingService,
+  getFeedRankingService,
+  resetFeedRankingService,
+} from '../../src/services/FeedRankingService';
+import { ProductCard, SwipeAction } from '../../src/types';
+
+const makeProduct = (
+  id: string,
+  categoryId: string,
+  price: number,
+  overrides: Partial<ProductCard> = {}
+): ProductCard => ({
+  id,
+  title: `Product ${id}`,
+  price,
+  currency: 'USD',
+  imageUrls: [],
+  category: { id: categoryId, name: categoryId },
+  description: '',
+  specifications: {},
+  availability: true,
+  ...overrides,
+});
+
+const makeSwipe = (productId: string, action: 'like' | 'skip', timestamp = new Date()): SwipeAction => ({
+  userId: 'user-1',
+  productId,
+  action,
+  timestamp,
+  sessionId: 'session-1',
+});
+
+describe('FeedRankingService', () => {
+  const catalog: ProductCard[] = [
+    makeProduct('e1', 'electronics', 299, { specifications: { brand: 'Acme' } }),
+    makeProduct('e2', 'electronics', 249, { specifications: { brand: 'Acme' } }),
+    makeProduct('e3', 'electronics', 199),
+    makeProduct('f1', 'fashion', 40),
+    makeProduct('f2', 'fashion', 60),
+    makeProduct('b1', 'books', 15),
+  ];
+  const resolve = (productId: string) => catalog.find(p => p.id === productId);
+
+  beforeEach(() => {
+    resetFeedRankingService();
+  });
+
+  describe('buildProfile', () => {
+    it('should accumulate positive affinity for liked categories and negative for skipped', () => {
+      const service = new FeedRankingService({ seed: 1 });
+      const profile = service.buildProfile(
+        [makeSwipe('e1', 'like'), makeSwipe('f1', 'skip')],
+        resolve
+      );
+
+      expect(profile.categoryAffinity.electronics).toBeGreaterThan(0);
+      expect(profile.categoryAffinity.fashion).toBeLessThan(0);
+      expect(profile.vendorAffinity.acme).toBeGreaterThan(0);
+      expect(profile.priceAffinity?.logMean).toBeCloseTo(Math.log(299));
+      expect(profile.totalSwipes).toBe(2);
+    });
+
+    it('should decay older swipes', () => {
+      const service = new FeedRankingService({ seed: 1, historyHalfLifeDays: 7 });
+      const now = new Date('2025-01-15T00:00:00Z');
+      const recent = service.buildProfile([makeSwipe('e1', 'like', now)], resolve, now);
+      const old = service.buildProfile(
+        [makeSwipe('e1', 'like', new Date('2025-01-01T00:00:00Z'))],
+        resolve,
+        now
+      );
+
+      expect(old.categoryAffinity.electronics).toBeLessThan(recent.categoryAffinity.electronics);
+    });
+
+    it('should ignore swipes for unknown products', () => {
+      const service = new FeedRankingService({ seed: 1 });
+      const profile = service.buildProfile([makeSwipe('missing', 'like')], resolve);
+
+      expect(profile.totalSwipes).toBe(0);
+      expect(profile.priceAffinity).toBeNull();
+    });
+  });
+
+  describe('scoreProduct', () => {
+    it('should favour higher rated and available products', () => {
+      const service = new FeedRankingService({ seed: 1 });
+      const profile = service.buildProfile([], resolve);
+
+      const highRated = makeProduct('x', 'books', 10, { reviewRating: 4.9 });
+      const lowRated = makeProduct('y', 'books', 10, { reviewRating: 2.1 });
+      const unavailable = makeProduct('z', 'books', 10, { reviewRating: 4.9, availability: false });
+
+      expect(service.scoreProduct(highRated, profile)).toBeGreaterThan(service.scoreProduct(lowRated, profile));
+      expect(service.scoreProduct(highRated, profile)).toBeGreaterThan(service.scoreProduct(unavailable, profile));
+    });
+  });
+
+  describe('rankProducts', () => {
+    it('should rank liked categories first when exploration is disabled', () => {
+      const service = new FeedRankingService({ seed: 1, explorationRate: 0, maxConsecutivePerCategory: 0 });
+      const ranked = service.rank(
+        catalog.filter(p => p.id !== 'e1'),
+        [makeSwipe('e1', 'like'), makeSwipe('f1', 'skip')],
+        resolve
+      );
+
+      expect(ranked[0].id).toBe('e2');
+      expect(ranked[ranked.length - 1].category.id).toBe('fashion');
+    });
+
+    it('should break up long runs of the same category', () => {
+      const service = new FeedRankingService({ seed: 1, explorationRate: 0, maxConsecutivePerCategory: 2 });
+      const ranked = service.rank(catalog, [makeSwipe('e1', 'like')], resolve);
+
+      expect(ranked.slice(0, 3).map(p => p.category.id)).not.toEqual([
+        'electronics',
+        'electronics',
+        'electronics',
+      ]);
+    });
+
+    it('should be deterministic for the same seed', () => {
+      const history = [makeSwipe('e1', 'like'), makeSwipe('b1', 'skip')];
+      const now = new Date('2025-01-15T00:00:00Z');
+
+      const first = new FeedRankingService({ seed: 42, explorationRate: 0.5 }).rank(catalog, history, resolve, now);
+      const second = new FeedRankingService({ seed: 42, explorationRate: 0.5 }).rank(catalog, history, resolve, now);
+
+      expect(first.map(p => p.id)).toEqual(second.map(p => p.id));
+    });
+
+    it('should return every candidate exactly once', () => {
+      const service = new FeedRankingService({ seed: 7, explorationRate: 1 });
+      const ranked = service.rankProducts(catalog, [makeSwipe('e1', 'like')], resolve);
+
+      expect(ranked.map(item => item.product.id).sort()).toEqual(catalog.map(p => p.id).sort());
+    });
+
+    it('should mark exploration picks from unexposed categories', () => {
+      const service = new FeedRankingService({ seed: 3, explorationRate: 1 });
+      const ranked = service.rankProducts(catalog, [makeSwipe('e1', 'like'), makeSwipe('e2', 'like')], resolve);
+
+      expect(ranked[0].explored).toBe(true);
+      expect(ranked[0].product.category.id).not.toBe('electronics');
+    });
+  });
+
+  describe('singleton', () => {
+    it('should return the same instance until reset', () => {
+      const first = getFeedRankingService({ seed: 5 });
+      expect(getFeedRankingService()).toBe(first);
+
+      resetFeedRankingService();
+      expect(getFeedRankingService()).not.toBe(first);
+    });
+  });
+});
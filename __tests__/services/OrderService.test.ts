@@ -0,0 +1,151 @@
+/**
+ * Tests for order cancellation and per-line refunds
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { OrderService } from '../../src/services/OrderService';
+import { PaymentService } from '../../src/services/PaymentService';
+import { CartItem, ShippingAddress } from '../../src/types/checkout';
+
+const userId = 'user-1';
+
+const address: ShippingAddress = {
+  street: '1 Main St',
+  city: 'Austin',
+  state: 'TX',
+  postalCode: '73301',
+  country: 'US',
+};
+
+const headphones: CartItem = {
+  productId: 'prod-1',
+  title: 'Headphones',
+  price: 100,
+  quantity: 2,
+  imageUrl: '',
+};
+
+const shirt: CartItem = {
+  productId: 'prod-2',
+  title: 'Shirt',
+  price: 20,
+  quantity: 1,
+  imageUrl: '',
+  selectedVariants: { Size: 'M' },
+  variantId: 'prod-2-m',
+};
+
+const shirtLineId = 'prod-2::Size=M';
+
+describe('OrderService.saveOrder', () => {
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+  });
+
+  it('should replace an earlier copy of the same order', async () => {
+    const order = OrderService.createOrder([headphones], address, 200, 16, 0, userId);
+    await OrderService.saveOrder(order);
+    await OrderService.saveOrder({ ...order, status: 'shipped' });
+
+    const orders = await OrderService.getOrderHistory(userId);
+    expect(orders).toHaveLength(1);
+    expect(orders[0].status).toBe('shipped');
+  });
+});
+
+describe('OrderService refunds', () => {
+  let refundSpy: jest.SpyInstance;
+
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+    refundSpy = jest
+      .spyOn(PaymentService, 'refundPayment')
+      .mockImplementation(async orderId => ({ success: true, orderId, refundId: 're_test' }));
+  });
+
+  afterEach(() => {
+    refundSpy.mockRestore();
+  });
+
+  const placeOrder = async () => {
+    // subtotal 220, tax 17.60 (8%), shipping 9.99
+    const order = OrderService.createOrder([headphones, shirt], address, 220, 17.6, 9.99, userId);
+    await OrderService.saveOrder(order);
+    return order;
+  };
+
+  it('should cancel an unshipped order with a full refund', async () => {
+    const order = await placeOrder();
+
+    const cancelled = await OrderService.cancelOrder(userId, order.orderId);
+
+    expect(cancelled.status).toBe('cancelled');
+    expect(refundSpy).toHaveBeenCalledWith(order.orderId, 247.59, expect.any(Array));
+    expect(OrderService.getRefundedAmount(cancelled)).toBe(247.59);
+
+    const [stored] = await OrderService.getOrderHistory(userId);
+    expect(stored.status).toBe('cancelled');
+    expect(stored.refunds?.[0].createdAt).toBeInstanceOf(Date);
+  });
+
+  it('should not cancel orders that have shipped', async () => {
+    const order = await placeOrder();
+    await OrderService.updateOrderStatus(userId, order.orderId, 'shipped');
+
+    await expect(OrderService.cancelOrder(userId, order.orderId)).rejects.toThrow(
+      'This order can no longer be cancelled'
+    );
+    expect(refundSpy).not.toHaveBeenCalled();
+  });
+
+  it('should refund single lines with their share of tax', async () => {
+    const order = await placeOrder();
+    await OrderService.updateOrderStatus(userId, order.orderId, 'delivered');
+
+    const updated = await OrderService.refundOrderItems(userId, order.orderId, [
+      { lineId: shirtLineId, quantity: 1 },
+    ]);
+
+    expect(updated.status).toBe('delivered');
+    expect(updated.refunds?.[0].items).toEqual([
+      { lineId: shirtLineId, productId: 'prod-2', variantId: 'prod-2-m', quantity: 1, amount: 21.6 },
+    ]);
+    expect(OrderService.getRefundableQuantity(updated, shirtLineId)).toBe(0);
+    expect(OrderService.getRefundableQuantity(updated, 'prod-1')).toBe(2);
+    expect(OrderService.canCancelOrder(updated)).toBe(false);
+  });
+
+  it('should refund the remaining balance and mark the order refunded', async () => {
+    const order = await placeOrder();
+    await OrderService.refundOrderItems(userId, order.orderId, [{ lineId: 'prod-1', quantity: 1 }]);
+
+    const updated = await OrderService.refundOrderItems(userId, order.orderId, [
+      { lineId: 'prod-1', quantity: 1 },
+      { lineId: shirtLineId, quantity: 1 },
+    ]);
+
+    expect(updated.status).toBe('refunded');
+    expect(OrderService.getRefundedAmount(updated)).toBe(247.59);
+    expect(OrderService.canRefundOrder(updated)).toBe(false);
+  });
+
+  it('should reject quantities above what is left to refund', async () => {
+    const order = await placeOrder();
+
+    await expect(
+      OrderService.refundOrderItems(userId, order.orderId, [{ lineId: 'prod-1', quantity: 3 }])
+    ).rejects.toThrow('Refund quantity exceeds what was purchased');
+  });
+
+  it('should keep the order unchanged when the payment refund fails', async () => {
+    const order = await placeOrder();
+    refundSpy.mockResolvedValueOnce({ success: false, error: 'Refund processing failed' });
+
+    await expect(OrderService.cancelOrder(userId, order.orderId)).rejects.toThrow(
+      'Refund processing failed'
+    );
+    const [stored] = await OrderService.getOrderHistory(userId);
+    expect(stored.status).toBe('completed');
+    expect(stored.refunds).toBeUndefined();
+  });
+});
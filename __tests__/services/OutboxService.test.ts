@@ -0,0 +1,178 @@
+import { dataSyncService, SyncStorage } from '../../src/services/DataSyncService';
+import { ErrorHandlingService } from '../../src/services/ErrorHandlingService';
+import {
+  getOutboxService,
+  OutboxMutationInput,
+  OutboxServiceImpl,
+  resetOutboxService,
+} from '../../src/services/OutboxService';
+
+const baseUrl = 'https://api.example.com';
+
+const addToCart = (productId: string): OutboxMutationInput => ({
+  type: 'cart.add',
+  url: `${baseUrl}/cart/items`,
+  method: 'POST',
+  body: { productId, quantity: 1 },
+});
+
+const response = (status: number) => ({ ok: status >= 200 && status < 300, status });
+
+const createStorage = (): SyncStorage & { values: Map<string, string> } => {
+  const values = new Map<string, string>();
+  return {
+    values,
+    getItem: async (key: string) => values.get(key) ?? null,
+    setItem: async (key: string, value: string) => {
+      values.set(key, value);
+    },
+    removeItem: async (key: string) => {
+      values.delete(key);
+    },
+  } as SyncStorage & { values: Map<string, string> };
+};
+
+const sentProductIds = (fetchMock: jest.Mock) =>
+  fetchMock.mock.calls.map(([, init]) => JSON.parse(init.body).productId);
+
+describe('OutboxService', () => {
+  let storage: ReturnType<typeof createStorage>;
+  let online: boolean;
+  let fetchMock: jest.Mock;
+
+  const createOutbox = (maxAttempts?: number) =>
+    new OutboxServiceImpl({ storage, isOnline: () => online, maxAttempts });
+
+  beforeEach(() => {
+    storage = createStorage();
+    online = false;
+    fetchMock = jest.fn(async () => response(201));
+    (global as any).fetch = fetchMock;
+    jest.spyOn(ErrorHandlingService.prototype as any, 'delay').mockResolvedValue(undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    jest.spyOn(console, 'info').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    resetOutboxService();
+    dataSyncService.setOnlineStatus(true);
+  });
+
+  it('queues mutations while offline and replays them in order', async () => {
+    const outbox = createOutbox();
+
+    expect(await outbox.sendOrEnqueue(addToCart('p1'))).toBeNull();
+    expect(await outbox.sendOrEnqueue(addToCart('p2'))).toBeNull();
+    expect(fetchMock).not.toHaveBeenCalled();
+
+    online = true;
+    const result = await outbox.flush();
+
+    expect(result).toEqual({ delivered: 2, deadLettered: 0, remaining: 0 });
+    expect(sentProductIds(fetchMock)).toEqual(['p1', 'p2']);
+    const [first, second] = fetchMock.mock.calls.map(([, init]) => init.headers['Idempotency-Key']);
+    expect(first).toMatch(/^cart\.add_/);
+    expect(first).not.toBe(second);
+    expect(await outbox.getPendingMutations()).toEqual([]);
+  });
+
+  it('keeps the queue across restarts', async () => {
+    await createOutbox().enqueue(addToCart('p1'));
+
+    online = true;
+    const restarted = createOutbox();
+    expect(await restarted.getPendingMutations()).toHaveLength(1);
+    await restarted.flush();
+    expect(sentProductIds(fetchMock)).toEqual(['p1']);
+  });
+
+  it('retries with backoff and holds later mutations back until the first goes through', async () => {
+    const outbox = createOutbox();
+    await outbox.enqueue(addToCart('p1'));
+    await outbox.enqueue(addToCart('p2'));
+    fetchMock.mockResolvedValue(response(503));
+    online = true;
+
+    const result = await outbox.flush();
+
+    // executeWithRetry makes three attempts per flush
+    expect(result).toEqual({ delivered: 0, deadLettered: 0, remaining: 2 });
+    expect(sentProductIds(fetchMock)).toEqual(['p1', 'p1', 'p1']);
+    const [pending] = await outbox.getPendingMutations();
+    expect(pending.attempts).toBe(3);
+    expect(pending.lastError).toBe('Failed to deliver cart.add: 503');
+
+    fetchMock.mockResolvedValue(response(201));
+    await outbox.flush();
+    expect(sentProductIds(fetchMock).slice(3)).toEqual(['p1', 'p2']);
+    // Every attempt at one mutation carries the same key
+    const keys = fetchMock.mock.calls.slice(0, 4).map(([, init]) => init.headers['Idempotency-Key']);
+    expect(new Set(keys).size).toBe(1);
+  });
+
+  it('dead-letters a mutation after the attempt limit and moves on', async () => {
+    const outbox = createOutbox(5);
+    await outbox.enqueue(addToCart('p1'));
+    await outbox.enqueue(addToCart('p2'));
+    fetchMock.mockImplementation(async (_url: string, init: RequestInit) =>
+      JSON.parse(String(init.body)).productId === 'p1'
+        ? Promise.reject(new TypeError('Network request failed'))
+        : response(201)
+    );
+    online = true;
+
+    await outbox.flush();
+    const result = await outbox.flush();
+
+    expect(result).toEqual({ delivered: 1, deadLettered: 1, remaining: 0 });
+    const [deadLetter] = await outbox.getDeadLetters();
+    // Two flushes of three attempts each
+    expect(deadLetter.attempts).toBe(6);
+    expect(deadLetter.body).toEqual({ productId: 'p1', quantity: 1 });
+
+    fetchMock.mockResolvedValue(response(201));
+    await outbox.retryDeadLetter(deadLetter.id);
+    await outbox.flush();
+    expect(await outbox.getDeadLetters()).toEqual([]);
+    expect(sentProductIds(fetchMock).pop()).toBe('p1');
+  });
+
+  it('dead-letters a mutation the server rejects without retrying it', async () => {
+    const outbox = createOutbox();
+    await outbox.enqueue(addToCart('p1'));
+    fetchMock.mockResolvedValueOnce(response(422));
+    online = true;
+
+    const result = await outbox.flush();
+
+    expect(result.deadLettered).toBe(1);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect((await outbox.getDeadLetters())[0].lastError).toBe('Failed to deliver cart.add: 422');
+  });
+
+  it('queues a request that never got a response under the key it was sent with', async () => {
+    const outbox = createOutbox();
+    online = true;
+    fetchMock.mockRejectedValueOnce(new TypeError('Network request failed'));
+
+    expect(await outbox.sendOrEnqueue(addToCart('p1'))).toBeNull();
+
+    const [pending] = await outbox.getPendingMutations();
+    expect(pending.idempotencyKey).toBe(fetchMock.mock.calls[0][1].headers['Idempotency-Key']);
+  });
+
+  it('replays the shared outbox when the device reconnects', async () => {
+    const outbox = getOutboxService();
+    dataSyncService.setOnlineStatus(false);
+    await outbox.sendOrEnqueue(addToCart('p1'));
+    expect(fetchMock).not.toHaveBeenCalled();
+
+    dataSyncService.setOnlineStatus(true);
+    await outbox.flush();
+
+    expect(sentProductIds(fetchMock)).toEqual(['p1']);
+    expect(await outbox.getPendingMutations()).toEqual([]);
+  });
+});
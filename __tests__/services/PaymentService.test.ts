@@ -171,4 +171,46 @@ describe('PaymentService Stripe integration', () => {
       'Failed to verify payment status (404): not found'
     );
   });
+
+  it('refunds line items through the backend', async () => {
+    process.env.EXPO_PUBLIC_STRIPE_PUBLISHABLE_KEY = 'pk_test_123';
+    process.env.EXPO_PUBLIC_API_BASE_URL = 'https://api.example.com';
+
+    ((global as any).fetch as jest.Mock).mockResolvedValue({
+      ok: true,
+      json: async () => ({ refundId: 're_123', paymentStatus: 'partially_refunded' }),
+    });
+
+    const service = loadPaymentService();
+    const result = await service.refundPayment('ORD-7', 21.6, [
+      { lineId: 'prod-2::Size=M', productId: 'prod-2', variantId: 'prod-2-m', quantity: 1, amount: 21.6 },
+    ]);
+
+    const [url, options] = ((global as any).fetch as jest.Mock).mock.calls[0];
+    expect(url).toBe('https://api.example.com/payments/refund');
+    expect(JSON.parse(options.body)).toEqual({
+      orderId: 'ORD-7',
+      amountInCents: 2160,
+      reason: 'requested_by_customer',
+      items: [{ productId: 'prod-2', variantId: 'prod-2-m', quantity: 1 }],
+    });
+    expect(result).toEqual({ success: true, orderId: 'ORD-7', refundId: 're_123' });
+  });
+
+  it('reports a failed refund without throwing', async () => {
+    process.env.EXPO_PUBLIC_STRIPE_PUBLISHABLE_KEY = 'pk_test_123';
+    process.env.EXPO_PUBLIC_API_BASE_URL = 'https://api.example.com';
+
+    ((global as any).fetch as jest.Mock).mockResolvedValue({
+      ok: false,
+      status: 409,
+      text: async () => 'Only succeeded payments can be refunded',
+    });
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    const service = loadPaymentService();
+    const result = await service.refundPayment('ORD-8', 10);
+
+    expect(result).toEqual({ success: false, error: 'Refund processing failed' });
+  });
 });
@@ -0,0 +1,131 @@
+import {
+  PricingServiceImpl,
+  RuleBasedTaxCalculator,
+  TaxCalculator,
+  DEFAULT_PRICING_RULES,
+} from '../../src/services/PricingService';
+import { CartItem, ShippingAddress } from '../../src/types/checkout';
+
+const makeItem = (overrides: Partial<CartItem>): CartItem => ({
+  productId: 'p1',
+  title: 'Item',
+  price: 10,
+  quantity: 1,
+  imageUrl: '',
+  ...overrides,
+});
+
+const nycAddress: ShippingAddress = {
+  street: '1 Main St',
+  city: 'New York',
+  state: 'NY',
+  postalCode: '10001',
+  country: 'US',
+};
+
+// Same cart as backend/test/pricing.test.js so both engines stay in step
+const items = [
+  makeItem({ productId: 'prod-2', price: 89.99, categoryId: 'fashion' }),
+  makeItem({ productId: 'prod-5', price: 24.99, quantity: 2, categoryId: 'food', weightKg: 1 }),
+];
+
+describe('PricingService', () => {
+  let service: PricingServiceImpl;
+
+  beforeEach(() => {
+    service = new PricingServiceImpl();
+  });
+
+  it('should apply the most specific tax rule and its exemptions', () => {
+    const totals = service.calculateTotals({ items, shippingAddress: nycAddress });
+
+    expect(totals).toEqual({
+      subtotal: 139.97,
+      tax: 4.44,
+      shipping: 0,
+      total: 144.41,
+      breakdown: {
+        taxRuleId: 'us-ny-nyc',
+        taxRate: 0.08875,
+        taxableSubtotal: 49.98,
+        exemptSubtotal: 89.99,
+        shippingMethod: 'standard',
+        shippingWeightKg: 2.5,
+        freeShippingApplied: true,
+      },
+    });
+  });
+
+  it('should price express shipping by weight', () => {
+    const totals = service.calculateTotals({
+      items,
+      shippingAddress: nycAddress,
+      shippingMethod: 'express',
+    });
+
+    expect(totals.shipping).toBe(29.99);
+    expect(totals.total).toBe(174.4);
+  });
+
+  it('should use the default rate and standard shipping without an address', () => {
+    const totals = service.calculateTotals({ items: [makeItem({ price: 40 })] });
+
+    expect(totals.breakdown.taxRuleId).toBeNull();
+    expect(totals.tax).toBe(3.2);
+    expect(totals.shipping).toBe(9.99);
+    expect(totals.total).toBe(53.19);
+  });
+
+  it('should match tax exemptions on the category name when no ID is set', () => {
+    const totals = service.calculateTotals({
+      items: [makeItem({ price: 50, category: 'Fashion' })],
+      shippingAddress: { ...nycAddress, postalCode: '14201' },
+    });
+
+    expect(totals.breakdown.taxRuleId).toBe('us-ny');
+    expect(totals.tax).toBe(0);
+  });
+
+  it('should charge nothing for an empty cart', () => {
+    const totals = service.calculateTotals({ items: [] });
+
+    expect(totals.subtotal).toBe(0);
+    expect(totals.shipping).toBe(0);
+    expect(totals.total).toBe(0);
+  });
+
+  it('should list shipping options with a subtotal tier for small express orders', () => {
+    const options = service.getShippingOptions({ items: [makeItem({ price: 30 })] });
+
+    expect(options.map(option => [option.method, option.cost])).toEqual([
+      ['standard', 9.99],
+      ['express', 14.99],
+    ]);
+  });
+
+  it('should accept a custom tax calculator', () => {
+    const flatTax: TaxCalculator = {
+      calculateTax: () => ({
+        tax: 1,
+        rate: 0.1,
+        ruleId: 'flat',
+        taxableSubtotal: 10,
+        exemptSubtotal: 0,
+      }),
+    };
+    const custom = new PricingServiceImpl(DEFAULT_PRICING_RULES, { tax: flatTax });
+
+    const totals = custom.calculateTotals({ items: [makeItem({})] });
+
+    expect(totals.tax).toBe(1);
+    expect(totals.breakdown.taxRuleId).toBe('flat');
+  });
+
+  it('should prefer postal code rules over state and country rules', () => {
+    const calculator = new RuleBasedTaxCalculator(DEFAULT_PRICING_RULES.tax);
+
+    expect(calculator.findRule(nycAddress)?.id).toBe('us-ny-nyc');
+    expect(calculator.findRule({ ...nycAddress, state: 'ca' })?.id).toBe('us-ca');
+    expect(calculator.findRule({ ...nycAddress, state: 'TX' })?.id).toBe('us');
+  });
+});
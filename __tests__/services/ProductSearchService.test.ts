@@ -0,0 +1,192 @@
+import {
+  ProductSearchIndex,
+  editDistance,
+  getProductSearchService,
+  resetProductSearchService,
+  tokenize,
+} from '../../src/services/ProductSearchService';
+import { ProductFeedService } from '../../src/services/ProductFeedService';
+import { offlineModeService } from '../../src/services/OfflineModeService';
+import { ProductCard } from '../../src/types';
+
+const makeProduct = (
+  id: string,
+  title: string,
+  overrides: Partial<ProductCard> = {}
+): ProductCard => ({
+  id,
+  title,
+  price: 50,
+  currency: 'USD',
+  imageUrls: [],
+  category: { id: 'electronics', name: 'Electronics' },
+  description: '',
+  specifications: {},
+  availability: true,
+  ...overrides,
+});
+
+const catalog: ProductCard[] = [
+  makeProduct('p1', 'Wireless Headphones', {
+    price: 199,
+    description: 'Noise cancelling over-ear headphones',
+    specifications: { brand: 'Acme', Connectivity: 'Bluetooth 5.0' },
+  }),
+  makeProduct('p2', 'Bluetooth Speaker', {
+    price: 79,
+    description: 'Portable speaker that pairs with your headphones',
+    specifications: { brand: 'Sonic' },
+  }),
+  makeProduct('p3', 'Running Shoes', {
+    price: 120,
+    category: { id: 'sports', name: 'Sports & Outdoors' },
+    description: 'Lightweight shoes for road running',
+    specifications: { brand: 'Acme', Material: 'Mesh' },
+  }),
+  makeProduct('p4', 'Café Latte Mug', {
+    price: 15,
+    category: { id: 'home-garden', name: 'Home & Garden' },
+  }),
+];
+
+describe('ProductSearchService', () => {
+  beforeEach(() => {
+    resetProductSearchService();
+  });
+
+  describe('tokenize', () => {
+    it('should lowercase, strip diacritics and drop stop words', () => {
+      expect(tokenize('The Café & the Mug-2000')).toEqual(['cafe', 'mug', '2000']);
+    });
+  });
+
+  describe('editDistance', () => {
+    it('should compute Levenshtein distance', () => {
+      expect(editDistance('kitten', 'sitting')).toBe(3);
+      expect(editDistance('shoes', 'shoes')).toBe(0);
+    });
+
+    it('should exit early once the budget is exceeded', () => {
+      expect(editDistance('abc', 'xyzxyz', 1)).toBe(2);
+    });
+  });
+
+  describe('ProductSearchIndex', () => {
+    const index = new ProductSearchIndex(catalog);
+
+    it('should index title, description, category and specifications', () => {
+      expect(index.getProductCount()).toBe(4);
+      expect(index.search('mesh').matches.map(m => m.product.id)).toEqual(['p3']);
+      expect(index.search('outdoors').matches.map(m => m.product.id)).toEqual(['p3']);
+    });
+
+    it('should rank title matches above description matches', () => {
+      const ids = index.search('headphones').matches.map(m => m.product.id);
+      expect(ids).toEqual(['p1', 'p2']);
+    });
+
+    it('should match by prefix', () => {
+      const ids = index.search('blue').matches.map(m => m.product.id);
+      expect(ids).toContain('p1');
+      expect(ids).toContain('p2');
+    });
+
+    it('should tolerate typos', () => {
+      expect(index.search('hedphones').matches[0].product.id).toBe('p1');
+      expect(index.search('runing shoes').matches.map(m => m.product.id)).toEqual(['p3']);
+    });
+
+    it('should require every query token to match', () => {
+      expect(index.search('wireless shoes').matches).toHaveLength(0);
+    });
+
+    it('should return nothing for an empty query', () => {
+      expect(index.search('   ').total).toBe(0);
+    });
+
+    it('should compute facets from query matches', () => {
+      const { facets } = index.search('acme');
+
+      expect(facets.categories.map(f => [f.value, f.count])).toEqual([
+        ['electronics', 1],
+        ['sports', 1],
+      ]);
+      expect(facets.brands).toEqual([{ value: 'Acme', label: 'Acme', count: 2 }]);
+      expect(facets.priceBuckets.map(b => b.value)).toEqual(['100-250']);
+    });
+
+    it('should count a boundary price in the same bucket the filter matches', () => {
+      const boundaryIndex = new ProductSearchIndex();
+      boundaryIndex.build([makeProduct('b1', 'Desk Lamp', { price: 50 })]);
+
+      const { facets } = boundaryIndex.search('lamp');
+      expect(facets.priceBuckets.map(b => [b.value, b.count])).toEqual([['50-100', 1]]);
+      expect(boundaryIndex.search('lamp', { priceRange: { min: 25, max: 50 } }).total).toBe(0);
+      expect(boundaryIndex.search('lamp', { priceRange: { min: 50, max: 100 } }).total).toBe(1);
+    });
+
+    it('should suggest completions for the last query token', () => {
+      expect(index.suggest('wireless hea')).toEqual(['wireless headphones']);
+      expect(index.suggest('r')).toEqual([]);
+    });
+
+    it('should apply brand, category and price filters without changing facets', () => {
+      const result = index.search('headphones', { brands: ['Sonic'] });
+
+      expect(result.matches.map(m => m.product.id)).toEqual(['p2']);
+      expect(result.facets.brands).toHaveLength(2);
+      expect(index.search('acme', { categories: ['sports'] }).total).toBe(1);
+      expect(index.search('acme', { priceRange: { min: 0, max: 150 } }).total).toBe(1);
+    });
+  });
+
+  describe('ProductSearchService', () => {
+    it('should only rebuild the index when the catalog changes', () => {
+      const service = getProductSearchService();
+      service.search('mug', catalog);
+      const built = service.getIndex().getSignature();
+
+      service.search('shoes', catalog);
+      expect(service.getIndex().getSignature()).toBe(built);
+
+      service.search('shoes', catalog.slice(0, 2));
+      expect(service.getIndex().getProductCount()).toBe(2);
+    });
+
+    it('should hash a catalog array once', () => {
+      const service = getProductSearchService();
+      const stringify = jest.spyOn(JSON, 'stringify');
+
+      service.search('mug', catalog);
+      service.search('shoes', catalog);
+      service.suggest('head', catalog);
+
+      expect(stringify).toHaveBeenCalledTimes(1);
+      stringify.mockRestore();
+    });
+
+    it('should rebuild the index when a product changes', () => {
+      const service = getProductSearchService();
+      service.search('mug', catalog);
+
+      const renamed = catalog.map(product =>
+        product.id === catalog[0].id ? { ...product, title: 'Zeppelin Lamp' } : product
+      );
+
+      expect(service.search('zeppelin', renamed).total).toBe(1);
+    });
+  });
+
+  describe('ProductFeedService.searchProducts', () => {
+    it('should include products cached for offline use', async () => {
+      jest.spyOn(offlineModeService, 'getCachedProducts').mockResolvedValue([
+        makeProduct('cached-1', 'Offline Espresso Grinder'),
+      ]);
+
+      const response = await ProductFeedService.searchProducts('espreso grinder');
+
+      expect(response.products.map(p => p.id)).toContain('cached-1');
+      expect(response.facets?.categories[0].value).toBe('electronics');
+    });
+  });
+});
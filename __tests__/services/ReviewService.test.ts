@@ -0,0 +1,212 @@
+/**
+ * Tests for product reviews: pagination, purchase-gated writing,
+ * histograms, helpful votes and moderation
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { ReviewServiceImpl } from '../../src/services/ReviewService';
+import { OrderService } from '../../src/services/OrderService';
+import { CartItem, ShippingAddress } from '../../src/types/checkout';
+import { ProductReview } from '../../src/types/reviews';
+
+const buyerId = 'buyer-1';
+
+const address: ShippingAddress = {
+  street: '1 Main St',
+  city: 'Portland',
+  state: 'OR',
+  postalCode: '97201',
+  country: 'US',
+};
+
+const orderItem: CartItem = {
+  productId: 'prod-1',
+  title: 'Wireless Headphones',
+  price: 199,
+  quantity: 1,
+  imageUrl: '',
+  category: 'Electronics',
+};
+
+const makeReview = (index: number, overrides: Partial<ProductReview> = {}): ProductReview => ({
+  id: `review-${index}`,
+  productId: 'prod-1',
+  userId: `user-${index}`,
+  authorName: `Reviewer ${index}`,
+  rating: 5,
+  body: 'Works exactly as described.',
+  createdAt: new Date(Date.UTC(2024, 0, index)),
+  helpfulCount: 0,
+  moderationStatus: 'approved',
+  verifiedPurchase: true,
+  ...overrides,
+});
+
+const validInput = {
+  productId: 'prod-1',
+  rating: 4,
+  title: 'Solid',
+  body: 'Comfortable for long flights.',
+  authorName: 'Test Buyer',
+};
+
+describe('ReviewService', () => {
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+  });
+
+  const placeOrder = async (userId: string = buyerId) => {
+    const order = OrderService.createOrder([orderItem], address, 199, 0, 0, userId);
+    await OrderService.saveOrder(order);
+  };
+
+  it('should page through approved reviews newest first', async () => {
+    const seedReviews = [1, 2, 3, 4, 5, 6, 7].map(index => makeReview(index));
+    const service = new ReviewServiceImpl({ seedReviews });
+
+    const first = await service.getReviews('prod-1', { page: 1, limit: 3 });
+    expect(first.reviews.map(review => review.id)).toEqual(['review-7', 'review-6', 'review-5']);
+    expect(first.total).toBe(7);
+    expect(first.hasMore).toBe(true);
+
+    const last = await service.getReviews('prod-1', { page: 3, limit: 3 });
+    expect(last.reviews.map(review => review.id)).toEqual(['review-1']);
+    expect(last.hasMore).toBe(false);
+  });
+
+  it('should hide unapproved reviews except from their author', async () => {
+    const service = new ReviewServiceImpl({
+      seedReviews: [
+        makeReview(1),
+        makeReview(2, { moderationStatus: 'pending' }),
+        makeReview(3, { moderationStatus: 'rejected' }),
+      ],
+    });
+
+    expect((await service.getReviews('prod-1')).total).toBe(1);
+    const authorView = await service.getReviews('prod-1', { viewerId: 'user-2' });
+    expect(authorView.reviews.map(review => review.id)).toEqual(['review-2', 'review-1']);
+  });
+
+  it('should sort by helpful votes', async () => {
+    const service = new ReviewServiceImpl({
+      seedReviews: [makeReview(1, { helpfulCount: 9 }), makeReview(2, { helpfulCount: 1 })],
+    });
+
+    const page = await service.getReviews('prod-1', { sort: 'helpful' });
+    expect(page.reviews[0].id).toBe('review-1');
+  });
+
+  it('should build a star histogram from approved reviews', async () => {
+    const service = new ReviewServiceImpl({
+      seedReviews: [
+        makeReview(1, { rating: 5 }),
+        makeReview(2, { rating: 4 }),
+        makeReview(3, { rating: 4 }),
+        makeReview(4, { rating: 1, moderationStatus: 'pending' }),
+        makeReview(5, { rating: 2, productId: 'prod-2' }),
+      ],
+    });
+
+    const summary = await service.getReviewSummary('prod-1');
+    expect(summary.totalReviews).toBe(3);
+    expect(summary.averageRating).toBe(4.3);
+    expect(summary.histogram).toEqual({ 1: 0, 2: 0, 3: 0, 4: 2, 5: 1 });
+  });
+
+  describe('submitReview', () => {
+    it('should reject reviews for products the user never ordered', async () => {
+      const service = new ReviewServiceImpl({ seedReviews: [] });
+
+      await expect(service.getReviewEligibility('prod-1', buyerId)).resolves.toEqual({
+        canReview: false,
+        reason: 'not_purchased',
+      });
+      await expect(service.submitReview(buyerId, validInput)).rejects.toThrow(
+        'Only customers who bought this product can review it'
+      );
+    });
+
+    it('should publish a review from a verified buyer once', async () => {
+      await placeOrder();
+      const service = new ReviewServiceImpl({ seedReviews: [] });
+
+      const review = await service.submitReview(buyerId, validInput);
+      expect(review.moderationStatus).toBe('approved');
+      expect(review.verifiedPurchase).toBe(true);
+      expect((await service.getReviewSummary('prod-1')).totalReviews).toBe(1);
+
+      await expect(service.submitReview(buyerId, validInput)).rejects.toThrow(
+        'You have already reviewed this product'
+      );
+    });
+
+    it('should hold reviews containing links for moderation', async () => {
+      await placeOrder();
+      const service = new ReviewServiceImpl({ seedReviews: [] });
+
+      const review = await service.submitReview(buyerId, {
+        ...validInput,
+        body: 'Cheaper at https://example.com this week',
+      });
+      expect(review.moderationStatus).toBe('pending');
+      expect((await service.getReviews('prod-1')).total).toBe(0);
+    });
+
+    it('should validate the rating and body', async () => {
+      await placeOrder();
+      const service = new ReviewServiceImpl({ seedReviews: [] });
+
+      await expect(service.submitReview(buyerId, { ...validInput, rating: 6 })).rejects.toThrow(
+        'Rating must be a whole number from 1 to 5'
+      );
+      await expect(service.submitReview(buyerId, { ...validInput, body: 'Meh' })).rejects.toThrow(
+        'Review must be at least 10 characters'
+      );
+    });
+
+    it('should persist reviews across service instances', async () => {
+      await placeOrder();
+      await new ReviewServiceImpl({ seedReviews: [] }).submitReview(buyerId, validInput);
+
+      const reloaded = new ReviewServiceImpl({ seedReviews: [] });
+      const page = await reloaded.getReviews('prod-1');
+      expect(page.reviews[0].createdAt).toBeInstanceOf(Date);
+      expect(page.total).toBe(1);
+    });
+  });
+
+  describe('voteHelpful', () => {
+    it('should count one vote per user', async () => {
+      const service = new ReviewServiceImpl({ seedReviews: [makeReview(1)] });
+
+      await service.voteHelpful('review-1', 'voter-1');
+      const review = await service.voteHelpful('review-1', 'voter-1');
+      expect(review.helpfulCount).toBe(1);
+
+      expect((await service.voteHelpful('review-1', 'voter-2')).helpfulCount).toBe(2);
+    });
+
+    it('should not let authors vote on their own review', async () => {
+      const service = new ReviewServiceImpl({ seedReviews: [makeReview(1)] });
+
+      await expect(service.voteHelpful('review-1', 'user-1')).rejects.toThrow(
+        'You cannot vote on your own review'
+      );
+    });
+  });
+
+  it('should let a rejected author review again after moderation', async () => {
+    await placeOrder();
+    const service = new ReviewServiceImpl({ seedReviews: [], autoApprove: false });
+
+    const review = await service.submitReview(buyerId, validInput);
+    expect(review.moderationStatus).toBe('pending');
+
+    const rejected = await service.moderateReview(review.id, 'rejected', 'Off topic');
+    expect(rejected.moderationNote).toBe('Off topic');
+    await expect(service.getReviewEligibility('prod-1', buyerId)).resolves.toEqual({
+      canReview: true,
+    });
+  });
+});
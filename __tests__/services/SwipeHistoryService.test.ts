@@ -0,0 +1,131 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  SwipeHistoryEntry,
+  SwipeHistoryServiceImpl,
+  getSwipeHistoryService,
+  resetSwipeHistoryService,
+} from '../../src/services/SwipeHistoryService';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const makeEntry = (
+  productId: string,
+  action: 'like' | 'skip',
+  daysAgo: number = 0,
+  overrides: Partial<SwipeHistoryEntry> = {}
+): SwipeHistoryEntry => ({
+  userId: 'user-1',
+  productId,
+  action,
+  timestamp: new Date(Date.now() - daysAgo * DAY),
+  sessionId: 'session-1',
+  categoryId: 'electronics',
+  ...overrides,
+});
+
+describe('SwipeHistoryService', () => {
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+    resetSwipeHistoryService();
+  });
+
+  describe('recordSwipe', () => {
+    it('should persist swipes per user across service instances', async () => {
+      await getSwipeHistoryService().recordSwipe(makeEntry('prod-1', 'like'));
+      await getSwipeHistoryService().recordSwipe(makeEntry('prod-2', 'skip', 0, { userId: 'user-2' }));
+
+      resetSwipeHistoryService();
+      const history = await getSwipeHistoryService().getHistory('user-1');
+
+      expect(history).toHaveLength(1);
+      expect(history[0].productId).toBe('prod-1');
+      expect(history[0].timestamp).toBeInstanceOf(Date);
+    });
+  });
+
+  describe('retention', () => {
+    it('should keep only the newest maxEntries', async () => {
+      const service = new SwipeHistoryServiceImpl({ maxEntries: 2 });
+
+      await service.recordSwipe(makeEntry('prod-1', 'like', 3));
+      await service.recordSwipe(makeEntry('prod-2', 'like', 2));
+      await service.recordSwipe(makeEntry('prod-3', 'like', 1));
+
+      const history = await service.getHistory('user-1');
+      expect(history.map(entry => entry.productId)).toEqual(['prod-2', 'prod-3']);
+    });
+
+    it('should drop entries older than maxAgeDays', async () => {
+      const service = new SwipeHistoryServiceImpl({ maxAgeDays: 30 });
+
+      await service.recordSwipe(makeEntry('prod-old', 'like', 45));
+      await service.recordSwipe(makeEntry('prod-new', 'like', 1));
+
+      const history = await service.getHistory('user-1');
+      expect(history.map(entry => entry.productId)).toEqual(['prod-new']);
+    });
+  });
+
+  describe('query', () => {
+    beforeEach(async () => {
+      const service = getSwipeHistoryService();
+      await service.recordSwipe(makeEntry('prod-1', 'like', 10));
+      await service.recordSwipe(makeEntry('prod-2', 'skip', 5, { categoryId: 'fashion' }));
+      await service.recordSwipe(makeEntry('prod-3', 'like', 1, { categoryId: 'fashion' }));
+    });
+
+    it('should filter by action', async () => {
+      const results = await getSwipeHistoryService().query('user-1', { action: 'like' });
+      expect(results.map(entry => entry.productId)).toEqual(['prod-3', 'prod-1']);
+    });
+
+    it('should filter by category', async () => {
+      const results = await getSwipeHistoryService().query('user-1', { categoryId: 'fashion' });
+      expect(results.map(entry => entry.productId)).toEqual(['prod-3', 'prod-2']);
+    });
+
+    it('should filter by date range and limit', async () => {
+      const results = await getSwipeHistoryService().query('user-1', {
+        from: new Date(Date.now() - 7 * DAY),
+        to: new Date(),
+        limit: 1,
+      });
+      expect(results.map(entry => entry.productId)).toEqual(['prod-3']);
+    });
+
+    it('should return recently swiped product ids', async () => {
+      const ids = await getSwipeHistoryService().getRecentlySwipedProductIds('user-1', 7);
+      expect(ids.sort()).toEqual(['prod-2', 'prod-3']);
+    });
+  });
+
+  describe('migrateEntries', () => {
+    it('should import new entries and skip duplicates', async () => {
+      const service = getSwipeHistoryService();
+      const existing = makeEntry('prod-1', 'like', 1);
+      await service.recordSwipe(existing);
+
+      const imported = await service.migrateEntries([
+        existing,
+        makeEntry('prod-2', 'skip', 0),
+        makeEntry('prod-3', 'like', 0, { userId: 'user-2' }),
+      ]);
+
+      expect(imported).toBe(2);
+      expect(await service.getHistory('user-1')).toHaveLength(2);
+      expect(await service.getHistory('user-2')).toHaveLength(1);
+    });
+  });
+
+  describe('clearHistory', () => {
+    it('should remove stored history for the user', async () => {
+      const service = getSwipeHistoryService();
+      await service.recordSwipe(makeEntry('prod-1', 'like'));
+
+      await service.clearHistory('user-1');
+
+      resetSwipeHistoryService();
+      expect(await getSwipeHistoryService().getHistory('user-1')).toEqual([]);
+    });
+  });
+});
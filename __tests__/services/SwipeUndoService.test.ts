@@ -0,0 +1,348 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  SwipeUndoServiceImpl,
+  SwipeUndoTargets,
+  getSwipeUndoService,
+  resetSwipeUndoService,
+} from '../../src/services/SwipeUndoService';
+import { ProductFeedService } from '../../src/services/ProductFeedService';
+import { CategoryPreferenceService } from '../../src/services/CategoryPreferenceService';
+import { AnalyticsService } from '../../src/services/AnalyticsService';
+import { getSwipeHistoryService, resetSwipeHistoryService } from '../../src/services/SwipeHistoryService';
+import { ProductCard, SwipeAction, SwipeActionType } from '../../src/types';
+
+const makeProduct = (id: string, categoryId: string = 'electronics'): ProductCard => ({
+  id,
+  title: `Product ${id}`,
+  price: 25,
+  currency: 'USD',
+  imageUrls: [],
+  category: { id: categoryId, name: categoryId },
+  description: '',
+  specifications: {},
+  availability: true,
+});
+
+const createTargets = () => {
+  const targets = {
+    wishlist: {
+      addToWishlist: jest.fn().mockResolvedValue(undefined),
+      removeFromWishlist: jest.fn().mockResolvedValue(undefined),
+      removeFromCollection: jest.fn().mockResolvedValue(undefined),
+      isInWishlist: jest.fn().mockResolvedValue(false),
+      getWishlistItems: jest.fn().mockResolvedValue([]),
+    },
+    skipped: {
+      addSkippedProduct: jest.fn().mockResolvedValue(undefined),
+      removeSkippedProduct: jest.fn().mockResolvedValue(undefined),
+      isProductSkipped: jest.fn().mockResolvedValue(false),
+    },
+    cart: {
+      addToCart: jest.fn().mockResolvedValue(undefined),
+      removeFromCart: jest.fn().mockResolvedValue(undefined),
+      updateQuantity: jest.fn().mockResolvedValue(undefined),
+      getCartItems: jest.fn().mockResolvedValue([]),
+    },
+    feed: {
+      recordSwipeAction: jest.fn(async (productId: string, action: SwipeActionType, userId: string) => ({
+        success: true,
+        swipeAction: { productId, action, userId, timestamp: new Date(), sessionId: 's1' } as SwipeAction,
+        addedCategoryPreference: action === 'like' ? 'electronics' : undefined,
+      })),
+      undoSwipeAction: jest.fn().mockResolvedValue(undefined),
+    },
+    analytics: {
+      trackSwipe: jest.fn().mockResolvedValue(undefined),
+      markSwipeUndone: jest.fn().mockResolvedValue(true),
+    },
+  };
+  return targets;
+};
+
+describe('SwipeUndoService', () => {
+  let targets: ReturnType<typeof createTargets>;
+  let service: SwipeUndoServiceImpl;
+
+  beforeEach(() => {
+    targets = createTargets();
+    service = new SwipeUndoServiceImpl(targets as unknown as SwipeUndoTargets);
+  });
+
+  it('should roll back every side effect of a like', async () => {
+    await service.recordSwipe(makeProduct('p1'), 'like', 'user-1', 0);
+
+    const result = await service.undo();
+
+    expect(result?.errors).toEqual([]);
+    expect(result?.entry.cardIndex).toBe(0);
+    expect(targets.wishlist.removeFromWishlist).toHaveBeenCalledWith('p1');
+    expect(targets.feed.undoSwipeAction).toHaveBeenCalledWith(
+      expect.objectContaining({ productId: 'p1', action: 'like' }),
+      'electronics'
+    );
+    expect(targets.analytics.markSwipeUndone).toHaveBeenCalledWith('p1', 'user-1');
+    expect(targets.skipped.removeSkippedProduct).not.toHaveBeenCalled();
+  });
+
+  it('should roll back the skipped entry of a skip', async () => {
+    await service.recordSwipe(makeProduct('p1', 'fashion'), 'skip', 'user-1', 3);
+
+    await service.undo();
+
+    expect(targets.skipped.addSkippedProduct).toHaveBeenCalledWith('p1', 'fashion');
+    expect(targets.skipped.removeSkippedProduct).toHaveBeenCalledWith('p1');
+    expect(targets.wishlist.removeFromWishlist).not.toHaveBeenCalled();
+  });
+
+  it('should remove a product added to the cart by an up swipe', async () => {
+    await service.recordSwipe(makeProduct('p1'), 'cart', 'user-1', 0);
+
+    await service.undo();
+
+    expect(targets.cart.addToCart).toHaveBeenCalledWith('p1', 1, undefined);
+    expect(targets.cart.removeFromCart).toHaveBeenCalledWith('p1');
+    expect(targets.cart.updateQuantity).not.toHaveBeenCalled();
+    expect(targets.analytics.trackSwipe).toHaveBeenCalledWith(
+      'p1',
+      'cart',
+      'electronics',
+      25,
+      { direction: 'up' },
+      'user-1'
+    );
+  });
+
+  it('should restore the previous cart quantity when the product was already in the cart', async () => {
+    targets.cart.getCartItems.mockResolvedValue([{ productId: 'p1', quantity: 2 }]);
+
+    await service.recordSwipe(makeProduct('p1'), 'cart', 'user-1', 0);
+    await service.undo();
+
+    expect(targets.cart.updateQuantity).toHaveBeenCalledWith('p1', 2);
+    expect(targets.cart.removeFromCart).not.toHaveBeenCalled();
+  });
+
+  it('should add the default variant and roll back only that cart line', async () => {
+    const product: ProductCard = {
+      ...makeProduct('p1'),
+      variantOptions: [{ name: 'Size', values: ['S', 'M'] }],
+      variants: [
+        { id: 'p1-s', options: { Size: 'S' }, stock: 0 },
+        { id: 'p1-m', options: { Size: 'M' }, stock: 3 },
+      ],
+    };
+    targets.cart.getCartItems.mockResolvedValue([
+      { productId: 'p1', quantity: 4, selectedVariants: { Size: 'S' } },
+    ]);
+
+    await service.recordSwipe(product, 'cart', 'user-1', 0);
+    await service.undo();
+
+    expect(targets.cart.addToCart).toHaveBeenCalledWith('p1', 1, { Size: 'M' });
+    expect(targets.cart.removeFromCart).toHaveBeenCalledWith('p1::Size=M');
+    expect(targets.cart.updateQuantity).not.toHaveBeenCalled();
+  });
+
+  it('should save a super-liked product to the wishlist and roll it back', async () => {
+    await service.recordSwipe(makeProduct('p1'), 'superlike', 'user-1', 0);
+
+    expect(targets.wishlist.addToWishlist).toHaveBeenCalledWith('p1');
+    expect(targets.analytics.trackSwipe).toHaveBeenCalledWith(
+      'p1',
+      'superlike',
+      'electronics',
+      25,
+      { direction: 'down' },
+      'user-1'
+    );
+
+    await service.undo();
+    expect(targets.wishlist.removeFromWishlist).toHaveBeenCalledWith('p1');
+  });
+
+  it('should leave state that existed before the swipe untouched', async () => {
+    targets.wishlist.isInWishlist.mockResolvedValue(true);
+    targets.skipped.isProductSkipped.mockResolvedValue(true);
+
+    await service.recordSwipe(makeProduct('p1'), 'like', 'user-1', 0);
+    await service.recordSwipe(makeProduct('p2'), 'skip', 'user-1', 1);
+    await service.undo();
+    await service.undo();
+
+    expect(targets.wishlist.removeFromWishlist).not.toHaveBeenCalled();
+    expect(targets.skipped.removeSkippedProduct).not.toHaveBeenCalled();
+  });
+
+  it('should take an already wishlisted product back out of only the collection a like added', async () => {
+    targets.wishlist.getWishlistItems.mockResolvedValue([
+      { productId: 'p1', addedAt: new Date(), collectionIds: ['default'] },
+      { productId: 'p2', addedAt: new Date(), collectionIds: ['default', 'gifts'] },
+    ]);
+
+    await service.recordSwipe(makeProduct('p1'), 'like', 'user-1', 0, { collectionId: 'gifts' });
+    await service.recordSwipe(makeProduct('p2'), 'like', 'user-1', 1, { collectionId: 'gifts' });
+    await service.undo();
+    await service.undo();
+
+    expect(targets.wishlist.addToWishlist).toHaveBeenCalledWith('p1', 'gifts');
+    expect(targets.wishlist.removeFromCollection).toHaveBeenCalledTimes(1);
+    expect(targets.wishlist.removeFromCollection).toHaveBeenCalledWith('p1', 'gifts');
+    expect(targets.wishlist.removeFromWishlist).not.toHaveBeenCalled();
+  });
+
+  it('should remove a product a collection like added to the wishlist', async () => {
+    await service.recordSwipe(makeProduct('p1'), 'like', 'user-1', 0, { collectionId: 'gifts' });
+    await service.undo();
+
+    expect(targets.wishlist.removeFromWishlist).toHaveBeenCalledWith('p1');
+    expect(targets.wishlist.removeFromCollection).not.toHaveBeenCalled();
+  });
+
+  it('should undo multiple swipes newest first', async () => {
+    await service.recordSwipe(makeProduct('p1'), 'like', 'user-1', 0);
+    await service.recordSwipe(makeProduct('p2'), 'skip', 'user-1', 1);
+
+    expect(service.getDepth()).toBe(2);
+    expect((await service.undo())?.entry.product.id).toBe('p2');
+    expect((await service.undo())?.entry.product.id).toBe('p1');
+    expect(service.canUndo()).toBe(false);
+    expect(await service.undo()).toBeNull();
+  });
+
+  it('should drop the oldest swipes beyond the max depth', async () => {
+    service = new SwipeUndoServiceImpl(targets as unknown as SwipeUndoTargets, 2);
+
+    await service.recordSwipe(makeProduct('p1'), 'skip', 'user-1', 0);
+    await service.recordSwipe(makeProduct('p2'), 'skip', 'user-1', 1);
+    await service.recordSwipe(makeProduct('p3'), 'skip', 'user-1', 2);
+
+    expect(service.getDepth()).toBe(2);
+    await service.undo();
+    expect((await service.undo())?.entry.product.id).toBe('p2');
+  });
+
+  it('should wait for in-flight side effects before rolling back', async () => {
+    let finishAdd: () => void = () => {};
+    targets.wishlist.addToWishlist.mockReturnValue(
+      new Promise<void>(resolve => {
+        finishAdd = resolve;
+      })
+    );
+
+    const recorded = service.recordSwipe(makeProduct('p1'), 'like', 'user-1', 0);
+    const undone = service.undo();
+    // Let the pending isInWishlist check resolve before releasing the add
+    await Promise.resolve();
+    finishAdd();
+
+    await recorded;
+    await undone;
+    expect(targets.wishlist.removeFromWishlist).toHaveBeenCalledWith('p1');
+  });
+
+  it('should keep reverting other effects when one rollback fails', async () => {
+    targets.wishlist.removeFromWishlist.mockRejectedValue(new Error('offline'));
+
+    await service.recordSwipe(makeProduct('p1'), 'like', 'user-1', 0);
+    const result = await service.undo();
+
+    expect(result?.errors.map(error => error.message)).toEqual(['offline']);
+    expect(targets.feed.undoSwipeAction).toHaveBeenCalled();
+    expect(targets.analytics.markSwipeUndone).toHaveBeenCalled();
+  });
+
+  it('should reject recordSwipe with the first failure but still track the swipe', async () => {
+    targets.wishlist.addToWishlist.mockRejectedValue(new Error('Failed to add'));
+
+    await expect(service.recordSwipe(makeProduct('p1'), 'like', 'user-1', 0)).rejects.toThrow(
+      'Failed to add'
+    );
+
+    expect(targets.feed.recordSwipeAction).toHaveBeenCalled();
+    expect(service.getDepth()).toBe(1);
+  });
+
+  it('should require targets on first use of the singleton', () => {
+    resetSwipeUndoService();
+    expect(() => getSwipeUndoService()).toThrow('SwipeUndoService not initialized');
+    expect(getSwipeUndoService(targets as unknown as SwipeUndoTargets)).toBe(getSwipeUndoService());
+    resetSwipeUndoService();
+  });
+
+  describe('ProductFeedService.undoSwipeAction', () => {
+    beforeEach(async () => {
+      await AsyncStorage.clear();
+      resetSwipeHistoryService();
+      ProductFeedService.clearSession();
+      jest.spyOn(ProductFeedService as any, 'simulateNetworkDelay').mockResolvedValue(undefined);
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should remove the swipe from session and persisted history and revert the category bump', async () => {
+      const product = ProductFeedService.getAllProducts()[0];
+      await CategoryPreferenceService.saveUserPreferences({
+        selectedCategories: [],
+        lastUpdated: new Date(),
+      });
+
+      const response = await ProductFeedService.recordSwipeAction(product.id, 'like', 'user-1');
+      expect(response.addedCategoryPreference).toBe(product.category.id);
+
+      await ProductFeedService.undoSwipeAction(response.swipeAction!, response.addedCategoryPreference);
+
+      expect(ProductFeedService.getSessionSwipeHistory()).toHaveLength(0);
+      expect(await getSwipeHistoryService().getHistory('user-1')).toHaveLength(0);
+      expect((await CategoryPreferenceService.getUserPreferences()).selectedCategories).toEqual([]);
+    });
+
+    it('should not report a category the user had already selected', async () => {
+      const product = ProductFeedService.getAllProducts()[0];
+      await CategoryPreferenceService.saveUserPreferences({
+        selectedCategories: [product.category.id],
+        lastUpdated: new Date(),
+      });
+
+      const response = await ProductFeedService.recordSwipeAction(product.id, 'like', 'user-1');
+
+      expect(response.addedCategoryPreference).toBeUndefined();
+    });
+  });
+
+  describe('AnalyticsService.markSwipeUndone', () => {
+    it('should flag the swipe as undone and exclude it from metrics', async () => {
+      const analytics = AnalyticsService.getInstance();
+      analytics.startNewSession();
+      jest.spyOn(console, 'log').mockImplementation(() => {});
+
+      await analytics.trackSwipe('p1', 'like', 'electronics', 25);
+      expect(analytics.calculateEngagementMetrics().swipeCount).toBe(1);
+
+      expect(await analytics.markSwipeUndone('p1')).toBe(true);
+      expect(analytics.calculateEngagementMetrics().swipeCount).toBe(0);
+      expect(await analytics.markSwipeUndone('p1')).toBe(false);
+
+      jest.restoreAllMocks();
+    });
+
+    it('should report cart and super-like swipes in engagement metrics', async () => {
+      const analytics = AnalyticsService.getInstance();
+      analytics.startNewSession();
+      jest.spyOn(console, 'log').mockImplementation(() => {});
+
+      await analytics.trackSwipe('p1', 'cart', 'electronics', 25);
+      await analytics.trackSwipe('p2', 'superlike', 'electronics', 25);
+      await analytics.trackSwipe('p3', 'skip', 'fashion', 25);
+      await analytics.trackSwipe('p4', 'like', 'fashion', 25);
+
+      const metrics = analytics.calculateEngagementMetrics();
+      expect(metrics.cartSwipeRate).toBe(0.25);
+      expect(metrics.superlikeRate).toBe(0.25);
+      expect(analytics.getSwipePatterns().preferredCategories[0]).toBe('electronics');
+
+      jest.restoreAllMocks();
+    });
+  });
+});
@@ -0,0 +1,88 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { ProductCard } from '../../src/types';
+import {
+  describeWishlistAlert,
+  WishlistAlertServiceImpl,
+} from '../../src/services/WishlistAlertService';
+
+const product = (overrides: Partial<ProductCard> = {}): ProductCard => ({
+  id: 'p1',
+  title: 'Trail Runner',
+  price: 120,
+  currency: 'USD',
+  imageUrls: [],
+  category: { id: 'shoes', name: 'Shoes' },
+  description: '',
+  specifications: {},
+  availability: true,
+  ...overrides,
+});
+
+const item = (card: ProductCard) => ({ productId: card.id, addedAt: new Date(), product: card });
+
+describe('WishlistAlertService', () => {
+  let service: WishlistAlertServiceImpl;
+
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+    service = new WishlistAlertServiceImpl();
+  });
+
+  it('raises a price drop against the snapshot taken when the item was added', async () => {
+    await service.recordSnapshot(product());
+
+    const raised = await service.checkForChanges([item(product({ price: 95 }))]);
+
+    expect(raised).toHaveLength(1);
+    expect(raised[0]).toMatchObject({ type: 'price_drop', previousPrice: 120, currentPrice: 95 });
+    expect(describeWishlistAlert(raised[0])).toBe('Trail Runner dropped from USD 120.00 to USD 95.00');
+    // The snapshot moves forward, so the same drop is not reported twice
+    expect(await service.checkForChanges([item(product({ price: 95 }))])).toEqual([]);
+    expect(await service.getAlerts()).toHaveLength(1);
+  });
+
+  it('reports stock changes and ignores price rises and other currencies', async () => {
+    await service.recordSnapshot(product({ availability: false }));
+
+    const [backInStock] = await service.checkForChanges([item(product({ price: 100 }))]);
+    expect(backInStock.type).toBe('back_in_stock');
+
+    expect(await service.checkForChanges([item(product({ price: 150 }))])).toEqual([]);
+    expect(await service.checkForChanges([item(product({ price: 80, currency: 'EUR' }))])).toEqual([]);
+    expect((await service.getSnapshot('p1'))?.currency).toBe('EUR');
+  });
+
+  it('tracks muted items without raising alerts for them', async () => {
+    await service.recordSnapshot(product());
+    await service.setAlertsEnabled('p1', false);
+
+    expect(await service.checkForChanges([item(product({ price: 60 }))])).toEqual([]);
+    expect((await service.getSnapshot('p1'))?.price).toBe(60);
+
+    await service.setAlertsEnabled('p1', true);
+    const [drop] = await service.checkForChanges([item(product({ price: 50 }))]);
+    expect(drop.previousPrice).toBe(60);
+  });
+
+  it('skips placeholder prices and forgets products that left the wishlist', async () => {
+    await service.recordSnapshot(product());
+    await service.recordSnapshot(product({ id: 'p2' }));
+
+    expect(await service.checkForChanges([item(product({ price: 0 }))])).toEqual([]);
+
+    expect((await service.getSnapshot('p1'))?.price).toBe(120);
+    expect(await service.getSnapshot('p2')).toBeNull();
+  });
+
+  it('keeps alerts and read state across restarts', async () => {
+    await service.recordSnapshot(product());
+    const [drop] = await service.checkForChanges([item(product({ price: 99 }))]);
+    await service.markAlertRead(drop.id);
+
+    const restarted = new WishlistAlertServiceImpl();
+    expect(await restarted.getAlerts()).toEqual([{ ...drop, read: true }]);
+
+    await restarted.removeProduct('p1');
+    expect(await restarted.getAlerts()).toEqual([]);
+  });
+});
@@ -1,5 +1,13 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { WishlistServiceImpl, getWishlistService, resetWishlistService, WishlistItem } from '../../src/services/WishlistService';
+import {
+  WishlistServiceImpl,
+  getWishlistService,
+  resetWishlistService,
+  WishlistItem,
+  DEFAULT_WISHLIST_COLLECTION_ID,
+  getWishlistShareUrl,
+} from '../../src/services/WishlistService';
+import { ProductDetailsService } from '../../src/services/ProductDetailsService';
 
 // Mock AsyncStorage
 jest.mock('@react-native-async-storage/async-storage', () => ({
@@ -261,6 +269,126 @@ describe('WishlistService', () => {
     });
   });
 
+  describe('Collections', () => {
+    const savedWishlist = () => {
+      const calls = (AsyncStorage.setItem as jest.Mock).mock.calls.filter(
+        ([key]) => key === '@swipely_wishlist'
+      );
+      return JSON.parse(calls[calls.length - 1][1]);
+    };
+
+    beforeEach(() => {
+      (AsyncStorage.setItem as jest.Mock).mockResolvedValue(undefined);
+    });
+
+    it('should migrate a wishlist saved before collections into the default collection', async () => {
+      const legacyItems: WishlistItem[] = [{ productId: mockProductId, addedAt: new Date() }];
+      (AsyncStorage.getItem as jest.Mock).mockResolvedValue(JSON.stringify(legacyItems));
+
+      const collections = await service.getCollections();
+      const items = await service.getWishlistItems();
+
+      expect(collections).toEqual([
+        expect.objectContaining({ id: DEFAULT_WISHLIST_COLLECTION_ID, name: 'My Wishlist', isDefault: true }),
+      ]);
+      expect(items[0].collectionIds).toEqual([DEFAULT_WISHLIST_COLLECTION_ID]);
+
+      await service.addToWishlist(mockProductId2);
+      const saved = savedWishlist();
+      expect(saved.collections).toHaveLength(1);
+      expect(saved.items.map((item: WishlistItem) => item.collectionIds)).toEqual([
+        [DEFAULT_WISHLIST_COLLECTION_ID],
+        [DEFAULT_WISHLIST_COLLECTION_ID],
+      ]);
+    });
+
+    it('should keep an item in several collections', async () => {
+      (AsyncStorage.getItem as jest.Mock).mockResolvedValue(null);
+      const gifts = await service.createCollection('  Gift ideas ');
+
+      await service.addToWishlist(mockProductId);
+      await service.addToWishlist(mockProductId, gifts.id);
+
+      expect(gifts.name).toBe('Gift ideas');
+      const [item] = await service.getWishlistItems();
+      expect(item.collectionIds).toEqual([DEFAULT_WISHLIST_COLLECTION_ID, gifts.id]);
+      expect(await service.getWishlistCount()).toBe(1);
+
+      await service.removeFromCollection(mockProductId, DEFAULT_WISHLIST_COLLECTION_ID);
+      expect((await service.getWishlistItems())[0].collectionIds).toEqual([gifts.id]);
+
+      // Leaving the last collection leaves the wishlist
+      await service.removeFromCollection(mockProductId, gifts.id);
+      expect(await service.isInWishlist(mockProductId)).toBe(false);
+    });
+
+    it('should reject empty, duplicate and unknown collections', async () => {
+      (AsyncStorage.getItem as jest.Mock).mockResolvedValue(null);
+      const office = await service.createCollection('Home office');
+
+      await expect(service.createCollection('   ')).rejects.toThrow('Collection name cannot be empty');
+      await expect(service.createCollection('home OFFICE')).rejects.toThrow(
+        'A collection with that name already exists'
+      );
+      await expect(service.addToWishlist(mockProductId, 'missing')).rejects.toThrow('Collection not found');
+
+      const renamed = await service.renameCollection(office.id, 'Desk setup');
+      expect(renamed.name).toBe('Desk setup');
+    });
+
+    it('should move items only in a deleted collection to the default one', async () => {
+      (AsyncStorage.getItem as jest.Mock).mockResolvedValue(null);
+      const gifts = await service.createCollection('Gift ideas');
+      await service.addToWishlist(mockProductId, gifts.id);
+
+      await service.deleteCollection(gifts.id);
+
+      expect((await service.getCollections()).map(c => c.id)).toEqual([DEFAULT_WISHLIST_COLLECTION_ID]);
+      expect((await service.getWishlistItems())[0].collectionIds).toEqual([DEFAULT_WISHLIST_COLLECTION_ID]);
+      await expect(service.deleteCollection(DEFAULT_WISHLIST_COLLECTION_ID)).rejects.toThrow(
+        'The default collection cannot be deleted'
+      );
+    });
+  });
+
+  describe('Share links', () => {
+    beforeEach(() => {
+      const stored = new Map<string, string>();
+      (AsyncStorage.getItem as jest.Mock).mockImplementation(async (key: string) => stored.get(key) ?? null);
+      (AsyncStorage.setItem as jest.Mock).mockImplementation(async (key: string, value: string) => {
+        stored.set(key, value);
+      });
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should resolve a share link to the products that still load', async () => {
+      jest.spyOn(console, 'warn').mockImplementation(() => {});
+      jest.spyOn(ProductDetailsService, 'getProductDetails').mockImplementation(async (productId: string) => {
+        if (productId === mockProductId2) {
+          throw new Error('Product not found');
+        }
+        return { id: productId, title: 'Shared product' } as any;
+      });
+
+      const link = await service.createShareLink([mockProductId, mockProductId2, mockProductId], ' Gift ideas ');
+      const shared = await service.getSharedWishlist(link.token);
+
+      expect(link.title).toBe('Gift ideas');
+      expect(link.productIds).toEqual([mockProductId, mockProductId2]);
+      expect(getWishlistShareUrl(link.token)).toBe(`swipely://wishlist/shared/${link.token}`);
+      expect(shared.products.map(product => product.id)).toEqual([mockProductId]);
+      expect(shared.unavailableCount).toBe(1);
+    });
+
+    it('should reject empty shares and unknown tokens', async () => {
+      await expect(service.createShareLink([], 'Wishlist')).rejects.toThrow('Nothing to share');
+      await expect(service.getSharedWishlist('missing-token')).rejects.toThrow('Share link not found');
+    });
+  });
+
   describe('Singleton Pattern', () => {
     it('should return same instance from getWishlistService', () => {
       const instance1 = getWishlistService();
@@ -0,0 +1,55 @@
+/**
+ * Tests for AdvancedGestureHandler four-direction swipe resolution
+ */
+
+import { AdvancedGestureHandler, SwipeThresholds } from '../../src/utils/AdvancedGestureHandler';
+
+const thresholds: SwipeThresholds = {
+  left: { distance: 100, velocity: 0.5 },
+  right: { distance: 100, velocity: 0.5 },
+  up: { distance: 120, velocity: 0.8 },
+  down: { distance: 120, velocity: 0.9 },
+};
+
+describe('AdvancedGestureHandler', () => {
+  describe('resolveSwipeDirection', () => {
+    it('should commit on distance along the dominant axis', () => {
+      expect(AdvancedGestureHandler.resolveSwipeDirection(-150, 20, 0, 0, thresholds)).toBe('left');
+      expect(AdvancedGestureHandler.resolveSwipeDirection(150, -20, 0, 0, thresholds)).toBe('right');
+      expect(AdvancedGestureHandler.resolveSwipeDirection(10, -130, 0, 0, thresholds)).toBe('up');
+      expect(AdvancedGestureHandler.resolveSwipeDirection(-10, 130, 0, 0, thresholds)).toBe('down');
+    });
+
+    it('should use the threshold of each direction', () => {
+      // Past the horizontal distance but not the vertical one
+      expect(AdvancedGestureHandler.resolveSwipeDirection(0, -110, 0, 0, thresholds)).toBe('none');
+      expect(AdvancedGestureHandler.resolveSwipeDirection(0, 50, 0, 0.85, thresholds)).toBe('none');
+      expect(AdvancedGestureHandler.resolveSwipeDirection(0, 50, 0, 0.95, thresholds)).toBe('down');
+    });
+
+    it('should only commit on velocity towards the swipe direction', () => {
+      expect(AdvancedGestureHandler.resolveSwipeDirection(-40, 0, -0.6, 0, thresholds)).toBe('left');
+      // Flicking back towards the centre cancels the swipe
+      expect(AdvancedGestureHandler.resolveSwipeDirection(-40, 0, 0.6, 0, thresholds)).toBe('none');
+      expect(AdvancedGestureHandler.resolveSwipeDirection(5, -60, 0, -1, thresholds)).toBe('up');
+    });
+  });
+
+  describe('calculateOverlayOpacity', () => {
+    it('should only show overlays for the dominant axis', () => {
+      expect(AdvancedGestureHandler.calculateOverlayOpacity(50, 100, -20, 120)).toEqual({
+        like: 0.5,
+        skip: 0,
+        cart: 0,
+        superlike: 0,
+      });
+      expect(AdvancedGestureHandler.calculateOverlayOpacity(20, 100, -240, 120)).toEqual({
+        like: 0,
+        skip: 0,
+        cart: 1,
+        superlike: 0,
+      });
+      expect(AdvancedGestureHandler.calculateOverlayOpacity(0, 100, 60, 120).superlike).toBe(0.5);
+    });
+  });
+});
@@ -0,0 +1,72 @@
+/**
+ * Tests for keyboard and screen reader swipe command mapping
+ */
+
+import {
+  getNextProductAnnouncement,
+  getProductAccessibilityLabel,
+  getSwipeCommandForAccessibilityAction,
+  getSwipeCommandForKey,
+  SWIPE_ACCESSIBILITY_ACTIONS,
+} from '../../src/utils/SwipeControls';
+import { ProductCard } from '../../src/types';
+
+const product: ProductCard = {
+  id: 'p1',
+  title: 'Wireless Headphones',
+  price: 199,
+  currency: 'USD',
+  imageUrls: [],
+  category: { id: 'electronics', name: 'Electronics' },
+  description: '',
+  specifications: {},
+  availability: true,
+};
+
+describe('SwipeControls', () => {
+  describe('getSwipeCommandForKey', () => {
+    it('should map arrow keys and letter shortcuts to swipe commands', () => {
+      expect(getSwipeCommandForKey({ key: 'ArrowLeft' })).toBe('left');
+      expect(getSwipeCommandForKey({ key: 'ArrowRight' })).toBe('right');
+      expect(getSwipeCommandForKey({ key: 'ArrowUp' })).toBe('up');
+      expect(getSwipeCommandForKey({ key: 'ArrowDown' })).toBe('down');
+      expect(getSwipeCommandForKey({ key: 'L' })).toBe('right');
+      expect(getSwipeCommandForKey({ key: 'Enter' })).toBe('details');
+      expect(getSwipeCommandForKey({ key: 'q' })).toBeNull();
+    });
+
+    it('should ignore repeats, modifier chords and typing in form fields', () => {
+      expect(getSwipeCommandForKey({ key: 'ArrowLeft', repeat: true })).toBeNull();
+      expect(getSwipeCommandForKey({ key: 'l', metaKey: true })).toBeNull();
+      expect(getSwipeCommandForKey({ key: 'c', ctrlKey: true })).toBeNull();
+      expect(getSwipeCommandForKey({ key: 'l', target: { tagName: 'input' } })).toBeNull();
+      expect(getSwipeCommandForKey({ key: 'l', target: { isContentEditable: true } })).toBeNull();
+      expect(getSwipeCommandForKey({ key: 'l', target: { tagName: 'DIV' } })).toBe('right');
+    });
+  });
+
+  describe('getSwipeCommandForAccessibilityAction', () => {
+    it('should resolve every exposed action', () => {
+      const commands = SWIPE_ACCESSIBILITY_ACTIONS.map(action =>
+        getSwipeCommandForAccessibilityAction(action.name)
+      );
+
+      expect(commands).toEqual(['right', 'left', 'details', 'up', 'down']);
+      expect(getSwipeCommandForAccessibilityAction('activate')).toBe('details');
+      expect(getSwipeCommandForAccessibilityAction('magicTap')).toBeNull();
+    });
+  });
+
+  describe('announcements', () => {
+    it('should describe the product and its stock', () => {
+      expect(getProductAccessibilityLabel(product)).toBe('Wireless Headphones, $199.00, Electronics');
+      expect(getProductAccessibilityLabel({ ...product, availability: false })).toBe(
+        'Wireless Headphones, $199.00, Electronics, out of stock'
+      );
+      expect(getNextProductAnnouncement(product)).toBe(
+        'Next product: Wireless Headphones, $199.00, Electronics'
+      );
+      expect(getNextProductAnnouncement(undefined)).toBe('No more products');
+    });
+  });
+});
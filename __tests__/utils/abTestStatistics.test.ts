@@ -0,0 +1,76 @@
+import {
+  analyzeABTest,
+  chiSquarePValue,
+  normalCdf,
+  sampleRatioPValue,
+  twoProportionZTest,
+  VariantCounts,
+} from '../../src/utils/abTestStatistics';
+
+const counts = (
+  control: [number, number],
+  treatment: [number, number],
+  allocation: [number, number] = [50, 50]
+): VariantCounts[] => [
+  { variantId: 'control', isControl: true, allocation: allocation[0], exposures: control[0], conversions: control[1] },
+  { variantId: 'treatment', isControl: false, allocation: allocation[1], exposures: treatment[0], conversions: treatment[1] },
+];
+
+describe('abTestStatistics', () => {
+  it('matches reference values for the normal and chi-square distributions', () => {
+    expect(normalCdf(0)).toBeCloseTo(0.5, 6);
+    expect(normalCdf(1.959964)).toBeCloseTo(0.975, 5);
+    expect(chiSquarePValue(3.841459, 1)).toBeCloseTo(0.05, 5);
+    expect(chiSquarePValue(5.991465, 2)).toBeCloseTo(0.05, 5);
+    expect(chiSquarePValue(0, 3)).toBe(1);
+  });
+
+  it('runs a two-proportion z-test', () => {
+    // 10% vs 15% on 1000 users each: z is about 3.38
+    const { z, pValue } = twoProportionZTest(100, 1000, 150, 1000);
+    expect(z).toBeCloseTo(3.38, 2);
+    expect(pValue).toBeCloseTo(0.00072, 4);
+
+    expect(twoProportionZTest(0, 0, 5, 10).pValue).toBe(1);
+    expect(twoProportionZTest(0, 50, 0, 50).pValue).toBe(1);
+  });
+
+  it('waits for the minimum sample before calling a winner', () => {
+    const analysis = analyzeABTest(counts([50, 5], [50, 25]));
+
+    expect(analysis.hasMinimumSample).toBe(false);
+    expect(analysis.decision).toBe('insufficient_data');
+    expect(analysis.variants[1].pValue).toBeLessThan(0.001);
+  });
+
+  it('picks a treatment that beats the control', () => {
+    const analysis = analyzeABTest(counts([1000, 100], [1000, 150]));
+    const treatment = analysis.variants[1];
+
+    expect(analysis.decision).toBe('winner');
+    expect(analysis.winnerVariantId).toBe('treatment');
+    expect(treatment.lift).toBeCloseTo(0.5, 6);
+    expect(treatment.differenceInterval![0]).toBeGreaterThan(0);
+  });
+
+  it('picks the control only when every treatment is worse', () => {
+    const worse = analyzeABTest(counts([1000, 150], [1000, 100]));
+    expect(worse.winnerVariantId).toBe('control');
+
+    const close = analyzeABTest(counts([1000, 100], [1000, 110]));
+    expect(close.decision).toBe('no_winner');
+    expect(close.winnerVariantId).toBeNull();
+  });
+
+  it('flags a traffic split that does not match the allocation', () => {
+    expect(sampleRatioPValue(counts([500, 0], [500, 0]))).toBeCloseTo(1, 6);
+
+    const analysis = analyzeABTest(counts([1200, 120], [800, 160]));
+    expect(analysis.sampleRatioMismatch).toBe(true);
+    expect(analysis.decision).toBe('sample_ratio_mismatch');
+    expect(analysis.winnerVariantId).toBeNull();
+
+    // The same split is expected under a 60/40 allocation
+    expect(analyzeABTest(counts([1200, 120], [800, 160], [60, 40])).sampleRatioMismatch).toBe(false);
+  });
+});
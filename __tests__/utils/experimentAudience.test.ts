@@ -0,0 +1,30 @@
+import { compareVersions, matchesAudience, AudienceContext } from '../../src/utils/experimentAudience';
+
+const device: AudienceContext = { platform: 'ios', country: 'US', appVersion: '1.4.2' };
+
+describe('experimentAudience', () => {
+  it('compares versions numerically', () => {
+    expect(compareVersions('1.10.0', '1.9.0')).toBe(1);
+    expect(compareVersions('1.2', '1.2.0')).toBe(0);
+    expect(compareVersions('2.0.0', '10.0.0')).toBe(-1);
+  });
+
+  it('matches everyone when the audience has no constraints', () => {
+    expect(matchesAudience({}, device)).toBe(true);
+    expect(matchesAudience({ platforms: [], countries: [] }, device)).toBe(true);
+  });
+
+  it('honors platforms and countries', () => {
+    expect(matchesAudience({ platforms: ['ios', 'web'] }, device)).toBe(true);
+    expect(matchesAudience({ platforms: ['android'] }, device)).toBe(false);
+    expect(matchesAudience({ countries: ['us', 'CA'] }, device)).toBe(true);
+    expect(matchesAudience({ countries: ['DE'] }, device)).toBe(false);
+    expect(matchesAudience({ countries: ['US'] }, { ...device, country: undefined })).toBe(false);
+  });
+
+  it('treats app version bounds as inclusive', () => {
+    expect(matchesAudience({ minAppVersion: '1.4.2', maxAppVersion: '1.4.2' }, device)).toBe(true);
+    expect(matchesAudience({ minAppVersion: '1.5.0' }, device)).toBe(false);
+    expect(matchesAudience({ maxAppVersion: '1.4.1' }, device)).toBe(false);
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * Tests for product variant selection and cart line keys
+ */
+
+import {
+  findVariant,
+  formatVariantSelection,
+  getCartLineId,
+  getDefaultVariantSelection,
+  getVariantPrice,
+  getVariantStock,
+  isOptionValueAvailable,
+  isSelectionComplete,
+} from '../../src/utils/productVariants';
+import { ProductCard } from '../../src/types';
+
+const plainProduct: ProductCard = {
+  id: 'p1',
+  title: 'Wireless Headphones',
+  price: 199,
+  currency: 'USD',
+  imageUrls: [],
+  category: { id: 'electronics', name: 'Electronics' },
+  description: '',
+  specifications: {},
+  availability: true,
+};
+
+const shoe: ProductCard = {
+  ...plainProduct,
+  id: 'shoe',
+  title: 'Running Shoe',
+  price: 100,
+  variantOptions: [
+    { name: 'Size', values: ['9', '10'] },
+    { name: 'Color', values: ['Black', 'White'] },
+  ],
+  variants: [
+    { id: 'shoe-9-black', options: { Size: '9', Color: 'Black' }, stock: 0 },
+    { id: 'shoe-9-white', options: { Size: '9', Color: 'White' }, stock: 2 },
+    { id: 'shoe-10-black', options: { Size: '10', Color: 'Black' }, price: 120, stock: 5 },
+    { id: 'shoe-10-white', options: { Size: '10', Color: 'White' }, stock: 0 },
+  ],
+};
+
+describe('productVariants', () => {
+  describe('getCartLineId', () => {
+    it('should keep the product ID for lines without a selection', () => {
+      expect(getCartLineId('p1')).toBe('p1');
+      expect(getCartLineId('p1', {})).toBe('p1');
+    });
+
+    it('should not depend on option order', () => {
+      expect(getCartLineId('shoe', { Size: '10', Color: 'Black' })).toBe(
+        getCartLineId('shoe', { Color: 'Black', Size: '10' })
+      );
+      expect(getCartLineId('shoe', { Size: '10', Color: 'Black' })).toBe('shoe::Color=Black|Size=10');
+    });
+  });
+
+  describe('findVariant', () => {
+    it('should only match a complete selection', () => {
+      expect(findVariant(shoe, { Size: '10', Color: 'Black' })?.id).toBe('shoe-10-black');
+      expect(findVariant(shoe, { Size: '10' })).toBeUndefined();
+      expect(findVariant(plainProduct, { Size: '10' })).toBeUndefined();
+    });
+  });
+
+  it('should use the variant price when it overrides the product price', () => {
+    expect(getVariantPrice(shoe, { Size: '10', Color: 'Black' })).toBe(120);
+    expect(getVariantPrice(shoe, { Size: '9', Color: 'White' })).toBe(100);
+    expect(getVariantPrice(plainProduct)).toBe(199);
+  });
+
+  it('should report stock per variant and fall back to availability', () => {
+    expect(getVariantStock(shoe, { Size: '9', Color: 'White' })).toBe(2);
+    expect(getVariantStock(shoe, { Size: '9' })).toBe(0);
+    expect(getVariantStock(plainProduct)).toBe(Number.POSITIVE_INFINITY);
+    expect(getVariantStock({ ...plainProduct, availability: false })).toBe(0);
+  });
+
+  it('should mark option values that cannot reach an in-stock variant', () => {
+    expect(isOptionValueAvailable(shoe, { Size: '9' }, 'Color', 'Black')).toBe(false);
+    expect(isOptionValueAvailable(shoe, { Size: '9' }, 'Color', 'White')).toBe(true);
+    expect(isOptionValueAvailable(shoe, {}, 'Size', '10')).toBe(true);
+  });
+
+  it('should default to the first in-stock variant', () => {
+    expect(getDefaultVariantSelection(shoe)).toEqual({ Size: '9', Color: 'White' });
+    expect(getDefaultVariantSelection(plainProduct)).toBeUndefined();
+  });
+
+  it('should require a value for every option', () => {
+    expect(isSelectionComplete(shoe, { Size: '9' })).toBe(false);
+    expect(isSelectionComplete(shoe, { Size: '9', Color: 'White' })).toBe(true);
+    expect(isSelectionComplete(plainProduct, {})).toBe(true);
+  });
+
+  it('should format a selection for display', () => {
+    expect(formatVariantSelection({ Size: '10', Color: 'Black' })).toBe('Size: 10 · Color: Black');
+    expect(formatVariantSelection(undefined)).toBe('');
+  });
+});
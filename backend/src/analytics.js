@@ -0,0 +1,93 @@
+// Analytics ingest. Clients send batches of events wrapped in a
+// schema-versioned envelope; event ids let a retried batch be stored once.
+
+const SUPPORTED_ANALYTICS_SCHEMA_VERSIONS = [1];
+const MAX_ANALYTICS_EVENTS_PER_BATCH = 500;
+const MAX_EVENT_ID_LENGTH = 128;
+const MAX_EVENT_NAME_LENGTH = 100;
+
+const isPlainObject = value =>
+  Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+
+const isNonEmptyString = (value, maxLength) =>
+  typeof value === 'string' && value.length > 0 && value.length <= maxLength;
+
+/**
+ * Validate one event and convert it to the stored shape. Returns the event
+ * or an error message.
+ */
+function parseAnalyticsEvent(event, schemaVersion, receivedAt) {
+  if (!isPlainObject(event)) {
+    return { error: 'Each event must be an object' };
+  }
+
+  const { id, name, timestamp, sessionId, userId, properties, undone } = event;
+  if (!isNonEmptyString(id, MAX_EVENT_ID_LENGTH)) {
+    return { error: 'Event id is required' };
+  }
+  if (!isNonEmptyString(name, MAX_EVENT_NAME_LENGTH)) {
+    return { error: `Event ${id} has an invalid name` };
+  }
+  if (typeof timestamp !== 'string' || Number.isNaN(Date.parse(timestamp))) {
+    return { error: `Event ${id} has an invalid timestamp` };
+  }
+  if (!isNonEmptyString(sessionId, MAX_EVENT_ID_LENGTH)) {
+    return { error: `Event ${id} is missing a sessionId` };
+  }
+  if (userId !== undefined && userId !== null && typeof userId !== 'string') {
+    return { error: `Event ${id} has an invalid userId` };
+  }
+  if (properties !== undefined && !isPlainObject(properties)) {
+    return { error: `Event ${id} properties must be an object` };
+  }
+
+  return {
+    event: {
+      id,
+      name,
+      timestamp: new Date(timestamp).toISOString(),
+      sessionId,
+      userId: userId || null,
+      properties: properties || {},
+      undone: undone === true,
+      schemaVersion,
+      receivedAt,
+    },
+  };
+}
+
+/**
+ * Validate an ingest request. Returns the events to store, or an error
+ * message for the whole batch.
+ */
+function parseAnalyticsBatch(body) {
+  const { schemaVersion, events } = body || {};
+
+  if (!SUPPORTED_ANALYTICS_SCHEMA_VERSIONS.includes(schemaVersion)) {
+    return { error: `Unsupported schemaVersion: ${schemaVersion}` };
+  }
+  if (!Array.isArray(events) || events.length === 0) {
+    return { error: 'events must be a non-empty array' };
+  }
+  if (events.length > MAX_ANALYTICS_EVENTS_PER_BATCH) {
+    return { error: `A batch can contain at most ${MAX_ANALYTICS_EVENTS_PER_BATCH} events` };
+  }
+
+  const receivedAt = new Date().toISOString();
+  const parsedEvents = [];
+  for (const event of events) {
+    const parsed = parseAnalyticsEvent(event, schemaVersion, receivedAt);
+    if (parsed.error) {
+      return { error: parsed.error };
+    }
+    parsedEvents.push(parsed.event);
+  }
+
+  return { events: parsedEvents };
+}
+
+module.exports = {
+  MAX_ANALYTICS_EVENTS_PER_BATCH,
+  SUPPORTED_ANALYTICS_SCHEMA_VERSIONS,
+  parseAnalyticsBatch,
+};
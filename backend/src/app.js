@@ -2,10 +2,42 @@ const express = require('express');
 const cors = require('cors');
 const helmet = require('helmet');
 const rateLimit = require('express-rate-limit');
+const { calculateTotals, defaultPricingRules, parsePricedItems } = require('./pricing');
+const { MAX_SYNC_RECORDS_PER_PUSH, applySyncPush, parseSyncRecord } = require('./sync');
+const { createShareToken, isShareToken, parseShareRequest } = require('./shares');
+const { parseAnalyticsBatch } = require('./analytics');
+const {
+  MAX_SEARCH_MATCHES,
+  buildSearchFacets,
+  isInPriceRange,
+  matchesSearchFilters,
+  parseSearchRequest,
+} = require('./search');
+const { groupCrashReports, parseCrashBatch, symbolicateCrashReport } = require('./crashes');
+const { getSourceMapKey, parseSourceMap } = require('./sourceMaps');
+const {
+  CONVERSION_EVENT_NAME,
+  DEFAULT_EXPERIMENTS_CONFIG,
+  EXPOSURE_EVENT_NAME,
+  getExperimentsConfigETag,
+  summarizeExperimentEvents,
+  validateExperimentsConfig,
+} = require('./experiments');
 
 function createInMemoryPaymentStore() {
   const processedEventIds = new Set();
   const paymentsByOrderId = new Map();
+  const refundsByOrderId = new Map();
+  const ordersById = new Map();
+  const syncRecordsByUserId = new Map();
+  const syncVersionsByUserId = new Map();
+  const shareLinksByToken = new Map();
+  const analyticsEventsById = new Map();
+  const crashReportsById = new Map();
+  const sourceMapsByBuild = new Map();
+
+  const getSyncCursor = records =>
+    [...records.values()].reduce((max, record) => Math.max(max, record.serverVersion), 0);
 
   return {
     async hasProcessedEvent(eventId) {
@@ -34,6 +66,105 @@ function createInMemoryPaymentStore() {
         updatedAt: new Date().toISOString(),
       });
     },
+    async getRefunds(orderId) {
+      return [...(refundsByOrderId.get(orderId) || [])];
+    },
+    async addRefund(orderId, refund) {
+      if (!orderId) {
+        return;
+      }
+
+      refundsByOrderId.set(orderId, [
+        ...(refundsByOrderId.get(orderId) || []),
+        { ...refund, orderId, createdAt: refund.createdAt || new Date().toISOString() },
+      ]);
+    },
+    async saveOrder(order) {
+      if (!order?.orderId) {
+        return;
+      }
+
+      ordersById.set(order.orderId, { ...order, updatedAt: new Date().toISOString() });
+    },
+    async getOrder(orderId) {
+      return ordersById.get(orderId) || null;
+    },
+    async listOrders(userId, { limit = 50, offset = 0 } = {}) {
+      const orders = [...ordersById.values()]
+        .filter(order => order.userId === userId)
+        .sort((a, b) => String(b.createdAt).localeCompare(String(a.createdAt)));
+      return { orders: orders.slice(offset, offset + limit), total: orders.length };
+    },
+    async getSyncRecord(userId, recordId) {
+      return syncRecordsByUserId.get(userId)?.get(recordId) || null;
+    },
+    async listSyncRecords(userId, { since = 0 } = {}) {
+      const records = syncRecordsByUserId.get(userId) || new Map();
+      return {
+        records: [...records.values()]
+          .filter(record => record.serverVersion > since)
+          .sort((a, b) => a.serverVersion - b.serverVersion),
+        cursor: Math.max(since, getSyncCursor(records)),
+      };
+    },
+    async pushSyncRecords(userId, pushed) {
+      const records = syncRecordsByUserId.get(userId) || new Map();
+      const { results, cursor } = applySyncPush(
+        records,
+        pushed,
+        syncVersionsByUserId.get(userId) || 0
+      );
+      syncRecordsByUserId.set(userId, records);
+      syncVersionsByUserId.set(userId, cursor);
+      return { results, cursor };
+    },
+    async saveShareLink(link) {
+      shareLinksByToken.set(link.token, { ...link });
+    },
+    async getShareLink(token) {
+      return shareLinksByToken.get(token) || null;
+    },
+    async saveAnalyticsEvents(events) {
+      let saved = 0;
+      for (const event of events) {
+        if (!analyticsEventsById.has(event.id)) {
+          analyticsEventsById.set(event.id, { ...event });
+          saved += 1;
+        }
+      }
+      return saved;
+    },
+    async listAnalyticsEvents({ limit = 100 } = {}) {
+      return [...analyticsEventsById.values()]
+        .sort((a, b) => String(b.timestamp).localeCompare(String(a.timestamp)))
+        .slice(0, limit);
+    },
+    async listExperimentEvents(testId) {
+      return [...analyticsEventsById.values()].filter(
+        event =>
+          (event.name === EXPOSURE_EVENT_NAME || event.name === CONVERSION_EVENT_NAME) &&
+          event.properties?.test_id === testId
+      );
+    },
+    async saveCrashReports(reports) {
+      let saved = 0;
+      for (const report of reports) {
+        if (!crashReportsById.has(report.id)) {
+          crashReportsById.set(report.id, { ...report });
+          saved += 1;
+        }
+      }
+      return saved;
+    },
+    async listCrashGroups({ limit = 50 } = {}) {
+      return groupCrashReports(crashReportsById.values(), limit);
+    },
+    async saveSourceMap(appVersion, buildNumber, sourceMap) {
+      sourceMapsByBuild.set(getSourceMapKey(appVersion, buildNumber), sourceMap);
+    },
+    async getSourceMap(appVersion, buildNumber) {
+      return sourceMapsByBuild.get(getSourceMapKey(appVersion, buildNumber)) || null;
+    },
   };
 }
 
@@ -75,10 +206,8 @@ function filterCards(cards, filters) {
       return false;
     }
 
-    if (filters?.priceRange) {
-      if (card.price < filters.priceRange.min || card.price > filters.priceRange.max) {
-        return false;
-      }
+    if (filters?.priceRange && !isInPriceRange(card.price, filters.priceRange)) {
+      return false;
     }
 
     if (filters?.excludeProductIds?.length && filters.excludeProductIds.includes(card.id)) {
@@ -89,6 +218,139 @@ function filterCards(cards, filters) {
   });
 }
 
+// Stripe caps metadata values at 500 characters
+const METADATA_VALUE_LIMIT = 500;
+
+function truncateMetadataValue(value) {
+  return value.length > METADATA_VALUE_LIMIT
+    ? `${value.slice(0, METADATA_VALUE_LIMIT - 3)}...`
+    : value;
+}
+
+function toLineItemMetadata(items) {
+  if (!Array.isArray(items)) {
+    return {};
+  }
+
+  const lines = items.filter(item => item && typeof item.productId === 'string' && item.productId);
+  if (lines.length === 0) {
+    return {};
+  }
+
+  const skus = lines
+    .map(item => {
+      const sku = item.variantId ? `${item.productId}/${item.variantId}` : item.productId;
+      return `${sku}x${Math.max(1, Math.round(Number(item.quantity) || 1))}`;
+    })
+    .join(',');
+  const variants = lines
+    .filter(item => typeof item.variant === 'string' && item.variant)
+    .map(item => `${item.productId}: ${item.variant}`)
+    .join('; ');
+
+  const metadata = {
+    itemCount: String(lines.length),
+    items: truncateMetadataValue(skus),
+  };
+  if (variants) {
+    metadata.variants = truncateMetadataValue(variants);
+  }
+  return metadata;
+}
+
+// Reasons accepted by the Stripe refunds API
+const REFUND_REASONS = ['duplicate', 'fraudulent', 'requested_by_customer'];
+const REFUND_PAYMENT_STATUSES = ['refunded', 'partially_refunded'];
+
+function parseRefundItems(items) {
+  if (items === undefined) {
+    return { items: [] };
+  }
+  if (!Array.isArray(items)) {
+    return { error: 'items must be an array' };
+  }
+
+  const parsed = [];
+  for (const item of items) {
+    const quantity = Number(item?.quantity);
+    if (!item || typeof item.productId !== 'string' || !item.productId) {
+      return { error: 'Each refunded item needs a productId' };
+    }
+    if (!Number.isInteger(quantity) || quantity <= 0) {
+      return { error: `Invalid refund quantity for ${item.productId}` };
+    }
+
+    parsed.push({
+      productId: item.productId,
+      ...(typeof item.variantId === 'string' && item.variantId && { variantId: item.variantId }),
+      quantity,
+    });
+  }
+
+  return { items: parsed };
+}
+
+const ORDER_STATUSES = ['completed', 'shipped', 'delivered', 'cancelled', 'refunded'];
+const MAX_ORDER_PAGE_SIZE = 100;
+const SOURCE_MAP_ROUTE = '/internal/source-maps';
+const MAX_SOURCE_MAP_SIZE = '50mb';
+const CRASH_ROUTE = '/crashes';
+// A batch of reports with breadcrumbs and app state runs past the default limit
+const MAX_CRASH_BATCH_SIZE = '1mb';
+const MAX_DECODED_SOURCE_MAPS = 5;
+
+/**
+ * Validate an order sent by the app. Returns the order with a normalized
+ * status and timestamps, or an error message.
+ */
+function parseOrder(order) {
+  if (!order || typeof order.orderId !== 'string' || !order.orderId) {
+    return { error: 'orderId is required' };
+  }
+  if (typeof order.userId !== 'string' || !order.userId) {
+    return { error: 'userId is required' };
+  }
+  if (!Array.isArray(order.items) || order.items.length === 0) {
+    return { error: 'items must be a non-empty array' };
+  }
+  for (const item of order.items) {
+    if (!item || typeof item.productId !== 'string' || !item.productId) {
+      return { error: 'Each item needs a productId' };
+    }
+    if (!Number.isInteger(Number(item.quantity)) || Number(item.quantity) <= 0) {
+      return { error: `Invalid quantity for ${item.productId}` };
+    }
+  }
+  if (!Number.isFinite(Number(order.total)) || Number(order.total) < 0) {
+    return { error: 'total must be a non-negative number' };
+  }
+
+  const status = order.status ?? 'completed';
+  if (!ORDER_STATUSES.includes(status)) {
+    return { error: `status must be one of ${ORDER_STATUSES.join(', ')}` };
+  }
+
+  const createdAt = new Date(order.createdAt ?? Date.now());
+  if (Number.isNaN(createdAt.getTime())) {
+    return { error: 'createdAt must be a valid date' };
+  }
+
+  return {
+    order: {
+      ...order,
+      status,
+      total: Number(order.total),
+      createdAt: createdAt.toISOString(),
+    },
+  };
+}
+
+function getRefundedAmount(refunds) {
+  return refunds
+    .filter(refund => refund.status !== 'failed' && refund.status !== 'canceled')
+    .reduce((sum, refund) => sum + Number(refund.amountInCents || 0), 0);
+}
+
 function createApp({
   stripe,
   allowedOrigin = '*',
@@ -101,7 +363,15 @@ function createApp({
   paymentStore = createInMemoryPaymentStore(),
   requirePaymentApiKey = false,
   paymentApiKey = '',
+  pricingRules = defaultPricingRules,
+  experimentsConfig = DEFAULT_EXPERIMENTS_CONFIG,
 }) {
+  const experimentsConfigError = validateExperimentsConfig(experimentsConfig);
+  if (experimentsConfigError) {
+    throw new Error(`Invalid experiments config: ${experimentsConfigError}`);
+  }
+  const experimentsConfigETag = getExperimentsConfigETag(experimentsConfig);
+
   const app = express();
 
   app.disable('x-powered-by');
@@ -154,7 +424,14 @@ function createApp({
           : resolvedAllowedOrigins,
     })
   );
-  app.use(express.json({ limit: '100kb' }));
+  // Source maps and crash batches outgrow the default limit, so their routes
+  // parse their own bodies
+  const jsonParser = express.json({ limit: '100kb' });
+  app.use((req, res, next) =>
+    req.path.startsWith(`${SOURCE_MAP_ROUTE}/`) || req.path === CRASH_ROUTE
+      ? next()
+      : jsonParser(req, res, next)
+  );
 
   const writeLimiter = rateLimit({
     windowMs: 60 * 1000,
@@ -258,6 +535,25 @@ function createApp({
     };
   };
 
+  /**
+   * Current details for one product; null when DummyJSON no longer has it
+   */
+  const getDummyJsonProduct = async productId => {
+    if (typeof fetchImpl !== 'function') {
+      throw new Error('Fetch is not available in this runtime');
+    }
+
+    const response = await fetchImpl(`${dummyJsonBaseUrl}/products/${encodeURIComponent(productId)}`);
+    if (response.status === 404) {
+      return null;
+    }
+    if (!response.ok) {
+      throw new Error(`Failed to fetch product from DummyJSON: ${response.status}`);
+    }
+
+    return mapDummyProductToCard(await response.json());
+  };
+
   // Stripe webhook must read the raw request body.
   app.post('/webhooks/stripe', express.raw({ type: 'application/json' }), async (req, res) => {
     try {
@@ -356,6 +652,51 @@ function createApp({
     }
   });
 
+  app.post('/products/search', async (req, res) => {
+    try {
+      const parsed = parseSearchRequest(req.body);
+      if (parsed.error) {
+        return res.status(400).json({ error: parsed.error });
+      }
+      if (typeof fetchImpl !== 'function') {
+        throw new Error('Fetch is not available in this runtime');
+      }
+
+      const { query, page, limit, filters } = parsed;
+      const response = await fetchImpl(
+        `${dummyJsonBaseUrl}/products/search?q=${encodeURIComponent(query)}&limit=${MAX_SEARCH_MATCHES}`
+      );
+      if (!response.ok) {
+        throw new Error(`Failed to search products on DummyJSON: ${response.status}`);
+      }
+
+      const data = await response.json();
+      const matches = Array.isArray(data.products) ? data.products.map(mapDummyProductToCard) : [];
+      const filtered = matches.filter(card => matchesSearchFilters(card, filters));
+      const skip = (page - 1) * limit;
+
+      return res.json({
+        products: filtered.slice(skip, skip + limit),
+        pagination: {
+          page,
+          limit,
+          total: filtered.length,
+          hasMore: skip + limit < filtered.length,
+        },
+        filters: {
+          categories: filters?.categories || [],
+          priceRange: filters?.priceRange,
+        },
+        facets: buildSearchFacets(matches),
+      });
+    } catch (error) {
+      console.error('Failed to search products:', error);
+      return res.status(500).json({
+        error: error?.message || 'Failed to search products',
+      });
+    }
+  });
+
   app.post('/feed/personalized', writeLimiter, async (req, res) => {
     try {
       const pagination = req.body?.pagination || { page: 1, limit: 10 };
@@ -393,10 +734,31 @@ function createApp({
     });
   });
 
+  app.post('/swipe-actions/undo', writeLimiter, (req, res) => {
+    const { productId, action, userId } = req.body || {};
+    if (!productId || !action || !userId) {
+      return res.status(400).json({ error: 'productId, action, and userId are required' });
+    }
+
+    return res.json({
+      success: true,
+      message: `${action} action undone successfully`,
+    });
+  });
+
   app.post('/payments/create-payment-sheet', paymentLimiter, requirePaymentAuth, async (req, res) => {
     try {
-      const { orderId, amountInCents, currency: requestedCurrency, customerId } = req.body || {};
-      const parsedAmount = Number(amountInCents);
+      const {
+        orderId,
+        amountInCents,
+        currency: requestedCurrency,
+        customerId,
+        items,
+        shippingAddress,
+        shippingMethod,
+      } = req.body || {};
+      let parsedAmount = Number(amountInCents);
+      let pricingMetadata = {};
       const idempotencyKeyFromHeader = req.headers['idempotency-key'];
       const idempotencyKey = String(idempotencyKeyFromHeader || `order:${orderId}`);
 
@@ -404,6 +766,33 @@ function createApp({
         return res.status(400).json({ error: 'orderId is required' });
       }
 
+      // With an address the server prices the order itself using the shared rules
+      if (shippingAddress && typeof shippingAddress === 'object') {
+        const parsedItems = parsePricedItems(items);
+        if (parsedItems.error) {
+          return res.status(400).json({ error: parsedItems.error });
+        }
+
+        const totals = calculateTotals(
+          { items: parsedItems.items, shippingAddress, shippingMethod },
+          pricingRules
+        );
+        const expectedAmountInCents = Math.round(totals.total * 100);
+
+        if (amountInCents !== undefined && Number(amountInCents) !== expectedAmountInCents) {
+          return res.status(400).json({
+            error: 'amountInCents does not match the calculated total',
+            expectedAmountInCents,
+          });
+        }
+
+        parsedAmount = expectedAmountInCents;
+        pricingMetadata = {
+          shippingMethod: totals.breakdown.shippingMethod,
+          taxRule: totals.breakdown.taxRuleId || 'default',
+        };
+      }
+
       if (!Number.isFinite(parsedAmount) || parsedAmount <= 0) {
         return res.status(400).json({ error: 'amountInCents must be a positive number' });
       }
@@ -430,7 +819,7 @@ function createApp({
         currency: (requestedCurrency || currency).toLowerCase(),
         customer: customer.id,
         automatic_payment_methods: { enabled: true },
-        metadata: { orderId },
+        metadata: { orderId, ...toLineItemMetadata(items), ...pricingMetadata },
       }, {
         idempotencyKey,
       });
@@ -466,8 +855,11 @@ function createApp({
 
       if (statusRecord.paymentIntentId) {
         const intent = await stripe.paymentIntents.retrieve(statusRecord.paymentIntentId);
+        // Refunded intents still report 'succeeded' to Stripe
         const mappedStatus = intent?.status === 'succeeded'
-          ? 'succeeded'
+          ? REFUND_PAYMENT_STATUSES.includes(statusRecord.status)
+            ? statusRecord.status
+            : 'succeeded'
           : intent?.status === 'processing'
             ? 'processing'
             : intent?.status === 'canceled'
@@ -480,13 +872,15 @@ function createApp({
                     ? 'requires_confirmation'
                     : statusRecord.status;
 
-        const fulfillment = mappedStatus === 'succeeded'
-          ? 'fulfilled'
-          : mappedStatus === 'processing'
-            ? 'pending'
-            : mappedStatus === 'canceled' || mappedStatus === 'failed'
-              ? 'not_fulfilled'
-              : statusRecord.fulfillment || 'pending';
+        const fulfillment = REFUND_PAYMENT_STATUSES.includes(mappedStatus)
+          ? statusRecord.fulfillment || 'fulfilled'
+          : mappedStatus === 'succeeded'
+            ? 'fulfilled'
+            : mappedStatus === 'processing'
+              ? 'pending'
+              : mappedStatus === 'canceled' || mappedStatus === 'failed'
+                ? 'not_fulfilled'
+                : statusRecord.fulfillment || 'pending';
 
         await setOrderPaymentStatus(orderId, mappedStatus, statusRecord.paymentIntentId, fulfillment);
       }
@@ -500,6 +894,103 @@ function createApp({
     }
   });
 
+  app.post('/payments/refund', paymentLimiter, requirePaymentAuth, async (req, res) => {
+    try {
+      const { orderId, amountInCents, reason, items } = req.body || {};
+
+      if (!orderId || typeof orderId !== 'string') {
+        return res.status(400).json({ error: 'orderId is required' });
+      }
+      if (reason !== undefined && !REFUND_REASONS.includes(reason)) {
+        return res.status(400).json({ error: `reason must be one of ${REFUND_REASONS.join(', ')}` });
+      }
+
+      const parsedItems = parseRefundItems(items);
+      if (parsedItems.error) {
+        return res.status(400).json({ error: parsedItems.error });
+      }
+
+      const record = await paymentStore.getPayment(orderId);
+      if (!record || !record.paymentIntentId) {
+        return res.status(404).json({ error: 'Payment not found' });
+      }
+
+      const paymentIntent = await stripe.paymentIntents.retrieve(record.paymentIntentId);
+      if (paymentIntent?.status !== 'succeeded') {
+        return res.status(409).json({ error: 'Only succeeded payments can be refunded' });
+      }
+
+      const refunds = await paymentStore.getRefunds(orderId);
+      const capturedAmountInCents = Number(paymentIntent.amount_received ?? paymentIntent.amount ?? 0);
+      const refundedAmountInCents = getRefundedAmount(refunds);
+      const refundableAmountInCents = Math.max(0, capturedAmountInCents - refundedAmountInCents);
+      const requestedAmount =
+        amountInCents === undefined ? refundableAmountInCents : Number(amountInCents);
+
+      if (!Number.isInteger(requestedAmount) || requestedAmount <= 0) {
+        return res.status(400).json({ error: 'amountInCents must be a positive whole number' });
+      }
+      if (requestedAmount > refundableAmountInCents) {
+        return res.status(400).json({
+          error: 'amountInCents exceeds the refundable balance',
+          refundableAmountInCents,
+        });
+      }
+
+      // Keyed on the refund count so a retried request cannot refund twice
+      const idempotencyKey = String(
+        req.headers['idempotency-key'] || `refund:${orderId}:${refunds.length}`
+      );
+      const refund = await stripe.refunds.create({
+        payment_intent: record.paymentIntentId,
+        amount: requestedAmount,
+        ...(reason && { reason }),
+        metadata: { orderId, ...toLineItemMetadata(parsedItems.items) },
+      }, {
+        idempotencyKey,
+      });
+
+      await paymentStore.addRefund(orderId, {
+        refundId: refund.id,
+        paymentIntentId: record.paymentIntentId,
+        amountInCents: requestedAmount,
+        status: refund.status || 'pending',
+        reason: reason || null,
+        items: parsedItems.items,
+      });
+
+      const totalRefundedInCents = refundedAmountInCents + requestedAmount;
+      const paymentStatus =
+        totalRefundedInCents >= capturedAmountInCents ? 'refunded' : 'partially_refunded';
+      await setOrderPaymentStatus(orderId, paymentStatus, record.paymentIntentId);
+
+      return res.json({
+        refundId: refund.id,
+        orderId,
+        amountInCents: requestedAmount,
+        status: refund.status || 'pending',
+        paymentStatus,
+        refundedAmountInCents: totalRefundedInCents,
+        refundableAmountInCents: capturedAmountInCents - totalRefundedInCents,
+      });
+    } catch (error) {
+      console.error('Failed to refund payment:', error);
+      return res.status(500).json({
+        error: error?.message || 'Failed to refund payment',
+      });
+    }
+  });
+
+  app.get('/payments/refunds/:orderId', requirePaymentAuth, async (req, res) => {
+    const { orderId } = req.params;
+    const refunds = await paymentStore.getRefunds(orderId);
+    return res.json({
+      orderId,
+      refunds,
+      refundedAmountInCents: getRefundedAmount(refunds),
+    });
+  });
+
   app.get('/orders/status/:orderId', requirePaymentAuth, async (req, res) => {
     const { orderId } = req.params;
     const record = await paymentStore.getPayment(orderId);
@@ -515,6 +1006,379 @@ function createApp({
     });
   });
 
+  app.post('/orders', writeLimiter, requirePaymentAuth, async (req, res) => {
+    try {
+      const parsed = parseOrder(req.body);
+      if (parsed.error) {
+        return res.status(400).json({ error: parsed.error });
+      }
+
+      const existing = await paymentStore.getOrder(parsed.order.orderId);
+      if (existing && existing.userId !== parsed.order.userId) {
+        return res.status(409).json({ error: 'Order belongs to another user' });
+      }
+
+      await paymentStore.saveOrder(parsed.order);
+      return res
+        .status(existing ? 200 : 201)
+        .json(await paymentStore.getOrder(parsed.order.orderId));
+    } catch (error) {
+      console.error('Failed to save order:', error);
+      return res.status(500).json({
+        error: error?.message || 'Failed to save order',
+      });
+    }
+  });
+
+  app.get('/orders', requirePaymentAuth, async (req, res) => {
+    try {
+      const userId = req.query.userId;
+      if (!userId || typeof userId !== 'string') {
+        return res.status(400).json({ error: 'userId is required' });
+      }
+
+      const limit = Math.min(MAX_ORDER_PAGE_SIZE, Math.max(1, Number(req.query.limit) || 50));
+      const offset = Math.max(0, Number(req.query.offset) || 0);
+      const { orders, total } = await paymentStore.listOrders(userId, { limit, offset });
+
+      return res.json({
+        orders,
+        total,
+        limit,
+        offset,
+        hasMore: offset + orders.length < total,
+      });
+    } catch (error) {
+      console.error('Failed to list orders:', error);
+      return res.status(500).json({
+        error: error?.message || 'Failed to list orders',
+      });
+    }
+  });
+
+  app.get('/orders/:orderId', requirePaymentAuth, async (req, res) => {
+    try {
+      const userId = req.query.userId;
+      if (!userId || typeof userId !== 'string') {
+        return res.status(400).json({ error: 'userId is required' });
+      }
+
+      // Another user's order is reported as missing, so order ids cannot be probed
+      const order = await paymentStore.getOrder(req.params.orderId);
+      if (!order || order.userId !== userId) {
+        return res.status(404).json({ error: 'Order not found' });
+      }
+
+      return res.json(order);
+    } catch (error) {
+      console.error('Failed to retrieve order:', error);
+      return res.status(500).json({
+        error: error?.message || 'Failed to retrieve order',
+      });
+    }
+  });
+
+  app.get('/sync', requirePaymentAuth, async (req, res) => {
+    try {
+      const userId = req.query.userId;
+      if (!userId || typeof userId !== 'string') {
+        return res.status(400).json({ error: 'userId is required' });
+      }
+
+      const since = Math.max(0, Number(req.query.since) || 0);
+      return res.json(await paymentStore.listSyncRecords(userId, { since }));
+    } catch (error) {
+      console.error('Failed to pull sync records:', error);
+      return res.status(500).json({
+        error: error?.message || 'Failed to pull sync records',
+      });
+    }
+  });
+
+  app.post('/sync', writeLimiter, requirePaymentAuth, async (req, res) => {
+    try {
+      const { userId, deviceId, records } = req.body || {};
+      if (!userId || typeof userId !== 'string') {
+        return res.status(400).json({ error: 'userId is required' });
+      }
+      if (!deviceId || typeof deviceId !== 'string') {
+        return res.status(400).json({ error: 'deviceId is required' });
+      }
+      if (!Array.isArray(records) || records.length === 0) {
+        return res.status(400).json({ error: 'records must be a non-empty array' });
+      }
+      if (records.length > MAX_SYNC_RECORDS_PER_PUSH) {
+        return res
+          .status(400)
+          .json({ error: `A push can contain at most ${MAX_SYNC_RECORDS_PER_PUSH} records` });
+      }
+
+      const parsedRecords = [];
+      for (const record of records) {
+        const parsed = parseSyncRecord(record, deviceId);
+        if (parsed.error) {
+          return res.status(400).json({ error: parsed.error });
+        }
+        parsedRecords.push(parsed.record);
+      }
+
+      return res.json(await paymentStore.pushSyncRecords(userId, parsedRecords));
+    } catch (error) {
+      console.error('Failed to push sync records:', error);
+      return res.status(500).json({
+        error: error?.message || 'Failed to push sync records',
+      });
+    }
+  });
+
+  app.post('/wishlist/shares', writeLimiter, async (req, res) => {
+    try {
+      const parsed = parseShareRequest(req.body);
+      if (parsed.error) {
+        return res.status(400).json({ error: parsed.error });
+      }
+
+      const link = {
+        ...parsed.share,
+        token: createShareToken(),
+        createdAt: new Date().toISOString(),
+      };
+      await paymentStore.saveShareLink(link);
+
+      return res.status(201).json({
+        token: link.token,
+        title: link.title,
+        productIds: link.productIds,
+        createdAt: link.createdAt,
+      });
+    } catch (error) {
+      console.error('Failed to create share link:', error);
+      return res.status(500).json({
+        error: error?.message || 'Failed to create share link',
+      });
+    }
+  });
+
+  app.get('/wishlist/shares/:token', async (req, res) => {
+    try {
+      const { token } = req.params;
+      const link = isShareToken(token) ? await paymentStore.getShareLink(token) : null;
+      if (!link) {
+        return res.status(404).json({ error: 'Share link not found' });
+      }
+
+      // One product DummyJSON cannot serve right now should not hide the rest
+      const lookups = await Promise.allSettled(link.productIds.map(getDummyJsonProduct));
+      const available = [];
+      let unavailableCount = 0;
+      let failedCount = 0;
+      lookups.forEach((lookup, index) => {
+        if (lookup.status === 'rejected') {
+          console.warn(`Failed to load shared product ${link.productIds[index]}:`, lookup.reason);
+          failedCount += 1;
+        } else if (lookup.value) {
+          available.push(lookup.value);
+        } else {
+          unavailableCount += 1;
+        }
+      });
+
+      return res.json({
+        token: link.token,
+        title: link.title,
+        createdAt: link.createdAt,
+        products: available,
+        unavailableCount,
+        failedCount,
+      });
+    } catch (error) {
+      console.error('Failed to resolve share link:', error);
+      return res.status(500).json({
+        error: error?.message || 'Failed to resolve share link',
+      });
+    }
+  });
+
+  app.post('/analytics/events', writeLimiter, async (req, res) => {
+    try {
+      const parsed = parseAnalyticsBatch(req.body);
+      if (parsed.error) {
+        return res.status(400).json({ error: parsed.error });
+      }
+
+      const stored = await paymentStore.saveAnalyticsEvents(parsed.events);
+      return res.status(202).json({
+        accepted: parsed.events.length,
+        duplicates: parsed.events.length - stored,
+      });
+    } catch (error) {
+      console.error('Failed to ingest analytics events:', error);
+      return res.status(500).json({
+        error: error?.message || 'Failed to ingest analytics events',
+      });
+    }
+  });
+
+  // Decoded source maps of recent builds; crashes mostly come from a few
+  const decodedSourceMaps = new Map();
+  // Maps being read and decoded, so reports from one build wait on a single decode
+  const loadingSourceMaps = new Map();
+
+  const rememberDecodedSourceMap = (key, decoded) => {
+    decodedSourceMaps.delete(key);
+    decodedSourceMaps.set(key, decoded);
+    if (decodedSourceMaps.size > MAX_DECODED_SOURCE_MAPS) {
+      decodedSourceMaps.delete(decodedSourceMaps.keys().next().value);
+    }
+  };
+
+  const getDecodedSourceMap = async (appVersion, buildNumber) => {
+    const key = getSourceMapKey(appVersion, buildNumber);
+    if (decodedSourceMaps.has(key)) {
+      return decodedSourceMaps.get(key);
+    }
+    if (loadingSourceMaps.has(key)) {
+      return loadingSourceMaps.get(key);
+    }
+
+    const loading = (async () => {
+      const sourceMap = await paymentStore.getSourceMap(appVersion, buildNumber);
+      return sourceMap ? parseSourceMap(sourceMap) : null;
+    })();
+    loadingSourceMaps.set(key, loading);
+
+    try {
+      const decoded = await loading;
+      // A map uploaded while this one loaded replaces it
+      if (decoded && loadingSourceMaps.get(key) === loading) {
+        rememberDecodedSourceMap(key, decoded);
+      }
+      return decoded;
+    } finally {
+      if (loadingSourceMaps.get(key) === loading) {
+        loadingSourceMaps.delete(key);
+      }
+    }
+  };
+
+  app.put(
+    `${SOURCE_MAP_ROUTE}/:appVersion/:buildNumber`,
+    requireInternalDebugAuth,
+    express.json({ limit: MAX_SOURCE_MAP_SIZE }),
+    async (req, res) => {
+      try {
+        const { appVersion, buildNumber } = req.params;
+        if (appVersion.length > 64 || buildNumber.length > 64) {
+          return res.status(400).json({ error: 'appVersion and buildNumber must be at most 64 characters' });
+        }
+
+        let decoded;
+        try {
+          decoded = parseSourceMap(req.body);
+        } catch (error) {
+          return res.status(400).json({ error: error.message });
+        }
+
+        await paymentStore.saveSourceMap(appVersion, buildNumber, req.body);
+        const key = getSourceMapKey(appVersion, buildNumber);
+        loadingSourceMaps.delete(key);
+        rememberDecodedSourceMap(key, decoded);
+        return res.status(201).json({ appVersion, buildNumber, sources: decoded.sources.length });
+      } catch (error) {
+        console.error('Failed to save source map:', error);
+        return res.status(500).json({
+          error: error?.message || 'Failed to save source map',
+        });
+      }
+    }
+  );
+
+  app.post(CRASH_ROUTE, writeLimiter, express.json({ limit: MAX_CRASH_BATCH_SIZE }), async (req, res) => {
+    try {
+      const parsed = parseCrashBatch(req.body);
+      if (parsed.error) {
+        return res.status(400).json({ error: parsed.error });
+      }
+
+      // Reports from builds without a usable map keep their fingerprint as the group
+      const reports = await Promise.all(
+        parsed.reports.map(async report => {
+          try {
+            const sourceMap = await getDecodedSourceMap(report.appInfo.version, report.appInfo.buildNumber);
+            return sourceMap ? symbolicateCrashReport(report, sourceMap) : report;
+          } catch (error) {
+            console.warn(`Failed to symbolicate crash report ${report.id}:`, error);
+            return report;
+          }
+        })
+      );
+
+      const stored = await paymentStore.saveCrashReports(reports);
+      return res.status(202).json({
+        accepted: parsed.reports.map(report => report.id),
+        rejected: parsed.rejected,
+        duplicates: parsed.reports.length - stored,
+      });
+    } catch (error) {
+      console.error('Failed to ingest crash reports:', error);
+      return res.status(500).json({
+        error: error?.message || 'Failed to ingest crash reports',
+      });
+    }
+  });
+
+  app.get('/internal/crashes', requireInternalDebugAuth, async (req, res) => {
+    try {
+      const limit = Math.min(Math.max(Number(req.query.limit) || 50, 1), 200);
+      const groups = await paymentStore.listCrashGroups({ limit });
+      return res.json({ groups });
+    } catch (error) {
+      console.error('Failed to list crash groups:', error);
+      return res.status(500).json({
+        error: error?.message || 'Failed to list crash groups',
+      });
+    }
+  });
+
+  app.get('/config/experiments', (req, res) => {
+    res.set('Cache-Control', 'no-cache');
+    res.set('ETag', experimentsConfigETag);
+
+    const ifNoneMatch = String(req.get('If-None-Match') || '');
+    if (ifNoneMatch.split(',').some(tag => tag.trim() === experimentsConfigETag || tag.trim() === '*')) {
+      return res.status(304).end();
+    }
+    return res.json(experimentsConfig);
+  });
+
+  app.get('/experiments/:testId/results', async (req, res) => {
+    try {
+      const { testId } = req.params;
+      const { metric } = req.query;
+      if (typeof metric !== 'string' || !metric || metric.length > 100) {
+        return res.status(400).json({ error: 'metric is required' });
+      }
+
+      const horizon = req.query.horizon === undefined ? null : Number(req.query.horizon);
+      if (horizon !== null && (!Number.isInteger(horizon) || horizon < 1)) {
+        return res.status(400).json({ error: 'horizon must be a positive integer' });
+      }
+
+      const events = await paymentStore.listExperimentEvents(testId);
+      return res.json({
+        testId,
+        metric,
+        horizon,
+        variants: summarizeExperimentEvents(events, { metric, horizon }),
+      });
+    } catch (error) {
+      console.error('Failed to load experiment results:', error);
+      return res.status(500).json({
+        error: error?.message || 'Failed to load experiment results',
+      });
+    }
+  });
+
   return app;
 }
 
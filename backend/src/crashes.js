@@ -0,0 +1,175 @@
+// Crash report ingest. The app writes crash reports to storage when they
+// happen and uploads them on the next launch, so a report can arrive long
+// after the crash and more than once; report ids make the upload idempotent.
+
+const { getTopFrameGroupKey, parseStackFrames, symbolicateFrames } = require('./sourceMaps');
+
+const MAX_CRASH_REPORTS_PER_BATCH = 20;
+const MAX_ID_LENGTH = 128;
+const MAX_MESSAGE_LENGTH = 2000;
+const MAX_STACK_TRACE_LENGTH = 64 * 1024;
+const MAX_BREADCRUMBS = 100;
+
+const isPlainObject = value =>
+  Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+
+const isNonEmptyString = (value, maxLength) =>
+  typeof value === 'string' && value.length > 0 && value.length <= maxLength;
+
+const isTimestamp = value => typeof value === 'string' && !Number.isNaN(Date.parse(value));
+
+/**
+ * Validate one report and convert it to the stored shape. Returns the
+ * report or an error message.
+ */
+function parseCrashReport(report, receivedAt) {
+  if (!isPlainObject(report)) {
+    return { error: 'Each report must be an object' };
+  }
+
+  const { id, fingerprint, timestamp, lastOccurredAt, error, stackTrace, breadcrumbs, appInfo } = report;
+  if (!isNonEmptyString(id, MAX_ID_LENGTH)) {
+    return { error: 'Report id is required' };
+  }
+  if (!isNonEmptyString(fingerprint, MAX_ID_LENGTH)) {
+    return { error: `Report ${id} is missing a fingerprint` };
+  }
+  if (!isTimestamp(timestamp)) {
+    return { error: `Report ${id} has an invalid timestamp` };
+  }
+  if (lastOccurredAt !== undefined && !isTimestamp(lastOccurredAt)) {
+    return { error: `Report ${id} has an invalid lastOccurredAt` };
+  }
+  if (!isPlainObject(error) || typeof error.type !== 'string' || typeof error.message !== 'string') {
+    return { error: `Report ${id} needs an error type and message` };
+  }
+  if (stackTrace !== undefined && stackTrace !== null && typeof stackTrace !== 'string') {
+    return { error: `Report ${id} has an invalid stackTrace` };
+  }
+  if (typeof stackTrace === 'string' && stackTrace.length > MAX_STACK_TRACE_LENGTH) {
+    return { error: `Report ${id} stackTrace is too long` };
+  }
+  if (!Array.isArray(breadcrumbs) || breadcrumbs.length > MAX_BREADCRUMBS) {
+    return { error: `Report ${id} can have at most ${MAX_BREADCRUMBS} breadcrumbs` };
+  }
+  if (!isPlainObject(appInfo) || typeof appInfo.version !== 'string' || typeof appInfo.buildNumber !== 'string') {
+    return { error: `Report ${id} needs appInfo with a version and buildNumber` };
+  }
+
+  const occurrences = Number.isInteger(report.occurrences) && report.occurrences > 0 ? report.occurrences : 1;
+  return {
+    report: {
+      id,
+      fingerprint,
+      groupKey: fingerprint,
+      timestamp: new Date(timestamp).toISOString(),
+      lastOccurredAt: new Date(lastOccurredAt || timestamp).toISOString(),
+      occurrences,
+      isFatal: report.isFatal === true,
+      error: {
+        type: error.type,
+        message: error.message.slice(0, MAX_MESSAGE_LENGTH),
+        severity: typeof error.severity === 'string' ? error.severity : undefined,
+      },
+      stackTrace: stackTrace || null,
+      symbolicatedFrames: null,
+      breadcrumbs,
+      state: report.state === undefined ? null : report.state,
+      appInfo,
+      deviceInfo: isPlainObject(report.deviceInfo) ? report.deviceInfo : {},
+      userId: typeof report.userId === 'string' ? report.userId : null,
+      receivedAt,
+    },
+  };
+}
+
+/**
+ * Validate an upload. Returns the reports to store and the ones rejected
+ * with their id and reason, or an error message when the batch itself is
+ * malformed. One bad report does not hold up the others.
+ */
+function parseCrashBatch(body) {
+  const { reports } = body || {};
+
+  if (!Array.isArray(reports) || reports.length === 0) {
+    return { error: 'reports must be a non-empty array' };
+  }
+  if (reports.length > MAX_CRASH_REPORTS_PER_BATCH) {
+    return { error: `A batch can contain at most ${MAX_CRASH_REPORTS_PER_BATCH} reports` };
+  }
+
+  const receivedAt = new Date().toISOString();
+  const parsedReports = [];
+  const rejected = [];
+  for (const report of reports) {
+    const parsed = parseCrashReport(report, receivedAt);
+    if (parsed.error) {
+      rejected.push({ id: typeof report?.id === 'string' ? report.id : null, error: parsed.error });
+    } else {
+      parsedReports.push(parsed.report);
+    }
+  }
+
+  return { reports: parsedReports, rejected };
+}
+
+/**
+ * Attach the report's frames mapped through its build's source map and
+ * group it by the top symbolicated frame. Reports the map does not cover
+ * keep their fingerprint as the group key.
+ */
+function symbolicateCrashReport(report, sourceMap) {
+  const frames = parseStackFrames(report.stackTrace);
+  if (frames.length === 0) {
+    return report;
+  }
+
+  const symbolicatedFrames = symbolicateFrames(frames, sourceMap);
+  return {
+    ...report,
+    symbolicatedFrames,
+    groupKey: getTopFrameGroupKey(symbolicatedFrames) || report.fingerprint,
+  };
+}
+
+/**
+ * Summarize reports by group, most recently seen first
+ */
+function groupCrashReports(reports, limit) {
+  const groups = new Map();
+  for (const report of reports) {
+    const group = groups.get(report.groupKey);
+    if (!group) {
+      groups.set(report.groupKey, {
+        groupKey: report.groupKey,
+        reports: 1,
+        occurrences: report.occurrences,
+        firstSeenAt: report.timestamp,
+        lastSeenAt: report.lastOccurredAt,
+        latest: report,
+      });
+      continue;
+    }
+
+    group.reports += 1;
+    group.occurrences += report.occurrences;
+    if (report.timestamp < group.firstSeenAt) {
+      group.firstSeenAt = report.timestamp;
+    }
+    if (report.lastOccurredAt > group.lastSeenAt) {
+      group.lastSeenAt = report.lastOccurredAt;
+      group.latest = report;
+    }
+  }
+
+  return [...groups.values()]
+    .sort((a, b) => b.lastSeenAt.localeCompare(a.lastSeenAt))
+    .slice(0, limit);
+}
+
+module.exports = {
+  MAX_CRASH_REPORTS_PER_BATCH,
+  groupCrashReports,
+  parseCrashBatch,
+  symbolicateCrashReport,
+};
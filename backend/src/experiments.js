@@ -0,0 +1,212 @@
+// Remote experiment and feature flag configuration. The app fetches the
+// document on launch and revalidates it with the ETag, so unchanged config
+// costs a 304 and the app keeps the last good copy when offline.
+
+const crypto = require('node:crypto');
+const fs = require('node:fs');
+
+const EXPERIMENT_STATUSES = ['draft', 'active', 'paused', 'completed'];
+const AUDIENCE_PLATFORMS = ['ios', 'android', 'web'];
+// Analytics events the app sends for every exposure and conversion
+const EXPOSURE_EVENT_NAME = 'ab_test_exposure';
+const CONVERSION_EVENT_NAME = 'ab_test_conversion';
+
+// The app bundles the same document and runs it until the route answers
+const DEFAULT_EXPERIMENTS_CONFIG = require('swipelyapp/src/config/experiments.json');
+
+const isPlainObject = value =>
+  Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+
+const isPercentage = value => typeof value === 'number' && value >= 0 && value <= 100;
+
+function validateAudience(audience, label) {
+  if (audience === undefined) {
+    return null;
+  }
+  if (!isPlainObject(audience)) {
+    return `${label} targetAudience must be an object`;
+  }
+  if (
+    audience.platforms !== undefined &&
+    (!Array.isArray(audience.platforms) ||
+      !audience.platforms.every(platform => AUDIENCE_PLATFORMS.includes(platform)))
+  ) {
+    return `${label} platforms must be a list of ${AUDIENCE_PLATFORMS.join(', ')}`;
+  }
+  if (
+    audience.countries !== undefined &&
+    (!Array.isArray(audience.countries) ||
+      !audience.countries.every(country => /^[A-Z]{2}$/.test(country)))
+  ) {
+    return `${label} countries must be ISO 3166 alpha-2 codes`;
+  }
+  for (const key of ['minAppVersion', 'maxAppVersion']) {
+    if (audience[key] !== undefined && !/^\d+(\.\d+)*$/.test(audience[key])) {
+      return `${label} ${key} must look like 1.2.3`;
+    }
+  }
+  return null;
+}
+
+function validateExperiment(experiment) {
+  if (!isPlainObject(experiment) || typeof experiment.id !== 'string' || !experiment.id) {
+    return 'Each experiment needs an id';
+  }
+
+  const label = `Experiment ${experiment.id}`;
+  const { variants } = experiment;
+  if (!Array.isArray(variants) || variants.length < 2) {
+    return `${label} must have at least 2 variants`;
+  }
+  if (!variants.every(variant => isPlainObject(variant) && typeof variant.id === 'string' && isPercentage(variant.allocation))) {
+    return `${label} variants need an id and an allocation between 0 and 100`;
+  }
+  const totalAllocation = variants.reduce((sum, variant) => sum + variant.allocation, 0);
+  if (Math.abs(totalAllocation - 100) > 0.01) {
+    return `${label} variant allocations must sum to 100`;
+  }
+  if (variants.filter(variant => variant.isControl === true).length !== 1) {
+    return `${label} must have exactly one control variant`;
+  }
+  if (!isPercentage(experiment.trafficAllocation)) {
+    return `${label} trafficAllocation must be between 0 and 100`;
+  }
+  if (!EXPERIMENT_STATUSES.includes(experiment.status)) {
+    return `${label} status must be one of ${EXPERIMENT_STATUSES.join(', ')}`;
+  }
+  if (typeof experiment.startDate !== 'string' || Number.isNaN(Date.parse(experiment.startDate))) {
+    return `${label} needs a startDate`;
+  }
+  if (
+    experiment.sampleSize !== undefined &&
+    (!Number.isInteger(experiment.sampleSize) || experiment.sampleSize < 1)
+  ) {
+    return `${label} sampleSize must be a positive integer`;
+  }
+  if (experiment.sampleSize !== undefined && typeof experiment.primaryMetric !== 'string') {
+    return `${label} needs a primaryMetric to be evaluated at its sampleSize`;
+  }
+  return validateAudience(experiment.targetAudience, label);
+}
+
+function validateFlag(name, flag) {
+  const label = `Flag ${name}`;
+  if (!isPlainObject(flag) || typeof flag.enabled !== 'boolean') {
+    return `${label} needs an enabled boolean`;
+  }
+  if (flag.rolloutPercentage !== undefined && !isPercentage(flag.rolloutPercentage)) {
+    return `${label} rolloutPercentage must be between 0 and 100`;
+  }
+  return validateAudience(flag.targetAudience, label);
+}
+
+/**
+ * Check a config document before it is served. Returns an error message,
+ * or null when the document is valid.
+ */
+function validateExperimentsConfig(config) {
+  if (!isPlainObject(config) || !Number.isInteger(config.version)) {
+    return 'Config needs an integer version';
+  }
+  if (!Array.isArray(config.experiments)) {
+    return 'experiments must be an array';
+  }
+  if (!isPlainObject(config.flags)) {
+    return 'flags must be an object';
+  }
+
+  const ids = new Set();
+  for (const experiment of config.experiments) {
+    const error = validateExperiment(experiment);
+    if (error) {
+      return error;
+    }
+    if (ids.has(experiment.id)) {
+      return `Experiment ${experiment.id} is listed twice`;
+    }
+    ids.add(experiment.id);
+  }
+
+  for (const [name, flag] of Object.entries(config.flags)) {
+    const error = validateFlag(name, flag);
+    if (error) {
+      return error;
+    }
+  }
+  return null;
+}
+
+function loadExperimentsConfig(filePath) {
+  const config = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  const error = validateExperimentsConfig(config);
+  if (error) {
+    throw new Error(`Invalid experiments config at ${filePath}: ${error}`);
+  }
+  return config;
+}
+
+/**
+ * Strong ETag over the document body
+ */
+function getExperimentsConfigETag(config) {
+  const digest = crypto.createHash('sha256').update(JSON.stringify(config)).digest('base64url');
+  return `"${digest.slice(0, 27)}"`;
+}
+
+/**
+ * Exposed and converted users per variant of a test, from its analytics
+ * events. With a horizon only the first `horizon` users exposed to each
+ * variant count, so once every variant reaches it the counts, and the
+ * decision made on them, no longer change.
+ */
+function summarizeExperimentEvents(events, { metric, horizon }) {
+  const variantByUser = new Map();
+  const exposedByVariant = new Map();
+  const ordered = [...events]
+    .filter(event => !event.undone && event.properties?.user_id && event.properties?.variant_id)
+    .sort((a, b) => String(a.timestamp).localeCompare(String(b.timestamp)));
+
+  for (const event of ordered) {
+    const { user_id: userId, variant_id: variantId } = event.properties;
+    if (event.name !== EXPOSURE_EVENT_NAME || variantByUser.has(userId)) {
+      continue;
+    }
+    variantByUser.set(userId, variantId);
+    const exposed = exposedByVariant.get(variantId) || new Set();
+    if (!horizon || exposed.size < horizon) {
+      exposed.add(userId);
+    }
+    exposedByVariant.set(variantId, exposed);
+  }
+
+  const convertedByVariant = new Map();
+  for (const event of ordered) {
+    const { user_id: userId, variant_id: variantId } = event.properties;
+    if (
+      event.name !== CONVERSION_EVENT_NAME ||
+      event.properties.metric !== metric ||
+      !exposedByVariant.get(variantId)?.has(userId)
+    ) {
+      continue;
+    }
+    const converted = convertedByVariant.get(variantId) || new Set();
+    converted.add(userId);
+    convertedByVariant.set(variantId, converted);
+  }
+
+  return [...exposedByVariant.entries()].map(([variantId, exposed]) => ({
+    variantId,
+    exposures: exposed.size,
+    conversions: convertedByVariant.get(variantId)?.size ?? 0,
+  }));
+}
+
+module.exports = {
+  CONVERSION_EVENT_NAME,
+  DEFAULT_EXPERIMENTS_CONFIG,
+  EXPOSURE_EVENT_NAME,
+  getExperimentsConfigETag,
+  loadExperimentsConfig,
+  summarizeExperimentEvents,
+  validateExperimentsConfig,
+};
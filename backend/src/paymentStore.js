@@ -1,10 +1,132 @@
 const fs = require('node:fs');
 const path = require('node:path');
+const { groupCrashReports } = require('./crashes');
+const { CONVERSION_EVENT_NAME, EXPOSURE_EVENT_NAME } = require('./experiments');
+const { getSourceMapKey } = require('./sourceMaps');
+const { applySyncPush } = require('./sync');
+
+function toRefundRecord(orderId, refund) {
+  return {
+    refundId: refund.refundId,
+    orderId,
+    paymentIntentId: refund.paymentIntentId ?? null,
+    amountInCents: refund.amountInCents,
+    status: refund.status,
+    reason: refund.reason ?? null,
+    items: Array.isArray(refund.items) ? refund.items : [],
+    createdAt: refund.createdAt || new Date().toISOString(),
+  };
+}
+
+function toOrderRecord(order) {
+  return {
+    ...order,
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+function sortOrdersNewestFirst(orders) {
+  return [...orders].sort((a, b) => String(b.createdAt).localeCompare(String(a.createdAt)));
+}
+
+function fromOrderRow(row) {
+  return typeof row.orderJson === 'string' ? JSON.parse(row.orderJson) : row.orderJson;
+}
+
+function listSyncRecordsSince(records, since) {
+  const changed = records
+    .filter(record => record.serverVersion > since)
+    .sort((a, b) => a.serverVersion - b.serverVersion);
+  return { records: changed, cursor: getPullCursor(records, since) };
+}
+
+function fromSyncRow(row) {
+  const record = typeof row.recordJson === 'string' ? JSON.parse(row.recordJson) : row.recordJson;
+  return { ...record, serverVersion: Number(row.serverVersion) };
+}
+
+// Cursor for a pull: the newest version among the records changed after `since`
+function getPullCursor(records, since) {
+  return records.reduce((max, record) => Math.max(max, record.serverVersion), since);
+}
+
+// The SQL stores share one connection, so one sync transaction runs at a time
+function createExclusiveRunner() {
+  let tail = Promise.resolve();
+  return task => {
+    const run = tail.then(task);
+    tail = run.catch(() => {});
+    return run;
+  };
+}
+
+function fromShareLinkRow(row) {
+  return typeof row.linkJson === 'string' ? JSON.parse(row.linkJson) : row.linkJson;
+}
+
+function fromAnalyticsEventRow(row) {
+  return typeof row.eventJson === 'string' ? JSON.parse(row.eventJson) : row.eventJson;
+}
+
+function fromCrashReportRow(row) {
+  return typeof row.reportJson === 'string' ? JSON.parse(row.reportJson) : row.reportJson;
+}
+
+function fromSourceMapRow(row) {
+  if (!row) {
+    return null;
+  }
+  return typeof row.mapJson === 'string' ? JSON.parse(row.mapJson) : row.mapJson;
+}
+
+function fromCrashGroupRow(row, latest) {
+  const toIso = value => (value instanceof Date ? value.toISOString() : value);
+  return {
+    groupKey: row.groupKey,
+    reports: Number(row.reports),
+    occurrences: Number(row.occurrences),
+    firstSeenAt: toIso(row.firstSeenAt),
+    lastSeenAt: toIso(row.lastSeenAt),
+    latest,
+  };
+}
+
+function listNewestAnalyticsEvents(events, limit) {
+  return [...events]
+    .sort((a, b) => String(b.timestamp).localeCompare(String(a.timestamp)))
+    .slice(0, limit);
+}
+
+function isExperimentEvent(event, testId) {
+  return (
+    (event.name === EXPOSURE_EVENT_NAME || event.name === CONVERSION_EVENT_NAME) &&
+    event.properties?.test_id === testId
+  );
+}
+
+function fromRefundRow(row) {
+  const { itemsJson, ...refund } = row;
+  const items = typeof itemsJson === 'string' ? JSON.parse(itemsJson) : itemsJson;
+  return {
+    ...refund,
+    amountInCents: Number(refund.amountInCents),
+    createdAt: refund.createdAt instanceof Date ? refund.createdAt.toISOString() : refund.createdAt,
+    items: Array.isArray(items) ? items : [],
+  };
+}
 
 class InMemoryPaymentStore {
   constructor() {
     this.processedEventIds = new Set();
     this.paymentsByOrderId = new Map();
+    this.refundsByOrderId = new Map();
+    this.ordersById = new Map();
+    this.syncRecordsByUserId = new Map();
+    this.syncVersionsByUserId = new Map();
+    this.shareLinksByToken = new Map();
+    this.analyticsEventsById = new Map();
+    this.crashReportsById = new Map();
+    this.sourceMapsByBuild = new Map();
   }
 
   async initialize() {}
@@ -39,6 +161,102 @@ class InMemoryPaymentStore {
       updatedAt: new Date().toISOString(),
     });
   }
+
+  async getRefunds(orderId) {
+    return [...(this.refundsByOrderId.get(orderId) || [])];
+  }
+
+  async addRefund(orderId, refund) {
+    if (!orderId) return;
+    const refunds = this.refundsByOrderId.get(orderId) || [];
+    refunds.push(toRefundRecord(orderId, refund));
+    this.refundsByOrderId.set(orderId, refunds);
+  }
+  async saveOrder(order) {
+    if (!order?.orderId) return;
+    this.ordersById.set(order.orderId, toOrderRecord(order));
+  }
+
+  async getOrder(orderId) {
+    return this.ordersById.get(orderId) || null;
+  }
+
+  async listOrders(userId, { limit = 50, offset = 0 } = {}) {
+    const orders = sortOrdersNewestFirst(
+      [...this.ordersById.values()].filter(order => order.userId === userId)
+    );
+    return { orders: orders.slice(offset, offset + limit), total: orders.length };
+  }
+
+  async getSyncRecord(userId, recordId) {
+    return this.syncRecordsByUserId.get(userId)?.get(recordId) || null;
+  }
+
+  async listSyncRecords(userId, { since = 0 } = {}) {
+    return listSyncRecordsSince([...(this.syncRecordsByUserId.get(userId)?.values() || [])], since);
+  }
+
+  async pushSyncRecords(userId, pushed) {
+    const records = this.syncRecordsByUserId.get(userId) || new Map();
+    const { results, cursor } = applySyncPush(
+      records,
+      pushed,
+      this.syncVersionsByUserId.get(userId) || 0
+    );
+    this.syncRecordsByUserId.set(userId, records);
+    this.syncVersionsByUserId.set(userId, cursor);
+    return { results, cursor };
+  }
+
+  async saveShareLink(link) {
+    this.shareLinksByToken.set(link.token, { ...link });
+  }
+
+  async getShareLink(token) {
+    return this.shareLinksByToken.get(token) || null;
+  }
+
+  async saveAnalyticsEvents(events) {
+    let saved = 0;
+    for (const event of events) {
+      if (!this.analyticsEventsById.has(event.id)) {
+        this.analyticsEventsById.set(event.id, { ...event });
+        saved += 1;
+      }
+    }
+    return saved;
+  }
+
+  async listAnalyticsEvents({ limit = 100 } = {}) {
+    return listNewestAnalyticsEvents(this.analyticsEventsById.values(), limit);
+  }
+
+  async listExperimentEvents(testId) {
+    return [...this.analyticsEventsById.values()].filter(event => isExperimentEvent(event, testId));
+  }
+
+  async saveCrashReports(reports) {
+    let saved = 0;
+    for (const report of reports) {
+      if (!this.crashReportsById.has(report.id)) {
+        this.crashReportsById.set(report.id, { ...report });
+        saved += 1;
+      }
+    }
+    return saved;
+  }
+
+  async listCrashGroups({ limit = 50 } = {}) {
+    return groupCrashReports(this.crashReportsById.values(), limit);
+  }
+
+  async saveSourceMap(appVersion, buildNumber, sourceMap) {
+    this.sourceMapsByBuild.set(getSourceMapKey(appVersion, buildNumber), sourceMap);
+  }
+
+  async getSourceMap(appVersion, buildNumber) {
+    return this.sourceMapsByBuild.get(getSourceMapKey(appVersion, buildNumber)) || null;
+  }
 }
 
 class FilePaymentStore {
@@ -47,6 +265,14 @@ class FilePaymentStore {
     this.state = {
       processedEventIds: [],
       paymentsByOrderId: {},
+      refundsByOrderId: {},
+      ordersById: {},
+      syncRecordsByUserId: {},
+      syncVersionsByUserId: {},
+      shareLinksByToken: {},
+      analyticsEventsById: {},
+      crashReportsById: {},
+      sourceMapsByBuild: {},
     };
   }
 
@@ -67,12 +293,28 @@ class FilePaymentStore {
           ? parsed.processedEventIds
           : [],
         paymentsByOrderId: parsed?.paymentsByOrderId || {},
+        refundsByOrderId: parsed?.refundsByOrderId || {},
+        ordersById: parsed?.ordersById || {},
+        syncRecordsByUserId: parsed?.syncRecordsByUserId || {},
+        syncVersionsByUserId: parsed?.syncVersionsByUserId || {},
+        shareLinksByToken: parsed?.shareLinksByToken || {},
+        analyticsEventsById: parsed?.analyticsEventsById || {},
+        crashReportsById: parsed?.crashReportsById || {},
+        sourceMapsByBuild: parsed?.sourceMapsByBuild || {},
       };
     } catch (error) {
       console.error('Failed to load file payment store, using empty state:', error);
       this.state = {
         processedEventIds: [],
         paymentsByOrderId: {},
+        refundsByOrderId: {},
+        ordersById: {},
+        syncRecordsByUserId: {},
+        syncVersionsByUserId: {},
+        shareLinksByToken: {},
+        analyticsEventsById: {},
+        crashReportsById: {},
+        sourceMapsByBuild: {},
       };
     }
   }
@@ -116,12 +358,120 @@ class FilePaymentStore {
     };
     await this.save();
   }
+
+  async getRefunds(orderId) {
+    return [...(this.state.refundsByOrderId[orderId] || [])];
+  }
+
+  async addRefund(orderId, refund) {
+    if (!orderId) return;
+    this.state.refundsByOrderId[orderId] = [
+      ...(this.state.refundsByOrderId[orderId] || []),
+      toRefundRecord(orderId, refund),
+    ];
+    await this.save();
+  }
+  async saveOrder(order) {
+    if (!order?.orderId) return;
+    this.state.ordersById[order.orderId] = toOrderRecord(order);
+    await this.save();
+  }
+
+  async getOrder(orderId) {
+    return this.state.ordersById[orderId] || null;
+  }
+
+  async listOrders(userId, { limit = 50, offset = 0 } = {}) {
+    const orders = sortOrdersNewestFirst(
+      Object.values(this.state.ordersById).filter(order => order.userId === userId)
+    );
+    return { orders: orders.slice(offset, offset + limit), total: orders.length };
+  }
+
+  async getSyncRecord(userId, recordId) {
+    return this.state.syncRecordsByUserId[userId]?.[recordId] || null;
+  }
+
+  async listSyncRecords(userId, { since = 0 } = {}) {
+    return listSyncRecordsSince(Object.values(this.state.syncRecordsByUserId[userId] || {}), since);
+  }
+
+  async pushSyncRecords(userId, pushed) {
+    const records = new Map(Object.entries(this.state.syncRecordsByUserId[userId] || {}));
+    // Files written before the version sequence existed start from their newest record
+    const lastVersion =
+      this.state.syncVersionsByUserId[userId] ?? getPullCursor([...records.values()], 0);
+    const { results, cursor } = applySyncPush(records, pushed, lastVersion);
+    this.state.syncRecordsByUserId[userId] = Object.fromEntries(records);
+    this.state.syncVersionsByUserId[userId] = cursor;
+    await this.save();
+    return { results, cursor };
+  }
+
+  async saveShareLink(link) {
+    this.state.shareLinksByToken[link.token] = { ...link };
+    await this.save();
+  }
+
+  async getShareLink(token) {
+    return this.state.shareLinksByToken[token] || null;
+  }
+
+  async saveAnalyticsEvents(events) {
+    let saved = 0;
+    for (const event of events) {
+      if (!this.state.analyticsEventsById[event.id]) {
+        this.state.analyticsEventsById[event.id] = { ...event };
+        saved += 1;
+      }
+    }
+    if (saved > 0) {
+      await this.save();
+    }
+    return saved;
+  }
+
+  async listAnalyticsEvents({ limit = 100 } = {}) {
+    return listNewestAnalyticsEvents(Object.values(this.state.analyticsEventsById), limit);
+  }
+
+  async listExperimentEvents(testId) {
+    return Object.values(this.state.analyticsEventsById).filter(event => isExperimentEvent(event, testId));
+  }
+
+  async saveCrashReports(reports) {
+    let saved = 0;
+    for (const report of reports) {
+      if (!this.state.crashReportsById[report.id]) {
+        this.state.crashReportsById[report.id] = { ...report };
+        saved += 1;
+      }
+    }
+    if (saved > 0) {
+      await this.save();
+    }
+    return saved;
+  }
+
+  async listCrashGroups({ limit = 50 } = {}) {
+    return groupCrashReports(Object.values(this.state.crashReportsById), limit);
+  }
+
+  async saveSourceMap(appVersion, buildNumber, sourceMap) {
+    this.state.sourceMapsByBuild[getSourceMapKey(appVersion, buildNumber)] = sourceMap;
+    await this.save();
+  }
+
+  async getSourceMap(appVersion, buildNumber) {
+    return this.state.sourceMapsByBuild[getSourceMapKey(appVersion, buildNumber)] || null;
+  }
 }
 
 class SqlitePaymentStore {
   constructor(dbPath) {
     this.dbPath = dbPath || path.resolve(process.cwd(), 'data', 'payment-store.sqlite');
     this.db = null;
+    this.runExclusive = createExclusiveRunner();
   }
 
   async initialize() {
@@ -153,6 +503,97 @@ class SqlitePaymentStore {
         updated_at TEXT DEFAULT (datetime('now'))
       );
     `);
+
+    await this.db.exec(`
+      CREATE TABLE IF NOT EXISTS payment_refunds (
+        refund_id TEXT PRIMARY KEY,
+        order_id TEXT NOT NULL,
+        payment_intent_id TEXT,
+        amount_in_cents INTEGER NOT NULL,
+        status TEXT NOT NULL,
+        reason TEXT,
+        items_json TEXT,
+        created_at TEXT DEFAULT (datetime('now'))
+      );
+    `);
+
+    await this.db.exec(`
+      CREATE TABLE IF NOT EXISTS orders (
+        order_id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL,
+        status TEXT NOT NULL,
+        total_in_cents INTEGER NOT NULL,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        order_json TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS orders_user_created ON orders (user_id, created_at);
+    `);
+
+    await this.db.exec(`
+      CREATE TABLE IF NOT EXISTS sync_records (
+        user_id TEXT NOT NULL,
+        record_id TEXT NOT NULL,
+        type TEXT NOT NULL,
+        server_version INTEGER NOT NULL,
+        updated_at TEXT NOT NULL,
+        record_json TEXT NOT NULL,
+        PRIMARY KEY (user_id, record_id)
+      );
+      CREATE TABLE IF NOT EXISTS sync_versions (
+        user_id TEXT PRIMARY KEY,
+        last_version INTEGER NOT NULL
+      );
+    `);
+
+    await this.db.exec(`
+      CREATE TABLE IF NOT EXISTS share_links (
+        token TEXT PRIMARY KEY,
+        owner_id TEXT,
+        created_at TEXT NOT NULL,
+        link_json TEXT NOT NULL
+      );
+    `);
+
+    await this.db.exec(`
+      CREATE TABLE IF NOT EXISTS analytics_events (
+        event_id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        session_id TEXT NOT NULL,
+        user_id TEXT,
+        occurred_at TEXT NOT NULL,
+        received_at TEXT NOT NULL,
+        schema_version INTEGER NOT NULL,
+        event_json TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS analytics_events_name_occurred ON analytics_events (name, occurred_at);
+    `);
+
+    await this.db.exec(`
+      CREATE TABLE IF NOT EXISTS crash_reports (
+        report_id TEXT PRIMARY KEY,
+        fingerprint TEXT NOT NULL,
+        group_key TEXT NOT NULL,
+        occurred_at TEXT NOT NULL,
+        last_occurred_at TEXT NOT NULL,
+        occurrences INTEGER NOT NULL,
+        app_version TEXT NOT NULL,
+        build_number TEXT NOT NULL,
+        received_at TEXT NOT NULL,
+        report_json TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS crash_reports_group_last_occurred ON crash_reports (group_key, last_occurred_at);
+    `);
+
+    await this.db.exec(`
+      CREATE TABLE IF NOT EXISTS source_maps (
+        app_version TEXT NOT NULL,
+        build_number TEXT NOT NULL,
+        uploaded_at TEXT NOT NULL,
+        map_json TEXT NOT NULL,
+        PRIMARY KEY (app_version, build_number)
+      );
+    `);
   }
 
   async close() {
@@ -215,12 +656,296 @@ class SqlitePaymentStore {
       [merged.orderId, merged.paymentIntentId, merged.status, merged.fulfillment]
     );
   }
+
+  async getRefunds(orderId) {
+    const rows = await this.db.all(
+      `SELECT refund_id AS refundId, order_id AS orderId, payment_intent_id AS paymentIntentId,
+              amount_in_cents AS amountInCents, status, reason, items_json AS itemsJson, created_at AS createdAt
+       FROM payment_refunds WHERE order_id = ? ORDER BY created_at, rowid`,
+      [orderId]
+    );
+    return rows.map(fromRefundRow);
+  }
+
+  async addRefund(orderId, refund) {
+    if (!orderId) return;
+    const record = toRefundRecord(orderId, refund);
+    await this.db.run(
+      `INSERT OR IGNORE INTO payment_refunds
+         (refund_id, order_id, payment_intent_id, amount_in_cents, status, reason, items_json, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        record.refundId,
+        record.orderId,
+        record.paymentIntentId,
+        record.amountInCents,
+        record.status,
+        record.reason,
+        JSON.stringify(record.items),
+        record.createdAt,
+      ]
+    );
+  }
+  async saveOrder(order) {
+    if (!order?.orderId) return;
+    const record = toOrderRecord(order);
+    await this.db.run(
+      `INSERT INTO orders (order_id, user_id, status, total_in_cents, created_at, updated_at, order_json)
+       VALUES (?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT(order_id) DO UPDATE SET
+         status = excluded.status,
+         total_in_cents = excluded.total_in_cents,
+         updated_at = excluded.updated_at,
+         order_json = excluded.order_json`,
+      [
+        record.orderId,
+        record.userId,
+        record.status,
+        Math.round(Number(record.total) * 100),
+        record.createdAt,
+        record.updatedAt,
+        JSON.stringify(record),
+      ]
+    );
+  }
+
+  async getOrder(orderId) {
+    const row = await this.db.get(
+      `SELECT order_json AS orderJson FROM orders WHERE order_id = ? LIMIT 1`,
+      [orderId]
+    );
+    return row ? fromOrderRow(row) : null;
+  }
+
+  async listOrders(userId, { limit = 50, offset = 0 } = {}) {
+    const rows = await this.db.all(
+      `SELECT order_json AS orderJson FROM orders WHERE user_id = ?
+       ORDER BY created_at DESC LIMIT ? OFFSET ?`,
+      [userId, limit, offset]
+    );
+    const count = await this.db.get(`SELECT COUNT(*) AS total FROM orders WHERE user_id = ?`, [userId]);
+    return { orders: rows.map(fromOrderRow), total: Number(count?.total || 0) };
+  }
+
+  async getSyncRecord(userId, recordId) {
+    const row = await this.db.get(
+      `SELECT record_json AS recordJson, server_version AS serverVersion
+       FROM sync_records WHERE user_id = ? AND record_id = ? LIMIT 1`,
+      [userId, recordId]
+    );
+    return row ? fromSyncRow(row) : null;
+  }
+
+  async listSyncRecords(userId, { since = 0 } = {}) {
+    const rows = await this.db.all(
+      `SELECT record_json AS recordJson, server_version AS serverVersion
+       FROM sync_records WHERE user_id = ? AND server_version > ?
+       ORDER BY server_version ASC`,
+      [userId, since]
+    );
+    const records = rows.map(fromSyncRow);
+    return { records, cursor: getPullCursor(records, since) };
+  }
+
+  async pushSyncRecords(userId, pushed) {
+    return this.runExclusive(async () => {
+      // IMMEDIATE takes the write lock up front, so another process cannot
+      // push for the same user between the reads and the writes below
+      await this.db.exec('BEGIN IMMEDIATE');
+      try {
+        // Users who synced before the version sequence existed start from their newest record
+        await this.db.run(
+          `INSERT INTO sync_versions (user_id, last_version)
+           SELECT ?, COALESCE(MAX(server_version), 0) FROM sync_records WHERE user_id = ?
+           ON CONFLICT(user_id) DO NOTHING`,
+          [userId, userId]
+        );
+        const sequence = await this.db.get(
+          `SELECT last_version AS lastVersion FROM sync_versions WHERE user_id = ?`,
+          [userId]
+        );
+        const ids = [...new Set(pushed.map(record => record.id))];
+        const rows = await this.db.all(
+          `SELECT record_json AS recordJson, server_version AS serverVersion
+           FROM sync_records WHERE user_id = ? AND record_id IN (${ids.map(() => '?').join(', ')})`,
+          [userId, ...ids]
+        );
+        const current = new Map(rows.map(fromSyncRow).map(record => [record.id, record]));
+
+        const { results, saved, cursor } = applySyncPush(
+          current,
+          pushed,
+          Number(sequence.lastVersion)
+        );
+        for (const stored of saved) {
+          await this.db.run(
+            `INSERT INTO sync_records (user_id, record_id, type, server_version, updated_at, record_json)
+             VALUES (?, ?, ?, ?, ?, ?)
+             ON CONFLICT(user_id, record_id) DO UPDATE SET
+               server_version = excluded.server_version,
+               updated_at = excluded.updated_at,
+               record_json = excluded.record_json`,
+            [userId, stored.id, stored.type, stored.serverVersion, stored.updatedAt, JSON.stringify(stored)]
+          );
+        }
+        await this.db.run(`UPDATE sync_versions SET last_version = ? WHERE user_id = ?`, [
+          cursor,
+          userId,
+        ]);
+        await this.db.exec('COMMIT');
+        return { results, cursor };
+      } catch (error) {
+        await this.db.exec('ROLLBACK');
+        throw error;
+      }
+    });
+  }
+
+  async saveShareLink(link) {
+    await this.db.run(
+      `INSERT INTO share_links (token, owner_id, created_at, link_json) VALUES (?, ?, ?, ?)`,
+      [link.token, link.ownerId, link.createdAt, JSON.stringify(link)]
+    );
+  }
+
+  async getShareLink(token) {
+    const row = await this.db.get(
+      `SELECT link_json AS linkJson FROM share_links WHERE token = ? LIMIT 1`,
+      [token]
+    );
+    return row ? fromShareLinkRow(row) : null;
+  }
+
+  async saveAnalyticsEvents(events) {
+    let saved = 0;
+    await this.db.exec('BEGIN');
+    try {
+      for (const event of events) {
+        const result = await this.db.run(
+          `INSERT INTO analytics_events
+             (event_id, name, session_id, user_id, occurred_at, received_at, schema_version, event_json)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+           ON CONFLICT(event_id) DO NOTHING`,
+          [
+            event.id,
+            event.name,
+            event.sessionId,
+            event.userId,
+            event.timestamp,
+            event.receivedAt,
+            event.schemaVersion,
+            JSON.stringify(event),
+          ]
+        );
+        saved += result?.changes || 0;
+      }
+      await this.db.exec('COMMIT');
+    } catch (error) {
+      await this.db.exec('ROLLBACK');
+      throw error;
+    }
+    return saved;
+  }
+
+  async listAnalyticsEvents({ limit = 100 } = {}) {
+    const rows = await this.db.all(
+      `SELECT event_json AS eventJson FROM analytics_events ORDER BY occurred_at DESC LIMIT ?`,
+      [limit]
+    );
+    return rows.map(fromAnalyticsEventRow);
+  }
+
+  async listExperimentEvents(testId) {
+    const rows = await this.db.all(
+      `SELECT event_json AS eventJson FROM analytics_events
+       WHERE name IN (?, ?) AND json_extract(event_json, '$.properties.test_id') = ?`,
+      [EXPOSURE_EVENT_NAME, CONVERSION_EVENT_NAME, testId]
+    );
+    return rows.map(fromAnalyticsEventRow);
+  }
+
+  async saveCrashReports(reports) {
+    let saved = 0;
+    await this.db.exec('BEGIN');
+    try {
+      for (const report of reports) {
+        const result = await this.db.run(
+          `INSERT INTO crash_reports
+             (report_id, fingerprint, group_key, occurred_at, last_occurred_at, occurrences,
+              app_version, build_number, received_at, report_json)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+           ON CONFLICT(report_id) DO NOTHING`,
+          [
+            report.id,
+            report.fingerprint,
+            report.groupKey,
+            report.timestamp,
+            report.lastOccurredAt,
+            report.occurrences,
+            report.appInfo.version,
+            report.appInfo.buildNumber,
+            report.receivedAt,
+            JSON.stringify(report),
+          ]
+        );
+        saved += result?.changes || 0;
+      }
+      await this.db.exec('COMMIT');
+    } catch (error) {
+      await this.db.exec('ROLLBACK');
+      throw error;
+    }
+    return saved;
+  }
+
+  async listCrashGroups({ limit = 50 } = {}) {
+    const rows = await this.db.all(
+      `SELECT group_key AS groupKey, COUNT(*) AS reports, SUM(occurrences) AS occurrences,
+              MIN(occurred_at) AS firstSeenAt, MAX(last_occurred_at) AS lastSeenAt
+         FROM crash_reports
+        GROUP BY group_key
+        ORDER BY lastSeenAt DESC
+        LIMIT ?`,
+      [limit]
+    );
+
+    return Promise.all(
+      rows.map(async row => {
+        const latest = await this.db.get(
+          `SELECT report_json AS reportJson FROM crash_reports
+            WHERE group_key = ? ORDER BY last_occurred_at DESC LIMIT 1`,
+          [row.groupKey]
+        );
+        return fromCrashGroupRow(row, fromCrashReportRow(latest));
+      })
+    );
+  }
+
+  async saveSourceMap(appVersion, buildNumber, sourceMap) {
+    await this.db.run(
+      `INSERT INTO source_maps (app_version, build_number, uploaded_at, map_json)
+       VALUES (?, ?, ?, ?)
+       ON CONFLICT(app_version, build_number) DO UPDATE SET
+         uploaded_at = excluded.uploaded_at,
+         map_json = excluded.map_json`,
+      [appVersion, buildNumber, new Date().toISOString(), JSON.stringify(sourceMap)]
+    );
+  }
+
+  async getSourceMap(appVersion, buildNumber) {
+    const row = await this.db.get(
+      `SELECT map_json AS mapJson FROM source_maps WHERE app_version = ? AND build_number = ?`,
+      [appVersion, buildNumber]
+    );
+    return fromSourceMapRow(row);
+  }
 }
 
 class PostgresPaymentStore {
   constructor(connectionString) {
     this.connectionString = connectionString;
     this.client = null;
+    this.runExclusive = createExclusiveRunner();
   }
 
   async initialize() {
@@ -249,6 +974,103 @@ class PostgresPaymentStore {
         updated_at TIMESTAMPTZ DEFAULT NOW()
       );
     `);
+
+    await this.client.query(`
+      CREATE TABLE IF NOT EXISTS payment_refunds (
+        refund_id TEXT PRIMARY KEY,
+        order_id TEXT NOT NULL,
+        payment_intent_id TEXT,
+        amount_in_cents INTEGER NOT NULL,
+        status TEXT NOT NULL,
+        reason TEXT,
+        items_json JSONB,
+        created_at TIMESTAMPTZ DEFAULT NOW()
+      );
+    `);
+
+    await this.client.query(`
+      CREATE TABLE IF NOT EXISTS orders (
+        order_id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL,
+        status TEXT NOT NULL,
+        total_in_cents INTEGER NOT NULL,
+        created_at TIMESTAMPTZ NOT NULL,
+        updated_at TIMESTAMPTZ NOT NULL,
+        order_json JSONB NOT NULL
+      );
+    `);
+
+    await this.client.query(
+      `CREATE INDEX IF NOT EXISTS orders_user_created ON orders (user_id, created_at)`
+    );
+
+    await this.client.query(`
+      CREATE TABLE IF NOT EXISTS sync_records (
+        user_id TEXT NOT NULL,
+        record_id TEXT NOT NULL,
+        type TEXT NOT NULL,
+        server_version INTEGER NOT NULL,
+        updated_at TIMESTAMPTZ NOT NULL,
+        record_json JSONB NOT NULL,
+        PRIMARY KEY (user_id, record_id)
+      );
+    `);
+
+    await this.client.query(`
+      CREATE TABLE IF NOT EXISTS sync_versions (
+        user_id TEXT PRIMARY KEY,
+        last_version INTEGER NOT NULL
+      );
+    `);
+
+    await this.client.query(`
+      CREATE TABLE IF NOT EXISTS share_links (
+        token TEXT PRIMARY KEY,
+        owner_id TEXT,
+        created_at TIMESTAMPTZ NOT NULL,
+        link_json JSONB NOT NULL
+      );
+    `);
+
+    await this.client.query(`
+      CREATE TABLE IF NOT EXISTS analytics_events (
+        event_id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        session_id TEXT NOT NULL,
+        user_id TEXT,
+        occurred_at TIMESTAMPTZ NOT NULL,
+        received_at TIMESTAMPTZ NOT NULL,
+        schema_version INTEGER NOT NULL,
+        event_json JSONB NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS analytics_events_name_occurred ON analytics_events (name, occurred_at);
+    `);
+
+    await this.client.query(`
+      CREATE TABLE IF NOT EXISTS crash_reports (
+        report_id TEXT PRIMARY KEY,
+        fingerprint TEXT NOT NULL,
+        group_key TEXT NOT NULL,
+        occurred_at TIMESTAMPTZ NOT NULL,
+        last_occurred_at TIMESTAMPTZ NOT NULL,
+        occurrences INTEGER NOT NULL,
+        app_version TEXT NOT NULL,
+        build_number TEXT NOT NULL,
+        received_at TIMESTAMPTZ NOT NULL,
+        report_json JSONB NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS crash_reports_group_last_occurred ON crash_reports (group_key, last_occurred_at);
+    `);
+
+    await this.client.query(`
+      CREATE TABLE IF NOT EXISTS source_maps (
+        app_version TEXT NOT NULL,
+        build_number TEXT NOT NULL,
+        uploaded_at TIMESTAMPTZ NOT NULL,
+        map_json JSONB NOT NULL,
+        PRIMARY KEY (app_version, build_number)
+      );
+    `);
   }
 
   async close() {
@@ -310,6 +1132,291 @@ class PostgresPaymentStore {
       [merged.orderId, merged.paymentIntentId, merged.status, merged.fulfillment]
     );
   }
+
+  async getRefunds(orderId) {
+    const result = await this.client.query(
+      `SELECT refund_id AS "refundId", order_id AS "orderId", payment_intent_id AS "paymentIntentId",
+              amount_in_cents AS "amountInCents", status, reason, items_json AS "itemsJson", created_at AS "createdAt"
+       FROM payment_refunds WHERE order_id = $1 ORDER BY created_at`,
+      [orderId]
+    );
+    return result.rows.map(fromRefundRow);
+  }
+
+  async addRefund(orderId, refund) {
+    if (!orderId) return;
+    const record = toRefundRecord(orderId, refund);
+    await this.client.query(
+      `INSERT INTO payment_refunds
+         (refund_id, order_id, payment_intent_id, amount_in_cents, status, reason, items_json, created_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7::jsonb, $8)
+       ON CONFLICT (refund_id) DO NOTHING`,
+      [
+        record.refundId,
+        record.orderId,
+        record.paymentIntentId,
+        record.amountInCents,
+        record.status,
+        record.reason,
+        JSON.stringify(record.items),
+        record.createdAt,
+      ]
+    );
+  }
+  async saveOrder(order) {
+    if (!order?.orderId) return;
+    const record = toOrderRecord(order);
+    await this.client.query(
+      `INSERT INTO orders (order_id, user_id, status, total_in_cents, created_at, updated_at, order_json)
+       VALUES ($1, $2, $3, $4, $5, $6, $7::jsonb)
+       ON CONFLICT (order_id) DO UPDATE SET
+         status = EXCLUDED.status,
+         total_in_cents = EXCLUDED.total_in_cents,
+         updated_at = EXCLUDED.updated_at,
+         order_json = EXCLUDED.order_json`,
+      [
+        record.orderId,
+        record.userId,
+        record.status,
+        Math.round(Number(record.total) * 100),
+        record.createdAt,
+        record.updatedAt,
+        JSON.stringify(record),
+      ]
+    );
+  }
+
+  async getOrder(orderId) {
+    const result = await this.client.query(
+      `SELECT order_json AS "orderJson" FROM orders WHERE order_id = $1 LIMIT 1`,
+      [orderId]
+    );
+    return result.rows[0] ? fromOrderRow(result.rows[0]) : null;
+  }
+
+  async listOrders(userId, { limit = 50, offset = 0 } = {}) {
+    const result = await this.client.query(
+      `SELECT order_json AS "orderJson" FROM orders WHERE user_id = $1
+       ORDER BY created_at DESC LIMIT $2 OFFSET $3`,
+      [userId, limit, offset]
+    );
+    const count = await this.client.query(
+      `SELECT COUNT(*) AS total FROM orders WHERE user_id = $1`,
+      [userId]
+    );
+    return { orders: result.rows.map(fromOrderRow), total: Number(count.rows[0]?.total || 0) };
+  }
+
+  async getSyncRecord(userId, recordId) {
+    const result = await this.client.query(
+      `SELECT record_json AS "recordJson", server_version AS "serverVersion"
+       FROM sync_records WHERE user_id = $1 AND record_id = $2 LIMIT 1`,
+      [userId, recordId]
+    );
+    return result.rows[0] ? fromSyncRow(result.rows[0]) : null;
+  }
+
+  async listSyncRecords(userId, { since = 0 } = {}) {
+    const result = await this.client.query(
+      `SELECT record_json AS "recordJson", server_version AS "serverVersion"
+       FROM sync_records WHERE user_id = $1 AND server_version > $2
+       ORDER BY server_version ASC`,
+      [userId, since]
+    );
+    const records = result.rows.map(fromSyncRow);
+    return { records, cursor: getPullCursor(records, since) };
+  }
+
+  async pushSyncRecords(userId, pushed) {
+    return this.runExclusive(async () => {
+      await this.client.query('BEGIN');
+      try {
+        // Users who synced before the version sequence existed start from their newest record
+        await this.client.query(
+          `INSERT INTO sync_versions (user_id, last_version)
+           SELECT $1, COALESCE(MAX(server_version), 0) FROM sync_records WHERE user_id = $1
+           ON CONFLICT (user_id) DO NOTHING`,
+          [userId]
+        );
+        // The row lock holds off other servers pushing for this user until COMMIT
+        const sequence = await this.client.query(
+          `SELECT last_version AS "lastVersion" FROM sync_versions WHERE user_id = $1 FOR UPDATE`,
+          [userId]
+        );
+        const rows = await this.client.query(
+          `SELECT record_json AS "recordJson", server_version AS "serverVersion"
+           FROM sync_records WHERE user_id = $1 AND record_id = ANY($2)`,
+          [userId, [...new Set(pushed.map(record => record.id))]]
+        );
+        const current = new Map(rows.rows.map(fromSyncRow).map(record => [record.id, record]));
+
+        const { results, saved, cursor } = applySyncPush(
+          current,
+          pushed,
+          Number(sequence.rows[0].lastVersion)
+        );
+        for (const stored of saved) {
+          await this.client.query(
+            `INSERT INTO sync_records (user_id, record_id, type, server_version, updated_at, record_json)
+             VALUES ($1, $2, $3, $4, $5, $6)
+             ON CONFLICT (user_id, record_id) DO UPDATE SET
+               server_version = EXCLUDED.server_version,
+               updated_at = EXCLUDED.updated_at,
+               record_json = EXCLUDED.record_json`,
+            [userId, stored.id, stored.type, stored.serverVersion, stored.updatedAt, JSON.stringify(stored)]
+          );
+        }
+        await this.client.query(`UPDATE sync_versions SET last_version = $1 WHERE user_id = $2`, [
+          cursor,
+          userId,
+        ]);
+        await this.client.query('COMMIT');
+        return { results, cursor };
+      } catch (error) {
+        await this.client.query('ROLLBACK');
+        throw error;
+      }
+    });
+  }
+
+  async saveShareLink(link) {
+    await this.client.query(
+      `INSERT INTO share_links (token, owner_id, created_at, link_json) VALUES ($1, $2, $3, $4)`,
+      [link.token, link.ownerId, link.createdAt, JSON.stringify(link)]
+    );
+  }
+
+  async getShareLink(token) {
+    const result = await this.client.query(
+      `SELECT link_json AS "linkJson" FROM share_links WHERE token = $1 LIMIT 1`,
+      [token]
+    );
+    return result.rows[0] ? fromShareLinkRow(result.rows[0]) : null;
+  }
+
+  async saveAnalyticsEvents(events) {
+    let saved = 0;
+    await this.client.query('BEGIN');
+    try {
+      for (const event of events) {
+        const result = await this.client.query(
+          `INSERT INTO analytics_events
+             (event_id, name, session_id, user_id, occurred_at, received_at, schema_version, event_json)
+           VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+           ON CONFLICT (event_id) DO NOTHING`,
+          [
+            event.id,
+            event.name,
+            event.sessionId,
+            event.userId,
+            event.timestamp,
+            event.receivedAt,
+            event.schemaVersion,
+            JSON.stringify(event),
+          ]
+        );
+        saved += result.rowCount;
+      }
+      await this.client.query('COMMIT');
+    } catch (error) {
+      await this.client.query('ROLLBACK');
+      throw error;
+    }
+    return saved;
+  }
+
+  async listAnalyticsEvents({ limit = 100 } = {}) {
+    const result = await this.client.query(
+      `SELECT event_json AS "eventJson" FROM analytics_events ORDER BY occurred_at DESC LIMIT $1`,
+      [limit]
+    );
+    return result.rows.map(fromAnalyticsEventRow);
+  }
+
+  async listExperimentEvents(testId) {
+    const result = await this.client.query(
+      `SELECT event_json AS "eventJson" FROM analytics_events
+       WHERE name IN ($1, $2) AND event_json -> 'properties' ->> 'test_id' = $3`,
+      [EXPOSURE_EVENT_NAME, CONVERSION_EVENT_NAME, testId]
+    );
+    return result.rows.map(fromAnalyticsEventRow);
+  }
+
+  async saveCrashReports(reports) {
+    let saved = 0;
+    await this.client.query('BEGIN');
+    try {
+      for (const report of reports) {
+        const result = await this.client.query(
+          `INSERT INTO crash_reports
+             (report_id, fingerprint, group_key, occurred_at, last_occurred_at, occurrences,
+              app_version, build_number, received_at, report_json)
+           VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+           ON CONFLICT (report_id) DO NOTHING`,
+          [
+            report.id,
+            report.fingerprint,
+            report.groupKey,
+            report.timestamp,
+            report.lastOccurredAt,
+            report.occurrences,
+            report.appInfo.version,
+            report.appInfo.buildNumber,
+            report.receivedAt,
+            JSON.stringify(report),
+          ]
+        );
+        saved += result.rowCount;
+      }
+      await this.client.query('COMMIT');
+    } catch (error) {
+      await this.client.query('ROLLBACK');
+      throw error;
+    }
+    return saved;
+  }
+
+  async listCrashGroups({ limit = 50 } = {}) {
+    const result = await this.client.query(
+      `SELECT group_key AS "groupKey", COUNT(*) AS reports, SUM(occurrences) AS occurrences,
+              MIN(occurred_at) AS "firstSeenAt", MAX(last_occurred_at) AS "lastSeenAt"
+         FROM crash_reports
+        GROUP BY group_key
+        ORDER BY "lastSeenAt" DESC
+        LIMIT $1`,
+      [limit]
+    );
+
+    return Promise.all(
+      result.rows.map(async row => {
+        const latest = await this.client.query(
+          `SELECT report_json AS "reportJson" FROM crash_reports
+            WHERE group_key = $1 ORDER BY last_occurred_at DESC LIMIT 1`,
+          [row.groupKey]
+        );
+        return fromCrashGroupRow(row, fromCrashReportRow(latest.rows[0]));
+      })
+    );
+  }
+
+  async saveSourceMap(appVersion, buildNumber, sourceMap) {
+    await this.client.query(
+      `INSERT INTO source_maps (app_version, build_number, uploaded_at, map_json)
+       VALUES ($1, $2, $3, $4)
+       ON CONFLICT (app_version, build_number) DO UPDATE SET
+         uploaded_at = EXCLUDED.uploaded_at,
+         map_json = EXCLUDED.map_json`,
+      [appVersion, buildNumber, new Date().toISOString(), JSON.stringify(sourceMap)]
+    );
+  }
+
+  async getSourceMap(appVersion, buildNumber) {
+    const result = await this.client.query(
+      `SELECT map_json AS "mapJson" FROM source_maps WHERE app_version = $1 AND build_number = $2`,
+      [appVersion, buildNumber]
+    );
+    return fromSourceMapRow(result.rows[0]);
+  }
 }
 
 async function createPaymentStoreFromEnv(overrides = {}) {
@@ -0,0 +1,173 @@
+// Server-side copy of the app's PricingService. Both read the same rules file, so the
+// payment amount charged here matches the total shown at checkout.
+const defaultPricingRules = require('swipelyapp/src/config/pricingRules.json');
+
+function roundCurrency(value) {
+  return parseFloat(value.toFixed(2));
+}
+
+function normalize(value) {
+  return String(value ?? '').trim().toUpperCase();
+}
+
+function getLineTotal(item) {
+  return item.price * item.quantity;
+}
+
+function getCartSubtotal(items) {
+  return roundCurrency(items.reduce((sum, item) => sum + getLineTotal(item), 0));
+}
+
+function findTaxRule(taxRules, address) {
+  if (!address) {
+    return undefined;
+  }
+
+  const country = normalize(address.country);
+  const state = normalize(address.state);
+  const postalCode = normalize(address.postalCode).replace(/\s/g, '');
+
+  let bestRule;
+  let bestScore = -1;
+  for (const rule of taxRules.rules) {
+    if (normalize(rule.country) !== country) continue;
+    if (rule.state && normalize(rule.state) !== state) continue;
+    if (rule.postalCodePrefix && !postalCode.startsWith(normalize(rule.postalCodePrefix))) continue;
+
+    const score = (rule.state ? 1 : 0) + (rule.postalCodePrefix ? 2 : 0);
+    if (score > bestScore) {
+      bestRule = rule;
+      bestScore = score;
+    }
+  }
+
+  return bestRule;
+}
+
+function calculateTax(taxRules, items, address) {
+  const rule = findTaxRule(taxRules, address);
+  const rate = rule ? rule.rate : taxRules.defaultRate;
+  const exemptCategories = new Set((rule?.exemptCategories || []).map(normalize));
+
+  let taxable = 0;
+  let exempt = 0;
+  for (const item of items) {
+    if (exemptCategories.has(normalize(item.categoryId))) {
+      exempt += getLineTotal(item);
+    } else {
+      taxable += getLineTotal(item);
+    }
+  }
+
+  const taxableSubtotal = roundCurrency(taxable);
+  return {
+    tax: roundCurrency(taxableSubtotal * rate),
+    rate,
+    ruleId: rule?.id ?? null,
+    taxableSubtotal,
+    exemptSubtotal: roundCurrency(exempt),
+  };
+}
+
+function getShippingWeight(shippingRules, items) {
+  const weight = items.reduce(
+    (sum, item) => sum + (item.weightKg ?? shippingRules.defaultItemWeightKg) * item.quantity,
+    0
+  );
+  return parseFloat(weight.toFixed(3));
+}
+
+function getShippingOptions(shippingRules, items) {
+  const subtotal = getCartSubtotal(items);
+  const weight = getShippingWeight(shippingRules, items);
+
+  return shippingRules.methods.map(method => {
+    const freeShippingApplied =
+      items.length > 0 &&
+      method.freeShippingThreshold !== undefined &&
+      subtotal >= method.freeShippingThreshold;
+    const tier =
+      method.tiers.find(
+        candidate =>
+          (candidate.maxWeightKg === undefined || weight <= candidate.maxWeightKg) &&
+          (candidate.maxSubtotal === undefined || subtotal <= candidate.maxSubtotal)
+      ) || method.tiers[method.tiers.length - 1];
+
+    return {
+      method: method.id,
+      label: method.label,
+      estimatedDays: method.estimatedDays,
+      cost: items.length === 0 || freeShippingApplied ? 0 : tier?.cost ?? 0,
+      freeShippingApplied,
+    };
+  });
+}
+
+/**
+ * Validate line items from a request body. Returns the cleaned items, or an
+ * error message when any line cannot be priced.
+ */
+function parsePricedItems(items) {
+  if (!Array.isArray(items) || items.length === 0) {
+    return { error: 'items must be a non-empty array' };
+  }
+
+  const parsed = [];
+  for (const item of items) {
+    const price = Number(item?.price);
+    const quantity = Number(item?.quantity);
+    if (!item || typeof item.productId !== 'string' || !item.productId) {
+      return { error: 'Each item needs a productId' };
+    }
+    if (!Number.isFinite(price) || price < 0) {
+      return { error: `Invalid price for ${item.productId}` };
+    }
+    if (!Number.isInteger(quantity) || quantity <= 0) {
+      return { error: `Invalid quantity for ${item.productId}` };
+    }
+
+    const weightKg = Number(item.weightKg);
+    parsed.push({
+      productId: item.productId,
+      price,
+      quantity,
+      categoryId: typeof item.categoryId === 'string' ? item.categoryId : undefined,
+      weightKg: Number.isFinite(weightKg) && weightKg >= 0 ? weightKg : undefined,
+    });
+  }
+
+  return { items: parsed };
+}
+
+function calculateTotals({ items, shippingAddress, shippingMethod }, rules = defaultPricingRules) {
+  const method = shippingMethod || rules.shipping.defaultMethod;
+  const options = getShippingOptions(rules.shipping, items);
+  const option = options.find(candidate => candidate.method === method) || options[0];
+
+  const subtotal = getCartSubtotal(items);
+  const taxResult = calculateTax(rules.tax, items, shippingAddress);
+  const shipping = option ? option.cost : 0;
+
+  return {
+    subtotal,
+    tax: taxResult.tax,
+    shipping,
+    total: roundCurrency(subtotal + taxResult.tax + shipping),
+    breakdown: {
+      taxRuleId: taxResult.ruleId,
+      taxRate: taxResult.rate,
+      taxableSubtotal: taxResult.taxableSubtotal,
+      exemptSubtotal: taxResult.exemptSubtotal,
+      shippingMethod: option ? option.method : method,
+      shippingWeightKg: getShippingWeight(rules.shipping, items),
+      freeShippingApplied: option ? option.freeShippingApplied : false,
+    },
+  };
+}
+
+module.exports = {
+  calculateTotals,
+  defaultPricingRules,
+  getShippingOptions,
+  parsePricedItems,
+};
@@ -0,0 +1,120 @@
+// Product search for the app's API mode. Facets are counted over every match
+// for the query before the filters are applied, so picking a filter does not
+// hide the other choices; the buckets and boundaries match the app's
+// on-device search (src/services/ProductSearchService.ts).
+
+const MAX_SEARCH_QUERY_LENGTH = 200;
+// DummyJSON search results fetched per query; facets and pages come from these
+const MAX_SEARCH_MATCHES = 100;
+
+const PRICE_BUCKETS = [
+  { value: '0-25', label: 'Under $25', min: 0, max: 25 },
+  { value: '25-50', label: '$25 - $50', min: 25, max: 50 },
+  { value: '50-100', label: '$50 - $100', min: 50, max: 100 },
+  { value: '100-250', label: '$100 - $250', min: 100, max: 250 },
+  { value: '250-500', label: '$250 - $500', min: 250, max: 500 },
+  { value: '500+', label: '$500 & up', min: 500 },
+];
+
+/**
+ * Whether a price falls in a range. Ranges are half-open like the buckets,
+ * so a $50 item is only in $50 - $100; a range without a max has no upper bound.
+ */
+const isInPriceRange = (price, range) =>
+  price >= range.min && (range.max === undefined || price < range.max);
+
+const getCardBrand = card => {
+  const brand = card.specifications?.brand ?? card.specifications?.Brand;
+  return typeof brand === 'string' && brand.trim() ? brand.trim() : null;
+};
+
+/**
+ * Validate a search request. Returns the query, pagination and filters, or
+ * an error message.
+ */
+function parseSearchRequest(body) {
+  const { query, pagination, filters } = body || {};
+
+  if (typeof query !== 'string' || !query.trim()) {
+    return { error: 'query is required' };
+  }
+  if (query.length > MAX_SEARCH_QUERY_LENGTH) {
+    return { error: `query can be at most ${MAX_SEARCH_QUERY_LENGTH} characters` };
+  }
+
+  return {
+    query: query.trim(),
+    page: Math.max(1, Number(pagination?.page) || 1),
+    limit: Math.min(MAX_SEARCH_MATCHES, Math.max(1, Number(pagination?.limit) || 10)),
+    filters: filters && typeof filters === 'object' ? filters : undefined,
+  };
+}
+
+/**
+ * Category, brand and price filters. Price ranges are half-open like the buckets.
+ */
+function matchesSearchFilters(card, filters) {
+  if (filters?.categories?.length && !filters.categories.includes(card.category.id)) {
+    return false;
+  }
+
+  if (filters?.brands?.length) {
+    const brand = getCardBrand(card);
+    if (!brand || !filters.brands.includes(brand)) {
+      return false;
+    }
+  }
+
+  if (filters?.priceRange && !isInPriceRange(card.price, filters.priceRange)) {
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Count categories, brands and price buckets across the cards
+ */
+function buildSearchFacets(cards) {
+  const categories = new Map();
+  const brands = new Map();
+  const priceBuckets = PRICE_BUCKETS.map(bucket => ({ ...bucket, count: 0 }));
+
+  const increment = (map, value, label) => {
+    const facet = map.get(value);
+    if (facet) {
+      facet.count += 1;
+    } else {
+      map.set(value, { value, label, count: 1 });
+    }
+  };
+
+  for (const card of cards) {
+    increment(categories, card.category.id, card.category.name);
+
+    const brand = getCardBrand(card);
+    if (brand) {
+      increment(brands, brand, brand);
+    }
+
+    const bucket = priceBuckets.find(item => isInPriceRange(card.price, item));
+    if (bucket) {
+      bucket.count += 1;
+    }
+  }
+
+  const byCount = (a, b) => b.count - a.count || a.label.localeCompare(b.label);
+  return {
+    categories: [...categories.values()].sort(byCount),
+    brands: [...brands.values()].sort(byCount),
+    priceBuckets: priceBuckets.filter(bucket => bucket.count > 0),
+  };
+}
+
+module.exports = {
+  MAX_SEARCH_MATCHES,
+  buildSearchFacets,
+  isInPriceRange,
+  matchesSearchFilters,
+  parseSearchRequest,
+};
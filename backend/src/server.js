@@ -1,6 +1,7 @@
 const dotenv = require('dotenv');
 const Stripe = require('stripe');
 const { createApp } = require('./app');
+const { loadExperimentsConfig } = require('./experiments');
 const { createPaymentStoreFromEnv } = require('./paymentStore');
 
 dotenv.config();
@@ -16,6 +17,7 @@ const dummyJsonBaseUrl = process.env.DUMMYJSON_BASE_URL || 'https://dummyjson.co
 const paymentStorePath = process.env.PAYMENT_STORE_PATH || '';
 const requirePaymentApiKey = String(process.env.REQUIRE_PAYMENT_API_KEY || 'false').toLowerCase() === 'true';
 const paymentApiKey = process.env.PAYMENT_API_KEY || '';
+const experimentsConfigPath = process.env.EXPERIMENTS_CONFIG_PATH || '';
 const nodeEnv = String(process.env.NODE_ENV || '').toLowerCase();
 const isProduction = nodeEnv === 'production';
 
@@ -50,6 +52,7 @@ async function startServer() {
     paymentStore,
     requirePaymentApiKey,
     paymentApiKey,
+    experimentsConfig: experimentsConfigPath ? loadExperimentsConfig(experimentsConfigPath) : undefined,
   });
 
   const server = app.listen(port, () => {
@@ -0,0 +1,57 @@
+// Shareable wishlist links. A link stores the product ids a user chose to
+// share; anyone holding the token can resolve it to current product details,
+// so the recipient sees today's prices rather than a snapshot.
+
+const crypto = require('node:crypto');
+
+const MAX_SHARED_PRODUCTS = 100;
+const MAX_SHARE_TITLE_LENGTH = 80;
+const DEFAULT_SHARE_TITLE = 'Wishlist';
+const SHARE_TOKEN_PATTERN = /^[A-Za-z0-9_-]{16,64}$/;
+
+/**
+ * 128 random bits, URL safe, so tokens cannot be guessed or enumerated
+ */
+function createShareToken() {
+  return crypto.randomBytes(16).toString('base64url');
+}
+
+function isShareToken(token) {
+  return typeof token === 'string' && SHARE_TOKEN_PATTERN.test(token);
+}
+
+/**
+ * Validate a request to share products. Returns the link fields to store,
+ * or an error message.
+ */
+function parseShareRequest(body) {
+  const { productIds, title, userId } = body || {};
+
+  if (!Array.isArray(productIds) || productIds.length === 0) {
+    return { error: 'productIds must be a non-empty array' };
+  }
+  if (productIds.length > MAX_SHARED_PRODUCTS) {
+    return { error: `A share can contain at most ${MAX_SHARED_PRODUCTS} products` };
+  }
+  if (!productIds.every(productId => typeof productId === 'string' && productId)) {
+    return { error: 'productIds must be non-empty strings' };
+  }
+  if (title !== undefined && typeof title !== 'string') {
+    return { error: 'title must be a string' };
+  }
+
+  return {
+    share: {
+      productIds: [...new Set(productIds)],
+      title: (title || '').trim().slice(0, MAX_SHARE_TITLE_LENGTH) || DEFAULT_SHARE_TITLE,
+      ownerId: typeof userId === 'string' && userId ? userId : null,
+    },
+  };
+}
+
+module.exports = {
+  MAX_SHARED_PRODUCTS,
+  createShareToken,
+  isShareToken,
+  parseShareRequest,
+};
@@ -0,0 +1,279 @@
+// Source map symbolication for crash reports. Release builds upload the
+// bundle's source map per app version and build; crash stack traces from
+// that build are mapped back to the original file, line and function.
+// Only flat (version 3, non-indexed) maps are supported, which is what the
+// Metro bundler emits.
+
+const BASE64_CHARS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+const BASE64_VALUES = new Map([...BASE64_CHARS].map((char, index) => [char, index]));
+const VLQ_CONTINUATION_BIT = 0x20;
+const VLQ_VALUE_MASK = 0x1f;
+
+// V8: "at fn (file:line:col)" or "at file:line:col"
+const V8_FRAME_PATTERN = /^at (?:(.+?) \()?(?:address at )?(.+?):(\d+):(\d+)\)?$/;
+// JavaScriptCore and Hermes: "fn@file:line:col" or "file:line:col"
+const JSC_FRAME_PATTERN = /^(?:(.*?)@)?(.+?):(\d+):(\d+)$/;
+
+/**
+ * Storage key for a build's source map, e.g. "1.4.0 (52)"
+ */
+function getSourceMapKey(appVersion, buildNumber) {
+  return `${appVersion} (${buildNumber})`;
+}
+
+/**
+ * Decode one mappings segment into its Base64 VLQ fields
+ */
+function decodeVlqSegment(segment) {
+  const values = [];
+  let value = 0;
+  let shift = 0;
+
+  for (const char of segment) {
+    const digit = BASE64_VALUES.get(char);
+    if (digit === undefined) {
+      throw new Error(`Invalid Base64 VLQ character "${char}"`);
+    }
+
+    value += (digit & VLQ_VALUE_MASK) << shift;
+    if (digit & VLQ_CONTINUATION_BIT) {
+      shift += 5;
+      continue;
+    }
+
+    // The lowest bit is the sign
+    values.push(value & 1 ? -(value >>> 1) : value >>> 1);
+    value = 0;
+    shift = 0;
+  }
+
+  if (shift !== 0) {
+    throw new Error(`Truncated Base64 VLQ segment "${segment}"`);
+  }
+  return values;
+}
+
+/**
+ * Check an uploaded source map. Returns an error message, or null when the
+ * map is usable.
+ */
+function validateSourceMap(map) {
+  if (!map || typeof map !== 'object' || Array.isArray(map)) {
+    return 'Source map must be an object';
+  }
+  if (map.sections) {
+    return 'Indexed source maps are not supported';
+  }
+  if (map.version !== 3) {
+    return 'Only version 3 source maps are supported';
+  }
+  if (typeof map.mappings !== 'string') {
+    return 'Source map mappings must be a string';
+  }
+  if (!Array.isArray(map.sources) || map.sources.some(source => typeof source !== 'string')) {
+    return 'Source map sources must be an array of strings';
+  }
+  if (map.names !== undefined && (!Array.isArray(map.names) || map.names.some(name => typeof name !== 'string'))) {
+    return 'Source map names must be an array of strings';
+  }
+  return null;
+}
+
+/**
+ * Make a source path relative to the project, so "/Users/ci/app/src/App.tsx"
+ * and "webpack:///./src/App.tsx" both become "src/App.tsx"
+ */
+function normalizeSourcePath(source) {
+  const withoutScheme = source.replace(/^[a-z]+:\/\/\/?/i, '').replace(/\\/g, '/');
+  for (const root of ['src/', 'node_modules/']) {
+    if (withoutScheme.startsWith(root)) {
+      return withoutScheme;
+    }
+    const index = withoutScheme.lastIndexOf(`/${root}`);
+    if (index !== -1) {
+      return withoutScheme.slice(index + 1);
+    }
+  }
+  return withoutScheme.replace(/^(\.\/)+/, '');
+}
+
+/**
+ * Decode a source map into per-line segments sorted by generated column.
+ * Throws when the map is invalid.
+ */
+function parseSourceMap(map) {
+  const error = validateSourceMap(map);
+  if (error) {
+    throw new Error(error);
+  }
+
+  const sourceRoot = typeof map.sourceRoot === 'string' && map.sourceRoot ? `${map.sourceRoot.replace(/\/$/, '')}/` : '';
+  const sources = map.sources.map(source => normalizeSourcePath(`${sourceRoot}${source}`));
+  const names = map.names || [];
+  const lines = [];
+
+  // Every field except the generated column is relative to the previous
+  // segment in the whole map; the generated column resets on each line
+  let sourceIndex = 0;
+  let sourceLine = 0;
+  let sourceColumn = 0;
+  let nameIndex = 0;
+
+  for (const encodedLine of map.mappings.split(';')) {
+    const segments = [];
+    let generatedColumn = 0;
+
+    for (const encodedSegment of encodedLine.split(',')) {
+      if (!encodedSegment) {
+        continue;
+      }
+
+      const fields = decodeVlqSegment(encodedSegment);
+      generatedColumn += fields[0];
+      if (fields.length < 4) {
+        // A generated position with no original source
+        segments.push({ generatedColumn });
+        continue;
+      }
+
+      sourceIndex += fields[1];
+      sourceLine += fields[2];
+      sourceColumn += fields[3];
+      const segment = { generatedColumn, sourceIndex, sourceLine, sourceColumn };
+      if (fields.length >= 5) {
+        nameIndex += fields[4];
+        segment.nameIndex = nameIndex;
+      }
+      segments.push(segment);
+    }
+
+    segments.sort((a, b) => a.generatedColumn - b.generatedColumn);
+    lines.push(segments);
+  }
+
+  return { sources, names, lines };
+}
+
+/**
+ * Original position of a 1-based generated line and column, or null when
+ * the map has nothing for it. The function name is the identifier the map
+ * names at that position, which for a call is usually the callee.
+ */
+function getOriginalPosition(sourceMap, line, column) {
+  const segments = sourceMap.lines[line - 1];
+  if (!segments || segments.length === 0) {
+    return null;
+  }
+
+  // Last segment starting at or before the column
+  const target = column - 1;
+  let low = 0;
+  let high = segments.length - 1;
+  let match = null;
+  while (low <= high) {
+    const middle = (low + high) >> 1;
+    if (segments[middle].generatedColumn <= target) {
+      match = segments[middle];
+      low = middle + 1;
+    } else {
+      high = middle - 1;
+    }
+  }
+
+  if (!match || match.sourceIndex === undefined || !sourceMap.sources[match.sourceIndex]) {
+    return null;
+  }
+
+  return {
+    file: sourceMap.sources[match.sourceIndex],
+    line: match.sourceLine + 1,
+    column: match.sourceColumn + 1,
+    functionName: match.nameIndex === undefined ? null : sourceMap.names[match.nameIndex] || null,
+  };
+}
+
+/**
+ * Parse the frames of a V8, JavaScriptCore or Hermes stack trace. Lines that
+ * are not frames, such as the error message, are skipped.
+ */
+function parseStackFrames(stackTrace) {
+  if (typeof stackTrace !== 'string') {
+    return [];
+  }
+
+  const frames = [];
+  for (const rawLine of stackTrace.split('\n')) {
+    const line = rawLine.trim();
+    const match = line.startsWith('at ') ? V8_FRAME_PATTERN.exec(line) : JSC_FRAME_PATTERN.exec(line);
+    if (!match) {
+      continue;
+    }
+
+    const [, functionName, file, frameLine, frameColumn] = match;
+    frames.push({
+      functionName: functionName || null,
+      file,
+      line: Number(frameLine),
+      column: Number(frameColumn),
+    });
+  }
+  return frames;
+}
+
+/**
+ * Map each frame back to its original position. Frames the map does not
+ * cover are kept as they are, with `symbolicated: false`.
+ *
+ * A map names the identifier at a position, which at a call site is the
+ * callee, so the function a frame ran in is the name recorded at the call
+ * site of the frame below it. The bottom frame, or one whose caller the map
+ * does not cover, has no name.
+ */
+function symbolicateFrames(frames, sourceMap) {
+  const originals = frames.map(frame => getOriginalPosition(sourceMap, frame.line, frame.column));
+
+  return frames.map((frame, index) => {
+    const original = originals[index];
+    if (!original) {
+      return { ...frame, symbolicated: false };
+    }
+
+    return {
+      // Minified names change from build to build, so only the map's names are kept
+      functionName: originals[index + 1]?.functionName ?? null,
+      file: original.file,
+      line: original.line,
+      column: original.column,
+      symbolicated: true,
+    };
+  });
+}
+
+/**
+ * Group key for a symbolicated stack: the file of the top frame in app code
+ * (`src/`), else of the top symbolicated frame, and the function it ran in,
+ * so edits that move the crash to another line keep it in its group. A
+ * frame with no known function is grouped by its file alone. Returns null
+ * when no frame was symbolicated.
+ */
+function getTopFrameGroupKey(frames) {
+  const symbolicated = frames.filter(frame => frame.symbolicated);
+  const topFrame = symbolicated.find(frame => frame.file.startsWith('src/')) || symbolicated[0];
+  if (!topFrame) {
+    return null;
+  }
+
+  return topFrame.functionName ? `${topFrame.file}:${topFrame.functionName}` : topFrame.file;
+}
+
+module.exports = {
+  decodeVlqSegment,
+  getOriginalPosition,
+  getSourceMapKey,
+  getTopFrameGroupKey,
+  normalizeSourcePath,
+  parseSourceMap,
+  parseStackFrames,
+  symbolicateFrames,
+  validateSourceMap,
+};
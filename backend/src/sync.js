@@ -0,0 +1,132 @@
+// Server side of the app's DataSyncService. Every record carries a version vector
+// ({ [deviceId]: counter }); a push is only applied when it descends from the
+// stored copy, so two devices editing the same record offline never overwrite
+// each other silently.
+
+const SYNC_RECORD_TYPES = ['user_preferences', 'cart_items', 'wishlist_items', 'swipe_history'];
+const MAX_SYNC_RECORDS_PER_PUSH = 50;
+
+function isVersionVector(value) {
+  return (
+    Boolean(value) &&
+    typeof value === 'object' &&
+    !Array.isArray(value) &&
+    Object.values(value).every(counter => Number.isInteger(counter) && counter >= 0)
+  );
+}
+
+/**
+ * Compare two version vectors. 'after' means `a` has seen everything `b` has
+ * and more; 'concurrent' means each side has changes the other has not seen.
+ */
+function compareVersionVectors(a = {}, b = {}) {
+  let aAhead = false;
+  let bAhead = false;
+
+  for (const deviceId of new Set([...Object.keys(a), ...Object.keys(b)])) {
+    const aCounter = a[deviceId] || 0;
+    const bCounter = b[deviceId] || 0;
+    if (aCounter > bCounter) aAhead = true;
+    if (bCounter > aCounter) bAhead = true;
+  }
+
+  if (aAhead && bAhead) return 'concurrent';
+  if (aAhead) return 'after';
+  if (bAhead) return 'before';
+  return 'equal';
+}
+
+/**
+ * Validate a record pushed by the app. Returns the record with normalized
+ * fields, or an error message.
+ */
+function parseSyncRecord(record, deviceId) {
+  if (!record || typeof record.id !== 'string' || !record.id) {
+    return { error: 'Each record needs an id' };
+  }
+  if (!SYNC_RECORD_TYPES.includes(record.type)) {
+    return { error: `type must be one of ${SYNC_RECORD_TYPES.join(', ')}` };
+  }
+  if (!isVersionVector(record.versionVector) || Object.keys(record.versionVector).length === 0) {
+    return { error: `Record ${record.id} needs a versionVector` };
+  }
+  if (record.data === undefined) {
+    return { error: `Record ${record.id} has no data` };
+  }
+
+  return {
+    record: {
+      id: record.id,
+      type: record.type,
+      data: record.data,
+      timestamp: Number(record.timestamp) || Date.now(),
+      deviceId,
+      platform: record.platform ?? null,
+      version: Number(record.version) || 1,
+      versionVector: record.versionVector,
+    },
+  };
+}
+
+/**
+ * Decide what to do with a pushed record given the stored copy:
+ * - accepted: the push descends from the stored copy and replaces it
+ * - unchanged: the server already has this exact version
+ * - stale: the server has a newer version the device should adopt
+ * - conflict: both sides changed; the device must merge and push again
+ */
+function getPushStatus(existing, incoming) {
+  if (!existing) {
+    return 'accepted';
+  }
+
+  switch (compareVersionVectors(incoming.versionVector, existing.versionVector)) {
+    case 'after':
+      return 'accepted';
+    case 'equal':
+      return 'unchanged';
+    case 'before':
+      return 'stale';
+    default:
+      return 'conflict';
+  }
+}
+
+/**
+ * Compare-and-set a push against a user's stored records. `current` maps record
+ * ids to the stored copies and is updated in place, so a record pushed twice in
+ * one batch is compared with its first copy. Accepted records are numbered after
+ * `lastVersion` in the user's version sequence. Stores call this while holding
+ * the user's records, so two pushes never both replace the same copy.
+ */
+function applySyncPush(current, pushed, lastVersion) {
+  const results = [];
+  const saved = new Map();
+  let version = lastVersion;
+
+  for (const record of pushed) {
+    const existing = current.get(record.id) || null;
+    const status = getPushStatus(existing, record);
+    if (status !== 'accepted') {
+      results.push({ id: record.id, status, record: existing });
+      continue;
+    }
+
+    version += 1;
+    const stored = { ...record, serverVersion: version, updatedAt: new Date().toISOString() };
+    current.set(record.id, stored);
+    saved.set(record.id, stored);
+    results.push({ id: record.id, status, record: stored });
+  }
+
+  return { results, saved: [...saved.values()], cursor: version };
+}
+
+module.exports = {
+  SYNC_RECORD_TYPES,
+  MAX_SYNC_RECORDS_PER_PUSH,
+  applySyncPush,
+  compareVersionVectors,
+  parseSyncRecord,
+  getPushStatus,
+};
@@ -0,0 +1,39 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { parseAnalyticsBatch } = require('../src/analytics');
+
+const event = (overrides = {}) => ({
+  id: 'event_1',
+  name: 'product_swipe',
+  timestamp: '2024-01-01T10:00:00.000Z',
+  sessionId: 'session_1',
+  properties: { product_id: '1' },
+  ...overrides,
+});
+
+test('parseAnalyticsBatch stamps events with the schema version', () => {
+  const parsed = parseAnalyticsBatch({ schemaVersion: 1, events: [event({ userId: 'user-1' })] });
+
+  assert.equal(parsed.events.length, 1);
+  assert.equal(parsed.events[0].schemaVersion, 1);
+  assert.equal(parsed.events[0].userId, 'user-1');
+  assert.equal(parsed.events[0].undone, false);
+  assert.ok(parsed.events[0].receivedAt);
+});
+
+test('parseAnalyticsBatch rejects unknown schema versions and malformed events', () => {
+  assert.equal(parseAnalyticsBatch({ schemaVersion: 2, events: [event()] }).error, 'Unsupported schemaVersion: 2');
+  assert.equal(parseAnalyticsBatch({ schemaVersion: 1, events: [] }).error, 'events must be a non-empty array');
+  assert.equal(
+    parseAnalyticsBatch({ schemaVersion: 1, events: [event({ timestamp: 'yesterday' })] }).error,
+    'Event event_1 has an invalid timestamp'
+  );
+  assert.equal(
+    parseAnalyticsBatch({ schemaVersion: 1, events: [event({ properties: ['a'] })] }).error,
+    'Event event_1 properties must be an object'
+  );
+  assert.equal(
+    parseAnalyticsBatch({ schemaVersion: 1, events: Array.from({ length: 501 }, (_, i) => event({ id: `e${i}` })) }).error,
+    'A batch can contain at most 500 events'
+  );
+});
@@ -0,0 +1,86 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { groupCrashReports, parseCrashBatch, symbolicateCrashReport } = require('../src/crashes');
+const { parseSourceMap } = require('../src/sourceMaps');
+
+const createReport = overrides => ({
+  id: 'crash_1',
+  fingerprint: 'abc123',
+  timestamp: '2024-01-01T10:00:00.000Z',
+  error: { type: 'UNKNOWN_ERROR', message: 'undefined is not a function', severity: 'critical' },
+  stackTrace: 'TypeError: undefined is not a function\n    at render (index.bundle:1:2345)',
+  breadcrumbs: [{ category: 'navigation', message: 'Navigated to Cart', level: 'info' }],
+  state: { cart: { items: 2 } },
+  appInfo: { version: '1.2.0', buildNumber: '42', environment: 'production' },
+  deviceInfo: { platform: 'ios' },
+  isFatal: true,
+  ...overrides,
+});
+
+test('parseCrashBatch stores the fingerprint as the group key', () => {
+  const parsed = parseCrashBatch({ reports: [createReport({ occurrences: 3 })] });
+  const [report] = parsed.reports;
+
+  assert.equal(report.groupKey, 'abc123');
+  assert.equal(report.occurrences, 3);
+  assert.equal(report.lastOccurredAt, '2024-01-01T10:00:00.000Z');
+  assert.deepEqual(report.state, { cart: { items: 2 } });
+  assert.ok(report.receivedAt);
+});
+
+test('parseCrashBatch rejects reports the backend cannot triage one by one', () => {
+  const rejectedBy = overrides => parseCrashBatch({ reports: [createReport(overrides)] }).rejected;
+
+  assert.equal(parseCrashBatch({ reports: [] }).error, 'reports must be a non-empty array');
+  assert.deepEqual(rejectedBy({ fingerprint: '' }), [
+    { id: 'crash_1', error: 'Report crash_1 is missing a fingerprint' },
+  ]);
+  assert.deepEqual(rejectedBy({ appInfo: { version: '1.2.0' } }), [
+    { id: 'crash_1', error: 'Report crash_1 needs appInfo with a version and buildNumber' },
+  ]);
+  assert.deepEqual(rejectedBy({ timestamp: 'yesterday' }), [
+    { id: 'crash_1', error: 'Report crash_1 has an invalid timestamp' },
+  ]);
+  assert.equal(
+    parseCrashBatch({ reports: Array.from({ length: 21 }, (_, i) => createReport({ id: `crash_${i}` })) }).error,
+    'A batch can contain at most 20 reports'
+  );
+
+  const mixed = parseCrashBatch({ reports: [createReport(), createReport({ id: 'crash_2', error: {} }), null] });
+  assert.deepEqual(mixed.reports.map(report => report.id), ['crash_1']);
+  assert.deepEqual(mixed.rejected, [
+    { id: 'crash_2', error: 'Report crash_2 needs an error type and message' },
+    { id: null, error: 'Each report must be an object' },
+  ]);
+});
+
+test('groupCrashReports counts occurrences and keeps the latest report', () => {
+  const { reports } = parseCrashBatch({
+    reports: [
+      createReport({ id: 'crash_1', occurrences: 2 }),
+      createReport({ id: 'crash_2', timestamp: '2024-01-03T10:00:00.000Z' }),
+      createReport({ id: 'crash_3', fingerprint: 'def456', timestamp: '2024-01-02T10:00:00.000Z' }),
+    ],
+  });
+
+  const groups = groupCrashReports(reports, 10);
+  assert.deepEqual(
+    groups.map(group => [group.groupKey, group.reports, group.occurrences, group.latest.id]),
+    [
+      ['abc123', 2, 3, 'crash_2'],
+      ['def456', 1, 1, 'crash_3'],
+    ]
+  );
+  assert.equal(groups[0].firstSeenAt, '2024-01-01T10:00:00.000Z');
+});
+
+test('symbolicateCrashReport keeps the fingerprint when no frame maps', () => {
+  const stackTrace = 'TypeError: undefined is not a function\n    at render (index.bundle:3:10)';
+  const [report] = parseCrashBatch({ reports: [createReport({ stackTrace })] }).reports;
+  const sourceMap = parseSourceMap({ version: 3, sources: ['src/App.tsx'], names: [], mappings: 'AAAA' });
+
+  const symbolicated = symbolicateCrashReport(report, sourceMap);
+
+  assert.equal(symbolicated.groupKey, 'abc123');
+  assert.equal(symbolicated.symbolicatedFrames[0].symbolicated, false);
+});
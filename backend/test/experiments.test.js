@@ -0,0 +1,150 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const fs = require('node:fs');
+const os = require('node:os');
+const path = require('node:path');
+const {
+  DEFAULT_EXPERIMENTS_CONFIG,
+  getExperimentsConfigETag,
+  loadExperimentsConfig,
+  summarizeExperimentEvents,
+  validateExperimentsConfig,
+} = require('../src/experiments');
+
+const createExperiment = overrides => ({
+  id: 'checkout_v1',
+  name: 'Checkout',
+  variants: [
+    { id: 'control', allocation: 50, isControl: true, config: {} },
+    { id: 'express', allocation: 50, isControl: false, config: {} },
+  ],
+  trafficAllocation: 100,
+  startDate: '2024-01-01T00:00:00.000Z',
+  status: 'active',
+  ...overrides,
+});
+
+const validate = (experiments, flags = {}) => validateExperimentsConfig({ version: 1, experiments, flags });
+
+test('the default config is valid', () => {
+  assert.equal(validateExperimentsConfig(DEFAULT_EXPERIMENTS_CONFIG), null);
+});
+
+test('validateExperimentsConfig rejects experiments the app could not run', () => {
+  assert.equal(validate([createExperiment()]), null);
+  assert.equal(
+    validate([createExperiment({ variants: [{ id: 'control', allocation: 100, isControl: true }] })]),
+    'Experiment checkout_v1 must have at least 2 variants'
+  );
+  assert.equal(
+    validate([
+      createExperiment({
+        variants: [
+          { id: 'control', allocation: 50, isControl: true },
+          { id: 'express', allocation: 40, isControl: false },
+        ],
+      }),
+    ]),
+    'Experiment checkout_v1 variant allocations must sum to 100'
+  );
+  assert.equal(
+    validate([createExperiment(), createExperiment()]),
+    'Experiment checkout_v1 is listed twice'
+  );
+  assert.equal(
+    validate([createExperiment({ status: 'running' })]),
+    'Experiment checkout_v1 status must be one of draft, active, paused, completed'
+  );
+  assert.equal(validate([createExperiment({ sampleSize: 500, primaryMetric: 'purchase' })]), null);
+  assert.equal(
+    validate([createExperiment({ sampleSize: 0, primaryMetric: 'purchase' })]),
+    'Experiment checkout_v1 sampleSize must be a positive integer'
+  );
+  assert.equal(
+    validate([createExperiment({ sampleSize: 500 })]),
+    'Experiment checkout_v1 needs a primaryMetric to be evaluated at its sampleSize'
+  );
+});
+
+test('validateExperimentsConfig checks audiences and flags', () => {
+  assert.equal(
+    validate([createExperiment({ targetAudience: { platforms: ['ios'], countries: ['US'], minAppVersion: '1.2.0' } })]),
+    null
+  );
+  assert.equal(
+    validate([createExperiment({ targetAudience: { platforms: ['symbian'] } })]),
+    'Experiment checkout_v1 platforms must be a list of ios, android, web'
+  );
+  assert.equal(
+    validate([createExperiment({ targetAudience: { countries: ['usa'] } })]),
+    'Experiment checkout_v1 countries must be ISO 3166 alpha-2 codes'
+  );
+  assert.equal(
+    validate([], { new_checkout: { enabled: true, targetAudience: { maxAppVersion: 'latest' } } }),
+    'Flag new_checkout maxAppVersion must look like 1.2.3'
+  );
+  assert.equal(
+    validate([], { new_checkout: { enabled: true, rolloutPercentage: 120 } }),
+    'Flag new_checkout rolloutPercentage must be between 0 and 100'
+  );
+  assert.equal(validate([], { new_checkout: { enabled: 'yes' } }), 'Flag new_checkout needs an enabled boolean');
+});
+
+test('getExperimentsConfigETag changes only when the document changes', () => {
+  const config = { version: 1, experiments: [createExperiment()], flags: {} };
+  const etag = getExperimentsConfigETag(config);
+
+  assert.equal(getExperimentsConfigETag(structuredClone(config)), etag);
+  assert.notEqual(getExperimentsConfigETag({ ...config, version: 2 }), etag);
+});
+
+test('loadExperimentsConfig reads and validates a file', () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'experiments-'));
+  const validPath = path.join(dir, 'valid.json');
+  const invalidPath = path.join(dir, 'invalid.json');
+  fs.writeFileSync(validPath, JSON.stringify({ version: 2, experiments: [createExperiment()], flags: {} }));
+  fs.writeFileSync(invalidPath, JSON.stringify({ version: 2, experiments: {}, flags: {} }));
+
+  try {
+    assert.equal(loadExperimentsConfig(validPath).version, 2);
+    assert.throws(() => loadExperimentsConfig(invalidPath), /experiments must be an array/);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test('summarizeExperimentEvents counts users up to the horizon in each variant', () => {
+  let second = 0;
+  const event = (name, userId, variantId, properties = {}) => ({
+    name,
+    timestamp: new Date(Date.UTC(2024, 0, 1, 0, 0, second++)).toISOString(),
+    undone: false,
+    properties: { test_id: 'checkout_v1', user_id: userId, variant_id: variantId, ...properties },
+  });
+  const exposure = (userId, variantId) => event('ab_test_exposure', userId, variantId);
+  const conversion = (userId, variantId, metric = 'purchase') =>
+    event('ab_test_conversion', userId, variantId, { metric });
+
+  const events = [
+    exposure('u1', 'control'),
+    exposure('u2', 'express'),
+    exposure('u1', 'control'),
+    conversion('u1', 'control'),
+    conversion('u1', 'control'),
+    exposure('u3', 'express'),
+    conversion('u3', 'express'),
+    conversion('u2', 'express', 'add_to_cart'),
+    exposure('u4', 'express'),
+    conversion('u4', 'express'),
+  ];
+
+  assert.deepEqual(summarizeExperimentEvents(events, { metric: 'purchase', horizon: null }), [
+    { variantId: 'control', exposures: 1, conversions: 1 },
+    { variantId: 'express', exposures: 3, conversions: 2 },
+  ]);
+  // u4 is the third user exposed to express, past the horizon
+  assert.deepEqual(summarizeExperimentEvents(events.reverse(), { metric: 'purchase', horizon: 2 }), [
+    { variantId: 'control', exposures: 1, conversions: 1 },
+    { variantId: 'express', exposures: 2, conversions: 1 },
+  ]);
+});
@@ -0,0 +1,316 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const fs = require('node:fs');
+const os = require('node:os');
+const path = require('node:path');
+const {
+  FilePaymentStore,
+  InMemoryPaymentStore,
+  SqlitePaymentStore,
+} = require('../src/paymentStore');
+
+const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'swipely-store-'));
+
+test.after(() => {
+  fs.rmSync(tempDir, { recursive: true, force: true });
+});
+
+const drivers = [
+  ['memory', () => new InMemoryPaymentStore()],
+  ['file', () => new FilePaymentStore(path.join(tempDir, 'payment-store.json'))],
+  ['sqlite', () => new SqlitePaymentStore(path.join(tempDir, 'payment-store.sqlite'))],
+];
+
+for (const [driver, createStore] of drivers) {
+  test(`${driver} store records refunds per order`, async () => {
+    const store = createStore();
+    await store.initialize();
+
+    try {
+      await store.addRefund('ORD-1', {
+        refundId: 're_1',
+        paymentIntentId: 'pi_1',
+        amountInCents: 1200,
+        status: 'succeeded',
+        reason: 'requested_by_customer',
+        items: [{ productId: 'p1', quantity: 1 }],
+      });
+      await store.addRefund('ORD-1', {
+        refundId: 're_2',
+        paymentIntentId: 'pi_1',
+        amountInCents: 300,
+        status: 'pending',
+      });
+
+      const refunds = await store.getRefunds('ORD-1');
+      assert.deepEqual(
+        refunds.map(refund => [refund.refundId, refund.amountInCents, refund.status]),
+        [
+          ['re_1', 1200, 'succeeded'],
+          ['re_2', 300, 'pending'],
+        ]
+      );
+      assert.deepEqual(refunds[0].items, [{ productId: 'p1', quantity: 1 }]);
+      assert.deepEqual(refunds[1].items, []);
+      assert.deepEqual(await store.getRefunds('ORD-2'), []);
+    } finally {
+      await store.close();
+    }
+  });
+}
+
+for (const [driver, createStore] of drivers) {
+  test(`${driver} store saves and lists orders`, async () => {
+    const store = createStore();
+    await store.initialize();
+
+    const order = (orderId, userId, createdAt, status = 'completed') => ({
+      orderId,
+      userId,
+      status,
+      total: 49.99,
+      items: [{ productId: 'p1', quantity: 1, price: 40 }],
+      createdAt,
+    });
+
+    try {
+      await store.saveOrder(order('ORD-A', 'user-1', '2024-01-01T00:00:00.000Z'));
+      await store.saveOrder(order('ORD-B', 'user-1', '2024-02-01T00:00:00.000Z'));
+      await store.saveOrder(order('ORD-C', 'user-2', '2024-03-01T00:00:00.000Z'));
+      await store.saveOrder(order('ORD-A', 'user-1', '2024-01-01T00:00:00.000Z', 'shipped'));
+
+      assert.equal((await store.getOrder('ORD-A')).status, 'shipped');
+      assert.deepEqual((await store.getOrder('ORD-A')).items, [{ productId: 'p1', quantity: 1, price: 40 }]);
+      assert.equal(await store.getOrder('ORD-MISSING'), null);
+
+      const { orders, total } = await store.listOrders('user-1', { limit: 1, offset: 0 });
+      assert.equal(total, 2);
+      assert.deepEqual(orders.map(item => item.orderId), ['ORD-B']);
+    } finally {
+      await store.close();
+    }
+  });
+}
+
+for (const [driver, createStore] of drivers) {
+  test(`${driver} store versions sync records per user`, async () => {
+    const store = createStore();
+    await store.initialize();
+
+    const record = (id, versionVector) => ({
+      id,
+      type: 'cart_items',
+      data: { items: [] },
+      deviceId: 'phone',
+      versionVector,
+    });
+
+    try {
+      await store.pushSyncRecords('user-1', [
+        record('cart_items_user-1', { phone: 1 }),
+        record('wishlist_items_user-1', { phone: 1 }),
+      ]);
+      await store.pushSyncRecords('user-2', [record('cart_items_user-2', { phone: 1 })]);
+      const pushed = await store.pushSyncRecords('user-1', [record('cart_items_user-1', { phone: 2 })]);
+
+      assert.equal(pushed.cursor, 3);
+      assert.equal(pushed.results[0].status, 'accepted');
+      assert.equal(pushed.results[0].record.serverVersion, 3);
+      assert.deepEqual((await store.getSyncRecord('user-1', 'cart_items_user-1')).versionVector, { phone: 2 });
+      assert.equal(await store.getSyncRecord('user-2', 'cart_items_user-1'), null);
+
+      const { records, cursor } = await store.listSyncRecords('user-1', { since: 1 });
+      assert.equal(cursor, 3);
+      assert.deepEqual(
+        records.map(item => [item.id, item.serverVersion]),
+        [
+          ['wishlist_items_user-1', 2],
+          ['cart_items_user-1', 3],
+        ]
+      );
+    } finally {
+      await store.close();
+    }
+  });
+}
+
+for (const [driver, createStore] of drivers) {
+  test(`${driver} store accepts only one of two concurrent pushes from the same copy`, async () => {
+    const store = createStore();
+    await store.initialize();
+
+    const record = versionVector => ({
+      id: 'cart_items_user-3',
+      type: 'cart_items',
+      data: { items: [] },
+      deviceId: Object.keys(versionVector)[0],
+      versionVector,
+    });
+
+    try {
+      const [phone, tablet] = await Promise.all([
+        store.pushSyncRecords('user-3', [record({ phone: 1 })]),
+        store.pushSyncRecords('user-3', [record({ tablet: 1 })]),
+      ]);
+
+      assert.deepEqual(
+        [phone.results[0].status, tablet.results[0].status].sort(),
+        ['accepted', 'conflict']
+      );
+      assert.equal(Math.max(phone.cursor, tablet.cursor), 1);
+      const { records } = await store.listSyncRecords('user-3');
+      assert.equal(records.length, 1);
+    } finally {
+      await store.close();
+    }
+  });
+}
+
+for (const [driver, createStore] of drivers) {
+  test(`${driver} store saves and finds share links`, async () => {
+    const store = createStore();
+    await store.initialize();
+
+    try {
+      await store.saveShareLink({
+        token: `token-${driver}`,
+        ownerId: 'user-1',
+        title: 'Gift ideas',
+        productIds: ['1', '2'],
+        createdAt: '2024-01-01T00:00:00.000Z',
+      });
+
+      const link = await store.getShareLink(`token-${driver}`);
+      assert.equal(link.title, 'Gift ideas');
+      assert.deepEqual(link.productIds, ['1', '2']);
+      assert.equal(await store.getShareLink('missing'), null);
+    } finally {
+      await store.close();
+    }
+  });
+}
+
+for (const [driver, createStore] of drivers) {
+  test(`${driver} store saves analytics events once per id`, async () => {
+    const store = createStore();
+    await store.initialize();
+
+    const event = (id, timestamp) => ({
+      id: `${driver}-${id}`,
+      name: 'swipe_like',
+      timestamp,
+      sessionId: 'session-1',
+      userId: null,
+      properties: { product_id: '1' },
+      undone: false,
+      schemaVersion: 1,
+      receivedAt: '2024-01-01T00:01:00.000Z',
+    });
+
+    try {
+      const first = event('a', '2024-01-01T00:00:00.000Z');
+      const second = event('b', '2024-01-01T00:00:30.000Z');
+      assert.equal(await store.saveAnalyticsEvents([first, second]), 2);
+      assert.equal(await store.saveAnalyticsEvents([second]), 0);
+
+      const events = await store.listAnalyticsEvents({ limit: 10 });
+      assert.deepEqual(events.map(stored => stored.id), [second.id, first.id]);
+      assert.deepEqual(events[1].properties, { product_id: '1' });
+
+      const exposure = {
+        ...event('c', '2024-01-01T00:01:00.000Z'),
+        name: 'ab_test_exposure',
+        properties: { test_id: `${driver}-test`, variant_id: 'control', user_id: 'user-1' },
+      };
+      const otherTest = {
+        ...exposure,
+        id: `${driver}-d`,
+        properties: { ...exposure.properties, test_id: 'other-test' },
+      };
+      await store.saveAnalyticsEvents([exposure, otherTest]);
+      const experimentEvents = await store.listExperimentEvents(`${driver}-test`);
+      assert.deepEqual(experimentEvents.map(stored => stored.id), [exposure.id]);
+    } finally {
+      await store.close();
+    }
+  });
+}
+
+for (const [driver, createStore] of drivers) {
+  test(`${driver} store groups crash reports by group key`, async () => {
+    const store = createStore();
+    await store.initialize();
+
+    const report = (id, groupKey, timestamp, occurrences = 1) => ({
+      id: `${driver}-${id}`,
+      fingerprint: groupKey,
+      groupKey: `${driver}-${groupKey}`,
+      timestamp,
+      lastOccurredAt: timestamp,
+      occurrences,
+      isFatal: true,
+      error: { type: 'UNKNOWN_ERROR', message: `Crash ${id}` },
+      stackTrace: null,
+      breadcrumbs: [],
+      state: null,
+      appInfo: { version: '1.0.0', buildNumber: '1', environment: 'production' },
+      deviceInfo: {},
+      userId: null,
+      receivedAt: '2024-01-02T00:00:00.000Z',
+    });
+
+    try {
+      const reports = [
+        report('a', 'render', '2024-01-01T00:00:00.000Z', 3),
+        report('b', 'render', '2024-01-01T02:00:00.000Z'),
+        report('c', 'checkout', '2024-01-01T01:00:00.000Z'),
+      ];
+      assert.equal(await store.saveCrashReports(reports), 3);
+      assert.equal(await store.saveCrashReports([reports[0]]), 0);
+
+      const groups = await store.listCrashGroups({ limit: 10 });
+      assert.deepEqual(
+        groups.map(group => [group.groupKey, group.reports, group.occurrences]),
+        [
+          [`${driver}-render`, 2, 4],
+          [`${driver}-checkout`, 1, 1],
+        ]
+      );
+      assert.equal(groups[0].firstSeenAt, '2024-01-01T00:00:00.000Z');
+      assert.equal(groups[0].lastSeenAt, '2024-01-01T02:00:00.000Z');
+      assert.equal(groups[0].latest.error.message, 'Crash b');
+    } finally {
+      await store.close();
+    }
+  });
+}
+
+for (const [driver, createStore] of drivers) {
+  test(`${driver} store keeps one source map per app version and build`, async () => {
+    const store = createStore();
+    await store.initialize();
+
+    const sourceMap = file => ({ version: 3, file, sources: ['src/App.tsx'], names: [], mappings: 'AAAA' });
+
+    try {
+      await store.saveSourceMap('1.2.0', '42', sourceMap('first.js'));
+      await store.saveSourceMap('1.2.0', '42', sourceMap('second.js'));
+
+      assert.deepEqual(await store.getSourceMap('1.2.0', '42'), sourceMap('second.js'));
+      assert.equal(await store.getSourceMap('1.2.0', '43'), null);
+    } finally {
+      await store.close();
+    }
+  });
+}
+
+test('file store keeps refunds across reloads', async () => {
+  const filePath = path.join(tempDir, 'reload.json');
+  const first = new FilePaymentStore(filePath);
+  await first.initialize();
+  await first.addRefund('ORD-1', { refundId: 're_1', amountInCents: 500, status: 'succeeded' });
+
+  const second = new FilePaymentStore(filePath);
+  await second.initialize();
+  assert.equal((await second.getRefunds('ORD-1'))[0].refundId, 're_1');
+});
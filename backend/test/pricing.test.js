@@ -0,0 +1,67 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { calculateTotals, getShippingOptions, parsePricedItems, defaultPricingRules } = require('../src/pricing');
+
+const nycAddress = { street: '1 Main St', city: 'New York', state: 'NY', postalCode: '10001', country: 'US' };
+
+const items = [
+  { productId: 'prod-2', price: 89.99, quantity: 1, categoryId: 'fashion' },
+  { productId: 'prod-5', price: 24.99, quantity: 2, categoryId: 'food', weightKg: 1 },
+];
+
+test('calculateTotals applies the most specific tax rule and its exemptions', () => {
+  const totals = calculateTotals({ items, shippingAddress: nycAddress });
+
+  assert.equal(totals.subtotal, 139.97);
+  assert.equal(totals.tax, 4.44);
+  assert.equal(totals.shipping, 0);
+  assert.equal(totals.total, 144.41);
+  assert.equal(totals.breakdown.taxRuleId, 'us-ny-nyc');
+  assert.equal(totals.breakdown.exemptSubtotal, 89.99);
+  assert.equal(totals.breakdown.freeShippingApplied, true);
+});
+
+test('calculateTotals prices express shipping by weight', () => {
+  const totals = calculateTotals({ items, shippingAddress: nycAddress, shippingMethod: 'express' });
+
+  assert.equal(totals.breakdown.shippingWeightKg, 2.5);
+  assert.equal(totals.shipping, 29.99);
+  assert.equal(totals.total, 174.4);
+});
+
+test('calculateTotals falls back to the default rate without a matching rule', () => {
+  const totals = calculateTotals({
+    items: [{ productId: 'p1', price: 40, quantity: 1 }],
+    shippingAddress: { ...nycAddress, country: 'BR' },
+  });
+
+  assert.equal(totals.breakdown.taxRuleId, null);
+  assert.equal(totals.tax, 3.2);
+  assert.equal(totals.shipping, 9.99);
+});
+
+test('getShippingOptions lists every method', () => {
+  const options = getShippingOptions(defaultPricingRules.shipping, [
+    { productId: 'p1', price: 30, quantity: 1 },
+  ]);
+
+  assert.deepEqual(
+    options.map(option => [option.method, option.cost]),
+    [
+      ['standard', 9.99],
+      ['express', 14.99],
+    ]
+  );
+});
+
+test('parsePricedItems rejects lines that cannot be priced', () => {
+  assert.equal(parsePricedItems([]).error, 'items must be a non-empty array');
+  assert.equal(
+    parsePricedItems([{ productId: 'p1', price: 'abc', quantity: 1 }]).error,
+    'Invalid price for p1'
+  );
+  assert.equal(
+    parsePricedItems([{ productId: 'p1', price: 10, quantity: 1.5 }]).error,
+    'Invalid quantity for p1'
+  );
+});
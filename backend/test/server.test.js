@@ -1,10 +1,14 @@
 const test = require('node:test');
 const assert = require('node:assert/strict');
+const fs = require('node:fs');
+const path = require('node:path');
 const request = require('supertest');
 const { createApp } = require('../src/app');
+const { InMemoryPaymentStore } = require('../src/paymentStore');
 
 const originalConsoleLog = console.log;
 const originalConsoleError = console.error;
+const originalConsoleWarn = console.warn;
 
 function createStripeMock(overrides = {}) {
   return {
@@ -22,6 +26,10 @@ function createStripeMock(overrides = {}) {
       retrieve: async id => ({ id, status: 'requires_payment_method' }),
       ...(overrides.paymentIntents || {}),
     },
+    refunds: {
+      create: async params => ({ id: 're_123', status: 'succeeded', amount: params.amount }),
+      ...(overrides.refunds || {}),
+    },
     webhooks: {
       constructEvent: () => ({
         type: 'payment_intent.succeeded',
@@ -42,11 +50,13 @@ function createFetchResponse(body, ok = true, status = 200) {
 
 test.beforeEach(() => {
   console.log = () => {};
+  console.warn = () => {};
   console.error = () => {};
 });
 
 test.afterEach(() => {
   console.log = originalConsoleLog;
+  console.warn = originalConsoleWarn;
   console.error = originalConsoleError;
 });
 
@@ -160,6 +170,49 @@ test('POST /products applies category filtering to DummyJSON proxy results', asy
   assert.equal(response.status, 200);
   assert.equal(response.body.products.length, 1);
   assert.equal(response.body.products[0].category.id, 'beauty');
+
+  // Half-open like search: a $20 product is not under $10 - $20
+  const priced = await request(app).post('/products').send({
+    pagination: { page: 1, limit: 10 },
+    filters: { priceRange: { min: 10, max: 20 } },
+  });
+  assert.deepEqual(priced.body.products.map(product => product.id), ['1']);
+});
+
+test('POST /products/search filters matches and counts facets over all of them', async () => {
+  const fetchMock = async url => {
+    assert.match(url, /\/products\/search\?q=lamp&limit=100$/);
+    return createFetchResponse({
+      total: 3,
+      products: [
+        { id: 1, title: 'Desk Lamp', category: 'home-decoration', price: 50, brand: 'Acme', stock: 3 },
+        { id: 2, title: 'Mini Lamp', category: 'home-decoration', price: 20, brand: 'Acme', stock: 3 },
+        { id: 3, title: 'Floor Lamp', category: 'furniture', price: 300, brand: 'Zeta', stock: 0 },
+      ],
+    });
+  };
+  const app = createApp({ stripe: createStripeMock(), fetchImpl: fetchMock });
+
+  const response = await request(app).post('/products/search').send({
+    query: 'lamp',
+    pagination: { page: 1, limit: 10 },
+    filters: { priceRange: { min: 50, max: 100 } },
+  });
+
+  assert.equal(response.status, 200);
+  assert.deepEqual(response.body.products.map(product => product.id), ['1']);
+  assert.equal(response.body.pagination.total, 1);
+  assert.deepEqual(
+    response.body.facets.priceBuckets.map(bucket => [bucket.value, bucket.count]),
+    [['0-25', 1], ['50-100', 1], ['250-500', 1]]
+  );
+  assert.deepEqual(
+    response.body.facets.brands.map(brand => [brand.value, brand.count]),
+    [['Acme', 2], ['Zeta', 1]]
+  );
+
+  const missingQuery = await request(app).post('/products/search').send({ query: ' ' });
+  assert.equal(missingQuery.status, 400);
 });
 
 test('POST /feed/refresh returns first page feed through proxy', async () => {
@@ -201,6 +254,30 @@ test('POST /swipe-actions validates required fields', async () => {
   assert.equal(response.body.error, 'productId, action, and userId are required');
 });
 
+test('POST /swipe-actions/undo validates required fields', async () => {
+  const app = createApp({ stripe: createStripeMock() });
+  const response = await request(app).post('/swipe-actions/undo').send({
+    productId: '1',
+    userId: 'user-1',
+  });
+
+  assert.equal(response.status, 400);
+  assert.equal(response.body.error, 'productId, action, and userId are required');
+});
+
+test('POST /swipe-actions/undo acknowledges the undo', async () => {
+  const app = createApp({ stripe: createStripeMock() });
+  const response = await request(app).post('/swipe-actions/undo').send({
+    productId: '1',
+    action: 'like',
+    userId: 'user-1',
+    timestamp: '2024-01-01T00:00:00.000Z',
+  });
+
+  assert.equal(response.status, 200);
+  assert.deepEqual(response.body, { success: true, message: 'like action undone successfully' });
+});
+
 test('POST /payments/create-payment-sheet validates required orderId', async () => {
   const app = createApp({ stripe: createStripeMock() });
   const response = await request(app).post('/payments/create-payment-sheet').send({
@@ -261,6 +338,109 @@ test('POST /payments/create-payment-sheet creates customer and payment intent',
   assert.deepEqual(capturedPaymentIntentOptions, { idempotencyKey: 'order:ORD-2' });
 });
 
+test('POST /payments/create-payment-sheet records line items and variants in metadata', async () => {
+  let capturedPaymentIntentInput = null;
+  const stripe = createStripeMock({
+    paymentIntents: {
+      create: async input => {
+        capturedPaymentIntentInput = input;
+        return { id: 'pi_items', client_secret: 'pi_items_secret' };
+      },
+    },
+  });
+  const app = createApp({ stripe });
+
+  const response = await request(app).post('/payments/create-payment-sheet').send({
+    orderId: 'ORD-ITEMS',
+    amountInCents: 12997,
+    items: [
+      { productId: 'prod-5', variantId: 'prod-5-10-black', variant: 'Size: 10 · Color: Black', quantity: 2 },
+      { productId: 'prod-1', quantity: 1 },
+      { quantity: 3 },
+    ],
+  });
+
+  assert.equal(response.status, 200);
+  assert.deepEqual(capturedPaymentIntentInput.metadata, {
+    orderId: 'ORD-ITEMS',
+    itemCount: '2',
+    items: 'prod-5/prod-5-10-blackx2,prod-1x1',
+    variants: 'prod-5: Size: 10 · Color: Black',
+  });
+});
+
+test('POST /payments/create-payment-sheet truncates long line item metadata', async () => {
+  let capturedPaymentIntentInput = null;
+  const stripe = createStripeMock({
+    paymentIntents: {
+      create: async input => {
+        capturedPaymentIntentInput = input;
+        return { id: 'pi_many', client_secret: 'pi_many_secret' };
+      },
+    },
+  });
+  const app = createApp({ stripe });
+  const items = Array.from({ length: 80 }, (_, index) => ({
+    productId: `product-${index}`,
+    variantId: `product-${index}-large`,
+    quantity: 1,
+  }));
+
+  const response = await request(app).post('/payments/create-payment-sheet').send({
+    orderId: 'ORD-MANY',
+    amountInCents: 8000,
+    items,
+  });
+
+  assert.equal(response.status, 200);
+  assert.equal(capturedPaymentIntentInput.metadata.itemCount, '80');
+  assert.equal(capturedPaymentIntentInput.metadata.items.length, 500);
+  assert.ok(capturedPaymentIntentInput.metadata.items.endsWith('...'));
+});
+
+test('POST /payments/create-payment-sheet prices the order from items and address', async () => {
+  let capturedPaymentIntentInput = null;
+  const stripe = createStripeMock({
+    paymentIntents: {
+      create: async input => {
+        capturedPaymentIntentInput = input;
+        return { id: 'pi_priced', client_secret: 'pi_priced_secret' };
+      },
+    },
+  });
+  const app = createApp({ stripe });
+
+  const response = await request(app).post('/payments/create-payment-sheet').send({
+    orderId: 'ORD-PRICED',
+    items: [
+      { productId: 'prod-2', price: 89.99, quantity: 1, categoryId: 'fashion' },
+      { productId: 'prod-5', price: 24.99, quantity: 2, categoryId: 'food', weightKg: 1 },
+    ],
+    shippingAddress: { street: '1 Main St', city: 'New York', state: 'NY', postalCode: '10001', country: 'US' },
+    shippingMethod: 'standard',
+  });
+
+  assert.equal(response.status, 200);
+  assert.equal(capturedPaymentIntentInput.amount, 14441);
+  assert.equal(capturedPaymentIntentInput.metadata.shippingMethod, 'standard');
+  assert.equal(capturedPaymentIntentInput.metadata.taxRule, 'us-ny-nyc');
+});
+
+test('POST /payments/create-payment-sheet rejects an amount that does not match the rules', async () => {
+  const app = createApp({ stripe: createStripeMock() });
+
+  const response = await request(app).post('/payments/create-payment-sheet').send({
+    orderId: 'ORD-MISMATCH',
+    amountInCents: 4000,
+    items: [{ productId: 'p1', price: 40, quantity: 1, categoryId: 'electronics' }],
+    shippingAddress: { street: '1 Main St', city: 'Portland', state: 'OR', postalCode: '97201', country: 'US' },
+  });
+
+  assert.equal(response.status, 400);
+  assert.equal(response.body.error, 'amountInCents does not match the calculated total');
+  assert.equal(response.body.expectedAmountInCents, 4999);
+});
+
 test('GET /payments/status/:orderId returns latest mapped Stripe status', async () => {
   const stripe = createStripeMock({
     paymentIntents: {
@@ -474,3 +654,625 @@ test('POST /webhooks/stripe returns 400 when signature verification fails', asyn
   assert.equal(response.status, 400);
   assert.match(response.text, /Webhook Error: Invalid signature/);
 });
+
+async function createPaidOrder(app, orderId) {
+  const created = await request(app).post('/payments/create-payment-sheet').send({
+    orderId,
+    amountInCents: 5000,
+  });
+  assert.equal(created.status, 200);
+}
+
+function createRefundableStripeMock(refundCalls = []) {
+  return createStripeMock({
+    paymentIntents: {
+      create: async () => ({ id: 'pi_refund', client_secret: 'pi_secret' }),
+      retrieve: async () => ({ id: 'pi_refund', status: 'succeeded', amount: 5000, amount_received: 5000 }),
+    },
+    refunds: {
+      create: async (params, options) => {
+        refundCalls.push({ params, options });
+        return { id: `re_${refundCalls.length}`, status: 'succeeded', amount: params.amount };
+      },
+    },
+  });
+}
+
+test('POST /payments/refund issues partial refunds until the balance is used up', async () => {
+  const refundCalls = [];
+  const app = createApp({ stripe: createRefundableStripeMock(refundCalls) });
+  await createPaidOrder(app, 'ORD-REFUND-1');
+
+  const partial = await request(app).post('/payments/refund').send({
+    orderId: 'ORD-REFUND-1',
+    amountInCents: 1500,
+    reason: 'requested_by_customer',
+    items: [{ productId: 'p1', variantId: 'p1-m', quantity: 1 }],
+  });
+  assert.equal(partial.status, 200);
+  assert.equal(partial.body.paymentStatus, 'partially_refunded');
+  assert.equal(partial.body.refundableAmountInCents, 3500);
+  assert.equal(refundCalls[0].params.payment_intent, 'pi_refund');
+  assert.equal(refundCalls[0].params.metadata.items, 'p1/p1-mx1');
+  assert.equal(refundCalls[0].options.idempotencyKey, 'refund:ORD-REFUND-1:0');
+
+  const tooMuch = await request(app).post('/payments/refund').send({
+    orderId: 'ORD-REFUND-1',
+    amountInCents: 4000,
+  });
+  assert.equal(tooMuch.status, 400);
+  assert.equal(tooMuch.body.refundableAmountInCents, 3500);
+
+  const rest = await request(app).post('/payments/refund').send({ orderId: 'ORD-REFUND-1' });
+  assert.equal(rest.status, 200);
+  assert.equal(rest.body.amountInCents, 3500);
+  assert.equal(rest.body.paymentStatus, 'refunded');
+
+  const statusResponse = await request(app).get('/payments/status/ORD-REFUND-1');
+  assert.equal(statusResponse.body.status, 'refunded');
+
+  const refundsResponse = await request(app).get('/payments/refunds/ORD-REFUND-1');
+  assert.equal(refundsResponse.body.refunds.length, 2);
+  assert.equal(refundsResponse.body.refundedAmountInCents, 5000);
+  assert.deepEqual(refundsResponse.body.refunds[0].items, [
+    { productId: 'p1', variantId: 'p1-m', quantity: 1 },
+  ]);
+});
+
+test('POST /payments/refund rejects payments that have not succeeded', async () => {
+  const app = createApp({
+    stripe: createStripeMock({
+      paymentIntents: {
+        create: async () => ({ id: 'pi_unpaid', client_secret: 'pi_secret' }),
+        retrieve: async id => ({ id, status: 'requires_payment_method' }),
+      },
+    }),
+  });
+  await createPaidOrder(app, 'ORD-REFUND-2');
+
+  const response = await request(app).post('/payments/refund').send({ orderId: 'ORD-REFUND-2' });
+  assert.equal(response.status, 409);
+  assert.equal(response.body.error, 'Only succeeded payments can be refunded');
+});
+
+test('POST /payments/refund validates the request', async () => {
+  const app = createApp({ stripe: createRefundableStripeMock() });
+
+  const missingOrder = await request(app).post('/payments/refund').send({});
+  assert.equal(missingOrder.status, 400);
+
+  const unknownOrder = await request(app).post('/payments/refund').send({ orderId: 'ORD-NONE' });
+  assert.equal(unknownOrder.status, 404);
+
+  const badReason = await request(app)
+    .post('/payments/refund')
+    .send({ orderId: 'ORD-NONE', reason: 'changed_mind' });
+  assert.equal(badReason.status, 400);
+
+  const badItems = await request(app)
+    .post('/payments/refund')
+    .send({ orderId: 'ORD-NONE', items: [{ productId: 'p1', quantity: 0 }] });
+  assert.equal(badItems.status, 400);
+  assert.equal(badItems.body.error, 'Invalid refund quantity for p1');
+});
+
+function createOrderBody(overrides = {}) {
+  return {
+    orderId: 'ORD-100',
+    userId: 'user-1',
+    confirmationNumber: 'CONF-100',
+    items: [{ productId: 'p1', title: 'Headphones', price: 40, quantity: 1, imageUrl: '' }],
+    shippingAddress: { street: '1 Main St', city: 'Portland', state: 'OR', postalCode: '97201', country: 'US' },
+    subtotal: 40,
+    tax: 0,
+    shipping: 9.99,
+    total: 49.99,
+    status: 'completed',
+    createdAt: '2024-05-01T10:00:00.000Z',
+    estimatedDelivery: '2024-05-06T10:00:00.000Z',
+    ...overrides,
+  };
+}
+
+test('POST /orders stores an order and GET /orders/:orderId returns it', async () => {
+  const app = createApp({ stripe: createStripeMock() });
+
+  const created = await request(app).post('/orders').send(createOrderBody());
+  assert.equal(created.status, 201);
+  assert.equal(created.body.orderId, 'ORD-100');
+  assert.ok(created.body.updatedAt);
+
+  const updated = await request(app).post('/orders').send(createOrderBody({ status: 'cancelled' }));
+  assert.equal(updated.status, 200);
+
+  const fetched = await request(app).get('/orders/ORD-100?userId=user-1');
+  assert.equal(fetched.status, 200);
+  assert.equal(fetched.body.status, 'cancelled');
+  assert.equal(fetched.body.shippingAddress.city, 'Portland');
+
+  const otherUser = await request(app).get('/orders/ORD-100?userId=user-2');
+  assert.equal(otherUser.status, 404);
+
+  const missingUser = await request(app).get('/orders/ORD-100');
+  assert.equal(missingUser.status, 400);
+});
+
+test('POST /orders validates the order and its owner', async () => {
+  const app = createApp({ stripe: createStripeMock() });
+
+  const missingItems = await request(app).post('/orders').send(createOrderBody({ items: [] }));
+  assert.equal(missingItems.status, 400);
+  assert.equal(missingItems.body.error, 'items must be a non-empty array');
+
+  const badStatus = await request(app).post('/orders').send(createOrderBody({ status: 'lost' }));
+  assert.equal(badStatus.status, 400);
+
+  await request(app).post('/orders').send(createOrderBody());
+  const takeover = await request(app).post('/orders').send(createOrderBody({ userId: 'user-2' }));
+  assert.equal(takeover.status, 409);
+});
+
+test('GET /orders lists a user\'s orders newest first with paging', async () => {
+  const app = createApp({ stripe: createStripeMock() });
+  await request(app).post('/orders').send(createOrderBody({ orderId: 'ORD-1', createdAt: '2024-01-01T00:00:00.000Z' }));
+  await request(app).post('/orders').send(createOrderBody({ orderId: 'ORD-2', createdAt: '2024-03-01T00:00:00.000Z' }));
+  await request(app).post('/orders').send(createOrderBody({ orderId: 'ORD-3', createdAt: '2024-02-01T00:00:00.000Z' }));
+  await request(app).post('/orders').send(createOrderBody({ orderId: 'ORD-4', userId: 'user-2' }));
+
+  const firstPage = await request(app).get('/orders?userId=user-1&limit=2');
+  assert.equal(firstPage.status, 200);
+  assert.deepEqual(firstPage.body.orders.map(order => order.orderId), ['ORD-2', 'ORD-3']);
+  assert.equal(firstPage.body.total, 3);
+  assert.equal(firstPage.body.hasMore, true);
+
+  const secondPage = await request(app).get('/orders?userId=user-1&limit=2&offset=2');
+  assert.deepEqual(secondPage.body.orders.map(order => order.orderId), ['ORD-1']);
+  assert.equal(secondPage.body.hasMore, false);
+
+  const missingUser = await request(app).get('/orders');
+  assert.equal(missingUser.status, 400);
+});
+
+function createCartRecord(items, versionVector) {
+  return {
+    id: 'cart_items_user-1',
+    type: 'cart_items',
+    data: { items },
+    timestamp: Date.now(),
+    platform: 'ios',
+    version: 1,
+    versionVector,
+  };
+}
+
+test('POST /sync accepts newer versions and GET /sync pulls changes since a cursor', async () => {
+  const app = createApp({ stripe: createStripeMock() });
+
+  const first = await request(app)
+    .post('/sync')
+    .send({ userId: 'user-1', deviceId: 'phone', records: [createCartRecord([{ productId: 'p1', quantity: 1 }], { phone: 1 })] });
+  assert.equal(first.status, 200);
+  assert.equal(first.body.results[0].status, 'accepted');
+  assert.equal(first.body.results[0].record.deviceId, 'phone');
+  assert.equal(first.body.cursor, 1);
+
+  const tablet = await request(app)
+    .post('/sync')
+    .send({
+      userId: 'user-1',
+      deviceId: 'tablet',
+      records: [createCartRecord([{ productId: 'p1', quantity: 2 }], { phone: 1, tablet: 1 })],
+    });
+  assert.equal(tablet.body.results[0].status, 'accepted');
+  assert.equal(tablet.body.cursor, 2);
+
+  const pulled = await request(app).get('/sync?userId=user-1&since=1');
+  assert.equal(pulled.status, 200);
+  assert.equal(pulled.body.cursor, 2);
+  assert.deepEqual(pulled.body.records.map(record => record.versionVector), [{ phone: 1, tablet: 1 }]);
+  assert.deepEqual(pulled.body.records[0].data.items, [{ productId: 'p1', quantity: 2 }]);
+
+  const upToDate = await request(app).get('/sync?userId=user-1&since=2');
+  assert.deepEqual(upToDate.body.records, []);
+  assert.equal(upToDate.body.cursor, 2);
+
+  const otherUser = await request(app).get('/sync?userId=user-2');
+  assert.deepEqual(otherUser.body, { records: [], cursor: 0 });
+});
+
+test('POST /sync rejects stale and concurrent versions', async () => {
+  const app = createApp({ stripe: createStripeMock() });
+  await request(app)
+    .post('/sync')
+    .send({ userId: 'user-1', deviceId: 'phone', records: [createCartRecord([], { phone: 2 })] });
+
+  const stale = await request(app)
+    .post('/sync')
+    .send({ userId: 'user-1', deviceId: 'phone', records: [createCartRecord([], { phone: 1 })] });
+  assert.equal(stale.body.results[0].status, 'stale');
+  assert.deepEqual(stale.body.results[0].record.versionVector, { phone: 2 });
+
+  const retry = await request(app)
+    .post('/sync')
+    .send({ userId: 'user-1', deviceId: 'phone', records: [createCartRecord([], { phone: 2 })] });
+  assert.equal(retry.body.results[0].status, 'unchanged');
+
+  const concurrent = await request(app)
+    .post('/sync')
+    .send({ userId: 'user-1', deviceId: 'tablet', records: [createCartRecord([], { phone: 1, tablet: 1 })] });
+  assert.equal(concurrent.body.results[0].status, 'conflict');
+  assert.equal(concurrent.body.cursor, 1);
+
+  const pulled = await request(app).get('/sync?userId=user-1');
+  assert.deepEqual(pulled.body.records[0].versionVector, { phone: 2 });
+});
+
+test('POST /sync validates the push', async () => {
+  const app = createApp({ stripe: createStripeMock() });
+
+  const missingDevice = await request(app)
+    .post('/sync')
+    .send({ userId: 'user-1', records: [createCartRecord([], { phone: 1 })] });
+  assert.equal(missingDevice.status, 400);
+  assert.equal(missingDevice.body.error, 'deviceId is required');
+
+  const badType = await request(app)
+    .post('/sync')
+    .send({ userId: 'user-1', deviceId: 'phone', records: [{ ...createCartRecord([], { phone: 1 }), type: 'orders' }] });
+  assert.equal(badType.status, 400);
+
+  const missingVector = await request(app)
+    .post('/sync')
+    .send({ userId: 'user-1', deviceId: 'phone', records: [createCartRecord([], {})] });
+  assert.equal(missingVector.status, 400);
+  assert.equal(missingVector.body.error, 'Record cart_items_user-1 needs a versionVector');
+
+  const missingUser = await request(app).get('/sync');
+  assert.equal(missingUser.status, 400);
+});
+
+test('POST /wishlist/shares creates a link that GET /wishlist/shares/:token resolves to current products', async () => {
+  const requestedUrls = [];
+  const app = createApp({
+    stripe: createStripeMock(),
+    dummyJsonBaseUrl: 'https://dummy.test',
+    fetchImpl: async url => {
+      requestedUrls.push(url);
+      return url.endsWith('/products/2')
+        ? createFetchResponse({ message: 'Product not found' }, false, 404)
+        : createFetchResponse({ id: 1, title: 'Lamp', price: 30, category: 'home-decoration', stock: 4 });
+    },
+  });
+
+  const created = await request(app)
+    .post('/wishlist/shares')
+    .send({ userId: 'user-1', title: 'Home office', productIds: ['1', '2'] });
+  assert.equal(created.status, 201);
+  assert.equal(created.body.title, 'Home office');
+  assert.equal(created.body.ownerId, undefined);
+
+  const resolved = await request(app).get(`/wishlist/shares/${created.body.token}`);
+  assert.equal(resolved.status, 200);
+  assert.equal(resolved.body.title, 'Home office');
+  assert.deepEqual(resolved.body.products.map(product => [product.id, product.title]), [['1', 'Lamp']]);
+  assert.equal(resolved.body.unavailableCount, 1);
+  assert.deepEqual(requestedUrls, ['https://dummy.test/products/1', 'https://dummy.test/products/2']);
+});
+
+test('GET /wishlist/shares/:token still returns the products that load when one lookup fails', async () => {
+  const app = createApp({
+    stripe: createStripeMock(),
+    dummyJsonBaseUrl: 'https://dummy.test',
+    fetchImpl: async url =>
+      url.endsWith('/products/2')
+        ? createFetchResponse({ message: 'Service unavailable' }, false, 503)
+        : createFetchResponse({ id: 1, title: 'Lamp', price: 30, category: 'home-decoration', stock: 4 }),
+  });
+
+  const created = await request(app).post('/wishlist/shares').send({ productIds: ['1', '2'] });
+  const resolved = await request(app).get(`/wishlist/shares/${created.body.token}`);
+
+  assert.equal(resolved.status, 200);
+  assert.deepEqual(resolved.body.products.map(product => product.id), ['1']);
+  assert.equal(resolved.body.unavailableCount, 0);
+  assert.equal(resolved.body.failedCount, 1);
+});
+
+test('GET /wishlist/shares/:token returns 404 for unknown tokens and POST validates products', async () => {
+  const app = createApp({ stripe: createStripeMock() });
+
+  const unknown = await request(app).get('/wishlist/shares/AAAAAAAAAAAAAAAAAAAAAA');
+  assert.equal(unknown.status, 404);
+  assert.equal(unknown.body.error, 'Share link not found');
+
+  const empty = await request(app).post('/wishlist/shares').send({ productIds: [] });
+  assert.equal(empty.status, 400);
+});
+
+test('POST /analytics/events stores a batch once even when it is retried', async () => {
+  const app = createApp({ stripe: createStripeMock() });
+  const batch = {
+    schemaVersion: 1,
+    sentAt: '2024-01-01T10:00:05.000Z',
+    events: [
+      { id: 'event_1', name: 'swipe_like', timestamp: '2024-01-01T10:00:00.000Z', sessionId: 'session_1' },
+      { id: 'event_2', name: 'swipe_skip', timestamp: '2024-01-01T10:00:01.000Z', sessionId: 'session_1' },
+    ],
+  };
+
+  const first = await request(app).post('/analytics/events').send(batch);
+  assert.equal(first.status, 202);
+  assert.deepEqual(first.body, { accepted: 2, duplicates: 0 });
+
+  const retried = await request(app).post('/analytics/events').send(batch);
+  assert.deepEqual(retried.body, { accepted: 2, duplicates: 2 });
+
+  const invalid = await request(app).post('/analytics/events').send({ schemaVersion: 99, events: batch.events });
+  assert.equal(invalid.status, 400);
+  assert.equal(invalid.body.error, 'Unsupported schemaVersion: 99');
+});
+
+test('GET /experiments/:testId/results counts exposed and converted users from analytics', async () => {
+  const app = createApp({ stripe: createStripeMock() });
+  const event = (id, name, userId, variantId, extra = {}) => ({
+    id,
+    name,
+    timestamp: `2024-01-01T10:00:0${id.slice(-1)}.000Z`,
+    sessionId: 'session_1',
+    properties: { test_id: 'checkout_v1', user_id: userId, variant_id: variantId, ...extra },
+  });
+  await request(app)
+    .post('/analytics/events')
+    .send({
+      schemaVersion: 1,
+      sentAt: '2024-01-01T10:00:09.000Z',
+      events: [
+        event('event_1', 'ab_test_exposure', 'user_1', 'control'),
+        event('event_2', 'ab_test_exposure', 'user_2', 'express'),
+        event('event_3', 'ab_test_conversion', 'user_2', 'express', { metric: 'purchase' }),
+        event('event_4', 'ab_test_exposure', 'user_3', 'express'),
+      ],
+    });
+
+  const response = await request(app).get('/experiments/checkout_v1/results?metric=purchase&horizon=1');
+  assert.equal(response.status, 200);
+  assert.deepEqual(response.body, {
+    testId: 'checkout_v1',
+    metric: 'purchase',
+    horizon: 1,
+    variants: [
+      { variantId: 'control', exposures: 1, conversions: 0 },
+      { variantId: 'express', exposures: 1, conversions: 1 },
+    ],
+  });
+
+  const missingMetric = await request(app).get('/experiments/checkout_v1/results');
+  assert.equal(missingMetric.status, 400);
+  const badHorizon = await request(app).get('/experiments/checkout_v1/results?metric=purchase&horizon=0');
+  assert.equal(badHorizon.status, 400);
+});
+
+test('GET /config/experiments revalidates with the ETag', async () => {
+  const experimentsConfig = {
+    version: 3,
+    experiments: [],
+    flags: { new_checkout: { enabled: true, rolloutPercentage: 25 } },
+  };
+  const app = createApp({ stripe: createStripeMock(), experimentsConfig });
+
+  const first = await request(app).get('/config/experiments');
+  assert.equal(first.status, 200);
+  assert.deepEqual(first.body, experimentsConfig);
+  assert.equal(first.headers['cache-control'], 'no-cache');
+  assert.match(first.headers.etag, /^"[\w-]+"$/);
+
+  const revalidated = await request(app)
+    .get('/config/experiments')
+    .set('If-None-Match', first.headers.etag);
+  assert.equal(revalidated.status, 304);
+  assert.equal(revalidated.text, '');
+
+  const stale = await request(app).get('/config/experiments').set('If-None-Match', '"stale"');
+  assert.equal(stale.status, 200);
+
+  assert.throws(
+    () => createApp({ stripe: createStripeMock(), experimentsConfig: { version: 1, experiments: [] } }),
+    /Invalid experiments config: flags must be an object/
+  );
+});
+
+test('POST /crashes stores each report once and groups them for triage', async () => {
+  const app = createApp({ stripe: createStripeMock(), paymentApiKey: 'internal-key' });
+  const report = {
+    id: 'crash_1',
+    fingerprint: 'abc123',
+    timestamp: '2024-01-01T10:00:00.000Z',
+    occurrences: 2,
+    isFatal: true,
+    error: { type: 'UNKNOWN_ERROR', message: 'undefined is not a function' },
+    stackTrace: 'TypeError: undefined is not a function',
+    breadcrumbs: [],
+    appInfo: { version: '1.0.0', buildNumber: '1', environment: 'production' },
+  };
+
+  const first = await request(app).post('/crashes').send({ reports: [report] });
+  assert.equal(first.status, 202);
+  assert.deepEqual(first.body, { accepted: ['crash_1'], rejected: [], duplicates: 0 });
+
+  const retried = await request(app)
+    .post('/crashes')
+    .send({ reports: [report, { ...report, id: 'crash_2', error: {} }] });
+  assert.equal(retried.status, 202);
+  assert.deepEqual(retried.body, {
+    accepted: ['crash_1'],
+    rejected: [{ id: 'crash_2', error: 'Report crash_2 needs an error type and message' }],
+    duplicates: 1,
+  });
+
+  const invalid = await request(app).post('/crashes').send({ reports: {} });
+  assert.equal(invalid.status, 400);
+
+  // A full batch with app state is larger than the default body limit
+  const state = { log: 'x'.repeat(20 * 1024) };
+  const large = await request(app)
+    .post('/crashes')
+    .send({ reports: Array.from({ length: 20 }, (_, i) => ({ ...report, id: `large_${i}`, fingerprint: 'large', state })) });
+  assert.equal(large.status, 202);
+  assert.equal(large.body.accepted.length, 20);
+
+  const unauthorized = await request(app).get('/internal/crashes');
+  assert.equal(unauthorized.status, 401);
+
+  const groups = await request(app).get('/internal/crashes').set('x-api-key', 'internal-key');
+  assert.equal(groups.status, 200);
+  const group = groups.body.groups.find(item => item.groupKey === 'abc123');
+  assert.equal(groups.body.groups.length, 2);
+  assert.equal(group.occurrences, 2);
+});
+
+test('uploaded source maps symbolicate crashes from that build', async () => {
+  const fixturesDir = path.join(__dirname, 'fixtures');
+  const bundleLine = fs.readFileSync(path.join(fixturesDir, 'main.jsbundle'), 'utf8').split('\n')[1];
+  const sourceMap = JSON.parse(fs.readFileSync(path.join(fixturesDir, 'main.jsbundle.map'), 'utf8'));
+  const app = createApp({ stripe: createStripeMock(), paymentApiKey: 'internal-key' });
+
+  const unauthorized = await request(app).put('/internal/source-maps/1.2.0/42').send(sourceMap);
+  assert.equal(unauthorized.status, 401);
+
+  const invalid = await request(app)
+    .put('/internal/source-maps/1.2.0/42')
+    .set('x-api-key', 'internal-key')
+    .send({ ...sourceMap, version: 2 });
+  assert.equal(invalid.status, 400);
+
+  const uploaded = await request(app)
+    .put('/internal/source-maps/1.2.0/42')
+    .set('x-api-key', 'internal-key')
+    .send(sourceMap);
+  assert.equal(uploaded.status, 201);
+  assert.deepEqual(uploaded.body, { appVersion: '1.2.0', buildNumber: '42', sources: 2 });
+
+  const createReport = (id, buildNumber, fingerprint) => ({
+    id,
+    fingerprint,
+    timestamp: '2024-01-01T10:00:00.000Z',
+    error: { type: 'UNKNOWN_ERROR', message: "Cannot read property 'amount' of undefined" },
+    stackTrace: [
+      "TypeError: Cannot read property 'amount' of undefined",
+      `    at anonymous (index.bundle:2:${bundleLine.indexOf('e.price') + 1})`,
+      `    at b (index.bundle:2:${bundleLine.indexOf('a(n);') + 1})`,
+    ].join('\n'),
+    breadcrumbs: [],
+    appInfo: { version: '1.2.0', buildNumber, environment: 'production' },
+  });
+
+  // Different fingerprints, same top frame: one group
+  await request(app)
+    .post('/crashes')
+    .send({ reports: [createReport('crash_1', '42', 'aaa'), createReport('crash_2', '42', 'bbb')] });
+  // No map for build 43, so it stays grouped by fingerprint
+  await request(app).post('/crashes').send({ reports: [createReport('crash_3', '43', 'ccc')] });
+
+  const groups = await request(app).get('/internal/crashes').set('x-api-key', 'internal-key');
+  const groupKeys = groups.body.groups.map(group => group.groupKey).sort();
+  assert.deepEqual(groupKeys, ['ccc', 'src/utils/cartTotals.ts:calculateTotal']);
+
+  const symbolicated = groups.body.groups.find(
+    group => group.groupKey === 'src/utils/cartTotals.ts:calculateTotal'
+  );
+  assert.equal(symbolicated.reports, 2);
+  assert.deepEqual(symbolicated.latest.symbolicatedFrames[0], {
+    functionName: 'calculateTotal',
+    file: 'src/utils/cartTotals.ts',
+    line: 2,
+    column: 46,
+    symbolicated: true,
+  });
+  assert.deepEqual(symbolicated.latest.symbolicatedFrames[1], {
+    functionName: null,
+    file: 'src/screens/main/CartScreen.tsx',
+    line: 2,
+    column: 17,
+    symbolicated: true,
+  });
+});
+
+test('POST /crashes stores a report unsymbolicated when its stored map is corrupt', async () => {
+  const paymentStore = new InMemoryPaymentStore();
+  await paymentStore.saveSourceMap('1.2.0', '42', { version: 3, sources: ['a.js'], names: [], mappings: '!!!' });
+  const app = createApp({ stripe: createStripeMock(), paymentApiKey: 'internal-key', paymentStore });
+
+  const response = await request(app)
+    .post('/crashes')
+    .send({
+      reports: [
+        {
+          id: 'crash_1',
+          fingerprint: 'abc123',
+          timestamp: '2024-01-01T10:00:00.000Z',
+          error: { type: 'UNKNOWN_ERROR', message: 'undefined is not a function' },
+          stackTrace: 'TypeError: undefined is not a function\n    at render (index.bundle:1:5)',
+          breadcrumbs: [],
+          appInfo: { version: '1.2.0', buildNumber: '42', environment: 'production' },
+        },
+      ],
+    });
+  assert.equal(response.status, 202);
+  assert.deepEqual(response.body.accepted, ['crash_1']);
+
+  const groups = await request(app).get('/internal/crashes').set('x-api-key', 'internal-key');
+  assert.equal(groups.body.groups[0].groupKey, 'abc123');
+  assert.equal(groups.body.groups[0].latest.symbolicatedFrames, null);
+});
+
+test('POST /crashes reads and decodes each build\'s map once per batch', async () => {
+  const fixturesDir = path.join(__dirname, 'fixtures');
+  const bundleLine = fs.readFileSync(path.join(fixturesDir, 'main.jsbundle'), 'utf8').split('\n')[1];
+  const sourceMap = JSON.parse(fs.readFileSync(path.join(fixturesDir, 'main.jsbundle.map'), 'utf8'));
+  const paymentStore = new InMemoryPaymentStore();
+  await paymentStore.saveSourceMap('1.2.0', '42', sourceMap);
+  const reads = [];
+  const getSourceMap = paymentStore.getSourceMap.bind(paymentStore);
+  paymentStore.getSourceMap = async (appVersion, buildNumber) => {
+    reads.push(buildNumber);
+    return getSourceMap(appVersion, buildNumber);
+  };
+  const app = createApp({ stripe: createStripeMock(), paymentApiKey: 'internal-key', paymentStore });
+
+  const createReport = (id, buildNumber) => ({
+    id,
+    fingerprint: id,
+    timestamp: '2024-01-01T10:00:00.000Z',
+    error: { type: 'UNKNOWN_ERROR', message: "Cannot read property 'amount' of undefined" },
+    stackTrace: [
+      "TypeError: Cannot read property 'amount' of undefined",
+      `    at anonymous (index.bundle:2:${bundleLine.indexOf('e.price') + 1})`,
+      `    at b (index.bundle:2:${bundleLine.indexOf('a(n);') + 1})`,
+    ].join('\n'),
+    breadcrumbs: [],
+    appInfo: { version: '1.2.0', buildNumber, environment: 'production' },
+  });
+
+  const response = await request(app)
+    .post('/crashes')
+    .send({
+      reports: [
+        createReport('crash_1', '42'),
+        createReport('crash_2', '42'),
+        createReport('crash_3', '42'),
+        createReport('crash_4', '43'),
+      ],
+    });
+  assert.equal(response.status, 202);
+  assert.deepEqual(reads.sort(), ['42', '43']);
+
+  const groups = await request(app).get('/internal/crashes').set('x-api-key', 'internal-key');
+  const symbolicated = groups.body.groups.find(
+    group => group.groupKey === 'src/utils/cartTotals.ts:calculateTotal'
+  );
+  assert.equal(symbolicated.reports, 3);
+
+  // Later batches use the decoded map
+  await request(app).post('/crashes').send({ reports: [createReport('crash_5', '42')] });
+  assert.deepEqual(reads.sort(), ['42', '43']);
+});
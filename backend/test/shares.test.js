@@ -0,0 +1,25 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { createShareToken, isShareToken, parseShareRequest } = require('../src/shares');
+
+test('createShareToken makes distinct URL-safe tokens', () => {
+  const first = createShareToken();
+  const second = createShareToken();
+
+  assert.notEqual(first, second);
+  assert.ok(isShareToken(first));
+  assert.equal(isShareToken('../orders'), false);
+  assert.equal(isShareToken('short'), false);
+});
+
+test('parseShareRequest dedupes products and defaults the title', () => {
+  const parsed = parseShareRequest({ productIds: ['1', '2', '1'], title: '  ', userId: 'user-1' });
+  assert.deepEqual(parsed.share, { productIds: ['1', '2'], title: 'Wishlist', ownerId: 'user-1' });
+
+  assert.equal(parseShareRequest({ productIds: [] }).error, 'productIds must be a non-empty array');
+  assert.equal(parseShareRequest({ productIds: ['1', 2] }).error, 'productIds must be non-empty strings');
+  assert.equal(
+    parseShareRequest({ productIds: Array.from({ length: 101 }, (_, i) => String(i)) }).error,
+    'A share can contain at most 100 products'
+  );
+});
@@ -0,0 +1,119 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const fs = require('node:fs');
+const path = require('node:path');
+const {
+  decodeVlqSegment,
+  getTopFrameGroupKey,
+  normalizeSourcePath,
+  parseSourceMap,
+  parseStackFrames,
+  symbolicateFrames,
+  validateSourceMap,
+} = require('../src/sourceMaps');
+
+const fixturesDir = path.join(__dirname, 'fixtures');
+const bundleLine = fs.readFileSync(path.join(fixturesDir, 'main.jsbundle'), 'utf8').split('\n')[1];
+const sourceMap = JSON.parse(fs.readFileSync(path.join(fixturesDir, 'main.jsbundle.map'), 'utf8'));
+
+// 1-based column of a snippet on the bundle's minified line
+const columnOf = snippet => bundleLine.indexOf(snippet) + 1;
+
+const createStackTrace = () =>
+  [
+    "TypeError: Cannot read property 'amount' of undefined",
+    `    at anonymous (http://localhost:8081/index.bundle?platform=ios:2:${columnOf('e.price')})`,
+    '    at reduce (native)',
+    `    at a (http://localhost:8081/index.bundle?platform=ios:2:${columnOf('n.items')})`,
+    `    at b (http://localhost:8081/index.bundle?platform=ios:2:${columnOf('a(n);')})`,
+  ].join('\n');
+
+test('decodeVlqSegment decodes signed and multi-digit values', () => {
+  assert.deepEqual(decodeVlqSegment('AAAA'), [0, 0, 0, 0]);
+  assert.deepEqual(decodeVlqSegment('SAAgBA'), [9, 0, 0, 16, 0]);
+  assert.deepEqual(decodeVlqSegment('D'), [-1]);
+  assert.throws(() => decodeVlqSegment('g'), /Truncated/);
+});
+
+test('normalizeSourcePath makes source paths project relative', () => {
+  assert.equal(normalizeSourcePath('/home/ci/swipely/src/App.tsx'), 'src/App.tsx');
+  assert.equal(normalizeSourcePath('webpack:///./src/App.tsx'), 'src/App.tsx');
+  assert.equal(
+    normalizeSourcePath('/home/ci/swipely/node_modules/react-native/index.js'),
+    'node_modules/react-native/index.js'
+  );
+});
+
+test('validateSourceMap rejects maps that cannot be decoded', () => {
+  assert.equal(validateSourceMap(sourceMap), null);
+  assert.equal(validateSourceMap({ ...sourceMap, version: 2 }), 'Only version 3 source maps are supported');
+  assert.equal(validateSourceMap({ version: 3, sections: [] }), 'Indexed source maps are not supported');
+  assert.equal(validateSourceMap({ ...sourceMap, sources: [1] }), 'Source map sources must be an array of strings');
+});
+
+test('parseStackFrames reads V8 and Hermes frames and skips the rest', () => {
+  assert.deepEqual(parseStackFrames(createStackTrace()).slice(0, 2), [
+    {
+      functionName: 'anonymous',
+      file: 'http://localhost:8081/index.bundle?platform=ios',
+      line: 2,
+      column: columnOf('e.price'),
+    },
+    {
+      functionName: 'a',
+      file: 'http://localhost:8081/index.bundle?platform=ios',
+      line: 2,
+      column: columnOf('n.items'),
+    },
+  ]);
+
+  assert.deepEqual(parseStackFrames('anonymous@index.android.bundle:2:63\nindex.android.bundle:2:22'), [
+    { functionName: 'anonymous', file: 'index.android.bundle', line: 2, column: 63 },
+    { functionName: null, file: 'index.android.bundle', line: 2, column: 22 },
+  ]);
+});
+
+test('symbolicateFrames maps bundle frames back to src files', () => {
+  const frames = symbolicateFrames(parseStackFrames(createStackTrace()), parseSourceMap(sourceMap));
+
+  // Each frame is named by the call site below it; the bottom frame has no caller
+  assert.deepEqual(frames, [
+    { functionName: 'cart', file: 'src/utils/cartTotals.ts', line: 2, column: 46, symbolicated: true },
+    { functionName: 'calculateTotal', file: 'src/utils/cartTotals.ts', line: 2, column: 10, symbolicated: true },
+    { functionName: null, file: 'src/screens/main/CartScreen.tsx', line: 2, column: 17, symbolicated: true },
+  ]);
+});
+
+test('symbolicateFrames keeps frames the map does not cover', () => {
+  const [frame] = symbolicateFrames(
+    [{ functionName: 'start', file: 'index.bundle', line: 1, column: 5 }],
+    parseSourceMap(sourceMap)
+  );
+
+  assert.deepEqual(frame, {
+    functionName: 'start',
+    file: 'index.bundle',
+    line: 1,
+    column: 5,
+    symbolicated: false,
+  });
+});
+
+test('getTopFrameGroupKey prefers the top app frame and keys it on its function', () => {
+  const frames = [
+    { functionName: 'dispatch', file: 'node_modules/react/index.js', line: 10, column: 1, symbolicated: true },
+    { functionName: 'calculateTotal', file: 'src/utils/cartTotals.ts', line: 2, column: 46, symbolicated: true },
+    { functionName: null, file: 'src/screens/main/CartScreen.tsx', line: 2, column: 17, symbolicated: true },
+  ];
+  assert.equal(getTopFrameGroupKey(frames), 'src/utils/cartTotals.ts:calculateTotal');
+  // Moving the crash to another line keeps the key
+  assert.equal(
+    getTopFrameGroupKey([{ ...frames[1], line: 40 }, frames[2]]),
+    'src/utils/cartTotals.ts:calculateTotal'
+  );
+  assert.equal(getTopFrameGroupKey([{ ...frames[1], functionName: null }]), 'src/utils/cartTotals.ts');
+  assert.equal(
+    getTopFrameGroupKey([{ functionName: null, file: 'index.bundle', line: 1, column: 5, symbolicated: false }]),
+    null
+  );
+});
@@ -0,0 +1,36 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { compareVersionVectors, getPushStatus, parseSyncRecord } = require('../src/sync');
+
+test('compareVersionVectors orders descendants and detects concurrent edits', () => {
+  assert.equal(compareVersionVectors({ phone: 1 }, { phone: 1 }), 'equal');
+  assert.equal(compareVersionVectors({ phone: 2 }, { phone: 1 }), 'after');
+  assert.equal(compareVersionVectors({ phone: 1 }, { phone: 1, tablet: 1 }), 'before');
+  assert.equal(compareVersionVectors({ phone: 2 }, { phone: 1, tablet: 1 }), 'concurrent');
+  assert.equal(compareVersionVectors({ phone: 0 }, {}), 'equal');
+});
+
+test('getPushStatus accepts the first push and anything that descends from the stored copy', () => {
+  const incoming = { versionVector: { phone: 2, tablet: 1 } };
+
+  assert.equal(getPushStatus(null, incoming), 'accepted');
+  assert.equal(getPushStatus({ versionVector: { phone: 1, tablet: 1 } }, incoming), 'accepted');
+  assert.equal(getPushStatus({ versionVector: { phone: 2, tablet: 1 } }, incoming), 'unchanged');
+  assert.equal(getPushStatus({ versionVector: { phone: 3, tablet: 1 } }, incoming), 'stale');
+  assert.equal(getPushStatus({ versionVector: { phone: 1, tablet: 2 } }, incoming), 'conflict');
+});
+
+test('parseSyncRecord stamps the pushing device and rejects malformed vectors', () => {
+  const parsed = parseSyncRecord(
+    { id: 'cart_items_user-1', type: 'cart_items', data: { items: [] }, deviceId: 'spoofed', versionVector: { phone: 1 } },
+    'phone'
+  );
+  assert.equal(parsed.record.deviceId, 'phone');
+  assert.equal(parsed.record.version, 1);
+
+  const negative = parseSyncRecord(
+    { id: 'cart_items_user-1', type: 'cart_items', data: {}, versionVector: { phone: -1 } },
+    'phone'
+  );
+  assert.equal(negative.error, 'Record cart_items_user-1 needs a versionVector');
+});
@@ -1,10 +1,14 @@
-import React, { memo, useCallback, useMemo } from 'react';
+import React, { memo, useCallback, useEffect, useMemo, useRef } from 'react';
 import {
   View,
+  Text,
+  Platform,
+  AccessibilityInfo,
 } from 'react-native';
 import { MouseSwipeableCard } from '../product/MouseSwipeableCard';
-import { ProductCard } from '../../types';
+import { ProductCard, SwipeDirection } from '../../types';
 import { FeedScreenStyles } from '../../screens/Styles/ProductStyles';
+import { getNextProductAnnouncement } from '../../utils/SwipeControls';
 
 interface CardsContainerProps {
   products: ProductCard[];
@@ -12,8 +16,14 @@ interface CardsContainerProps {
   userId: string;
   onSwipeLeft: (productId: string) => void;
   onSwipeRight: (productId: string) => void;
+  onSwipeUp: (productId: string) => void;
+  onSwipeDown: (productId: string) => void;
   onAddToCart: (productId: string) => void;
   onViewDetails: (productId: string) => void;
+  /** Card brought back by undo, animated in from the side it left */
+  restoredCard?: { productId: string; direction: SwipeDirection } | null;
+  /** Keyboard shortcuts only apply while the feed is the focused screen */
+  keyboardControls?: boolean;
 }
 
 /**
@@ -27,9 +37,13 @@ const CardWrapper = memo<{
   userId: string;
   onSwipeLeft: (productId: string) => void;
   onSwipeRight: (productId: string) => void;
+  onSwipeUp: (productId: string) => void;
+  onSwipeDown: (productId: string) => void;
   onAddToCart: (productId: string) => void;
   onViewDetails: (productId: string) => void;
-}>(({ product, index, currentCardIndex, productsLength, userId, onSwipeLeft, onSwipeRight, onAddToCart, onViewDetails }) => {
+  enterFrom?: SwipeDirection;
+  keyboardControls: boolean;
+}>(({ product, index, currentCardIndex, productsLength, userId, onSwipeLeft, onSwipeRight, onSwipeUp, onSwipeDown, onAddToCart, onViewDetails, enterFrom, keyboardControls }) => {
   const isTopCard = index === currentCardIndex;
   const isVisible = index >= currentCardIndex && index < currentCardIndex + 2;
   
@@ -58,9 +72,14 @@ const CardWrapper = memo<{
         userId={userId}
         onSwipeLeft={onSwipeLeft}
         onSwipeRight={onSwipeRight}
+        onSwipeUp={onSwipeUp}
+        onSwipeDown={onSwipeDown}
         onAddToCart={onAddToCart}
         onViewDetails={onViewDetails}
         isTopCard={isTopCard}
+        recordSwipes={false}
+        enterFrom={enterFrom}
+        keyboardControls={keyboardControls}
       />
     </View>
   );
@@ -70,7 +89,9 @@ const CardWrapper = memo<{
     prevProps.product.id === nextProps.product.id &&
     prevProps.index === nextProps.index &&
     prevProps.currentCardIndex === nextProps.currentCardIndex &&
-    prevProps.productsLength === nextProps.productsLength
+    prevProps.productsLength === nextProps.productsLength &&
+    prevProps.enterFrom === nextProps.enterFrom &&
+    prevProps.keyboardControls === nextProps.keyboardControls
   );
 });
 
@@ -87,14 +108,34 @@ export const CardsContainer = memo<CardsContainerProps>(({
   userId,
   onSwipeLeft,
   onSwipeRight,
+  onSwipeUp,
+  onSwipeDown,
   onAddToCart,
   onViewDetails,
+  restoredCard,
+  keyboardControls = true,
 }) => {
   // Memoize visible products to prevent unnecessary calculations
   const visibleProducts = useMemo(() => {
     return products.slice(currentCardIndex, currentCardIndex + 2);
   }, [products, currentCardIndex]);
 
+  // Announce the new top card once the stack moves, not on first render.
+  // Live regions only speak changes, so the initial text stays silent.
+  const topProduct = products[currentCardIndex];
+  const announcement = getNextProductAnnouncement(topProduct);
+  const announcedProductIdRef = useRef(topProduct?.id);
+
+  useEffect(() => {
+    if (announcedProductIdRef.current === topProduct?.id) return;
+    announcedProductIdRef.current = topProduct?.id;
+
+    // Android and web pick the change up from the live region below
+    if (Platform.OS === 'ios') {
+      AccessibilityInfo.announceForAccessibility(announcement);
+    }
+  }, [topProduct?.id, announcement]);
+
   return (
     <View style={FeedScreenStyles.cardsContainer}>
       {visibleProducts.map((product, relativeIndex) => {
@@ -109,11 +150,26 @@ export const CardsContainer = memo<CardsContainerProps>(({
             userId={userId}
             onSwipeLeft={onSwipeLeft}
             onSwipeRight={onSwipeRight}
+            onSwipeUp={onSwipeUp}
+            onSwipeDown={onSwipeDown}
             onAddToCart={onAddToCart}
             onViewDetails={onViewDetails}
+            enterFrom={
+              restoredCard && restoredCard.productId === product.id
+                ? restoredCard.direction
+                : undefined
+            }
+            keyboardControls={keyboardControls}
           />
         );
       })}
+      <Text
+        style={FeedScreenStyles.liveRegion}
+        accessibilityLiveRegion="polite"
+        importantForAccessibility="yes"
+      >
+        {announcement}
+      </Text>
     </View>
   );
 });
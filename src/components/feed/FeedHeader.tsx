@@ -10,16 +10,24 @@ interface FeedHeaderProps {
   remainingProducts: number;
   hasMoreCards: boolean;
   onShowSkippedProducts: () => void;
+  onShowSearch?: () => void;
+  onUndo?: () => void;
+  canUndo?: boolean;
+  isOffline?: boolean;
 }
 
 /**
  * Separated header component to prevent re-renders of entire feed
- * Only re-renders when remainingProducts or hasMoreCards changes
+ * Only re-renders when remainingProducts, hasMoreCards or connectivity changes
  */
 export const FeedHeader = memo<FeedHeaderProps>(({
   remainingProducts,
   hasMoreCards,
   onShowSkippedProducts,
+  onShowSearch,
+  onUndo,
+  canUndo = false,
+  isOffline = false,
 }) => {
   const handleSkippedPress = useCallback(() => {
     onShowSkippedProducts();
@@ -37,6 +45,30 @@ export const FeedHeader = memo<FeedHeaderProps>(({
             }
           </Text>
         </View>
+        {onUndo && (
+          <TouchableOpacity
+            style={[FeedScreenStyles.undoButton, !canUndo && FeedScreenStyles.undoButtonDisabled]}
+            onPress={onUndo}
+            disabled={!canUndo}
+            activeOpacity={0.7}
+            accessibilityRole="button"
+            accessibilityLabel="Undo last swipe"
+            accessibilityState={{ disabled: !canUndo }}
+          >
+            <Text style={FeedScreenStyles.undoButtonIcon}>↶</Text>
+          </TouchableOpacity>
+        )}
+        {onShowSearch && (
+          <TouchableOpacity
+            style={FeedScreenStyles.searchButton}
+            onPress={onShowSearch}
+            activeOpacity={0.7}
+            accessibilityRole="button"
+            accessibilityLabel="Search products"
+          >
+            <Text style={FeedScreenStyles.searchButtonIcon}>🔍</Text>
+          </TouchableOpacity>
+        )}
         <TouchableOpacity 
           style={FeedScreenStyles.skippedButton} 
           onPress={handleSkippedPress}
@@ -46,6 +78,13 @@ export const FeedHeader = memo<FeedHeaderProps>(({
           <Text style={FeedScreenStyles.skippedButtonText}>View Skipped</Text>
         </TouchableOpacity>
       </View>
+      {isOffline && (
+        <View style={FeedScreenStyles.offlineBanner} accessibilityRole="alert">
+          <Text style={FeedScreenStyles.offlineBannerText}>
+            You're offline. Showing saved products; swipes will sync when you reconnect.
+          </Text>
+        </View>
+      )}
     </View>
   );
 });
@@ -22,15 +22,39 @@ import Animated, {
 } from 'react-native-reanimated';
 import { useNavigation } from '@react-navigation/native';
 import { StackNavigationProp } from '@react-navigation/stack';
-import { ProductCard, MainStackParamList } from '../../types';
+import { ProductCard, MainStackParamList, SwipeDirection } from '../../types';
 import { getSwipeActionService } from '../../services/SwipeActionService';
+import { AdvancedGestureHandler, SwipeThresholds } from '../../utils/AdvancedGestureHandler';
 import { AndroidToast } from '../../utils/AndroidUtils';
 import { AndroidStyles, MaterialColors, MaterialAnimations, AndroidGestures } from '../../styles/AndroidStyles';
 import { AndroidSwipeCardStyles } from '@/screens/Styles/CardStyles';
 
-const { width: screenWidth } = Dimensions.get('window');
+const { width: screenWidth, height: screenHeight } = Dimensions.get('window');
 const CARD_WIDTH = screenWidth * 0.9;
 const SWIPE_THRESHOLD = screenWidth * 0.25;
+const VERTICAL_SWIPE_THRESHOLD = screenHeight * 0.18;
+
+// Gesture handler velocities are in px/s
+const SWIPE_THRESHOLDS: SwipeThresholds = {
+  left: { distance: SWIPE_THRESHOLD, velocity: AndroidGestures.velocityThreshold },
+  right: { distance: SWIPE_THRESHOLD, velocity: AndroidGestures.velocityThreshold },
+  up: { distance: VERTICAL_SWIPE_THRESHOLD, velocity: AndroidGestures.upVelocityThreshold },
+  down: { distance: VERTICAL_SWIPE_THRESHOLD, velocity: AndroidGestures.downVelocityThreshold },
+};
+
+const EXIT_POSITIONS: Record<SwipeDirection, { x: number; y: number; rotation: number }> = {
+  left: { x: -screenWidth * 1.5, y: -80, rotation: -25 },
+  right: { x: screenWidth * 1.5, y: -80, rotation: 25 },
+  up: { x: 0, y: -screenHeight * 1.5, rotation: 0 },
+  down: { x: 0, y: screenHeight * 1.5, rotation: 0 },
+};
+
+const SWIPE_TOASTS: Record<SwipeDirection, string> = {
+  left: 'Product skipped',
+  right: 'Product liked!',
+  up: 'Added to cart!',
+  down: 'Super liked!',
+};
 
 type SwipeableCardNavigationProp = StackNavigationProp<MainStackParamList>;
 
@@ -39,6 +63,10 @@ interface AndroidSwipeableCardProps {
   userId: string;
   onSwipeLeft?: (productId: string) => void;
   onSwipeRight?: (productId: string) => void;
+  /** Swipe up (add to cart). Falls back to onAddToCart */
+  onSwipeUp?: (productId: string) => void;
+  /** Swipe down (super-like). Falls back to opening product details */
+  onSwipeDown?: (productId: string) => void;
   onAddToCart?: (productId: string) => void;
   onViewDetails?: (productId: string) => void;
   isTopCard?: boolean;
@@ -49,6 +77,8 @@ export const AndroidSwipeableCard: React.FC<AndroidSwipeableCardProps> = ({
   userId,
   onSwipeLeft,
   onSwipeRight,
+  onSwipeUp,
+  onSwipeDown,
   onAddToCart,
   onViewDetails,
   isTopCard = true,
@@ -63,67 +93,69 @@ export const AndroidSwipeableCard: React.FC<AndroidSwipeableCardProps> = ({
   const swipeActionService = getSwipeActionService(userId);
 
   const handleSwipeComplete = useCallback(
-    async (direction: 'left' | 'right') => {
+    async (direction: SwipeDirection) => {
       try {
-        if (direction === 'left') {
-          AndroidToast.show('Product skipped', 'SHORT');
-          await swipeActionService.onSwipeLeft(product.id);
-          onSwipeLeft?.(product.id);
-        } else {
-          AndroidToast.show('Product liked!', 'SHORT');
-          await swipeActionService.onSwipeRight(product.id);
-          onSwipeRight?.(product.id);
+        AndroidToast.show(SWIPE_TOASTS[direction], 'SHORT');
+        await swipeActionService.onSwipe(direction, product.id);
+        switch (direction) {
+          case 'left':
+            onSwipeLeft?.(product.id);
+            break;
+          case 'right':
+            onSwipeRight?.(product.id);
+            break;
+          case 'up':
+            (onSwipeUp ?? onAddToCart)?.(product.id);
+            break;
+          case 'down':
+            if (onSwipeDown) {
+              onSwipeDown(product.id);
+            } else {
+              navigation.navigate('ProductDetails', { productId: product.id, product });
+            }
+            break;
         }
       } catch (error) {
         AndroidToast.show('Error processing action', 'SHORT');
         console.error('Error handling swipe:', error);
       }
     },
-    [product.id, swipeActionService, onSwipeLeft, onSwipeRight]
+    [product, swipeActionService, navigation, onSwipeLeft, onSwipeRight, onSwipeUp, onSwipeDown, onAddToCart]
   );
 
   // Android-specific gesture handling with Material Design physics
   const panGesture = Gesture.Pan()
     .onUpdate((event) => {
-      translateX.value = event.translationX;
-      translateY.value = event.translationY * 0.1; // Subtle vertical movement
+      // Follow the dominant axis; the other axis only moves subtly
+      const vertical = Math.abs(event.translationY) > Math.abs(event.translationX);
+      translateX.value = vertical ? event.translationX * 0.1 : event.translationX;
+      translateY.value = vertical ? event.translationY : event.translationY * 0.1;
       
       // Material Design-style rotation
       rotation.value = interpolate(
-        event.translationX,
+        translateX.value,
         [-screenWidth / 2, 0, screenWidth / 2],
         [-12, 0, 12],
         Extrapolation.CLAMP
       );
     })
     .onEnd((event) => {
-      const shouldSwipeLeft = translateX.value < -SWIPE_THRESHOLD || event.velocityX < -AndroidGestures.velocityThreshold;
-      const shouldSwipeRight = translateX.value > SWIPE_THRESHOLD || event.velocityX > AndroidGestures.velocityThreshold;
+      const direction = AdvancedGestureHandler.resolveSwipeDirection(
+        translateX.value,
+        translateY.value,
+        event.velocityX,
+        event.velocityY,
+        SWIPE_THRESHOLDS
+      );
 
-      if (shouldSwipeLeft) {
-        translateX.value = withTiming(-screenWidth * 1.5, {
-          duration: MaterialAnimations.standard.duration,
-          easing: Easing.out(Easing.cubic),
-        });
-        translateY.value = withTiming(-80, {
-          duration: MaterialAnimations.standard.duration,
-          easing: Easing.out(Easing.cubic),
-        });
-        opacity.value = withTiming(0, {
-          duration: MaterialAnimations.standard.duration,
-          easing: Easing.out(Easing.cubic),
-        });
-        rotation.value = withTiming(-25, {
-          duration: MaterialAnimations.standard.duration,
-          easing: Easing.out(Easing.cubic),
-        });
-        runOnJS(handleSwipeComplete)('left');
-      } else if (shouldSwipeRight) {
-        translateX.value = withTiming(screenWidth * 1.5, {
+      // Out-of-stock products cannot be swiped into the cart
+      if (direction !== 'none' && !(direction === 'up' && !product.availability)) {
+        const exit = EXIT_POSITIONS[direction];
+        translateX.value = withTiming(exit.x, {
           duration: MaterialAnimations.standard.duration,
           easing: Easing.out(Easing.cubic),
         });
-        translateY.value = withTiming(-80, {
+        translateY.value = withTiming(exit.y, {
           duration: MaterialAnimations.standard.duration,
           easing: Easing.out(Easing.cubic),
         });
@@ -131,11 +163,11 @@ export const AndroidSwipeableCard: React.FC<AndroidSwipeableCardProps> = ({
           duration: MaterialAnimations.standard.duration,
           easing: Easing.out(Easing.cubic),
         });
-        rotation.value = withTiming(25, {
+        rotation.value = withTiming(exit.rotation, {
           duration: MaterialAnimations.standard.duration,
           easing: Easing.out(Easing.cubic),
         });
-        runOnJS(handleSwipeComplete)('right');
+        runOnJS(handleSwipeComplete)(direction);
       } else {
         // Material Design spring animation back to center
         translateX.value = withSpring(0, {
@@ -191,16 +223,39 @@ export const AndroidSwipeableCard: React.FC<AndroidSwipeableCardProps> = ({
     };
   });
 
+  const cartOverlayStyle = useAnimatedStyle(() => {
+    const opacities = AdvancedGestureHandler.calculateOverlayOpacity(
+      translateX.value,
+      SWIPE_THRESHOLD,
+      translateY.value,
+      VERTICAL_SWIPE_THRESHOLD
+    );
+    return {
+      opacity: opacities.cart,
+    };
+  });
+
+  const superlikeOverlayStyle = useAnimatedStyle(() => {
+    const opacities = AdvancedGestureHandler.calculateOverlayOpacity(
+      translateX.value,
+      SWIPE_THRESHOLD,
+      translateY.value,
+      VERTICAL_SWIPE_THRESHOLD
+    );
+    return {
+      opacity: opacities.superlike,
+    };
+  });
+
   // Helper function to animate card swipe programmatically
-  const animateSwipe = useCallback((direction: 'left' | 'right') => {
-    const targetX = direction === 'right' ? screenWidth * 1.5 : -screenWidth * 1.5;
-    const targetRotation = direction === 'right' ? 25 : -25;
+  const animateSwipe = useCallback((direction: SwipeDirection) => {
+    const exit = EXIT_POSITIONS[direction];
 
-    translateX.value = withTiming(targetX, {
+    translateX.value = withTiming(exit.x, {
       duration: MaterialAnimations.standard.duration,
       easing: Easing.out(Easing.cubic),
     });
-    translateY.value = withTiming(-80, {
+    translateY.value = withTiming(exit.y, {
       duration: MaterialAnimations.standard.duration,
       easing: Easing.out(Easing.cubic),
     });
@@ -208,7 +263,7 @@ export const AndroidSwipeableCard: React.FC<AndroidSwipeableCardProps> = ({
       duration: MaterialAnimations.standard.duration,
       easing: Easing.out(Easing.cubic),
     });
-    rotation.value = withTiming(targetRotation, {
+    rotation.value = withTiming(exit.rotation, {
       duration: MaterialAnimations.standard.duration,
       easing: Easing.out(Easing.cubic),
     });
@@ -281,6 +336,14 @@ export const AndroidSwipeableCard: React.FC<AndroidSwipeableCardProps> = ({
               <Animated.View style={[AndroidSwipeCardStyles.overlay, AndroidSwipeCardStyles.skipOverlay, skipOverlayStyle]}>
                 <Text style={AndroidSwipeCardStyles.overlayText}>SKIP</Text>
               </Animated.View>
+
+              <Animated.View style={[AndroidSwipeCardStyles.overlay, AndroidSwipeCardStyles.cartOverlay, cartOverlayStyle]}>
+                <Text style={AndroidSwipeCardStyles.overlayText}>ADD TO CART</Text>
+              </Animated.View>
+
+              <Animated.View style={[AndroidSwipeCardStyles.overlay, AndroidSwipeCardStyles.superlikeOverlay, superlikeOverlayStyle]}>
+                <Text style={AndroidSwipeCardStyles.overlayText}>SUPER LIKE</Text>
+              </Animated.View>
             </View>
 
             {/* Product Info with Material Design typography */}
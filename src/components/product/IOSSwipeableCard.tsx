@@ -21,17 +21,34 @@ import Animated, {
 } from 'react-native-reanimated';
 import { useNavigation } from '@react-navigation/native';
 import { StackNavigationProp } from '@react-navigation/stack';
-import { ProductCard, MainStackParamList } from '../../types';
+import { ProductCard, MainStackParamList, SwipeDirection } from '../../types';
 import { getSwipeActionService } from '../../services/SwipeActionService';
+import { AdvancedGestureHandler, SwipeThresholds } from '../../utils/AdvancedGestureHandler';
 import { AddToCartButton } from './AddToCartButton';
 import { ViewDetailsButton } from './ViewDetailsButton';
 import { HapticFeedback, getPlatformFeatures } from '../../utils/PlatformUtils';
 import { IOSStyles, IOSAnimations, IOSGestures } from '../../styles/IOSStyles';
 import { IOSCardStyles } from '@/screens/Styles/CardStyles';
 
-const { width: screenWidth } = Dimensions.get('window');
+const { width: screenWidth, height: screenHeight } = Dimensions.get('window');
 const CARD_WIDTH = screenWidth * 0.9;
 const SWIPE_THRESHOLD = screenWidth * 0.25;
+const VERTICAL_SWIPE_THRESHOLD = screenHeight * 0.18;
+
+// Gesture handler velocities are in px/s
+const SWIPE_THRESHOLDS: SwipeThresholds = {
+  left: { distance: SWIPE_THRESHOLD, velocity: IOSGestures.velocityThreshold },
+  right: { distance: SWIPE_THRESHOLD, velocity: IOSGestures.velocityThreshold },
+  up: { distance: VERTICAL_SWIPE_THRESHOLD, velocity: IOSGestures.upVelocityThreshold },
+  down: { distance: VERTICAL_SWIPE_THRESHOLD, velocity: IOSGestures.downVelocityThreshold },
+};
+
+const EXIT_POSITIONS: Record<SwipeDirection, { x: number; y: number; rotation: number }> = {
+  left: { x: -screenWidth * 1.5, y: -100, rotation: -30 },
+  right: { x: screenWidth * 1.5, y: -100, rotation: 30 },
+  up: { x: 0, y: -screenHeight * 1.5, rotation: 0 },
+  down: { x: 0, y: screenHeight * 1.5, rotation: 0 },
+};
 const platformFeatures = getPlatformFeatures();
 
 type SwipeableCardNavigationProp = StackNavigationProp<MainStackParamList>;
@@ -41,6 +58,10 @@ interface IOSSwipeableCardProps {
   userId: string;
   onSwipeLeft?: (productId: string) => void;
   onSwipeRight?: (productId: string) => void;
+  /** Swipe up (add to cart). Falls back to onAddToCart */
+  onSwipeUp?: (productId: string) => void;
+  /** Swipe down (super-like). Falls back to opening product details */
+  onSwipeDown?: (productId: string) => void;
   onAddToCart?: (productId: string) => void;
   onViewDetails?: (productId: string) => void;
   isTopCard?: boolean;
@@ -51,6 +72,8 @@ export const IOSSwipeableCard: React.FC<IOSSwipeableCardProps> = ({
   userId,
   onSwipeLeft,
   onSwipeRight,
+  onSwipeUp,
+  onSwipeDown,
   onAddToCart,
   onViewDetails,
   isTopCard = true,
@@ -65,24 +88,35 @@ export const IOSSwipeableCard: React.FC<IOSSwipeableCardProps> = ({
   const swipeActionService = getSwipeActionService(userId);
 
   const handleSwipeComplete = useCallback(
-    async (direction: 'left' | 'right') => {
+    async (direction: SwipeDirection) => {
       try {
-        // iOS-specific haptic feedback
-        if (direction === 'left') {
-          HapticFeedback.light();
-          await swipeActionService.onSwipeLeft(product.id);
-          onSwipeLeft?.(product.id);
-        } else {
-          HapticFeedback.success();
-          await swipeActionService.onSwipeRight(product.id);
-          onSwipeRight?.(product.id);
+        // iOS-specific haptic pattern per direction
+        HapticFeedback.swipe(direction);
+        await swipeActionService.onSwipe(direction, product.id);
+        switch (direction) {
+          case 'left':
+            onSwipeLeft?.(product.id);
+            break;
+          case 'right':
+            onSwipeRight?.(product.id);
+            break;
+          case 'up':
+            (onSwipeUp ?? onAddToCart)?.(product.id);
+            break;
+          case 'down':
+            if (onSwipeDown) {
+              onSwipeDown(product.id);
+            } else {
+              navigation.navigate('ProductDetails', { productId: product.id, product });
+            }
+            break;
         }
       } catch (error) {
         HapticFeedback.error();
         console.error('Error handling swipe:', error);
       }
     },
-    [product.id, swipeActionService, onSwipeLeft, onSwipeRight]
+    [product, swipeActionService, navigation, onSwipeLeft, onSwipeRight, onSwipeUp, onSwipeDown, onAddToCart]
   );
 
   // iOS-specific gesture handling with improved physics
@@ -91,33 +125,36 @@ export const IOSSwipeableCard: React.FC<IOSSwipeableCardProps> = ({
       HapticFeedback.selection();
     })
     .onUpdate((event) => {
-      translateX.value = event.translationX;
-      translateY.value = event.translationY * 0.1; // Subtle vertical movement
+      // Follow the dominant axis; the other axis only moves subtly
+      const vertical = Math.abs(event.translationY) > Math.abs(event.translationX);
+      translateX.value = vertical ? event.translationX * 0.1 : event.translationX;
+      translateY.value = vertical ? event.translationY : event.translationY * 0.1;
       
       // iOS-style rotation based on horizontal movement
       rotation.value = interpolate(
-        event.translationX,
+        translateX.value,
         [-screenWidth / 2, 0, screenWidth / 2],
         [-15, 0, 15],
         Extrapolation.CLAMP
       );
     })
     .onEnd((event) => {
-      const shouldSwipeLeft = translateX.value < -SWIPE_THRESHOLD || event.velocityX < -IOSGestures.velocityThreshold;
-      const shouldSwipeRight = translateX.value > SWIPE_THRESHOLD || event.velocityX > IOSGestures.velocityThreshold;
+      const direction = AdvancedGestureHandler.resolveSwipeDirection(
+        translateX.value,
+        translateY.value,
+        event.velocityX,
+        event.velocityY,
+        SWIPE_THRESHOLDS
+      );
 
-      if (shouldSwipeLeft) {
-        translateX.value = withTiming(-screenWidth * 1.5, IOSAnimations.timing);
-        translateY.value = withTiming(-100, IOSAnimations.timing);
-        opacity.value = withTiming(0, IOSAnimations.timing);
-        rotation.value = withTiming(-30, IOSAnimations.timing);
-        runOnJS(handleSwipeComplete)('left');
-      } else if (shouldSwipeRight) {
-        translateX.value = withTiming(screenWidth * 1.5, IOSAnimations.timing);
-        translateY.value = withTiming(-100, IOSAnimations.timing);
+      // Out-of-stock products cannot be swiped into the cart
+      if (direction !== 'none' && !(direction === 'up' && !product.availability)) {
+        const exit = EXIT_POSITIONS[direction];
+        translateX.value = withTiming(exit.x, IOSAnimations.timing);
+        translateY.value = withTiming(exit.y, IOSAnimations.timing);
         opacity.value = withTiming(0, IOSAnimations.timing);
-        rotation.value = withTiming(30, IOSAnimations.timing);
-        runOnJS(handleSwipeComplete)('right');
+        rotation.value = withTiming(exit.rotation, IOSAnimations.timing);
+        runOnJS(handleSwipeComplete)(direction);
       } else {
         // iOS-style spring animation back to center
         translateX.value = withSpring(0, IOSAnimations.spring);
@@ -164,15 +201,38 @@ export const IOSSwipeableCard: React.FC<IOSSwipeableCardProps> = ({
     };
   });
 
+  const cartOverlayStyle = useAnimatedStyle(() => {
+    const opacities = AdvancedGestureHandler.calculateOverlayOpacity(
+      translateX.value,
+      SWIPE_THRESHOLD,
+      translateY.value,
+      VERTICAL_SWIPE_THRESHOLD
+    );
+    return {
+      opacity: opacities.cart,
+    };
+  });
+
+  const superlikeOverlayStyle = useAnimatedStyle(() => {
+    const opacities = AdvancedGestureHandler.calculateOverlayOpacity(
+      translateX.value,
+      SWIPE_THRESHOLD,
+      translateY.value,
+      VERTICAL_SWIPE_THRESHOLD
+    );
+    return {
+      opacity: opacities.superlike,
+    };
+  });
+
   // Helper function to animate card swipe programmatically
-  const animateSwipe = useCallback((direction: 'left' | 'right') => {
-    const targetX = direction === 'right' ? screenWidth * 1.5 : -screenWidth * 1.5;
-    const targetRotation = direction === 'right' ? 30 : -30;
+  const animateSwipe = useCallback((direction: SwipeDirection) => {
+    const exit = EXIT_POSITIONS[direction];
 
-    translateX.value = withTiming(targetX, IOSAnimations.timing);
-    translateY.value = withTiming(-100, IOSAnimations.timing);
+    translateX.value = withTiming(exit.x, IOSAnimations.timing);
+    translateY.value = withTiming(exit.y, IOSAnimations.timing);
     opacity.value = withTiming(0, IOSAnimations.timing);
-    rotation.value = withTiming(targetRotation, IOSAnimations.timing);
+    rotation.value = withTiming(exit.rotation, IOSAnimations.timing);
     
     runOnJS(handleSwipeComplete)(direction);
   }, [translateX, translateY, opacity, rotation, handleSwipeComplete]);
@@ -235,6 +295,14 @@ export const IOSSwipeableCard: React.FC<IOSSwipeableCardProps> = ({
             <Animated.View style={[IOSCardStyles.overlay, IOSCardStyles.skipOverlay, skipOverlayStyle]}>
               <Text style={IOSCardStyles.overlayText}>SKIP</Text>
             </Animated.View>
+
+            <Animated.View style={[IOSCardStyles.overlay, IOSCardStyles.cartOverlay, cartOverlayStyle]}>
+              <Text style={IOSCardStyles.overlayText}>ADD TO CART</Text>
+            </Animated.View>
+
+            <Animated.View style={[IOSCardStyles.overlay, IOSCardStyles.superlikeOverlay, superlikeOverlayStyle]}>
+              <Text style={IOSCardStyles.overlayText}>SUPER LIKE</Text>
+            </Animated.View>
           </View>
 
           {/* Product Info with iOS styling */}
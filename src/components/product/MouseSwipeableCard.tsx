@@ -1,4 +1,4 @@
-import React, { useCallback, useState, useRef } from "react";
+import React, { useCallback, useEffect, useState, useRef } from "react";
 import {
   View,
   Text,
@@ -9,19 +9,47 @@ import {
   Pressable,
   PanResponder,
   Animated,
+  AccessibilityInfo,
+  AccessibilityActionEvent,
 } from "react-native";
 import { useNavigation } from "@react-navigation/native";
 import { StackNavigationProp } from "@react-navigation/stack";
-import { ProductCard, MainStackParamList } from "../../types";
-import { getSwipeActionService } from "../../services/SwipeActionService";
+import { ProductCard, MainStackParamList, SwipeDirection } from "../../types";
+import { getSwipeActionService, SWIPE_DIRECTION_ACTIONS } from "../../services/SwipeActionService";
+import { AdvancedGestureHandler, SwipeThresholds } from "../../utils/AdvancedGestureHandler";
+import {
+  SwipeCommand,
+  SWIPE_ACCESSIBILITY_ACTIONS,
+  SWIPE_KEYBOARD_HINT,
+  getProductAccessibilityLabel,
+  getSwipeCommandForAccessibilityAction,
+} from "../../utils/SwipeControls";
+import { useSwipeKeyboardControls } from "../../hooks/useSwipeKeyboardControls";
 import { AddToCartButton } from "./AddToCartButton";
 import { ViewDetailsButton } from "./ViewDetailsButton";
 import { MouseSwipeStyles } from "@/screens/Styles/CardStyles";
 
-const { width: screenWidth } = Dimensions.get("window");
+const { width: screenWidth, height: screenHeight } = Dimensions.get("window");
 // Limit card width for large screens (max 500px)
 const CARD_WIDTH = Math.min(screenWidth * 0.9, 500);
 const SWIPE_THRESHOLD = 100;
+const VERTICAL_SWIPE_THRESHOLD = 120;
+
+// PanResponder velocities are in px/ms
+const SWIPE_THRESHOLDS: SwipeThresholds = {
+  left: { distance: SWIPE_THRESHOLD, velocity: 0.5 },
+  right: { distance: SWIPE_THRESHOLD, velocity: 0.5 },
+  up: { distance: VERTICAL_SWIPE_THRESHOLD, velocity: 0.8 },
+  down: { distance: VERTICAL_SWIPE_THRESHOLD, velocity: 0.9 },
+};
+
+// Where the card ends up after leaving in each direction
+const EXIT_POSITIONS: Record<SwipeDirection, { x: number; y: number; rotate: number }> = {
+  left: { x: -screenWidth, y: -100, rotate: -0.3 },
+  right: { x: screenWidth, y: -100, rotate: 0.3 },
+  up: { x: 0, y: -screenHeight, rotate: 0 },
+  down: { x: 0, y: screenHeight, rotate: 0 },
+};
 
 type MouseSwipeableCardNavigationProp = StackNavigationProp<MainStackParamList>;
 
@@ -30,9 +58,19 @@ interface MouseSwipeableCardProps {
   userId: string;
   onSwipeLeft?: (productId: string) => void;
   onSwipeRight?: (productId: string) => void;
+  /** Swipe up (add to cart). Falls back to onAddToCart */
+  onSwipeUp?: (productId: string) => void;
+  /** Swipe down (super-like). Falls back to opening product details */
+  onSwipeDown?: (productId: string) => void;
   onAddToCart?: (productId: string) => void;
   onViewDetails?: (productId: string) => void;
   isTopCard?: boolean;
+  /** When false the parent records swipes itself; the card only plays haptics */
+  recordSwipes?: boolean;
+  /** Animate the card back in from the side it was swiped to (undo) */
+  enterFrom?: SwipeDirection;
+  /** Listen for keyboard shortcuts (web) while this is the top card */
+  keyboardControls?: boolean;
 }
 
 export const MouseSwipeableCard: React.FC<MouseSwipeableCardProps> = ({
@@ -40,41 +78,62 @@ export const MouseSwipeableCard: React.FC<MouseSwipeableCardProps> = ({
   userId,
   onSwipeLeft,
   onSwipeRight,
+  onSwipeUp,
+  onSwipeDown,
   onAddToCart,
   onViewDetails,
   isTopCard = true,
+  recordSwipes = true,
+  enterFrom,
+  keyboardControls = true,
 }) => {
   const navigation = useNavigation<MouseSwipeableCardNavigationProp>();
   const swipeActionService = getSwipeActionService(userId);
 
-  // Animation values
-  const pan = useRef(new Animated.ValueXY()).current;
-  const rotate = useRef(new Animated.Value(0)).current;
+  // Animation values. A restored card starts where its swipe-out animation ended.
+  const enterPosition = enterFrom ? EXIT_POSITIONS[enterFrom] : { x: 0, y: 0, rotate: 0 };
+  const pan = useRef(new Animated.ValueXY({ x: enterPosition.x, y: enterPosition.y })).current;
+  const rotate = useRef(new Animated.Value(enterPosition.rotate)).current;
   const [isDragging, setIsDragging] = useState(false);
+  // Set once the card starts leaving so repeated key presses don't swipe it twice
+  const isExitingRef = useRef(false);
 
   const handleSwipeComplete = useCallback(
-    (direction: "left" | "right") => {
+    (direction: SwipeDirection) => {
       // Advance UI immediately
-      if (direction === "left") {
-        onSwipeLeft?.(product.id);
-      } else {
-        onSwipeRight?.(product.id);
+      switch (direction) {
+        case "left":
+          onSwipeLeft?.(product.id);
+          break;
+        case "right":
+          onSwipeRight?.(product.id);
+          break;
+        case "up":
+          (onSwipeUp ?? onAddToCart)?.(product.id);
+          break;
+        case "down":
+          if (onSwipeDown) {
+            onSwipeDown(product.id);
+          } else {
+            navigation.navigate("ProductDetails", { productId: product.id, product });
+          }
+          break;
       }
 
       // Run side effects after UI update (non-blocking)
       setTimeout(async () => {
         try {
-          if (direction === "left") {
-            await swipeActionService.onSwipeLeft(product.id);
+          if (!recordSwipes) {
+            await swipeActionService.playSwipeFeedback(SWIPE_DIRECTION_ACTIONS[direction]);
           } else {
-            await swipeActionService.onSwipeRight(product.id);
+            await swipeActionService.onSwipe(direction, product.id);
           }
         } catch (error) {
           console.error("Error handling swipe:", error);
         }
       }, 0);
     },
-    [product.id, swipeActionService, onSwipeLeft, onSwipeRight]
+    [product, swipeActionService, navigation, onSwipeLeft, onSwipeRight, onSwipeUp, onSwipeDown, onAddToCart, recordSwipes]
   );
 
   const resetPosition = useCallback(() => {
@@ -90,18 +149,39 @@ export const MouseSwipeableCard: React.FC<MouseSwipeableCardProps> = ({
     ]).start();
   }, [pan, rotate]);
 
+  // Reverse of the swipe-out animation for a card restored by undo
+  useEffect(() => {
+    if (!enterFrom) return;
+
+    Animated.parallel([
+      Animated.timing(pan, {
+        toValue: { x: 0, y: 0 },
+        duration: 300,
+        useNativeDriver: true,
+      }),
+      Animated.timing(rotate, {
+        toValue: 0,
+        duration: 300,
+        useNativeDriver: true,
+      }),
+    ]).start();
+  }, [enterFrom, pan, rotate]);
+
   const animateSwipe = useCallback(
-    (direction: "left" | "right") => {
-      const toValue = direction === "left" ? -screenWidth : screenWidth;
+    (direction: SwipeDirection) => {
+      if (isExitingRef.current) return;
+      isExitingRef.current = true;
+
+      const exit = EXIT_POSITIONS[direction];
 
       Animated.parallel([
         Animated.timing(pan, {
-          toValue: { x: toValue, y: -100 },
+          toValue: { x: exit.x, y: exit.y },
           duration: 300,
           useNativeDriver: true,
         }),
         Animated.timing(rotate, {
-          toValue: direction === "left" ? -0.3 : 0.3,
+          toValue: exit.rotate,
           duration: 300,
           useNativeDriver: true,
         }),
@@ -114,11 +194,8 @@ export const MouseSwipeableCard: React.FC<MouseSwipeableCardProps> = ({
 
   const panResponder = PanResponder.create({
     onMoveShouldSetPanResponder: (evt, gestureState) => {
-      // Only respond to horizontal swipes
-      return (
-        Math.abs(gestureState.dx) > Math.abs(gestureState.dy) &&
-        Math.abs(gestureState.dx) > 10
-      );
+      // Respond to deliberate drags in any direction
+      return Math.abs(gestureState.dx) > 10 || Math.abs(gestureState.dy) > 10;
     },
     onPanResponderGrant: () => {
       setIsDragging(true);
@@ -128,24 +205,27 @@ export const MouseSwipeableCard: React.FC<MouseSwipeableCardProps> = ({
       });
     },
     onPanResponderMove: (evt, gestureState) => {
-      // Update position and rotation based on drag
-      pan.setValue({ x: gestureState.dx, y: gestureState.dy * 0.1 });
-      rotate.setValue(gestureState.dx * 0.001);
+      // Follow the dominant axis; the other axis only moves slightly
+      if (Math.abs(gestureState.dy) > Math.abs(gestureState.dx)) {
+        pan.setValue({ x: gestureState.dx * 0.1, y: gestureState.dy });
+        rotate.setValue(0);
+      } else {
+        pan.setValue({ x: gestureState.dx, y: gestureState.dy * 0.1 });
+        rotate.setValue(gestureState.dx * 0.001);
+      }
     },
     onPanResponderRelease: (evt, gestureState) => {
       setIsDragging(false);
       pan.flattenOffset();
 
-      const { dx, vx } = gestureState;
-      const shouldSwipeLeft = dx < -SWIPE_THRESHOLD || vx < -0.5;
-      const shouldSwipeRight = dx > SWIPE_THRESHOLD || vx > 0.5;
+      const { dx, dy, vx, vy } = gestureState;
+      const direction = AdvancedGestureHandler.resolveSwipeDirection(dx, dy, vx, vy, SWIPE_THRESHOLDS);
 
-      if (shouldSwipeLeft) {
-        animateSwipe("left");
-      } else if (shouldSwipeRight) {
-        animateSwipe("right");
-      } else {
+      // Out-of-stock products cannot be swiped into the cart
+      if (direction === "none" || (direction === "up" && !product.availability)) {
         resetPosition();
+      } else {
+        animateSwipe(direction);
       }
     },
   });
@@ -177,6 +257,40 @@ export const MouseSwipeableCard: React.FC<MouseSwipeableCardProps> = ({
     }
   }, [product, swipeActionService, navigation, onViewDetails, isDragging]);
 
+  // Keyboard shortcuts and screen reader actions drive the same exit
+  // animation and completion path as a drag
+  const runSwipeCommand = useCallback(
+    (command: SwipeCommand) => {
+      if (command === "details") {
+        handleViewDetails();
+        return;
+      }
+
+      if (command === "up" && !product.availability) {
+        AccessibilityInfo.announceForAccessibility("Out of stock, cannot add to cart");
+        return;
+      }
+
+      animateSwipe(command);
+    },
+    [handleViewDetails, animateSwipe, product.availability]
+  );
+
+  const handleAccessibilityAction = useCallback(
+    (event: AccessibilityActionEvent) => {
+      const command = getSwipeCommandForAccessibilityAction(event.nativeEvent.actionName);
+      if (command) {
+        runSwipeCommand(command);
+      }
+    },
+    [runSwipeCommand]
+  );
+
+  const { keyboardEnabled } = useSwipeKeyboardControls({
+    enabled: isTopCard && keyboardControls,
+    onCommand: runSwipeCommand,
+  });
+
   const primaryImage =
     product.imageUrls[0] || "https://via.placeholder.com/300x400";
   const formattedPrice = `${product.currency}${product.price.toFixed(2)}`;
@@ -194,6 +308,32 @@ export const MouseSwipeableCard: React.FC<MouseSwipeableCardProps> = ({
     extrapolate: "clamp",
   });
 
+  // Vertical overlays fade out as the drag turns horizontal, so the slight
+  // lift of a left/right exit does not flash them
+  const horizontalSuppression = pan.x.interpolate({
+    inputRange: [-SWIPE_THRESHOLD, 0, SWIPE_THRESHOLD],
+    outputRange: [0, 1, 0],
+    extrapolate: "clamp",
+  });
+
+  const cartOpacity = Animated.multiply(
+    pan.y.interpolate({
+      inputRange: [-VERTICAL_SWIPE_THRESHOLD, 0],
+      outputRange: [1, 0],
+      extrapolate: "clamp",
+    }),
+    horizontalSuppression
+  );
+
+  const superlikeOpacity = Animated.multiply(
+    pan.y.interpolate({
+      inputRange: [0, VERTICAL_SWIPE_THRESHOLD],
+      outputRange: [0, 1],
+      extrapolate: "clamp",
+    }),
+    horizontalSuppression
+  );
+
   const cardStyle = {
     transform: [
       { translateX: pan.x },
@@ -208,12 +348,25 @@ export const MouseSwipeableCard: React.FC<MouseSwipeableCardProps> = ({
   };
 
   return (
-    <View style={MouseSwipeStyles.cardContainer}>
+    <View
+      style={MouseSwipeStyles.cardContainer}
+      // Cards underneath the top card are decoration for screen readers
+      accessibilityElementsHidden={!isTopCard}
+      importantForAccessibility={isTopCard ? "auto" : "no-hide-descendants"}
+    >
       <Animated.View
         style={[MouseSwipeStyles.card, cardStyle]}
         {...panResponder.panHandlers}
       >
-        <Pressable style={MouseSwipeStyles.cardContent} onPress={handleViewDetails}>
+        <Pressable
+          style={MouseSwipeStyles.cardContent}
+          onPress={handleViewDetails}
+          accessibilityRole="button"
+          accessibilityLabel={getProductAccessibilityLabel(product)}
+          accessibilityHint="Double tap to view details. Use actions to like, skip or add to cart."
+          accessibilityActions={SWIPE_ACCESSIBILITY_ACTIONS}
+          onAccessibilityAction={handleAccessibilityAction}
+        >
           {/* Product Image */}
           <View style={MouseSwipeStyles.imageContainer}>
             <Image source={{ uri: primaryImage }} style={MouseSwipeStyles.productImage} />
@@ -242,6 +395,26 @@ export const MouseSwipeableCard: React.FC<MouseSwipeableCardProps> = ({
             >
               <Text style={MouseSwipeStyles.overlayText}>SKIP</Text>
             </Animated.View>
+
+            <Animated.View
+              style={[
+                MouseSwipeStyles.overlay,
+                MouseSwipeStyles.cartOverlay,
+                { opacity: cartOpacity },
+              ]}
+            >
+              <Text style={MouseSwipeStyles.overlayText}>ADD TO CART</Text>
+            </Animated.View>
+
+            <Animated.View
+              style={[
+                MouseSwipeStyles.overlay,
+                MouseSwipeStyles.superlikeOverlay,
+                { opacity: superlikeOpacity },
+              ]}
+            >
+              <Text style={MouseSwipeStyles.overlayText}>SUPER LIKE</Text>
+            </Animated.View>
           </View>
 
           {/* Product Info */}
@@ -300,7 +473,9 @@ export const MouseSwipeableCard: React.FC<MouseSwipeableCardProps> = ({
       {isTopCard && (
         <View style={MouseSwipeStyles.instructionsContainer}>
           <Text style={MouseSwipeStyles.instructionsText}>
-            💡 Drag left to skip, right to like, or use buttons below
+            {keyboardEnabled
+              ? `💡 Drag the card or press ${SWIPE_KEYBOARD_HINT}`
+              : "💡 Drag left to skip, right to like, up for cart, down to super-like"}
           </Text>
         </View>
       )}
@@ -0,0 +1,563 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  ActivityIndicator,
+  StyleSheet,
+} from 'react-native';
+import { getReviewProvider } from '../../data/providers';
+import {
+  ProductReview,
+  ReviewEligibility,
+  ReviewSortOrder,
+  ReviewSummary,
+  StarRating,
+} from '../../types/reviews';
+
+const PAGE_SIZE = 5;
+const STAR_VALUES: StarRating[] = [5, 4, 3, 2, 1];
+
+const SORT_OPTIONS: { value: ReviewSortOrder; label: string }[] = [
+  { value: 'recent', label: 'Most recent' },
+  { value: 'helpful', label: 'Most helpful' },
+  { value: 'rating_high', label: 'Highest rated' },
+  { value: 'rating_low', label: 'Lowest rated' },
+];
+
+const renderStars = (rating: number): string => {
+  const rounded = Math.round(rating);
+  return '★'.repeat(rounded) + '☆'.repeat(5 - rounded);
+};
+
+interface ReviewsSectionProps {
+  productId: string;
+  userId: string;
+  authorName: string;
+}
+
+/**
+ * Rating summary, paginated reviews and the write-a-review form for a product.
+ * Reviews can only be written for products in the shopper's order history.
+ */
+export const ReviewsSection: React.FC<ReviewsSectionProps> = ({
+  productId,
+  userId,
+  authorName,
+}) => {
+  const [summary, setSummary] = useState<ReviewSummary | null>(null);
+  const [reviews, setReviews] = useState<ProductReview[]>([]);
+  const [page, setPage] = useState(1);
+  const [hasMore, setHasMore] = useState(false);
+  const [sort, setSort] = useState<ReviewSortOrder>('recent');
+  const [eligibility, setEligibility] = useState<ReviewEligibility | null>(null);
+  const [votedReviewIds, setVotedReviewIds] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const [showForm, setShowForm] = useState(false);
+  const [draftRating, setDraftRating] = useState(0);
+  const [draftTitle, setDraftTitle] = useState('');
+  const [draftBody, setDraftBody] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [submitError, setSubmitError] = useState<string | null>(null);
+
+  const loadReviews = useCallback(async () => {
+    const provider = getReviewProvider();
+    try {
+      setLoading(true);
+      setError(null);
+      const [nextSummary, firstPage, nextEligibility] = await Promise.all([
+        provider.getReviewSummary(productId),
+        provider.getReviews(productId, { page: 1, limit: PAGE_SIZE, sort, viewerId: userId }),
+        provider.getReviewEligibility(productId, userId),
+      ]);
+      setSummary(nextSummary);
+      setReviews(firstPage.reviews);
+      setPage(1);
+      setHasMore(firstPage.hasMore);
+      setEligibility(nextEligibility);
+    } catch (loadError) {
+      console.error('Failed to load reviews:', loadError);
+      setError('Reviews are unavailable right now.');
+    } finally {
+      setLoading(false);
+    }
+  }, [productId, userId, sort]);
+
+  useEffect(() => {
+    loadReviews();
+  }, [loadReviews]);
+
+  const handleLoadMore = async () => {
+    try {
+      setLoadingMore(true);
+      const nextPage = await getReviewProvider().getReviews(productId, {
+        page: page + 1,
+        limit: PAGE_SIZE,
+        sort,
+        viewerId: userId,
+      });
+      setReviews(prev => [...prev, ...nextPage.reviews]);
+      setPage(nextPage.page);
+      setHasMore(nextPage.hasMore);
+    } catch (loadError) {
+      console.error('Failed to load more reviews:', loadError);
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  const handleHelpful = async (review: ProductReview) => {
+    try {
+      const updated = await getReviewProvider().voteHelpful(review.id, userId);
+      setVotedReviewIds(prev => [...prev, review.id]);
+      setReviews(prev => prev.map(item => (item.id === updated.id ? updated : item)));
+    } catch (voteError) {
+      console.warn('Helpful vote was not recorded:', voteError);
+    }
+  };
+
+  const handleSubmit = async () => {
+    try {
+      setSubmitting(true);
+      setSubmitError(null);
+      await getReviewProvider().submitReview(userId, {
+        productId,
+        rating: draftRating,
+        title: draftTitle,
+        body: draftBody,
+        authorName,
+      });
+      setShowForm(false);
+      setDraftRating(0);
+      setDraftTitle('');
+      setDraftBody('');
+      await loadReviews();
+    } catch (submitFailure) {
+      setSubmitError(
+        submitFailure instanceof Error ? submitFailure.message : 'Failed to submit review'
+      );
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const renderSummary = () => {
+    if (!summary || summary.totalReviews === 0) {
+      return <Text style={styles.emptyText}>No reviews yet.</Text>;
+    }
+
+    return (
+      <View style={styles.summary}>
+        <View style={styles.summaryScore}>
+          <Text style={styles.averageRating}>{summary.averageRating.toFixed(1)}</Text>
+          <Text style={styles.stars}>{renderStars(summary.averageRating)}</Text>
+          <Text style={styles.reviewCount}>
+            {summary.totalReviews} {summary.totalReviews === 1 ? 'review' : 'reviews'}
+          </Text>
+        </View>
+        <View style={styles.histogram}>
+          {STAR_VALUES.map(star => {
+            const count = summary.histogram[star];
+            const share = summary.totalReviews > 0 ? count / summary.totalReviews : 0;
+            return (
+              <View
+                key={star}
+                style={styles.histogramRow}
+                accessibilityLabel={`${star} stars: ${count} reviews`}
+              >
+                <Text style={styles.histogramLabel}>{star}★</Text>
+                <View style={styles.histogramTrack}>
+                  <View style={[styles.histogramFill, { width: `${Math.round(share * 100)}%` }]} />
+                </View>
+                <Text style={styles.histogramCount}>{count}</Text>
+              </View>
+            );
+          })}
+        </View>
+      </View>
+    );
+  };
+
+  const renderForm = () => {
+    if (!eligibility) {
+      return null;
+    }
+    if (!eligibility.canReview) {
+      return (
+        <Text style={styles.eligibilityNote}>
+          {eligibility.reason === 'already_reviewed'
+            ? 'Thanks, you have already reviewed this product.'
+            : 'Only customers who bought this product can review it.'}
+        </Text>
+      );
+    }
+    if (!showForm) {
+      return (
+        <TouchableOpacity
+          style={styles.writeButton}
+          onPress={() => setShowForm(true)}
+          accessibilityRole="button"
+        >
+          <Text style={styles.writeButtonText}>Write a review</Text>
+        </TouchableOpacity>
+      );
+    }
+
+    return (
+      <View style={styles.form}>
+        <View style={styles.starPicker}>
+          {[1, 2, 3, 4, 5].map(value => (
+            <TouchableOpacity
+              key={value}
+              onPress={() => setDraftRating(value)}
+              accessibilityRole="button"
+              accessibilityLabel={`${value} star${value === 1 ? '' : 's'}`}
+              accessibilityState={{ selected: draftRating === value }}
+            >
+              <Text style={styles.starPickerStar}>{value <= draftRating ? '★' : '☆'}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+        <TextInput
+          style={styles.input}
+          placeholder="Title (optional)"
+          value={draftTitle}
+          onChangeText={setDraftTitle}
+          maxLength={100}
+        />
+        <TextInput
+          style={[styles.input, styles.bodyInput]}
+          placeholder="What did you like or dislike?"
+          value={draftBody}
+          onChangeText={setDraftBody}
+          multiline
+        />
+        {submitError && <Text style={styles.errorText}>{submitError}</Text>}
+        <View style={styles.formActions}>
+          <TouchableOpacity onPress={() => setShowForm(false)} disabled={submitting}>
+            <Text style={styles.cancelText}>Cancel</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.submitButton, (submitting || draftRating === 0) && styles.disabledButton]}
+            onPress={handleSubmit}
+            disabled={submitting || draftRating === 0}
+          >
+            <Text style={styles.submitButtonText}>{submitting ? 'Submitting...' : 'Submit'}</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  };
+
+  const renderReview = (review: ProductReview) => {
+    const isOwn = review.userId === userId;
+    const hasVoted = votedReviewIds.includes(review.id);
+
+    return (
+      <View key={review.id} style={styles.review}>
+        <View style={styles.reviewHeader}>
+          <Text style={styles.reviewStars}>{renderStars(review.rating)}</Text>
+          {review.moderationStatus !== 'approved' && (
+            <Text style={styles.pendingBadge}>
+              {review.moderationStatus === 'pending' ? 'Awaiting moderation' : 'Not published'}
+            </Text>
+          )}
+        </View>
+        {review.title ? <Text style={styles.reviewTitle}>{review.title}</Text> : null}
+        <Text style={styles.reviewMeta}>
+          {review.authorName} · {review.createdAt.toLocaleDateString()}
+          {review.verifiedPurchase ? ' · Verified purchase' : ''}
+        </Text>
+        <Text style={styles.reviewBody}>{review.body}</Text>
+        {!isOwn && review.moderationStatus === 'approved' && (
+          <TouchableOpacity
+            style={styles.helpfulButton}
+            onPress={() => handleHelpful(review)}
+            disabled={hasVoted}
+            accessibilityRole="button"
+            accessibilityState={{ disabled: hasVoted }}
+          >
+            <Text style={[styles.helpfulText, hasVoted && styles.helpfulTextVoted]}>
+              {hasVoted ? 'Marked helpful' : 'Helpful'} ({review.helpfulCount})
+            </Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.sectionTitle}>Reviews</Text>
+      {loading ? (
+        <ActivityIndicator size="small" color="#007AFF" />
+      ) : error ? (
+        <Text style={styles.errorText}>{error}</Text>
+      ) : (
+        <>
+          {renderSummary()}
+          {renderForm()}
+          {reviews.length > 1 && (
+            <View style={styles.sortRow}>
+              {SORT_OPTIONS.map(option => (
+                <TouchableOpacity
+                  key={option.value}
+                  style={[styles.sortChip, sort === option.value && styles.sortChipSelected]}
+                  onPress={() => setSort(option.value)}
+                  accessibilityState={{ selected: sort === option.value }}
+                >
+                  <Text
+                    style={[styles.sortText, sort === option.value && styles.sortTextSelected]}
+                  >
+                    {option.label}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          )}
+          {reviews.map(renderReview)}
+          {hasMore && (
+            <TouchableOpacity
+              style={styles.loadMoreButton}
+              onPress={handleLoadMore}
+              disabled={loadingMore}
+            >
+              <Text style={styles.loadMoreText}>
+                {loadingMore ? 'Loading...' : 'Show more reviews'}
+              </Text>
+            </TouchableOpacity>
+          )}
+        </>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: 8,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#212529',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#6C757D',
+    marginBottom: 8,
+  },
+  summary: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  summaryScore: {
+    alignItems: 'center',
+    marginRight: 16,
+    minWidth: 80,
+  },
+  averageRating: {
+    fontSize: 32,
+    fontWeight: 'bold',
+    color: '#212529',
+  },
+  stars: {
+    fontSize: 14,
+    color: '#F5A623',
+  },
+  reviewCount: {
+    fontSize: 12,
+    color: '#6C757D',
+    marginTop: 2,
+  },
+  histogram: {
+    flex: 1,
+  },
+  histogramRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginVertical: 2,
+  },
+  histogramLabel: {
+    width: 28,
+    fontSize: 12,
+    color: '#495057',
+  },
+  histogramTrack: {
+    flex: 1,
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: '#E9ECEF',
+    overflow: 'hidden',
+  },
+  histogramFill: {
+    height: '100%',
+    backgroundColor: '#F5A623',
+  },
+  histogramCount: {
+    width: 28,
+    textAlign: 'right',
+    fontSize: 12,
+    color: '#6C757D',
+  },
+  eligibilityNote: {
+    fontSize: 13,
+    color: '#6C757D',
+    marginBottom: 12,
+  },
+  writeButton: {
+    alignSelf: 'flex-start',
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#1976D2',
+    marginBottom: 12,
+  },
+  writeButtonText: {
+    color: '#1976D2',
+    fontWeight: '600',
+  },
+  form: {
+    padding: 12,
+    borderRadius: 8,
+    backgroundColor: '#F8F9FA',
+    marginBottom: 12,
+  },
+  starPicker: {
+    flexDirection: 'row',
+    marginBottom: 8,
+  },
+  starPickerStar: {
+    fontSize: 28,
+    color: '#F5A623',
+    marginRight: 4,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#CED4DA',
+    borderRadius: 8,
+    backgroundColor: '#FFFFFF',
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 14,
+    marginBottom: 8,
+  },
+  bodyInput: {
+    minHeight: 80,
+    textAlignVertical: 'top',
+  },
+  formActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    alignItems: 'center',
+  },
+  cancelText: {
+    color: '#6C757D',
+    marginRight: 16,
+  },
+  submitButton: {
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+    borderRadius: 8,
+    backgroundColor: '#1976D2',
+  },
+  disabledButton: {
+    opacity: 0.5,
+  },
+  submitButtonText: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  errorText: {
+    fontSize: 13,
+    color: '#D32F2F',
+    marginBottom: 8,
+  },
+  sortRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 8,
+  },
+  sortChip: {
+    paddingVertical: 4,
+    paddingHorizontal: 10,
+    borderRadius: 12,
+    backgroundColor: '#F1F3F5',
+    marginRight: 6,
+    marginBottom: 6,
+  },
+  sortChipSelected: {
+    backgroundColor: '#E3F2FD',
+  },
+  sortText: {
+    fontSize: 12,
+    color: '#495057',
+  },
+  sortTextSelected: {
+    color: '#1976D2',
+    fontWeight: '600',
+  },
+  review: {
+    paddingVertical: 12,
+    borderTopWidth: 1,
+    borderTopColor: '#E9ECEF',
+  },
+  reviewHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  reviewStars: {
+    fontSize: 14,
+    color: '#F5A623',
+  },
+  pendingBadge: {
+    fontSize: 11,
+    color: '#E65100',
+    fontWeight: '600',
+  },
+  reviewTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#212529',
+    marginTop: 4,
+  },
+  reviewMeta: {
+    fontSize: 12,
+    color: '#6C757D',
+    marginTop: 2,
+  },
+  reviewBody: {
+    fontSize: 14,
+    color: '#343A40',
+    lineHeight: 20,
+    marginTop: 6,
+  },
+  helpfulButton: {
+    alignSelf: 'flex-start',
+    marginTop: 8,
+  },
+  helpfulText: {
+    fontSize: 13,
+    color: '#1976D2',
+  },
+  helpfulTextVoted: {
+    color: '#6C757D',
+  },
+  loadMoreButton: {
+    alignItems: 'center',
+    paddingVertical: 12,
+  },
+  loadMoreText: {
+    color: '#1976D2',
+    fontWeight: '600',
+  },
+});
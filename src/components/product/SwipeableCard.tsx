@@ -19,22 +19,40 @@ import Animated, {
 } from 'react-native-reanimated';
 import { useNavigation } from '@react-navigation/native';
 import { StackNavigationProp } from '@react-navigation/stack';
-import { ProductCard, MainStackParamList } from '../../types';
+import { ProductCard, MainStackParamList, SwipeDirection } from '../../types';
 import { getSwipeActionService } from '../../services/SwipeActionService';
 import { AddToCartButton } from './AddToCartButton';
 import { ViewDetailsButton } from './ViewDetailsButton';
 import { OptimizedImage } from '../common/OptimizedImage';
 import { GesturePerformanceManager } from '../../utils/PerformanceUtils';
-import { AdvancedGestureHandler } from '../../utils/AdvancedGestureHandler';
+import {
+  AdvancedGestureHandler,
+  DEFAULT_SWIPE_THRESHOLDS,
+  SwipeThresholds,
+} from '../../utils/AdvancedGestureHandler';
 import { useErrorHandler } from '../../hooks/useErrorHandler';
 import { SwipeableCardStyles } from '@/screens/Styles/CardStyles';
 import { SimplifiedAnimationController, FrameRateLimiter } from '../../utils/AnimationOptimizer';
 import { SwipeOptimizer } from '../../utils/SwipeOptimizer';
 
-const { width: screenWidth } = Dimensions.get('window');
+const { width: screenWidth, height: screenHeight } = Dimensions.get('window');
 const CARD_WIDTH = screenWidth * 0.9;
 const SWIPE_THRESHOLD = screenWidth * 0.25;
 
+// Cached gesture velocity is in px/ms
+const SWIPE_THRESHOLDS: SwipeThresholds = {
+  ...DEFAULT_SWIPE_THRESHOLDS,
+  left: { distance: SWIPE_THRESHOLD, velocity: 0.5 },
+  right: { distance: SWIPE_THRESHOLD, velocity: 0.5 },
+};
+
+const EXIT_POSITIONS: Record<SwipeDirection, { x: number; y: number }> = {
+  left: { x: -screenWidth * 1.5, y: -100 },
+  right: { x: screenWidth * 1.5, y: -100 },
+  up: { x: 0, y: -screenHeight * 1.5 },
+  down: { x: 0, y: screenHeight * 1.5 },
+};
+
 type SwipeableCardNavigationProp = StackNavigationProp<MainStackParamList>;
 
 interface SwipeableCardProps {
@@ -42,6 +60,10 @@ interface SwipeableCardProps {
   userId: string;
   onSwipeLeft?: (productId: string) => void;
   onSwipeRight?: (productId: string) => void;
+  /** Swipe up (add to cart). Falls back to onAddToCart */
+  onSwipeUp?: (productId: string) => void;
+  /** Swipe down (super-like). Falls back to opening product details */
+  onSwipeDown?: (productId: string) => void;
   onAddToCart?: (productId: string) => void;
   onViewDetails?: (productId: string) => void;
   isTopCard?: boolean;
@@ -52,6 +74,8 @@ export const SwipeableCard: React.FC<SwipeableCardProps> = memo(({
   userId,
   onSwipeLeft,
   onSwipeRight,
+  onSwipeUp,
+  onSwipeDown,
   onAddToCart,
   onViewDetails,
   isTopCard = true,
@@ -80,14 +104,26 @@ export const SwipeableCard: React.FC<SwipeableCardProps> = memo(({
   }, []);
 
   const handleSwipeComplete = useCallback(
-    async (direction: 'left' | 'right') => {
+    async (direction: SwipeDirection) => {
       try {
-        if (direction === 'left') {
-          await swipeActionService.onSwipeLeft(product.id);
-          onSwipeLeft?.(product.id);
-        } else {
-          await swipeActionService.onSwipeRight(product.id);
-          onSwipeRight?.(product.id);
+        await swipeActionService.onSwipe(direction, product.id);
+        switch (direction) {
+          case 'left':
+            onSwipeLeft?.(product.id);
+            break;
+          case 'right':
+            onSwipeRight?.(product.id);
+            break;
+          case 'up':
+            (onSwipeUp ?? onAddToCart)?.(product.id);
+            break;
+          case 'down':
+            if (onSwipeDown) {
+              onSwipeDown(product.id);
+            } else {
+              navigation.navigate('ProductDetails', { productId: product.id, product });
+            }
+            break;
         }
       } catch (error) {
         console.error('Error handling swipe:', error);
@@ -98,7 +134,7 @@ export const SwipeableCard: React.FC<SwipeableCardProps> = memo(({
         });
       }
     },
-    [product.id, swipeActionService, onSwipeLeft, onSwipeRight]
+    [product, swipeActionService, navigation, onSwipeLeft, onSwipeRight, onSwipeUp, onSwipeDown, onAddToCart]
   );
 
   const panGesture = Gesture.Pan()
@@ -121,42 +157,35 @@ export const SwipeableCard: React.FC<SwipeableCardProps> = memo(({
         return;
       }
 
-      // Direct assignment - no interpolation overhead
-      translateX.value = event.translationX;
-      translateY.value = event.translationY * 0.1;
+      // Direct assignment - no interpolation overhead.
+      // Follow the dominant axis; the other axis only moves slightly.
+      const vertical = Math.abs(event.translationY) > Math.abs(event.translationX);
+      translateX.value = vertical ? event.translationX * 0.1 : event.translationX;
+      translateY.value = vertical ? event.translationY : event.translationY * 0.1;
     })
     .onEnd(() => {
-      const swipeDirection = AdvancedGestureHandler.shouldCommitSwipe(
+      const swipeDirection = AdvancedGestureHandler.shouldCommitDirectionalSwipe(
         translateX.value,
-        SWIPE_THRESHOLD,
-        0.5 // velocity threshold
+        translateY.value,
+        SWIPE_THRESHOLDS
       );
 
-      if (swipeDirection === 'left') {
+      // Out-of-stock products cannot be swiped into the cart
+      if (swipeDirection !== 'none' && !(swipeDirection === 'up' && !product.availability)) {
+        const horizontal = swipeDirection === 'left' || swipeDirection === 'right';
+        const velocity = AdvancedGestureHandler.getVelocity();
         const duration = AdvancedGestureHandler.getAnimationDuration(
-          Math.abs(translateX.value),
-          Math.abs(AdvancedGestureHandler.getVelocity().x),
+          Math.abs(horizontal ? translateX.value : translateY.value),
+          Math.abs(horizontal ? velocity.x : velocity.y),
           200,
           400
         );
-        translateX.value = withTiming(-screenWidth * 1.5, { duration });
-        translateY.value = withTiming(-100, { duration });
+        const exit = EXIT_POSITIONS[swipeDirection];
+        translateX.value = withTiming(exit.x, { duration });
+        translateY.value = withTiming(exit.y, { duration });
         opacity.value = withTiming(0, { duration });
-        runOnJS(handleSwipeComplete)('left');
-        runOnJS(GesturePerformanceManager.endGestureTracking)('swipe-left');
-        runOnJS(SwipeOptimizer.endAnimation)(duration);
-      } else if (swipeDirection === 'right') {
-        const duration = AdvancedGestureHandler.getAnimationDuration(
-          Math.abs(translateX.value),
-          Math.abs(AdvancedGestureHandler.getVelocity().x),
-          200,
-          400
-        );
-        translateX.value = withTiming(screenWidth * 1.5, { duration });
-        translateY.value = withTiming(-100, { duration });
-        opacity.value = withTiming(0, { duration });
-        runOnJS(handleSwipeComplete)('right');
-        runOnJS(GesturePerformanceManager.endGestureTracking)('swipe-right');
+        runOnJS(handleSwipeComplete)(swipeDirection);
+        runOnJS(GesturePerformanceManager.endGestureTracking)(`swipe-${swipeDirection}`);
         runOnJS(SwipeOptimizer.endAnimation)(duration);
       } else {
         // Snap back to center with spring animation
@@ -195,6 +224,30 @@ export const SwipeableCard: React.FC<SwipeableCardProps> = memo(({
     };
   });
 
+  const cartOverlayStyle = useAnimatedStyle(() => {
+    const opacities = AdvancedGestureHandler.calculateOverlayOpacity(
+      translateX.value,
+      SWIPE_THRESHOLD,
+      translateY.value,
+      SWIPE_THRESHOLDS.up.distance
+    );
+    return {
+      opacity: opacities.cart,
+    };
+  });
+
+  const superlikeOverlayStyle = useAnimatedStyle(() => {
+    const opacities = AdvancedGestureHandler.calculateOverlayOpacity(
+      translateX.value,
+      SWIPE_THRESHOLD,
+      translateY.value,
+      SWIPE_THRESHOLDS.down.distance
+    );
+    return {
+      opacity: opacities.superlike,
+    };
+  });
+
   const handleAddToCart = useCallback(async () => {
     try {
       await swipeActionService.onAddToCart(product.id);
@@ -254,6 +307,14 @@ export const SwipeableCard: React.FC<SwipeableCardProps> = memo(({
             <Animated.View style={[SwipeableCardStyles.overlay, SwipeableCardStyles.skipOverlay, skipOverlayStyle]}>
               <Text style={SwipeableCardStyles.overlayText}>SKIP</Text>
             </Animated.View>
+
+            <Animated.View style={[SwipeableCardStyles.overlay, SwipeableCardStyles.cartOverlay, cartOverlayStyle]}>
+              <Text style={SwipeableCardStyles.overlayText}>ADD TO CART</Text>
+            </Animated.View>
+
+            <Animated.View style={[SwipeableCardStyles.overlay, SwipeableCardStyles.superlikeOverlay, superlikeOverlayStyle]}>
+              <Text style={SwipeableCardStyles.overlayText}>SUPER LIKE</Text>
+            </Animated.View>
           </View>
 
           {/* Product Info */}
@@ -0,0 +1,152 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { ProductCard } from '../../types';
+import {
+  findVariant,
+  isOptionValueAvailable,
+  VariantSelection,
+} from '../../utils/productVariants';
+
+const LOW_STOCK_THRESHOLD = 3;
+
+interface VariantPickerProps {
+  product: ProductCard;
+  selection: VariantSelection;
+  onChange: (selection: VariantSelection) => void;
+}
+
+/**
+ * Option chips (size, color, ...) for products with variants.
+ * Values that cannot lead to an in-stock variant are shown disabled.
+ */
+export const VariantPicker: React.FC<VariantPickerProps> = ({
+  product,
+  selection,
+  onChange,
+}) => {
+  if (!product.variantOptions || product.variantOptions.length === 0) {
+    return null;
+  }
+
+  const variant = findVariant(product, selection);
+
+  const renderStockNote = () => {
+    if (!variant) {
+      return null;
+    }
+    if (variant.stock <= 0) {
+      return <Text style={[styles.stockNote, styles.outOfStock]}>This option is out of stock</Text>;
+    }
+    if (variant.stock <= LOW_STOCK_THRESHOLD) {
+      return <Text style={[styles.stockNote, styles.lowStock]}>Only {variant.stock} left</Text>;
+    }
+    return null;
+  };
+
+  return (
+    <View style={styles.container}>
+      {product.variantOptions.map(option => (
+        <View key={option.name} style={styles.optionGroup}>
+          <Text style={styles.optionLabel}>
+            {option.name}
+            {selection[option.name] ? `: ${selection[option.name]}` : ''}
+          </Text>
+          <View style={styles.valueRow}>
+            {option.values.map(value => {
+              const selected = selection[option.name] === value;
+              const available = isOptionValueAvailable(product, selection, option.name, value);
+
+              return (
+                <TouchableOpacity
+                  key={value}
+                  style={[
+                    styles.valueChip,
+                    selected && styles.valueChipSelected,
+                    !available && styles.valueChipUnavailable,
+                  ]}
+                  onPress={() => onChange({ ...selection, [option.name]: value })}
+                  accessibilityRole="button"
+                  accessibilityLabel={`${option.name} ${value}${available ? '' : ', unavailable'}`}
+                  accessibilityState={{ selected }}
+                >
+                  <Text
+                    style={[
+                      styles.valueText,
+                      selected && styles.valueTextSelected,
+                      !available && styles.valueTextUnavailable,
+                    ]}
+                  >
+                    {value}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        </View>
+      ))}
+      {renderStockNote()}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: 12,
+    marginBottom: 4,
+  },
+  optionGroup: {
+    marginBottom: 12,
+  },
+  optionLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#212529',
+    marginBottom: 8,
+  },
+  valueRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  valueChip: {
+    minWidth: 44,
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    marginRight: 8,
+    marginBottom: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#CED4DA',
+    backgroundColor: '#FFFFFF',
+    alignItems: 'center',
+  },
+  valueChipSelected: {
+    borderColor: '#1976D2',
+    backgroundColor: '#E3F2FD',
+  },
+  valueChipUnavailable: {
+    borderStyle: 'dashed',
+    backgroundColor: '#F8F9FA',
+  },
+  valueText: {
+    fontSize: 14,
+    color: '#212529',
+  },
+  valueTextSelected: {
+    color: '#1976D2',
+    fontWeight: '600',
+  },
+  valueTextUnavailable: {
+    color: '#ADB5BD',
+    textDecorationLine: 'line-through',
+  },
+  stockNote: {
+    fontSize: 13,
+    fontWeight: '500',
+  },
+  lowStock: {
+    color: '#E65100',
+  },
+  outOfStock: {
+    color: '#D32F2F',
+  },
+});
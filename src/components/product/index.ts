@@ -2,4 +2,6 @@
 export { SwipeableCard } from './SwipeableCard';
 export { AddToCartButton } from './AddToCartButton';
 export { ViewDetailsButton } from './ViewDetailsButton';
-export { ImageGallery } from './ImageGallery';
\ No newline at end of file
+export { ImageGallery } from './ImageGallery';
+export { VariantPicker } from './VariantPicker';
+export { ReviewsSection } from './ReviewsSection';
\ No newline at end of file
@@ -0,0 +1,84 @@
+import React, { memo, useEffect, useState } from 'react';
+import { View, Text, Modal, TouchableOpacity, TextInput } from 'react-native';
+import { WishlistCollectionStyles } from '../../screens/Styles/WishlistCollectionStyles';
+
+interface CollectionNameModalProps {
+  visible: boolean;
+  title: string;
+  submitLabel: string;
+  initialName?: string;
+  onSubmit: (name: string) => void;
+  onClose: () => void;
+}
+
+/**
+ * Name entry for creating or renaming a wishlist collection.
+ * Alert.prompt is iOS only, so this is a small modal instead.
+ */
+export const CollectionNameModal = memo<CollectionNameModalProps>(({
+  visible,
+  title,
+  submitLabel,
+  initialName = '',
+  onSubmit,
+  onClose,
+}) => {
+  const [name, setName] = useState(initialName);
+
+  // Start from the current name each time the modal opens
+  useEffect(() => {
+    if (visible) {
+      setName(initialName);
+    }
+  }, [visible, initialName]);
+
+  const canSubmit = name.trim().length > 0;
+
+  return (
+    <Modal
+      visible={visible}
+      transparent={true}
+      animationType="slide"
+      onRequestClose={onClose}
+    >
+      <View style={WishlistCollectionStyles.modalOverlay}>
+        <View style={WishlistCollectionStyles.modalContent}>
+          <View style={WishlistCollectionStyles.modalHeader}>
+            <Text style={WishlistCollectionStyles.modalTitle}>{title}</Text>
+            <TouchableOpacity
+              style={WishlistCollectionStyles.modalCloseButton}
+              onPress={onClose}
+              accessibilityRole="button"
+              accessibilityLabel="Close"
+            >
+              <Text style={WishlistCollectionStyles.modalCloseButtonText}>✕</Text>
+            </TouchableOpacity>
+          </View>
+
+          <TextInput
+            style={WishlistCollectionStyles.nameInput}
+            value={name}
+            onChangeText={setName}
+            placeholder="e.g. Gift ideas"
+            autoFocus
+            maxLength={40}
+            returnKeyType="done"
+            onSubmitEditing={() => canSubmit && onSubmit(name)}
+          />
+          <TouchableOpacity
+            style={[
+              WishlistCollectionStyles.submitButton,
+              !canSubmit && WishlistCollectionStyles.submitButtonDisabled,
+            ]}
+            onPress={() => onSubmit(name)}
+            disabled={!canSubmit}
+          >
+            <Text style={WishlistCollectionStyles.submitButtonText}>{submitLabel}</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+});
+
+CollectionNameModal.displayName = 'CollectionNameModal';
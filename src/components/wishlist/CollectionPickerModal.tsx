@@ -0,0 +1,71 @@
+import React, { memo } from 'react';
+import { View, Text, Modal, TouchableOpacity, FlatList } from 'react-native';
+import { WishlistCollection } from '../../services/WishlistService';
+import { WishlistCollectionStyles } from '../../screens/Styles/WishlistCollectionStyles';
+
+interface CollectionPickerModalProps {
+  visible: boolean;
+  title: string;
+  collections: WishlistCollection[];
+  /** Collections shown with a check mark, e.g. the ones an item is already in */
+  selectedIds?: string[];
+  onSelect: (collectionId: string) => void;
+  onClose: () => void;
+}
+
+/**
+ * Bottom sheet listing wishlist collections. Used to pick where a right
+ * swipe saves a product and to move items between collections.
+ */
+export const CollectionPickerModal = memo<CollectionPickerModalProps>(({
+  visible,
+  title,
+  collections,
+  selectedIds = [],
+  onSelect,
+  onClose,
+}) => (
+  <Modal
+    visible={visible}
+    transparent={true}
+    animationType="slide"
+    onRequestClose={onClose}
+  >
+    <View style={WishlistCollectionStyles.modalOverlay}>
+      <View style={WishlistCollectionStyles.modalContent}>
+        <View style={WishlistCollectionStyles.modalHeader}>
+          <Text style={WishlistCollectionStyles.modalTitle}>{title}</Text>
+          <TouchableOpacity
+            style={WishlistCollectionStyles.modalCloseButton}
+            onPress={onClose}
+            accessibilityRole="button"
+            accessibilityLabel="Close"
+          >
+            <Text style={WishlistCollectionStyles.modalCloseButtonText}>✕</Text>
+          </TouchableOpacity>
+        </View>
+
+        <FlatList
+          data={collections}
+          keyExtractor={item => item.id}
+          renderItem={({ item }) => {
+            const selected = selectedIds.includes(item.id);
+            return (
+              <TouchableOpacity
+                style={WishlistCollectionStyles.collectionRow}
+                onPress={() => onSelect(item.id)}
+                accessibilityRole="button"
+                accessibilityState={{ selected }}
+              >
+                <Text style={WishlistCollectionStyles.collectionName}>{item.name}</Text>
+                {selected && <Text style={WishlistCollectionStyles.collectionCheck}>✓</Text>}
+              </TouchableOpacity>
+            );
+          }}
+        />
+      </View>
+    </View>
+  </Modal>
+));
+
+CollectionPickerModal.displayName = 'CollectionPickerModal';
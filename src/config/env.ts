@@ -60,6 +60,10 @@ const warnPublicValue = (name: string, value: string): string => {
 export const AppConfig = {
   app: {
     environment,
+    // Keep in step with the version in app.json; experiment audiences target it
+    version: process.env.EXPO_PUBLIC_APP_VERSION?.trim() || '1.0.0',
+    // Crash reports carry the build so they can be matched to a release
+    buildNumber: process.env.EXPO_PUBLIC_BUILD_NUMBER?.trim() || '1',
   },
   api: {
     baseUrl: requirePublicValue(
@@ -1,11 +1,13 @@
 import { AppConfig } from '../../config/env';
 import { CartItem, ProductCard } from '../../types';
 import { CartService, getCartService } from '../../services/CartService';
+import { getOutboxService } from '../../services/OutboxService';
+import { VariantSelection } from '../../utils/productVariants';
 
 export interface CartProvider {
-  addToCart(productId: string, quantity?: number): Promise<void>;
-  removeFromCart(productId: string): Promise<void>;
-  updateQuantity(productId: string, quantity: number): Promise<void>;
+  addToCart(productId: string, quantity?: number, selectedVariants?: VariantSelection): Promise<void>;
+  removeFromCart(lineId: string): Promise<void>;
+  updateQuantity(lineId: string, quantity: number): Promise<void>;
   getCartItems(): Promise<CartItem[]>;
   getCartItemsWithDetails(): Promise<(CartItem & { product: ProductCard })[]>;
   clearCart(): Promise<void>;
@@ -20,16 +22,20 @@ export class MockCartProvider implements CartProvider {
     this.cartService = getCartService();
   }
 
-  async addToCart(productId: string, quantity?: number): Promise<void> {
-    return this.cartService.addToCart(productId, quantity);
+  async addToCart(
+    productId: string,
+    quantity?: number,
+    selectedVariants?: VariantSelection
+  ): Promise<void> {
+    return this.cartService.addToCart(productId, quantity, selectedVariants);
   }
 
-  async removeFromCart(productId: string): Promise<void> {
-    return this.cartService.removeFromCart(productId);
+  async removeFromCart(lineId: string): Promise<void> {
+    return this.cartService.removeFromCart(lineId);
   }
 
-  async updateQuantity(productId: string, quantity: number): Promise<void> {
-    return this.cartService.updateQuantity(productId, quantity);
+  async updateQuantity(lineId: string, quantity: number): Promise<void> {
+    return this.cartService.updateQuantity(lineId, quantity);
   }
 
   async getCartItems(): Promise<CartItem[]> {
@@ -66,39 +72,47 @@ export class ApiCartProvider implements CartProvider {
     }
   }
 
-  async addToCart(productId: string, quantity: number = 1): Promise<void> {
+  async addToCart(
+    productId: string,
+    quantity: number = 1,
+    selectedVariants?: VariantSelection
+  ): Promise<void> {
     this.ensureConfigured();
-    const response = await fetch(`${this.baseUrl}/cart/items`, {
+    const response = await getOutboxService().sendOrEnqueue({
+      type: 'cart.add',
+      url: `${this.baseUrl}/cart/items`,
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ productId, quantity }),
+      body: { productId, quantity, selectedVariants },
     });
 
-    if (!response.ok) {
+    if (response && !response.ok) {
       throw new Error(`Failed to add to cart: ${response.status}`);
     }
   }
 
-  async removeFromCart(productId: string): Promise<void> {
+  async removeFromCart(lineId: string): Promise<void> {
     this.ensureConfigured();
-    const response = await fetch(`${this.baseUrl}/cart/items/${productId}`, {
+    const response = await getOutboxService().sendOrEnqueue({
+      type: 'cart.remove',
+      url: `${this.baseUrl}/cart/items/${encodeURIComponent(lineId)}`,
       method: 'DELETE',
     });
 
-    if (!response.ok) {
+    if (response && !response.ok) {
       throw new Error(`Failed to remove from cart: ${response.status}`);
     }
   }
 
-  async updateQuantity(productId: string, quantity: number): Promise<void> {
+  async updateQuantity(lineId: string, quantity: number): Promise<void> {
     this.ensureConfigured();
-    const response = await fetch(`${this.baseUrl}/cart/items/${productId}`, {
+    const response = await getOutboxService().sendOrEnqueue({
+      type: 'cart.update_quantity',
+      url: `${this.baseUrl}/cart/items/${encodeURIComponent(lineId)}`,
       method: 'PATCH',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ quantity }),
+      body: { quantity },
     });
 
-    if (!response.ok) {
+    if (response && !response.ok) {
       throw new Error(`Failed to update cart quantity: ${response.status}`);
     }
   }
@@ -131,11 +145,13 @@ export class ApiCartProvider implements CartProvider {
 
   async clearCart(): Promise<void> {
     this.ensureConfigured();
-    const response = await fetch(`${this.baseUrl}/cart/items`, {
+    const response = await getOutboxService().sendOrEnqueue({
+      type: 'cart.clear',
+      url: `${this.baseUrl}/cart/items`,
       method: 'DELETE',
     });
 
-    if (!response.ok) {
+    if (response && !response.ok) {
       throw new Error(`Failed to clear cart: ${response.status}`);
     }
   }
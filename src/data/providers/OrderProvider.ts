@@ -0,0 +1,189 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AppConfig } from '../../config/env';
+import { Order } from '../../types/checkout';
+import { OrderService } from '../../services/OrderService';
+
+const ORDER_PAGE_SIZE = 100;
+// Ids of orders changed on this device whose upload has not succeeded yet
+const PENDING_UPLOADS_STORAGE_KEY = 'swipely_pending_order_uploads';
+
+export interface OrderProvider {
+  saveOrder(order: Order): Promise<void>;
+  getOrderHistory(userId: string): Promise<Order[]>;
+  getOrderById(userId: string, orderId: string): Promise<Order | null>;
+}
+
+export class MockOrderProvider implements OrderProvider {
+  async saveOrder(order: Order): Promise<void> {
+    return OrderService.saveOrder(order);
+  }
+
+  async getOrderHistory(userId: string): Promise<Order[]> {
+    return OrderService.getOrderHistory(userId);
+  }
+
+  async getOrderById(userId: string, orderId: string): Promise<Order | null> {
+    return OrderService.getOrderById(userId, orderId);
+  }
+}
+
+const toOrder = (order: Order): Order => ({
+  ...order,
+  createdAt: new Date(order.createdAt),
+  estimatedDelivery: new Date(order.estimatedDelivery),
+  ...(order.refunds && {
+    refunds: order.refunds.map(refund => ({ ...refund, createdAt: new Date(refund.createdAt) })),
+  }),
+});
+
+const getPendingUploads = async (userId: string): Promise<Set<string>> => {
+  const data = await AsyncStorage.getItem(`${PENDING_UPLOADS_STORAGE_KEY}_${userId}`);
+  return new Set(data ? (JSON.parse(data) as string[]) : []);
+};
+
+const savePendingUploads = async (userId: string, orderIds: Set<string>): Promise<void> => {
+  if (orderIds.size === 0) {
+    await AsyncStorage.removeItem(`${PENDING_UPLOADS_STORAGE_KEY}_${userId}`);
+  } else {
+    await AsyncStorage.setItem(
+      `${PENDING_UPLOADS_STORAGE_KEY}_${userId}`,
+      JSON.stringify([...orderIds])
+    );
+  }
+};
+
+/**
+ * Reads order history from the server. Every order is written to the local copy
+ * first, so history is still available offline. Orders the server has not seen
+ * and local changes whose upload failed, such as a cancellation made offline,
+ * keep their local copy and are uploaded the next time history loads.
+ */
+export class ApiOrderProvider implements OrderProvider {
+  private readonly baseUrl: string;
+
+  constructor(baseUrl: string = AppConfig.api.baseUrl) {
+    this.baseUrl = baseUrl;
+  }
+
+  private ensureConfigured(): void {
+    if (!this.baseUrl) {
+      throw new Error('API mode is enabled but EXPO_PUBLIC_API_BASE_URL is not configured.');
+    }
+  }
+
+  private async uploadOrder(order: Order): Promise<void> {
+    this.ensureConfigured();
+    const response = await fetch(`${this.baseUrl}/orders`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(order),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to save order: ${response.status}`);
+    }
+  }
+
+  private async fetchOrderHistory(userId: string): Promise<Order[]> {
+    this.ensureConfigured();
+    const orders: Order[] = [];
+    let hasMore = true;
+
+    while (hasMore) {
+      const response = await fetch(
+        `${this.baseUrl}/orders?userId=${encodeURIComponent(userId)}&limit=${ORDER_PAGE_SIZE}&offset=${orders.length}`,
+        { method: 'GET' }
+      );
+
+      if (!response.ok) {
+        throw new Error(`Failed to fetch orders: ${response.status}`);
+      }
+
+      const data = await response.json();
+      const page: Order[] = Array.isArray(data.orders) ? data.orders : [];
+      orders.push(...page.map(toOrder));
+      hasMore = Boolean(data.hasMore) && page.length > 0;
+    }
+
+    return orders;
+  }
+
+  async saveOrder(order: Order): Promise<void> {
+    await OrderService.saveOrder(order);
+
+    const pending = await getPendingUploads(order.userId);
+    try {
+      await this.uploadOrder(order);
+      pending.delete(order.orderId);
+    } catch (error) {
+      console.warn('Order saved on this device only; it will be uploaded later:', error);
+      pending.add(order.orderId);
+    }
+    await savePendingUploads(order.userId, pending);
+  }
+
+  async getOrderHistory(userId: string): Promise<Order[]> {
+    let remoteOrders: Order[];
+    try {
+      remoteOrders = await this.fetchOrderHistory(userId);
+    } catch (error) {
+      console.warn('Failed to load orders from server, showing the local copy:', error);
+      return OrderService.getOrderHistory(userId);
+    }
+
+    const remoteIds = new Set(remoteOrders.map(order => order.orderId));
+    const pending = await getPendingUploads(userId);
+    const localChanges = (await OrderService.getOrderHistory(userId)).filter(
+      order => !remoteIds.has(order.orderId) || pending.has(order.orderId)
+    );
+    const localIds = new Set(localChanges.map(order => order.orderId));
+
+    await Promise.all(
+      localChanges.map(order =>
+        this.uploadOrder(order).then(
+          () => {
+            pending.delete(order.orderId);
+          },
+          error => {
+            console.warn(`Failed to upload order ${order.orderId}:`, error);
+          }
+        )
+      )
+    );
+    // Orders removed locally since they were queued no longer need uploading
+    for (const orderId of pending) {
+      if (!localIds.has(orderId)) {
+        pending.delete(orderId);
+      }
+    }
+    await savePendingUploads(userId, pending);
+
+    const orders = [
+      ...remoteOrders.filter(order => !localIds.has(order.orderId)),
+      ...localChanges,
+    ].sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+    await OrderService.replaceOrderHistory(userId, orders);
+    return orders;
+  }
+
+  async getOrderById(userId: string, orderId: string): Promise<Order | null> {
+    try {
+      this.ensureConfigured();
+      const response = await fetch(
+        `${this.baseUrl}/orders/${encodeURIComponent(orderId)}?userId=${encodeURIComponent(userId)}`,
+        { method: 'GET' }
+      );
+
+      if (response.status !== 404) {
+        if (!response.ok) {
+          throw new Error(`Failed to fetch order: ${response.status}`);
+        }
+        return toOrder(await response.json());
+      }
+    } catch (error) {
+      console.warn('Failed to load order from server, using the local copy:', error);
+    }
+
+    return OrderService.getOrderById(userId, orderId);
+  }
+}
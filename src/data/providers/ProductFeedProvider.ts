@@ -1,9 +1,32 @@
-import { CategoryPreferences, ProductCard, ProductFeedResponse, SwipeActionResponse } from '../../types';
+import {
+  CategoryPreferences,
+  ProductCard,
+  ProductFeedResponse,
+  SwipeAction,
+  SwipeActionResponse,
+  SwipeActionType,
+} from '../../types';
 import { AppConfig } from '../../config/env';
 import { ProductFeedService } from '../../services/ProductFeedService';
+import { FeedRankingService, getFeedRankingService } from '../../services/FeedRankingService';
+import { getSwipeHistoryService } from '../../services/SwipeHistoryService';
+import {
+  ProductSearchIndex,
+  getProductSearchService,
+  isInPriceRange,
+} from '../../services/ProductSearchService';
+import { offlineModeService } from '../../services/OfflineModeService';
+import { getOutboxService } from '../../services/OutboxService';
+
+const SWIPE_EXCLUSION_DAYS = 30;
+// DummyJSON search results fetched per query; facets and pages come from these
+const MAX_DUMMYJSON_SEARCH_MATCHES = 100;
+// Feed products fetched and ranked together; pages are served from that order
+const RANKED_FEED_CHUNK_SIZE = 100;
 
 export interface FeedFilters {
   categories?: string[];
+  brands?: string[];
   priceRange?: { min: number; max: number };
   excludeProductIds?: string[];
 }
@@ -15,13 +38,20 @@ export interface PaginationParams {
 
 export interface ProductFeedProvider {
   getProducts(pagination?: PaginationParams, filters?: FeedFilters): Promise<ProductFeedResponse>;
-  getPersonalizedFeed(pagination?: PaginationParams): Promise<ProductFeedResponse>;
-  refreshFeed(): Promise<ProductFeedResponse>;
+  getPersonalizedFeed(pagination?: PaginationParams, userId?: string): Promise<ProductFeedResponse>;
+  refreshFeed(userId?: string): Promise<ProductFeedResponse>;
+  searchProducts(
+    query: string,
+    pagination?: PaginationParams,
+    filters?: FeedFilters
+  ): Promise<ProductFeedResponse>;
+  getSearchSuggestions(query: string, limit?: number): Promise<string[]>;
   recordSwipeAction(
     productId: string,
-    action: 'like' | 'skip',
+    action: SwipeActionType,
     userId: string
   ): Promise<SwipeActionResponse>;
+  undoSwipeAction(swipeAction: SwipeAction, addedCategoryPreference?: string): Promise<void>;
 }
 
 export class MockProductFeedProvider implements ProductFeedProvider {
@@ -33,29 +63,61 @@ export class MockProductFeedProvider implements ProductFeedProvider {
   }
 
   async getPersonalizedFeed(
-    pagination: PaginationParams = { page: 1, limit: 10 }
+    pagination: PaginationParams = { page: 1, limit: 10 },
+    userId?: string
   ): Promise<ProductFeedResponse> {
-    return ProductFeedService.getPersonalizedFeed(pagination);
+    return ProductFeedService.getPersonalizedFeed(pagination, userId);
   }
 
-  async refreshFeed(): Promise<ProductFeedResponse> {
-    return ProductFeedService.refreshFeed();
+  async refreshFeed(userId?: string): Promise<ProductFeedResponse> {
+    return ProductFeedService.refreshFeed(userId);
+  }
+
+  async searchProducts(
+    query: string,
+    pagination: PaginationParams = { page: 1, limit: 10 },
+    filters?: FeedFilters
+  ): Promise<ProductFeedResponse> {
+    return ProductFeedService.searchProducts(query, pagination, filters);
+  }
+
+  async getSearchSuggestions(query: string, limit: number = 5): Promise<string[]> {
+    return ProductFeedService.getSearchSuggestions(query, limit);
   }
 
   async recordSwipeAction(
     productId: string,
-    action: 'like' | 'skip',
+    action: SwipeActionType,
     userId: string
   ): Promise<SwipeActionResponse> {
     return ProductFeedService.recordSwipeAction(productId, action, userId);
   }
+
+  async undoSwipeAction(swipeAction: SwipeAction, addedCategoryPreference?: string): Promise<void> {
+    return ProductFeedService.undoSwipeAction(swipeAction, addedCategoryPreference);
+  }
 }
 
 export class ApiProductFeedProvider implements ProductFeedProvider {
   private readonly baseUrl: string;
-
-  constructor(baseUrl: string = AppConfig.productFeed.baseUrl || AppConfig.api.baseUrl) {
+  private readonly ranker: FeedRankingService;
+  private readonly sessionId: string = Date.now().toString();
+  private swipeHistory: SwipeAction[] = [];
+  private knownProducts = new Map<string, ProductCard>();
+  private rankedFeed: {
+    key: string;
+    products: ProductCard[];
+    chunksFetched: number;
+    total: number;
+    filters: ProductFeedResponse['filters'];
+  } | null = null;
+
+  constructor(
+    baseUrl: string = AppConfig.productFeed.baseUrl || AppConfig.api.baseUrl,
+    ranker: FeedRankingService = getFeedRankingService()
+  ) {
     this.baseUrl = baseUrl;
+    this.ranker = ranker;
   }
 
   private ensureConfigured(): void {
@@ -66,6 +128,56 @@ export class ApiProductFeedProvider implements ProductFeedProvider {
     }
   }
 
+  /**
+   * Re-order a fetched chunk of the feed with the on-device ranking engine.
+   * With a userId, products swiped recently in any session are dropped and
+   * persisted history drives the ranking.
+   */
+  private async rankFeed(
+    response: ProductFeedResponse,
+    userId?: string
+  ): Promise<ProductFeedResponse> {
+    let products = Array.isArray(response.products) ? response.products : [];
+    products.forEach(product => this.knownProducts.set(product.id, product));
+
+    let history: SwipeAction[] = this.swipeHistory;
+
+    if (userId) {
+      try {
+        const historyService = getSwipeHistoryService();
+        const recentIds = new Set(
+          await historyService.getRecentlySwipedProductIds(userId, SWIPE_EXCLUSION_DAYS)
+        );
+        products = products.filter(product => !recentIds.has(product.id));
+        history = await historyService.getHistory(userId);
+      } catch (error) {
+        console.warn('Failed to read persisted swipe history:', error);
+      }
+    }
+
+    const ranked = this.ranker.rank(
+      products,
+      history,
+      productId => this.knownProducts.get(productId)
+    );
+    await this.cacheForOffline(ranked);
+
+    return { ...response, products: ranked };
+  }
+
+  /**
+   * Keep the latest feed products (ahead of older cached ones) so the feed
+   * still has something to show while offline
+   */
+  private async cacheForOffline(products: ProductCard[]): Promise<void> {
+    const ids = new Set(products.map(product => product.id));
+    const cachedProducts = await offlineModeService.getCachedProducts();
+    await offlineModeService.cacheProductData([
+      ...products,
+      ...cachedProducts.filter(product => !ids.has(product.id)),
+    ]);
+  }
+
   private isDummyJsonSource(): boolean {
     return /dummyjson\.com/i.test(this.baseUrl);
   }
@@ -128,10 +240,8 @@ export class ApiProductFeedProvider implements ProductFeedProvider {
         }
       }
 
-      if (filters?.priceRange) {
-        if (card.price < filters.priceRange.min || card.price > filters.priceRange.max) {
-          return false;
-        }
+      if (filters?.priceRange && !isInPriceRange(card.price, filters.priceRange)) {
+        return false;
       }
 
       if (filters?.excludeProductIds?.length) {
@@ -181,11 +291,10 @@ export class ApiProductFeedProvider implements ProductFeedProvider {
     return response.json();
   }
 
-  async getPersonalizedFeed(
-    pagination: PaginationParams = { page: 1, limit: 10 }
-  ): Promise<ProductFeedResponse> {
-    this.ensureConfigured();
-
+  /**
+   * Fetch one page of the personalized feed, in the server's order
+   */
+  private async fetchPersonalizedPage(pagination: PaginationParams): Promise<ProductFeedResponse> {
     if (this.isDummyJsonSource()) {
       return this.getDummyJsonFeed(pagination);
     }
@@ -203,49 +312,376 @@ export class ApiProductFeedProvider implements ProductFeedProvider {
     return response.json();
   }
 
-  async refreshFeed(): Promise<ProductFeedResponse> {
+  async getPersonalizedFeed(
+    pagination: PaginationParams = { page: 1, limit: 10 },
+    userId?: string
+  ): Promise<ProductFeedResponse> {
     this.ensureConfigured();
 
-    if (this.isDummyJsonSource()) {
-      return this.getDummyJsonFeed({ page: 1, limit: 10 });
+    // Rank once per feed; later pages reuse this order. Candidates are fetched
+    // and ranked in chunks, and a chunk is only added once the pages before it
+    // have been served, so the order of those pages never changes.
+    const key = userId ?? '';
+    if (pagination.page === 1 || this.rankedFeed?.key !== key) {
+      this.rankedFeed = { key, products: [], chunksFetched: 0, total: 0, filters: { categories: [] } };
+    }
+    const feed = this.rankedFeed!;
+    const startIndex = (pagination.page - 1) * pagination.limit;
+    const endIndex = startIndex + pagination.limit;
+
+    while (
+      feed.products.length < endIndex &&
+      (feed.chunksFetched === 0 || feed.chunksFetched * RANKED_FEED_CHUNK_SIZE < feed.total)
+    ) {
+      const response = await this.fetchPersonalizedPage({
+        page: feed.chunksFetched + 1,
+        limit: RANKED_FEED_CHUNK_SIZE,
+      });
+      const ranked = await this.rankFeed(response, userId);
+      const rankedIds = new Set(feed.products.map(product => product.id));
+      feed.products.push(...ranked.products.filter(product => !rankedIds.has(product.id)));
+      feed.chunksFetched += 1;
+      feed.total = Number(response.pagination?.total) || 0;
+      feed.filters = ranked.filters;
+      if (!Array.isArray(response.products) || response.products.length === 0) {
+        break;
+      }
     }
 
-    const response = await fetch(`${this.baseUrl}/feed/refresh`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-    });
+    return {
+      products: feed.products.slice(startIndex, endIndex),
+      pagination: {
+        page: pagination.page,
+        limit: pagination.limit,
+        total: feed.total,
+        hasMore:
+          endIndex < feed.products.length || feed.chunksFetched * RANKED_FEED_CHUNK_SIZE < feed.total,
+      },
+      filters: feed.filters,
+    };
+  }
 
-    if (!response.ok) {
-      throw new Error(`Failed to refresh feed: ${response.status}`);
+  async refreshFeed(userId?: string): Promise<ProductFeedResponse> {
+    return this.getPersonalizedFeed({ page: 1, limit: 10 }, userId);
+  }
+
+  async searchProducts(
+    query: string,
+    pagination: PaginationParams = { page: 1, limit: 10 },
+    filters?: FeedFilters
+  ): Promise<ProductFeedResponse> {
+    this.ensureConfigured();
+
+    try {
+      let result: ProductFeedResponse;
+
+      if (this.isDummyJsonSource()) {
+        // Fetch every match so facets are counted before filtering, as the
+        // on-device search does, and page over the filtered matches here
+        const limit = Math.max(1, pagination.limit);
+        const skip = Math.max(0, (pagination.page - 1) * limit);
+        const response = await fetch(
+          `${this.baseUrl}/products/search?q=${encodeURIComponent(query)}&limit=${MAX_DUMMYJSON_SEARCH_MATCHES}`
+        );
+
+        if (!response.ok) {
+          throw new Error(`Failed to search products from DummyJSON: ${response.status}`);
+        }
+
+        const data = await response.json();
+        const cards: ProductCard[] = Array.isArray(data.products)
+          ? data.products.map((product: any) => this.mapDummyProductToCard(product))
+          : [];
+        const filteredCards = cards.filter(card => ProductSearchIndex.matchesFilters(card, filters));
+
+        result = {
+          products: filteredCards.slice(skip, skip + limit),
+          pagination: {
+            page: pagination.page,
+            limit,
+            total: filteredCards.length,
+            hasMore: skip + limit < filteredCards.length,
+          },
+          filters: {
+            categories: filters?.categories || [],
+            priceRange: filters?.priceRange,
+          },
+          facets: new ProductSearchIndex().buildFacets(cards),
+        };
+      } else {
+        const response = await fetch(`${this.baseUrl}/products/search`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ query, pagination, filters }),
+        });
+
+        if (!response.ok) {
+          throw new Error(`Failed to search products: ${response.status}`);
+        }
+
+        result = await response.json();
+      }
+
+      result.products.forEach(product => this.knownProducts.set(product.id, product));
+
+      return {
+        ...result,
+        facets: result.facets || new ProductSearchIndex().buildFacets(result.products),
+      };
+    } catch (error) {
+      console.warn('Remote search failed, searching cached products:', error);
+      return this.searchLocally(query, pagination, filters);
     }
+  }
 
-    return response.json();
+  /**
+   * Search products seen this session plus the offline cache with the on-device index
+   */
+  private async searchLocally(
+    query: string,
+    pagination: PaginationParams,
+    filters?: FeedFilters
+  ): Promise<ProductFeedResponse> {
+    const cachedProducts = await offlineModeService.getCachedProducts();
+    const result = getProductSearchService().search(
+      query,
+      [...this.knownProducts.values(), ...cachedProducts],
+      filters
+    );
+
+    const startIndex = (pagination.page - 1) * pagination.limit;
+    const endIndex = startIndex + pagination.limit;
+
+    return {
+      products: result.matches.slice(startIndex, endIndex).map(match => match.product),
+      pagination: {
+        page: pagination.page,
+        limit: pagination.limit,
+        total: result.total,
+        hasMore: endIndex < result.total,
+      },
+      filters: {
+        categories: filters?.categories || [],
+        priceRange: filters?.priceRange,
+      },
+      facets: result.facets,
+    };
+  }
+
+  async getSearchSuggestions(query: string, limit: number = 5): Promise<string[]> {
+    const cachedProducts = await offlineModeService.getCachedProducts();
+    return getProductSearchService().suggest(
+      query,
+      [...this.knownProducts.values(), ...cachedProducts],
+      limit
+    );
   }
 
   async recordSwipeAction(
     productId: string,
-    action: 'like' | 'skip',
+    action: SwipeActionType,
     userId: string
   ): Promise<SwipeActionResponse> {
     this.ensureConfigured();
 
+    // Keep local history so the ranking engine can learn between fetches
+    const swipeAction: SwipeAction = {
+      userId,
+      productId,
+      action,
+      timestamp: new Date(),
+      sessionId: this.sessionId,
+    };
+    this.swipeHistory.push(swipeAction);
+    // Ranking with a userId reads the persisted history, which keeps this many
+    const { maxEntries } = getSwipeHistoryService().getRetention();
+    if (this.swipeHistory.length > maxEntries) {
+      this.swipeHistory.splice(0, this.swipeHistory.length - maxEntries);
+    }
+
+    try {
+      await getSwipeHistoryService().recordSwipe({
+        ...swipeAction,
+        categoryId: this.knownProducts.get(productId)?.category.id,
+      });
+    } catch (error) {
+      console.warn('Failed to persist swipe action:', error);
+    }
+
     if (this.isDummyJsonSource()) {
       return {
         success: true,
         message: `${action} action recorded locally`,
+        swipeAction,
       };
     }
 
-    const response = await fetch(`${this.baseUrl}/swipe-actions`, {
+    const response = await getOutboxService().sendOrEnqueue({
+      type: 'swipe.record',
+      url: `${this.baseUrl}/swipe-actions`,
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ productId, action, userId }),
+      body: { productId, action, userId },
     });
 
+    if (!response) {
+      return {
+        success: true,
+        message: `${action} action queued until the device is back online`,
+        swipeAction,
+      };
+    }
+
     if (!response.ok) {
       throw new Error(`Failed to record swipe action: ${response.status}`);
     }
 
-    return response.json();
+    const result: SwipeActionResponse = await response.json();
+    return { ...result, swipeAction };
+  }
+
+  async undoSwipeAction(swipeAction: SwipeAction): Promise<void> {
+    this.ensureConfigured();
+
+    const time = new Date(swipeAction.timestamp).getTime();
+    this.swipeHistory = this.swipeHistory.filter(
+      action => !(action.productId === swipeAction.productId && action.timestamp.getTime() === time)
+    );
+
+    try {
+      await getSwipeHistoryService().removeSwipe(
+        swipeAction.userId,
+        swipeAction.productId,
+        swipeAction.timestamp
+      );
+    } catch (error) {
+      console.warn('Failed to remove persisted swipe action:', error);
+    }
+
+    if (this.isDummyJsonSource()) {
+      return;
+    }
+
+    const response = await getOutboxService().sendOrEnqueue({
+      type: 'swipe.undo',
+      url: `${this.baseUrl}/swipe-actions/undo`,
+      method: 'POST',
+      body: {
+        productId: swipeAction.productId,
+        action: swipeAction.action,
+        userId: swipeAction.userId,
+        timestamp: new Date(swipeAction.timestamp).toISOString(),
+      },
+    });
+
+    if (response && !response.ok) {
+      throw new Error(`Failed to undo swipe action: ${response.status}`);
+    }
+  }
+}
+
+/**
+ * Serves the feed from products cached by the online provider while the
+ * device is offline. Swipes still go through the online provider, which
+ * queues them in the outbox until connectivity returns.
+ */
+export class CachedProductFeedProvider implements ProductFeedProvider {
+  constructor(private readonly online: ProductFeedProvider) {}
+
+  private paginate(
+    products: ProductCard[],
+    pagination: PaginationParams,
+    filters?: FeedFilters
+  ): ProductFeedResponse {
+    const startIndex = (pagination.page - 1) * pagination.limit;
+    const endIndex = startIndex + pagination.limit;
+
+    return {
+      products: products.slice(startIndex, endIndex),
+      pagination: {
+        page: pagination.page,
+        limit: pagination.limit,
+        total: products.length,
+        hasMore: endIndex < products.length,
+      },
+      filters: {
+        categories: filters?.categories || [],
+        priceRange: filters?.priceRange,
+      },
+    };
+  }
+
+  private async getUnswipedProducts(userId?: string): Promise<ProductCard[]> {
+    const cachedProducts = await offlineModeService.getCachedProducts();
+    if (!userId) {
+      return cachedProducts;
+    }
+
+    try {
+      const recentIds = new Set(
+        await getSwipeHistoryService().getRecentlySwipedProductIds(userId, SWIPE_EXCLUSION_DAYS)
+      );
+      return cachedProducts.filter(product => !recentIds.has(product.id));
+    } catch (error) {
+      console.warn('Failed to read persisted swipe history:', error);
+      return cachedProducts;
+    }
+  }
+
+  async getProducts(
+    pagination: PaginationParams = { page: 1, limit: 10 },
+    filters?: FeedFilters
+  ): Promise<ProductFeedResponse> {
+    const cachedProducts = await offlineModeService.getCachedProducts();
+    const excluded = new Set(filters?.excludeProductIds ?? []);
+    const products = cachedProducts.filter(
+      product => !excluded.has(product.id) && ProductSearchIndex.matchesFilters(product, filters)
+    );
+    return this.paginate(products, pagination, filters);
+  }
+
+  async getPersonalizedFeed(
+    pagination: PaginationParams = { page: 1, limit: 10 },
+    userId?: string
+  ): Promise<ProductFeedResponse> {
+    return this.paginate(await this.getUnswipedProducts(userId), pagination);
+  }
+
+  async refreshFeed(userId?: string): Promise<ProductFeedResponse> {
+    return this.getPersonalizedFeed({ page: 1, limit: 10 }, userId);
+  }
+
+  async searchProducts(
+    query: string,
+    pagination: PaginationParams = { page: 1, limit: 10 },
+    filters?: FeedFilters
+  ): Promise<ProductFeedResponse> {
+    const cachedProducts = await offlineModeService.getCachedProducts();
+    const result = getProductSearchService().search(query, cachedProducts, filters);
+
+    return {
+      ...this.paginate(
+        result.matches.map(match => match.product),
+        pagination,
+        filters
+      ),
+      facets: result.facets,
+    };
+  }
+
+  async getSearchSuggestions(query: string, limit: number = 5): Promise<string[]> {
+    const cachedProducts = await offlineModeService.getCachedProducts();
+    return getProductSearchService().suggest(query, cachedProducts, limit);
+  }
+
+  async recordSwipeAction(
+    productId: string,
+    action: SwipeActionType,
+    userId: string
+  ): Promise<SwipeActionResponse> {
+    return this.online.recordSwipeAction(productId, action, userId);
+  }
+
+  async undoSwipeAction(swipeAction: SwipeAction, addedCategoryPreference?: string): Promise<void> {
+    return this.online.undoSwipeAction(swipeAction, addedCategoryPreference);
   }
 }
@@ -0,0 +1,180 @@
+import { AppConfig } from '../../config/env';
+import {
+  ProductReview,
+  ReviewEligibility,
+  ReviewInput,
+  ReviewModerationStatus,
+  ReviewPage,
+  ReviewQuery,
+  ReviewSummary,
+} from '../../types/reviews';
+import { getReviewService, ReviewService } from '../../services/ReviewService';
+
+export interface ReviewProvider {
+  getReviews(productId: string, query?: ReviewQuery): Promise<ReviewPage>;
+  getReviewSummary(productId: string): Promise<ReviewSummary>;
+  getReviewEligibility(productId: string, userId: string): Promise<ReviewEligibility>;
+  submitReview(userId: string, input: ReviewInput): Promise<ProductReview>;
+  voteHelpful(reviewId: string, userId: string): Promise<ProductReview>;
+  moderateReview(reviewId: string, status: ReviewModerationStatus, note?: string): Promise<ProductReview>;
+}
+
+export class MockReviewProvider implements ReviewProvider {
+  private readonly reviewService: ReviewService;
+
+  constructor() {
+    this.reviewService = getReviewService();
+  }
+
+  async getReviews(productId: string, query?: ReviewQuery): Promise<ReviewPage> {
+    return this.reviewService.getReviews(productId, query);
+  }
+
+  async getReviewSummary(productId: string): Promise<ReviewSummary> {
+    return this.reviewService.getReviewSummary(productId);
+  }
+
+  async getReviewEligibility(productId: string, userId: string): Promise<ReviewEligibility> {
+    return this.reviewService.getReviewEligibility(productId, userId);
+  }
+
+  async submitReview(userId: string, input: ReviewInput): Promise<ProductReview> {
+    return this.reviewService.submitReview(userId, input);
+  }
+
+  async voteHelpful(reviewId: string, userId: string): Promise<ProductReview> {
+    return this.reviewService.voteHelpful(reviewId, userId);
+  }
+
+  async moderateReview(
+    reviewId: string,
+    status: ReviewModerationStatus,
+    note?: string
+  ): Promise<ProductReview> {
+    return this.reviewService.moderateReview(reviewId, status, note);
+  }
+}
+
+const toReview = (review: ProductReview): ProductReview => ({
+  ...review,
+  createdAt: new Date(review.createdAt),
+});
+
+export class ApiReviewProvider implements ReviewProvider {
+  private readonly baseUrl: string;
+
+  constructor(baseUrl: string = AppConfig.api.baseUrl) {
+    this.baseUrl = baseUrl;
+  }
+
+  private ensureConfigured(): void {
+    if (!this.baseUrl) {
+      throw new Error('API mode is enabled but EXPO_PUBLIC_API_BASE_URL is not configured.');
+    }
+  }
+
+  async getReviews(productId: string, query: ReviewQuery = {}): Promise<ReviewPage> {
+    this.ensureConfigured();
+    const params = new URLSearchParams();
+    if (query.page !== undefined) params.append('page', String(query.page));
+    if (query.limit !== undefined) params.append('limit', String(query.limit));
+    if (query.sort) params.append('sort', query.sort);
+    if (query.viewerId) params.append('viewerId', query.viewerId);
+
+    const queryString = params.toString();
+    const response = await fetch(
+      `${this.baseUrl}/products/${encodeURIComponent(productId)}/reviews${queryString ? `?${queryString}` : ''}`,
+      { method: 'GET' }
+    );
+
+    if (!response.ok) {
+      throw new Error(`Failed to fetch reviews: ${response.status}`);
+    }
+
+    const data = (await response.json()) as ReviewPage;
+    return { ...data, reviews: data.reviews.map(toReview) };
+  }
+
+  async getReviewSummary(productId: string): Promise<ReviewSummary> {
+    this.ensureConfigured();
+    const response = await fetch(
+      `${this.baseUrl}/products/${encodeURIComponent(productId)}/reviews/summary`,
+      { method: 'GET' }
+    );
+
+    if (!response.ok) {
+      throw new Error(`Failed to fetch review summary: ${response.status}`);
+    }
+
+    return response.json();
+  }
+
+  async getReviewEligibility(productId: string, userId: string): Promise<ReviewEligibility> {
+    this.ensureConfigured();
+    const response = await fetch(
+      `${this.baseUrl}/products/${encodeURIComponent(productId)}/reviews/eligibility?userId=${encodeURIComponent(userId)}`,
+      { method: 'GET' }
+    );
+
+    if (!response.ok) {
+      throw new Error(`Failed to check review eligibility: ${response.status}`);
+    }
+
+    return response.json();
+  }
+
+  async submitReview(userId: string, input: ReviewInput): Promise<ProductReview> {
+    this.ensureConfigured();
+    const response = await fetch(
+      `${this.baseUrl}/products/${encodeURIComponent(input.productId)}/reviews`,
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...input, userId }),
+      }
+    );
+
+    if (!response.ok) {
+      throw new Error(`Failed to submit review: ${response.status}`);
+    }
+
+    return toReview(await response.json());
+  }
+
+  async voteHelpful(reviewId: string, userId: string): Promise<ProductReview> {
+    this.ensureConfigured();
+    const response = await fetch(`${this.baseUrl}/reviews/${encodeURIComponent(reviewId)}/helpful`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ userId }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to vote on review: ${response.status}`);
+    }
+
+    return toReview(await response.json());
+  }
+
+  async moderateReview(
+    reviewId: string,
+    status: ReviewModerationStatus,
+    note?: string
+  ): Promise<ProductReview> {
+    this.ensureConfigured();
+    const response = await fetch(
+      `${this.baseUrl}/reviews/${encodeURIComponent(reviewId)}/moderation`,
+      {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ status, note }),
+      }
+    );
+
+    if (!response.ok) {
+      throw new Error(`Failed to moderate review: ${response.status}`);
+    }
+
+    return toReview(await response.json());
+  }
+}
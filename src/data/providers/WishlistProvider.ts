@@ -2,15 +2,31 @@ import { AppConfig } from '../../config/env';
 import { ProductCard } from '../../types';
 import {
   getWishlistService,
+  SharedWishlist,
+  WishlistCollection,
   WishlistItem,
   WishlistService,
+  WishlistShareLink,
 } from '../../services/WishlistService';
+import { getOutboxService } from '../../services/OutboxService';
 
-export type { WishlistItem } from '../../services/WishlistService';
+export type {
+  SharedWishlist,
+  WishlistCollection,
+  WishlistItem,
+  WishlistShareLink,
+} from '../../services/WishlistService';
 
 export interface WishlistProvider {
-  addToWishlist(productId: string): Promise<void>;
+  addToWishlist(productId: string, collectionId?: string): Promise<void>;
   removeFromWishlist(productId: string): Promise<void>;
+  removeFromCollection(productId: string, collectionId: string): Promise<void>;
+  getCollections(): Promise<WishlistCollection[]>;
+  createCollection(name: string): Promise<WishlistCollection>;
+  renameCollection(collectionId: string, name: string): Promise<WishlistCollection>;
+  deleteCollection(collectionId: string): Promise<void>;
+  createShareLink(productIds: string[], title: string): Promise<WishlistShareLink>;
+  getSharedWishlist(token: string): Promise<SharedWishlist>;
   getWishlistItems(): Promise<WishlistItem[]>;
   getWishlistItemsWithDetails(): Promise<(WishlistItem & { product: ProductCard })[]>;
   isInWishlist(productId: string): Promise<boolean>;
@@ -26,14 +42,42 @@ export class MockWishlistProvider implements WishlistProvider {
     this.wishlistService = getWishlistService();
   }
 
-  async addToWishlist(productId: string): Promise<void> {
-    return this.wishlistService.addToWishlist(productId);
+  async addToWishlist(productId: string, collectionId?: string): Promise<void> {
+    return this.wishlistService.addToWishlist(productId, collectionId);
   }
 
   async removeFromWishlist(productId: string): Promise<void> {
     return this.wishlistService.removeFromWishlist(productId);
   }
 
+  async removeFromCollection(productId: string, collectionId: string): Promise<void> {
+    return this.wishlistService.removeFromCollection(productId, collectionId);
+  }
+
+  async getCollections(): Promise<WishlistCollection[]> {
+    return this.wishlistService.getCollections();
+  }
+
+  async createCollection(name: string): Promise<WishlistCollection> {
+    return this.wishlistService.createCollection(name);
+  }
+
+  async renameCollection(collectionId: string, name: string): Promise<WishlistCollection> {
+    return this.wishlistService.renameCollection(collectionId, name);
+  }
+
+  async deleteCollection(collectionId: string): Promise<void> {
+    return this.wishlistService.deleteCollection(collectionId);
+  }
+
+  async createShareLink(productIds: string[], title: string): Promise<WishlistShareLink> {
+    return this.wishlistService.createShareLink(productIds, title);
+  }
+
+  async getSharedWishlist(token: string): Promise<SharedWishlist> {
+    return this.wishlistService.getSharedWishlist(token);
+  }
+
   async getWishlistItems(): Promise<WishlistItem[]> {
     return this.wishlistService.getWishlistItems();
   }
@@ -72,30 +116,128 @@ export class ApiWishlistProvider implements WishlistProvider {
     }
   }
 
-  async addToWishlist(productId: string): Promise<void> {
+  async addToWishlist(productId: string, collectionId?: string): Promise<void> {
     this.ensureConfigured();
-    const response = await fetch(`${this.baseUrl}/wishlist/items`, {
+    const response = await getOutboxService().sendOrEnqueue({
+      type: 'wishlist.add',
+      url: `${this.baseUrl}/wishlist/items`,
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ productId }),
+      body: collectionId ? { productId, collectionId } : { productId },
     });
 
-    if (!response.ok) {
+    if (response && !response.ok) {
       throw new Error(`Failed to add to wishlist: ${response.status}`);
     }
   }
 
   async removeFromWishlist(productId: string): Promise<void> {
     this.ensureConfigured();
-    const response = await fetch(`${this.baseUrl}/wishlist/items/${productId}`, {
+    const response = await getOutboxService().sendOrEnqueue({
+      type: 'wishlist.remove',
+      url: `${this.baseUrl}/wishlist/items/${productId}`,
       method: 'DELETE',
     });
 
-    if (!response.ok) {
+    if (response && !response.ok) {
       throw new Error(`Failed to remove from wishlist: ${response.status}`);
     }
   }
 
+  async removeFromCollection(productId: string, collectionId: string): Promise<void> {
+    this.ensureConfigured();
+    const response = await getOutboxService().sendOrEnqueue({
+      type: 'wishlist.remove_from_collection',
+      url: `${this.baseUrl}/wishlist/collections/${collectionId}/items/${productId}`,
+      method: 'DELETE',
+    });
+
+    if (response && !response.ok) {
+      throw new Error(`Failed to remove from collection: ${response.status}`);
+    }
+  }
+
+  async getCollections(): Promise<WishlistCollection[]> {
+    this.ensureConfigured();
+    const response = await fetch(`${this.baseUrl}/wishlist/collections`, {
+      method: 'GET',
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to fetch wishlist collections: ${response.status}`);
+    }
+
+    return response.json();
+  }
+
+  async createCollection(name: string): Promise<WishlistCollection> {
+    this.ensureConfigured();
+    const response = await fetch(`${this.baseUrl}/wishlist/collections`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to create collection: ${response.status}`);
+    }
+
+    return response.json();
+  }
+
+  async renameCollection(collectionId: string, name: string): Promise<WishlistCollection> {
+    this.ensureConfigured();
+    const response = await fetch(`${this.baseUrl}/wishlist/collections/${collectionId}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to rename collection: ${response.status}`);
+    }
+
+    return response.json();
+  }
+
+  async deleteCollection(collectionId: string): Promise<void> {
+    this.ensureConfigured();
+    const response = await fetch(`${this.baseUrl}/wishlist/collections/${collectionId}`, {
+      method: 'DELETE',
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to delete collection: ${response.status}`);
+    }
+  }
+
+  async createShareLink(productIds: string[], title: string): Promise<WishlistShareLink> {
+    this.ensureConfigured();
+    const response = await fetch(`${this.baseUrl}/wishlist/shares`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ productIds, title }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to create share link: ${response.status}`);
+    }
+
+    return response.json();
+  }
+
+  async getSharedWishlist(token: string): Promise<SharedWishlist> {
+    this.ensureConfigured();
+    const response = await fetch(`${this.baseUrl}/wishlist/shares/${encodeURIComponent(token)}`, {
+      method: 'GET',
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to load shared wishlist: ${response.status}`);
+    }
+
+    return response.json();
+  }
+
   async getWishlistItems(): Promise<WishlistItem[]> {
     this.ensureConfigured();
     const response = await fetch(`${this.baseUrl}/wishlist/items`, {
@@ -138,11 +280,13 @@ export class ApiWishlistProvider implements WishlistProvider {
 
   async clearWishlist(): Promise<void> {
     this.ensureConfigured();
-    const response = await fetch(`${this.baseUrl}/wishlist/items`, {
+    const response = await getOutboxService().sendOrEnqueue({
+      type: 'wishlist.clear',
+      url: `${this.baseUrl}/wishlist/items`,
       method: 'DELETE',
     });
 
-    if (!response.ok) {
+    if (response && !response.ok) {
       throw new Error(`Failed to clear wishlist: ${response.status}`);
     }
   }
@@ -1,14 +1,31 @@
 import { AppConfig } from '../../config/env';
+import { getCartService } from '../../services/CartService';
+import { CategoryPreferenceService } from '../../services/CategoryPreferenceService';
+import { getConnectivityMonitor } from '../../services/ConnectivityMonitor';
+import { dataSyncService } from '../../services/DataSyncService';
+import { offlineModeService } from '../../services/OfflineModeService';
+import { getWishlistService } from '../../services/WishlistService';
 import {
   ApiCartProvider,
   CartProvider,
   MockCartProvider,
 } from './CartProvider';
+import {
+  ApiOrderProvider,
+  MockOrderProvider,
+  OrderProvider,
+} from './OrderProvider';
 import {
   ApiProductFeedProvider,
+  CachedProductFeedProvider,
   MockProductFeedProvider,
   ProductFeedProvider,
 } from './ProductFeedProvider';
+import {
+  ApiReviewProvider,
+  MockReviewProvider,
+  ReviewProvider,
+} from './ReviewProvider';
 import {
   ApiWishlistProvider,
   MockWishlistProvider,
@@ -16,8 +33,11 @@ import {
 } from './WishlistProvider';
 
 let productFeedProviderInstance: ProductFeedProvider | null = null;
+let cachedProductFeedProviderInstance: ProductFeedProvider | null = null;
 let cartProviderInstance: CartProvider | null = null;
 let wishlistProviderInstance: WishlistProvider | null = null;
+let reviewProviderInstance: ReviewProvider | null = null;
+let orderProviderInstance: OrderProvider | null = null;
 
 export const getProductFeedProvider = (): ProductFeedProvider => {
   if (!productFeedProviderInstance) {
@@ -30,11 +50,20 @@ export const getProductFeedProvider = (): ProductFeedProvider => {
     }
   }
 
+  // While offline the feed is served from the product cache
+  if (!getConnectivityMonitor().isOnline()) {
+    if (!cachedProductFeedProviderInstance) {
+      cachedProductFeedProviderInstance = new CachedProductFeedProvider(productFeedProviderInstance);
+    }
+    return cachedProductFeedProviderInstance;
+  }
+
   return productFeedProviderInstance;
 };
 
 export const resetProductFeedProvider = (): void => {
   productFeedProviderInstance = null;
+  cachedProductFeedProviderInstance = null;
 };
 
 export const getCartProvider = (): CartProvider => {
@@ -64,3 +93,47 @@ export const getWishlistProvider = (): WishlistProvider => {
 export const resetWishlistProvider = (): void => {
   wishlistProviderInstance = null;
 };
+
+export const getReviewProvider = (): ReviewProvider => {
+  if (!reviewProviderInstance) {
+    reviewProviderInstance = AppConfig.features.useMockData
+      ? new MockReviewProvider()
+      : new ApiReviewProvider();
+  }
+
+  return reviewProviderInstance;
+};
+
+export const resetReviewProvider = (): void => {
+  reviewProviderInstance = null;
+};
+
+export const getOrderProvider = (): OrderProvider => {
+  if (!orderProviderInstance) {
+    orderProviderInstance = AppConfig.features.useMockData
+      ? new MockOrderProvider()
+      : new ApiOrderProvider();
+  }
+
+  return orderProviderInstance;
+};
+
+export const resetOrderProvider = (): void => {
+  orderProviderInstance = null;
+};
+
+// Edits made offline go through whichever providers are current
+offlineModeService.setEditTargets({
+  addToCart: (productId, quantity) => getCartProvider().addToCart(productId, quantity),
+  addToWishlist: productId => getWishlistProvider().addToWishlist(productId),
+  recordSwipeAction: async (productId, action, userId) => {
+    await getProductFeedProvider().recordSwipeAction(productId, action, userId);
+  },
+});
+
+// Records synced from other devices land in the services the providers read
+dataSyncService.setSyncTargets({
+  cart_items: data => getCartService().applySyncedData(data),
+  wishlist_items: data => getWishlistService().applySyncedData(data),
+  user_preferences: data => CategoryPreferenceService.applySyncedPreferences(data),
+});
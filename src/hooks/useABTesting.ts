@@ -4,7 +4,8 @@
  */
 
 import { useState, useEffect, useCallback, useRef } from 'react';
-import { ABTestingService, ABTestVariant } from '../services/ABTestingService';
+import { ABTest, ABTestingService, ABTestVariant } from '../services/ABTestingService';
+import { ABTestAnalysis } from '../utils/abTestStatistics';
 import { useErrorHandler } from './useErrorHandler';
 
 interface UseABTestingOptions {
@@ -18,11 +19,13 @@ interface UseABTestingReturn {
   isInTest: (testId: string) => boolean;
   getTestConfig: (testId: string, configKey: string, defaultValue?: any) => any;
   getAllVariants: () => Record<string, ABTestVariant | null>;
+  getFeatureFlag: (flagName: string) => boolean | undefined;
 }
 
 export function useABTesting(options: UseABTestingOptions = {}): UseABTestingReturn {
   const { userId, enableTracking = true } = options;
   const [variants, setVariants] = useState<Record<string, ABTestVariant | null>>({});
+  const [, setConfigLoaded] = useState(false);
   const abTestingService = useRef(ABTestingService.getInstance());
   const { handleError } = useErrorHandler();
   const loadedTests = useRef<Set<string>>(new Set());
@@ -39,7 +42,8 @@ export function useABTesting(options: UseABTestingOptions = {}): UseABTestingRet
     if (!loadedTests.current.has(testId)) {
       loadedTests.current.add(testId);
       
-      abTestingService.current.getVariant(testId, userId)
+      abTestingService.current.ensureConfigLoaded()
+        .then(() => abTestingService.current.getVariant(testId, userId))
         .then(variant => {
           setVariants(prev => ({ ...prev, [testId]: variant }));
         })
@@ -97,12 +101,19 @@ export function useABTesting(options: UseABTestingOptions = {}): UseABTestingRet
     return { ...variants };
   }, [variants]);
 
-  // Preload active tests on mount
-  useEffect(() => {
-    if (!userId) return;
+  const getFeatureFlag = useCallback((flagName: string): boolean | undefined => {
+    return abTestingService.current.getFeatureFlag(flagName, userId);
+  }, [userId]);
 
+  // Load the remote config, then preload active tests on mount
+  useEffect(() => {
     const loadActiveTests = async () => {
       try {
+        await abTestingService.current.ensureConfigLoaded();
+        // Re-render so remote feature flags are read again
+        setConfigLoaded(true);
+        if (!userId) return;
+
         const activeTests = abTestingService.current.getActiveTests();
         
         // Load variants for all active tests
@@ -143,9 +154,41 @@ export function useABTesting(options: UseABTestingOptions = {}): UseABTestingRet
     isInTest,
     getTestConfig,
     getAllVariants,
+    getFeatureFlag,
   };
 }
 
+export interface ABTestLiveResult {
+  test: ABTest;
+  metric: string;
+  analysis: ABTestAnalysis;
+}
+
+const collectLiveResults = (service: ABTestingService): ABTestLiveResult[] =>
+  service.getAllTests().flatMap(test =>
+    service.getTestMetrics(test.id).flatMap(metric => {
+      const analysis = service.analyzeTest(test.id, metric);
+      return analysis ? [{ test, metric, analysis }] : [];
+    })
+  );
+
+/**
+ * Hook for the A/B test debug panel: per-metric results for every test,
+ * recomputed whenever an assignment, conversion or status change comes in
+ */
+export function useABTestResults(): ABTestLiveResult[] {
+  const abTestingService = useRef(ABTestingService.getInstance());
+  const [results, setResults] = useState(() => collectLiveResults(abTestingService.current));
+
+  useEffect(() => {
+    const service = abTestingService.current;
+    setResults(collectLiveResults(service));
+    return service.subscribe(() => setResults(collectLiveResults(service)));
+  }, []);
+
+  return results;
+}
+
 /**
  * Hook for specific A/B test
  */
@@ -174,14 +217,19 @@ export function useABTest(testId: string, userId?: string) {
 }
 
 /**
- * Hook for feature flags (simplified A/B testing)
+ * Hook for feature flags: remote flags from the experiment config first,
+ * then A/B tests with boolean config
  */
 export function useFeatureFlag(flagName: string, userId?: string, defaultValue: boolean = false) {
-  const { getTestConfig, isInTest } = useABTesting({ userId });
+  const { getTestConfig, isInTest, getFeatureFlag } = useABTesting({ userId });
   
-  // Feature flags are implemented as A/B tests with boolean config
+  const remoteValue = getFeatureFlag(flagName);
   const isEnabled = getTestConfig(flagName, 'enabled', defaultValue);
   const inTest = isInTest(flagName);
+
+  if (remoteValue !== undefined) {
+    return { isEnabled: remoteValue, inTest };
+  }
   
   return {
     isEnabled: inTest ? isEnabled : defaultValue,
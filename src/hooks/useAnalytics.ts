@@ -7,6 +7,7 @@ import { useCallback, useEffect, useRef } from 'react';
 import { AnalyticsService } from '../services/AnalyticsService';
 import { CrashReportingService } from '../services/CrashReportingService';
 import { useErrorHandler } from './useErrorHandler';
+import { SwipeActionType, SwipeDirection } from '../types';
 
 interface UseAnalyticsOptions {
   userId?: string;
@@ -19,11 +20,11 @@ interface UseAnalyticsReturn {
   trackEvent: (eventName: string, properties?: Record<string, any>) => Promise<void>;
   trackSwipe: (
     productId: string,
-    action: 'like' | 'skip',
+    action: SwipeActionType,
     category: string,
     price: number,
     swipeMetrics?: {
-      direction: 'left' | 'right';
+      direction: SwipeDirection;
       velocity?: number;
       duration?: number;
     }
@@ -103,11 +104,11 @@ export function useAnalytics(options: UseAnalyticsOptions = {}): UseAnalyticsRet
 
   const trackSwipe = useCallback(async (
     productId: string,
-    action: 'like' | 'skip',
+    action: SwipeActionType,
     category: string,
     price: number,
     swipeMetrics?: {
-      direction: 'left' | 'right';
+      direction: SwipeDirection;
       velocity?: number;
       duration?: number;
     }
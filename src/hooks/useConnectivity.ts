@@ -0,0 +1,18 @@
+/**
+ * React hook exposing the connectivity monitor's online/offline state
+ */
+
+import { useEffect, useState } from 'react';
+import { getConnectivityMonitor } from '../services/ConnectivityMonitor';
+
+export const useConnectivity = () => {
+  const [isOnline, setIsOnline] = useState(() => getConnectivityMonitor().isOnline());
+
+  useEffect(() => {
+    const monitor = getConnectivityMonitor();
+    setIsOnline(monitor.isOnline());
+    return monitor.subscribe(setIsOnline);
+  }, []);
+
+  return { isOnline, isOffline: !isOnline };
+};
@@ -1,7 +1,13 @@
 import { useState, useEffect, useCallback } from 'react';
 import { Platform, AppState, AppStateStatus } from 'react-native';
-import { dataSyncService, SyncResult, SyncConflict } from '../services/DataSyncService';
+import {
+  dataSyncService,
+  ConflictResolution,
+  SyncResult,
+  SyncConflict,
+} from '../services/DataSyncService';
 import { offlineModeService } from '../services/OfflineModeService';
+import { SwipeActionType } from '../types';
 
 export interface DataSyncState {
   isSyncing: boolean;
@@ -54,12 +60,17 @@ export const useDataSync = (
       // Perform sync
       const result = await dataSyncService.syncUserData(userId);
 
+      // With the manual strategy, conflicts wait in the service's queue until resolved
+      const conflicts = config.conflictResolutionStrategy === 'manual'
+        ? await dataSyncService.getPendingConflicts(userId)
+        : result.conflicts;
+
       setSyncState(prev => ({
         ...prev,
         isSyncing: false,
         lastSyncTime: Date.now(),
         syncResult: result,
-        conflicts: result.conflicts,
+        conflicts,
         error: result.success ? null : result.errors.join(', '),
       }));
 
@@ -85,22 +96,40 @@ export const useDataSync = (
   // Resolve conflicts manually
   const resolveConflict = useCallback(async (
     conflictIndex: number,
-    resolution: 'local' | 'remote' | 'merge'
+    resolution: ConflictResolution
   ): Promise<void> => {
     const conflicts = syncState.conflicts;
     if (conflictIndex < 0 || conflictIndex >= conflicts.length) {
       return;
     }
 
-    // In a real implementation, you would send the resolution to the sync service
-    console.log(`Resolving conflict ${conflictIndex} with strategy: ${resolution}`);
+    // Other strategies have already resolved their conflicts; only held ones need the service
+    const recordId = conflicts[conflictIndex].localData.id;
+    if (config.conflictResolutionStrategy === 'manual') {
+      try {
+        await dataSyncService.resolveConflict(userId, recordId, resolution);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Failed to resolve conflict';
+        setSyncState(prev => ({ ...prev, error: errorMessage }));
+        return;
+      }
+    }
 
     // Remove the resolved conflict from state
     setSyncState(prev => ({
       ...prev,
-      conflicts: prev.conflicts.filter((_, index) => index !== conflictIndex),
+      conflicts: prev.conflicts.filter(conflict => conflict.localData.id !== recordId),
     }));
-  }, [syncState.conflicts]);
+  }, [userId, syncState.conflicts, config.conflictResolutionStrategy]);
+
+  // Load conflicts still waiting from an earlier session
+  const refreshConflicts = useCallback(async () => {
+    if (config.conflictResolutionStrategy !== 'manual') {
+      return;
+    }
+    const conflicts = await dataSyncService.getPendingConflicts(userId);
+    setSyncState(prev => ({ ...prev, conflicts }));
+  }, [userId, config.conflictResolutionStrategy]);
 
   // Check network status and update offline mode
   const updateOfflineStatus = useCallback(async () => {
@@ -155,6 +184,7 @@ export const useDataSync = (
   // Initialize sync on mount
   useEffect(() => {
     updateOfflineStatus();
+    refreshConflicts();
     
     if (config.autoSync && !syncState.isOffline) {
       syncData();
@@ -192,6 +222,7 @@ export const useDataSync = (
     syncData,
     forceSync,
     resolveConflict,
+    refreshConflicts,
     
     // Utilities
     getPlatformInfo,
@@ -219,11 +250,11 @@ export const useOfflineData = (userId: string) => {
     }
   }, [isOffline]);
 
-  const recordOfflineSwipe = useCallback(async (productId: string, action: 'like' | 'skip') => {
+  const recordOfflineSwipe = useCallback(async (productId: string, action: SwipeActionType) => {
     if (isOffline) {
-      await offlineModeService.recordOfflineSwipe(productId, action);
+      await offlineModeService.recordOfflineSwipe(productId, action, userId);
     }
-  }, [isOffline]);
+  }, [isOffline, userId]);
 
   const getCachedProducts = useCallback(async () => {
     return await offlineModeService.getCachedProducts();
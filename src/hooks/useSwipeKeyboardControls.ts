@@ -0,0 +1,50 @@
+import { useEffect, useRef } from 'react';
+import { Platform } from 'react-native';
+import { getSwipeCommandForKey, SwipeCommand, SwipeKeyEvent } from '../utils/SwipeControls';
+
+export interface SwipeKeyboardControlsOptions {
+  /** Only the top card of a focused feed should listen */
+  enabled: boolean;
+  onCommand: (command: SwipeCommand) => void;
+}
+
+interface KeyboardEventTarget {
+  addEventListener: (type: 'keydown', listener: (event: SwipeKeyEvent & { preventDefault: () => void }) => void) => void;
+  removeEventListener: (type: 'keydown', listener: (event: SwipeKeyEvent & { preventDefault: () => void }) => void) => void;
+}
+
+/**
+ * Arrow-key and letter shortcuts for the card stack on web.
+ * No-op on native, where screen reader actions cover the same commands.
+ */
+export const useSwipeKeyboardControls = ({ enabled, onCommand }: SwipeKeyboardControlsOptions) => {
+  // Keep the latest handler without re-registering the listener on every render
+  const onCommandRef = useRef(onCommand);
+  onCommandRef.current = onCommand;
+
+  useEffect(() => {
+    if (Platform.OS !== 'web' || !enabled) return;
+
+    const target = (globalThis as { document?: KeyboardEventTarget }).document;
+    if (!target) return;
+
+    const handleKeyDown = (event: SwipeKeyEvent & { preventDefault: () => void }) => {
+      const command = getSwipeCommandForKey(event);
+      if (!command) return;
+
+      // Arrow keys would otherwise scroll the page
+      event.preventDefault();
+      onCommandRef.current(command);
+    };
+
+    target.addEventListener('keydown', handleKeyDown);
+
+    return () => {
+      target.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [enabled]);
+
+  return {
+    keyboardEnabled: Platform.OS === 'web' && enabled,
+  };
+};
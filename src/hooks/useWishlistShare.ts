@@ -0,0 +1,29 @@
+/**
+ * React hook for sharing wishlist products as a swipely://wishlist/shared link
+ */
+
+import { useCallback, useState } from 'react';
+import { Alert, Share } from 'react-native';
+import { getWishlistProvider } from '../data/providers';
+import { getWishlistShareUrl } from '../services/WishlistService';
+
+export const useWishlistShare = () => {
+  const [isSharing, setIsSharing] = useState(false);
+
+  const share = useCallback(async (productIds: string[], title: string) => {
+    setIsSharing(true);
+    try {
+      const link = await getWishlistProvider().createShareLink(productIds, title);
+      await Share.share({
+        message: `${link.title} on Swipely: ${getWishlistShareUrl(link.token)}`,
+      });
+    } catch (error) {
+      console.error('Failed to share wishlist:', error);
+      Alert.alert('Error', 'Failed to create a share link. Please try again.');
+    } finally {
+      setIsSharing(false);
+    }
+  }, []);
+
+  return { share, isSharing };
+};
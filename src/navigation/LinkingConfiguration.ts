@@ -31,6 +31,12 @@ export const LinkingConfiguration: LinkingOptions<RootStackParamList> = {
               productId: (productId: string) => productId,
             },
           },
+          Search: {
+            path: 'search',
+            parse: {
+              q: (q: string) => q,
+            },
+          },
           CategorySelection: 'categories',
           SkippedProducts: {
             path: 'skipped/:category',
@@ -38,6 +44,12 @@ export const LinkingConfiguration: LinkingOptions<RootStackParamList> = {
               category: (category: string) => category,
             },
           },
+          SharedWishlist: {
+            path: 'wishlist/shared/:token',
+            parse: {
+              token: (token: string) => token,
+            },
+          },
         },
       },
     },
@@ -10,6 +10,7 @@ import { FeedScreen } from "../screens/main/FeedScreen";
 import { WishlistScreen } from "../screens/main/WishlistScreen";
 import { CartScreen } from "../screens/main/CartScreen";
 import { ProfileScreen } from "../screens/main/ProfileScreen";
+import { SearchScreen } from "../screens/main/SearchScreen";
 import {
   getIOSNavigationOptions,
   getIOSModalOptions,
@@ -30,6 +31,9 @@ import { PaymentMethodScreen } from "../screens/checkout/PaymentMethodScreen";
 import { OrderConfirmationScreen } from "../screens/checkout/OrderConfirmationScreen";
 import { OrderHistoryScreen } from "../screens/checkout/OrderHistoryScreen";
 import { OrderDetailsScreen } from "../screens/checkout/OrderDetailsScreen";
+import { SyncConflictsScreen } from "../screens/main/SyncConflictsScreen";
+import { NotificationsScreen } from "../screens/main/NotificationsScreen";
+import { SharedWishlistScreen } from "../screens/main/SharedWishlistScreen";
 
 
 const Stack = createStackNavigator<MainStackParamList>();
@@ -159,6 +163,23 @@ export const MainNavigator: React.FC = () => {
               }
         }
       />
+      <Stack.Screen
+        name="Search"
+        component={SearchScreen}
+        options={
+          Platform.OS === "ios"
+            ? {
+                ...iosNavigationOptions,
+                title: "Search",
+                headerShown: true,
+              }
+            : {
+                ...androidNavigationOptions,
+                title: "Search",
+                headerShown: true,
+              }
+        }
+      />
       <Stack.Screen
         name="CategorySelection"
         component={CategorySelectionScreen}
@@ -238,6 +259,30 @@ export const MainNavigator: React.FC = () => {
           title: "Order Details",
         }}
       />
+      <Stack.Screen
+        name="SyncConflicts"
+        component={SyncConflictsScreen}
+        options={{
+          headerShown: true,
+          title: "Sync Conflicts",
+        }}
+      />
+      <Stack.Screen
+        name="Notifications"
+        component={NotificationsScreen}
+        options={{
+          headerShown: true,
+          title: "Notifications",
+        }}
+      />
+      <Stack.Screen
+        name="SharedWishlist"
+        component={SharedWishlistScreen}
+        options={{
+          headerShown: true,
+          title: "Shared Wishlist",
+        }}
+      />
     </Stack.Navigator>
   );
 };
@@ -91,6 +91,20 @@ class NavigationService {
     }, 100);
   }
 
+  /**
+   * Navigate to product search, optionally with a prefilled query
+   */
+  navigateToSearch(query?: string) {
+    this.navigate('Main');
+    setTimeout(() => {
+      if (this.navigationRef?.current) {
+        (this.navigationRef.current as any).navigate('Search', {
+          q: query,
+        });
+      }
+    }, 100);
+  }
+
   /**
    * Navigate to main app after authentication
    */
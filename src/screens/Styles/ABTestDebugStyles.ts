@@ -0,0 +1,159 @@
+import { StyleSheet } from 'react-native';
+
+export const ABTestDebugStyles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  header: {
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    paddingTop: 50,
+    backgroundColor: '#47006e',
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  closeButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 12,
+  },
+  closeButtonText: {
+    fontSize: 24,
+    color: '#eff7e9',
+    fontWeight: 'bold',
+  },
+  headerTitle: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: '#eff7e9',
+  },
+  content: {
+    padding: 16,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#666',
+    textAlign: 'center',
+    marginTop: 40,
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 12,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 4,
+  },
+  testName: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#212529',
+  },
+  statusBadge: {
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 10,
+    backgroundColor: '#E9ECEF',
+  },
+  statusBadgeCompleted: {
+    backgroundColor: '#D4EDDA',
+  },
+  statusText: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: '#495057',
+  },
+  metricName: {
+    fontSize: 13,
+    color: '#666',
+    marginBottom: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    paddingVertical: 4,
+  },
+  headerRow: {
+    borderBottomWidth: 1,
+    borderBottomColor: '#E9ECEF',
+  },
+  cell: {
+    flex: 1,
+    fontSize: 12,
+    color: '#212529',
+    textAlign: 'right',
+  },
+  nameCell: {
+    flex: 2,
+    textAlign: 'left',
+  },
+  headerCell: {
+    fontWeight: '600',
+    color: '#666',
+  },
+  winnerCell: {
+    color: '#2E7D32',
+    fontWeight: '700',
+  },
+  decision: {
+    fontSize: 13,
+    color: '#212529',
+    marginTop: 8,
+  },
+  warning: {
+    fontSize: 13,
+    color: '#d32f2f',
+    marginTop: 4,
+  },
+  hint: {
+    fontSize: 13,
+    color: '#666',
+    marginBottom: 12,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginTop: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#CED4DA',
+    backgroundColor: '#fff',
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  chipSelected: {
+    backgroundColor: '#47006e',
+    borderColor: '#47006e',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#212529',
+  },
+  chipTextSelected: {
+    color: '#eff7e9',
+    fontWeight: '600',
+  },
+  reloadButton: {
+    alignSelf: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 8,
+    backgroundColor: '#47006e',
+    marginTop: 4,
+  },
+  reloadButtonText: {
+    color: '#eff7e9',
+    fontWeight: '600',
+  },
+});
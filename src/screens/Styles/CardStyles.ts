@@ -165,6 +165,12 @@ export const AndroidSwipeCardStyles = StyleSheet.create({
   skipOverlay: {
     backgroundColor: 'rgba(244, 67, 54, 0.85)',
   },
+  cartOverlay: {
+    backgroundColor: 'rgba(33, 150, 243, 0.85)',
+  },
+  superlikeOverlay: {
+    backgroundColor: 'rgba(255, 193, 7, 0.85)',
+  },
   overlayText: {
     fontSize: 32,
     fontWeight: 'bold',
@@ -319,6 +325,12 @@ export const IOSCardStyles = StyleSheet.create({
   skipOverlay: {
     backgroundColor: 'rgba(255, 59, 48, 0.85)',
   },
+  cartOverlay: {
+    backgroundColor: 'rgba(0, 122, 255, 0.85)',
+  },
+  superlikeOverlay: {
+    backgroundColor: 'rgba(255, 204, 0, 0.85)',
+  },
   overlayText: {
     fontSize: 32,
     fontWeight: 'bold',
@@ -483,6 +495,12 @@ export const MouseSwipeStyles = StyleSheet.create({
   skipOverlay: {
     backgroundColor: "rgba(244, 67, 54, 0.8)",
   },
+  cartOverlay: {
+    backgroundColor: "rgba(33, 150, 243, 0.8)",
+  },
+  superlikeOverlay: {
+    backgroundColor: "rgba(255, 193, 7, 0.8)",
+  },
   overlayText: {
     fontSize: 32,
     fontWeight: "bold",
@@ -642,6 +660,12 @@ export const SwipeableCardStyles = StyleSheet.create({
   skipOverlay: {
     backgroundColor: 'rgba(244, 67, 54, 0.8)',
   },
+  cartOverlay: {
+    backgroundColor: 'rgba(33, 150, 243, 0.8)',
+  },
+  superlikeOverlay: {
+    backgroundColor: 'rgba(255, 193, 7, 0.8)',
+  },
   overlayText: {
     fontSize: 32,
     fontWeight: 'bold',
@@ -37,6 +37,11 @@ export const CartReviewStyles = StyleSheet.create({
     color: '#333',
     marginBottom: 4,
   },
+  itemVariant: {
+    fontSize: 12,
+    color: '#888',
+    marginBottom: 4,
+  },
   itemPrice: {
     fontSize: 13,
     color: '#666',
@@ -0,0 +1,89 @@
+import { StyleSheet } from 'react-native';
+
+export const CrashReportsStyles = StyleSheet.create({
+  container: {
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+    backgroundColor: '#f8f9fa',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#666',
+    textAlign: 'center',
+    paddingVertical: 12,
+  },
+  report: {
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 8,
+  },
+  reportHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  errorType: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#212529',
+  },
+  fatalBadge: {
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 10,
+    backgroundColor: '#F8D7DA',
+    marginLeft: 8,
+  },
+  fatalBadgeText: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: '#721C24',
+  },
+  message: {
+    fontSize: 13,
+    color: '#212529',
+    marginTop: 4,
+  },
+  meta: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 4,
+  },
+  sectionTitle: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#495057',
+    marginTop: 10,
+    marginBottom: 4,
+  },
+  stackTrace: {
+    fontSize: 11,
+    fontFamily: 'monospace',
+    color: '#495057',
+  },
+  breadcrumb: {
+    fontSize: 12,
+    color: '#495057',
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    marginTop: 4,
+  },
+  actionButton: {
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 8,
+    backgroundColor: '#47006e',
+    marginHorizontal: 6,
+  },
+  clearButton: {
+    backgroundColor: '#d32f2f',
+  },
+  actionButtonText: {
+    color: '#eff7e9',
+    fontWeight: '600',
+  },
+});
@@ -144,6 +144,11 @@ export const OrderConfirmationStyles = StyleSheet.create({
     color: '#333',
     marginBottom: 4,
   },
+  itemVariant: {
+    fontSize: 12,
+    color: '#888',
+    marginBottom: 2,
+  },
   itemPrice: {
     fontSize: 12,
     color: '#666',
@@ -230,4 +235,57 @@ export const OrderConfirmationStyles = StyleSheet.create({
     fontWeight: '600',
     color: '#007AFF',
   },
+  dangerButton: {
+    flex: 1,
+    paddingVertical: 14,
+    backgroundColor: '#d32f2f',
+    borderRadius: 6,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  dangerButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#fff',
+  },
+  disabledButton: {
+    opacity: 0.5,
+  },
+  processingIndicator: {
+    paddingVertical: 16,
+  },
+  refundControls: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  refundStepperButton: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: '#007AFF',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  refundStepperText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#007AFF',
+  },
+  refundQuantityText: {
+    minWidth: 36,
+    textAlign: 'center',
+    fontSize: 13,
+    color: '#333',
+  },
+  refundedLabel: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#999',
+  },
+  refundedValue: {
+    fontSize: 13,
+    color: '#d32f2f',
+    fontWeight: '600',
+  },
 });
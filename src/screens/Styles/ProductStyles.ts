@@ -98,6 +98,11 @@ export const CartScreenStyles = StyleSheet.create({
     color: '#212529',
     marginBottom: 4,
   },
+  productVariant: {
+    fontSize: 13,
+    color: '#6C757D',
+    marginBottom: 4,
+  },
   productPrice: {
     fontSize: 18,
     fontWeight: '700',
@@ -216,6 +221,18 @@ export const FeedScreenStyles = StyleSheet.create({
     fontSize: 16,
     color: '#d7dce0ff',
   },
+  offlineBanner: {
+    marginTop: 8,
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 6,
+    backgroundColor: '#4a3b16',
+  },
+  offlineBannerText: {
+    fontSize: 13,
+    color: '#ffd36b',
+    textAlign: 'center',
+  },
 
   skippedButton: {
     flexDirection: 'row',
@@ -244,6 +261,35 @@ export const FeedScreenStyles = StyleSheet.create({
     color: '#221e27',
     fontWeight: '600',
   },
+  searchButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: '#2f2a36',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 8,
+  },
+  searchButtonIcon: {
+    fontSize: 16,
+  },
+  undoButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: '#2f2a36',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 8,
+  },
+  undoButtonDisabled: {
+    opacity: 0.4,
+  },
+  undoButtonIcon: {
+    fontSize: 18,
+    color: '#08f88c',
+    fontWeight: 'bold',
+  },
   cardsContainer: {
     flex: 1,
     justifyContent: 'center',
@@ -256,6 +302,14 @@ export const FeedScreenStyles = StyleSheet.create({
   cardWrapper: {
     position: 'absolute',
   },
+  // Off-screen text that screen readers still announce
+  liveRegion: {
+    position: 'absolute',
+    width: 1,
+    height: 1,
+    overflow: 'hidden',
+    color: 'transparent',
+  },
   loadingContainer: {
     flex: 1,
     justifyContent: 'center',
@@ -1010,6 +1064,107 @@ export const WishListStyles = StyleSheet.create({
     justifyContent: 'center',
     alignItems: 'center',
   },
+  // Collections
+  collectionBar: {
+    backgroundColor: '#FFFFFF',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E9ECEF',
+  },
+  collectionChips: {
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+  },
+  collectionChip: {
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#E9ECEF',
+    marginRight: 8,
+  },
+  collectionChipActive: {
+    backgroundColor: '#2f2a36',
+  },
+  collectionChipText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#495057',
+  },
+  collectionChipTextActive: {
+    color: '#FFFFFF',
+  },
+  swipeTargetRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingBottom: 10,
+  },
+  swipeTargetText: {
+    flex: 1,
+    fontSize: 13,
+    color: '#6C757D',
+    marginRight: 12,
+  },
+  // Price and stock alerts
+  alertBadge: {
+    alignSelf: 'flex-start',
+    backgroundColor: '#FF9500',
+    borderRadius: 10,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    marginBottom: 6,
+  },
+  alertBadgeOverlay: {
+    position: 'absolute',
+    top: 8,
+    left: 8,
+  },
+  alertBadgeText: {
+    fontSize: 11,
+    fontWeight: '700',
+    color: '#FFFFFF',
+  },
+  itemIconButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: '#E9ECEF',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 8,
+  },
+  itemIconText: {
+    fontSize: 14,
+  },
+  inboxButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: '#2f2a36',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 12,
+  },
+  inboxButtonText: {
+    fontSize: 16,
+  },
+  inboxCount: {
+    position: 'absolute',
+    top: -4,
+    right: -4,
+    minWidth: 18,
+    height: 18,
+    borderRadius: 9,
+    paddingHorizontal: 4,
+    backgroundColor: '#DC3545',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  inboxCountText: {
+    fontSize: 11,
+    fontWeight: '700',
+    color: '#FFFFFF',
+  },
 });
 
 export const ViewDetailStyles = StyleSheet.create({
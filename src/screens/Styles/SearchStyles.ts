@@ -0,0 +1,179 @@
+import { StyleSheet } from 'react-native';
+
+export const SearchStyles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#221e27',
+  },
+  searchBarContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#333',
+  },
+  searchInput: {
+    flex: 1,
+    height: 44,
+    backgroundColor: '#2f2a36',
+    borderRadius: 22,
+    paddingHorizontal: 16,
+    fontSize: 16,
+    color: '#f8fcffff',
+  },
+  clearButton: {
+    marginLeft: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+  },
+  clearButtonText: {
+    fontSize: 14,
+    color: '#08f88c',
+    fontWeight: '600',
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingTop: 16,
+    paddingBottom: 8,
+  },
+  sectionTitle: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: '#d7dce0ff',
+    textTransform: 'uppercase',
+  },
+  sectionAction: {
+    fontSize: 13,
+    color: '#08f88c',
+  },
+  queryRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#2f2a36',
+  },
+  queryIcon: {
+    fontSize: 14,
+    color: '#6C757D',
+    marginRight: 12,
+  },
+  queryText: {
+    flex: 1,
+    fontSize: 16,
+    color: '#e1ecf8ff',
+  },
+  queryRemove: {
+    fontSize: 16,
+    color: '#6C757D',
+    paddingHorizontal: 8,
+  },
+  facetContainer: {
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#333',
+  },
+  facetRow: {
+    paddingHorizontal: 12,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: '#4a4452',
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    marginHorizontal: 4,
+    marginVertical: 4,
+  },
+  chipActive: {
+    borderColor: '#08f88c',
+    backgroundColor: '#08f88c',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#d7dce0ff',
+  },
+  chipTextActive: {
+    color: '#221e27',
+    fontWeight: '600',
+  },
+  resultsSummary: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    fontSize: 13,
+    color: '#a9adb3',
+  },
+  listContent: {
+    paddingHorizontal: 12,
+    paddingBottom: 24,
+  },
+  resultItem: {
+    flexDirection: 'row',
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 12,
+    marginVertical: 4,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 3.84,
+    elevation: 3,
+  },
+  resultImage: {
+    width: 72,
+    height: 72,
+    borderRadius: 8,
+    backgroundColor: '#F8F9FA',
+  },
+  resultInfo: {
+    flex: 1,
+    marginLeft: 12,
+    justifyContent: 'space-between',
+  },
+  resultTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#212529',
+  },
+  resultCategory: {
+    fontSize: 12,
+    color: '#6C757D',
+  },
+  resultPrice: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#0bdf04ff',
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    paddingHorizontal: 40,
+    paddingTop: 60,
+  },
+  emptyTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#f0f7ffff',
+    marginBottom: 8,
+    textAlign: 'center',
+  },
+  emptyDescription: {
+    fontSize: 15,
+    color: '#a9adb3',
+    textAlign: 'center',
+    lineHeight: 22,
+  },
+  loadingContainer: {
+    paddingTop: 40,
+    alignItems: 'center',
+  },
+  loadingMore: {
+    paddingVertical: 16,
+  },
+});
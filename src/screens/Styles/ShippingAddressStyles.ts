@@ -84,6 +84,61 @@ export const ShippingAddressStyles = StyleSheet.create({
   countryButtonTextActive: {
     color: '#007AFF',
   },
+  shippingOption: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 12,
+    paddingVertical: 12,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 6,
+    backgroundColor: '#fff',
+    marginBottom: 8,
+  },
+  shippingOptionActive: {
+    borderColor: '#007AFF',
+    backgroundColor: '#e3f2fd',
+  },
+  shippingOptionLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+  },
+  shippingOptionDetail: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 2,
+  },
+  shippingOptionCost: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+  },
+  summaryContainer: {
+    backgroundColor: '#fff',
+    borderRadius: 6,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 4,
+  },
+  summaryLabel: {
+    fontSize: 13,
+    color: '#666',
+  },
+  summaryValue: {
+    fontSize: 13,
+    color: '#333',
+  },
+  summaryTotal: {
+    fontSize: 15,
+    fontWeight: '700',
+    color: '#333',
+  },
   checkboxContainer: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -0,0 +1,125 @@
+import { StyleSheet } from 'react-native';
+
+export const SyncConflictsStyles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  listContent: {
+    paddingHorizontal: 12,
+    paddingVertical: 12,
+  },
+  intro: {
+    fontSize: 13,
+    color: '#666',
+    marginBottom: 12,
+  },
+  errorText: {
+    fontSize: 13,
+    color: '#d32f2f',
+    paddingHorizontal: 16,
+    paddingTop: 12,
+  },
+  conflictCard: {
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    marginBottom: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.1,
+    shadowRadius: 2,
+    elevation: 2,
+  },
+  conflictTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#333',
+    marginBottom: 12,
+  },
+  versions: {
+    flexDirection: 'row',
+    paddingVertical: 8,
+    borderTopWidth: 1,
+    borderTopColor: '#f0f0f0',
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+    marginBottom: 12,
+  },
+  versionColumn: {
+    flex: 1,
+  },
+  versionDivider: {
+    width: 1,
+    backgroundColor: '#f0f0f0',
+    marginHorizontal: 12,
+  },
+  versionLabel: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#333',
+  },
+  versionMeta: {
+    fontSize: 11,
+    color: '#999',
+    marginTop: 2,
+    marginBottom: 8,
+  },
+  versionLine: {
+    fontSize: 13,
+    color: '#666',
+    marginBottom: 4,
+  },
+  versionEmpty: {
+    fontSize: 13,
+    color: '#999',
+    fontStyle: 'italic',
+  },
+  choices: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  choiceButton: {
+    flex: 1,
+    paddingVertical: 8,
+    borderWidth: 1,
+    borderColor: '#007AFF',
+    borderRadius: 4,
+    alignItems: 'center',
+  },
+  choiceButtonPrimary: {
+    backgroundColor: '#007AFF',
+  },
+  choiceButtonText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#007AFF',
+  },
+  choiceButtonTextPrimary: {
+    color: '#fff',
+  },
+  emptyContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#999',
+    marginBottom: 20,
+  },
+  syncButton: {
+    minWidth: 140,
+    paddingHorizontal: 24,
+    paddingVertical: 12,
+    backgroundColor: '#007AFF',
+    borderRadius: 6,
+    alignItems: 'center',
+  },
+  syncButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#fff',
+  },
+});
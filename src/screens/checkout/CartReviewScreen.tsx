@@ -4,7 +4,7 @@
  * First step in the checkout flow
  */
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useMemo } from 'react';
 import {
   View,
   Text,
@@ -15,65 +15,67 @@ import {
   ActivityIndicator,
 } from 'react-native';
 import { StackScreenProps } from '@react-navigation/stack';
-import { CheckoutService } from '../../services/CheckoutService';
-import { CartItem, CartCalculation } from '../../types/checkout';
+import { CartItem } from '../../types/checkout';
+import { useAppDispatch, useAppSelector } from '../../store';
+import { removeFromCart, updateCartQuantity } from '../../store/slices/cartSlice';
+import {
+  proceedToNextStep,
+  removeCheckoutItem,
+  selectCheckoutItems,
+  selectCheckoutTotals,
+  updateCheckoutItem,
+} from '../../store/slices/checkoutSlice';
+import { getCheckoutLineId } from '../../services/CheckoutService';
+import { formatVariantSelection } from '../../utils/productVariants';
 import { CartReviewStyles } from '../Styles/CartReviewStyles';
 
 type CartReviewScreenProps = StackScreenProps<any, 'CartReview'>;
 
 interface CartItemWithCalculation extends CartItem {
+  lineId: string;
   itemTotal: number;
 }
 
 export const CartReviewScreen: React.FC<CartReviewScreenProps> = ({ navigation, route }) => {
-  const [cartItems, setCartItems] = useState<CartItemWithCalculation[]>([]);
-  const [totals, setTotals] = useState<CartCalculation>({
-    subtotal: 0,
-    tax: 0,
-    shipping: 0,
-    total: 0,
-  });
+  const dispatch = useAppDispatch();
+  const checkoutItems = useAppSelector(selectCheckoutItems);
+  const totals = useAppSelector(selectCheckoutTotals);
   const [isLoading, setIsLoading] = useState(false);
 
-  useEffect(() => {
-    loadCartData();
-  }, []);
-
-  const loadCartData = () => {
-    try {
-      const state = CheckoutService.getState();
-      const calculation = CheckoutService.calculateTotals();
-
-      const itemsWithTotals: CartItemWithCalculation[] = state.cartItems.map(item => ({
+  const cartItems: CartItemWithCalculation[] = useMemo(
+    () =>
+      checkoutItems.map(item => ({
         ...item,
+        lineId: getCheckoutLineId(item),
         itemTotal: parseFloat((item.price * item.quantity).toFixed(2)),
-      }));
+      })),
+    [checkoutItems]
+  );
 
-      setCartItems(itemsWithTotals);
-      setTotals(calculation);
-    } catch (error) {
-      console.error('Error loading cart data:', error);
-      Alert.alert('Error', 'Failed to load cart data');
-    }
+  // Changes made during review also apply to the shopping cart
+  const syncCart = (request: Promise<unknown>) => {
+    request.catch(error => {
+      console.error('Error updating cart:', error);
+    });
   };
 
-  const handleQuantityChange = (productId: string, newQuantity: number) => {
+  const handleQuantityChange = (lineId: string, newQuantity: number) => {
     if (newQuantity < 1) {
       return;
     }
 
-    CheckoutService.updateCartItem(productId, newQuantity);
-    loadCartData();
+    dispatch(updateCheckoutItem({ lineId, quantity: newQuantity }));
+    syncCart(dispatch(updateCartQuantity({ lineId, quantity: newQuantity })).unwrap());
   };
 
-  const handleRemoveItem = (productId: string, title: string) => {
+  const handleRemoveItem = (lineId: string, title: string) => {
     Alert.alert('Remove Item', `Remove ${title} from cart?`, [
       { text: 'Cancel', onPress: () => {} },
       {
         text: 'Remove',
         onPress: () => {
-          CheckoutService.removeCartItem(productId);
-          loadCartData();
+          dispatch(removeCheckoutItem(lineId));
+          syncCart(dispatch(removeFromCart(lineId)).unwrap());
         },
         style: 'destructive',
       },
@@ -83,7 +85,7 @@ export const CartReviewScreen: React.FC<CartReviewScreenProps> = ({ navigation,
   const handleProceedToShipping = async () => {
     setIsLoading(true);
     try {
-      const state = CheckoutService.proceedToNextStep();
+      const state = dispatch(proceedToNextStep());
 
       if (state.error) {
         Alert.alert('Validation Error', state.error);
@@ -108,12 +110,17 @@ export const CartReviewScreen: React.FC<CartReviewScreenProps> = ({ navigation,
         <Text style={CartReviewStyles.itemTitle} numberOfLines={2}>
           {item.title}
         </Text>
+        {item.selectedVariants && Object.keys(item.selectedVariants).length > 0 && (
+          <Text style={CartReviewStyles.itemVariant}>
+            {formatVariantSelection(item.selectedVariants)}
+          </Text>
+        )}
         <Text style={CartReviewStyles.itemPrice}>${item.price.toFixed(2)}</Text>
 
         <View style={CartReviewStyles.quantityContainer}>
           <TouchableOpacity
             style={CartReviewStyles.quantityButton}
-            onPress={() => handleQuantityChange(item.productId, item.quantity - 1)}
+            onPress={() => handleQuantityChange(item.lineId, item.quantity - 1)}
           >
             <Text style={CartReviewStyles.quantityButtonText}>−</Text>
           </TouchableOpacity>
@@ -122,7 +129,7 @@ export const CartReviewScreen: React.FC<CartReviewScreenProps> = ({ navigation,
 
           <TouchableOpacity
             style={CartReviewStyles.quantityButton}
-            onPress={() => handleQuantityChange(item.productId, item.quantity + 1)}
+            onPress={() => handleQuantityChange(item.lineId, item.quantity + 1)}
           >
             <Text style={CartReviewStyles.quantityButtonText}>+</Text>
           </TouchableOpacity>
@@ -133,7 +140,7 @@ export const CartReviewScreen: React.FC<CartReviewScreenProps> = ({ navigation,
         <Text style={CartReviewStyles.itemTotal}>${item.itemTotal.toFixed(2)}</Text>
         <TouchableOpacity
           style={CartReviewStyles.removeButton}
-          onPress={() => handleRemoveItem(item.productId, item.title)}
+          onPress={() => handleRemoveItem(item.lineId, item.title)}
         >
           <Text style={CartReviewStyles.removeButtonText}>Remove</Text>
         </TouchableOpacity>
@@ -160,7 +167,7 @@ export const CartReviewScreen: React.FC<CartReviewScreenProps> = ({ navigation,
       <FlatList
         data={cartItems}
         renderItem={renderCartItem}
-        keyExtractor={item => item.productId}
+        keyExtractor={item => item.lineId}
         contentContainerStyle={CartReviewStyles.listContent}
         scrollEnabled={true}
       />
@@ -15,9 +15,11 @@ import {
   Image,
 } from 'react-native';
 import { StackScreenProps } from '@react-navigation/stack';
-import { CheckoutService } from '../../services/CheckoutService';
-import { OrderService } from '../../services/OrderService';
 import { Order, CartItem } from '../../types/checkout';
+import { useAppDispatch } from '../../store';
+import { placeOrder } from '../../store/slices/checkoutSlice';
+import { getCheckoutLineId } from '../../services/CheckoutService';
+import { formatVariantSelection } from '../../utils/productVariants';
 import { OrderConfirmationStyles } from '../Styles/OrderConfirmationStyles';
 
 type OrderConfirmationScreenProps = StackScreenProps<any, 'Confirmation'>;
@@ -26,6 +28,7 @@ export const OrderConfirmationScreen: React.FC<OrderConfirmationScreenProps> = (
   navigation,
   route,
 }) => {
+  const dispatch = useAppDispatch();
   const [order, setOrder] = useState<Order | null>(null);
   const [isLoading, setIsLoading] = useState(true);
 
@@ -35,28 +38,11 @@ export const OrderConfirmationScreen: React.FC<OrderConfirmationScreenProps> = (
 
   const loadOrderData = async () => {
     try {
-      const state = CheckoutService.getState();
-
-      // Create order from checkout state
-      if (state.cartItems.length > 0 && state.shippingAddress) {
-        const calculation = CheckoutService.calculateTotals();
-
-        const newOrder = OrderService.createOrder(
-          state.cartItems,
-          state.shippingAddress,
-          calculation.subtotal,
-          calculation.tax,
-          calculation.shipping,
-          'user-123' // In production, get from auth context
-        );
-
-        // Save order to history
-        await OrderService.saveOrder(newOrder);
-        setOrder(newOrder);
-
-        // Clear checkout state
-        CheckoutService.resetCheckout();
-      }
+      // Create and save the order, then clear checkout and the shopping cart
+      const newOrder = await dispatch(
+        placeOrder('user-123') // In production, get from auth context
+      ).unwrap();
+      setOrder(newOrder);
     } catch (error) {
       console.error('Error loading order data:', error);
       Alert.alert('Error', 'Failed to load order confirmation');
@@ -77,13 +63,18 @@ export const OrderConfirmationScreen: React.FC<OrderConfirmationScreenProps> = (
   };
 
   const renderOrderItem = (item: CartItem) => (
-    <View key={item.productId} style={OrderConfirmationStyles.orderItemContainer}>
+    <View key={getCheckoutLineId(item)} style={OrderConfirmationStyles.orderItemContainer}>
       <Image source={{ uri: item.imageUrl }} style={OrderConfirmationStyles.itemImage} />
 
       <View style={OrderConfirmationStyles.itemDetails}>
         <Text style={OrderConfirmationStyles.itemTitle} numberOfLines={2}>
           {item.title}
         </Text>
+        {item.selectedVariants && Object.keys(item.selectedVariants).length > 0 && (
+          <Text style={OrderConfirmationStyles.itemVariant}>
+            {formatVariantSelection(item.selectedVariants)}
+          </Text>
+        )}
         <Text style={OrderConfirmationStyles.itemPrice}>${item.price.toFixed(2)}</Text>
         <Text style={OrderConfirmationStyles.itemQuantity}>Qty: {item.quantity}</Text>
       </View>
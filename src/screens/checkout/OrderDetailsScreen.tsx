@@ -3,16 +3,22 @@
  * Displays detailed information about a specific order
  */
 
-import React from 'react';
+import React, { useState } from 'react';
 import {
   View,
   Text,
   ScrollView,
   TouchableOpacity,
   Image,
+  Alert,
+  ActivityIndicator,
 } from 'react-native';
 import { StackScreenProps } from '@react-navigation/stack';
 import { Order, CartItem } from '../../types/checkout';
+import { getCheckoutLineId } from '../../services/CheckoutService';
+import { OrderService } from '../../services/OrderService';
+import { getOrderProvider } from '../../data/providers';
+import { formatVariantSelection } from '../../utils/productVariants';
 import { OrderConfirmationStyles } from '../Styles/OrderConfirmationStyles';
 
 type OrderDetailsScreenProps = StackScreenProps<any, 'OrderDetails'>;
@@ -21,7 +27,11 @@ export const OrderDetailsScreen: React.FC<OrderDetailsScreenProps> = ({
   navigation,
   route,
 }) => {
-  const order: Order = route.params?.order;
+  const [order, setOrder] = useState<Order | undefined>(route.params?.order);
+  const [isRefunding, setIsRefunding] = useState(false);
+  const [refundQuantities, setRefundQuantities] = useState<Record<string, number>>({});
+  const [isProcessing, setIsProcessing] = useState(false);
+  const userId = 'user-123'; // In production, get from auth context
 
   if (!order) {
     return (
@@ -37,21 +47,128 @@ export const OrderDetailsScreen: React.FC<OrderDetailsScreenProps> = ({
     );
   }
 
+  const refundLines = Object.entries(refundQuantities).map(([lineId, quantity]) => ({
+    lineId,
+    quantity,
+  }));
+  let refundTotal = 0;
+  try {
+    refundTotal = OrderService.buildRefundLines(order, refundLines).reduce(
+      (sum, line) => sum + line.amount,
+      0
+    );
+  } catch {
+    refundTotal = 0;
+  }
+  const refundedAmount = OrderService.getRefundedAmount(order);
+
+  const changeRefundQuantity = (lineId: string, delta: number) => {
+    const refundable = OrderService.getRefundableQuantity(order, lineId);
+    setRefundQuantities(prev => ({
+      ...prev,
+      [lineId]: Math.min(refundable, Math.max(0, (prev[lineId] ?? 0) + delta)),
+    }));
+  };
+
+  const handleCancelOrder = () => {
+    Alert.alert('Cancel Order', `Cancel ${order.orderId} and refund $${order.total.toFixed(2)}?`, [
+      { text: 'Keep Order', style: 'cancel' },
+      {
+        text: 'Cancel Order',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            setIsProcessing(true);
+            const cancelledOrder = await OrderService.cancelOrder(userId, order.orderId);
+            setOrder(cancelledOrder);
+            await getOrderProvider().saveOrder(cancelledOrder);
+            Alert.alert('Order Cancelled', 'Your refund is on its way.');
+          } catch (error) {
+            console.error('Error cancelling order:', error);
+            Alert.alert('Error', error instanceof Error ? error.message : 'Failed to cancel order');
+          } finally {
+            setIsProcessing(false);
+          }
+        },
+      },
+    ]);
+  };
+
+  const handleSubmitRefund = async () => {
+    try {
+      setIsProcessing(true);
+      const updatedOrder = await OrderService.refundOrderItems(userId, order.orderId, refundLines);
+      setOrder(updatedOrder);
+      await getOrderProvider().saveOrder(updatedOrder);
+      setIsRefunding(false);
+      setRefundQuantities({});
+      Alert.alert('Refund Requested', `$${refundTotal.toFixed(2)} will be returned to your card.`);
+    } catch (error) {
+      console.error('Error refunding order:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to refund items');
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const renderRefundControls = (item: CartItem) => {
+    const lineId = getCheckoutLineId(item);
+    const refundable = OrderService.getRefundableQuantity(order, lineId);
+    const selected = refundQuantities[lineId] ?? 0;
+
+    if (refundable === 0) {
+      return <Text style={OrderConfirmationStyles.refundedLabel}>Refunded</Text>;
+    }
+
+    return (
+      <View style={OrderConfirmationStyles.refundControls}>
+        <TouchableOpacity
+          style={OrderConfirmationStyles.refundStepperButton}
+          onPress={() => changeRefundQuantity(lineId, -1)}
+          disabled={selected === 0}
+          accessibilityLabel={`Refund one less ${item.title}`}
+        >
+          <Text style={OrderConfirmationStyles.refundStepperText}>-</Text>
+        </TouchableOpacity>
+        <Text style={OrderConfirmationStyles.refundQuantityText}>
+          {selected}/{refundable}
+        </Text>
+        <TouchableOpacity
+          style={OrderConfirmationStyles.refundStepperButton}
+          onPress={() => changeRefundQuantity(lineId, 1)}
+          disabled={selected >= refundable}
+          accessibilityLabel={`Refund one more ${item.title}`}
+        >
+          <Text style={OrderConfirmationStyles.refundStepperText}>+</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  };
+
   const renderOrderItem = (item: CartItem) => (
-    <View key={item.productId} style={OrderConfirmationStyles.orderItemContainer}>
+    <View key={getCheckoutLineId(item)} style={OrderConfirmationStyles.orderItemContainer}>
       <Image source={{ uri: item.imageUrl }} style={OrderConfirmationStyles.itemImage} />
 
       <View style={OrderConfirmationStyles.itemDetails}>
         <Text style={OrderConfirmationStyles.itemTitle} numberOfLines={2}>
           {item.title}
         </Text>
+        {item.selectedVariants && Object.keys(item.selectedVariants).length > 0 && (
+          <Text style={OrderConfirmationStyles.itemVariant}>
+            {formatVariantSelection(item.selectedVariants)}
+          </Text>
+        )}
         <Text style={OrderConfirmationStyles.itemPrice}>${item.price.toFixed(2)}</Text>
         <Text style={OrderConfirmationStyles.itemQuantity}>Qty: {item.quantity}</Text>
       </View>
 
-      <Text style={OrderConfirmationStyles.itemTotal}>
-        ${(item.price * item.quantity).toFixed(2)}
-      </Text>
+      {isRefunding ? (
+        renderRefundControls(item)
+      ) : (
+        <Text style={OrderConfirmationStyles.itemTotal}>
+          ${(item.price * item.quantity).toFixed(2)}
+        </Text>
+      )}
     </View>
   );
 
@@ -129,8 +246,78 @@ export const OrderDetailsScreen: React.FC<OrderDetailsScreenProps> = ({
           <Text style={OrderConfirmationStyles.totalLabel}>Total:</Text>
           <Text style={OrderConfirmationStyles.totalValue}>${order.total.toFixed(2)}</Text>
         </View>
+
+        {refundedAmount > 0 && (
+          <View style={OrderConfirmationStyles.summaryRow}>
+            <Text style={OrderConfirmationStyles.summaryLabel}>Refunded:</Text>
+            <Text style={OrderConfirmationStyles.refundedValue}>-${refundedAmount.toFixed(2)}</Text>
+          </View>
+        )}
       </View>
 
+      {/* Refunds */}
+      {order.refunds && order.refunds.length > 0 && (
+        <View style={OrderConfirmationStyles.sectionContainer}>
+          <Text style={OrderConfirmationStyles.sectionTitle}>Refunds</Text>
+          {order.refunds.map(refund => (
+            <View key={refund.refundId} style={OrderConfirmationStyles.detailRow}>
+              <Text style={OrderConfirmationStyles.detailLabel}>
+                {refund.createdAt.toLocaleDateString()} ·{' '}
+                {refund.reason === 'cancellation' ? 'Cancellation' : 'Return'}
+              </Text>
+              <Text style={OrderConfirmationStyles.detailValue}>${refund.amount.toFixed(2)}</Text>
+            </View>
+          ))}
+        </View>
+      )}
+
+      {/* Cancel / Refund */}
+      {isProcessing ? (
+        <ActivityIndicator style={OrderConfirmationStyles.processingIndicator} color="#007AFF" />
+      ) : isRefunding ? (
+        <View style={OrderConfirmationStyles.buttonContainer}>
+          <TouchableOpacity
+            style={OrderConfirmationStyles.secondaryButton}
+            onPress={() => {
+              setIsRefunding(false);
+              setRefundQuantities({});
+            }}
+          >
+            <Text style={OrderConfirmationStyles.secondaryButtonText}>Back</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[
+              OrderConfirmationStyles.dangerButton,
+              refundTotal === 0 && OrderConfirmationStyles.disabledButton,
+            ]}
+            onPress={handleSubmitRefund}
+            disabled={refundTotal === 0}
+          >
+            <Text style={OrderConfirmationStyles.dangerButtonText}>
+              Refund ${refundTotal.toFixed(2)}
+            </Text>
+          </TouchableOpacity>
+        </View>
+      ) : (
+        (OrderService.canCancelOrder(order) || OrderService.canRefundOrder(order)) && (
+          <View style={OrderConfirmationStyles.buttonContainer}>
+            {OrderService.canCancelOrder(order) && (
+              <TouchableOpacity style={OrderConfirmationStyles.dangerButton} onPress={handleCancelOrder}>
+                <Text style={OrderConfirmationStyles.dangerButtonText}>Cancel Order</Text>
+              </TouchableOpacity>
+            )}
+            {OrderService.canRefundOrder(order) && (
+              <TouchableOpacity
+                style={OrderConfirmationStyles.secondaryButton}
+                onPress={() => setIsRefunding(true)}
+              >
+                <Text style={OrderConfirmationStyles.secondaryButtonText}>Refund Items</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        )
+      )}
+
       {/* Back Button */}
       <View style={OrderConfirmationStyles.buttonContainer}>
         <TouchableOpacity
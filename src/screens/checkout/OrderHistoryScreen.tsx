@@ -16,6 +16,7 @@ import {
 import { useFocusEffect } from '@react-navigation/native';
 import { StackScreenProps } from '@react-navigation/stack';
 import { OrderService } from '../../services/OrderService';
+import { getOrderProvider } from '../../data/providers';
 import { Order } from '../../types/checkout';
 import { OrderHistoryStyles } from '../Styles/OrderHistoryStyles';
 
@@ -38,15 +39,14 @@ export const OrderHistoryScreen: React.FC<OrderHistoryScreenProps> = ({ navigati
       setIsLoading(true);
       const userId = 'user-123'; // In production, get from auth context
 
-      let loadedOrders: Order[];
+      // The provider reads from the server and falls back to the copy on this device
+      const loadedOrders = await getOrderProvider().getOrderHistory(userId);
 
-      if (selectedFilter === 'all') {
-        loadedOrders = await OrderService.getOrderHistory(userId);
-      } else {
-        loadedOrders = await OrderService.getOrdersByStatus(userId, selectedFilter);
-      }
-
-      setOrders(loadedOrders);
+      setOrders(
+        selectedFilter === 'all'
+          ? loadedOrders
+          : loadedOrders.filter(order => order.status === selectedFilter)
+      );
     } catch (error) {
       console.error('Error loading orders:', error);
       Alert.alert('Error', 'Failed to load order history');
@@ -82,6 +82,7 @@ export const OrderHistoryScreen: React.FC<OrderHistoryScreenProps> = ({ navigati
             const newOrder = await OrderService.createReorder(userId, order.orderId);
 
             if (newOrder) {
+              await getOrderProvider().saveOrder(newOrder);
               Alert.alert('Success', 'Reorder created successfully');
               loadOrders();
             }
@@ -102,6 +103,9 @@ export const OrderHistoryScreen: React.FC<OrderHistoryScreenProps> = ({ navigati
         return '#2196f3';
       case 'delivered':
         return '#4caf50';
+      case 'cancelled':
+      case 'refunded':
+        return '#d32f2f';
       default:
         return '#999';
     }
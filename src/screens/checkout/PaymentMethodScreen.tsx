@@ -20,9 +20,18 @@ import {
 import { StackScreenProps } from '@react-navigation/stack';
 import { useStripe } from '@stripe/stripe-react-native';
 import * as Linking from 'expo-linking';
-import { CheckoutService } from '../../services/CheckoutService';
 import { PaymentService } from '../../services/PaymentService';
-import { PaymentMethod, CartCalculation } from '../../types/checkout';
+import { PaymentMethod } from '../../types/checkout';
+import { useAppDispatch, useAppSelector } from '../../store';
+import {
+  goToPreviousStep,
+  proceedToNextStep,
+  selectCheckout,
+  selectCheckoutItems,
+  selectCheckoutTotals,
+  setPaymentMethod as saveCheckoutPaymentMethod,
+  setProcessing,
+} from '../../store/slices/checkoutSlice';
 import { validatePaymentMethod } from '../../utils/checkoutValidation';
 import { PaymentMethodStyles } from '../Styles/PaymentMethodStyles';
 
@@ -34,6 +43,11 @@ export const PaymentMethodScreen: React.FC<PaymentMethodScreenProps> = ({
 }) => {
   const { initPaymentSheet, presentPaymentSheet } = useStripe();
   const stripeEnabled = PaymentService.isStripeConfigured();
+  const dispatch = useAppDispatch();
+  const checkout = useAppSelector(selectCheckout);
+  const savedPaymentMethod = checkout.paymentMethod;
+  const totals = useAppSelector(selectCheckoutTotals);
+  const checkoutItems = useAppSelector(selectCheckoutItems);
 
   const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>({
     cardNumber: '',
@@ -45,23 +59,13 @@ export const PaymentMethodScreen: React.FC<PaymentMethodScreenProps> = ({
 
   const [errors, setErrors] = useState<Record<string, string>>({});
   const [isLoading, setIsLoading] = useState(false);
-  const [totals, setTotals] = useState<CartCalculation>({
-    subtotal: 0,
-    tax: 0,
-    shipping: 0,
-    total: 0,
-  });
 
   useEffect(() => {
-    // Load totals and existing payment method if available
-    const state = CheckoutService.getState();
-    const calculation = CheckoutService.calculateTotals();
-    setTotals(calculation);
-
-    if (state.paymentMethod) {
-      setPaymentMethod(state.paymentMethod);
+    // Load existing payment method if available
+    if (savedPaymentMethod) {
+      setPaymentMethod(savedPaymentMethod);
     }
-  }, []);
+  }, [savedPaymentMethod]);
 
   const handleFieldChange = (field: keyof PaymentMethod, value: string | boolean) => {
     let formattedValue = value;
@@ -112,7 +116,14 @@ export const PaymentMethodScreen: React.FC<PaymentMethodScreenProps> = ({
 
   const handleStripeCheckout = async (orderId: string): Promise<boolean> => {
     try {
-      const paymentSheet = await PaymentService.createPaymentSheetParams(orderId, totals.total);
+      const paymentSheet = await PaymentService.createPaymentSheetParams(
+        orderId,
+        totals.total,
+        checkoutItems,
+        checkout.shippingAddress
+          ? { shippingAddress: checkout.shippingAddress, shippingMethod: checkout.shippingMethod }
+          : undefined
+      );
 
       const initResult = await initPaymentSheet({
         merchantDisplayName: paymentSheet.merchantDisplayName || 'Swipely',
@@ -154,7 +165,7 @@ export const PaymentMethodScreen: React.FC<PaymentMethodScreenProps> = ({
 
     setIsLoading(true);
     try {
-      CheckoutService.setProcessing(true);
+      dispatch(setProcessing(true));
 
       const orderId = `ORD-${Date.now()}`;
 
@@ -162,7 +173,7 @@ export const PaymentMethodScreen: React.FC<PaymentMethodScreenProps> = ({
       if (stripeEnabled) {
         const stripeSuccess = await handleStripeCheckout(orderId);
         if (!stripeSuccess) {
-          CheckoutService.setProcessing(false);
+          dispatch(setProcessing(false));
           setIsLoading(false);
           return;
         }
@@ -173,18 +184,18 @@ export const PaymentMethodScreen: React.FC<PaymentMethodScreenProps> = ({
             'Payment Not Confirmed',
             'Payment is not confirmed by the server yet. Please try again in a moment.'
           );
-          CheckoutService.setProcessing(false);
+          dispatch(setProcessing(false));
           setIsLoading(false);
           return;
         }
 
-        CheckoutService.setPaymentMethod({
+        dispatch(saveCheckoutPaymentMethod({
           cardNumber: '4242 4242 4242 4242',
           expirationDate: '12/99',
           cvv: '123',
           cardholderName: 'Stripe Payment',
           isDefault: false,
-        });
+        }));
 
         paymentResult = {
           success: true,
@@ -193,19 +204,19 @@ export const PaymentMethodScreen: React.FC<PaymentMethodScreenProps> = ({
         };
       } else {
         // Save payment method for non-Stripe flow
-        CheckoutService.setPaymentMethod(paymentMethod);
+        dispatch(saveCheckoutPaymentMethod(paymentMethod));
         paymentResult = await PaymentService.processPayment(paymentMethod, totals.total, orderId);
       }
 
       if (!paymentResult.success) {
         Alert.alert('Payment Failed', paymentResult.error || 'Payment processing failed');
-        CheckoutService.setProcessing(false);
+        dispatch(setProcessing(false));
         setIsLoading(false);
         return;
       }
 
       // Payment successful - proceed to confirmation
-      CheckoutService.proceedToNextStep();
+      dispatch(proceedToNextStep());
       navigation.navigate('Confirmation', {
         orderId: paymentResult.orderId,
         confirmationNumber: paymentResult.confirmationNumber,
@@ -213,14 +224,14 @@ export const PaymentMethodScreen: React.FC<PaymentMethodScreenProps> = ({
     } catch (error) {
       console.error('Error processing payment:', error);
       Alert.alert('Error', 'An unexpected error occurred');
-      CheckoutService.setProcessing(false);
+      dispatch(setProcessing(false));
     } finally {
       setIsLoading(false);
     }
   };
 
   const handleGoBack = () => {
-    CheckoutService.goToPreviousStep();
+    dispatch(goToPreviousStep());
     navigation.goBack();
   };
 
@@ -4,7 +4,7 @@
  * Second step in the checkout flow
  */
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import {
   View,
   Text,
@@ -18,7 +18,18 @@ import {
   Platform,
 } from 'react-native';
 import { StackScreenProps } from '@react-navigation/stack';
-import { CheckoutService } from '../../services/CheckoutService';
+import { useAppDispatch, useAppSelector } from '../../store';
+import {
+  goToPreviousStep,
+  proceedToNextStep,
+  selectCheckout,
+  selectCheckoutItems,
+  selectShippingMethod,
+  setShippingAddress,
+  setShippingMethod,
+} from '../../store/slices/checkoutSlice';
+import { calculateCartTotals } from '../../services/CheckoutService';
+import { getPricingService } from '../../services/PricingService';
 import { ShippingAddress, ValidationResult } from '../../types/checkout';
 import { validateShippingAddress } from '../../utils/checkoutValidation';
 import { ShippingAddressStyles } from '../Styles/ShippingAddressStyles';
@@ -31,6 +42,11 @@ export const ShippingAddressScreen: React.FC<ShippingAddressScreenProps> = ({
   navigation,
   route,
 }) => {
+  const dispatch = useAppDispatch();
+  const savedAddress = useAppSelector(selectCheckout).shippingAddress;
+  const checkoutItems = useAppSelector(selectCheckoutItems);
+  const shippingMethod =
+    useAppSelector(selectShippingMethod) ?? getPricingService().getDefaultShippingMethod();
   const [address, setAddress] = useState<ShippingAddress>({
     street: '',
     city: '',
@@ -49,11 +65,20 @@ export const ShippingAddressScreen: React.FC<ShippingAddressScreenProps> = ({
 
   useEffect(() => {
     // Load existing address if available
-    const state = CheckoutService.getState();
-    if (state.shippingAddress) {
-      setAddress(state.shippingAddress);
+    if (savedAddress) {
+      setAddress(savedAddress);
     }
-  }, []);
+  }, [savedAddress]);
+
+  // Rates and tax follow the address as it is typed
+  const shippingOptions = useMemo(
+    () => getPricingService().getShippingOptions({ items: checkoutItems, shippingAddress: address }),
+    [checkoutItems, address]
+  );
+  const totals = useMemo(
+    () => calculateCartTotals(checkoutItems, { shippingAddress: address, shippingMethod }),
+    [checkoutItems, address, shippingMethod]
+  );
 
   const handleFieldChange = (field: keyof ShippingAddress, value: string | boolean) => {
     const updatedAddress = { ...address, [field]: value };
@@ -82,8 +107,8 @@ export const ShippingAddressScreen: React.FC<ShippingAddressScreenProps> = ({
 
     setIsLoading(true);
     try {
-      CheckoutService.setShippingAddress(address);
-      const state = CheckoutService.proceedToNextStep();
+      dispatch(setShippingAddress(address));
+      const state = dispatch(proceedToNextStep());
 
       if (state.error) {
         Alert.alert('Error', state.error);
@@ -101,7 +126,7 @@ export const ShippingAddressScreen: React.FC<ShippingAddressScreenProps> = ({
   };
 
   const handleGoBack = () => {
-    CheckoutService.goToPreviousStep();
+    dispatch(goToPreviousStep());
     navigation.goBack();
   };
 
@@ -211,6 +236,66 @@ export const ShippingAddressScreen: React.FC<ShippingAddressScreenProps> = ({
           {errors.country && <Text style={ShippingAddressStyles.errorText}>{errors.country}</Text>}
         </View>
 
+        {/* Shipping Method */}
+        <View style={ShippingAddressStyles.fieldContainer}>
+          <Text style={ShippingAddressStyles.label}>Shipping Method</Text>
+          {shippingOptions.map(option => (
+            <TouchableOpacity
+              key={option.method}
+              style={[
+                ShippingAddressStyles.shippingOption,
+                shippingMethod === option.method && ShippingAddressStyles.shippingOptionActive,
+              ]}
+              onPress={() => dispatch(setShippingMethod(option.method))}
+              disabled={isLoading}
+              accessibilityRole="radio"
+              accessibilityState={{ selected: shippingMethod === option.method }}
+            >
+              <View>
+                <Text style={ShippingAddressStyles.shippingOptionLabel}>{option.label}</Text>
+                <Text style={ShippingAddressStyles.shippingOptionDetail}>
+                  {option.estimatedDays}
+                </Text>
+              </View>
+              <Text style={ShippingAddressStyles.shippingOptionCost}>
+                {option.cost === 0 ? 'Free' : `$${option.cost.toFixed(2)}`}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        {/* Order Estimate */}
+        <View style={ShippingAddressStyles.summaryContainer}>
+          <View style={ShippingAddressStyles.summaryRow}>
+            <Text style={ShippingAddressStyles.summaryLabel}>Subtotal</Text>
+            <Text style={ShippingAddressStyles.summaryValue}>${totals.subtotal.toFixed(2)}</Text>
+          </View>
+          <View style={ShippingAddressStyles.summaryRow}>
+            <Text style={ShippingAddressStyles.summaryLabel}>
+              Tax ({parseFloat((totals.breakdown.taxRate * 100).toFixed(3))}%)
+            </Text>
+            <Text style={ShippingAddressStyles.summaryValue}>${totals.tax.toFixed(2)}</Text>
+          </View>
+          {totals.breakdown.exemptSubtotal > 0 && (
+            <View style={ShippingAddressStyles.summaryRow}>
+              <Text style={ShippingAddressStyles.summaryLabel}>Tax-exempt items</Text>
+              <Text style={ShippingAddressStyles.summaryValue}>
+                ${totals.breakdown.exemptSubtotal.toFixed(2)}
+              </Text>
+            </View>
+          )}
+          <View style={ShippingAddressStyles.summaryRow}>
+            <Text style={ShippingAddressStyles.summaryLabel}>Shipping</Text>
+            <Text style={ShippingAddressStyles.summaryValue}>
+              {totals.breakdown.freeShippingApplied ? 'Free' : `$${totals.shipping.toFixed(2)}`}
+            </Text>
+          </View>
+          <View style={ShippingAddressStyles.summaryRow}>
+            <Text style={ShippingAddressStyles.summaryTotal}>Estimated Total</Text>
+            <Text style={ShippingAddressStyles.summaryTotal}>${totals.total.toFixed(2)}</Text>
+          </View>
+        </View>
+
         {/* Save Address Checkbox */}
         <View style={ShippingAddressStyles.checkboxContainer}>
           <Switch
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import {
   View,
   Text,
@@ -12,39 +12,49 @@ import {
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useFocusEffect, useNavigation } from '@react-navigation/native';
 import { StackNavigationProp } from '@react-navigation/stack';
-import { getCartProvider } from '../../data/providers';
-import { CartProvider } from '../../data/providers/CartProvider';
-import { CheckoutService } from '../../services/CheckoutService';
-import { CartItem, ProductCard, MainStackParamList } from '../../types';
+import { MainStackParamList } from '../../types';
+import { useAppDispatch, useAppSelector } from '../../store';
+import {
+  CartItemWithProduct,
+  fetchCart,
+  removeFromCart,
+  selectCartCount,
+  selectCartItems,
+  selectCartStatus,
+  selectCartTotal,
+  updateCartQuantity,
+} from '../../store/slices/cartSlice';
+import { initializeCheckout } from '../../store/slices/checkoutSlice';
+import {
+  findVariant,
+  formatVariantSelection,
+  getCartLineId,
+  getVariantPrice,
+} from '../../utils/productVariants';
 import { CartScreenStyles } from '../Styles/ProductStyles';
 
-interface CartItemWithProduct extends CartItem {
-  product: ProductCard;
-}
-
 type CartScreenNavigationProp = StackNavigationProp<MainStackParamList>;
 
 export const CartScreen: React.FC = () => {
   const navigation = useNavigation<CartScreenNavigationProp>();
-  const [cartItems, setCartItems] = useState<CartItemWithProduct[]>([]);
-  const [loading, setLoading] = useState(true);
+  const dispatch = useAppDispatch();
+  const cartItems = useAppSelector(selectCartItems);
+  const cartCount = useAppSelector(selectCartCount);
+  const cartTotal = useAppSelector(selectCartTotal);
+  const status = useAppSelector(selectCartStatus);
   const [refreshing, setRefreshing] = useState(false);
-  const cartService: CartProvider = useMemo(() => getCartProvider(), []);
+
+  // Items restored from storage render straight away while the cart reloads
+  const loading = cartItems.length === 0 && (status === 'idle' || status === 'loading');
 
   const loadCartItems = useCallback(async () => {
     try {
-      console.log('Loading cart items...');
-      const items = await cartService.getCartItemsWithDetails();
-      console.log('Loaded cart items:', items.length);
-      console.log('Cart items:', items.map(item => ({ id: item.productId, title: item.product.title, qty: item.quantity })));
-      setCartItems(items);
+      await dispatch(fetchCart()).unwrap();
     } catch (error) {
       console.error('Failed to load cart items:', error);
       Alert.alert('Error', 'Failed to load cart items');
-    } finally {
-      setLoading(false);
     }
-  }, [cartService]);
+  }, [dispatch]);
 
   const onRefresh = useCallback(async () => {
     setRefreshing(true);
@@ -59,22 +69,20 @@ export const CartScreen: React.FC = () => {
   // Reload cart when screen comes into focus
   useFocusEffect(
     useCallback(() => {
-      console.log('CartScreen focused, reloading items...');
       loadCartItems();
     }, [loadCartItems])
   );
 
-  const handleUpdateQuantity = async (productId: string, newQuantity: number) => {
+  const handleUpdateQuantity = async (lineId: string, newQuantity: number) => {
     try {
-      await cartService.updateQuantity(productId, newQuantity);
-      await loadCartItems();
+      await dispatch(updateCartQuantity({ lineId, quantity: newQuantity })).unwrap();
     } catch (error) {
       console.error('Failed to update quantity:', error);
       Alert.alert('Error', 'Failed to update quantity');
     }
   };
 
-  const handleRemoveItem = async (productId: string) => {
+  const handleRemoveItem = async (lineId: string) => {
     Alert.alert(
       'Remove Item',
       'Are you sure you want to remove this item from your cart?',
@@ -85,8 +93,7 @@ export const CartScreen: React.FC = () => {
           style: 'destructive',
           onPress: async () => {
             try {
-              await cartService.removeFromCart(productId);
-              await loadCartItems();
+              await dispatch(removeFromCart(lineId)).unwrap();
             } catch (error) {
               console.error('Failed to remove item:', error);
               Alert.alert('Error', 'Failed to remove item');
@@ -97,10 +104,6 @@ export const CartScreen: React.FC = () => {
     );
   };
 
-  const calculateTotal = () => {
-    return cartItems.reduce((total, item) => total + (item.product.price * item.quantity), 0);
-  };
-
   const handleProceedToCheckout = () => {
     if (cartItems.length === 0) {
       Alert.alert('Empty Cart', 'Please add items to your cart before checkout');
@@ -112,14 +115,18 @@ export const CartScreen: React.FC = () => {
       const checkoutItems = cartItems.map(item => ({
         productId: item.productId,
         title: item.product.title,
-        price: item.product.price,
+        price: getVariantPrice(item.product, item.selectedVariants),
         quantity: item.quantity,
         imageUrl: item.product.imageUrls[0],
         category: item.product.category.name,
+        categoryId: item.product.category.id,
+        weightKg: item.product.shippingWeightKg,
+        selectedVariants: item.selectedVariants,
+        variantId: findVariant(item.product, item.selectedVariants)?.id,
       }));
 
       // Initialize checkout with cart items
-      CheckoutService.initializeCheckout(checkoutItems);
+      dispatch(initializeCheckout(checkoutItems));
 
       // Navigate to cart review screen
       navigation.navigate('CartReview');
@@ -129,47 +136,60 @@ export const CartScreen: React.FC = () => {
     }
   };
 
-  const renderCartItem = ({ item }: { item: CartItemWithProduct }) => (
-    <View style={CartScreenStyles.cartItem}>
-      <Image
-        source={{ uri: item.product.imageUrls[0] }}
-        style={CartScreenStyles.productImage}
-        resizeMode="cover"
-      />
-      <View style={CartScreenStyles.productInfo}>
-        <Text style={CartScreenStyles.productTitle} numberOfLines={2}>
-          {item.product.title}
-        </Text>
-        <Text style={CartScreenStyles.productPrice}>
-          {item.product.currency} {item.product.price.toFixed(2)}
-        </Text>
-        <View style={CartScreenStyles.quantityContainer}>
-          <TouchableOpacity
-            style={CartScreenStyles.quantityButton}
-            onPress={() => handleUpdateQuantity(item.productId, item.quantity - 1)}
-            disabled={item.quantity <= 1}
-          >
-            <Text style={[CartScreenStyles.quantityButtonText, item.quantity <= 1 && CartScreenStyles.disabledText]}>
-              -
-            </Text>
-          </TouchableOpacity>
-          <Text style={CartScreenStyles.quantityText}>{item.quantity}</Text>
-          <TouchableOpacity
-            style={CartScreenStyles.quantityButton}
-            onPress={() => handleUpdateQuantity(item.productId, item.quantity + 1)}
-          >
-            <Text style={CartScreenStyles.quantityButtonText}>+</Text>
-          </TouchableOpacity>
+  const renderCartItem = ({ item }: { item: CartItemWithProduct }) => {
+    const lineId = getCartLineId(item.productId, item.selectedVariants);
+    const variantLabel = formatVariantSelection(item.selectedVariants);
+    const variant = findVariant(item.product, item.selectedVariants);
+    const atStockLimit = !!variant && item.quantity >= variant.stock;
+
+    return (
+      <View style={CartScreenStyles.cartItem}>
+        <Image
+          source={{ uri: item.product.imageUrls[0] }}
+          style={CartScreenStyles.productImage}
+          resizeMode="cover"
+        />
+        <View style={CartScreenStyles.productInfo}>
+          <Text style={CartScreenStyles.productTitle} numberOfLines={2}>
+            {item.product.title}
+          </Text>
+          {variantLabel !== '' && (
+            <Text style={CartScreenStyles.productVariant}>{variantLabel}</Text>
+          )}
+          <Text style={CartScreenStyles.productPrice}>
+            {item.product.currency} {getVariantPrice(item.product, item.selectedVariants).toFixed(2)}
+          </Text>
+          <View style={CartScreenStyles.quantityContainer}>
+            <TouchableOpacity
+              style={CartScreenStyles.quantityButton}
+              onPress={() => handleUpdateQuantity(lineId, item.quantity - 1)}
+              disabled={item.quantity <= 1}
+            >
+              <Text style={[CartScreenStyles.quantityButtonText, item.quantity <= 1 && CartScreenStyles.disabledText]}>
+                -
+              </Text>
+            </TouchableOpacity>
+            <Text style={CartScreenStyles.quantityText}>{item.quantity}</Text>
+            <TouchableOpacity
+              style={CartScreenStyles.quantityButton}
+              onPress={() => handleUpdateQuantity(lineId, item.quantity + 1)}
+              disabled={atStockLimit}
+            >
+              <Text style={[CartScreenStyles.quantityButtonText, atStockLimit && CartScreenStyles.disabledText]}>
+                +
+              </Text>
+            </TouchableOpacity>
+          </View>
         </View>
+        <TouchableOpacity
+          style={CartScreenStyles.removeButton}
+          onPress={() => handleRemoveItem(lineId)}
+        >
+          <Text style={CartScreenStyles.removeButtonText}>✕</Text>
+        </TouchableOpacity>
       </View>
-      <TouchableOpacity
-        style={CartScreenStyles.removeButton}
-        onPress={() => handleRemoveItem(item.productId)}
-      >
-        <Text style={CartScreenStyles.removeButtonText}>✕</Text>
-      </TouchableOpacity>
-    </View>
-  );
+    );
+  };
 
   const renderEmptyCart = () => (
     <View style={CartScreenStyles.emptyContainer}>
@@ -188,7 +208,7 @@ export const CartScreen: React.FC = () => {
         <View style={CartScreenStyles.totalContainer}>
           <Text style={CartScreenStyles.totalLabel}>Total:</Text>
           <Text style={CartScreenStyles.totalAmount}>
-            USD {calculateTotal().toFixed(2)}
+            USD {cartTotal.toFixed(2)}
           </Text>
         </View>
         <TouchableOpacity 
@@ -221,14 +241,14 @@ export const CartScreen: React.FC = () => {
       <View style={CartScreenStyles.header}>
         <Text style={CartScreenStyles.headerTitle}>Shopping Cart</Text>
         {cartItems.length > 0 && (
-          <Text style={CartScreenStyles.itemCount}>{cartItems.length} items</Text>
+          <Text style={CartScreenStyles.itemCount}>{cartCount} items</Text>
         )}
       </View>
       
       <FlatList
         data={cartItems}
         renderItem={renderCartItem}
-        keyExtractor={(item) => item.productId}
+        keyExtractor={(item) => getCartLineId(item.productId, item.selectedVariants)}
         contentContainerStyle={cartItems.length === 0 ? CartScreenStyles.emptyListContainer : CartScreenStyles.listContainer}
         ListEmptyComponent={renderEmptyCart}
         refreshControl={
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback, memo, useMemo } from 'react';
+import React, { useState, useEffect, useCallback, memo, useMemo, useRef } from 'react';
 import {
   View,
   Text,
@@ -8,18 +8,51 @@ import {
   Alert,  
 } from 'react-native';
 import { SafeAreaProvider } from 'react-native-safe-area-context';
-import { useNavigation } from '@react-navigation/native';
+import { useFocusEffect, useNavigation } from '@react-navigation/native';
 import { StackNavigationProp } from '@react-navigation/stack';
-import { ProductCard, MainStackParamList } from '../../types';
+import { MainStackParamList, ProductCard, SwipeDirection } from '../../types';
 import { getSkippedProductsService } from '../../services/SkippedProductsService';
+import { getSwipeUndoService, SwipeUndoTargets } from '../../services/SwipeUndoService';
+import { getSwipeDirectionForAction } from '../../services/SwipeActionService';
+import { AnalyticsService } from '../../services/AnalyticsService';
 import { getCartProvider, getProductFeedProvider, getWishlistProvider } from '../../data/providers';
 import { ImageCacheManager } from '../../utils/ImageCacheManager';
 import { MemoizationHelper } from '../../utils/StateManagementOptimizer';
+import { getDefaultVariantSelection } from '../../utils/productVariants';
 import { useMemoryManagement, useImageLifecycle } from '../../hooks/useMemoryManagement';
+import { useConnectivity } from '../../hooks/useConnectivity';
 import { SkippedProductsModal } from '../../components/feed/SkippedProductsModal';
 import { ToastNotification } from '../../components/feed/ToastNotification';
 import { CardsContainer } from '../../components/feed/CardsContainer';
 import { FeedHeader } from '../../components/feed/FeedHeader';
+import { CollectionPickerModal } from '../../components/wishlist/CollectionPickerModal';
+import { AppDispatch, useAppDispatch, useAppSelector } from '../../store';
+import { addToCart, countCartItems, removeFromCart, updateCartQuantity } from '../../store/slices/cartSlice';
+import {
+  advanceCard,
+  fetchFeed,
+  refreshFeed,
+  selectCurrentCardIndex,
+  selectFeedProducts,
+  selectFeedRefreshing,
+  selectFeedStatus,
+  setCurrentIndex,
+} from '../../store/slices/feedSlice';
+import {
+  addToWishlist,
+  addToWishlistCollection,
+  fetchWishlistCollections,
+  removeFromWishlist,
+  removeFromWishlistCollection,
+  selectRightSwipeTarget,
+  selectWishlistCollections,
+} from '../../store/slices/wishlistSlice';
+import {
+  fetchSkipped,
+  selectSkippedCategoryCounts,
+  skipProduct,
+  unskipProduct,
+} from '../../store/slices/skippedSlice';
 import { FeedScreenStyles } from '../Styles/ProductStyles';
 
 type FeedScreenNavigationProp = StackNavigationProp<MainStackParamList>;
@@ -27,31 +60,106 @@ type FeedScreenNavigationProp = StackNavigationProp<MainStackParamList>;
 // Mock user ID - in real app this would come from auth context
 const MOCK_USER_ID = 'mock-user-123';
 
+/**
+ * Undo targets whose mutations go through the store, so cart, wishlist and
+ * skipped counts stay in step on every screen. Lookups read the providers.
+ */
+const createSwipeUndoTargets = (dispatch: AppDispatch): SwipeUndoTargets => {
+  const wishlistProvider = getWishlistProvider();
+  const cartProvider = getCartProvider();
+  const skippedProductsService = getSkippedProductsService();
+
+  return {
+    wishlist: {
+      addToWishlist: async (productId, collectionId) => {
+        if (collectionId) {
+          await dispatch(addToWishlistCollection({ productId, collectionId })).unwrap();
+        } else {
+          await dispatch(addToWishlist(productId)).unwrap();
+        }
+      },
+      removeFromWishlist: async productId => {
+        await dispatch(removeFromWishlist(productId)).unwrap();
+      },
+      removeFromCollection: async (productId, collectionId) => {
+        await dispatch(removeFromWishlistCollection({ productId, collectionId })).unwrap();
+      },
+      isInWishlist: productId => wishlistProvider.isInWishlist(productId),
+      getWishlistItems: () => wishlistProvider.getWishlistItems(),
+    },
+    skipped: {
+      addSkippedProduct: async (productId, category) => {
+        await dispatch(skipProduct({ productId, category })).unwrap();
+      },
+      removeSkippedProduct: async productId => {
+        await dispatch(unskipProduct(productId)).unwrap();
+      },
+      isProductSkipped: productId => skippedProductsService.isProductSkipped(productId),
+    },
+    cart: {
+      addToCart: async (productId, quantity, selectedVariants) => {
+        await dispatch(addToCart({ productId, quantity, selectedVariants })).unwrap();
+      },
+      removeFromCart: async lineId => {
+        await dispatch(removeFromCart(lineId)).unwrap();
+      },
+      updateQuantity: async (lineId, quantity) => {
+        await dispatch(updateCartQuantity({ lineId, quantity })).unwrap();
+      },
+      getCartItems: () => cartProvider.getCartItems(),
+    },
+    feed: getProductFeedProvider(),
+    analytics: AnalyticsService.getInstance(),
+  };
+};
+
 export const FeedScreen: React.FC = memo(() => {
   const navigation = useNavigation<FeedScreenNavigationProp>();
+  const dispatch = useAppDispatch();
   
   // Memory management hooks
   const { timers, cleanup } = useMemoryManagement('FeedScreen');
   
-  // Separate state into logical groups to minimize re-renders
-  const [products, setProducts] = useState<ProductCard[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [refreshing, setRefreshing] = useState(false);
-  const [currentCardIndex, setCurrentCardIndex] = useState(0);
+  // Feed and card position live in the store so they survive restarts
+  const products = useAppSelector(selectFeedProducts);
+  const currentCardIndex = useAppSelector(selectCurrentCardIndex);
+  const feedStatus = useAppSelector(selectFeedStatus);
+  const refreshing = useAppSelector(selectFeedRefreshing);
+  const skippedCategories = useAppSelector(selectSkippedCategoryCounts);
+  const loading = feedStatus === 'idle' || feedStatus === 'loading';
+  const { isOffline } = useConnectivity();
+  const wishlistCollections = useAppSelector(selectWishlistCollections);
+  const rightSwipeTarget = useAppSelector(selectRightSwipeTarget);
+  
+  // Keyboard shortcuts must not swipe the feed while another screen is on top of it
+  const [isFocused, setIsFocused] = useState(true);
+  
+  // Undo state - card restored by the last undo animates back in
+  const [undoDepth, setUndoDepth] = useState(0);
+  const [restoredCard, setRestoredCard] = useState<{ productId: string; direction: SwipeDirection } | null>(null);
   
   // Modal state - separated to prevent re-rendering cards
   const [showSkippedModal, setShowSkippedModal] = useState(false);
-  const [skippedCategories, setSkippedCategories] = useState<{ category: string; count: number }[]>([]);
+
+  // A right swipe waiting for the user to pick a wishlist collection
+  const [pendingLike, setPendingLike] = useState<{ product: ProductCard; cardIndex: number } | null>(null);
   
   // Toast state - separated to prevent re-rendering cards
   const [showToast, setShowToast] = useState(false);
   const [toastMessage, setToastMessage] = useState('');
   
-  const skippedProductsService = getSkippedProductsService();
   const imageCacheManager = ImageCacheManager.getInstance();
-  const productFeedProvider = useMemo(() => getProductFeedProvider(), []);
-  const wishlistProvider = useMemo(() => getWishlistProvider(), []);
-  const cartProvider = useMemo(() => getCartProvider(), []);
+  const swipeUndoService = useMemo(
+    () => getSwipeUndoService(createSwipeUndoTargets(dispatch)),
+    [dispatch]
+  );
+
+  useFocusEffect(
+    useCallback(() => {
+      setIsFocused(true);
+      return () => setIsFocused(false);
+    }, [])
+  );
 
   // Memoize products array to prevent unnecessary re-renders
   const memoizedProducts = useMemo(
@@ -95,29 +203,46 @@ export const FeedScreen: React.FC = memo(() => {
 
   const addTestSkippedProducts = useCallback(async () => {
     try {
-      await skippedProductsService.addSkippedProduct('prod-1', 'electronics');
-      await skippedProductsService.addSkippedProduct('prod-2', 'fashion');
-      await skippedProductsService.addSkippedProduct('prod-3', 'electronics');
+      await dispatch(skipProduct({ productId: 'prod-1', category: 'electronics' })).unwrap();
+      await dispatch(skipProduct({ productId: 'prod-2', category: 'fashion' })).unwrap();
+      await dispatch(skipProduct({ productId: 'prod-3', category: 'electronics' })).unwrap();
     } catch (error) {
       console.error('Error adding test skipped products:', error);
     }
-  }, [skippedProductsService]);
+  }, [dispatch]);
 
   const loadProducts = useCallback(async () => {
     try {
-      setLoading(true);
-      const response = await productFeedProvider.getPersonalizedFeed({ page: 1, limit: 10 });
-      setProducts(response.products);
+      await dispatch(fetchFeed(MOCK_USER_ID)).unwrap();
+      swipeUndoService.clear();
+      setUndoDepth(0);
     } catch (error) {
       console.error('Error loading products:', error);
       Alert.alert('Error', 'Failed to load products. Please try again.');
-    } finally {
-      setLoading(false);
     }
-  }, [productFeedProvider]);
+  }, [dispatch, swipeUndoService]);
+
+  // A feed restored from storage resumes at the saved card instead of reloading
+  useEffect(() => {
+    if (feedStatus === 'idle') {
+      loadProducts();
+    }
+  }, [feedStatus, loadProducts]);
+
+  // A feed that failed to load while offline is retried once the backend is reachable
+  const wasOffline = useRef(isOffline);
+  useEffect(() => {
+    if (wasOffline.current && !isOffline && feedStatus === 'failed') {
+      loadProducts();
+    }
+    wasOffline.current = isOffline;
+  }, [isOffline, feedStatus, loadProducts]);
+
+  useEffect(() => {
+    dispatch(fetchWishlistCollections());
+  }, [dispatch]);
 
   useEffect(() => {
-    loadProducts();
     addTestSkippedProducts();
 
     const unsubscribe = navigation.addListener('focus', () => {
@@ -134,21 +259,20 @@ export const FeedScreen: React.FC = memo(() => {
       unsubscribe();
       cleanup.cleanup();
     };
-  }, [navigation, cleanup, imageCacheManager, loadProducts, addTestSkippedProducts]);
+  }, [navigation, cleanup, imageCacheManager, addTestSkippedProducts]);
 
   const handleRefresh = useCallback(async () => {
     try {
-      setRefreshing(true);
-      const response = await productFeedProvider.refreshFeed();
-      setProducts(response.products);
-      setCurrentCardIndex(0);
+      await dispatch(refreshFeed(MOCK_USER_ID)).unwrap();
+      // Card indexes in the undo stack refer to the old feed
+      swipeUndoService.clear();
+      setUndoDepth(0);
+      setRestoredCard(null);
     } catch (error) {
       console.error('Error refreshing feed:', error);
       Alert.alert('Error', 'Failed to refresh feed. Please try again.');
-    } finally {
-      setRefreshing(false);
     }
-  }, [productFeedProvider]);
+  }, [dispatch, swipeUndoService]);
 
   const showToastNotification = useCallback((message: string) => {
     setToastMessage(message);
@@ -161,52 +285,136 @@ export const FeedScreen: React.FC = memo(() => {
   }, [timers]);
 
   const handleSwipeLeft = useCallback(async (productId: string) => {    
-    setCurrentCardIndex(prev => prev + 1);
+    const cardIndex = memoizedProducts.findIndex(p => p.id === productId);
+    dispatch(advanceCard());
+    setRestoredCard(null);
     
-    // Defer async operations to background (non-blocking)
-    setTimeout(async () => {
-      try {
-        const product = memoizedProducts.find(p => p.id === productId);
-        const category = product?.category.id || 'general';
-        
-        await Promise.all([
-          skippedProductsService.addSkippedProduct(productId, category),
-          productFeedProvider.recordSwipeAction(productId, 'skip', MOCK_USER_ID)
-        ]);
-      } catch (error) {
-        console.error('Error recording skip action:', error);
-      }
-    }, 0);
-  }, [memoizedProducts, skippedProductsService, productFeedProvider]);
+    const product = memoizedProducts[cardIndex];
+    if (!product) return;
+
+    // Side effects run in the background; the undo stack tracks what they applied
+    swipeUndoService.recordSwipe(product, 'skip', MOCK_USER_ID, cardIndex).catch(error => {
+      console.error('Error recording skip action:', error);
+    });
+    setUndoDepth(swipeUndoService.getDepth());
+  }, [memoizedProducts, swipeUndoService, dispatch]);
+
+  const recordLike = useCallback((product: ProductCard, cardIndex: number, collectionId?: string) => {
+    // Side effects run in the background; the undo stack tracks what they applied
+    swipeUndoService.recordSwipe(product, 'like', MOCK_USER_ID, cardIndex, { collectionId }).catch(error => {
+      console.error('Error adding to wishlist:', error);
+      showToastNotification('Failed to add product to wishlist. Please try again.');
+    });
+    setUndoDepth(swipeUndoService.getDepth());
+  }, [swipeUndoService, showToastNotification]);
 
   const handleSwipeRight = useCallback(async (productId: string) => {
-    setCurrentCardIndex(prev => prev + 1);
+    const cardIndex = memoizedProducts.findIndex(p => p.id === productId);
+    dispatch(advanceCard());
+    setRestoredCard(null);
     
-    // Defer async operations to background (non-blocking)
-    setTimeout(async () => {
-      try {
-        await wishlistProvider.addToWishlist(productId);
-        await productFeedProvider.recordSwipeAction(productId, 'like', MOCK_USER_ID);
-      } catch (error) {
-        console.error('Error adding to wishlist:', error);
-        showToastNotification('Failed to add product to wishlist. Please try again.');
+    const product = memoizedProducts[cardIndex];
+    if (!product) return;
+
+    // With a single collection there is nothing to choose between
+    if (rightSwipeTarget === 'prompt' && wishlistCollections.length > 1) {
+      setPendingLike({ product, cardIndex });
+      return;
+    }
+    recordLike(product, cardIndex);
+  }, [memoizedProducts, rightSwipeTarget, wishlistCollections.length, recordLike, dispatch]);
+
+  const handlePickCollection = useCallback((collectionId: string) => {
+    if (!pendingLike) return;
+    recordLike(pendingLike.product, pendingLike.cardIndex, collectionId);
+    setPendingLike(null);
+
+    const collection = wishlistCollections.find(c => c.id === collectionId);
+    if (collection) {
+      showToastNotification(`Saved to ${collection.name}`);
+    }
+  }, [pendingLike, recordLike, wishlistCollections, showToastNotification]);
+
+  // Dismissing the picker still keeps the like, in the default collection
+  const handleClosePicker = useCallback(() => {
+    if (!pendingLike) return;
+    recordLike(pendingLike.product, pendingLike.cardIndex);
+    setPendingLike(null);
+  }, [pendingLike, recordLike]);
+
+  const handleSwipeUp = useCallback(async (productId: string) => {
+    const cardIndex = memoizedProducts.findIndex(p => p.id === productId);
+    dispatch(advanceCard());
+    setRestoredCard(null);
+
+    const product = memoizedProducts[cardIndex];
+    if (!product) return;
+
+    swipeUndoService
+      .recordSwipe(product, 'cart', MOCK_USER_ID, cardIndex)
+      .then(() => showToastNotification('Added to cart!'))
+      .catch(error => {
+        console.error('Error adding to cart:', error);
+        showToastNotification('Failed to add to cart');
+      });
+    setUndoDepth(swipeUndoService.getDepth());
+  }, [memoizedProducts, swipeUndoService, showToastNotification, dispatch]);
+
+  const handleSwipeDown = useCallback(async (productId: string) => {
+    const cardIndex = memoizedProducts.findIndex(p => p.id === productId);
+    dispatch(advanceCard());
+    setRestoredCard(null);
+
+    const product = memoizedProducts[cardIndex];
+    if (!product) return;
+
+    // Super-like saves the product and opens its details straight away
+    swipeUndoService.recordSwipe(product, 'superlike', MOCK_USER_ID, cardIndex).catch(error => {
+      console.error('Error recording super-like:', error);
+      showToastNotification('Failed to add product to wishlist. Please try again.');
+    });
+    setUndoDepth(swipeUndoService.getDepth());
+    navigation.navigate('ProductDetails', { productId, product });
+  }, [memoizedProducts, swipeUndoService, showToastNotification, navigation, dispatch]);
+
+  const handleUndo = useCallback(async () => {
+    if (!swipeUndoService.canUndo()) return;
+
+    try {
+      const result = await swipeUndoService.undo();
+      setUndoDepth(swipeUndoService.getDepth());
+      if (!result) return;
+
+      const { entry, errors } = result;
+      setRestoredCard({
+        productId: entry.product.id,
+        direction: getSwipeDirectionForAction(entry.action),
+      });
+      dispatch(setCurrentIndex(entry.cardIndex));
+
+      if (errors.length > 0) {
+        showToastNotification('Swipe undone, but some changes could not be reverted');
       }
-    }, 0);
-  }, [showToastNotification, productFeedProvider, wishlistProvider]);
+    } catch (error) {
+      console.error('Error undoing swipe:', error);
+      showToastNotification('Failed to undo swipe');
+    }
+  }, [swipeUndoService, showToastNotification, dispatch]);
 
   const handleAddToCart = useCallback(async (productId: string) => {
     try {
-      await cartProvider.addToCart(productId, 1);
-      const cartCount = await cartProvider.getCartCount();
+      const product = products.find(p => p.id === productId);
+      const selectedVariants = product ? getDefaultVariantSelection(product) : undefined;
+      const cartItems = await dispatch(addToCart({ productId, selectedVariants })).unwrap();
       
-      showToastNotification(`Added to cart! (${cartCount} items)`);
-      setCurrentCardIndex(prev => prev + 1);
+      showToastNotification(`Added to cart! (${countCartItems(cartItems)} items)`);
+      dispatch(advanceCard());
     } catch (error) {
       console.error('Error adding to cart:', error);
       showToastNotification('Failed to add to cart');
-      setCurrentCardIndex(prev => prev + 1);
+      dispatch(advanceCard());
     }
-  }, [showToastNotification, cartProvider]);
+  }, [products, showToastNotification, dispatch]);
 
   const handleViewDetails = useCallback((productId: string) => {
     const product = memoizedProducts.find(p => p.id === productId);
@@ -215,26 +423,19 @@ export const FeedScreen: React.FC = memo(() => {
         productId, 
         product,
         onActionComplete: () => {
-          setCurrentCardIndex(prev => prev + 1);
+          dispatch(advanceCard());
         }
       });
     }
-  }, [memoizedProducts, navigation]);
+  }, [memoizedProducts, navigation, dispatch]);
 
   const loadSkippedCategories = useCallback(async () => {
     try {
-      const categories = await skippedProductsService.getAvailableCategories();
-      const categoriesWithCounts = await Promise.all(
-        categories.map(async (category) => {
-          const count = await skippedProductsService.getSkippedProductsCountByCategory(category);
-          return { category, count };
-        })
-      );
-      setSkippedCategories(categoriesWithCounts.filter(item => item.count > 0));
+      await dispatch(fetchSkipped()).unwrap();
     } catch (error) {
       console.error('Error loading skipped categories:', error);
     }
-  }, [skippedProductsService]);
+  }, [dispatch]);
 
   const handleShowSkippedProducts = useCallback(async () => {
     try {
@@ -253,6 +454,10 @@ export const FeedScreen: React.FC = memo(() => {
     navigation.navigate('SkippedProducts', { category });
   }, [navigation]);
 
+  const handleShowSearch = useCallback(() => {
+    navigation.navigate('Search');
+  }, [navigation]);
+
   // Memoize derived values to prevent unnecessary calculations
   const hasMoreCards = useMemo(() => currentCardIndex < memoizedProducts.length, [currentCardIndex, memoizedProducts.length]);
   const remainingProducts = useMemo(() => memoizedProducts.length - currentCardIndex, [memoizedProducts.length, currentCardIndex]);
@@ -296,6 +501,10 @@ export const FeedScreen: React.FC = memo(() => {
         remainingProducts={remainingProducts}
         hasMoreCards={hasMoreCards}
         onShowSkippedProducts={handleShowSkippedProducts}
+        onShowSearch={handleShowSearch}
+        onUndo={handleUndo}
+        canUndo={undoDepth > 0}
+        isOffline={isOffline}
       />
 
       {/* Cards Container - separated component */}
@@ -306,8 +515,12 @@ export const FeedScreen: React.FC = memo(() => {
           userId={MOCK_USER_ID}
           onSwipeLeft={handleSwipeLeft}
           onSwipeRight={handleSwipeRight}
+          onSwipeUp={handleSwipeUp}
+          onSwipeDown={handleSwipeDown}
           onAddToCart={handleAddToCart}
           onViewDetails={handleViewDetails}
+          restoredCard={restoredCard}
+          keyboardControls={isFocused}
         />
       ) : (
         <View style={FeedScreenStyles.allDoneContainer}>
@@ -349,6 +562,15 @@ export const FeedScreen: React.FC = memo(() => {
         onCategorySelect={handleNavigateToSkippedCategory}
       />
 
+      {/* Collection picker for right swipes when the user chooses each time */}
+      <CollectionPickerModal
+        visible={pendingLike !== null}
+        title="Save to Collection"
+        collections={wishlistCollections}
+        onSelect={handlePickCollection}
+        onClose={handleClosePicker}
+      />
+
       {/* Toast Notification - separated component */}
       <ToastNotification
         visible={showToast}
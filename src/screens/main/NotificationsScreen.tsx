@@ -0,0 +1,100 @@
+/**
+ * Notifications Screen
+ * In-app inbox for price-drop and stock alerts on wishlisted products
+ */
+
+import React, { useEffect } from 'react';
+import { View, Text, FlatList, TouchableOpacity } from 'react-native';
+import { useNavigation } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { MainStackParamList } from '../../types';
+import { useAppDispatch, useAppSelector } from '../../store';
+import {
+  loadWishlistAlerts,
+  markAllWishlistAlertsRead,
+  markWishlistAlertRead,
+  selectUnreadWishlistAlertCount,
+  selectWishlistAlerts,
+} from '../../store/slices/wishlistSlice';
+import {
+  describeWishlistAlert,
+  getWishlistAlertLabel,
+  WishlistAlert,
+} from '../../services/WishlistAlertService';
+import { NotificationsStyles } from '../Styles/NotificationsStyles';
+
+type NotificationsScreenNavigationProp = StackNavigationProp<MainStackParamList>;
+
+const formatTimestamp = (timestamp: number): string =>
+  new Date(timestamp).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+
+export const NotificationsScreen: React.FC = () => {
+  const navigation = useNavigation<NotificationsScreenNavigationProp>();
+  const dispatch = useAppDispatch();
+  const alerts = useAppSelector(selectWishlistAlerts);
+  const unreadCount = useAppSelector(selectUnreadWishlistAlertCount);
+
+  useEffect(() => {
+    dispatch(loadWishlistAlerts());
+  }, [dispatch]);
+
+  const handleOpenAlert = (alert: WishlistAlert) => {
+    if (!alert.read) {
+      dispatch(markWishlistAlertRead(alert.id));
+    }
+    navigation.navigate('ProductDetails', { productId: alert.productId });
+  };
+
+  const renderAlert = ({ item }: { item: WishlistAlert }) => (
+    <TouchableOpacity
+      style={NotificationsStyles.alertCard}
+      onPress={() => handleOpenAlert(item)}
+      accessibilityRole="button"
+      accessibilityLabel={describeWishlistAlert(item)}
+    >
+      <View style={item.read ? NotificationsStyles.readDot : NotificationsStyles.unreadDot} />
+      <View style={NotificationsStyles.alertBody}>
+        <Text style={NotificationsStyles.alertLabel}>{getWishlistAlertLabel(item.type)}</Text>
+        <Text style={[NotificationsStyles.alertText, item.read && NotificationsStyles.alertTextRead]}>
+          {describeWishlistAlert(item)}
+        </Text>
+        <Text style={NotificationsStyles.alertTime}>{formatTimestamp(item.createdAt)}</Text>
+      </View>
+    </TouchableOpacity>
+  );
+
+  if (alerts.length === 0) {
+    return (
+      <View style={[NotificationsStyles.container, NotificationsStyles.emptyContainer]}>
+        <Text style={NotificationsStyles.emptyText}>No notifications yet</Text>
+        <Text style={NotificationsStyles.emptySubtext}>
+          We'll let you know here when something on your wishlist drops in price or comes back in
+          stock.
+        </Text>
+      </View>
+    );
+  }
+
+  return (
+    <View style={NotificationsStyles.container}>
+      {unreadCount > 0 && (
+        <View style={NotificationsStyles.toolbar}>
+          <TouchableOpacity onPress={() => dispatch(markAllWishlistAlertsRead())}>
+            <Text style={NotificationsStyles.markAllText}>Mark all read</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+      <FlatList
+        data={alerts}
+        renderItem={renderAlert}
+        keyExtractor={item => item.id}
+        contentContainerStyle={NotificationsStyles.listContent}
+      />
+    </View>
+  );
+};
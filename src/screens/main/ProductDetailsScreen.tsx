@@ -25,7 +25,21 @@ import { AddToCartButton } from "../../components/product/AddToCartButton";
 import { getSwipeActionService } from "../../services/SwipeActionService";
 import { ImageGallery } from "../../components/product/ImageGallery";
 import { ProductDetailsService } from "../../services/ProductDetailsService";
+import { VariantPicker } from "../../components/product/VariantPicker";
+import { ReviewsSection } from "../../components/product/ReviewsSection";
+import { useAppDispatch, useAppSelector } from "../../store";
+import { selectCurrentUser } from "../../store/slices/authSlice";
+import { addToCart } from "../../store/slices/cartSlice";
+import {
+  getDefaultVariantSelection,
+  getVariantPrice,
+  getVariantStock,
+  hasVariants,
+  isSelectionComplete,
+  VariantSelection,
+} from "../../utils/productVariants";
 import { SafeAreaView } from 'react-native-safe-area-context';
+import { useWishlistShare } from "../../hooks/useWishlistShare";
 
 const { width: screenWidth, height: screenHeight } = Dimensions.get("window");
 
@@ -43,6 +57,8 @@ interface ProductDetailsScreenProps {}
 export const ProductDetailsScreen: React.FC<ProductDetailsScreenProps> = () => {
   const navigation = useNavigation<ProductDetailsScreenNavigationProp>();
   const route = useRoute<ProductDetailsScreenRouteProp>();
+  const dispatch = useAppDispatch();
+  const { share, isSharing } = useWishlistShare();
   const { productId, product: initialProduct, onActionComplete: onActionCompleteParam } = route.params;
   
   // Ensure we have a callback, even if not provided
@@ -58,6 +74,7 @@ export const ProductDetailsScreen: React.FC<ProductDetailsScreenProps> = () => {
   const [isVisible, setIsVisible] = useState(true);
   const [retryCount, setRetryCount] = useState(0);
   const [isRetrying, setIsRetrying] = useState(false);
+  const [selectedVariants, setSelectedVariants] = useState<VariantSelection>({});
 
   // Animation values for modal presentation
   const translateY = useSharedValue(screenHeight);
@@ -66,6 +83,10 @@ export const ProductDetailsScreen: React.FC<ProductDetailsScreenProps> = () => {
   // Mock user ID - in real app this would come from auth context
   const userId = "mock-user-id";
   const swipeActionService = getSwipeActionService(userId);
+  // Orders are still placed under this ID (see OrderConfirmationScreen), and
+  // review eligibility is checked against order history
+  const orderUserId = "user-123";
+  const currentUser = useAppSelector(selectCurrentUser);
 
   useEffect(() => {
     // Animate modal in
@@ -179,14 +200,23 @@ export const ProductDetailsScreen: React.FC<ProductDetailsScreenProps> = () => {
     }, 0);
   }, [product, swipeActionService, handleClose]);
 
+  // Start from the first in-stock variant whenever a new product is shown
+  useEffect(() => {
+    setSelectedVariants(product ? getDefaultVariantSelection(product) ?? {} : {});
+  }, [product]);
+
   const handleAddToCart = useCallback(async () => {
     if (!product) return;
 
     const currentProductId = product.id;
+    const variantsToAdd = hasVariants(product) ? selectedVariants : undefined;
     handleClose('cart');
 
     setTimeout(async () => {
       try {
+        await dispatch(
+          addToCart({ productId: currentProductId, selectedVariants: variantsToAdd })
+        ).unwrap();
         await swipeActionService.onAddToCart(currentProductId);
         // Mark as skipped so feed advances to next product
         await swipeActionService.onSwipeLeft(currentProductId);
@@ -195,7 +225,18 @@ export const ProductDetailsScreen: React.FC<ProductDetailsScreenProps> = () => {
         Alert.alert("Error", "Failed to add product to cart");
       }
     }, 0);
-  }, [product, swipeActionService, handleClose]);
+  }, [product, selectedVariants, dispatch, swipeActionService, handleClose]);
+
+  const canAddToCart =
+    !!product &&
+    isSelectionComplete(product, selectedVariants) &&
+    getVariantStock(product, selectedVariants) > 0;
+
+  const getAddToCartTitle = (): string => {
+    if (canAddToCart) return "Add to Cart";
+    if (product && !isSelectionComplete(product, selectedVariants)) return "Select Options";
+    return "Out of Stock";
+  };
 
   const modalAnimatedStyle = useAnimatedStyle(() => ({
     transform: [{ translateY: translateY.value }],
@@ -223,13 +264,26 @@ export const ProductDetailsScreen: React.FC<ProductDetailsScreenProps> = () => {
               {/* Header */}
               <View style={styles.header}>
                 <View style={styles.dragIndicator} />
-                <TouchableOpacity
-                  style={styles.closeButton}
-                  onPress={() => handleClose()}
-                  hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
-                >
-                  <Text style={styles.closeButtonText}>✕</Text>
-                </TouchableOpacity>
+                <View style={styles.headerActions}>
+                  {product && (
+                    <TouchableOpacity
+                      style={[styles.closeButton, styles.shareButton]}
+                      onPress={() => share([product.id], product.title)}
+                      disabled={isSharing}
+                      hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+                      accessibilityLabel="Share product"
+                    >
+                      <Text style={styles.closeButtonText}>📤</Text>
+                    </TouchableOpacity>
+                  )}
+                  <TouchableOpacity
+                    style={styles.closeButton}
+                    onPress={() => handleClose()}
+                    hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+                  >
+                    <Text style={styles.closeButtonText}>✕</Text>
+                  </TouchableOpacity>
+                </View>
               </View>
 
               {loading ? (
@@ -282,12 +336,18 @@ export const ProductDetailsScreen: React.FC<ProductDetailsScreenProps> = () => {
                     <Text style={styles.productTitle}>{product.title}</Text>
                     <Text style={styles.productPrice}>
                       {product.currency}
-                      {product.price.toFixed(2)}
+                      {getVariantPrice(product, selectedVariants).toFixed(2)}
                     </Text>
                     <Text style={styles.productCategory}>
                       {product.category.name}
                     </Text>
 
+                    <VariantPicker
+                      product={product}
+                      selection={selectedVariants}
+                      onChange={setSelectedVariants}
+                    />
+
                     {!product.availability && (
                       <Text style={styles.outOfStock}>Out of Stock</Text>
                     )}
@@ -317,6 +377,12 @@ export const ProductDetailsScreen: React.FC<ProductDetailsScreenProps> = () => {
                         </View>
                       </>
                     )}
+
+                    <ReviewsSection
+                      productId={product.id}
+                      userId={orderUserId}
+                      authorName={currentUser?.displayName ?? ""}
+                    />
                   </View>
                 </ScrollView>
               ) : null}
@@ -334,12 +400,10 @@ export const ProductDetailsScreen: React.FC<ProductDetailsScreenProps> = () => {
 
                   <AddToCartButton
                     onPress={handleAddToCart}
-                    disabled={!product.availability}
+                    disabled={!canAddToCart}
                     style={[styles.actionButton, styles.cartButton]}
                     textStyle={styles.cartButtonText}
-                    title={
-                      product.availability ? "Add to Cart" : "Out of Stock"
-                    }
+                    title={getAddToCartTitle()}
                   />
 
                   <TouchableOpacity
@@ -397,6 +461,11 @@ const styles = StyleSheet.create({
     left: "50%",
     marginLeft: -20,
   },
+  headerActions: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginLeft: "auto",
+  },
   closeButton: {
     width: 32,
     height: 32,
@@ -404,7 +473,9 @@ const styles = StyleSheet.create({
     backgroundColor: "#F5F5F5",
     justifyContent: "center",
     alignItems: "center",
-    marginLeft: "auto",
+  },
+  shareButton: {
+    marginRight: 12,
   },
   closeButtonText: {
     fontSize: 16,
@@ -0,0 +1,123 @@
+import React from "react";
+import { View, Text, TouchableOpacity, ScrollView, Modal } from "react-native";
+import { ABTestLiveResult, useABTestResults } from "../../../hooks/useABTesting";
+import { ABTestAnalysis } from "../../../utils/abTestStatistics";
+import { ABTestDebugStyles } from "@/screens/Styles/ABTestDebugStyles";
+
+interface ABTestDebugScreenProps {
+  visible: boolean;
+  onClose: () => void;
+}
+
+const formatPercent = (value?: number) =>
+  value === undefined ? "–" : `${(value * 100).toFixed(1)}%`;
+
+const formatPValue = (value?: number) => {
+  if (value === undefined) return "–";
+  return value < 0.001 ? "<0.001" : value.toFixed(3);
+};
+
+const describeDecision = (analysis: ABTestAnalysis) => {
+  switch (analysis.decision) {
+    case "winner":
+      return `Winner: ${analysis.winnerVariantId}`;
+    case "no_winner":
+      return "No significant difference yet";
+    case "sample_ratio_mismatch":
+      return "Results withheld: traffic split does not match the allocation";
+    default:
+      return "Waiting for the minimum sample in every variant";
+  }
+};
+
+/**
+ * Developer panel with live A/B test results
+ */
+export const ABTestDebugScreen: React.FC<ABTestDebugScreenProps> = ({ visible, onClose }) => {
+  const results = useABTestResults();
+
+  const renderResult = ({ test, metric, analysis }: ABTestLiveResult) => (
+    <View key={`${test.id}:${metric}`} style={ABTestDebugStyles.card}>
+      <View style={ABTestDebugStyles.cardHeader}>
+        <Text style={ABTestDebugStyles.testName}>{test.name}</Text>
+        <View
+          style={[
+            ABTestDebugStyles.statusBadge,
+            test.status === "completed" && ABTestDebugStyles.statusBadgeCompleted,
+          ]}
+        >
+          <Text style={ABTestDebugStyles.statusText}>{test.status}</Text>
+        </View>
+      </View>
+      <Text style={ABTestDebugStyles.metricName}>
+        {metric}
+        {test.primaryMetric === metric ? " (primary)" : ""}
+      </Text>
+
+      <View style={[ABTestDebugStyles.row, ABTestDebugStyles.headerRow]}>
+        {["Variant", "Users", "Conv.", "Rate", "Lift", "p"].map((label, index) => (
+          <Text
+            key={label}
+            style={[
+              ABTestDebugStyles.cell,
+              ABTestDebugStyles.headerCell,
+              index === 0 && ABTestDebugStyles.nameCell,
+            ]}
+          >
+            {label}
+          </Text>
+        ))}
+      </View>
+      {analysis.variants.map(variant => {
+        const isWinner = variant.variantId === analysis.winnerVariantId;
+        return (
+          <View key={variant.variantId} style={ABTestDebugStyles.row}>
+            <Text
+              style={[
+                ABTestDebugStyles.cell,
+                ABTestDebugStyles.nameCell,
+                isWinner && ABTestDebugStyles.winnerCell,
+              ]}
+            >
+              {variant.variantId}
+              {variant.isControl ? " (control)" : ""}
+            </Text>
+            <Text style={ABTestDebugStyles.cell}>{variant.exposures}</Text>
+            <Text style={ABTestDebugStyles.cell}>{variant.conversions}</Text>
+            <Text style={ABTestDebugStyles.cell}>{formatPercent(variant.conversionRate)}</Text>
+            <Text style={ABTestDebugStyles.cell}>{formatPercent(variant.lift)}</Text>
+            <Text style={ABTestDebugStyles.cell}>{formatPValue(variant.pValue)}</Text>
+          </View>
+        );
+      })}
+
+      <Text style={ABTestDebugStyles.decision}>{describeDecision(analysis)}</Text>
+      {analysis.sampleRatioMismatch && (
+        <Text style={ABTestDebugStyles.warning}>
+          Sample ratio mismatch (p = {formatPValue(analysis.sampleRatioPValue)})
+        </Text>
+      )}
+    </View>
+  );
+
+  return (
+    <Modal visible={visible} animationType="slide" onRequestClose={onClose}>
+      <View style={ABTestDebugStyles.container}>
+        <View style={ABTestDebugStyles.header}>
+          <TouchableOpacity onPress={onClose} style={ABTestDebugStyles.closeButton}>
+            <Text style={ABTestDebugStyles.closeButtonText}>✕</Text>
+          </TouchableOpacity>
+          <Text style={ABTestDebugStyles.headerTitle}>A/B Test Results</Text>
+        </View>
+
+        <ScrollView contentContainerStyle={ABTestDebugStyles.content}>
+          {results.length === 0 ? (
+            <Text style={ABTestDebugStyles.emptyText}>No conversions tracked yet</Text>
+          ) : (
+            results.map(renderResult)
+          )}
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+};
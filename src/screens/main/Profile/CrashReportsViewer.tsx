@@ -0,0 +1,114 @@
+import React, { useCallback, useEffect, useState } from "react";
+import { View, Text, TouchableOpacity, Alert } from "react-native";
+import { CrashReport, CrashReportingService } from "../../../services/CrashReportingService";
+import { CrashReportsStyles } from "@/screens/Styles/CrashReportsStyles";
+
+const getUploadStatus = (report: CrashReport): string => {
+  if (report.uploadedAt) {
+    return "uploaded";
+  }
+  return report.rejectionReason ? "rejected by the backend" : "pending upload";
+};
+
+/**
+ * Crash reports stored on this device, for QA builds
+ */
+export const CrashReportsViewer: React.FC = () => {
+  const [reports, setReports] = useState<CrashReport[]>([]);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const loadReports = useCallback(async () => {
+    setReports(await CrashReportingService.getInstance().getCrashReports());
+  }, []);
+
+  useEffect(() => {
+    loadReports();
+  }, [loadReports]);
+
+  const uploadNow = async () => {
+    const uploaded = await CrashReportingService.getInstance().uploadPendingReports();
+    await loadReports();
+    Alert.alert("Crash Reports", `Uploaded ${uploaded} report${uploaded === 1 ? "" : "s"}.`);
+  };
+
+  const clearReports = () => {
+    Alert.alert("Clear Crash Reports", "Delete every crash report stored on this device?", [
+      { text: "Cancel", style: "cancel" },
+      {
+        text: "Clear",
+        style: "destructive",
+        onPress: async () => {
+          await CrashReportingService.getInstance().clearCrashReports();
+          setExpandedId(null);
+          await loadReports();
+        },
+      },
+    ]);
+  };
+
+  return (
+    <View style={CrashReportsStyles.container}>
+      {reports.length === 0 ? (
+        <Text style={CrashReportsStyles.emptyText}>No crash reports on this device</Text>
+      ) : (
+        reports.map(report => (
+          <TouchableOpacity
+            key={report.id}
+            style={CrashReportsStyles.report}
+            onPress={() => setExpandedId(expandedId === report.id ? null : report.id)}
+          >
+            <View style={CrashReportsStyles.reportHeader}>
+              <Text style={CrashReportsStyles.errorType}>{report.error.type}</Text>
+              {report.isFatal && (
+                <View style={CrashReportsStyles.fatalBadge}>
+                  <Text style={CrashReportsStyles.fatalBadgeText}>fatal</Text>
+                </View>
+              )}
+            </View>
+            <Text style={CrashReportsStyles.message} numberOfLines={expandedId === report.id ? undefined : 2}>
+              {report.error.message}
+            </Text>
+            <Text style={CrashReportsStyles.meta}>
+              {report.lastOccurredAt.toLocaleString()} · {report.occurrences}× · {getUploadStatus(report)}
+            </Text>
+
+            {expandedId === report.id && (
+              <View>
+                {report.rejectionReason && (
+                  <>
+                    <Text style={CrashReportsStyles.sectionTitle}>Rejected</Text>
+                    <Text style={CrashReportsStyles.breadcrumb}>{report.rejectionReason}</Text>
+                  </>
+                )}
+                <Text style={CrashReportsStyles.sectionTitle}>Stack trace</Text>
+                <Text style={CrashReportsStyles.stackTrace}>{report.stackTrace || "No stack trace"}</Text>
+                <Text style={CrashReportsStyles.sectionTitle}>Breadcrumbs</Text>
+                {report.breadcrumbs.length === 0 ? (
+                  <Text style={CrashReportsStyles.breadcrumb}>None</Text>
+                ) : (
+                  report.breadcrumbs.map((breadcrumb, index) => (
+                    <Text key={index} style={CrashReportsStyles.breadcrumb}>
+                      {breadcrumb.timestamp.toLocaleTimeString()} [{breadcrumb.category}] {breadcrumb.message}
+                    </Text>
+                  ))
+                )}
+              </View>
+            )}
+          </TouchableOpacity>
+        ))
+      )}
+
+      <View style={CrashReportsStyles.actions}>
+        <TouchableOpacity style={CrashReportsStyles.actionButton} onPress={uploadNow}>
+          <Text style={CrashReportsStyles.actionButtonText}>Upload Now</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[CrashReportsStyles.actionButton, CrashReportsStyles.clearButton]}
+          onPress={clearReports}
+        >
+          <Text style={CrashReportsStyles.actionButtonText}>Clear</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+};
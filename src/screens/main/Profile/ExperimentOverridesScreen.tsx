@@ -0,0 +1,117 @@
+import React, { useCallback, useEffect, useState } from "react";
+import { View, Text, TouchableOpacity, ScrollView, Modal, Alert } from "react-native";
+import { ABTest, ABTestingService } from "../../../services/ABTestingService";
+import { ABTestDebugStyles } from "@/screens/Styles/ABTestDebugStyles";
+
+interface ExperimentOverridesScreenProps {
+  visible: boolean;
+  onClose: () => void;
+}
+
+/**
+ * Developer panel for forcing an A/B test variant on this device
+ */
+export const ExperimentOverridesScreen: React.FC<ExperimentOverridesScreenProps> = ({
+  visible,
+  onClose,
+}) => {
+  const [tests, setTests] = useState<ABTest[]>([]);
+  const [overrides, setOverrides] = useState<Record<string, string>>({});
+
+  const loadTests = useCallback(async () => {
+    const abTestingService = ABTestingService.getInstance();
+    await abTestingService.ensureConfigLoaded();
+    setTests(abTestingService.getAllTests());
+    setOverrides({ ...(await abTestingService.getVariantOverrides()) });
+  }, []);
+
+  useEffect(() => {
+    if (visible) {
+      loadTests();
+    }
+  }, [visible, loadTests]);
+
+  const selectVariant = async (testId: string, variantId: string | null) => {
+    try {
+      await ABTestingService.getInstance().setVariantOverride(testId, variantId);
+      await loadTests();
+    } catch (error) {
+      console.error("Failed to save variant override:", error);
+      Alert.alert("Error", "Failed to save the override. Please try again.");
+    }
+  };
+
+  const reloadConfig = async () => {
+    try {
+      await ABTestingService.getInstance().refreshConfig();
+      await loadTests();
+    } catch (error) {
+      console.error("Failed to reload experiment config:", error);
+      Alert.alert("Error", "Failed to reload the experiment config.");
+    }
+  };
+
+  const renderChip = (testId: string, label: string, variantId: string | null) => {
+    const selected = (overrides[testId] ?? null) === variantId;
+    return (
+      <TouchableOpacity
+        key={variantId ?? "auto"}
+        style={[ABTestDebugStyles.chip, selected && ABTestDebugStyles.chipSelected]}
+        onPress={() => selectVariant(testId, variantId)}
+      >
+        <Text style={[ABTestDebugStyles.chipText, selected && ABTestDebugStyles.chipTextSelected]}>
+          {label}
+        </Text>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" onRequestClose={onClose}>
+      <View style={ABTestDebugStyles.container}>
+        <View style={ABTestDebugStyles.header}>
+          <TouchableOpacity onPress={onClose} style={ABTestDebugStyles.closeButton}>
+            <Text style={ABTestDebugStyles.closeButtonText}>✕</Text>
+          </TouchableOpacity>
+          <Text style={ABTestDebugStyles.headerTitle}>Experiment Overrides</Text>
+        </View>
+
+        <ScrollView contentContainerStyle={ABTestDebugStyles.content}>
+          <Text style={ABTestDebugStyles.hint}>
+            A forced variant applies the next time a screen loads it and is left out of the
+            results. Auto uses the normal assignment.
+          </Text>
+
+          {tests.length === 0 ? (
+            <Text style={ABTestDebugStyles.emptyText}>No experiments configured</Text>
+          ) : (
+            tests.map(test => (
+              <View key={test.id} style={ABTestDebugStyles.card}>
+                <View style={ABTestDebugStyles.cardHeader}>
+                  <Text style={ABTestDebugStyles.testName}>{test.name}</Text>
+                  <View
+                    style={[
+                      ABTestDebugStyles.statusBadge,
+                      test.status === "completed" && ABTestDebugStyles.statusBadgeCompleted,
+                    ]}
+                  >
+                    <Text style={ABTestDebugStyles.statusText}>{test.status}</Text>
+                  </View>
+                </View>
+                <Text style={ABTestDebugStyles.metricName}>{test.id}</Text>
+                <View style={ABTestDebugStyles.chipRow}>
+                  {renderChip(test.id, "Auto", null)}
+                  {test.variants.map(variant => renderChip(test.id, variant.name, variant.id))}
+                </View>
+              </View>
+            ))
+          )}
+
+          <TouchableOpacity style={ABTestDebugStyles.reloadButton} onPress={reloadConfig}>
+            <Text style={ABTestDebugStyles.reloadButtonText}>Reload Remote Config</Text>
+          </TouchableOpacity>
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+};
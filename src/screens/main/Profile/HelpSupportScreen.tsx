@@ -12,6 +12,8 @@ import {
 import { FaqScreen } from "./FaqScreen";
 import Accordion from "react-native-collapsible/Accordion";
 import { TermsOfService } from "./TermsOfService";
+import { CrashReportsViewer } from "./CrashReportsViewer";
+import { isProduction } from "../../../config/env";
 import { HelpSupportStyles } from "@/screens/Styles/ProfileStyles";
 
 interface HelpSupportScreenProps {
@@ -30,6 +32,7 @@ export const HelpSupportScreen: React.FC<HelpSupportScreenProps> = ({ visible, o
     const [showFaq, setShowFaq] = useState(false);
     const [showContactUs, setShowContactUs] = useState(false);
     const [showTerms, setShowTerms] = useState(false);
+    const [showCrashReports, setShowCrashReports] = useState(false);
     const [activeSections, setActiveSections] = useState<number[]>([]);
     const [email, setEmail] = useState("");
     
@@ -46,6 +49,10 @@ export const HelpSupportScreen: React.FC<HelpSupportScreenProps> = ({ visible, o
       setShowTerms((prev) => (!prev));
     };
 
+    const toggleCrashReports = () => {
+      setShowCrashReports((prev) => (!prev));
+    };
+
     const contactUs = () => {
       return(
         <View style={HelpSupportStyles.accountItem}>
@@ -127,7 +134,21 @@ export const HelpSupportScreen: React.FC<HelpSupportScreenProps> = ({ visible, o
                 </TouchableOpacity> 
                 {showTerms && (
                   <TermsOfService/>
-                )}                  
+                )}
+
+                {/* QA builds only */}
+                {!isProduction && (
+                  <TouchableOpacity 
+                    style={[HelpSupportStyles.accountItem, showCrashReports && HelpSupportStyles.activeAccountItem]}
+                    onPress={toggleCrashReports}
+                  >
+                    <Text style={[HelpSupportStyles.accountLabel, showCrashReports && HelpSupportStyles.activeChevron,]}>Crash Reports</Text>
+                    <Text style={[HelpSupportStyles.chevron, showCrashReports && HelpSupportStyles.activeChevron,]}>›</Text>
+                  </TouchableOpacity>
+                )}
+                {!isProduction && showCrashReports && (
+                  <CrashReportsViewer/>
+                )}
               </View>
             </ScrollView>
           </View>            
@@ -1,4 +1,4 @@
-import React, { useState } from "react";
+import React, { useEffect, useState } from "react";
 import {
   View,
   Text,
@@ -10,6 +10,7 @@ import {
   Modal
 } from "react-native";
 import { PasswordChange } from "../../../types";
+import { AnalyticsService } from "../../../services/AnalyticsService";
 import { PrivacySecurityStyles } from "@/screens/Styles/ProfileStyles";
 
 interface PrivacySecurityScreenProps {
@@ -21,6 +22,8 @@ export const PrivacySecurityScreen: React.FC<PrivacySecurityScreenProps> = ({ vi
     const [showPasswordChange, setShowPasswordChange] = useState(false);
     const [locationEnabled, setLocationEnabled] = useState(true);
     const [notifications, setNotifications] = useState(true);
+    const [analyticsConsent, setAnalyticsConsent] = useState(false);
+    const analyticsEnabled = AnalyticsService.getInstance().isAnalyticsEnabled();
     const [credentials, setCredentials] = useState<PasswordChange>({
             oldPassword: "",
             newPassword: "",
@@ -52,6 +55,22 @@ export const PrivacySecurityScreen: React.FC<PrivacySecurityScreenProps> = ({ vi
         setNotifications((prev) => !prev);
     };
 
+    useEffect(() => {
+        if (visible && analyticsEnabled) {
+            AnalyticsService.getInstance().hasAnalyticsConsent().then(setAnalyticsConsent);
+        }
+    }, [visible, analyticsEnabled]);
+
+    const toggleAnalyticsConsent = (granted: boolean) => {
+        setAnalyticsConsent(granted);
+        AnalyticsService.getInstance()
+            .setAnalyticsConsent(granted)
+            .catch((error) => {
+                console.error("Failed to save analytics consent:", error);
+                setAnalyticsConsent(!granted);
+            });
+    };
+
     return(
         <Modal
             visible={visible}
@@ -121,6 +140,17 @@ export const PrivacySecurityScreen: React.FC<PrivacySecurityScreenProps> = ({ vi
                         onValueChange={toggleNotifications}
                         />
                     </View>
+
+                    {/* Analytics consent, only asked when this build sends analytics */}
+                    {analyticsEnabled && (
+                        <View style={PrivacySecurityStyles.switchRow}>
+                            <Text style={PrivacySecurityStyles.switchLabel}>Share Usage Analytics</Text>
+                            <Switch
+                            value={analyticsConsent}
+                            onValueChange={toggleAnalyticsConsent}
+                            />
+                        </View>
+                    )}
                 </View>                
                 </ScrollView>
             </View>
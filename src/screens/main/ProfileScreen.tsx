@@ -12,11 +12,15 @@ import { useNavigation, useFocusEffect } from "@react-navigation/native";
 import { StackNavigationProp } from "@react-navigation/stack";
 import { User, CategoryPreferences, MainStackParamList } from "../../types";
 import { getAuthService } from "../../services";
+import { useAppDispatch } from "../../store";
+import { signOut } from "../../store/slices/authSlice";
 import { CategoryPreferenceService } from "../../services/CategoryPreferenceService";
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { PrivacySecurityScreen } from "./Profile/PrivacySecurityScreen";
 import { AccountSettingsScreen } from "./Profile/AccountSettingsScreen";
 import { HelpSupportScreen } from "./Profile/HelpSupportScreen";
+import { ABTestDebugScreen } from "./Profile/ABTestDebugScreen";
+import { ExperimentOverridesScreen } from "./Profile/ExperimentOverridesScreen";
 import { ProfileStyles } from "../Styles/ProfileStyles";
 
 
@@ -28,6 +32,7 @@ interface ProfileScreenProps {
 
 export const ProfileScreen: React.FC<ProfileScreenProps> = () => {
   const navigation = useNavigation<ProfileScreenNavigationProp>();
+  const dispatch = useAppDispatch();
   const [user, setUser] = useState<User | null>(null);
   const [preferences, setPreferences] = useState<CategoryPreferences | null>(
     null
@@ -36,6 +41,8 @@ export const ProfileScreen: React.FC<ProfileScreenProps> = () => {
   const [showPrivacyModal, setShowPrivacyModal] = useState(false);
   const [showAccountModal, setShowAccountModal] = useState(false);
   const [showHelpModal, setShowHelpModal] = useState(false);
+  const [showABTestModal, setShowABTestModal] = useState(false);
+  const [showOverridesModal, setShowOverridesModal] = useState(false);
 
   useEffect(() => {
     loadUserData();
@@ -103,8 +110,7 @@ export const ProfileScreen: React.FC<ProfileScreenProps> = () => {
 
   const performLogout = async () => {
     try {
-      const authService = getAuthService();
-      await authService.signOut();
+      await dispatch(signOut()).unwrap();
       // Navigation will be handled automatically by the auth state change in App.tsx
     } catch (error) {
       console.error("Error signing out:", error);
@@ -248,6 +254,14 @@ export const ProfileScreen: React.FC<ProfileScreenProps> = () => {
             <Text style={ProfileStyles.chevron}>›</Text>
           </TouchableOpacity>
 
+          <TouchableOpacity
+            style={ProfileStyles.accountItem}
+            onPress={() => navigation.navigate("SyncConflicts")}
+          >
+            <Text style={ProfileStyles.accountLabel}>Sync Conflicts</Text>
+            <Text style={ProfileStyles.chevron}>›</Text>
+          </TouchableOpacity>
+
           <TouchableOpacity 
           style={ProfileStyles.accountItem}
           onPress={() => setShowHelpModal(true)}
@@ -257,6 +271,29 @@ export const ProfileScreen: React.FC<ProfileScreenProps> = () => {
           </TouchableOpacity>
         </View>
 
+        {/* Developer Section */}
+        {__DEV__ && (
+          <View style={ProfileStyles.section}>
+            <Text style={ProfileStyles.sectionTitle}>Developer</Text>
+
+            <TouchableOpacity
+              style={ProfileStyles.accountItem}
+              onPress={() => setShowABTestModal(true)}
+            >
+              <Text style={ProfileStyles.accountLabel}>A/B Test Results</Text>
+              <Text style={ProfileStyles.chevron}>›</Text>
+            </TouchableOpacity>
+
+            <TouchableOpacity
+              style={ProfileStyles.accountItem}
+              onPress={() => setShowOverridesModal(true)}
+            >
+              <Text style={ProfileStyles.accountLabel}>Experiment Overrides</Text>
+              <Text style={ProfileStyles.chevron}>›</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+
         {/* Logout Section */}
         <View style={ProfileStyles.section}>
           <TouchableOpacity style={ProfileStyles.logoutButton} onPress={handleLogout}>
@@ -287,6 +324,22 @@ export const ProfileScreen: React.FC<ProfileScreenProps> = () => {
         visible={showHelpModal}
         onClose={() => setShowHelpModal(false)}
       />
+
+      {/* A/B Test Debug Panel */}
+      {__DEV__ && (
+        <ABTestDebugScreen
+          visible={showABTestModal}
+          onClose={() => setShowABTestModal(false)}
+        />
+      )}
+
+      {/* Experiment Overrides Panel */}
+      {__DEV__ && (
+        <ExperimentOverridesScreen
+          visible={showOverridesModal}
+          onClose={() => setShowOverridesModal(false)}
+        />
+      )}
       </SafeAreaView>
     </View>
   );
@@ -0,0 +1,436 @@
+/**
+ * Search Screen
+ * Debounced product search with recent queries, suggestions and facet filter chips
+ */
+
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  Image,
+  ScrollView,
+  ActivityIndicator,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { OptimizedFlatList } from '../../components/common/OptimizedFlatList';
+import { getProductFeedProvider } from '../../data/providers';
+import { FeedFilters } from '../../data/providers/ProductFeedProvider';
+import { SearchHistoryService } from '../../services/SearchHistoryService';
+import {
+  FacetCount,
+  MainStackParamList,
+  PriceBucketFacet,
+  ProductCard,
+  SearchFacets,
+} from '../../types';
+import { SearchStyles } from '../Styles/SearchStyles';
+
+type SearchScreenRouteProp = RouteProp<MainStackParamList, 'Search'>;
+type SearchScreenNavigationProp = StackNavigationProp<MainStackParamList, 'Search'>;
+
+const SEARCH_DEBOUNCE_MS = 300;
+const RESULTS_PAGE_SIZE = 20;
+
+export const SearchScreen: React.FC = () => {
+  const route = useRoute<SearchScreenRouteProp>();
+  const navigation = useNavigation<SearchScreenNavigationProp>();
+  const initialQuery = route.params?.q ?? '';
+
+  const [query, setQuery] = useState(initialQuery);
+  const [debouncedQuery, setDebouncedQuery] = useState(initialQuery);
+  const [results, setResults] = useState<ProductCard[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(1);
+  const [hasMore, setHasMore] = useState(false);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [facets, setFacets] = useState<SearchFacets | null>(null);
+  const [suggestions, setSuggestions] = useState<string[]>([]);
+  const [recentSearches, setRecentSearches] = useState<string[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+
+  const [selectedCategories, setSelectedCategories] = useState<string[]>([]);
+  const [selectedBrands, setSelectedBrands] = useState<string[]>([]);
+  const [selectedPriceBucket, setSelectedPriceBucket] = useState<PriceBucketFacet | null>(null);
+
+  const productFeedProvider = useMemo(() => getProductFeedProvider(), []);
+  const searchedQueryRef = useRef(initialQuery.trim());
+  // Bumped by each new search so a page that arrives late is dropped
+  const searchIdRef = useRef(0);
+
+  // Filters picked from one query's facets may not exist for the next query,
+  // so a new query starts unfiltered
+  const commitQuery = useCallback((value: string) => {
+    if (value.trim() !== searchedQueryRef.current) {
+      searchedQueryRef.current = value.trim();
+      setSelectedCategories([]);
+      setSelectedBrands([]);
+      setSelectedPriceBucket(null);
+    }
+    setDebouncedQuery(value);
+  }, []);
+
+  // Deep links can change the query while the screen is mounted
+  useEffect(() => {
+    if (route.params?.q !== undefined) {
+      setQuery(route.params.q);
+      commitQuery(route.params.q);
+    }
+  }, [route.params?.q, commitQuery]);
+
+  useEffect(() => {
+    SearchHistoryService.getRecentSearches().then(setRecentSearches);
+  }, []);
+
+  // Debounce keystrokes before hitting the search index
+  useEffect(() => {
+    const timer = setTimeout(() => commitQuery(query), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [query, commitQuery]);
+
+  const filters = useMemo<FeedFilters>(() => ({
+    categories: selectedCategories.length > 0 ? selectedCategories : undefined,
+    brands: selectedBrands.length > 0 ? selectedBrands : undefined,
+    priceRange: selectedPriceBucket
+      ? {
+          min: selectedPriceBucket.min,
+          max: selectedPriceBucket.max ?? Number.MAX_SAFE_INTEGER,
+        }
+      : undefined,
+  }), [selectedCategories, selectedBrands, selectedPriceBucket]);
+
+  useEffect(() => {
+    const trimmed = debouncedQuery.trim();
+    const searchId = ++searchIdRef.current;
+    setPage(1);
+    setHasMore(false);
+    setIsLoadingMore(false);
+    if (!trimmed) {
+      setResults([]);
+      setTotal(0);
+      setFacets(null);
+      setSuggestions([]);
+      return;
+    }
+
+    let cancelled = false;
+
+    const runSearch = async () => {
+      try {
+        setIsSearching(true);
+        const [response, nextSuggestions] = await Promise.all([
+          productFeedProvider.searchProducts(trimmed, { page: 1, limit: RESULTS_PAGE_SIZE }, filters),
+          productFeedProvider.getSearchSuggestions(trimmed),
+        ]);
+
+        if (!cancelled && searchId === searchIdRef.current) {
+          setResults(response.products);
+          setTotal(response.pagination.total);
+          setHasMore(response.pagination.hasMore);
+          setFacets(response.facets ?? null);
+          setSuggestions(nextSuggestions);
+        }
+      } catch (error) {
+        console.error('Error searching products:', error);
+        if (!cancelled) {
+          setResults([]);
+          setTotal(0);
+        }
+      } finally {
+        if (!cancelled) {
+          setIsSearching(false);
+        }
+      }
+    };
+
+    runSearch();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [debouncedQuery, filters, productFeedProvider]);
+
+  const handleLoadMore = useCallback(async () => {
+    const trimmed = debouncedQuery.trim();
+    if (!trimmed || !hasMore || isLoadingMore || isSearching) {
+      return;
+    }
+
+    const searchId = searchIdRef.current;
+    const nextPage = page + 1;
+    try {
+      setIsLoadingMore(true);
+      const response = await productFeedProvider.searchProducts(
+        trimmed,
+        { page: nextPage, limit: RESULTS_PAGE_SIZE },
+        filters
+      );
+      if (searchId === searchIdRef.current) {
+        setResults(prev => [
+          ...prev,
+          ...response.products.filter(product => !prev.some(item => item.id === product.id)),
+        ]);
+        setTotal(response.pagination.total);
+        setHasMore(response.pagination.hasMore);
+        setPage(nextPage);
+      }
+    } catch (error) {
+      console.error('Error loading more search results:', error);
+    } finally {
+      if (searchId === searchIdRef.current) {
+        setIsLoadingMore(false);
+      }
+    }
+  }, [debouncedQuery, filters, hasMore, isLoadingMore, isSearching, page, productFeedProvider]);
+
+  const rememberQuery = useCallback(async (value: string) => {
+    try {
+      const updated = await SearchHistoryService.addRecentSearch(value);
+      setRecentSearches(updated);
+    } catch (error) {
+      console.warn('Failed to save recent search:', error);
+    }
+  }, []);
+
+  const applyQuery = useCallback((value: string) => {
+    setQuery(value);
+    commitQuery(value);
+    rememberQuery(value);
+  }, [commitQuery, rememberQuery]);
+
+  const handleSubmit = useCallback(() => {
+    applyQuery(query);
+  }, [applyQuery, query]);
+
+  const handleClear = useCallback(() => {
+    setQuery('');
+    commitQuery('');
+  }, [commitQuery]);
+
+  const handleRemoveRecent = useCallback(async (value: string) => {
+    try {
+      setRecentSearches(await SearchHistoryService.removeRecentSearch(value));
+    } catch (error) {
+      console.warn('Failed to remove recent search:', error);
+    }
+  }, []);
+
+  const handleClearRecent = useCallback(async () => {
+    try {
+      await SearchHistoryService.clearRecentSearches();
+      setRecentSearches([]);
+    } catch (error) {
+      console.warn('Failed to clear recent searches:', error);
+    }
+  }, []);
+
+  const handleResultPress = useCallback((product: ProductCard) => {
+    rememberQuery(query);
+    navigation.navigate('ProductDetails', { productId: product.id, product });
+  }, [navigation, query, rememberQuery]);
+
+  const toggleValue = (values: string[], value: string): string[] =>
+    values.includes(value) ? values.filter(item => item !== value) : [...values, value];
+
+  const renderChip = (
+    key: string,
+    label: string,
+    active: boolean,
+    onPress: () => void
+  ) => (
+    <TouchableOpacity
+      key={key}
+      style={[SearchStyles.chip, active && SearchStyles.chipActive]}
+      onPress={onPress}
+      accessibilityRole="button"
+      accessibilityState={{ selected: active }}
+    >
+      <Text style={[SearchStyles.chipText, active && SearchStyles.chipTextActive]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  const renderFacetRow = (items: FacetCount[], selected: string[], onToggle: (value: string) => void) => (
+    <ScrollView
+      horizontal
+      showsHorizontalScrollIndicator={false}
+      contentContainerStyle={SearchStyles.facetRow}
+    >
+      {items.map(item =>
+        renderChip(
+          item.value,
+          `${item.label} (${item.count})`,
+          selected.includes(item.value),
+          () => onToggle(item.value)
+        )
+      )}
+    </ScrollView>
+  );
+
+  const renderFacets = () => {
+    if (!facets) {
+      return null;
+    }
+
+    return (
+      <View style={SearchStyles.facetContainer}>
+        {facets.categories.length > 0 &&
+          renderFacetRow(facets.categories, selectedCategories, value =>
+            setSelectedCategories(prev => toggleValue(prev, value))
+          )}
+        {facets.brands.length > 0 &&
+          renderFacetRow(facets.brands, selectedBrands, value =>
+            setSelectedBrands(prev => toggleValue(prev, value))
+          )}
+        {facets.priceBuckets.length > 0 && (
+          <ScrollView
+            horizontal
+            showsHorizontalScrollIndicator={false}
+            contentContainerStyle={SearchStyles.facetRow}
+          >
+            {facets.priceBuckets.map(bucket =>
+              renderChip(
+                bucket.value,
+                `${bucket.label} (${bucket.count})`,
+                selectedPriceBucket?.value === bucket.value,
+                () => setSelectedPriceBucket(prev => (prev?.value === bucket.value ? null : bucket))
+              )
+            )}
+          </ScrollView>
+        )}
+      </View>
+    );
+  };
+
+  const renderResultItem = useCallback(({ item }: { item: ProductCard }) => (
+    <TouchableOpacity
+      style={SearchStyles.resultItem}
+      onPress={() => handleResultPress(item)}
+      accessibilityRole="button"
+      accessibilityLabel={`${item.title}, $${item.price.toFixed(2)}`}
+    >
+      <Image source={{ uri: item.imageUrls[0] }} style={SearchStyles.resultImage} />
+      <View style={SearchStyles.resultInfo}>
+        <Text style={SearchStyles.resultTitle} numberOfLines={2}>{item.title}</Text>
+        <Text style={SearchStyles.resultCategory}>{item.category.name}</Text>
+        <Text style={SearchStyles.resultPrice}>${item.price.toFixed(2)}</Text>
+      </View>
+    </TouchableOpacity>
+  ), [handleResultPress]);
+
+  const renderQueryList = (
+    title: string,
+    items: string[],
+    icon: string,
+    onRemove?: (value: string) => void,
+    onClearAll?: () => void
+  ) => (
+    <View>
+      <View style={SearchStyles.sectionHeader}>
+        <Text style={SearchStyles.sectionTitle}>{title}</Text>
+        {onClearAll && (
+          <TouchableOpacity onPress={onClearAll}>
+            <Text style={SearchStyles.sectionAction}>Clear</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+      {items.map(item => (
+        <TouchableOpacity key={item} style={SearchStyles.queryRow} onPress={() => applyQuery(item)}>
+          <Text style={SearchStyles.queryIcon}>{icon}</Text>
+          <Text style={SearchStyles.queryText}>{item}</Text>
+          {onRemove && (
+            <TouchableOpacity
+              onPress={() => onRemove(item)}
+              accessibilityLabel={`Remove ${item} from recent searches`}
+            >
+              <Text style={SearchStyles.queryRemove}>✕</Text>
+            </TouchableOpacity>
+          )}
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+
+  const hasQuery = debouncedQuery.trim().length > 0;
+
+  return (
+    <SafeAreaView style={SearchStyles.container} edges={['bottom']}>
+      <View style={SearchStyles.searchBarContainer}>
+        <TextInput
+          style={SearchStyles.searchInput}
+          value={query}
+          onChangeText={setQuery}
+          onSubmitEditing={handleSubmit}
+          placeholder="Search products"
+          placeholderTextColor="#6C757D"
+          returnKeyType="search"
+          autoCorrect={false}
+          autoFocus={!initialQuery}
+          accessibilityLabel="Search products"
+        />
+        {query.length > 0 && (
+          <TouchableOpacity style={SearchStyles.clearButton} onPress={handleClear}>
+            <Text style={SearchStyles.clearButtonText}>Clear</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+
+      {!hasQuery ? (
+        recentSearches.length > 0 ? (
+          renderQueryList('Recent searches', recentSearches, '🕘', handleRemoveRecent, handleClearRecent)
+        ) : (
+          <View style={SearchStyles.emptyContainer}>
+            <Text style={SearchStyles.emptyTitle}>Find something new</Text>
+            <Text style={SearchStyles.emptyDescription}>
+              Search by name, category or features like "wireless" or "organic".
+            </Text>
+          </View>
+        )
+      ) : (
+        <>
+          {suggestions.length > 0 && query === debouncedQuery &&
+            renderQueryList('Suggestions', suggestions, '🔍')}
+          {renderFacets()}
+          {isSearching ? (
+            <View style={SearchStyles.loadingContainer}>
+              <ActivityIndicator size="large" color="#08f88c" />
+            </View>
+          ) : (
+            <OptimizedFlatList
+              testID="search-results"
+              data={results}
+              renderItem={renderResultItem}
+              keyExtractor={item => item.id}
+              estimatedItemSize={96}
+              contentContainerStyle={SearchStyles.listContent}
+              keyboardShouldPersistTaps="handled"
+              onEndReached={handleLoadMore}
+              ListHeaderComponent={
+                <Text style={SearchStyles.resultsSummary}>
+                  {results.length < total
+                    ? `Showing ${results.length} of ${total} results`
+                    : `${total} result${total !== 1 ? 's' : ''}`}
+                </Text>
+              }
+              ListFooterComponent={
+                isLoadingMore ? (
+                  <ActivityIndicator style={SearchStyles.loadingMore} color="#08f88c" />
+                ) : null
+              }
+              ListEmptyComponent={
+                <View style={SearchStyles.emptyContainer}>
+                  <Text style={SearchStyles.emptyTitle}>No matches</Text>
+                  <Text style={SearchStyles.emptyDescription}>
+                    Try a different spelling or remove some filters.
+                  </Text>
+                </View>
+              }
+            />
+          )}
+        </>
+      )}
+    </SafeAreaView>
+  );
+};
@@ -0,0 +1,169 @@
+/**
+ * Shared Wishlist Screen
+ * Read-only view of products someone shared through a
+ * swipely://wishlist/shared/:token link
+ */
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { View, Text, FlatList, TouchableOpacity, Image, ActivityIndicator, Alert } from 'react-native';
+import { RouteProp, useNavigation, useRoute } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { MainStackParamList, ProductCard } from '../../types';
+import { getWishlistProvider } from '../../data/providers';
+import { SharedWishlist } from '../../services/WishlistService';
+import { useAppDispatch, useAppSelector } from '../../store';
+import { addToCart } from '../../store/slices/cartSlice';
+import { addToWishlist, selectWishlistItems } from '../../store/slices/wishlistSlice';
+import { getDefaultVariantSelection } from '../../utils/productVariants';
+import { SharedWishlistStyles } from '../Styles/SharedWishlistStyles';
+
+type SharedWishlistScreenRouteProp = RouteProp<MainStackParamList, 'SharedWishlist'>;
+type SharedWishlistScreenNavigationProp = StackNavigationProp<MainStackParamList>;
+
+export const SharedWishlistScreen: React.FC = () => {
+  const navigation = useNavigation<SharedWishlistScreenNavigationProp>();
+  const { token } = useRoute<SharedWishlistScreenRouteProp>().params;
+  const dispatch = useAppDispatch();
+  const wishlistItems = useAppSelector(selectWishlistItems);
+  const [shared, setShared] = useState<SharedWishlist | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadSharedWishlist = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const result = await getWishlistProvider().getSharedWishlist(token);
+      setShared(result);
+      navigation.setOptions({ title: result.title });
+    } catch (loadError) {
+      console.error('Failed to load shared wishlist:', loadError);
+      setError('This link may have expired, or it was shared from a device that is not online.');
+    } finally {
+      setLoading(false);
+    }
+  }, [token, navigation]);
+
+  useEffect(() => {
+    loadSharedWishlist();
+  }, [loadSharedWishlist]);
+
+  const handleAddToWishlist = async (product: ProductCard) => {
+    try {
+      await dispatch(addToWishlist(product.id)).unwrap();
+    } catch (addError) {
+      console.error('Failed to add shared product to wishlist:', addError);
+      Alert.alert('Error', 'Failed to add to your wishlist');
+    }
+  };
+
+  const handleAddToCart = async (product: ProductCard) => {
+    try {
+      await dispatch(
+        addToCart({ productId: product.id, selectedVariants: getDefaultVariantSelection(product) })
+      ).unwrap();
+      Alert.alert('Success', 'Item added to cart!');
+    } catch (addError) {
+      console.error('Failed to add shared product to cart:', addError);
+      Alert.alert('Error', 'Failed to add to cart');
+    }
+  };
+
+  const renderProduct = ({ item }: { item: ProductCard }) => {
+    const saved = wishlistItems.some(wishlistItem => wishlistItem.productId === item.id);
+    return (
+      <TouchableOpacity
+        style={SharedWishlistStyles.productCard}
+        onPress={() => navigation.navigate('ProductDetails', { productId: item.id, product: item })}
+        activeOpacity={0.7}
+      >
+        <Image
+          source={{ uri: item.imageUrls[0] }}
+          style={SharedWishlistStyles.productImage}
+          resizeMode="cover"
+        />
+        <View style={SharedWishlistStyles.productInfo}>
+          <Text style={SharedWishlistStyles.productTitle} numberOfLines={2}>
+            {item.title}
+          </Text>
+          <Text style={SharedWishlistStyles.productPrice}>
+            {item.currency} {item.price.toFixed(2)}
+          </Text>
+          {!item.availability && <Text style={SharedWishlistStyles.soldOut}>Out of stock</Text>}
+          <View style={SharedWishlistStyles.actions}>
+            <TouchableOpacity
+              style={[SharedWishlistStyles.actionButton, saved && SharedWishlistStyles.actionButtonDisabled]}
+              onPress={(e) => {
+                e.stopPropagation();
+                handleAddToWishlist(item);
+              }}
+              disabled={saved}
+            >
+              <Text style={SharedWishlistStyles.actionButtonText}>
+                {saved ? '♥ Saved' : '♡ Add to my wishlist'}
+              </Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[
+                SharedWishlistStyles.actionButton,
+                SharedWishlistStyles.actionButtonPrimary,
+                !item.availability && SharedWishlistStyles.actionButtonDisabled,
+              ]}
+              onPress={(e) => {
+                e.stopPropagation();
+                handleAddToCart(item);
+              }}
+              disabled={!item.availability}
+            >
+              <Text style={[SharedWishlistStyles.actionButtonText, SharedWishlistStyles.actionButtonTextPrimary]}>
+                Add to Cart
+              </Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </TouchableOpacity>
+    );
+  };
+
+  if (loading) {
+    return (
+      <View style={[SharedWishlistStyles.container, SharedWishlistStyles.centered]}>
+        <ActivityIndicator size="large" color="#007AFF" />
+      </View>
+    );
+  }
+
+  if (error || !shared) {
+    return (
+      <View style={[SharedWishlistStyles.container, SharedWishlistStyles.centered]}>
+        <Text style={SharedWishlistStyles.errorTitle}>Couldn't open this wishlist</Text>
+        <Text style={SharedWishlistStyles.errorText}>{error}</Text>
+        <TouchableOpacity style={SharedWishlistStyles.retryButton} onPress={loadSharedWishlist}>
+          <Text style={SharedWishlistStyles.retryButtonText}>Try Again</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  }
+
+  return (
+    <View style={SharedWishlistStyles.container}>
+      <FlatList
+        data={shared.products}
+        renderItem={renderProduct}
+        keyExtractor={item => item.id}
+        contentContainerStyle={SharedWishlistStyles.listContent}
+        ListHeaderComponent={
+          <Text style={SharedWishlistStyles.intro}>
+            {shared.products.length} shared product{shared.products.length !== 1 ? 's' : ''}
+            {shared.unavailableCount > 0
+              ? ` · ${shared.unavailableCount} no longer available`
+              : ''}
+            {shared.failedCount
+              ? ` · ${shared.failedCount} could not be loaded`
+              : ''}
+          </Text>
+        }
+      />
+    </View>
+  );
+};
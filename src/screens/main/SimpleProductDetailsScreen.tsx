@@ -18,6 +18,17 @@ import { AddToCartButton } from '../../components/product/AddToCartButton';
 import { getSwipeActionService } from '../../services/SwipeActionService';
 import { SimpleImageGallery } from '../../components/product/SimpleImageGallery';
 import { ProductDetailsService } from '../../services/ProductDetailsService';
+import { VariantPicker } from '../../components/product/VariantPicker';
+import { useAppDispatch } from '../../store';
+import { addToCart } from '../../store/slices/cartSlice';
+import {
+  getDefaultVariantSelection,
+  getVariantPrice,
+  getVariantStock,
+  hasVariants,
+  isSelectionComplete,
+  VariantSelection,
+} from '../../utils/productVariants';
 import { SimpleProductDetailStyles } from '../Styles/ProductStyles';
 
 type ProductDetailsScreenRouteProp = RouteProp<MainStackParamList, 'ProductDetails'>;
@@ -28,6 +39,7 @@ interface SimpleProductDetailsScreenProps {}
 export const SimpleProductDetailsScreen: React.FC<SimpleProductDetailsScreenProps> = () => {
   const navigation = useNavigation<ProductDetailsScreenNavigationProp>();
   const route = useRoute<ProductDetailsScreenRouteProp>();
+  const dispatch = useAppDispatch();
   const { productId, product: initialProduct, onActionComplete: onActionCompleteParam } = route.params;
 
   const [product, setProduct] = useState<ProductCard | null>(initialProduct || null);
@@ -36,6 +48,7 @@ export const SimpleProductDetailsScreen: React.FC<SimpleProductDetailsScreenProp
   const [isVisible, setIsVisible] = useState(true);
   const [retryCount, setRetryCount] = useState(0);
   const [isRetrying, setIsRetrying] = useState(false);
+  const [selectedVariants, setSelectedVariants] = useState<VariantSelection>({});
 
   // Ensure we have a callback, even if not provided
   const onActionComplete = onActionCompleteParam || (() => {
@@ -139,15 +152,24 @@ export const SimpleProductDetailsScreen: React.FC<SimpleProductDetailsScreenProp
     }, 0);
   }, [product, swipeActionService, handleClose]);
 
+  // Start from the first in-stock variant whenever a new product is shown
+  useEffect(() => {
+    setSelectedVariants(product ? getDefaultVariantSelection(product) ?? {} : {});
+  }, [product]);
+
   const handleAddToCart = useCallback(async () => {
     if (!product) return;
     
     const currentProductId = product.id;
+    const variantsToAdd = hasVariants(product) ? selectedVariants : undefined;
     handleClose('cart');
 
     setTimeout(async () => {
       try {
         console.log('handleAddToCart called for product:', currentProductId);
+        await dispatch(
+          addToCart({ productId: currentProductId, selectedVariants: variantsToAdd })
+        ).unwrap();
         await swipeActionService.onAddToCart(currentProductId);
         console.log('onAddToCart completed');
         
@@ -159,7 +181,18 @@ export const SimpleProductDetailsScreen: React.FC<SimpleProductDetailsScreenProp
         Alert.alert('Error', 'Failed to add product to cart');
       }
     }, 0);
-  }, [product, swipeActionService, handleClose]);
+  }, [product, selectedVariants, dispatch, swipeActionService, handleClose]);
+
+  const canAddToCart =
+    !!product &&
+    isSelectionComplete(product, selectedVariants) &&
+    getVariantStock(product, selectedVariants) > 0;
+
+  const getAddToCartTitle = (): string => {
+    if (canAddToCart) return 'Add to Cart';
+    if (product && !isSelectionComplete(product, selectedVariants)) return 'Select Options';
+    return 'Out of Stock';
+  };
 
   if (!isVisible) {
     return null;
@@ -230,9 +263,15 @@ export const SimpleProductDetailsScreen: React.FC<SimpleProductDetailsScreenProp
             <View style={SimpleProductDetailStyles.productInfo}>
               <Text style={SimpleProductDetailStyles.productTitle}>{product.title}</Text>
               <Text style={SimpleProductDetailStyles.productPrice}>
-                {product.currency}{product.price.toFixed(2)}
+                {product.currency}{getVariantPrice(product, selectedVariants).toFixed(2)}
               </Text>
               <Text style={SimpleProductDetailStyles.productCategory}>{product.category.name}</Text>
+
+              <VariantPicker
+                product={product}
+                selection={selectedVariants}
+                onChange={setSelectedVariants}
+              />
               
               {!product.availability && (
                 <Text style={SimpleProductDetailStyles.outOfStock}>Out of Stock</Text>
@@ -272,10 +311,10 @@ export const SimpleProductDetailsScreen: React.FC<SimpleProductDetailsScreenProp
 
             <AddToCartButton
               onPress={handleAddToCart}
-              disabled={!product.availability}
+              disabled={!canAddToCart}
               style={[SimpleProductDetailStyles.actionButton, SimpleProductDetailStyles.cartButton]}
               textStyle={SimpleProductDetailStyles.cartButtonText}
-              title={product.availability ? 'Add to Cart' : 'Out of Stock'}
+              title={getAddToCartTitle()}
             />
 
             <TouchableOpacity
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import {
   View,
   Text,
@@ -12,8 +12,15 @@ import { useRoute, useNavigation, RouteProp } from '@react-navigation/native';
 import { StackNavigationProp } from '@react-navigation/stack';
 import { MouseSwipeableCard } from '../../components/product/MouseSwipeableCard';
 import { ProductCard, MainStackParamList } from '../../types';
-import { getSkippedProductsService } from '../../services/SkippedProductsService';
-import { getCartProvider, getWishlistProvider } from '../../data/providers';
+import { useAppDispatch } from '../../store';
+import { addToCart } from '../../store/slices/cartSlice';
+import { addToWishlist } from '../../store/slices/wishlistSlice';
+import {
+  clearSkippedCategory,
+  fetchSkipped,
+  unskipProduct,
+} from '../../store/slices/skippedSlice';
+import { getDefaultVariantSelection } from '../../utils/productVariants';
 import { SkippedProductStyles } from '../Styles/ProductStyles';
 
 const { width: screenWidth, height: screenHeight } = Dimensions.get('window');
@@ -28,14 +35,12 @@ export const SkippedProductsScreen: React.FC = () => {
   const route = useRoute<SkippedProductsScreenRouteProp>();
   const navigation = useNavigation<SkippedProductsScreenNavigationProp>();
   const { category } = route.params;
+  const dispatch = useAppDispatch();
   
+  // The deck is a snapshot, so cards stay put while they leave the skipped list
   const [products, setProducts] = useState<ProductCard[]>([]);
   const [loading, setLoading] = useState(true);
   const [currentCardIndex, setCurrentCardIndex] = useState(0);
-  
-  const skippedProductsService = getSkippedProductsService();
-  const wishlistService = useMemo(() => getWishlistProvider(), []);
-  const cartService = useMemo(() => getCartProvider(), []);
 
   useEffect(() => {
     loadSkippedProducts();
@@ -46,8 +51,10 @@ export const SkippedProductsScreen: React.FC = () => {
       setLoading(true);
       console.log('Loading skipped products for category:', category);
       
-      const skippedItems = await skippedProductsService.getSkippedProductsByCategoryWithDetails(category);
-      const productCards = skippedItems.map(item => item.product);
+      const skippedItems = await dispatch(fetchSkipped()).unwrap();
+      const productCards = skippedItems
+        .filter(item => item.category === category)
+        .map(item => item.product);
       
       console.log('Loaded skipped products:', productCards.length);
       setProducts(productCards);
@@ -70,8 +77,8 @@ export const SkippedProductsScreen: React.FC = () => {
     try {
       // Remove from skipped products and add to wishlist
       await Promise.all([
-        skippedProductsService.removeSkippedProduct(productId),
-        wishlistService.addToWishlist(productId)
+        dispatch(unskipProduct(productId)).unwrap(),
+        dispatch(addToWishlist(productId)).unwrap()
       ]);
       
       Alert.alert('Added to Wishlist!', 'Product has been removed from skipped items and added to your wishlist.');
@@ -81,15 +88,17 @@ export const SkippedProductsScreen: React.FC = () => {
       Alert.alert('Error', 'Failed to process action. Please try again.');
       setCurrentCardIndex(prev => prev + 1);
     }
-  }, [skippedProductsService, wishlistService]);
+  }, [dispatch]);
 
   const handleAddToCart = useCallback(async (productId: string) => {
     console.log('Added skipped product to cart:', productId);
+    const product = products.find(p => p.id === productId);
+    const selectedVariants = product ? getDefaultVariantSelection(product) : undefined;
     try {
       // Remove from skipped products and add to cart
       await Promise.all([
-        skippedProductsService.removeSkippedProduct(productId),
-        cartService.addToCart(productId, 1)
+        dispatch(unskipProduct(productId)).unwrap(),
+        dispatch(addToCart({ productId, selectedVariants })).unwrap()
       ]);
       
       Alert.alert('Added to Cart!', 'Product has been removed from skipped items and added to your cart.');
@@ -101,7 +110,7 @@ export const SkippedProductsScreen: React.FC = () => {
       // Still advance to next product even on error
       setCurrentCardIndex(prev => prev + 1);
     }
-  }, [skippedProductsService, cartService]);
+  }, [products, dispatch]);
 
   const handleViewDetails = useCallback((productId: string) => {
     console.log('Viewing details for skipped product:', productId);
@@ -129,7 +138,7 @@ export const SkippedProductsScreen: React.FC = () => {
           style: 'destructive',
           onPress: async () => {
             try {
-              await skippedProductsService.clearSkippedProductsByCategory(category);
+              await dispatch(clearSkippedCategory(category)).unwrap();
               Alert.alert('Cleared', 'All skipped products in this category have been cleared.');
               navigation.goBack();
             } catch (error) {
@@ -140,7 +149,7 @@ export const SkippedProductsScreen: React.FC = () => {
         },
       ]
     );
-  }, [category, skippedProductsService, navigation]);
+  }, [category, dispatch, navigation]);
 
   const renderCard = (product: ProductCard, index: number) => {
     const isTopCard = index === currentCardIndex;
@@ -0,0 +1,154 @@
+/**
+ * Sync Conflicts Screen
+ * Shows records edited on two devices side by side and lets the user keep
+ * either version or merge them
+ */
+
+import React from 'react';
+import { View, Text, FlatList, TouchableOpacity, ActivityIndicator } from 'react-native';
+import { useAppSelector } from '../../store';
+import { selectCurrentUser } from '../../store/slices/authSlice';
+import { useDataSync } from '../../hooks/useDataSync';
+import { ConflictResolution, SyncConflict, SyncData } from '../../services/DataSyncService';
+import { SyncConflictsStyles } from '../Styles/SyncConflictsStyles';
+
+const RECORD_TITLES: Record<SyncData['type'], string> = {
+  user_preferences: 'Preferences',
+  cart_items: 'Cart',
+  wishlist_items: 'Wishlist',
+  swipe_history: 'Swipe History',
+};
+
+// Bookkeeping fields every record carries; not useful to compare
+const HIDDEN_PREFERENCE_KEYS = ['lastModified', 'version'];
+
+const describeRecord = (record: SyncData): string[] => {
+  const data = record.data ?? {};
+
+  switch (record.type) {
+    case 'cart_items':
+      return (data.items ?? []).map(
+        (item: any) => `${item.title ?? item.productId} × ${item.quantity ?? 1}`
+      );
+    case 'wishlist_items':
+      return (data.items ?? []).map((item: any) => item.title ?? item.productId);
+    case 'swipe_history':
+      return [`${(data.history ?? []).length} swipes`];
+    default:
+      return Object.entries(data)
+        .filter(([key]) => !HIDDEN_PREFERENCE_KEYS.includes(key))
+        .map(([key, value]) => `${key}: ${Array.isArray(value) ? value.join(', ') : String(value)}`);
+  }
+};
+
+const formatTimestamp = (timestamp: number): string =>
+  new Date(timestamp).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+
+export const SyncConflictsScreen: React.FC = () => {
+  const currentUser = useAppSelector(selectCurrentUser);
+  const { conflicts, isSyncing, error, syncData, resolveConflict } = useDataSync(
+    currentUser?.id ?? '',
+    {
+      autoSync: false,
+      syncOnAppForeground: false,
+      conflictResolutionStrategy: 'manual',
+    }
+  );
+
+  const renderVersion = (label: string, record: SyncData) => {
+    const lines = describeRecord(record);
+    return (
+      <View style={SyncConflictsStyles.versionColumn}>
+        <Text style={SyncConflictsStyles.versionLabel}>{label}</Text>
+        <Text style={SyncConflictsStyles.versionMeta}>
+          {record.platform === 'ios' ? 'iOS' : 'Android'} · {formatTimestamp(record.timestamp)}
+        </Text>
+        {lines.length === 0 ? (
+          <Text style={SyncConflictsStyles.versionEmpty}>Empty</Text>
+        ) : (
+          lines.map((line, index) => (
+            <Text key={`${line}-${index}`} style={SyncConflictsStyles.versionLine}>
+              {line}
+            </Text>
+          ))
+        )}
+      </View>
+    );
+  };
+
+  const renderChoice = (index: number, resolution: ConflictResolution, label: string) => (
+    <TouchableOpacity
+      style={[
+        SyncConflictsStyles.choiceButton,
+        resolution === 'merge' && SyncConflictsStyles.choiceButtonPrimary,
+      ]}
+      onPress={() => resolveConflict(index, resolution)}
+    >
+      <Text
+        style={[
+          SyncConflictsStyles.choiceButtonText,
+          resolution === 'merge' && SyncConflictsStyles.choiceButtonTextPrimary,
+        ]}
+      >
+        {label}
+      </Text>
+    </TouchableOpacity>
+  );
+
+  const renderConflict = ({ item, index }: { item: SyncConflict; index: number }) => (
+    <View style={SyncConflictsStyles.conflictCard}>
+      <Text style={SyncConflictsStyles.conflictTitle}>{RECORD_TITLES[item.localData.type]}</Text>
+      <View style={SyncConflictsStyles.versions}>
+        {renderVersion('This device', item.localData)}
+        <View style={SyncConflictsStyles.versionDivider} />
+        {renderVersion('Other device', item.remoteData)}
+      </View>
+      <View style={SyncConflictsStyles.choices}>
+        {renderChoice(index, 'local', 'Keep Mine')}
+        {renderChoice(index, 'remote', 'Keep Theirs')}
+        {renderChoice(index, 'merge', 'Merge')}
+      </View>
+    </View>
+  );
+
+  return (
+    <View style={SyncConflictsStyles.container}>
+      {error && <Text style={SyncConflictsStyles.errorText}>{error}</Text>}
+
+      {conflicts.length === 0 ? (
+        <View style={SyncConflictsStyles.emptyContainer}>
+          <Text style={SyncConflictsStyles.emptyText}>Everything is in sync</Text>
+          <TouchableOpacity
+            style={SyncConflictsStyles.syncButton}
+            onPress={() => syncData()}
+            disabled={isSyncing}
+          >
+            {isSyncing ? (
+              <ActivityIndicator color="#fff" />
+            ) : (
+              <Text style={SyncConflictsStyles.syncButtonText}>Sync Now</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      ) : (
+        <FlatList
+          data={conflicts}
+          renderItem={renderConflict}
+          keyExtractor={item => item.localData.id}
+          contentContainerStyle={SyncConflictsStyles.listContent}
+          ListHeaderComponent={
+            <Text style={SyncConflictsStyles.intro}>
+              These were changed on another device while this one was offline. Choose which
+              version to keep.
+            </Text>
+          }
+        />
+      )}
+    </View>
+  );
+};
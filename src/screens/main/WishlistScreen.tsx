@@ -9,45 +9,97 @@ import {
   Alert,
   RefreshControl,
   Dimensions,
+  ScrollView,
+  Switch,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useFocusEffect, useNavigation } from '@react-navigation/native';
 import { StackNavigationProp } from '@react-navigation/stack';
-import { getCartProvider, getWishlistProvider } from '../../data/providers';
-import { WishlistItem, WishlistProvider } from '../../data/providers/WishlistProvider';
-import { CartProvider } from '../../data/providers/CartProvider';
-import { ProductCard, MainStackParamList } from '../../types';
+import { MainStackParamList } from '../../types';
+import { useAppDispatch, useAppSelector } from '../../store';
+import { addToCart } from '../../store/slices/cartSlice';
+import {
+  addToWishlistCollection,
+  createWishlistCollection,
+  deleteWishlistCollection,
+  fetchWishlist,
+  fetchWishlistCollections,
+  removeFromWishlist,
+  removeFromWishlistCollection,
+  renameWishlistCollection,
+  selectRightSwipeTarget,
+  selectUnreadWishlistAlertCount,
+  selectWishlistAlerts,
+  selectWishlistCollections,
+  selectWishlistItems,
+  selectWishlistStatus,
+  setRightSwipeTarget,
+  setWishlistItemAlerts,
+  WishlistItemWithProduct,
+} from '../../store/slices/wishlistSlice';
+import { getWishlistAlertLabel } from '../../services/WishlistAlertService';
+import {
+  DEFAULT_WISHLIST_COLLECTION_NAME,
+  getItemCollectionIds,
+  WishlistCollection,
+} from '../../services/WishlistService';
+import { CollectionPickerModal } from '../../components/wishlist/CollectionPickerModal';
+import { CollectionNameModal } from '../../components/wishlist/CollectionNameModal';
+import { getDefaultVariantSelection } from '../../utils/productVariants';
+import { useWishlistShare } from '../../hooks/useWishlistShare';
 import { WishListStyles } from '../Styles/ProductStyles';
 
-interface WishlistItemWithProduct extends WishlistItem {
-  product: ProductCard;
-}
-
 type WishlistScreenNavigationProp = StackNavigationProp<MainStackParamList>;
 
+type CollectionNameEdit = { mode: 'create' } | { mode: 'rename'; collection: WishlistCollection };
+
 export const WishlistScreen: React.FC = () => {
   const navigation = useNavigation<WishlistScreenNavigationProp>();
-  const [wishlistItems, setWishlistItems] = useState<WishlistItemWithProduct[]>([]);
-  const [loading, setLoading] = useState(true);
+  const dispatch = useAppDispatch();
+  const wishlistItems = useAppSelector(selectWishlistItems);
+  const status = useAppSelector(selectWishlistStatus);
+  const alerts = useAppSelector(selectWishlistAlerts);
+  const unreadAlertCount = useAppSelector(selectUnreadWishlistAlertCount);
+  const mutedProductIds = useAppSelector(state => state.wishlist.mutedProductIds);
+  const collections = useAppSelector(selectWishlistCollections);
+  const rightSwipeTarget = useAppSelector(selectRightSwipeTarget);
   const [refreshing, setRefreshing] = useState(false);
   const [viewMode, setViewMode] = useState<'grid' | 'list'>('grid');
-  const wishlistService: WishlistProvider = useMemo(() => getWishlistProvider(), []);
-  const cartService: CartProvider = useMemo(() => getCartProvider(), []);
+  // null shows every item on the wishlist
+  const [selectedCollectionId, setSelectedCollectionId] = useState<string | null>(null);
+  const [nameEdit, setNameEdit] = useState<CollectionNameEdit | null>(null);
+  const [organizingProductId, setOrganizingProductId] = useState<string | null>(null);
+
+  const selectedCollection = collections.find(c => c.id === selectedCollectionId) ?? null;
+  const visibleItems = useMemo(
+    () =>
+      selectedCollection
+        ? wishlistItems.filter(item => getItemCollectionIds(item).includes(selectedCollection.id))
+        : wishlistItems,
+    [wishlistItems, selectedCollection]
+  );
+  const organizingItem = wishlistItems.find(item => item.productId === organizingProductId);
+  const { share, isSharing } = useWishlistShare();
+
+  const handleShare = () => {
+    share(
+      visibleItems.map(item => item.productId),
+      selectedCollection?.name ?? DEFAULT_WISHLIST_COLLECTION_NAME
+    );
+  };
+
+  // Items restored from storage render straight away while the wishlist reloads
+  const loading = wishlistItems.length === 0 && (status === 'idle' || status === 'loading');
 
   const loadWishlistItems = useCallback(async () => {
+    dispatch(fetchWishlistCollections());
     try {
-      console.log('Loading wishlist items...');
-      const items = await wishlistService.getWishlistItemsWithDetails();
-      console.log('Loaded wishlist items:', items.length);
-      console.log('Wishlist items:', items.map(item => ({ id: item.productId, title: item.product.title })));
-      setWishlistItems(items);
+      await dispatch(fetchWishlist()).unwrap();
     } catch (error) {
       console.error('Failed to load wishlist items:', error);
       Alert.alert('Error', 'Failed to load wishlist items');
-    } finally {
-      setLoading(false);
     }
-  }, [wishlistService]);
+  }, [dispatch]);
 
   const onRefresh = useCallback(async () => {
     setRefreshing(true);
@@ -62,12 +114,36 @@ export const WishlistScreen: React.FC = () => {
   // Reload wishlist when screen comes into focus
   useFocusEffect(
     useCallback(() => {
-      console.log('WishlistScreen focused, reloading items...');
       loadWishlistItems();
     }, [loadWishlistItems])
   );
 
   const handleRemoveFromWishlist = async (productId: string) => {
+    if (selectedCollection) {
+      Alert.alert(
+        'Remove from Collection',
+        `Remove this item from "${selectedCollection.name}"?`,
+        [
+          { text: 'Cancel', style: 'cancel' },
+          {
+            text: 'Remove',
+            style: 'destructive',
+            onPress: async () => {
+              try {
+                await dispatch(
+                  removeFromWishlistCollection({ productId, collectionId: selectedCollection.id })
+                ).unwrap();
+              } catch (error) {
+                console.error('Failed to remove from collection:', error);
+                Alert.alert('Error', 'Failed to remove from collection');
+              }
+            },
+          },
+        ]
+      );
+      return;
+    }
+
     Alert.alert(
       'Remove from Wishlist',
       'Are you sure you want to remove this item from your wishlist?',
@@ -78,8 +154,7 @@ export const WishlistScreen: React.FC = () => {
           style: 'destructive',
           onPress: async () => {
             try {
-              await wishlistService.removeFromWishlist(productId);
-              await loadWishlistItems();
+              await dispatch(removeFromWishlist(productId)).unwrap();
             } catch (error) {
               console.error('Failed to remove from wishlist:', error);
               Alert.alert('Error', 'Failed to remove from wishlist');
@@ -90,9 +165,14 @@ export const WishlistScreen: React.FC = () => {
     );
   };
 
-  const handleAddToCart = async (productId: string) => {
+  const handleAddToCart = async (item: WishlistItemWithProduct) => {
     try {
-      await cartService.addToCart(productId, 1);
+      await dispatch(
+        addToCart({
+          productId: item.productId,
+          selectedVariants: getDefaultVariantSelection(item.product),
+        })
+      ).unwrap();
       Alert.alert('Success', 'Item added to cart!');
     } catch (error) {
       console.error('Failed to add to cart:', error);
@@ -100,6 +180,133 @@ export const WishlistScreen: React.FC = () => {
     }
   };
 
+  const handleSubmitCollectionName = async (name: string) => {
+    if (!nameEdit) return;
+    try {
+      if (nameEdit.mode === 'create') {
+        await dispatch(createWishlistCollection(name)).unwrap();
+      } else {
+        await dispatch(
+          renameWishlistCollection({ collectionId: nameEdit.collection.id, name })
+        ).unwrap();
+      }
+      setNameEdit(null);
+    } catch (error: any) {
+      console.error('Failed to save collection:', error);
+      Alert.alert('Error', error?.message ?? 'Failed to save collection');
+    }
+  };
+
+  const handleDeleteCollection = (collection: WishlistCollection) => {
+    const defaultName = collections.find(c => c.isDefault)?.name ?? 'your wishlist';
+    Alert.alert(
+      'Delete Collection',
+      `Delete "${collection.name}"? Items that are only in this collection move to ${defaultName}.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await dispatch(deleteWishlistCollection(collection.id)).unwrap();
+              if (selectedCollectionId === collection.id) {
+                setSelectedCollectionId(null);
+              }
+            } catch (error) {
+              console.error('Failed to delete collection:', error);
+              Alert.alert('Error', 'Failed to delete collection');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleCollectionLongPress = (collection: WishlistCollection) => {
+    Alert.alert(collection.name, undefined, [
+      { text: 'Rename', onPress: () => setNameEdit({ mode: 'rename', collection }) },
+      ...(collection.isDefault
+        ? []
+        : [{ text: 'Delete', style: 'destructive' as const, onPress: () => handleDeleteCollection(collection) }]),
+      { text: 'Cancel', style: 'cancel' },
+    ]);
+  };
+
+  const handleToggleItemCollection = async (collectionId: string) => {
+    if (!organizingItem) return;
+    const productId = organizingItem.productId;
+    const inCollection = getItemCollectionIds(organizingItem).includes(collectionId);
+
+    try {
+      if (inCollection) {
+        await dispatch(removeFromWishlistCollection({ productId, collectionId })).unwrap();
+      } else {
+        await dispatch(addToWishlistCollection({ productId, collectionId })).unwrap();
+      }
+    } catch (error) {
+      console.error('Failed to update collections:', error);
+      Alert.alert('Error', 'Failed to update collections');
+    }
+  };
+
+  const renderCollectionButton = (item: WishlistItemWithProduct) => {
+    if (collections.length < 2) {
+      return null;
+    }
+    return (
+      <TouchableOpacity
+        style={WishListStyles.itemIconButton}
+        onPress={(e) => {
+          e.stopPropagation();
+          setOrganizingProductId(item.productId);
+        }}
+        accessibilityRole="button"
+        accessibilityLabel={`Choose collections for ${item.product.title}`}
+      >
+        <Text style={WishListStyles.itemIconText}>📁</Text>
+      </TouchableOpacity>
+    );
+  };
+
+  const handleToggleAlerts = (item: WishlistItemWithProduct) => {
+    dispatch(
+      setWishlistItemAlerts({
+        productId: item.productId,
+        enabled: mutedProductIds.includes(item.productId),
+      })
+    );
+  };
+
+  const renderAlertBadge = (item: WishlistItemWithProduct, overlay: boolean) => {
+    const alert = alerts.find(entry => entry.productId === item.productId && !entry.read);
+    if (!alert) {
+      return null;
+    }
+    return (
+      <View style={[WishListStyles.alertBadge, overlay && WishListStyles.alertBadgeOverlay]}>
+        <Text style={WishListStyles.alertBadgeText}>{getWishlistAlertLabel(alert.type)}</Text>
+      </View>
+    );
+  };
+
+  const renderAlertToggle = (item: WishlistItemWithProduct) => {
+    const enabled = !mutedProductIds.includes(item.productId);
+    return (
+      <TouchableOpacity
+        style={WishListStyles.itemIconButton}
+        onPress={(e) => {
+          e.stopPropagation();
+          handleToggleAlerts(item);
+        }}
+        accessibilityRole="button"
+        accessibilityLabel={`${enabled ? 'Turn off' : 'Turn on'} price and stock alerts for ${item.product.title}`}
+      >
+        <Text style={WishListStyles.itemIconText}>{enabled ? '🔔' : '🔕'}</Text>
+      </TouchableOpacity>
+    );
+  };
+
   const handleViewDetails = (item: WishlistItemWithProduct) => {
     navigation.navigate('ProductDetails', {
       productId: item.productId,
@@ -122,6 +329,7 @@ export const WishlistScreen: React.FC = () => {
         style={WishListStyles.gridImage}
         resizeMode="cover"
       />
+      {renderAlertBadge(item, true)}
       <View style={WishListStyles.gridItemInfo}>
         <Text style={WishListStyles.gridItemTitle} numberOfLines={2}>
           {item.product.title}
@@ -134,11 +342,13 @@ export const WishlistScreen: React.FC = () => {
             style={WishListStyles.addToCartButton}
             onPress={(e) => {
               e.stopPropagation();
-              handleAddToCart(item.productId);
+              handleAddToCart(item);
             }}
           >
             <Text style={WishListStyles.addToCartButtonText}>Add to Cart</Text>
           </TouchableOpacity>
+          {renderCollectionButton(item)}
+          {renderAlertToggle(item)}
           <TouchableOpacity
             style={WishListStyles.removeButton}
             onPress={(e) => {
@@ -168,6 +378,7 @@ export const WishlistScreen: React.FC = () => {
         <Text style={WishListStyles.listItemTitle} numberOfLines={2}>
           {item.product.title}
         </Text>
+        {renderAlertBadge(item, false)}
         <Text style={WishListStyles.listItemPrice}>
           {item.product.currency} {item.product.price.toFixed(2)}
         </Text>
@@ -180,11 +391,13 @@ export const WishlistScreen: React.FC = () => {
           style={WishListStyles.listAddToCartButton}
           onPress={(e) => {
             e.stopPropagation();
-            handleAddToCart(item.productId);
+            handleAddToCart(item);
           }}
         >
           <Text style={WishListStyles.listAddToCartButtonText}>Add to Cart</Text>
         </TouchableOpacity>
+        {renderCollectionButton(item)}
+        {renderAlertToggle(item)}
         <TouchableOpacity
           style={WishListStyles.listRemoveButton}
           onPress={(e) => {
@@ -198,7 +411,14 @@ export const WishlistScreen: React.FC = () => {
     </TouchableOpacity>
   );
 
-  const renderEmptyWishlist = () => (
+  const renderEmptyWishlist = () => selectedCollection ? (
+    <View style={WishListStyles.emptyContainer}>
+      <Text style={WishListStyles.emptyTitle}>Nothing in {selectedCollection.name} yet</Text>
+      <Text style={WishListStyles.emptyDescription}>
+        Tap 📁 on an item to add it to this collection.
+      </Text>
+    </View>
+  ) : (
     <View style={WishListStyles.emptyContainer}>
       <Text style={WishListStyles.emptyTitle}>💖 Your wishlist is empty</Text>
       <Text style={WishListStyles.emptyDescription}>
@@ -225,9 +445,33 @@ export const WishlistScreen: React.FC = () => {
         <View style={WishListStyles.header}>
         <Text style={WishListStyles.headerTitle}>Wishlist</Text>
         <View style={WishListStyles.headerActions}>
+          <TouchableOpacity
+            style={WishListStyles.inboxButton}
+            onPress={() => navigation.navigate('Notifications')}
+            accessibilityRole="button"
+            accessibilityLabel={`Notifications, ${unreadAlertCount} unread`}
+          >
+            <Text style={WishListStyles.inboxButtonText}>🔔</Text>
+            {unreadAlertCount > 0 && (
+              <View style={WishListStyles.inboxCount}>
+                <Text style={WishListStyles.inboxCountText}>{unreadAlertCount}</Text>
+              </View>
+            )}
+          </TouchableOpacity>
+          {visibleItems.length > 0 && (
+            <TouchableOpacity
+              style={WishListStyles.inboxButton}
+              onPress={handleShare}
+              disabled={isSharing}
+              accessibilityRole="button"
+              accessibilityLabel="Share wishlist"
+            >
+              <Text style={WishListStyles.inboxButtonText}>📤</Text>
+            </TouchableOpacity>
+          )}
           {wishlistItems.length > 0 && (
             <>
-              <Text style={WishListStyles.itemCount}>{wishlistItems.length} items</Text>
+              <Text style={WishListStyles.itemCount}>{visibleItems.length} items</Text>
               <TouchableOpacity
                 style={WishListStyles.viewModeButton}
                 onPress={() => setViewMode(viewMode === 'grid' ? 'list' : 'grid')}
@@ -241,18 +485,89 @@ export const WishlistScreen: React.FC = () => {
         </View>
       </View>
       
+      {collections.length > 0 && (
+        <View style={WishListStyles.collectionBar}>
+          <ScrollView
+            horizontal
+            showsHorizontalScrollIndicator={false}
+            contentContainerStyle={WishListStyles.collectionChips}
+          >
+            <TouchableOpacity
+              style={[WishListStyles.collectionChip, !selectedCollection && WishListStyles.collectionChipActive]}
+              onPress={() => setSelectedCollectionId(null)}
+            >
+              <Text style={[WishListStyles.collectionChipText, !selectedCollection && WishListStyles.collectionChipTextActive]}>
+                All
+              </Text>
+            </TouchableOpacity>
+            {collections.map(collection => {
+              const active = collection.id === selectedCollection?.id;
+              return (
+                <TouchableOpacity
+                  key={collection.id}
+                  style={[WishListStyles.collectionChip, active && WishListStyles.collectionChipActive]}
+                  onPress={() => setSelectedCollectionId(collection.id)}
+                  onLongPress={() => handleCollectionLongPress(collection)}
+                  accessibilityHint="Long press to rename or delete"
+                >
+                  <Text style={[WishListStyles.collectionChipText, active && WishListStyles.collectionChipTextActive]}>
+                    {collection.name}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+            <TouchableOpacity
+              style={WishListStyles.collectionChip}
+              onPress={() => setNameEdit({ mode: 'create' })}
+              accessibilityLabel="New collection"
+            >
+              <Text style={WishListStyles.collectionChipText}>+ New</Text>
+            </TouchableOpacity>
+          </ScrollView>
+          {collections.length > 1 && (
+            <View style={WishListStyles.swipeTargetRow}>
+              <Text style={WishListStyles.swipeTargetText}>Ask which collection when I swipe right</Text>
+              <Switch
+                value={rightSwipeTarget === 'prompt'}
+                onValueChange={value => {
+                  dispatch(setRightSwipeTarget(value ? 'prompt' : 'default'));
+                }}
+              />
+            </View>
+          )}
+        </View>
+      )}
+
       <FlatList
-        data={wishlistItems}
+        data={visibleItems}
         renderItem={viewMode === 'grid' ? renderGridItem : renderListItem}
         keyExtractor={(item) => item.productId}
         numColumns={viewMode === 'grid' ? 2 : 1}
         key={viewMode} // Force re-render when view mode changes
-        contentContainerStyle={wishlistItems.length === 0 ? WishListStyles.emptyListContainer : WishListStyles.listContainer}
+        contentContainerStyle={visibleItems.length === 0 ? WishListStyles.emptyListContainer : WishListStyles.listContainer}
         ListEmptyComponent={renderEmptyWishlist}
         refreshControl={
           <RefreshControl refreshing={refreshing} onRefresh={onRefresh} />
         }
       />
+
+      <CollectionNameModal
+        visible={nameEdit !== null}
+        title={nameEdit?.mode === 'rename' ? 'Rename Collection' : 'New Collection'}
+        submitLabel={nameEdit?.mode === 'rename' ? 'Save' : 'Create'}
+        initialName={nameEdit?.mode === 'rename' ? nameEdit.collection.name : ''}
+        onSubmit={handleSubmitCollectionName}
+        onClose={() => setNameEdit(null)}
+      />
+
+      <CollectionPickerModal
+        visible={organizingItem !== undefined}
+        title="Save to Collections"
+        collections={collections}
+        selectedIds={organizingItem ? getItemCollectionIds(organizingItem) : []}
+        onSelect={handleToggleItemCollection}
+        onClose={() => setOrganizingProductId(null)}
+      />
       </SafeAreaView>
     </View>
   );
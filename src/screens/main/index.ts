@@ -1,3 +1,4 @@
 // Main app screen exports
 export { default as CategorySelectionScreen } from './CategorySelectionScreen';
-export { ProductDetailsScreen } from './ProductDetailsScreen';
\ No newline at end of file
+export { ProductDetailsScreen } from './ProductDetailsScreen';
+export { SearchScreen } from './SearchScreen';
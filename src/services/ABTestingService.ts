@@ -3,9 +3,18 @@
  * Requirements: 3.3, 3.4
  */
 
+import AsyncStorage from '@react-native-async-storage/async-storage';
 import { AnalyticsService } from './AnalyticsService';
 import { ErrorHandlingService } from './ErrorHandlingService';
+import {
+  ExperimentConfigDocument,
+  RemoteFeatureFlag,
+  getExperimentConfigService,
+} from './ExperimentConfigService';
+import defaultExperimentsJson from '../config/experiments.json';
 import { ErrorFactory } from '../utils/ErrorFactory';
+import { ABTestAnalysis, ABTestAnalysisOptions, analyzeABTest } from '../utils/abTestStatistics';
+import { AudienceContext, getDeviceAudienceContext, matchesAudience } from '../utils/experimentAudience';
 import { ErrorType } from '../types/errors';
 
 export interface ABTest {
@@ -18,6 +27,15 @@ export interface ABTest {
   endDate?: Date;
   status: 'draft' | 'active' | 'paused' | 'completed';
   targetAudience?: ABTestAudience;
+  /** Metric the test is decided on once it reaches its sample size */
+  primaryMetric?: string;
+  /**
+   * Exposed users every variant needs before the test is decided. Tests
+   * without one run until they are stopped by hand.
+   */
+  sampleSize?: number;
+  /** Set when the test was completed because a variant won */
+  winningVariantId?: string;
 }
 
 export interface ABTestVariant {
@@ -49,17 +67,33 @@ export interface ABTestResult {
   testId: string;
   variantId: string;
   metric: string;
+  /** Sum of the tracked conversion values */
   value: number;
+  /** Users exposed to the variant */
   sampleSize: number;
+  /** Exposed users who converted at least once */
+  conversions: number;
   conversionRate?: number;
+  /** 1 - p-value of the difference against the control; unset for the control */
   statisticalSignificance?: number;
+  /** Relative change in conversion rate against the control */
+  lift?: number;
 }
 
 export class ABTestingService {
   private static instance: ABTestingService | null = null;
+  private static readonly OVERRIDES_STORAGE_KEY = '@swipely_ab_overrides';
   private tests: Map<string, ABTest> = new Map();
   private assignments: Map<string, ABTestAssignment[]> = new Map();
   private results: Map<string, ABTestResult[]> = new Map();
+  // Users who converted, keyed by test, metric and variant
+  private convertedUsers: Map<string, Set<string>> = new Map();
+  private listeners = new Set<() => void>();
+  private flags: Map<string, RemoteFeatureFlag> = new Map();
+  private audienceContext: AudienceContext = getDeviceAudienceContext();
+  // Forced variants by test id, honored in development builds only
+  private variantOverrides: Record<string, string> | null = null;
+  private configLoad: Promise<void> | null = null;
   private analyticsService: AnalyticsService;
   private errorHandlingService: ErrorHandlingService;
 
@@ -76,6 +110,145 @@ export class ABTestingService {
     return ABTestingService.instance;
   }
 
+  /**
+   * Reset the A/B testing service instance (useful for testing)
+   */
+  static resetInstance(): void {
+    ABTestingService.instance = null;
+  }
+
+  /**
+   * Load the remote experiment config once per session
+   */
+  ensureConfigLoaded(): Promise<void> {
+    if (!this.configLoad) {
+      this.configLoad = this.refreshConfig().catch(error => {
+        console.warn('Failed to load experiment config:', error);
+      });
+    }
+    return this.configLoad;
+  }
+
+  /**
+   * Fetch the remote experiment config and apply it, then decide the active
+   * tests that have reached their sample size. Without a remote or cached
+   * config the bundled default tests stay in place.
+   */
+  async refreshConfig(): Promise<void> {
+    const document = await getExperimentConfigService().loadConfig();
+    if (document) {
+      this.applyConfig(document);
+    }
+    await Promise.all(this.getActiveTests().map(test => this.evaluateTest(test.id)));
+  }
+
+  /**
+   * Replace the running tests and flags with those in a config document.
+   * Invalid experiments are skipped. The document wins over anything this
+   * device decided, so a test it completed runs again if the config says so.
+   */
+  applyConfig(document: ExperimentConfigDocument): void {
+    const tests = new Map<string, ABTest>();
+
+    document.experiments.forEach(remote => {
+      const test: ABTest = {
+        ...remote,
+        startDate: new Date(remote.startDate),
+        endDate: remote.endDate ? new Date(remote.endDate) : undefined,
+      };
+      try {
+        this.validateTest(test);
+      } catch (error) {
+        console.warn(`Skipping invalid experiment ${remote.id}:`, error);
+        return;
+      }
+
+      tests.set(test.id, test);
+      if (!this.assignments.has(test.id)) {
+        this.assignments.set(test.id, []);
+      }
+      if (!this.results.has(test.id)) {
+        this.results.set(test.id, []);
+      }
+    });
+
+    this.tests = tests;
+    this.flags = new Map(Object.entries(document.flags));
+    this.notifyListeners();
+  }
+
+  /**
+   * Override what the device reports about itself, e.g. once the user's
+   * country is known from their profile
+   */
+  setAudienceContext(context: Partial<AudienceContext>): void {
+    this.audienceContext = { ...this.audienceContext, ...context };
+  }
+
+  /**
+   * Value of a remote feature flag for the user, or undefined when the
+   * config does not define the flag
+   */
+  getFeatureFlag(flagName: string, userId?: string): boolean | undefined {
+    const flag = this.flags.get(flagName);
+    if (!flag) {
+      return undefined;
+    }
+    if (!flag.enabled) {
+      return false;
+    }
+    if (flag.targetAudience && !matchesAudience(flag.targetAudience, this.audienceContext)) {
+      return false;
+    }
+
+    const rolloutPercentage = flag.rolloutPercentage ?? 100;
+    if (rolloutPercentage >= 100) {
+      return true;
+    }
+    // Partial rollouts need a stable id to bucket on
+    return userId ? this.hashUserId(`${flagName}:${userId}`) < rolloutPercentage / 100 : false;
+  }
+
+  /**
+   * Forced variants by test id
+   */
+  async getVariantOverrides(): Promise<Record<string, string>> {
+    if (this.variantOverrides) {
+      return this.variantOverrides;
+    }
+
+    let overrides: Record<string, string> = {};
+    try {
+      const stored = await AsyncStorage.getItem(ABTestingService.OVERRIDES_STORAGE_KEY);
+      if (stored) {
+        overrides = JSON.parse(stored);
+      }
+    } catch (error) {
+      console.error('Failed to load variant overrides:', error);
+    }
+
+    this.variantOverrides = overrides;
+    return overrides;
+  }
+
+  /**
+   * Force a variant for a test on this device, or clear the override with
+   * null. Only development builds honor overrides, and forced variants are
+   * not counted in the results.
+   */
+  async setVariantOverride(testId: string, variantId: string | null): Promise<void> {
+    const overrides = { ...(await this.getVariantOverrides()) };
+    if (variantId) {
+      overrides[testId] = variantId;
+    } else {
+      delete overrides[testId];
+    }
+
+    this.variantOverrides = overrides;
+    await AsyncStorage.setItem(ABTestingService.OVERRIDES_STORAGE_KEY, JSON.stringify(overrides));
+    this.notifyListeners();
+  }
+
   /**
    * Create a new A/B test
    */
@@ -123,7 +296,19 @@ export class ABTestingService {
   async getVariant(testId: string, userId: string): Promise<ABTestVariant | null> {
     try {
       const test = this.tests.get(testId);
-      if (!test || test.status !== 'active') {
+      if (!test) {
+        return null;
+      }
+
+      if (__DEV__) {
+        const overrideId = (await this.getVariantOverrides())[testId];
+        const forcedVariant = test.variants.find(v => v.id === overrideId);
+        if (forcedVariant) {
+          return forcedVariant;
+        }
+      }
+
+      if (test.status !== 'active') {
         return null;
       }
 
@@ -163,6 +348,7 @@ export class ABTestingService {
 
         await this.trackAssignment(testId, variant.id, userId);
         await this.trackExposure(testId, variant.id, userId);
+        this.notifyListeners();
 
         return variant;
       }
@@ -208,7 +394,7 @@ export class ABTestingService {
       });
 
       // Update results
-      this.updateTestResults(testId, assignment.variantId, metric, value);
+      this.updateTestResults(testId, assignment.variantId, userId, metric, value);
     } catch (error) {
       await this.errorHandlingService.handleError(
         ErrorFactory.createAppError(
@@ -237,6 +423,114 @@ export class ABTestingService {
     return Array.from(this.tests.values()).filter(test => test.status === 'active');
   }
 
+  /**
+   * Get every test, whatever its status
+   */
+  getAllTests(): ABTest[] {
+    return Array.from(this.tests.values());
+  }
+
+  /**
+   * Metrics with at least one tracked conversion, plus the primary metric
+   */
+  getTestMetrics(testId: string): string[] {
+    const metrics = new Set((this.results.get(testId) || []).map(result => result.metric));
+    const primaryMetric = this.tests.get(testId)?.primaryMetric;
+    if (primaryMetric) {
+      metrics.add(primaryMetric);
+    }
+    return Array.from(metrics);
+  }
+
+  /**
+   * Compare each variant's conversion rate on a metric with the control's
+   */
+  analyzeTest(
+    testId: string,
+    metric: string,
+    options?: ABTestAnalysisOptions
+  ): ABTestAnalysis | null {
+    const test = this.tests.get(testId);
+    if (!test) {
+      return null;
+    }
+
+    const exposedAssignments = (this.assignments.get(testId) || []).filter(a => a.exposedAt);
+    const counts = test.variants.map(variant => ({
+      variantId: variant.id,
+      isControl: variant.isControl,
+      allocation: variant.allocation,
+      exposures: exposedAssignments.filter(a => a.variantId === variant.id).length,
+      conversions: this.convertedUsers.get(this.getConversionKey(testId, metric, variant.id))?.size ?? 0,
+    }));
+
+    return analyzeABTest(counts, options);
+  }
+
+  /**
+   * Decide an active test on its primary metric once every variant has
+   * reached the sample size. The counts come from the backend, across every
+   * device, and stop at the sample size, so the test is a single look at a
+   * fixed horizon however often this runs. A test without a winner there
+   * completes too, leaving users on the control.
+   */
+  async evaluateTest(testId: string): Promise<ABTestAnalysis | null> {
+    const test = this.tests.get(testId);
+    if (!test || test.status !== 'active' || !test.sampleSize || !test.primaryMetric) {
+      return null;
+    }
+
+    const results = await getExperimentConfigService().loadResults(
+      testId,
+      test.primaryMetric,
+      test.sampleSize
+    );
+    if (!results) {
+      return null;
+    }
+
+    // Every variant is cut off at the same sample size, so the counts are
+    // checked against an even split rather than the configured allocation
+    const counts = test.variants.map(variant => {
+      const result = results.find(r => r.variantId === variant.id);
+      return {
+        variantId: variant.id,
+        isControl: variant.isControl,
+        allocation: 1,
+        exposures: result?.exposures ?? 0,
+        conversions: result?.conversions ?? 0,
+      };
+    });
+    const analysis = analyzeABTest(counts, { minSampleSize: test.sampleSize });
+    if (analysis.decision !== 'winner' && analysis.decision !== 'no_winner') {
+      return analysis;
+    }
+
+    test.winningVariantId = analysis.winnerVariantId ?? undefined;
+    test.endDate = new Date();
+    await this.updateTestStatus(testId, 'completed');
+
+    if (analysis.winnerVariantId) {
+      await this.analyticsService.trackEvent('ab_test_winner', {
+        test_id: testId,
+        variant_id: analysis.winnerVariantId,
+        metric: test.primaryMetric,
+        sample_size: test.sampleSize,
+      });
+    }
+    return analysis;
+  }
+
+  /**
+   * Subscribe to assignment, result and status changes
+   */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
   /**
    * Update test status
    */
@@ -247,12 +541,14 @@ export class ABTestingService {
         throw new Error(`Test ${testId} not found`);
       }
 
+      const oldStatus = test.status;
       test.status = status;
       this.tests.set(testId, test);
+      this.notifyListeners();
 
       await this.analyticsService.trackEvent('ab_test_status_changed', {
         test_id: testId,
-        old_status: test.status,
+        old_status: oldStatus,
         new_status: status,
       });
     } catch (error) {
@@ -284,100 +580,11 @@ export class ABTestingService {
   }
 
   /**
-   * Initialize default tests for the app
+   * Start from the experiments bundled with the app, the same document the
+   * backend serves until it is given its own
    */
   private initializeDefaultTests(): void {
-    // Example: Swipe card design test
-    const swipeCardTest: ABTest = {
-      id: 'swipe_card_design_v1',
-      name: 'Swipe Card Design Test',
-      description: 'Test different swipe card layouts for better engagement',
-      variants: [
-        {
-          id: 'control',
-          name: 'Original Design',
-          description: 'Current swipe card design',
-          allocation: 50,
-          isControl: true,
-          config: {
-            cardStyle: 'original',
-            showPrice: true,
-            showCategory: true,
-          },
-        },
-        {
-          id: 'minimal',
-          name: 'Minimal Design',
-          description: 'Simplified card with focus on image',
-          allocation: 50,
-          isControl: false,
-          config: {
-            cardStyle: 'minimal',
-            showPrice: false,
-            showCategory: false,
-          },
-        },
-      ],
-      trafficAllocation: 100,
-      startDate: new Date(),
-      status: 'active',
-    };
-
-    // Example: Onboarding flow test
-    const onboardingTest: ABTest = {
-      id: 'onboarding_flow_v1',
-      name: 'Onboarding Flow Test',
-      description: 'Test different onboarding flows for better conversion',
-      variants: [
-        {
-          id: 'control',
-          name: 'Standard Onboarding',
-          description: 'Current 3-step onboarding',
-          allocation: 33,
-          isControl: true,
-          config: {
-            steps: 3,
-            showTutorial: true,
-            requireCategorySelection: true,
-          },
-        },
-        {
-          id: 'quick',
-          name: 'Quick Onboarding',
-          description: 'Simplified 1-step onboarding',
-          allocation: 33,
-          isControl: false,
-          config: {
-            steps: 1,
-            showTutorial: false,
-            requireCategorySelection: false,
-          },
-        },
-        {
-          id: 'guided',
-          name: 'Guided Onboarding',
-          description: 'Extended 5-step guided onboarding',
-          allocation: 34,
-          isControl: false,
-          config: {
-            steps: 5,
-            showTutorial: true,
-            requireCategorySelection: true,
-            showPreferences: true,
-          },
-        },
-      ],
-      trafficAllocation: 50, // Only 50% of users
-      startDate: new Date(),
-      status: 'active',
-    };
-
-    this.tests.set(swipeCardTest.id, swipeCardTest);
-    this.tests.set(onboardingTest.id, onboardingTest);
-    this.assignments.set(swipeCardTest.id, []);
-    this.assignments.set(onboardingTest.id, []);
-    this.results.set(swipeCardTest.id, []);
-    this.results.set(onboardingTest.id, []);
+    this.applyConfig(defaultExperimentsJson as ExperimentConfigDocument);
   }
 
   /**
@@ -415,10 +622,8 @@ export class ABTestingService {
       return false;
     }
 
-    // Check audience targeting (simplified)
-    if (test.targetAudience) {
-      // In a real implementation, you would check user segments, platform, etc.
-      // For now, we'll include all users that pass traffic allocation
+    if (test.targetAudience && !matchesAudience(test.targetAudience, this.audienceContext)) {
+      return false;
     }
 
     return true;
@@ -492,28 +697,59 @@ export class ABTestingService {
     });
   }
 
+  private getConversionKey(testId: string, metric: string, variantId: string): string {
+    return `${testId}:${metric}:${variantId}`;
+  }
+
+  private notifyListeners(): void {
+    this.listeners.forEach(listener => listener());
+  }
+
   /**
-   * Update test results
+   * Record a conversion and recompute the metric's results for every
+   * variant, since new exposures change the rates of variants that did not
+   * convert this time
    */
-  private updateTestResults(testId: string, variantId: string, metric: string, value: number): void {
+  private updateTestResults(
+    testId: string,
+    variantId: string,
+    userId: string,
+    metric: string,
+    value: number
+  ): void {
+    const conversionKey = this.getConversionKey(testId, metric, variantId);
+    const converted = this.convertedUsers.get(conversionKey) || new Set<string>();
+    converted.add(userId);
+    this.convertedUsers.set(conversionKey, converted);
+
     const testResults = this.results.get(testId) || [];
-    
-    let result = testResults.find(r => r.variantId === variantId && r.metric === metric);
-    if (!result) {
-      result = {
-        testId,
-        variantId,
-        metric,
-        value: 0,
-        sampleSize: 0,
-      };
-      testResults.push(result);
-    }
+    const analysis = this.analyzeTest(testId, metric);
+
+    analysis?.variants.forEach(stats => {
+      let result = testResults.find(r => r.variantId === stats.variantId && r.metric === metric);
+      if (!result) {
+        result = {
+          testId,
+          variantId: stats.variantId,
+          metric,
+          value: 0,
+          sampleSize: 0,
+          conversions: 0,
+        };
+        testResults.push(result);
+      }
 
-    result.value += value;
-    result.sampleSize += 1;
-    result.conversionRate = result.value / result.sampleSize;
+      if (stats.variantId === variantId) {
+        result.value += value;
+      }
+      result.sampleSize = stats.exposures;
+      result.conversions = stats.conversions;
+      result.conversionRate = stats.conversionRate;
+      result.statisticalSignificance = stats.significance;
+      result.lift = stats.lift;
+    });
 
     this.results.set(testId, testResults);
+    this.notifyListeners();
   }
-}
\ No newline at end of file
+}
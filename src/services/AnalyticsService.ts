@@ -3,27 +3,40 @@
  * Requirements: 3.3, 3.4
  */
 
+import AsyncStorage from '@react-native-async-storage/async-storage';
 import { ErrorHandlingService } from './ErrorHandlingService';
+import { SyncStorage } from './DataSyncService';
+import {
+  ANALYTICS_SCHEMA_VERSION,
+  AnalyticsPayloadEvent,
+  AnalyticsTransport,
+  createDefaultAnalyticsTransport,
+} from './AnalyticsTransport';
+import { AppConfig } from '../config/env';
 import { ErrorFactory } from '../utils/ErrorFactory';
-import { ErrorType } from '../types/errors';
+import { AppError, ErrorType } from '../types/errors';
+import { SwipeActionType, SwipeDirection } from '../types';
 
 export interface AnalyticsEvent {
+  id: string;
   name: string;
   properties?: Record<string, any>;
   timestamp: Date;
   userId?: string;
   sessionId: string;
+  undone?: boolean;
 }
 
 export interface SwipeAnalytics {
   productId: string;
-  action: 'like' | 'skip';
+  action: SwipeActionType;
   category: string;
   price: number;
-  swipeDirection: 'left' | 'right';
+  swipeDirection: SwipeDirection;
   swipeVelocity?: number;
   swipeDuration?: number;
   timestamp: Date;
+  undone?: boolean;
 }
 
 export interface EngagementMetrics {
@@ -32,6 +45,8 @@ export interface EngagementMetrics {
   swipeCount: number;
   likeRate: number;
   skipRate: number;
+  superlikeRate: number;
+  cartSwipeRate: number;
   cartAdditions: number;
   detailsViews: number;
 }
@@ -44,27 +59,200 @@ export interface UserBehaviorPattern {
   conversionRate: number;
 }
 
+export interface AnalyticsServiceOptions {
+  transport?: AnalyticsTransport;
+  storage?: SyncStorage;
+  errorHandler?: ErrorHandlingService;
+  /** Defaults to AppConfig.features.analyticsEnabled */
+  enabled?: boolean;
+  /** A flush starts as soon as this many events are buffered */
+  batchSize?: number;
+  /** Most events sent in one request */
+  maxBatchSize?: number;
+  /** Buffered events are sent after this long even when the batch is not full */
+  flushIntervalMs?: number;
+  /** Oldest events are dropped once the buffer holds this many */
+  maxBufferedEvents?: number;
+}
+
+const DEFAULT_OPTIONS = {
+  batchSize: 10,
+  maxBatchSize: 50,
+  flushIntervalMs: 30 * 1000,
+  maxBufferedEvents: 1000,
+};
+
+/** Longest wait between flushes while the backend keeps failing */
+const MAX_FLUSH_BACKOFF_MS = 10 * 60 * 1000;
+
+/** Events kept in memory for the session metrics */
+const MAX_SESSION_EVENTS = 1000;
+
+const toPayloadEvent = (event: AnalyticsEvent): AnalyticsPayloadEvent => ({
+  id: event.id,
+  name: event.name,
+  timestamp: event.timestamp.toISOString(),
+  sessionId: event.sessionId,
+  userId: event.userId,
+  properties: event.properties || {},
+  undone: event.undone,
+});
+
+const DEFAULT_SWIPE_DIRECTIONS: Record<SwipeActionType, SwipeDirection> = {
+  skip: 'left',
+  like: 'right',
+  cart: 'up',
+  superlike: 'down',
+};
+
+/**
+ * Tracks events for the session metrics and, when analytics is enabled and
+ * the user has agreed to it, uploads them. Events waiting for upload are
+ * persisted, so a batch that has not gone out yet survives an app kill.
+ */
 export class AnalyticsService {
+  private static readonly BUFFER_KEY = '@swipely_analytics_buffer';
+  private static readonly CONSENT_KEY = '@swipely_analytics_consent';
   private static instance: AnalyticsService | null = null;
   private events: AnalyticsEvent[] = [];
   private sessionId: string;
   private sessionStartTime: Date;
   private swipeAnalytics: SwipeAnalytics[] = [];
   private errorHandlingService: ErrorHandlingService;
-
-  private constructor() {
+  private readonly transport: AnalyticsTransport;
+  private readonly storage: SyncStorage;
+  private readonly enabled: boolean;
+  private readonly options: typeof DEFAULT_OPTIONS;
+  private buffer: AnalyticsPayloadEvent[] = [];
+  private consentGranted = false;
+  private loading: Promise<void> | null = null;
+  private flushing: Promise<void> | null = null;
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+  private failedFlushes = 0;
+
+  private constructor(options: AnalyticsServiceOptions = {}) {
     this.sessionId = this.generateSessionId();
     this.sessionStartTime = new Date();
-    this.errorHandlingService = ErrorHandlingService.getInstance();
+    this.errorHandlingService = options.errorHandler ?? ErrorHandlingService.getInstance();
+    this.transport = options.transport ?? createDefaultAnalyticsTransport();
+    this.storage = options.storage ?? AsyncStorage;
+    this.enabled = options.enabled ?? AppConfig.features.analyticsEnabled;
+    this.options = {
+      batchSize: options.batchSize ?? DEFAULT_OPTIONS.batchSize,
+      maxBatchSize: options.maxBatchSize ?? DEFAULT_OPTIONS.maxBatchSize,
+      flushIntervalMs: options.flushIntervalMs ?? DEFAULT_OPTIONS.flushIntervalMs,
+      maxBufferedEvents: options.maxBufferedEvents ?? DEFAULT_OPTIONS.maxBufferedEvents,
+    };
   }
 
-  static getInstance(): AnalyticsService {
+  static getInstance(options?: AnalyticsServiceOptions): AnalyticsService {
     if (!AnalyticsService.instance) {
-      AnalyticsService.instance = new AnalyticsService();
+      AnalyticsService.instance = new AnalyticsService(options);
     }
     return AnalyticsService.instance;
   }
 
+  /**
+   * Reset the analytics service instance (useful for testing)
+   */
+  static resetInstance(): void {
+    AnalyticsService.instance?.clearFlushTimer();
+    AnalyticsService.instance = null;
+  }
+
+  /**
+   * Load the consent choice and any events left over from the last run
+   */
+  private initialize(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.load();
+    }
+    return this.loading;
+  }
+
+  private async load(): Promise<void> {
+    if (!this.enabled) {
+      return;
+    }
+
+    try {
+      this.consentGranted = (await this.storage.getItem(AnalyticsService.CONSENT_KEY)) === 'granted';
+      const stored = this.consentGranted
+        ? await this.storage.getItem(AnalyticsService.BUFFER_KEY)
+        : null;
+      this.buffer = stored ? JSON.parse(stored) : [];
+    } catch (error) {
+      console.error('Error loading analytics buffer:', error);
+    }
+
+    if (this.buffer.length > 0) {
+      this.scheduleFlush();
+    }
+  }
+
+  private canUpload(): boolean {
+    return this.enabled && this.consentGranted;
+  }
+
+  private async saveBuffer(): Promise<void> {
+    try {
+      await this.storage.setItem(AnalyticsService.BUFFER_KEY, JSON.stringify(this.buffer));
+    } catch (error) {
+      console.error('Error saving analytics buffer:', error);
+    }
+  }
+
+  /**
+   * Record whether the user agreed to share usage analytics. Withdrawing
+   * consent discards events that have not been sent yet.
+   */
+  async setAnalyticsConsent(granted: boolean): Promise<void> {
+    await this.initialize();
+    this.consentGranted = granted;
+    await this.storage.setItem(AnalyticsService.CONSENT_KEY, granted ? 'granted' : 'denied');
+
+    if (!granted) {
+      this.clearFlushTimer();
+      this.buffer = [];
+      await this.storage.removeItem(AnalyticsService.BUFFER_KEY);
+    }
+  }
+
+  async hasAnalyticsConsent(): Promise<boolean> {
+    await this.initialize();
+    return this.consentGranted;
+  }
+
+  /**
+   * Whether this build uploads analytics at all; consent is asked only then
+   */
+  isAnalyticsEnabled(): boolean {
+    return this.enabled;
+  }
+
+  /**
+   * Add an event to the upload buffer, dropping the oldest once it is full
+   */
+  private async bufferEvent(event: AnalyticsEvent): Promise<void> {
+    await this.initialize();
+    if (!this.canUpload()) {
+      return;
+    }
+
+    this.buffer.push(toPayloadEvent(event));
+    if (this.buffer.length > this.options.maxBufferedEvents) {
+      this.buffer.splice(0, this.buffer.length - this.options.maxBufferedEvents);
+    }
+    await this.saveBuffer();
+
+    // Tracking never waits on the network
+    if (this.buffer.length >= this.options.batchSize) {
+      this.flushEvents().catch(error => console.error('Error flushing analytics events:', error));
+    } else {
+      this.scheduleFlush();
+    }
+  }
+
   /**
    * Track a generic analytics event
    */
@@ -75,6 +263,7 @@ export class AnalyticsService {
   ): Promise<void> {
     try {
       const event: AnalyticsEvent = {
+        id: `event_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
         name: eventName,
         properties: properties || {},
         timestamp: new Date(),
@@ -83,14 +272,11 @@ export class AnalyticsService {
       };
 
       this.events.push(event);
-
-      // In production, this would send to analytics service (Firebase, Mixpanel, etc.)
-      console.log('Analytics Event:', event);
-
-      // Batch send events periodically
-      if (this.events.length >= 10) {
-        await this.flushEvents();
+      if (this.events.length > MAX_SESSION_EVENTS) {
+        this.events.shift();
       }
+
+      await this.bufferEvent(event);
     } catch (error) {
       await this.errorHandlingService.handleError(
         ErrorFactory.createAppError(
@@ -110,11 +296,11 @@ export class AnalyticsService {
    */
   async trackSwipe(
     productId: string,
-    action: 'like' | 'skip',
+    action: SwipeActionType,
     category: string,
     price: number,
     swipeMetrics?: {
-      direction: 'left' | 'right';
+      direction: SwipeDirection;
       velocity?: number;
       duration?: number;
     },
@@ -126,7 +312,7 @@ export class AnalyticsService {
         action,
         category,
         price,
-        swipeDirection: swipeMetrics?.direction || (action === 'like' ? 'right' : 'left'),
+        swipeDirection: swipeMetrics?.direction || DEFAULT_SWIPE_DIRECTIONS[action],
         swipeVelocity: swipeMetrics?.velocity,
         swipeDuration: swipeMetrics?.duration,
         timestamp: new Date(),
@@ -166,6 +352,65 @@ export class AnalyticsService {
     }
   }
 
+  /**
+   * Mark the most recent swipe on a product as undone.
+   * The swipe and its buffered events are kept (flagged, not deleted) and a
+   * swipe_undo event is tracked so already-flushed events can be reconciled.
+   */
+  async markSwipeUndone(productId: string, userId?: string): Promise<boolean> {
+    try {
+      const swipe = [...this.swipeAnalytics]
+        .reverse()
+        .find(s => s.productId === productId && !s.undone);
+
+      if (!swipe) {
+        return false;
+      }
+
+      swipe.undone = true;
+
+      let bufferChanged = false;
+      ['product_swipe', `swipe_${swipe.action}`].forEach(eventName => {
+        const event = [...this.events]
+          .reverse()
+          .find(e => e.name === eventName && e.properties?.product_id === productId && !e.undone);
+        if (event) {
+          event.undone = true;
+          const buffered = this.buffer.find(e => e.id === event.id);
+          if (buffered) {
+            buffered.undone = true;
+            bufferChanged = true;
+          }
+        }
+      });
+      // A restart before the next flush must still send the swipe as undone
+      if (bufferChanged) {
+        await this.saveBuffer();
+      }
+
+      await this.trackEvent('swipe_undo', {
+        product_id: productId,
+        action: swipe.action,
+        category: swipe.category,
+        swiped_at: swipe.timestamp.toISOString(),
+      }, userId);
+
+      return true;
+    } catch (error) {
+      await this.errorHandlingService.handleError(
+        ErrorFactory.createAppError(
+          ErrorType.UNKNOWN_ERROR,
+          'Failed to mark swipe as undone',
+          {
+            context: { productId },
+            originalError: error instanceof Error ? error : undefined,
+          }
+        )
+      );
+      return false;
+    }
+  }
+
   /**
    * Track user engagement metrics
    */
@@ -234,9 +479,10 @@ export class AnalyticsService {
    * Get swipe patterns and analytics
    */
   getSwipePatterns(userId?: string): UserBehaviorPattern {
+    const activeSwipes = this.getActiveSwipes();
     const userSwipes = userId 
-      ? this.swipeAnalytics.filter(s => this.events.some(e => e.userId === userId))
-      : this.swipeAnalytics;
+      ? activeSwipes.filter(s => this.events.some(e => e.userId === userId))
+      : activeSwipes;
 
     const totalSwipes = userSwipes.length;
     const likes = userSwipes.filter(s => s.action === 'like').length;
@@ -245,7 +491,7 @@ export class AnalyticsService {
     // Calculate preferred categories
     const categoryCount: Record<string, number> = {};
     userSwipes.forEach(swipe => {
-      if (swipe.action === 'like') {
+      if (swipe.action !== 'skip') {
         categoryCount[swipe.category] = (categoryCount[swipe.category] || 0) + 1;
       }
     });
@@ -279,9 +525,12 @@ export class AnalyticsService {
     const sessionEvents = this.events.filter(e => e.sessionId === this.sessionId);
     
     const productsViewed = sessionEvents.filter(e => e.name === 'engagement_product_view').length;
-    const swipeCount = this.swipeAnalytics.length;
-    const likes = this.swipeAnalytics.filter(s => s.action === 'like').length;
-    const skips = this.swipeAnalytics.filter(s => s.action === 'skip').length;
+    const activeSwipes = this.getActiveSwipes();
+    const swipeCount = activeSwipes.length;
+    const likes = activeSwipes.filter(s => s.action === 'like').length;
+    const skips = activeSwipes.filter(s => s.action === 'skip').length;
+    const superlikes = activeSwipes.filter(s => s.action === 'superlike').length;
+    const cartSwipes = activeSwipes.filter(s => s.action === 'cart').length;
     const cartAdditions = sessionEvents.filter(e => e.name === 'engagement_cart_add').length;
     const detailsViews = sessionEvents.filter(e => e.name === 'engagement_details_view').length;
 
@@ -291,37 +540,85 @@ export class AnalyticsService {
       swipeCount,
       likeRate: swipeCount > 0 ? likes / swipeCount : 0,
       skipRate: swipeCount > 0 ? skips / swipeCount : 0,
+      superlikeRate: swipeCount > 0 ? superlikes / swipeCount : 0,
+      cartSwipeRate: swipeCount > 0 ? cartSwipes / swipeCount : 0,
       cartAdditions,
       detailsViews,
     };
   }
 
   /**
-   * Flush events to analytics service
+   * Send buffered events in batches. Concurrent calls share one flush.
    */
   async flushEvents(): Promise<void> {
-    try {
-      if (this.events.length === 0) return;
-
-      // In production, this would send to analytics service
-      console.log('Flushing analytics events:', this.events.length);
-      
-      // Simulate API call
-      await new Promise(resolve => setTimeout(resolve, 100));
-      
-      // Clear events after successful send
-      this.events = [];
-    } catch (error) {
-      await this.errorHandlingService.handleError(
-        ErrorFactory.createAppError(
-          ErrorType.NETWORK_ERROR,
-          'Failed to flush analytics events',
-          {
-            context: { eventCount: this.events.length },
-            originalError: error instanceof Error ? error : undefined,
-          }
-        )
-      );
+    if (!this.flushing) {
+      this.flushing = this.runFlush().finally(() => {
+        this.flushing = null;
+      });
+    }
+    return this.flushing;
+  }
+
+  private async runFlush(): Promise<void> {
+    this.clearFlushTimer();
+    await this.initialize();
+
+    while (this.buffer.length > 0 && this.canUpload()) {
+      const batch = this.buffer.slice(0, this.options.maxBatchSize);
+
+      try {
+        await this.errorHandlingService.executeWithRetry(
+          () =>
+            this.transport.send({
+              schemaVersion: ANALYTICS_SCHEMA_VERSION,
+              sentAt: new Date().toISOString(),
+              events: batch,
+            }),
+          'analytics:flush',
+          { eventCount: batch.length }
+        );
+        this.failedFlushes = 0;
+      } catch (error) {
+        if ((error as Partial<AppError> | undefined)?.retryable) {
+          // executeWithRetry has reported it; keep the batch for the next flush
+          this.failedFlushes += 1;
+          this.scheduleFlush();
+          return;
+        }
+        // A rejected batch would be rejected again on every retry
+        console.warn(`Dropped ${batch.length} analytics events the server rejected`);
+      }
+
+      // Events tracked during the send stay buffered
+      const sentIds = new Set(batch.map(event => event.id));
+      this.buffer = this.buffer.filter(event => !sentIds.has(event.id));
+      await this.saveBuffer();
+    }
+  }
+
+  /**
+   * Send a partial batch after the flush interval, backing off while the
+   * backend keeps failing
+   */
+  private scheduleFlush(): void {
+    if (this.flushTimer) {
+      return;
+    }
+
+    const delay = Math.min(
+      this.options.flushIntervalMs * Math.pow(2, this.failedFlushes),
+      Math.max(MAX_FLUSH_BACKOFF_MS, this.options.flushIntervalMs)
+    );
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = null;
+      this.flushEvents().catch(error => console.error('Error flushing analytics events:', error));
+    }, delay);
+  }
+
+  private clearFlushTimer(): void {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
     }
   }
 
@@ -334,6 +631,13 @@ export class AnalyticsService {
     this.swipeAnalytics = [];
   }
 
+  /**
+   * Swipes that have not been undone
+   */
+  private getActiveSwipes(): SwipeAnalytics[] {
+    return this.swipeAnalytics.filter(s => !s.undone);
+  }
+
   /**
    * Get current session duration in seconds
    */
@@ -390,9 +694,10 @@ export class AnalyticsService {
     sessionDuration: number;
     topCategories: string[];
   } {
+    const activeSwipes = this.getActiveSwipes();
     const categoryCount: Record<string, number> = {};
-    this.swipeAnalytics.forEach(swipe => {
-      if (swipe.action === 'like') {
+    activeSwipes.forEach(swipe => {
+      if (swipe.action !== 'skip') {
         categoryCount[swipe.category] = (categoryCount[swipe.category] || 0) + 1;
       }
     });
@@ -404,7 +709,7 @@ export class AnalyticsService {
 
     return {
       totalEvents: this.events.length,
-      totalSwipes: this.swipeAnalytics.length,
+      totalSwipes: activeSwipes.length,
       sessionDuration: this.getSessionDuration(),
       topCategories,
     };
@@ -0,0 +1,79 @@
+import { AppConfig } from '../config/env';
+import { ErrorFactory } from '../utils/ErrorFactory';
+
+/**
+ * Version of the payload sent to the ingest route. Bump it whenever the
+ * event shape changes so the backend can tell old app builds apart.
+ */
+export const ANALYTICS_SCHEMA_VERSION = 1;
+
+/**
+ * An analytics event as it travels over the wire
+ */
+export interface AnalyticsPayloadEvent {
+  id: string;
+  name: string;
+  timestamp: string;
+  sessionId: string;
+  userId?: string;
+  properties: Record<string, any>;
+  undone?: boolean;
+}
+
+export interface AnalyticsPayload {
+  schemaVersion: number;
+  sentAt: string;
+  events: AnalyticsPayloadEvent[];
+}
+
+/**
+ * Analytics transport interface: delivers one batch or throws. Errors are
+ * AppErrors so the caller can tell a retryable failure from a rejected batch.
+ */
+export interface AnalyticsTransport {
+  send(payload: AnalyticsPayload): Promise<void>;
+}
+
+/**
+ * Sends batches to the backend /analytics/events route
+ */
+export class HttpAnalyticsTransport implements AnalyticsTransport {
+  constructor(private readonly url: string = `${AppConfig.api.baseUrl}/analytics/events`) {}
+
+  async send(payload: AnalyticsPayload): Promise<void> {
+    let response: Response;
+    try {
+      response = await fetch(this.url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(payload),
+      });
+    } catch (error) {
+      throw ErrorFactory.createNetworkError('Failed to send analytics events', {
+        endpoint: this.url,
+        method: 'POST',
+        originalError: error instanceof Error ? error : undefined,
+      });
+    }
+
+    if (!response.ok) {
+      throw ErrorFactory.createNetworkError(`Failed to send analytics events: ${response.status}`, {
+        statusCode: response.status,
+        endpoint: this.url,
+        method: 'POST',
+      });
+    }
+  }
+}
+
+/**
+ * Logs batches instead of sending them, for builds without a backend
+ */
+export class ConsoleAnalyticsTransport implements AnalyticsTransport {
+  async send(payload: AnalyticsPayload): Promise<void> {
+    console.log('Analytics batch:', payload.events.length, 'events', payload);
+  }
+}
+
+export const createDefaultAnalyticsTransport = (): AnalyticsTransport =>
+  AppConfig.api.baseUrl ? new HttpAnalyticsTransport() : new ConsoleAnalyticsTransport();
@@ -1,20 +1,35 @@
 import AsyncStorage from "@react-native-async-storage/async-storage";
 import { CartItem, ProductCard } from "../types";
 import { ProductDetailsService } from "./ProductDetailsService";
+import { dataSyncService, DataSyncService, SyncStorage } from "./DataSyncService";
+import {
+  findVariant,
+  getCartLineId,
+  VariantSelection,
+} from "../utils/productVariants";
 
 /**
  * Cart service interface for managing shopping cart functionality
  * Requirements: 3.7, 5.3
  */
 export interface CartService {
-  addToCart(productId: string, quantity?: number): Promise<void>;
-  removeFromCart(productId: string): Promise<void>;
-  updateQuantity(productId: string, quantity: number): Promise<void>;
+  addToCart(productId: string, quantity?: number, selectedVariants?: VariantSelection): Promise<void>;
+  /** Lines are addressed by getCartLineId; that is the product ID for lines without variants */
+  removeFromCart(lineId: string): Promise<void>;
+  updateQuantity(lineId: string, quantity: number): Promise<void>;
   getCartItems(): Promise<CartItem[]>;
   getCartItemsWithDetails(): Promise<(CartItem & { product: ProductCard })[]>;
   clearCart(): Promise<void>;
   getCartCount(): Promise<number>;
   syncWithBackend(): Promise<void>;
+  /** Replace the cart with a copy synced from another device */
+  applySyncedData(data: { items?: CartItem[] }): Promise<void>;
+}
+
+export interface CartServiceOptions {
+  storage?: SyncStorage;
+  /** Where the cart's own edits are recorded for other devices */
+  syncService?: Pick<DataSyncService, "recordChange">;
 }
 
 /**
@@ -26,9 +41,13 @@ export class CartServiceImpl implements CartService {
   private static readonly SYNC_TIMESTAMP_KEY = "@swipely_cart_sync";
   private cartItems: CartItem[] = [];
   private isInitialized = false;
+  private readonly storage: SyncStorage;
+  private readonly syncService: Pick<DataSyncService, "recordChange">;
 
-  constructor() {
+  constructor(options: CartServiceOptions = {}) {
     // Don't call initialize here since it's async
+    this.storage = options.storage ?? AsyncStorage;
+    this.syncService = options.syncService ?? dataSyncService;
   }
 
   /**
@@ -39,18 +58,13 @@ export class CartServiceImpl implements CartService {
 
     try {
       console.log('Initializing cart service...');
-      const storedCart = await AsyncStorage.getItem(
+      const storedCart = await this.storage.getItem(
         CartServiceImpl.CART_STORAGE_KEY
       );
       console.log('Stored cart data:', storedCart);
       
       if (storedCart) {
-        this.cartItems = JSON.parse(storedCart);
-        // Convert date strings back to Date objects
-        this.cartItems = this.cartItems.map((item) => ({
-          ...item,
-          addedAt: new Date(item.addedAt),
-        }));
+        this.cartItems = this.reviveItems(JSON.parse(storedCart));
         console.log('Loaded cart items from storage:', this.cartItems.length);
       } else {
         console.log('No stored cart data found');
@@ -63,37 +77,94 @@ export class CartServiceImpl implements CartService {
     }
   }
 
+  /**
+   * Convert date strings back to Date objects
+   */
+  private reviveItems(items: CartItem[]): CartItem[] {
+    return items.map((item) => ({
+      ...item,
+      addedAt: new Date(item.addedAt),
+    }));
+  }
+
   /**
    * Save cart items to local storage
    */
   private async saveToStorage(): Promise<void> {
     try {
       console.log('Saving cart to storage:', this.cartItems.length, 'items');
-      await AsyncStorage.setItem(
+      await this.storage.setItem(
         CartServiceImpl.CART_STORAGE_KEY,
         JSON.stringify(this.cartItems)
       );
       console.log('Successfully saved cart to storage');
+      // Other devices pick the edit up on the next sync
+      await this.syncService.recordChange("cart_items", { items: this.cartItems });
     } catch (error) {
       console.error("Failed to save cart to storage:", error);
       throw new Error("Failed to save cart data");
     }
   }
 
+  /**
+   * Find the index of a cart line
+   */
+  private findLineIndex(lineId: string): number {
+    return this.cartItems.findIndex(
+      (item) => getCartLineId(item.productId, item.selectedVariants) === lineId
+    );
+  }
+
+  /**
+   * Make sure the selected variant exists and has enough stock
+   */
+  private async assertVariantStock(
+    productId: string,
+    selectedVariants: VariantSelection,
+    quantity: number
+  ): Promise<void> {
+    const product = await ProductDetailsService.getProductDetails(productId);
+    const variant = findVariant(product, selectedVariants);
+
+    if (!variant) {
+      throw new Error("Selected variant is not available");
+    }
+
+    if (quantity > variant.stock) {
+      throw new Error(
+        variant.stock > 0
+          ? `Only ${variant.stock} left in stock`
+          : "Selected variant is out of stock"
+      );
+    }
+  }
+
   /**
    * Add a product to the cart
    * Requirements: 3.7
    */
-  async addToCart(productId: string, quantity: number = 1): Promise<void> {
+  async addToCart(
+    productId: string,
+    quantity: number = 1,
+    selectedVariants?: VariantSelection
+  ): Promise<void> {
     await this.initialize();
 
     if (quantity <= 0) {
       throw new Error("Quantity must be greater than 0");
     }
 
-    const existingItemIndex = this.cartItems.findIndex(
-      (item) => item.productId === productId
+    const existingItemIndex = this.findLineIndex(
+      getCartLineId(productId, selectedVariants)
     );
+    const hasVariantSelection =
+      !!selectedVariants && Object.keys(selectedVariants).length > 0;
+
+    if (hasVariantSelection) {
+      const quantityInCart =
+        existingItemIndex >= 0 ? this.cartItems[existingItemIndex].quantity : 0;
+      await this.assertVariantStock(productId, selectedVariants, quantityInCart + quantity);
+    }
 
     if (existingItemIndex >= 0) {
       // Update existing item quantity
@@ -104,7 +175,7 @@ export class CartServiceImpl implements CartService {
         productId,
         quantity,
         addedAt: new Date(),
-        selectedVariants: {},
+        selectedVariants: selectedVariants ? { ...selectedVariants } : {},
       };
       this.cartItems.push(newItem);
     }
@@ -118,15 +189,15 @@ export class CartServiceImpl implements CartService {
   }
 
   /**
-   * Remove a product from the cart
+   * Remove a line from the cart
    * Requirements: 5.3
    */
-  async removeFromCart(productId: string): Promise<void> {
+  async removeFromCart(lineId: string): Promise<void> {
     await this.initialize();
 
     const initialLength = this.cartItems.length;
     this.cartItems = this.cartItems.filter(
-      (item) => item.productId !== productId
+      (item) => getCartLineId(item.productId, item.selectedVariants) !== lineId
     );
 
     if (this.cartItems.length === initialLength) {
@@ -142,10 +213,10 @@ export class CartServiceImpl implements CartService {
   }
 
   /**
-   * Update the quantity of a product in the cart
+   * Update the quantity of a cart line
    * Requirements: 5.3
    */
-  async updateQuantity(productId: string, quantity: number): Promise<void> {
+  async updateQuantity(lineId: string, quantity: number): Promise<void> {
     await this.initialize();
 
     if (quantity < 0) {
@@ -153,18 +224,25 @@ export class CartServiceImpl implements CartService {
     }
 
     if (quantity === 0) {
-      await this.removeFromCart(productId);
+      await this.removeFromCart(lineId);
       return;
     }
 
-    const itemIndex = this.cartItems.findIndex(
-      (item) => item.productId === productId
-    );
+    const itemIndex = this.findLineIndex(lineId);
 
     if (itemIndex === -1) {
       throw new Error("Product not found in cart");
     }
 
+    const item = this.cartItems[itemIndex];
+    if (
+      quantity > item.quantity &&
+      item.selectedVariants &&
+      Object.keys(item.selectedVariants).length > 0
+    ) {
+      await this.assertVariantStock(item.productId, item.selectedVariants, quantity);
+    }
+
     this.cartItems[itemIndex].quantity = quantity;
     await this.saveToStorage();
 
@@ -254,6 +332,19 @@ export class CartServiceImpl implements CartService {
     return this.cartItems.reduce((total, item) => total + item.quantity, 0);
   }
 
+  /**
+   * Replace the cart with a copy synced from another device. The copy is
+   * already recorded, so it is saved without recording a new edit.
+   */
+  async applySyncedData(data: { items?: CartItem[] }): Promise<void> {
+    this.cartItems = this.reviveItems(data.items ?? []);
+    this.isInitialized = true;
+    await this.storage.setItem(
+      CartServiceImpl.CART_STORAGE_KEY,
+      JSON.stringify(this.cartItems)
+    );
+  }
+
   /**
    * Synchronize cart data with backend API
    * Requirements: 5.3
@@ -262,7 +353,7 @@ export class CartServiceImpl implements CartService {
     try {
       // In a real implementation, this would make API calls to sync cart data
       // For now, we'll just update the sync timestamp
-      await AsyncStorage.setItem(
+      await this.storage.setItem(
         CartServiceImpl.SYNC_TIMESTAMP_KEY,
         new Date().toISOString()
       );
@@ -279,7 +370,7 @@ export class CartServiceImpl implements CartService {
    */
   async getLastSyncTimestamp(): Promise<Date | null> {
     try {
-      const timestamp = await AsyncStorage.getItem(
+      const timestamp = await this.storage.getItem(
         CartServiceImpl.SYNC_TIMESTAMP_KEY
       );
       return timestamp ? new Date(timestamp) : null;
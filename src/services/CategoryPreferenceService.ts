@@ -1,5 +1,6 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { ProductCategory, CategoryPreferences } from '../types';
+import { dataSyncService } from './DataSyncService';
 
 const CATEGORY_PREFERENCES_KEY = '@swipely_category_preferences';
 const AVAILABLE_CATEGORIES_KEY = '@swipely_available_categories';
@@ -71,12 +72,28 @@ export class CategoryPreferenceService {
       };
       
       await AsyncStorage.setItem(CATEGORY_PREFERENCES_KEY, JSON.stringify(toStore));
+      await dataSyncService.recordChange('user_preferences', toStore);
     } catch (error) {
       console.error('Error saving user preferences:', error);
       throw new Error('Failed to save user preferences');
     }
   }
 
+  /**
+   * Replace preferences with a copy synced from another device, without
+   * recording it as a new edit
+   */
+  static async applySyncedPreferences(data: {
+    selectedCategories?: string[];
+    lastUpdated?: string;
+  }): Promise<void> {
+    const toStore = {
+      selectedCategories: data.selectedCategories || [],
+      lastUpdated: data.lastUpdated ?? new Date().toISOString(),
+    };
+    await AsyncStorage.setItem(CATEGORY_PREFERENCES_KEY, JSON.stringify(toStore));
+  }
+
   /**
    * Clear user's category preferences
    */
@@ -10,16 +10,68 @@ import {
   CheckoutState,
   CheckoutStep,
   CartCalculation,
+  ShippingMethodId,
+  ValidationResult,
 } from '../types/checkout';
 import {
   validateCartItems,
   validateShippingAddress,
   validatePaymentMethod,
 } from '../utils/checkoutValidation';
+import { getCartLineId } from '../utils/productVariants';
+import { getPricingService } from './PricingService';
 
-const CHECKOUT_STEPS: CheckoutStep[] = ['cart', 'shipping', 'payment', 'confirmation'];
-const TAX_RATE = 0.08; // 8% tax
-const SHIPPING_COST = 9.99; // Flat rate shipping
+export const CHECKOUT_STEPS: CheckoutStep[] = ['cart', 'shipping', 'payment', 'confirmation'];
+
+/**
+ * Cart line ID of a checkout item, matching the line it came from in the cart
+ */
+export const getCheckoutLineId = (item: CartItem): string =>
+  getCartLineId(item.productId, item.selectedVariants);
+
+/**
+ * Calculate subtotal, tax, shipping and total for a set of checkout items.
+ * Without an address the default tax rate applies.
+ */
+export const calculateCartTotals = (
+  cartItems: CartItem[],
+  options: { shippingAddress?: ShippingAddress; shippingMethod?: ShippingMethodId } = {}
+): CartCalculation =>
+  getPricingService().calculateTotals({ items: cartItems, ...options });
+
+/**
+ * Validate the data required to leave the current checkout step
+ */
+export const validateCheckoutStep = (state: CheckoutState): ValidationResult => {
+  switch (state.currentStep) {
+    case 'cart':
+      return validateCartItems(state.cartItems);
+
+    case 'shipping':
+      if (!state.shippingAddress) {
+        return {
+          isValid: false,
+          errors: { shipping: 'Shipping address is required' },
+        };
+      }
+      return validateShippingAddress(state.shippingAddress);
+
+    case 'payment':
+      if (!state.paymentMethod) {
+        return {
+          isValid: false,
+          errors: { payment: 'Payment method is required' },
+        };
+      }
+      return validatePaymentMethod(state.paymentMethod);
+
+    case 'confirmation':
+      return { isValid: true, errors: {} };
+
+    default:
+      return { isValid: false, errors: { step: 'Invalid checkout step' } };
+  }
+};
 
 export class CheckoutService {
   private static state: CheckoutState = {
@@ -48,12 +100,12 @@ export class CheckoutService {
   /**
    * Add or update a cart item
    */
-  static updateCartItem(productId: string, quantity: number): CheckoutState {
-    const existingItem = this.state.cartItems.find(item => item.productId === productId);
+  static updateCartItem(lineId: string, quantity: number): CheckoutState {
+    const existingItem = this.state.cartItems.find(item => getCheckoutLineId(item) === lineId);
 
     if (existingItem) {
       if (quantity <= 0) {
-        this.state.cartItems = this.state.cartItems.filter(item => item.productId !== productId);
+        this.state.cartItems = this.state.cartItems.filter(item => getCheckoutLineId(item) !== lineId);
       } else {
         existingItem.quantity = quantity;
       }
@@ -65,8 +117,8 @@ export class CheckoutService {
   /**
    * Remove a cart item
    */
-  static removeCartItem(productId: string): CheckoutState {
-    this.state.cartItems = this.state.cartItems.filter(item => item.productId !== productId);
+  static removeCartItem(lineId: string): CheckoutState {
+    this.state.cartItems = this.state.cartItems.filter(item => getCheckoutLineId(item) !== lineId);
     return this.getState();
   }
 
@@ -86,6 +138,14 @@ export class CheckoutService {
     return this.getState();
   }
 
+  /**
+   * Set shipping method
+   */
+  static setShippingMethod(method: ShippingMethodId): CheckoutState {
+    this.state.shippingMethod = method;
+    return this.getState();
+  }
+
   /**
    * Set payment method
    */
@@ -132,56 +192,16 @@ export class CheckoutService {
   /**
    * Validate current step
    */
-  static validateCurrentStep(): { isValid: boolean; errors: Record<string, string> } {
-    switch (this.state.currentStep) {
-      case 'cart':
-        return validateCartItems(this.state.cartItems);
-
-      case 'shipping':
-        if (!this.state.shippingAddress) {
-          return {
-            isValid: false,
-            errors: { shipping: 'Shipping address is required' },
-          };
-        }
-        return validateShippingAddress(this.state.shippingAddress);
-
-      case 'payment':
-        if (!this.state.paymentMethod) {
-          return {
-            isValid: false,
-            errors: { payment: 'Payment method is required' },
-          };
-        }
-        return validatePaymentMethod(this.state.paymentMethod);
-
-      case 'confirmation':
-        return { isValid: true, errors: {} };
-
-      default:
-        return { isValid: false, errors: { step: 'Invalid checkout step' } };
-    }
+  static validateCurrentStep(): ValidationResult {
+    return validateCheckoutStep(this.state);
   }
 
   /**
    * Calculate cart totals
    */
   static calculateTotals(): CartCalculation {
-    const subtotal = this.state.cartItems.reduce(
-      (sum, item) => sum + item.price * item.quantity,
-      0
-    );
-
-    const tax = parseFloat((subtotal * TAX_RATE).toFixed(2));
-    const shipping = this.state.cartItems.length > 0 ? SHIPPING_COST : 0;
-    const total = parseFloat((subtotal + tax + shipping).toFixed(2));
-
-    return {
-      subtotal: parseFloat(subtotal.toFixed(2)),
-      tax,
-      shipping,
-      total,
-    };
+    const { cartItems, shippingAddress, shippingMethod } = this.state;
+    return calculateCartTotals(cartItems, { shippingAddress, shippingMethod });
   }
 
   /**
@@ -0,0 +1,184 @@
+import { AppConfig } from '../config/env';
+
+export type ConnectivityListener = (isOnline: boolean) => void;
+
+export interface ConnectivityMonitorOptions {
+  /** Route probed to decide whether the backend is reachable */
+  healthUrl?: string;
+  /** Time between probes while online */
+  checkIntervalMs?: number;
+  /** First retry delay after a failed probe; doubles on each further failure */
+  retryDelayMs?: number;
+  maxRetryDelayMs?: number;
+  /** A probe with no answer within this time counts as a failure */
+  timeoutMs?: number;
+}
+
+/**
+ * Connectivity monitor interface. Listeners are only called on transitions.
+ */
+export interface ConnectivityMonitor {
+  start(): void;
+  stop(): void;
+  checkNow(): Promise<boolean>;
+  isOnline(): boolean;
+  subscribe(listener: ConnectivityListener): () => void;
+}
+
+const DEFAULT_OPTIONS: Required<Omit<ConnectivityMonitorOptions, 'healthUrl'>> = {
+  checkIntervalMs: 30 * 1000,
+  retryDelayMs: 2 * 1000,
+  maxRetryDelayMs: 60 * 1000,
+  timeoutMs: 5 * 1000,
+};
+
+/**
+ * Implementation of ConnectivityMonitor that probes the backend /health route.
+ * Without an API base URL there is nothing to probe and the app stays online.
+ */
+export class ConnectivityMonitorImpl implements ConnectivityMonitor {
+  private readonly healthUrl: string;
+  private readonly options: Required<Omit<ConnectivityMonitorOptions, 'healthUrl'>>;
+  private listeners = new Set<ConnectivityListener>();
+  private online = true;
+  private consecutiveFailures = 0;
+  private running = false;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private probing: Promise<boolean> | null = null;
+
+  constructor(options: ConnectivityMonitorOptions = {}) {
+    this.healthUrl =
+      options.healthUrl ?? (AppConfig.api.baseUrl ? `${AppConfig.api.baseUrl}/health` : '');
+    this.options = {
+      checkIntervalMs: options.checkIntervalMs ?? DEFAULT_OPTIONS.checkIntervalMs,
+      retryDelayMs: options.retryDelayMs ?? DEFAULT_OPTIONS.retryDelayMs,
+      maxRetryDelayMs: options.maxRetryDelayMs ?? DEFAULT_OPTIONS.maxRetryDelayMs,
+      timeoutMs: options.timeoutMs ?? DEFAULT_OPTIONS.timeoutMs,
+    };
+  }
+
+  start(): void {
+    if (this.running || !this.healthUrl) {
+      return;
+    }
+    this.running = true;
+    this.checkNow().catch(error => console.error('Error checking connectivity:', error));
+  }
+
+  stop(): void {
+    this.running = false;
+    this.clearTimer();
+  }
+
+  isOnline(): boolean {
+    return this.online;
+  }
+
+  subscribe(listener: ConnectivityListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Probe now instead of waiting for the next scheduled check. Concurrent
+   * calls share one probe.
+   */
+  async checkNow(): Promise<boolean> {
+    if (!this.healthUrl) {
+      return this.online;
+    }
+
+    if (!this.probing) {
+      this.probing = this.probe().finally(() => {
+        this.probing = null;
+      });
+    }
+
+    const reachable = await this.probing;
+    this.consecutiveFailures = reachable ? 0 : this.consecutiveFailures + 1;
+    this.setOnline(reachable);
+    this.scheduleNextCheck();
+    return reachable;
+  }
+
+  private async probe(): Promise<boolean> {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), this.options.timeoutMs);
+
+    try {
+      const response = await fetch(this.healthUrl, {
+        method: 'GET',
+        signal: controller.signal,
+      });
+      return response.ok;
+    } catch {
+      return false;
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+
+  /**
+   * Steady interval while online; exponential backoff while offline so a
+   * device with no signal does not keep probing every few seconds
+   */
+  private getNextDelay(): number {
+    if (this.consecutiveFailures === 0) {
+      return this.options.checkIntervalMs;
+    }
+    return Math.min(
+      this.options.retryDelayMs * Math.pow(2, this.consecutiveFailures - 1),
+      this.options.maxRetryDelayMs
+    );
+  }
+
+  private scheduleNextCheck(): void {
+    this.clearTimer();
+    if (!this.running) {
+      return;
+    }
+    this.timer = setTimeout(() => {
+      this.checkNow().catch(error => console.error('Error checking connectivity:', error));
+    }, this.getNextDelay());
+  }
+
+  private clearTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private setOnline(online: boolean): void {
+    if (online === this.online) {
+      return;
+    }
+    this.online = online;
+    this.listeners.forEach(listener => listener(online));
+  }
+}
+
+/**
+ * Singleton instance of the connectivity monitor
+ */
+let connectivityMonitorInstance: ConnectivityMonitor | null = null;
+
+/**
+ * Get the singleton instance of the connectivity monitor
+ */
+export const getConnectivityMonitor = (): ConnectivityMonitor => {
+  if (!connectivityMonitorInstance) {
+    connectivityMonitorInstance = new ConnectivityMonitorImpl();
+  }
+  return connectivityMonitorInstance;
+};
+
+/**
+ * Reset the connectivity monitor instance (useful for testing)
+ */
+export const resetConnectivityMonitor = (): void => {
+  connectivityMonitorInstance?.stop();
+  connectivityMonitorInstance = null;
+};
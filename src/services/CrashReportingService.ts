@@ -3,17 +3,46 @@
  * Requirements: 3.3, 3.4
  */
 
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Dimensions, Platform } from 'react-native';
+import { AppConfig } from '../config/env';
 import { AppError, ErrorType, ErrorSeverity } from '../types/errors';
+import { SyncStorage } from './DataSyncService';
 
 export interface CrashReport {
   id: string;
   timestamp: Date;
-  error: AppError;
+  error: CrashReportError;
   stackTrace?: string;
   deviceInfo: DeviceInfo;
   appInfo: AppInfo;
   userInfo?: UserInfo;
   breadcrumbs: Breadcrumb[];
+  /** Hash of the error type and top stack frames; repeats of a crash share it */
+  fingerprint: string;
+  isFatal: boolean;
+  /** Times the crash happened before the report was uploaded */
+  occurrences: number;
+  lastOccurredAt: Date;
+  /** Sanitized app state when the crash happened */
+  state?: any;
+  /** Set once the backend accepted the report */
+  uploadedAt?: Date;
+  /** Why the backend refused the report; it is not uploaded again */
+  rejectionReason?: string;
+}
+
+/**
+ * The error as stored. Error fields are not enumerable, so an AppError
+ * would lose its message and stack in JSON.
+ */
+export interface CrashReportError {
+  name: string;
+  message: string;
+  type: ErrorType;
+  severity: ErrorSeverity;
+  code?: string;
+  context?: Record<string, any>;
 }
 
 export interface DeviceInfo {
@@ -57,8 +86,79 @@ export interface PerformanceMetric {
   context?: Record<string, any>;
 }
 
+export interface CrashReportingServiceOptions {
+  storage?: SyncStorage;
+  /** Full URL of the crash ingest route */
+  uploadUrl?: string;
+  /** Defaults to AppConfig.features.crashReportingEnabled */
+  uploadEnabled?: boolean;
+}
+
+const STORAGE_KEY = '@swipely_crash_reports';
+const MAX_STORED_REPORTS = 20;
+// Characters of JSON per upload. The backend takes 1 MB, and even text that
+// is all multi-byte characters stays under it.
+const MAX_UPLOAD_BATCH_LENGTH = 256 * 1024;
+const FINGERPRINT_FRAMES = 5;
+// How long a fatal crash may hold up the default handler while the report is
+// written. AsyncStorage has no synchronous write, so a report whose write
+// takes longer, or a native crash that kills the process first, is lost.
+const FATAL_WRITE_TIMEOUT_MS = 1000;
+const MAX_STATE_DEPTH = 5;
+const MAX_STATE_ARRAY_ITEMS = 20;
+const SENSITIVE_FIELD_PATTERN = /password|token|secret|key|auth|email|cvc/i;
+
+/**
+ * 53-bit string hash (cyrb53), as hex
+ */
+const hashString = (value: string): string => {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < value.length; i++) {
+    const char = value.charCodeAt(i);
+    h1 = Math.imul(h1 ^ char, 2654435761);
+    h2 = Math.imul(h2 ^ char, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16);
+};
+
+/**
+ * Fingerprint for grouping repeats of the same crash: the error type plus
+ * the top stack frames with install paths and bundle query strings
+ * removed. Without a stack, the message with numbers masked stands in.
+ */
+export const getCrashFingerprint = (
+  errorType: string,
+  message: string,
+  stackTrace?: string
+): string => {
+  const frames = (stackTrace ?? '')
+    .split('\n')
+    .map(line => line.trim())
+    .filter(line => line.startsWith('at ') || line.includes('@'))
+    .slice(0, FINGERPRINT_FRAMES)
+    .map(frame => frame.replace(/[^\s(@]*\//g, '').replace(/\?[^:\s)]*/g, ''));
+
+  const signature = frames.length > 0 ? frames.join('\n') : message.replace(/\d+/g, '#');
+  return hashString(`${errorType}\n${signature}`);
+};
+
+const reviveReport = (report: CrashReport): CrashReport => ({
+  ...report,
+  timestamp: new Date(report.timestamp),
+  lastOccurredAt: new Date(report.lastOccurredAt),
+  uploadedAt: report.uploadedAt ? new Date(report.uploadedAt) : undefined,
+  breadcrumbs: report.breadcrumbs.map(breadcrumb => ({
+    ...breadcrumb,
+    timestamp: new Date(breadcrumb.timestamp),
+  })),
+});
+
 export class CrashReportingService {
   private static instance: CrashReportingService | null = null;
+  private static globalHandlerInstalled = false;
   private breadcrumbs: Breadcrumb[] = [];
   private performanceMetrics: PerformanceMetric[] = [];
   private maxBreadcrumbs = 50;
@@ -66,41 +166,76 @@ export class CrashReportingService {
   private deviceInfo: DeviceInfo;
   private appInfo: AppInfo;
   private userInfo?: UserInfo;
-
-  private constructor() {
+  private stateProvider?: () => unknown;
+  private storage: SyncStorage;
+  private uploadUrl: string;
+  private uploadEnabled: boolean;
+  private reports: CrashReport[] | null = null;
+  private pendingWrite: Promise<void> = Promise.resolve();
+  private upload: Promise<number> | null = null;
+  // Reports in the upload under way; repeats start a new report instead
+  private uploadingIds = new Set<string>();
+
+  private constructor(options: CrashReportingServiceOptions = {}) {
+    this.storage = options.storage ?? AsyncStorage;
+    this.uploadUrl =
+      options.uploadUrl ?? (AppConfig.api.baseUrl ? `${AppConfig.api.baseUrl}/crashes` : '');
+    this.uploadEnabled = options.uploadEnabled ?? AppConfig.features.crashReportingEnabled;
     this.deviceInfo = this.collectDeviceInfo();
     this.appInfo = this.collectAppInfo();
     this.setupGlobalErrorHandlers();
   }
 
-  static getInstance(): CrashReportingService {
+  static getInstance(options?: CrashReportingServiceOptions): CrashReportingService {
     if (!CrashReportingService.instance) {
-      CrashReportingService.instance = new CrashReportingService();
+      CrashReportingService.instance = new CrashReportingService(options);
     }
     return CrashReportingService.instance;
   }
 
   /**
-   * Report a crash with full context
+   * Reset the crash reporting service instance (useful for testing)
+   */
+  static resetInstance(): void {
+    CrashReportingService.instance = null;
+  }
+
+  /**
+   * Report a crash with full context. The report is written to storage
+   * before this resolves and uploaded on the next launch; a repeat of a
+   * crash that has not been uploaded yet only bumps its occurrence count.
    */
-  async reportCrash(error: AppError): Promise<void> {
+  async reportCrash(error: AppError, isFatal: boolean = false): Promise<void> {
     try {
+      const timestamp = new Date();
+      const stackTrace = error.stack;
       const crashReport: CrashReport = {
         id: this.generateCrashId(),
-        timestamp: new Date(),
-        error,
-        stackTrace: error.stack,
+        timestamp,
+        error: {
+          name: error.name,
+          message: error.message,
+          type: error.type,
+          severity: error.severity,
+          code: error.code,
+          context: this.sanitizeState(error.context),
+        },
+        stackTrace,
         deviceInfo: this.deviceInfo,
         appInfo: this.appInfo,
         userInfo: this.userInfo,
         breadcrumbs: [...this.breadcrumbs],
+        fingerprint: getCrashFingerprint(error.type, error.message, stackTrace),
+        isFatal,
+        occurrences: 1,
+        lastOccurredAt: timestamp,
+        state: this.captureState(),
       };
 
-      // Log crash report locally
-      console.error('CRASH REPORT:', crashReport);
+      const stored = await this.saveReport(crashReport);
 
-      // In production, send to crash reporting service (Crashlytics, Sentry, Bugsnag)
-      await this.sendCrashReport(crashReport);
+      // Log crash report locally
+      console.error('CRASH REPORT:', stored);
 
       // Add crash as breadcrumb for future reports
       this.addBreadcrumb({
@@ -110,7 +245,7 @@ export class CrashReportingService {
         data: {
           errorType: error.type,
           errorMessage: error.message,
-          crashId: crashReport.id,
+          crashId: stored.id,
         },
       });
 
@@ -119,6 +254,42 @@ export class CrashReportingService {
     }
   }
 
+  /**
+   * Provide the app state to attach to crash reports, e.g. the Redux store
+   */
+  setStateProvider(provider: () => unknown): void {
+    this.stateProvider = provider;
+  }
+
+  /**
+   * Stored crash reports, newest first
+   */
+  async getCrashReports(): Promise<CrashReport[]> {
+    const reports = await this.loadReports();
+    return [...reports].sort((a, b) => b.lastOccurredAt.getTime() - a.lastOccurredAt.getTime());
+  }
+
+  /**
+   * Delete every stored crash report
+   */
+  async clearCrashReports(): Promise<void> {
+    this.reports = [];
+    await this.persistReports();
+  }
+
+  /**
+   * Upload reports the backend has not accepted yet. Returns how many were
+   * uploaded; failures keep the reports for the next launch.
+   */
+  uploadPendingReports(): Promise<number> {
+    if (!this.upload) {
+      this.upload = this.uploadReports().finally(() => {
+        this.upload = null;
+      });
+    }
+    return this.upload;
+  }
+
   /**
    * Add breadcrumb for tracking user actions
    */
@@ -269,12 +440,186 @@ export class CrashReportingService {
     this.performanceMetrics = [];
   }
 
+  private async loadReports(): Promise<CrashReport[]> {
+    if (this.reports) {
+      return this.reports;
+    }
+
+    let reports: CrashReport[] = [];
+    try {
+      const stored = await this.storage.getItem(STORAGE_KEY);
+      if (stored) {
+        reports = (JSON.parse(stored) as CrashReport[]).map(reviveReport);
+      }
+    } catch (error) {
+      console.error('Failed to load crash reports:', error);
+    }
+
+    this.reports = reports;
+    return reports;
+  }
+
+  /**
+   * Write the reports as they are now. Writes are chained so an older
+   * snapshot never lands after a newer one.
+   */
+  private persistReports(): Promise<void> {
+    const snapshot = JSON.stringify(this.reports ?? []);
+    this.pendingWrite = this.pendingWrite
+      .then(() => this.storage.setItem(STORAGE_KEY, snapshot))
+      .catch(error => {
+        console.error('Failed to save crash reports:', error);
+      });
+    return this.pendingWrite;
+  }
+
+  private async saveReport(report: CrashReport): Promise<CrashReport> {
+    const reports = await this.loadReports();
+    const existing = reports.find(
+      stored =>
+        stored.fingerprint === report.fingerprint &&
+        !stored.uploadedAt &&
+        !stored.rejectionReason &&
+        !this.uploadingIds.has(stored.id)
+    );
+
+    if (existing) {
+      existing.occurrences += 1;
+      existing.lastOccurredAt = report.timestamp;
+      existing.isFatal = existing.isFatal || report.isFatal;
+    } else {
+      reports.push(report);
+      if (reports.length > MAX_STORED_REPORTS) {
+        reports.splice(0, reports.length - MAX_STORED_REPORTS);
+      }
+    }
+
+    await this.persistReports();
+    return existing ?? report;
+  }
+
+  /**
+   * Upload pending reports in batches small enough for the backend. Reports
+   * the backend refuses are kept, marked with the reason, and never sent
+   * again; a failed batch keeps its reports for the next launch.
+   */
+  private async uploadReports(): Promise<number> {
+    if (!this.uploadEnabled || !this.uploadUrl) {
+      return 0;
+    }
+
+    const pending = (await this.loadReports()).filter(
+      report => !report.uploadedAt && !report.rejectionReason
+    );
+    if (pending.length === 0) {
+      return 0;
+    }
+
+    let uploaded = 0;
+    try {
+      pending.forEach(report => this.uploadingIds.add(report.id));
+      for (const batch of this.batchReports(pending)) {
+        const accepted = await this.uploadBatch(batch);
+        if (accepted === null) {
+          break;
+        }
+        uploaded += accepted;
+      }
+    } finally {
+      this.uploadingIds.clear();
+    }
+    return uploaded;
+  }
+
+  /**
+   * Split reports into batches under the upload size. A report too large to
+   * go with others is sent alone, without its app state.
+   */
+  private batchReports(reports: CrashReport[]): { report: CrashReport; body: string }[][] {
+    const batches: { report: CrashReport; body: string }[][] = [];
+    let batch: { report: CrashReport; body: string }[] = [];
+    let batchLength = 0;
+
+    reports.forEach(report => {
+      const { userInfo, uploadedAt, rejectionReason, ...payload } = report;
+      let body = JSON.stringify({ ...payload, userId: userInfo?.userId });
+      if (body.length > MAX_UPLOAD_BATCH_LENGTH) {
+        body = JSON.stringify({ ...payload, state: undefined, userId: userInfo?.userId });
+      }
+
+      if (batch.length > 0 && batchLength + body.length > MAX_UPLOAD_BATCH_LENGTH) {
+        batches.push(batch);
+        batch = [];
+        batchLength = 0;
+      }
+      batch.push({ report, body });
+      batchLength += body.length;
+    });
+
+    if (batch.length > 0) {
+      batches.push(batch);
+    }
+    return batches;
+  }
+
+  /**
+   * Send one batch and record what the backend made of each report. Returns
+   * how many it accepted, or null when the batch failed as a whole.
+   */
+  private async uploadBatch(batch: { report: CrashReport; body: string }[]): Promise<number | null> {
+    let result: { accepted?: string[]; rejected?: { id: string | null; error: string }[] };
+    try {
+      const response = await fetch(this.uploadUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: `{"reports":[${batch.map(item => item.body).join(',')}]}`,
+      });
+      if (!response.ok) {
+        console.warn(`Failed to upload crash reports (${response.status}), will retry on next launch`);
+        return null;
+      }
+      result = await response.json();
+    } catch (error) {
+      console.warn('Failed to upload crash reports, will retry on next launch:', error);
+      return null;
+    }
+
+    const accepted = new Set(result?.accepted ?? []);
+    const rejected = new Map((result?.rejected ?? []).map(item => [item.id, item.error]));
+    const uploadedAt = new Date();
+    let acceptedCount = 0;
+    batch.forEach(({ report }) => {
+      if (accepted.has(report.id)) {
+        report.uploadedAt = uploadedAt;
+        acceptedCount += 1;
+      } else if (rejected.has(report.id)) {
+        report.rejectionReason = rejected.get(report.id);
+        console.warn(`Crash report ${report.id} rejected: ${report.rejectionReason}`);
+      }
+    });
+
+    await this.persistReports();
+    return acceptedCount;
+  }
+
+  private captureState(): any {
+    if (!this.stateProvider) {
+      return undefined;
+    }
+    try {
+      return this.sanitizeState(this.stateProvider());
+    } catch (error) {
+      console.warn('Failed to capture state for crash report:', error);
+      return undefined;
+    }
+  }
+
   /**
    * Setup global error handlers
    */
   private setupGlobalErrorHandlers(): void {
     // Handle unhandled promise rejections
-    if (typeof window !== 'undefined') {
+    if (typeof window !== 'undefined' && typeof window.addEventListener === 'function') {
       window.addEventListener('unhandledrejection', (event) => {
         this.handleUnhandledRejection(event.reason);
       });
@@ -285,10 +630,20 @@ export class CrashReportingService {
       });
     }
 
-    // React Native specific error handling would go here
-    // ErrorUtils.setGlobalHandler((error, isFatal) => {
-    //   this.handleGlobalError(error, isFatal);
-    // });
+    // React Native: the handler is process-wide, so it is installed once and
+    // always reports through the current instance
+    if (!CrashReportingService.globalHandlerInstalled && typeof ErrorUtils !== 'undefined') {
+      CrashReportingService.globalHandlerInstalled = true;
+      const defaultHandler = ErrorUtils.getGlobalHandler();
+
+      ErrorUtils.setGlobalHandler((error: any, isFatal?: boolean) => {
+        // Let the report reach storage before the default handler takes a
+        // fatal crash down, without holding it up indefinitely
+        const written = CrashReportingService.getInstance().handleGlobalError(error, isFatal);
+        const timeout = new Promise(resolve => setTimeout(resolve, FATAL_WRITE_TIMEOUT_MS));
+        Promise.race([written, timeout]).finally(() => defaultHandler(error, isFatal));
+      });
+    }
   }
 
   /**
@@ -336,7 +691,7 @@ export class CrashReportingService {
         (appError as any).retryable = false;
       }
       
-      await this.reportCrash(appError);
+      await this.reportCrash(appError, true);
     }
   }
 
@@ -345,9 +700,8 @@ export class CrashReportingService {
    */
   private collectDeviceInfo(): DeviceInfo {
     // This would be more comprehensive in a real app
-    const screenSize = typeof window !== 'undefined' 
-      ? { width: window.screen.width, height: window.screen.height }
-      : { width: 0, height: 0 };
+    const { width, height } = Dimensions.get('screen');
+    const screenSize = { width, height };
 
     return {
       platform: this.detectPlatform(),
@@ -364,32 +718,14 @@ export class CrashReportingService {
    */
   private collectAppInfo(): AppInfo {
     return {
-      version: '1.0.0', // Would come from app config
-      buildNumber: '1', // Would come from app config
-      environment: __DEV__ ? 'development' : 'production',
+      version: AppConfig.app.version,
+      buildNumber: AppConfig.app.buildNumber,
+      environment: AppConfig.app.environment,
       sessionId: `session_${Date.now()}`,
       launchTime: new Date(),
     };
   }
 
-  /**
-   * Send crash report to service
-   */
-  private async sendCrashReport(crashReport: CrashReport): Promise<void> {
-    try {
-      // In production, this would send to crash reporting service
-      // await fetch('/api/crash-reports', {
-      //   method: 'POST',
-      //   headers: { 'Content-Type': 'application/json' },
-      //   body: JSON.stringify(crashReport),
-      // });
-      
-      console.log('Crash report sent:', crashReport.id);
-    } catch (error) {
-      console.error('Failed to send crash report:', error);
-    }
-  }
-
   /**
    * Check if metric indicates performance issue
    */
@@ -439,23 +775,39 @@ export class CrashReportingService {
   }
 
   /**
-   * Sanitize state for logging (remove sensitive data)
+   * Sanitize state for logging: redact sensitive fields at any depth and
+   * cap depth and list length so a large store stays a small report
    */
-  private sanitizeState(state: any): any {
+  private sanitizeState(state: any, depth: number = 0): any {
+    if (typeof state === 'function') {
+      return undefined;
+    }
     if (typeof state !== 'object' || state === null) {
       return state;
     }
+    if (state instanceof Date) {
+      return state.toISOString();
+    }
+    if (depth >= MAX_STATE_DEPTH) {
+      return '[Truncated]';
+    }
 
-    const sanitized = { ...state };
-    
-    // Remove sensitive fields
-    const sensitiveFields = ['password', 'token', 'secret', 'key', 'auth'];
-    sensitiveFields.forEach(field => {
-      if (field in sanitized) {
-        sanitized[field] = '[REDACTED]';
+    if (Array.isArray(state)) {
+      const items = state
+        .slice(0, MAX_STATE_ARRAY_ITEMS)
+        .map(item => this.sanitizeState(item, depth + 1));
+      if (state.length > MAX_STATE_ARRAY_ITEMS) {
+        items.push(`[${state.length - MAX_STATE_ARRAY_ITEMS} more]`);
       }
-    });
+      return items;
+    }
 
+    const sanitized: Record<string, any> = {};
+    Object.entries(state).forEach(([field, value]) => {
+      sanitized[field] = SENSITIVE_FIELD_PATTERN.test(field)
+        ? '[REDACTED]'
+        : this.sanitizeState(value, depth + 1);
+    });
     return sanitized;
   }
 
@@ -470,21 +822,17 @@ export class CrashReportingService {
    * Detect platform
    */
   private detectPlatform(): 'ios' | 'android' | 'web' {
-    if (typeof window !== 'undefined') {
-      return 'web';
-    }
-    // In React Native, you would use Platform.OS
-    return 'android'; // Default for this example
+    return Platform.OS === 'ios' || Platform.OS === 'android' ? Platform.OS : 'web';
   }
 
   /**
    * Get OS version
    */
   private getOSVersion(): string {
-    if (typeof navigator !== 'undefined') {
+    if (Platform.OS === 'web' && typeof navigator !== 'undefined') {
       return navigator.userAgent;
     }
-    return 'unknown';
+    return String(Platform.Version ?? 'unknown');
   }
 
   /**
@@ -1,5 +1,15 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { Platform } from 'react-native';
+import { getConnectivityMonitor } from './ConnectivityMonitor';
+import { getCartLineId } from '../utils/productVariants';
+import {
+  SyncPullResult,
+  SyncTransport,
+  VersionVector,
+  compareVersionVectors,
+  createSyncTransport,
+  mergeVersionVectors,
+} from './SyncTransport';
 
 export interface SyncData {
   id: string;
@@ -9,6 +19,7 @@ export interface SyncData {
   deviceId: string;
   platform: 'ios' | 'android';
   version: number;
+  versionVector?: VersionVector;
 }
 
 export interface SyncConflict {
@@ -24,15 +35,50 @@ export interface SyncResult {
   errors: string[];
 }
 
+// How the user settled a conflict held by the 'manual' strategy
+export type ConflictResolution = 'local' | 'remote' | 'merge';
+
+export type SyncStorage = Pick<typeof AsyncStorage, 'getItem' | 'setItem' | 'removeItem'>;
+
+// Writes a synced record into the data the app shows, without recording it
+// as a new edit
+export type SyncTarget = (data: any) => Promise<void>;
+
+export type SyncTargets = Partial<Record<SyncData['type'], SyncTarget>>;
+
+export interface DataSyncServiceOptions {
+  transport?: SyncTransport;
+  storage?: SyncStorage;
+  deviceId?: string;
+}
+
+// A push can race with another device's push; retry the merge this many times
+const MAX_PUSH_ATTEMPTS = 3;
+
 export class DataSyncService {
   private static instance: DataSyncService;
   private deviceId: string = '';
+  private userId: string | null = null;
   private isOnline: boolean = true;
   private syncQueue: SyncData[] = [];
+  private reconnectListeners = new Set<() => void>();
+  private syncListeners = new Set<(result: SyncResult) => void>();
+  private syncTargets: SyncTargets = {};
   private conflictResolutionStrategy: 'latest_wins' | 'manual' | 'merge' = 'latest_wins';
-
-  private constructor() {
-    this.initializeDeviceId();
+  private readonly transport: SyncTransport;
+  private readonly storage: SyncStorage;
+  private readonly ready: Promise<void>;
+
+  // The app uses getInstance(); separate instances stand in for other devices.
+  constructor(options: DataSyncServiceOptions = {}) {
+    this.transport = options.transport ?? createSyncTransport();
+    this.storage = options.storage ?? AsyncStorage;
+    if (options.deviceId) {
+      this.deviceId = options.deviceId;
+      this.ready = Promise.resolve();
+    } else {
+      this.ready = this.initializeDeviceId();
+    }
     this.setupNetworkListener();
   }
 
@@ -45,10 +91,10 @@ export class DataSyncService {
 
   private async initializeDeviceId() {
     try {
-      let deviceId = await AsyncStorage.getItem('device_id');
+      let deviceId = await this.storage.getItem('device_id');
       if (!deviceId) {
         deviceId = this.generateDeviceId();
-        await AsyncStorage.setItem('device_id', deviceId);
+        await this.storage.setItem('device_id', deviceId);
       }
       this.deviceId = deviceId;
     } catch (error) {
@@ -65,9 +111,9 @@ export class DataSyncService {
   }
 
   private setupNetworkListener() {
-    // In a real app, you would use NetInfo to monitor network status
-    // For now, we'll simulate network status
-    this.isOnline = true;
+    const monitor = getConnectivityMonitor();
+    this.isOnline = monitor.isOnline();
+    monitor.subscribe(isOnline => this.setOnlineStatus(isOnline));
   }
 
   // Sync user data across devices
@@ -85,28 +131,43 @@ export class DataSyncService {
         return result;
       }
 
+      await this.ready;
+
       // Get local data
       const localData = await this.getLocalSyncData(userId);
       
-      // Get remote data (simulate API call)
-      const remoteData = await this.getRemoteSyncData(userId);
+      // Get everything other devices changed since the last sync
+      const cursor = await this.getSyncCursor(userId);
+      const { records: remoteData, cursor: nextCursor } = await this.getRemoteSyncData(userId, cursor);
       
       // Detect conflicts
       const conflicts = this.detectConflicts(localData, remoteData);
-      result.conflicts = conflicts;
 
-      // Resolve conflicts
-      const resolvedData = await this.resolveConflicts(conflicts);
+      // Resolve conflicts, or hold them for the user with the manual strategy
+      const resolvedData = await this.settleConflicts(userId, conflicts);
+      const heldIds = new Set(
+        (await this.getPendingConflicts(userId)).map(conflict => conflict.localData.id)
+      );
       
-      // Merge non-conflicting data
-      const mergedData = this.mergeData(localData, remoteData, resolvedData);
+      // Merge non-conflicting data; records waiting on the user are left alone
+      const mergedData = this.mergeData(localData, remoteData, resolvedData).filter(
+        item => !heldIds.has(item.id)
+      );
       
-      // Save merged data locally
-      await this.saveLocalSyncData(userId, mergedData);
+      // Save what changed locally, and hand it to the services that show it
+      await this.saveLocalSyncData(
+        userId,
+        mergedData.filter(item => !this.isSyncedWith(item, localData))
+      );
       
-      // Upload resolved data to remote
-      await this.uploadSyncData(userId, mergedData);
+      // Upload what the server has not seen yet
+      const pushConflicts = await this.uploadSyncData(
+        userId,
+        mergedData.filter(item => !this.isSyncedWith(item, remoteData))
+      );
+      await this.storage.setItem(`sync_cursor_${userId}`, String(nextCursor));
       
+      result.conflicts = [...conflicts, ...pushConflicts];
       result.success = true;
       result.syncedItems = mergedData.length;
       
@@ -115,6 +176,17 @@ export class DataSyncService {
       console.error('Data sync error:', error);
     }
 
+    if (result.success) {
+      // A listener that fails does not undo a sync that worked
+      this.syncListeners.forEach(listener => {
+        try {
+          listener(result);
+        } catch (error) {
+          console.warn('Sync listener failed:', error);
+        }
+      });
+    }
+
     return result;
   }
 
@@ -130,9 +202,10 @@ export class DataSyncService {
       const data: SyncData[] = [];
       
       for (const key of keys) {
-        const item = await AsyncStorage.getItem(key);
+        const item = await this.storage.getItem(key);
         if (item) {
-          const parsedItem = JSON.parse(item);
+          const { versionVector, ...parsedItem } = JSON.parse(item);
+          const version = parsedItem.version || 1;
           data.push({
             id: key,
             type: this.getDataType(key),
@@ -140,7 +213,8 @@ export class DataSyncService {
             timestamp: parsedItem.lastModified || Date.now(),
             deviceId: this.deviceId,
             platform: Platform.OS as 'ios' | 'android',
-            version: parsedItem.version || 1,
+            version,
+            versionVector: versionVector ?? { [this.deviceId]: version },
           });
         }
       }
@@ -152,19 +226,33 @@ export class DataSyncService {
     }
   }
 
-  private async getRemoteSyncData(userId: string): Promise<SyncData[]> {
-    // Simulate API call to get remote data
-    // In a real app, this would be an actual API call
-    try {
-      // Simulate network delay
-      await new Promise(resolve => setTimeout(resolve, 1000));
-      
-      // Return mock remote data
-      return [];
-    } catch (error) {
-      console.error('Error getting remote sync data:', error);
-      return [];
+  private async getSyncCursor(userId: string): Promise<number> {
+    return Number(await this.storage.getItem(`sync_cursor_${userId}`)) || 0;
+  }
+
+  private async getRemoteSyncData(userId: string, since: number): Promise<SyncPullResult> {
+    return this.transport.pull(userId, since);
+  }
+
+  private incrementVersionVector(versionVector: VersionVector = {}): VersionVector {
+    return { ...versionVector, [this.deviceId]: (versionVector[this.deviceId] || 0) + 1 };
+  }
+
+  // True when the local copy already contains every edit in the remote one
+  private isUpToDateWith(localItem: SyncData, remoteItem: SyncData): boolean {
+    if (!localItem.versionVector || !remoteItem.versionVector) {
+      return false;
     }
+    const order = compareVersionVectors(localItem.versionVector, remoteItem.versionVector);
+    return order === 'after' || order === 'equal';
+  }
+
+  private isSyncedWith(item: SyncData, remoteData: SyncData[]): boolean {
+    const remoteItem = remoteData.find(remote => remote.id === item.id);
+    return Boolean(
+      remoteItem &&
+        compareVersionVectors(item.versionVector, remoteItem.versionVector) === 'equal'
+    );
   }
 
   private detectConflicts(localData: SyncData[], remoteData: SyncData[]): SyncConflict[] {
@@ -173,7 +261,16 @@ export class DataSyncService {
     for (const localItem of localData) {
       const remoteItem = remoteData.find(item => item.id === localItem.id);
       
-      if (remoteItem) {
+      if (remoteItem && localItem.versionVector && remoteItem.versionVector) {
+        // Only edits neither side has seen conflict; otherwise one copy is newer
+        if (compareVersionVectors(localItem.versionVector, remoteItem.versionVector) === 'concurrent') {
+          conflicts.push({
+            localData: localItem,
+            remoteData: remoteItem,
+            conflictType: 'version',
+          });
+        }
+      } else if (remoteItem) {
         // Check for timestamp conflicts
         if (Math.abs(localItem.timestamp - remoteItem.timestamp) > 1000) { // 1 second tolerance
           conflicts.push({
@@ -207,13 +304,16 @@ export class DataSyncService {
     return conflicts;
   }
 
-  private async resolveConflicts(conflicts: SyncConflict[]): Promise<SyncData[]> {
+  private async resolveConflicts(
+    conflicts: SyncConflict[],
+    resolution?: ConflictResolution
+  ): Promise<SyncData[]> {
     const resolvedData: SyncData[] = [];
     
     for (const conflict of conflicts) {
       let resolvedItem: SyncData;
       
-      switch (this.conflictResolutionStrategy) {
+      switch (resolution ?? this.conflictResolutionStrategy) {
         case 'latest_wins':
           resolvedItem = conflict.localData.timestamp > conflict.remoteData.timestamp
             ? conflict.localData
@@ -224,16 +324,27 @@ export class DataSyncService {
           resolvedItem = await this.mergeConflictingData(conflict);
           break;
           
+        case 'remote':
+          resolvedItem = conflict.remoteData;
+          break;
+          
         case 'manual':
-          // In a real app, you would present this to the user
-          resolvedItem = conflict.localData; // Default to local for now
+        case 'local':
+          resolvedItem = conflict.localData;
           break;
           
         default:
           resolvedItem = conflict.localData;
       }
       
-      resolvedData.push(resolvedItem);
+      // The result has seen both sides, and is a new edit by this device
+      resolvedData.push({
+        ...resolvedItem,
+        deviceId: this.deviceId,
+        versionVector: this.incrementVersionVector(
+          mergeVersionVectors(conflict.localData.versionVector, conflict.remoteData.versionVector)
+        ),
+      });
     }
     
     return resolvedData;
@@ -284,8 +395,10 @@ export class DataSyncService {
     // Merge cart items, keeping higher quantities for duplicates
     const mergedItems = [...remoteItems];
     
+    // Lines are one product in one set of variants
+    const lineId = (item: any) => getCartLineId(item.productId, item.selectedVariants);
     for (const localItem of localItems) {
-      const existingIndex = mergedItems.findIndex(item => item.productId === localItem.productId);
+      const existingIndex = mergedItems.findIndex(item => lineId(item) === lineId(localItem));
       
       if (existingIndex >= 0) {
         // Keep the item with higher quantity
@@ -313,19 +426,38 @@ export class DataSyncService {
     const localItems = local.data.items || [];
     const remoteItems = remote.data.items || [];
     
-    // Merge wishlist items (union of both lists)
+    // Merge wishlist items (union of both lists, and of each item's collections)
     const mergedItems = [...remoteItems];
     
     for (const localItem of localItems) {
-      if (!mergedItems.find(item => item.productId === localItem.productId)) {
+      const existingIndex = mergedItems.findIndex(item => item.productId === localItem.productId);
+      if (existingIndex >= 0) {
+        const existing = mergedItems[existingIndex];
+        mergedItems[existingIndex] = {
+          ...existing,
+          collectionIds: [
+            ...new Set([...(existing.collectionIds || []), ...(localItem.collectionIds || [])]),
+          ],
+        };
+      } else {
         mergedItems.push(localItem);
       }
     }
+
+    const mergedCollections = [...(remote.data.collections || [])];
+    for (const collection of local.data.collections || []) {
+      if (!mergedCollections.find(item => item.id === collection.id)) {
+        mergedCollections.push(collection);
+      }
+    }
     
     return {
       ...local,
       data: {
+        ...remote.data,
+        ...local.data,
         items: mergedItems,
+        collections: mergedCollections,
         lastModified: Date.now(),
         version: Math.max(local.version, remote.version) + 1,
       },
@@ -368,8 +500,12 @@ export class DataSyncService {
   private mergeData(localData: SyncData[], remoteData: SyncData[], resolvedData: SyncData[]): SyncData[] {
     const merged = [...resolvedData];
     
-    // Add non-conflicting remote data
+    // Add non-conflicting remote data, unless the local copy is already newer
     for (const remoteItem of remoteData) {
+      const localItem = localData.find(item => item.id === remoteItem.id);
+      if (localItem && this.isUpToDateWith(localItem, remoteItem)) {
+        continue;
+      }
       if (!merged.find(item => item.id === remoteItem.id)) {
         merged.push(remoteItem);
       }
@@ -385,26 +521,117 @@ export class DataSyncService {
     return merged;
   }
 
+  // Save records that changed on this device's copy and apply them to the
+  // cart, wishlist or preferences the app shows
   private async saveLocalSyncData(userId: string, data: SyncData[]): Promise<void> {
     try {
       for (const item of data) {
-        await AsyncStorage.setItem(item.id, JSON.stringify(item.data));
+        await this.storage.setItem(
+          item.id,
+          JSON.stringify({ ...item.data, versionVector: item.versionVector })
+        );
+        await this.syncTargets[item.type]?.(item.data);
       }
     } catch (error) {
       console.error('Error saving local sync data:', error);
     }
   }
 
-  private async uploadSyncData(userId: string, data: SyncData[]): Promise<void> {
-    // Simulate API call to upload data
-    // In a real app, this would be an actual API call
-    try {
-      console.log(`Uploading ${data.length} items for user ${userId}`);
-      // Simulate network delay
-      await new Promise(resolve => setTimeout(resolve, 500));
-    } catch (error) {
-      console.error('Error uploading sync data:', error);
+  // Push records to the server. Records another device changed in the meantime
+  // come back as stale (take the server copy) or conflicting (merge and retry).
+  private async uploadSyncData(userId: string, data: SyncData[]): Promise<SyncConflict[]> {
+    const conflicts: SyncConflict[] = [];
+    let pending = data;
+
+    for (let attempt = 0; attempt < MAX_PUSH_ATTEMPTS && pending.length > 0; attempt++) {
+      const { results } = await this.transport.push(userId, this.deviceId, pending);
+
+      const staleData = results
+        .filter(result => result.status === 'stale')
+        .map(result => result.record);
+      const rejected: SyncConflict[] = [];
+      for (const result of results) {
+        const localItem = pending.find(item => item.id === result.id);
+        if (result.status === 'conflict' && localItem) {
+          rejected.push({ localData: localItem, remoteData: result.record, conflictType: 'version' });
+        }
+      }
+
+      const resolvedData = await this.settleConflicts(userId, rejected);
+      await this.saveLocalSyncData(userId, [...staleData, ...resolvedData]);
+      conflicts.push(...rejected);
+      pending = resolvedData;
+    }
+
+    if (pending.length > 0) {
+      throw new Error(`${pending.length} records were still in conflict after ${MAX_PUSH_ATTEMPTS} attempts`);
+    }
+
+    return conflicts;
+  }
+
+  // With the manual strategy conflicts wait in a queue until the user picks a
+  // side; every other strategy resolves them straight away.
+  private async settleConflicts(userId: string, conflicts: SyncConflict[]): Promise<SyncData[]> {
+    if (this.conflictResolutionStrategy !== 'manual') {
+      return this.resolveConflicts(conflicts);
+    }
+
+    if (conflicts.length > 0) {
+      const newIds = new Set(conflicts.map(conflict => conflict.localData.id));
+      const pending = await this.getPendingConflicts(userId);
+      await this.savePendingConflicts(userId, [
+        ...pending.filter(conflict => !newIds.has(conflict.localData.id)),
+        ...conflicts,
+      ]);
+    }
+    return [];
+  }
+
+  private async savePendingConflicts(userId: string, conflicts: SyncConflict[]): Promise<void> {
+    await this.storage.setItem(`sync_conflicts_${userId}`, JSON.stringify(conflicts));
+  }
+
+  async getPendingConflicts(userId: string): Promise<SyncConflict[]> {
+    const stored = await this.storage.getItem(`sync_conflicts_${userId}`);
+    return stored ? JSON.parse(stored) : [];
+  }
+
+  // Apply the user's choice for a held conflict and push the result
+  async resolveConflict(
+    userId: string,
+    recordId: string,
+    resolution: ConflictResolution
+  ): Promise<SyncData> {
+    await this.ready;
+    const pending = await this.getPendingConflicts(userId);
+    const conflict = pending.find(item => item.localData.id === recordId);
+    if (!conflict) {
+      throw new Error(`No pending conflict for ${recordId}`);
+    }
+
+    // Edits made on this device while the conflict waited count as "mine"
+    const localItem = (await this.getLocalSyncData(userId)).find(item => item.id === recordId);
+    const [resolved] = await this.resolveConflicts(
+      [{ ...conflict, localData: localItem ?? conflict.localData }],
+      resolution
+    );
+    await this.saveLocalSyncData(userId, [resolved]);
+    await this.savePendingConflicts(
+      userId,
+      pending.filter(item => item.localData.id !== recordId)
+    );
+
+    if (this.isOnline) {
+      try {
+        await this.uploadSyncData(userId, [resolved]);
+      } catch (error) {
+        // The resolution is saved on this device, so the next sync pushes it
+        console.warn('Failed to upload conflict resolution:', error);
+      }
     }
+
+    return resolved;
   }
 
   private getDataType(key: string): SyncData['type'] {
@@ -415,28 +642,73 @@ export class DataSyncService {
     return 'user_preferences';
   }
 
+  // Record an edit made on this device so the next sync pushes it
+  async recordLocalChange(userId: string, type: SyncData['type'], data: any): Promise<void> {
+    await this.ready;
+    const key = `${type}_${userId}`;
+    const stored = await this.storage.getItem(key);
+    const previous = stored ? JSON.parse(stored) : null;
+    const previousVector: VersionVector =
+      previous?.versionVector ?? (previous ? { [this.deviceId]: previous.version || 1 } : {});
+
+    await this.storage.setItem(
+      key,
+      JSON.stringify({
+        ...data,
+        lastModified: Date.now(),
+        version: (previous?.version || 0) + 1,
+        versionVector: this.incrementVersionVector(previousVector),
+      })
+    );
+  }
+
+  // Where pulled and merged records are applied; set by the module that
+  // creates the owning services
+  setSyncTargets(targets: SyncTargets) {
+    this.syncTargets = targets;
+  }
+
+  // The signed-in user, whose records the app's own edits are recorded against
+  setUserId(userId: string | null) {
+    this.userId = userId;
+  }
+
+  // Called by the services that own synced data after each save. Edits made
+  // while signed out stay on this device.
+  async recordChange(type: SyncData['type'], data: any): Promise<void> {
+    if (!this.userId) {
+      return;
+    }
+    try {
+      await this.recordLocalChange(this.userId, type, data);
+    } catch (error) {
+      console.warn(`Failed to record ${type} change for sync:`, error);
+    }
+  }
+
   // Offline mode support
   async queueForSync(data: SyncData): Promise<void> {
     this.syncQueue.push(data);
-    await AsyncStorage.setItem('sync_queue', JSON.stringify(this.syncQueue));
+    await this.storage.setItem('sync_queue', JSON.stringify(this.syncQueue));
   }
 
   async processSyncQueue(userId: string): Promise<void> {
     if (!this.isOnline || this.syncQueue.length === 0) return;
-    
-    try {
-      // Process queued items
-      for (const item of this.syncQueue) {
-        await this.uploadSyncData(userId, [item]);
+
+    // Send in order and drop each item once it is uploaded, so a failure
+    // leaves exactly the unsent items queued for the next attempt
+    while (this.syncQueue.length > 0) {
+      try {
+        await this.uploadSyncData(userId, [this.syncQueue[0]]);
+      } catch (error) {
+        console.error('Error processing sync queue:', error);
+        await this.storage.setItem('sync_queue', JSON.stringify(this.syncQueue));
+        return;
       }
-      
-      // Clear queue
-      this.syncQueue = [];
-      await AsyncStorage.removeItem('sync_queue');
-      
-    } catch (error) {
-      console.error('Error processing sync queue:', error);
+      this.syncQueue.shift();
     }
+
+    await this.storage.removeItem('sync_queue');
   }
 
   // Configuration methods
@@ -445,7 +717,27 @@ export class DataSyncService {
   }
 
   setOnlineStatus(isOnline: boolean) {
+    const reconnected = isOnline && !this.isOnline;
     this.isOnline = isOnline;
+    if (reconnected) {
+      this.reconnectListeners.forEach(listener => listener());
+    }
+  }
+
+  // Called each time the device goes from offline to online
+  onReconnect(listener: () => void): () => void {
+    this.reconnectListeners.add(listener);
+    return () => {
+      this.reconnectListeners.delete(listener);
+    };
+  }
+
+  // Called after each successful sync, e.g. to re-check data another device changed
+  onSyncComplete(listener: (result: SyncResult) => void): () => void {
+    this.syncListeners.add(listener);
+    return () => {
+      this.syncListeners.delete(listener);
+    };
   }
 
   getDeviceId(): string {
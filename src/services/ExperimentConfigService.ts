@@ -0,0 +1,226 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AppConfig } from '../config/env';
+import { ABTest, ABTestAudience } from './ABTestingService';
+import { SyncStorage } from './DataSyncService';
+
+/**
+ * An A/B test as the backend sends it, with ISO dates
+ */
+export type RemoteExperiment = Omit<ABTest, 'startDate' | 'endDate' | 'winningVariantId'> & {
+  startDate: string;
+  endDate?: string;
+};
+
+export interface RemoteFeatureFlag {
+  enabled: boolean;
+  /** Share of the audience that gets the flag (0-100); everyone when unset */
+  rolloutPercentage?: number;
+  targetAudience?: ABTestAudience;
+}
+
+/**
+ * Document served by the backend /config/experiments route
+ */
+export interface ExperimentConfigDocument {
+  version: number;
+  experiments: RemoteExperiment[];
+  flags: Record<string, RemoteFeatureFlag>;
+}
+
+/**
+ * Users exposed to and converted in one variant, counted by the backend
+ * across every device
+ */
+export interface ExperimentVariantCounts {
+  variantId: string;
+  exposures: number;
+  conversions: number;
+}
+
+interface CachedExperimentConfig {
+  etag: string | null;
+  document: ExperimentConfigDocument;
+  fetchedAt: number;
+}
+
+/**
+ * Experiment config service interface: fetches the remote document and
+ * falls back to the last good copy when it cannot
+ */
+export interface ExperimentConfigService {
+  loadConfig(): Promise<ExperimentConfigDocument | null>;
+  getCachedConfig(): Promise<ExperimentConfigDocument | null>;
+  loadResults(testId: string, metric: string, horizon: number): Promise<ExperimentVariantCounts[] | null>;
+}
+
+export interface ExperimentConfigServiceOptions {
+  storage?: SyncStorage;
+  /** Full URL of the config document; remote config is off when empty */
+  url?: string;
+  /** Base URL of the per-test results route; results are off when empty */
+  resultsUrl?: string;
+  timeoutMs?: number;
+}
+
+const isExperimentConfigDocument = (value: unknown): value is ExperimentConfigDocument => {
+  const document = value as ExperimentConfigDocument;
+  return (
+    Boolean(document) &&
+    typeof document.version === 'number' &&
+    Array.isArray(document.experiments) &&
+    Boolean(document.flags) &&
+    typeof document.flags === 'object'
+  );
+};
+
+export class ExperimentConfigServiceImpl implements ExperimentConfigService {
+  private static readonly STORAGE_KEY = '@swipely_experiment_config';
+  private readonly storage: SyncStorage;
+  private readonly url: string;
+  private readonly resultsUrl: string;
+  private readonly timeoutMs: number;
+  private cached: CachedExperimentConfig | null | undefined;
+
+  constructor(options: ExperimentConfigServiceOptions = {}) {
+    this.storage = options.storage ?? AsyncStorage;
+    this.url =
+      options.url ?? (AppConfig.api.baseUrl ? `${AppConfig.api.baseUrl}/config/experiments` : '');
+    this.resultsUrl =
+      options.resultsUrl ?? (AppConfig.api.baseUrl ? `${AppConfig.api.baseUrl}/experiments` : '');
+    this.timeoutMs = options.timeoutMs ?? 10000;
+  }
+
+  /**
+   * Fetch the config, revalidating the cached copy with its ETag. Any
+   * failure returns the last good config, or null when there never was one.
+   */
+  async loadConfig(): Promise<ExperimentConfigDocument | null> {
+    const cached = await this.loadCache();
+    if (!this.url) {
+      return cached?.document ?? null;
+    }
+
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), this.timeoutMs);
+    try {
+      const response = await fetch(this.url, {
+        headers: cached?.etag ? { 'If-None-Match': cached.etag } : {},
+        signal: controller.signal,
+      });
+
+      if (response.status === 304 && cached) {
+        await this.saveCache({ ...cached, fetchedAt: Date.now() });
+        return cached.document;
+      }
+      if (!response.ok) {
+        throw new Error(`Failed to load experiment config: ${response.status}`);
+      }
+
+      const document = await response.json();
+      if (!isExperimentConfigDocument(document)) {
+        throw new Error('Experiment config response is malformed');
+      }
+
+      await this.saveCache({
+        etag: response.headers.get('ETag'),
+        document,
+        fetchedAt: Date.now(),
+      });
+      return document;
+    } catch (error) {
+      console.warn('Using last good experiment config:', error);
+      return cached?.document ?? null;
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+
+  async getCachedConfig(): Promise<ExperimentConfigDocument | null> {
+    return (await this.loadCache())?.document ?? null;
+  }
+
+  /**
+   * Per-variant counts of a test's first `horizon` exposed users, or null
+   * when the backend cannot be reached
+   */
+  async loadResults(
+    testId: string,
+    metric: string,
+    horizon: number
+  ): Promise<ExperimentVariantCounts[] | null> {
+    if (!this.resultsUrl) {
+      return null;
+    }
+
+    const query = `metric=${encodeURIComponent(metric)}&horizon=${horizon}`;
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), this.timeoutMs);
+    try {
+      const response = await fetch(`${this.resultsUrl}/${encodeURIComponent(testId)}/results?${query}`, {
+        signal: controller.signal,
+      });
+      if (!response.ok) {
+        throw new Error(`Failed to load experiment results: ${response.status}`);
+      }
+
+      const body = await response.json();
+      return Array.isArray(body?.variants) ? body.variants : null;
+    } catch (error) {
+      console.warn(`Failed to load results for experiment ${testId}:`, error);
+      return null;
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+
+  private async loadCache(): Promise<CachedExperimentConfig | null> {
+    if (this.cached !== undefined) {
+      return this.cached;
+    }
+
+    let cached: CachedExperimentConfig | null = null;
+    try {
+      const stored = await this.storage.getItem(ExperimentConfigServiceImpl.STORAGE_KEY);
+      if (stored) {
+        const parsed = JSON.parse(stored) as CachedExperimentConfig;
+        cached = isExperimentConfigDocument(parsed?.document) ? parsed : null;
+      }
+    } catch (error) {
+      console.error('Failed to load cached experiment config:', error);
+    }
+
+    this.cached = cached;
+    return cached;
+  }
+
+  private async saveCache(cached: CachedExperimentConfig): Promise<void> {
+    this.cached = cached;
+    try {
+      await this.storage.setItem(ExperimentConfigServiceImpl.STORAGE_KEY, JSON.stringify(cached));
+    } catch (error) {
+      console.error('Failed to cache experiment config:', error);
+    }
+  }
+}
+
+/**
+ * Singleton instance of the experiment config service
+ */
+let experimentConfigServiceInstance: ExperimentConfigService | null = null;
+
+/**
+ * Get the singleton instance of the experiment config service
+ */
+export const getExperimentConfigService = (): ExperimentConfigService => {
+  if (!experimentConfigServiceInstance) {
+    experimentConfigServiceInstance = new ExperimentConfigServiceImpl();
+  }
+  return experimentConfigServiceInstance;
+};
+
+/**
+ * Reset the experiment config service instance (useful for testing)
+ */
+export const resetExperimentConfigService = (): void => {
+  experimentConfigServiceInstance = null;
+};
@@ -0,0 +1,328 @@
+import { ProductCard, SwipeAction, SwipeActionType } from '../types';
+
+export interface RankingWeights {
+  category: number;
+  vendor: number;
+  price: number;
+  rating: number;
+  availability: number;
+}
+
+export interface RankingConfig {
+  seed: number;
+  explorationRate: number;
+  maxConsecutivePerCategory: number;
+  historyHalfLifeDays: number;
+  weights: RankingWeights;
+}
+
+export interface UserAffinityProfile {
+  categoryAffinity: Record<string, number>;
+  vendorAffinity: Record<string, number>;
+  categoryExposure: Record<string, number>;
+  priceAffinity: { logMean: number; logStdDev: number } | null;
+  totalSwipes: number;
+}
+
+export interface RankedProduct {
+  product: ProductCard;
+  score: number;
+  explored: boolean;
+}
+
+const DEFAULT_WEIGHTS: RankingWeights = {
+  category: 1.0,
+  vendor: 0.5,
+  price: 0.6,
+  rating: 0.4,
+  availability: 0.5,
+};
+
+const DEFAULT_CONFIG: RankingConfig = {
+  seed: Date.now(),
+  explorationRate: 0.15,
+  maxConsecutivePerCategory: 2,
+  historyHalfLifeDays: 14,
+  weights: DEFAULT_WEIGHTS,
+};
+
+// Affinity signal per swipe action; cart and super-like are stronger than a like
+const ACTION_SIGNALS: Record<SwipeActionType, number> = {
+  like: 1,
+  skip: -0.5,
+  cart: 1.5,
+  superlike: 2,
+};
+const MIN_PRICE_STD_DEV = 0.35;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Mulberry32 - small, fast PRNG so rankings are reproducible under a seed
+ */
+const createSeededRandom = (seed: number): (() => number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+/**
+ * Resolve the vendor of a product card. Cards do not carry a vendor object,
+ * so fall back to the brand recorded in specifications.
+ */
+export const getProductVendor = (product: ProductCard): string | null => {
+  const specs = product.specifications || {};
+  const vendor = specs.brand ?? specs.Brand ?? specs.vendor ?? specs.Vendor;
+  return typeof vendor === 'string' && vendor.trim() ? vendor.trim().toLowerCase() : null;
+};
+
+/**
+ * On-device ranking engine for the personalized feed.
+ * Scores candidates from swipe history, price affinity, vendor and rating,
+ * then mixes in exploration picks so the feed does not collapse into one category.
+ */
+export class FeedRankingService {
+  private config: RankingConfig;
+  private random: () => number;
+
+  constructor(config: Partial<RankingConfig> = {}) {
+    this.config = {
+      ...DEFAULT_CONFIG,
+      ...config,
+      weights: { ...DEFAULT_WEIGHTS, ...config.weights },
+    };
+    this.random = createSeededRandom(this.config.seed);
+  }
+
+  /**
+   * Reset the random generator, optionally with a new seed
+   */
+  setSeed(seed: number): void {
+    this.config.seed = seed;
+    this.random = createSeededRandom(seed);
+  }
+
+  /**
+   * Get current ranking configuration
+   */
+  getConfig(): RankingConfig {
+    return { ...this.config, weights: { ...this.config.weights } };
+  }
+
+  /**
+   * Build a user affinity profile from swipe history.
+   * Older swipes decay with the configured half-life.
+   */
+  buildProfile(
+    history: SwipeAction[],
+    resolveProduct: (productId: string) => ProductCard | null | undefined,
+    now: Date = new Date()
+  ): UserAffinityProfile {
+    const categoryAffinity: Record<string, number> = {};
+    const vendorAffinity: Record<string, number> = {};
+    const categoryExposure: Record<string, number> = {};
+    const likedLogPrices: number[] = [];
+    let totalSwipes = 0;
+
+    history.forEach(action => {
+      const product = resolveProduct(action.productId);
+      if (!product) {
+        return;
+      }
+
+      totalSwipes++;
+      const ageDays = Math.max(0, now.getTime() - new Date(action.timestamp).getTime()) / MS_PER_DAY;
+      const decay = Math.pow(0.5, ageDays / this.config.historyHalfLifeDays);
+      const signal = (ACTION_SIGNALS[action.action] ?? 0) * decay;
+
+      const categoryId = product.category.id;
+      categoryAffinity[categoryId] = (categoryAffinity[categoryId] || 0) + signal;
+      categoryExposure[categoryId] = (categoryExposure[categoryId] || 0) + 1;
+
+      const vendor = getProductVendor(product);
+      if (vendor) {
+        vendorAffinity[vendor] = (vendorAffinity[vendor] || 0) + signal;
+      }
+
+      if (action.action !== 'skip' && product.price > 0) {
+        likedLogPrices.push(Math.log(product.price));
+      }
+    });
+
+    // Squash accumulated signals into [-1, 1]
+    Object.keys(categoryAffinity).forEach(key => {
+      categoryAffinity[key] = Math.tanh(categoryAffinity[key]);
+    });
+    Object.keys(vendorAffinity).forEach(key => {
+      vendorAffinity[key] = Math.tanh(vendorAffinity[key]);
+    });
+
+    let priceAffinity: UserAffinityProfile['priceAffinity'] = null;
+    if (likedLogPrices.length > 0) {
+      const logMean = likedLogPrices.reduce((sum, value) => sum + value, 0) / likedLogPrices.length;
+      const variance = likedLogPrices.reduce(
+        (sum, value) => sum + Math.pow(value - logMean, 2),
+        0
+      ) / likedLogPrices.length;
+      priceAffinity = {
+        logMean,
+        logStdDev: Math.max(MIN_PRICE_STD_DEV, Math.sqrt(variance)),
+      };
+    }
+
+    return {
+      categoryAffinity,
+      vendorAffinity,
+      categoryExposure,
+      priceAffinity,
+      totalSwipes,
+    };
+  }
+
+  /**
+   * Score a single product against a profile (pure exploitation score)
+   */
+  scoreProduct(product: ProductCard, profile: UserAffinityProfile): number {
+    const { weights } = this.config;
+
+    const categoryScore = profile.categoryAffinity[product.category.id] || 0;
+
+    const vendor = getProductVendor(product);
+    const vendorScore = vendor ? profile.vendorAffinity[vendor] || 0 : 0;
+
+    let priceScore = 0;
+    if (profile.priceAffinity && product.price > 0) {
+      const { logMean, logStdDev } = profile.priceAffinity;
+      const distance = (Math.log(product.price) - logMean) / logStdDev;
+      // Gaussian closeness mapped to [-1, 1]
+      priceScore = 2 * Math.exp(-0.5 * distance * distance) - 1;
+    }
+
+    const ratingScore = typeof product.reviewRating === 'number'
+      ? Math.max(-1, Math.min(1, (product.reviewRating - 3) / 2))
+      : 0;
+
+    const availabilityScore = product.availability ? 0 : -1;
+
+    return (
+      weights.category * categoryScore +
+      weights.vendor * vendorScore +
+      weights.price * priceScore +
+      weights.rating * ratingScore +
+      weights.availability * availabilityScore
+    );
+  }
+
+  /**
+   * Rank candidates for the feed.
+   * Each slot either exploits the best remaining candidate (with a diversity
+   * guard on consecutive categories) or, with probability explorationRate,
+   * explores a candidate from the least-exposed category.
+   */
+  rankProducts(
+    candidates: ProductCard[],
+    history: SwipeAction[],
+    resolveProduct: (productId: string) => ProductCard | null | undefined,
+    now: Date = new Date()
+  ): RankedProduct[] {
+    const profile = this.buildProfile(history, resolveProduct, now);
+
+    const remaining = candidates
+      .map((product, index) => ({
+        product,
+        index,
+        score: this.scoreProduct(product, profile),
+      }))
+      .sort((a, b) => b.score - a.score || a.index - b.index);
+
+    const ranked: RankedProduct[] = [];
+
+    while (remaining.length > 0) {
+      let pickIndex = 0;
+      let explored = false;
+
+      if (remaining.length > 1 && this.random() < this.config.explorationRate) {
+        pickIndex = this.pickExplorationIndex(remaining, profile);
+        explored = pickIndex !== 0;
+      } else {
+        pickIndex = this.pickDiverseIndex(remaining, ranked);
+      }
+
+      const [picked] = remaining.splice(pickIndex, 1);
+      ranked.push({ product: picked.product, score: picked.score, explored });
+    }
+
+    return ranked;
+  }
+
+  /**
+   * Convenience wrapper returning only the ordered product cards
+   */
+  rank(
+    candidates: ProductCard[],
+    history: SwipeAction[],
+    resolveProduct: (productId: string) => ProductCard | null | undefined,
+    now: Date = new Date()
+  ): ProductCard[] {
+    return this.rankProducts(candidates, history, resolveProduct, now).map(item => item.product);
+  }
+
+  /**
+   * Pick a random candidate among the least-exposed categories
+   */
+  private pickExplorationIndex(
+    remaining: Array<{ product: ProductCard }>,
+    profile: UserAffinityProfile
+  ): number {
+    const minExposure = Math.min(
+      ...remaining.map(item => profile.categoryExposure[item.product.category.id] || 0)
+    );
+    const pool = remaining
+      .map((item, index) => ({ item, index }))
+      .filter(({ item }) => (profile.categoryExposure[item.product.category.id] || 0) === minExposure);
+
+    return pool[Math.floor(this.random() * pool.length)].index;
+  }
+
+  /**
+   * Pick the best candidate that does not extend a run of the same category
+   * beyond maxConsecutivePerCategory. Falls back to the best overall.
+   */
+  private pickDiverseIndex(
+    remaining: Array<{ product: ProductCard }>,
+    ranked: RankedProduct[]
+  ): number {
+    const maxRun = this.config.maxConsecutivePerCategory;
+    if (maxRun <= 0 || ranked.length < maxRun) {
+      return 0;
+    }
+
+    const recent = ranked.slice(-maxRun).map(item => item.product.category.id);
+    const saturated = recent.every(categoryId => categoryId === recent[0]) ? recent[0] : null;
+    if (!saturated) {
+      return 0;
+    }
+
+    const alternative = remaining.findIndex(item => item.product.category.id !== saturated);
+    return alternative === -1 ? 0 : alternative;
+  }
+}
+
+// Singleton instance for global use
+let feedRankingServiceInstance: FeedRankingService | null = null;
+
+export const getFeedRankingService = (config?: Partial<RankingConfig>): FeedRankingService => {
+  if (!feedRankingServiceInstance) {
+    feedRankingServiceInstance = new FeedRankingService(config);
+  }
+
+  return feedRankingServiceInstance;
+};
+
+export const resetFeedRankingService = (): void => {
+  feedRankingServiceInstance = null;
+};
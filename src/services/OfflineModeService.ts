@@ -1,5 +1,6 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { ProductCard } from '../types';
+import { ProductCard, SwipeActionType } from '../types';
+import { getConnectivityMonitor } from './ConnectivityMonitor';
 
 export interface OfflineData {
   products: ProductCard[];
@@ -10,6 +11,17 @@ export interface OfflineData {
   lastSync: number;
 }
 
+/**
+ * Where edits made offline are forwarded. The data providers register these when
+ * they load; this service cannot import them, since the product feed provider
+ * reads its cache from here.
+ */
+export interface OfflineEditTargets {
+  addToCart(productId: string, quantity: number): Promise<void>;
+  addToWishlist(productId: string): Promise<void>;
+  recordSwipeAction(productId: string, action: SwipeActionType, userId: string): Promise<void>;
+}
+
 export interface CacheConfig {
   maxProducts: number;
   maxCacheAge: number; // in milliseconds
@@ -20,6 +32,7 @@ export interface CacheConfig {
 export class OfflineModeService {
   private static instance: OfflineModeService;
   private isOfflineMode: boolean = false;
+  private editTargets: OfflineEditTargets | null = null;
   private cacheConfig: CacheConfig = {
     maxProducts: 100,
     maxCacheAge: 24 * 60 * 60 * 1000, // 24 hours
@@ -38,7 +51,22 @@ export class OfflineModeService {
     return OfflineModeService.instance;
   }
 
+  setEditTargets(targets: OfflineEditTargets): void {
+    this.editTargets = targets;
+  }
+
+  private getEditTargets(): OfflineEditTargets {
+    if (!this.editTargets) {
+      throw new Error('Offline edits have nowhere to go until the data providers are loaded');
+    }
+    return this.editTargets;
+  }
+
   private async initializeOfflineMode() {
+    const monitor = getConnectivityMonitor();
+    this.isOfflineMode = !monitor.isOnline();
+    monitor.subscribe(isOnline => this.setOfflineMode(!isOnline));
+
     try {
       const offlineData = await this.getOfflineData();
       if (offlineData) {
@@ -294,7 +322,8 @@ export class OfflineModeService {
     return { ...this.cacheConfig };
   }
 
-  // Offline-specific product operations
+  // Offline-specific product operations. The cached copy keeps the change
+  // visible offline; the provider queues it in the outbox for replay.
   async addToOfflineCart(productId: string, quantity: number = 1): Promise<void> {
     try {
       const offlineData = await this.getOfflineData() || this.getEmptyOfflineData();
@@ -313,6 +342,7 @@ export class OfflineModeService {
       }
       
       await AsyncStorage.setItem('offline_data', JSON.stringify(offlineData));
+      await this.getEditTargets().addToCart(productId, quantity);
     } catch (error) {
       console.error('Error adding to offline cart:', error);
     }
@@ -330,13 +360,18 @@ export class OfflineModeService {
         });
         
         await AsyncStorage.setItem('offline_data', JSON.stringify(offlineData));
+        await this.getEditTargets().addToWishlist(productId);
       }
     } catch (error) {
       console.error('Error adding to offline wishlist:', error);
     }
   }
 
-  async recordOfflineSwipe(productId: string, action: 'like' | 'skip'): Promise<void> {
+  async recordOfflineSwipe(
+    productId: string,
+    action: SwipeActionType,
+    userId: string
+  ): Promise<void> {
     try {
       const offlineData = await this.getOfflineData() || this.getEmptyOfflineData();
       
@@ -348,6 +383,7 @@ export class OfflineModeService {
       });
       
       await AsyncStorage.setItem('offline_data', JSON.stringify(offlineData));
+      await this.getEditTargets().recordSwipeAction(productId, action, userId);
     } catch (error) {
       console.error('Error recording offline swipe:', error);
     }
@@ -4,10 +4,29 @@
  */
 
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { Order, CartItem, ShippingAddress } from '../types/checkout';
+import {
+  Order,
+  CartItem,
+  OrderRefund,
+  OrderStatus,
+  RefundLineItem,
+  ShippingAddress,
+} from '../types/checkout';
+import { getCheckoutLineId } from './CheckoutService';
+import { PaymentService } from './PaymentService';
 
 const ORDERS_STORAGE_KEY = 'swipely_orders';
 
+/**
+ * Quantity of an order line to refund
+ */
+export interface RefundRequestLine {
+  lineId: string;
+  quantity: number;
+}
+
+const roundCurrency = (value: number): number => parseFloat(value.toFixed(2));
+
 export class OrderService {
   /**
    * Create a new order
@@ -42,12 +61,14 @@ export class OrderService {
   }
 
   /**
-   * Save order to local storage
+   * Save order to local storage, replacing an earlier copy of the same order
    */
   static async saveOrder(order: Order): Promise<void> {
     try {
       const existingOrders = await this.getOrderHistory(order.userId);
-      const updatedOrders = [order, ...existingOrders];
+      const updatedOrders = existingOrders.some(existing => existing.orderId === order.orderId)
+        ? existingOrders.map(existing => (existing.orderId === order.orderId ? order : existing))
+        : [order, ...existingOrders];
 
       await AsyncStorage.setItem(
         `${ORDERS_STORAGE_KEY}_${order.userId}`,
@@ -59,6 +80,18 @@ export class OrderService {
     }
   }
 
+  /**
+   * Replace the local copy of a user's order history, e.g. with the server's list
+   */
+  static async replaceOrderHistory(userId: string, orders: Order[]): Promise<void> {
+    try {
+      await AsyncStorage.setItem(`${ORDERS_STORAGE_KEY}_${userId}`, JSON.stringify(orders));
+    } catch (error) {
+      console.error('Error replacing order history:', error);
+      throw new Error('Failed to save order history');
+    }
+  }
+
   /**
    * Get order history for a user
    */
@@ -77,6 +110,12 @@ export class OrderService {
         ...order,
         createdAt: new Date(order.createdAt),
         estimatedDelivery: new Date(order.estimatedDelivery),
+        ...(order.refunds && {
+          refunds: order.refunds.map(refund => ({
+            ...refund,
+            createdAt: new Date(refund.createdAt),
+          })),
+        }),
       }));
     } catch (error) {
       console.error('Error retrieving order history:', error);
@@ -103,7 +142,7 @@ export class OrderService {
   static async updateOrderStatus(
     userId: string,
     orderId: string,
-    status: 'completed' | 'shipped' | 'delivered'
+    status: OrderStatus
   ): Promise<Order | null> {
     try {
       const orders = await this.getOrderHistory(userId);
@@ -127,12 +166,188 @@ export class OrderService {
     }
   }
 
+  /**
+   * Amount refunded so far across all refunds of an order
+   */
+  static getRefundedAmount(order: Order): number {
+    return roundCurrency((order.refunds ?? []).reduce((sum, refund) => sum + refund.amount, 0));
+  }
+
+  /**
+   * Quantity of an order line that has not been refunded yet
+   */
+  static getRefundableQuantity(order: Order, lineId: string): number {
+    const item = order.items.find(candidate => getCheckoutLineId(candidate) === lineId);
+    if (!item) {
+      return 0;
+    }
+
+    const refunded = (order.refunds ?? []).reduce(
+      (sum, refund) =>
+        sum +
+        refund.items
+          .filter(refundItem => refundItem.lineId === lineId)
+          .reduce((lineSum, refundItem) => lineSum + refundItem.quantity, 0),
+      0
+    );
+    return Math.max(0, item.quantity - refunded);
+  }
+
+  /**
+   * Orders can be cancelled until they ship, as long as nothing was refunded yet
+   */
+  static canCancelOrder(order: Order): boolean {
+    return order.status === 'completed' && (order.refunds ?? []).length === 0;
+  }
+
+  static canRefundOrder(order: Order): boolean {
+    return (
+      order.status !== 'cancelled' &&
+      order.status !== 'refunded' &&
+      order.items.some(item => this.getRefundableQuantity(order, getCheckoutLineId(item)) > 0)
+    );
+  }
+
+  /**
+   * Refund lines for the requested quantities, each with its share of the order's tax.
+   * When the request covers everything still refundable, the last line absorbs the
+   * remaining balance so shipping and rounding are refunded too.
+   */
+  static buildRefundLines(order: Order, lines: RefundRequestLine[]): RefundLineItem[] {
+    const taxRate = order.subtotal > 0 ? order.tax / order.subtotal : 0;
+
+    const refundLines = lines
+      .filter(line => line.quantity > 0)
+      .map(line => {
+        const item = order.items.find(candidate => getCheckoutLineId(candidate) === line.lineId);
+        if (!item) {
+          throw new Error('Item is not part of this order');
+        }
+        if (line.quantity > this.getRefundableQuantity(order, line.lineId)) {
+          throw new Error('Refund quantity exceeds what was purchased');
+        }
+
+        return {
+          lineId: line.lineId,
+          productId: item.productId,
+          ...(item.variantId && { variantId: item.variantId }),
+          quantity: line.quantity,
+          amount: roundCurrency(item.price * line.quantity * (1 + taxRate)),
+        };
+      });
+
+    if (refundLines.length === 0) {
+      throw new Error('Select at least one item to refund');
+    }
+
+    const refundsEverything = order.items.every(item => {
+      const lineId = getCheckoutLineId(item);
+      const requested = refundLines.find(line => line.lineId === lineId)?.quantity ?? 0;
+      return requested === this.getRefundableQuantity(order, lineId);
+    });
+
+    if (refundsEverything) {
+      const others = refundLines
+        .slice(0, -1)
+        .reduce((sum, line) => sum + line.amount, 0);
+      const last = refundLines[refundLines.length - 1];
+      last.amount = roundCurrency(order.total - this.getRefundedAmount(order) - others);
+    }
+
+    return refundLines;
+  }
+
+  /**
+   * Cancel an order that has not shipped and refund it in full
+   */
+  static async cancelOrder(userId: string, orderId: string): Promise<Order> {
+    const order = await this.getOrderById(userId, orderId);
+    if (!order) {
+      throw new Error('Order not found');
+    }
+    if (!this.canCancelOrder(order)) {
+      throw new Error('This order can no longer be cancelled');
+    }
+
+    const lines = order.items.map(item => ({
+      lineId: getCheckoutLineId(item),
+      quantity: item.quantity,
+    }));
+    return this.applyRefund(userId, order, lines, 'cancellation');
+  }
+
+  /**
+   * Refund some or all line items of an order
+   */
+  static async refundOrderItems(
+    userId: string,
+    orderId: string,
+    lines: RefundRequestLine[]
+  ): Promise<Order> {
+    const order = await this.getOrderById(userId, orderId);
+    if (!order) {
+      throw new Error('Order not found');
+    }
+    if (!this.canRefundOrder(order)) {
+      throw new Error('This order cannot be refunded');
+    }
+
+    return this.applyRefund(userId, order, lines, 'return');
+  }
+
+  private static async applyRefund(
+    userId: string,
+    order: Order,
+    lines: RefundRequestLine[],
+    reason: OrderRefund['reason']
+  ): Promise<Order> {
+    const refundLines = this.buildRefundLines(order, lines);
+    const amount = roundCurrency(refundLines.reduce((sum, line) => sum + line.amount, 0));
+
+    const result = await PaymentService.refundPayment(order.orderId, amount, refundLines);
+    if (!result.success) {
+      throw new Error(result.error || 'Refund processing failed');
+    }
+
+    const refund: OrderRefund = {
+      refundId: result.refundId ?? `refund-${Date.now()}`,
+      amount,
+      items: refundLines,
+      reason,
+      createdAt: new Date(),
+    };
+    const updatedOrder: Order = {
+      ...order,
+      refunds: [...(order.refunds ?? []), refund],
+    };
+    if (reason === 'cancellation') {
+      updatedOrder.status = 'cancelled';
+    } else if (!this.canRefundOrder(updatedOrder)) {
+      updatedOrder.status = 'refunded';
+    }
+
+    try {
+      const orders = await this.getOrderHistory(userId);
+      await AsyncStorage.setItem(
+        `${ORDERS_STORAGE_KEY}_${userId}`,
+        JSON.stringify(
+          orders.map(existing => (existing.orderId === order.orderId ? updatedOrder : existing))
+        )
+      );
+    } catch (error) {
+      console.error('Error saving refund:', error);
+      throw new Error('Failed to save refund');
+    }
+
+    return updatedOrder;
+  }
+
   /**
    * Get orders by status
    */
   static async getOrdersByStatus(
     userId: string,
-    status: 'completed' | 'shipped' | 'delivered'
+    status: OrderStatus
   ): Promise<Order[]> {
     try {
       const orders = await this.getOrderHistory(userId);
@@ -0,0 +1,347 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AppError } from '../types/errors';
+import { ErrorFactory } from '../utils/ErrorFactory';
+import { dataSyncService, SyncStorage } from './DataSyncService';
+import { ErrorHandlingService } from './ErrorHandlingService';
+
+/**
+ * Server mutations the app can make while offline
+ */
+export type OutboxMutationType =
+  | 'cart.add'
+  | 'cart.remove'
+  | 'cart.update_quantity'
+  | 'cart.clear'
+  | 'wishlist.add'
+  | 'wishlist.remove'
+  | 'wishlist.remove_from_collection'
+  | 'wishlist.clear'
+  | 'swipe.record'
+  | 'swipe.undo';
+
+/**
+ * A mutation as handed to the outbox: what it is and the request that applies it
+ */
+export interface OutboxMutationInput {
+  type: OutboxMutationType;
+  url: string;
+  method: 'POST' | 'PATCH' | 'DELETE';
+  body?: unknown;
+}
+
+/**
+ * A queued mutation. The idempotency key is sent with every attempt so the
+ * server can ignore a replay of a request it already applied.
+ */
+export interface OutboxMutation extends OutboxMutationInput {
+  id: string;
+  idempotencyKey: string;
+  createdAt: number;
+  attempts: number;
+  lastAttemptAt?: number;
+  lastError?: string;
+}
+
+export interface OutboxFlushResult {
+  delivered: number;
+  deadLettered: number;
+  remaining: number;
+}
+
+/**
+ * Outbox service interface for ordered, persisted delivery of offline mutations
+ */
+export interface OutboxService {
+  enqueue(input: OutboxMutationInput, idempotencyKey?: string): Promise<OutboxMutation>;
+  sendOrEnqueue(input: OutboxMutationInput): Promise<Response | null>;
+  flush(): Promise<OutboxFlushResult>;
+  getPendingMutations(): Promise<OutboxMutation[]>;
+  getDeadLetters(): Promise<OutboxMutation[]>;
+  retryDeadLetter(id: string): Promise<void>;
+  clearDeadLetters(): Promise<void>;
+}
+
+export interface OutboxServiceOptions {
+  storage?: SyncStorage;
+  errorHandler?: ErrorHandlingService;
+  isOnline?: () => boolean;
+  /**
+   * A mutation is dead-lettered when a flush leaves it failed with at least
+   * this many delivery attempts, retries included
+   */
+  maxAttempts?: number;
+}
+
+const DEFAULT_MAX_ATTEMPTS = 10;
+
+const createId = (prefix: string): string =>
+  `${prefix}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+/**
+ * Implementation of OutboxService backed by AsyncStorage. Mutations are
+ * delivered strictly in order; one that keeps failing holds back the rest
+ * until it succeeds or is dead-lettered.
+ */
+export class OutboxServiceImpl implements OutboxService {
+  private static readonly STORAGE_KEY = '@swipely_outbox';
+  private static readonly DEAD_LETTER_KEY = '@swipely_outbox_dead_letters';
+
+  private readonly storage: SyncStorage;
+  private readonly errorHandler: ErrorHandlingService;
+  private readonly isOnline: () => boolean;
+  private readonly maxAttempts: number;
+  private pending: OutboxMutation[] | null = null;
+  private deadLetters: OutboxMutation[] | null = null;
+  private flushing: Promise<OutboxFlushResult> | null = null;
+
+  constructor(options: OutboxServiceOptions = {}) {
+    this.storage = options.storage ?? AsyncStorage;
+    this.errorHandler = options.errorHandler ?? ErrorHandlingService.getInstance();
+    this.isOnline = options.isOnline ?? (() => dataSyncService.isDeviceOnline());
+    this.maxAttempts = options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+  }
+
+  private async loadList(key: string): Promise<OutboxMutation[]> {
+    try {
+      const stored = await this.storage.getItem(key);
+      return stored ? JSON.parse(stored) : [];
+    } catch (error) {
+      console.error('Error loading outbox:', error);
+      return [];
+    }
+  }
+
+  private async loadPending(): Promise<OutboxMutation[]> {
+    if (!this.pending) {
+      this.pending = await this.loadList(OutboxServiceImpl.STORAGE_KEY);
+    }
+    return this.pending;
+  }
+
+  private async loadDeadLetters(): Promise<OutboxMutation[]> {
+    if (!this.deadLetters) {
+      this.deadLetters = await this.loadList(OutboxServiceImpl.DEAD_LETTER_KEY);
+    }
+    return this.deadLetters;
+  }
+
+  private async savePending(): Promise<void> {
+    await this.storage.setItem(OutboxServiceImpl.STORAGE_KEY, JSON.stringify(this.pending ?? []));
+  }
+
+  private async saveDeadLetters(): Promise<void> {
+    await this.storage.setItem(
+      OutboxServiceImpl.DEAD_LETTER_KEY,
+      JSON.stringify(this.deadLetters ?? [])
+    );
+  }
+
+  private toRequestInit(input: OutboxMutationInput, idempotencyKey: string): RequestInit {
+    const headers: Record<string, string> = { 'Idempotency-Key': idempotencyKey };
+    if (input.body === undefined) {
+      return { method: input.method, headers };
+    }
+    return {
+      method: input.method,
+      headers: { ...headers, 'Content-Type': 'application/json' },
+      body: JSON.stringify(input.body),
+    };
+  }
+
+  async enqueue(input: OutboxMutationInput, idempotencyKey?: string): Promise<OutboxMutation> {
+    const pending = await this.loadPending();
+    const existing = idempotencyKey
+      ? pending.find(mutation => mutation.idempotencyKey === idempotencyKey)
+      : undefined;
+    if (existing) {
+      return existing;
+    }
+
+    const mutation: OutboxMutation = {
+      type: input.type,
+      url: input.url,
+      method: input.method,
+      body: input.body,
+      id: createId('outbox'),
+      idempotencyKey: idempotencyKey ?? createId(input.type),
+      createdAt: Date.now(),
+      attempts: 0,
+    };
+    pending.push(mutation);
+    await this.savePending();
+    return mutation;
+  }
+
+  /**
+   * Send a mutation now when possible. It is queued instead when the device
+   * is offline, when earlier mutations are still waiting (so it cannot
+   * overtake them), or when the request gets no response. Returns null when
+   * queued; HTTP error responses are returned for the caller to handle.
+   */
+  async sendOrEnqueue(input: OutboxMutationInput): Promise<Response | null> {
+    const pending = await this.loadPending();
+    if (!this.isOnline() || pending.length > 0) {
+      await this.enqueue(input);
+      if (this.isOnline()) {
+        this.flush().catch(error => console.error('Error flushing outbox:', error));
+      }
+      return null;
+    }
+
+    const idempotencyKey = createId(input.type);
+    try {
+      return await fetch(input.url, this.toRequestInit(input, idempotencyKey));
+    } catch (error) {
+      // The server may have applied it anyway; the replay reuses the key
+      console.warn(`Queued ${input.type} after a network failure:`, error);
+      await this.enqueue(input, idempotencyKey);
+      return null;
+    }
+  }
+
+  private async deliver(mutation: OutboxMutation): Promise<void> {
+    mutation.attempts += 1;
+    mutation.lastAttemptAt = Date.now();
+
+    let response: Response;
+    try {
+      response = await fetch(mutation.url, this.toRequestInit(mutation, mutation.idempotencyKey));
+    } catch (error) {
+      throw ErrorFactory.createNetworkError(`Failed to deliver ${mutation.type}`, {
+        endpoint: mutation.url,
+        method: mutation.method,
+        originalError: error instanceof Error ? error : undefined,
+      });
+    }
+
+    if (!response.ok) {
+      throw ErrorFactory.createNetworkError(
+        `Failed to deliver ${mutation.type}: ${response.status}`,
+        { statusCode: response.status, endpoint: mutation.url, method: mutation.method }
+      );
+    }
+  }
+
+  private isRetryable(error: unknown): boolean {
+    return Boolean((error as Partial<AppError> | undefined)?.retryable);
+  }
+
+  private async deadLetter(mutation: OutboxMutation): Promise<void> {
+    const deadLetters = await this.loadDeadLetters();
+    deadLetters.push(mutation);
+    await this.saveDeadLetters();
+    console.warn(`Dead-lettered ${mutation.type} after ${mutation.attempts} attempts:`, mutation.lastError);
+  }
+
+  private async runFlush(): Promise<OutboxFlushResult> {
+    const result: OutboxFlushResult = { delivered: 0, deadLettered: 0, remaining: 0 };
+    const pending = await this.loadPending();
+
+    while (pending.length > 0 && this.isOnline()) {
+      const mutation = pending[0];
+
+      try {
+        await this.errorHandler.executeWithRetry(
+          () => this.deliver(mutation),
+          `outbox:${mutation.id}`,
+          { type: mutation.type, idempotencyKey: mutation.idempotencyKey }
+        );
+        pending.shift();
+        result.delivered += 1;
+        await this.savePending();
+      } catch (error) {
+        mutation.lastError = error instanceof Error ? error.message : String(error);
+
+        // A rejected request (4xx) will not succeed on replay either
+        if (!this.isRetryable(error) || mutation.attempts >= this.maxAttempts) {
+          pending.shift();
+          result.deadLettered += 1;
+          await this.savePending();
+          await this.deadLetter(mutation);
+          continue;
+        }
+
+        // Keep order: later mutations wait until this one goes through
+        await this.savePending();
+        break;
+      }
+    }
+
+    result.remaining = pending.length;
+    return result;
+  }
+
+  /**
+   * Deliver queued mutations in order. Concurrent calls share one run.
+   */
+  async flush(): Promise<OutboxFlushResult> {
+    if (!this.flushing) {
+      this.flushing = this.runFlush().finally(() => {
+        this.flushing = null;
+      });
+    }
+    return this.flushing;
+  }
+
+  async getPendingMutations(): Promise<OutboxMutation[]> {
+    return [...(await this.loadPending())];
+  }
+
+  async getDeadLetters(): Promise<OutboxMutation[]> {
+    return [...(await this.loadDeadLetters())];
+  }
+
+  /**
+   * Put a dead-lettered mutation back at the end of the queue with a fresh
+   * attempt budget
+   */
+  async retryDeadLetter(id: string): Promise<void> {
+    const deadLetters = await this.loadDeadLetters();
+    const mutation = deadLetters.find(item => item.id === id);
+    if (!mutation) {
+      throw new Error(`No dead-lettered mutation ${id}`);
+    }
+
+    this.deadLetters = deadLetters.filter(item => item.id !== id);
+    await this.saveDeadLetters();
+
+    const pending = await this.loadPending();
+    pending.push({ ...mutation, attempts: 0, lastError: undefined, lastAttemptAt: undefined });
+    await this.savePending();
+  }
+
+  async clearDeadLetters(): Promise<void> {
+    this.deadLetters = [];
+    await this.storage.removeItem(OutboxServiceImpl.DEAD_LETTER_KEY);
+  }
+}
+
+/**
+ * Singleton instance of the outbox service
+ */
+let outboxServiceInstance: OutboxService | null = null;
+let unsubscribeReconnect: (() => void) | null = null;
+
+/**
+ * Get the singleton instance of the outbox service. It replays queued
+ * mutations whenever the device comes back online.
+ */
+export const getOutboxService = (): OutboxService => {
+  if (!outboxServiceInstance) {
+    const service = new OutboxServiceImpl();
+    outboxServiceInstance = service;
+    unsubscribeReconnect = dataSyncService.onReconnect(() => {
+      service.flush().catch(error => console.error('Error replaying outbox:', error));
+    });
+  }
+  return outboxServiceInstance;
+};
+
+/**
+ * Reset the outbox service instance (useful for testing)
+ */
+export const resetOutboxService = (): void => {
+  unsubscribeReconnect?.();
+  unsubscribeReconnect = null;
+  outboxServiceInstance = null;
+};
@@ -5,9 +5,17 @@
  * For now, this provides the service structure and mock implementation
  */
 
-import { PaymentMethod, PaymentResult } from '../types/checkout';
+import {
+  CartItem,
+  PaymentMethod,
+  PaymentResult,
+  RefundLineItem,
+  ShippingAddress,
+  ShippingMethodId,
+} from '../types/checkout';
 import { isValidCardNumber, isValidExpirationDate, isValidCVV } from '../utils/checkoutValidation';
 import { AppConfig } from '../config/env';
+import { formatVariantSelection } from '../utils/productVariants';
 
 interface StripePaymentIntent {
   clientSecret: string;
@@ -23,6 +31,28 @@ export interface StripePaymentSheetParams {
   paymentIntentId?: string;
 }
 
+/**
+ * Line item summary sent with a payment sheet request and copied into
+ * the payment intent metadata by the backend
+ */
+export interface PaymentSheetLineItem {
+  productId: string;
+  variantId?: string;
+  variant?: string;
+  quantity: number;
+  price: number;
+  categoryId?: string;
+  weightKg?: number;
+}
+
+/**
+ * Lets the backend price the order with the same tax and shipping rules
+ */
+export interface PaymentSheetPricing {
+  shippingAddress: ShippingAddress;
+  shippingMethod?: ShippingMethodId;
+}
+
 export interface PaymentStatusResponse {
   orderId: string;
   status: string;
@@ -40,7 +70,9 @@ export class PaymentService {
 
   static async createPaymentSheetParams(
     orderId: string,
-    amount: number
+    amount: number,
+    items: CartItem[] = [],
+    pricing?: PaymentSheetPricing
   ): Promise<StripePaymentSheetParams> {
     const paymentSheetUrl = this.getPaymentSheetUrl();
 
@@ -61,6 +93,11 @@ export class PaymentService {
         amount,
         amountInCents: Math.round(amount * 100),
         currency: 'usd',
+        ...(items.length > 0 && { items: items.map(this.toPaymentSheetLineItem) }),
+        ...(pricing && {
+          shippingAddress: pricing.shippingAddress,
+          shippingMethod: pricing.shippingMethod,
+        }),
       }),
     });
 
@@ -95,6 +132,30 @@ export class PaymentService {
     return result;
   }
 
+  private static toPaymentSheetLineItem(item: CartItem): PaymentSheetLineItem {
+    const lineItem: PaymentSheetLineItem = {
+      productId: item.productId,
+      quantity: item.quantity,
+      price: item.price,
+    };
+    const variant = formatVariantSelection(item.selectedVariants);
+
+    if (item.variantId) {
+      lineItem.variantId = item.variantId;
+    }
+    if (variant) {
+      lineItem.variant = variant;
+    }
+    if (item.categoryId ?? item.category) {
+      lineItem.categoryId = item.categoryId ?? item.category;
+    }
+    if (item.weightKg !== undefined) {
+      lineItem.weightKg = item.weightKg;
+    }
+
+    return lineItem;
+  }
+
   static async verifyPaymentStatus(orderId: string): Promise<PaymentStatusResponse> {
     if (!AppConfig.api.baseUrl) {
       throw new Error('API base URL is not configured');
@@ -355,24 +416,50 @@ export class PaymentService {
   }
 
   /**
-   * Refund a payment (for order cancellations)
+   * Refund a payment, in full or for some line items.
+   * Goes through the backend when Stripe is configured; otherwise a mock refund is returned.
    */
-  static async refundPayment(orderId: string, amount: number): Promise<PaymentResult> {
+  static async refundPayment(
+    orderId: string,
+    amount: number,
+    items: RefundLineItem[] = []
+  ): Promise<PaymentResult> {
     try {
-      // Simulate network delay
-      await this.simulateNetworkDelay();
+      if (!AppConfig.features.stripeEnabled || !AppConfig.api.baseUrl) {
+        // Simulate network delay
+        await this.simulateNetworkDelay();
+        return {
+          success: true,
+          orderId,
+          refundId: `re_mock_${Date.now()}`,
+        };
+      }
 
-      // In production, this would call your backend:
-      // const response = await fetch('https://your-backend.com/refund', {
-      //   method: 'POST',
-      //   headers: { 'Content-Type': 'application/json' },
-      //   body: JSON.stringify({ orderId, amount })
-      // });
-      // const result = await response.json();
+      const response = await fetch(`${AppConfig.api.baseUrl}/payments/refund`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          orderId,
+          amountInCents: Math.round(amount * 100),
+          reason: 'requested_by_customer',
+          items: items.map(item => ({
+            productId: item.productId,
+            ...(item.variantId && { variantId: item.variantId }),
+            quantity: item.quantity,
+          })),
+        }),
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`Refund failed (${response.status}): ${errorText || 'Unknown error'}`);
+      }
 
+      const data = await response.json();
       return {
         success: true,
         orderId,
+        refundId: data.refundId,
       };
     } catch (error) {
       console.error('Refund error:', error);
@@ -0,0 +1,238 @@
+/**
+ * Pricing Service
+ * Rule-based tax and shipping calculation for checkout totals.
+ * The rules live in config/pricingRules.json, which the backend also reads so the
+ * payment amount is computed the same way on the server.
+ */
+
+import pricingRulesJson from '../config/pricingRules.json';
+import {
+  CartCalculation,
+  CartItem,
+  PricingRules,
+  ShippingAddress,
+  ShippingMethodId,
+  ShippingOption,
+  TaxRule,
+} from '../types/checkout';
+
+export const DEFAULT_PRICING_RULES = pricingRulesJson as PricingRules;
+
+/**
+ * Everything a calculator may look at when pricing a cart
+ */
+export interface PricingContext {
+  items: CartItem[];
+  shippingAddress?: ShippingAddress;
+  shippingMethod?: ShippingMethodId;
+}
+
+export interface TaxResult {
+  tax: number;
+  rate: number;
+  ruleId: string | null;
+  taxableSubtotal: number;
+  exemptSubtotal: number;
+}
+
+export interface TaxCalculator {
+  calculateTax(context: PricingContext): TaxResult;
+}
+
+export interface ShippingCalculator {
+  getShippingOptions(context: PricingContext): ShippingOption[];
+  getShippingWeight(items: CartItem[]): number;
+}
+
+const roundCurrency = (value: number): number => parseFloat(value.toFixed(2));
+
+const normalize = (value?: string): string => (value ?? '').trim().toUpperCase();
+
+const getLineTotal = (item: CartItem): number => item.price * item.quantity;
+
+const getItemCategory = (item: CartItem): string => normalize(item.categoryId ?? item.category);
+
+export const getCartSubtotal = (items: CartItem[]): number =>
+  roundCurrency(items.reduce((sum, item) => sum + getLineTotal(item), 0));
+
+/**
+ * Tax by country, state and postal code prefix with per-rule category exemptions.
+ * Addresses with no matching rule pay the default rate.
+ */
+export class RuleBasedTaxCalculator implements TaxCalculator {
+  constructor(private readonly rules: PricingRules['tax']) {}
+
+  findRule(address?: ShippingAddress): TaxRule | undefined {
+    if (!address) {
+      return undefined;
+    }
+
+    const country = normalize(address.country);
+    const state = normalize(address.state);
+    const postalCode = normalize(address.postalCode).replace(/\s/g, '');
+
+    let bestRule: TaxRule | undefined;
+    let bestScore = -1;
+
+    this.rules.rules.forEach(rule => {
+      if (normalize(rule.country) !== country) return;
+      if (rule.state && normalize(rule.state) !== state) return;
+      if (rule.postalCodePrefix && !postalCode.startsWith(normalize(rule.postalCodePrefix))) return;
+
+      const score = (rule.state ? 1 : 0) + (rule.postalCodePrefix ? 2 : 0);
+      if (score > bestScore) {
+        bestRule = rule;
+        bestScore = score;
+      }
+    });
+
+    return bestRule;
+  }
+
+  calculateTax({ items, shippingAddress }: PricingContext): TaxResult {
+    const rule = this.findRule(shippingAddress);
+    const rate = rule ? rule.rate : this.rules.defaultRate;
+    const exemptCategories = new Set((rule?.exemptCategories ?? []).map(normalize));
+
+    let taxable = 0;
+    let exempt = 0;
+    items.forEach(item => {
+      if (exemptCategories.has(getItemCategory(item))) {
+        exempt += getLineTotal(item);
+      } else {
+        taxable += getLineTotal(item);
+      }
+    });
+
+    const taxableSubtotal = roundCurrency(taxable);
+    return {
+      tax: roundCurrency(taxableSubtotal * rate),
+      rate,
+      ruleId: rule?.id ?? null,
+      taxableSubtotal,
+      exemptSubtotal: roundCurrency(exempt),
+    };
+  }
+}
+
+/**
+ * Shipping priced from weight and subtotal tiers, with an optional
+ * free-shipping threshold per method
+ */
+export class RuleBasedShippingCalculator implements ShippingCalculator {
+  constructor(private readonly rules: PricingRules['shipping']) {}
+
+  getShippingWeight(items: CartItem[]): number {
+    const weight = items.reduce(
+      (sum, item) => sum + (item.weightKg ?? this.rules.defaultItemWeightKg) * item.quantity,
+      0
+    );
+    return parseFloat(weight.toFixed(3));
+  }
+
+  getShippingOptions({ items }: PricingContext): ShippingOption[] {
+    const subtotal = getCartSubtotal(items);
+    const weight = this.getShippingWeight(items);
+
+    return this.rules.methods.map(method => {
+      const freeShippingApplied =
+        items.length > 0 &&
+        method.freeShippingThreshold !== undefined &&
+        subtotal >= method.freeShippingThreshold;
+      const tier =
+        method.tiers.find(
+          candidate =>
+            (candidate.maxWeightKg === undefined || weight <= candidate.maxWeightKg) &&
+            (candidate.maxSubtotal === undefined || subtotal <= candidate.maxSubtotal)
+        ) ?? method.tiers[method.tiers.length - 1];
+
+      return {
+        method: method.id,
+        label: method.label,
+        estimatedDays: method.estimatedDays,
+        cost: items.length === 0 || freeShippingApplied ? 0 : tier?.cost ?? 0,
+        freeShippingApplied,
+      };
+    });
+  }
+}
+
+export interface PricingCalculators {
+  tax: TaxCalculator;
+  shipping: ShippingCalculator;
+}
+
+/**
+ * Pricing service interface for checkout totals and shipping choices
+ */
+export interface PricingService {
+  calculateTotals(context: PricingContext): CartCalculation;
+  getShippingOptions(context: PricingContext): ShippingOption[];
+  getDefaultShippingMethod(): ShippingMethodId;
+}
+
+/**
+ * Combines a tax and a shipping calculator. Either can be swapped out,
+ * e.g. for a hosted tax provider.
+ */
+export class PricingServiceImpl implements PricingService {
+  private readonly tax: TaxCalculator;
+  private readonly shipping: ShippingCalculator;
+
+  constructor(
+    private readonly rules: PricingRules = DEFAULT_PRICING_RULES,
+    calculators: Partial<PricingCalculators> = {}
+  ) {
+    this.tax = calculators.tax ?? new RuleBasedTaxCalculator(rules.tax);
+    this.shipping = calculators.shipping ?? new RuleBasedShippingCalculator(rules.shipping);
+  }
+
+  getDefaultShippingMethod(): ShippingMethodId {
+    return this.rules.shipping.defaultMethod;
+  }
+
+  getShippingOptions(context: PricingContext): ShippingOption[] {
+    return this.shipping.getShippingOptions(context);
+  }
+
+  calculateTotals(context: PricingContext): CartCalculation {
+    const shippingMethod = context.shippingMethod ?? this.getDefaultShippingMethod();
+    const options = this.getShippingOptions(context);
+    const option = options.find(candidate => candidate.method === shippingMethod) ?? options[0];
+
+    const subtotal = getCartSubtotal(context.items);
+    const taxResult = this.tax.calculateTax(context);
+    const shipping = option ? option.cost : 0;
+
+    return {
+      subtotal,
+      tax: taxResult.tax,
+      shipping,
+      total: roundCurrency(subtotal + taxResult.tax + shipping),
+      breakdown: {
+        taxRuleId: taxResult.ruleId,
+        taxRate: taxResult.rate,
+        taxableSubtotal: taxResult.taxableSubtotal,
+        exemptSubtotal: taxResult.exemptSubtotal,
+        shippingMethod: option ? option.method : shippingMethod,
+        shippingWeightKg: this.shipping.getShippingWeight(context.items),
+        freeShippingApplied: option ? option.freeShippingApplied : false,
+      },
+    };
+  }
+}
+
+// Singleton instance for global use
+let pricingServiceInstance: PricingService | null = null;
+
+export const getPricingService = (calculators?: Partial<PricingCalculators>): PricingService => {
+  if (!pricingServiceInstance) {
+    pricingServiceInstance = new PricingServiceImpl(DEFAULT_PRICING_RULES, calculators);
+  }
+
+  return pricingServiceInstance;
+};
+
+export const resetPricingService = (): void => {
+  pricingServiceInstance = null;
+};
@@ -3,14 +3,20 @@ import {
   ProductFeedResponse, 
   CategoryPreferences, 
   SwipeAction,
-  SwipeActionResponse 
+  SwipeActionResponse,
+  SwipeActionType 
 } from '../types';
 import { CategoryPreferenceService } from './CategoryPreferenceService';
+import { getFeedRankingService } from './FeedRankingService';
+import { getSwipeHistoryService } from './SwipeHistoryService';
+import { getProductSearchService, isInPriceRange } from './ProductSearchService';
+import { offlineModeService } from './OfflineModeService';
 import { ErrorFactory } from '../utils/ErrorFactory';
 import { ErrorType } from '../types/errors';
 
 interface FeedFilters {
   categories?: string[];
+  brands?: string[];
   priceRange?: { min: number; max: number };
   excludeProductIds?: string[];
 }
@@ -63,6 +69,14 @@ const MOCK_PRODUCTS: ProductCard[] = [
     },
     availability: true,
     reviewRating: 4.6,
+    variantOptions: [{ name: 'Size', values: ['XS', 'S', 'M', 'L', 'XL'] }],
+    variants: [
+      { id: 'prod-2-xs', options: { Size: 'XS' }, stock: 0 },
+      { id: 'prod-2-s', options: { Size: 'S' }, stock: 4 },
+      { id: 'prod-2-m', options: { Size: 'M' }, stock: 12 },
+      { id: 'prod-2-l', options: { Size: 'L' }, stock: 7 },
+      { id: 'prod-2-xl', options: { Size: 'XL' }, stock: 2 },
+    ],
   },
   {
     id: 'prod-3',
@@ -83,6 +97,7 @@ const MOCK_PRODUCTS: ProductCard[] = [
       'Weather Resistant': 'IP65'
     },
     availability: true,
+    shippingWeightKg: 0.8,
   },
   {
     id: 'prod-4',
@@ -102,6 +117,13 @@ const MOCK_PRODUCTS: ProductCard[] = [
       'Non-Slip': 'Yes'
     },
     availability: true,
+    shippingWeightKg: 1.2,
+    variantOptions: [{ name: 'Color', values: ['Purple', 'Black', 'Sage'] }],
+    variants: [
+      { id: 'prod-4-purple', options: { Color: 'Purple' }, stock: 15 },
+      { id: 'prod-4-black', options: { Color: 'Black' }, stock: 9 },
+      { id: 'prod-4-sage', options: { Color: 'Sage' }, stock: 3 },
+    ],
   },
   {
     id: 'prod-5',
@@ -122,6 +144,7 @@ const MOCK_PRODUCTS: ProductCard[] = [
       'Organic': 'Yes'
     },
     availability: true,
+    shippingWeightKg: 1,
   },
   {
     id: 'prod-6',
@@ -161,6 +184,16 @@ const MOCK_PRODUCTS: ProductCard[] = [
       'Warranty': '2 years'
     },
     availability: true,
+    variantOptions: [
+      { name: 'Case', values: ['Silver', 'Gold'] },
+      { name: 'Strap', values: ['Brown', 'Black'] },
+    ],
+    variants: [
+      { id: 'prod-7-silver-brown', options: { Case: 'Silver', Strap: 'Brown' }, stock: 6 },
+      { id: 'prod-7-silver-black', options: { Case: 'Silver', Strap: 'Black' }, stock: 0 },
+      { id: 'prod-7-gold-brown', options: { Case: 'Gold', Strap: 'Brown' }, price: 229.99, stock: 2 },
+      { id: 'prod-7-gold-black', options: { Case: 'Gold', Strap: 'Black' }, price: 229.99, stock: 5 },
+    ],
   },
   {
     id: 'prod-8',
@@ -200,6 +233,7 @@ const MOCK_PRODUCTS: ProductCard[] = [
       'Programmable': 'Yes'
     },
     availability: true,
+    shippingWeightKg: 1.4,
   },
   {
     id: 'prod-10',
@@ -1102,6 +1136,12 @@ const MOCK_PRODUCTS: ProductCard[] = [
 export class ProductFeedService {
   private static swipeHistory: SwipeAction[] = [];
   private static sessionId: string = Date.now().toString();
+  private static swipeExclusionDays = 30;
+  private static migratedUsers = new Set<string>();
+  // Ranked order of the current feed; later pages slice it instead of
+  // re-ranking, since the ranking is randomized and history changes as the
+  // user swipes
+  private static rankedFeed: { key: string; products: ProductCard[] } | null = null;
 
   /**
    * Get all available products (for accessing from other services)
@@ -1128,48 +1168,9 @@ export class ProductFeedService {
       // In production, this would be an API call
       await this.simulateNetworkDelay();
 
-      let filteredProducts = [...MOCK_PRODUCTS];
-
-      // Apply category filters
-      if (filters?.categories && filters.categories.length > 0) {
-        filteredProducts = filteredProducts.filter(product =>
-          filters.categories!.includes(product.category.id)
-        );
-      }
-
-      // Apply price range filters
-      if (filters?.priceRange) {
-        filteredProducts = filteredProducts.filter(product =>
-          product.price >= filters.priceRange!.min &&
-          product.price <= filters.priceRange!.max
-        );
-      }
-
-      // Exclude already swiped products
-      if (filters?.excludeProductIds && filters.excludeProductIds.length > 0) {
-        filteredProducts = filteredProducts.filter(product =>
-          !filters.excludeProductIds!.includes(product.id)
-        );
-      }
-
-      // Apply pagination
-      const startIndex = (pagination.page - 1) * pagination.limit;
-      const endIndex = startIndex + pagination.limit;
-      const paginatedProducts = filteredProducts.slice(startIndex, endIndex);
+      const filteredProducts = this.applyFilters(MOCK_PRODUCTS, filters);
 
-      return {
-        products: paginatedProducts,
-        pagination: {
-          page: pagination.page,
-          limit: pagination.limit,
-          total: filteredProducts.length,
-          hasMore: endIndex < filteredProducts.length,
-        },
-        filters: {
-          categories: filters?.categories || [],
-          priceRange: filters?.priceRange,
-        },
-      };
+      return this.paginate(filteredProducts, pagination, filters);
     } catch (error) {
       console.error('Error fetching products:', error);
       throw ErrorFactory.createNetworkError(
@@ -1185,27 +1186,71 @@ export class ProductFeedService {
   }
 
   /**
-   * Get personalized product feed based on user preferences
+   * Get personalized product feed based on user preferences.
+   * When a userId is given, products swiped in the last swipeExclusionDays
+   * (across sessions) are excluded and persisted history drives ranking.
    */
   static async getPersonalizedFeed(
-    pagination: PaginationParams = { page: 1, limit: 10 }
+    pagination: PaginationParams = { page: 1, limit: 10 },
+    userId?: string
   ): Promise<ProductFeedResponse> {
     try {
       const userPreferences = await CategoryPreferenceService.getUserPreferences();
+      const feedKey = [this.sessionId, userId ?? '', ...userPreferences.selectedCategories].join('|');
+
+      if (pagination.page > 1 && this.rankedFeed?.key === feedKey) {
+        await this.simulateNetworkDelay();
+        return this.paginate(this.rankedFeed.products, pagination, {
+          categories: userPreferences.selectedCategories.length > 0
+            ? userPreferences.selectedCategories
+            : undefined,
+        });
+      }
       
       // Get products that user has already swiped to exclude them
-      const swipedProductIds = this.swipeHistory
-        .filter(action => action.sessionId === this.sessionId)
-        .map(action => action.productId);
+      const swipedProductIds = new Set(
+        this.swipeHistory
+          .filter(action => action.sessionId === this.sessionId)
+          .map(action => action.productId)
+      );
+
+      let rankingHistory: SwipeAction[] = this.swipeHistory;
+
+      if (userId) {
+        try {
+          await this.migrateSessionHistory(userId);
+          const historyService = getSwipeHistoryService();
+          const recentIds = await historyService.getRecentlySwipedProductIds(
+            userId,
+            this.swipeExclusionDays
+          );
+          recentIds.forEach(productId => swipedProductIds.add(productId));
+          rankingHistory = await historyService.getHistory(userId);
+        } catch (error) {
+          console.warn('Failed to read persisted swipe history:', error);
+        }
+      }
 
       const filters: FeedFilters = {
         categories: userPreferences.selectedCategories.length > 0 
           ? userPreferences.selectedCategories 
           : undefined,
-        excludeProductIds: swipedProductIds,
+        excludeProductIds: [...swipedProductIds],
       };
 
-      return await this.getProducts(pagination, filters);
+      // In production, this would be an API call
+      await this.simulateNetworkDelay();
+
+      // Rank the full candidate set once per feed; later pages reuse this order
+      const candidates = this.applyFilters(MOCK_PRODUCTS, filters);
+      const rankedProducts = getFeedRankingService().rank(
+        candidates,
+        rankingHistory,
+        productId => this.getProductById(productId)
+      );
+      this.rankedFeed = { key: feedKey, products: rankedProducts };
+
+      return this.paginate(rankedProducts, pagination, filters);
     } catch (error) {
       console.error('Error getting personalized feed:', error);
       throw ErrorFactory.createNetworkError(
@@ -1225,7 +1270,7 @@ export class ProductFeedService {
    */
   static async recordSwipeAction(
     productId: string,
-    action: 'like' | 'skip',
+    action: SwipeActionType,
     userId: string
   ): Promise<SwipeActionResponse> {
     try {
@@ -1243,15 +1288,33 @@ export class ProductFeedService {
       // Store locally for session management
       this.swipeHistory.push(swipeAction);
 
+      const product = MOCK_PRODUCTS.find(p => p.id === productId);
+
+      // Persist across sessions; a storage failure should not fail the swipe
+      try {
+        await getSwipeHistoryService().recordSwipe({
+          ...swipeAction,
+          categoryId: product?.category.id,
+        });
+      } catch (error) {
+        console.warn('Failed to persist swipe action:', error);
+      }
+
       // If user liked a product, we might want to update their preferences
       let updatedPreferences: CategoryPreferences | undefined;
+      let addedCategoryPreference: string | undefined;
       
-      if (action === 'like') {
-        const product = MOCK_PRODUCTS.find(p => p.id === productId);
+      if (action === 'like' || action === 'superlike') {
         if (product) {
           try {
+            const { selectedCategories } = await CategoryPreferenceService.getUserPreferences();
+            const hadCategory = selectedCategories.includes(product.category.id);
             await CategoryPreferenceService.addCategoryPreference(product.category.id);
             updatedPreferences = await CategoryPreferenceService.getUserPreferences();
+            // Remember whether this like added the category so an undo only removes what it added
+            if (!hadCategory) {
+              addedCategoryPreference = product.category.id;
+            }
           } catch (error) {
             console.warn('Failed to update preferences after like:', error);
           }
@@ -1262,6 +1325,8 @@ export class ProductFeedService {
         success: true,
         message: `${action} action recorded successfully`,
         updatedPreferences,
+        swipeAction,
+        addedCategoryPreference,
       };
     } catch (error) {
       console.error('Error recording swipe action:', error);
@@ -1277,6 +1342,46 @@ export class ProductFeedService {
     }
   }
 
+  /**
+   * Undo a previously recorded swipe action.
+   * Removes it from session and persisted history, and drops the category
+   * preference the swipe added (if any).
+   */
+  static async undoSwipeAction(
+    swipeAction: SwipeAction,
+    addedCategoryPreference?: string
+  ): Promise<void> {
+    const time = new Date(swipeAction.timestamp).getTime();
+    const index = this.swipeHistory.findIndex(
+      action =>
+        action.userId === swipeAction.userId &&
+        action.productId === swipeAction.productId &&
+        action.timestamp.getTime() === time
+    );
+    if (index !== -1) {
+      this.swipeHistory.splice(index, 1);
+    }
+
+    try {
+      await getSwipeHistoryService().removeSwipe(
+        swipeAction.userId,
+        swipeAction.productId,
+        swipeAction.timestamp
+      );
+    } catch (error) {
+      console.warn('Failed to remove persisted swipe action:', error);
+    }
+
+    if (addedCategoryPreference) {
+      try {
+        await CategoryPreferenceService.removeCategoryPreference(addedCategoryPreference);
+      } catch (error) {
+        console.error('Error reverting category preference:', error);
+        throw new Error('Failed to undo swipe action');
+      }
+    }
+  }
+
   /**
    * Get products by category
    */
@@ -1297,7 +1402,9 @@ export class ProductFeedService {
   }
 
   /**
-   * Search products by query
+   * Search products by query.
+   * Runs on-device against the mock catalog plus any products cached for
+   * offline use, with prefix/typo-tolerant matching, relevance ranking and facets.
    */
   static async searchProducts(
     query: string,
@@ -1305,45 +1412,18 @@ export class ProductFeedService {
     filters?: FeedFilters
   ): Promise<ProductFeedResponse> {
     try {
-      // In production, this would be an API call with search functionality
-      await this.simulateNetworkDelay();
-
-      let filteredProducts = MOCK_PRODUCTS.filter(product =>
-        product.title.toLowerCase().includes(query.toLowerCase()) ||
-        product.description.toLowerCase().includes(query.toLowerCase())
+      const cachedProducts = await offlineModeService.getCachedProducts();
+      const result = getProductSearchService().search(
+        query,
+        [...MOCK_PRODUCTS, ...cachedProducts],
+        filters
       );
 
-      // Apply additional filters
-      if (filters?.categories && filters.categories.length > 0) {
-        filteredProducts = filteredProducts.filter(product =>
-          filters.categories!.includes(product.category.id)
-        );
-      }
-
-      if (filters?.priceRange) {
-        filteredProducts = filteredProducts.filter(product =>
-          product.price >= filters.priceRange!.min &&
-          product.price <= filters.priceRange!.max
-        );
-      }
-
-      // Apply pagination
-      const startIndex = (pagination.page - 1) * pagination.limit;
-      const endIndex = startIndex + pagination.limit;
-      const paginatedProducts = filteredProducts.slice(startIndex, endIndex);
+      const rankedProducts = result.matches.map(match => match.product);
 
       return {
-        products: paginatedProducts,
-        pagination: {
-          page: pagination.page,
-          limit: pagination.limit,
-          total: filteredProducts.length,
-          hasMore: endIndex < filteredProducts.length,
-        },
-        filters: {
-          categories: filters?.categories || [],
-          priceRange: filters?.priceRange,
-        },
+        ...this.paginate(rankedProducts, pagination, filters),
+        facets: result.facets,
       };
     } catch (error) {
       console.error('Error searching products:', error);
@@ -1351,6 +1431,19 @@ export class ProductFeedService {
     }
   }
 
+  /**
+   * Suggest search query completions from the local and cached catalog
+   */
+  static async getSearchSuggestions(query: string, limit: number = 5): Promise<string[]> {
+    try {
+      const cachedProducts = await offlineModeService.getCachedProducts();
+      return getProductSearchService().suggest(query, [...MOCK_PRODUCTS, ...cachedProducts], limit);
+    } catch (error) {
+      console.error('Error getting search suggestions:', error);
+      return [];
+    }
+  }
+
   /**
    * Get user's swipe history for current session
    */
@@ -1364,6 +1457,35 @@ export class ProductFeedService {
   static clearSession(): void {
     this.swipeHistory = [];
     this.sessionId = Date.now().toString();
+    this.rankedFeed = null;
+  }
+
+  /**
+   * Set how many days a swiped product stays out of the personalized feed
+   */
+  static setSwipeExclusionDays(days: number): void {
+    this.swipeExclusionDays = Math.max(0, days);
+  }
+
+  /**
+   * Move in-memory swipe entries for a user into the persistent history store.
+   * Runs once per user; the store skips entries it already has.
+   */
+  static async migrateSessionHistory(userId: string): Promise<number> {
+    if (this.migratedUsers.has(userId)) {
+      return 0;
+    }
+
+    const entries = this.swipeHistory
+      .filter(action => action.userId === userId)
+      .map(action => ({
+        ...action,
+        categoryId: this.getProductById(action.productId)?.category.id,
+      }));
+
+    const imported = await getSwipeHistoryService().migrateEntries(entries);
+    this.migratedUsers.add(userId);
+    return imported;
   }
 
   /**
@@ -1371,7 +1493,11 @@ export class ProductFeedService {
    */
   static getLikedProductsFromSession(): string[] {
     return this.swipeHistory
-      .filter(action => action.sessionId === this.sessionId && action.action === 'like')
+      .filter(
+        action =>
+          action.sessionId === this.sessionId &&
+          (action.action === 'like' || action.action === 'superlike')
+      )
       .map(action => action.productId);
   }
 
@@ -1384,6 +1510,62 @@ export class ProductFeedService {
       .map(action => action.productId);
   }
 
+  /**
+   * Apply category, price and exclusion filters to a product list
+   */
+  private static applyFilters(products: ProductCard[], filters?: FeedFilters): ProductCard[] {
+    let filteredProducts = [...products];
+
+    // Apply category filters
+    if (filters?.categories && filters.categories.length > 0) {
+      filteredProducts = filteredProducts.filter(product =>
+        filters.categories!.includes(product.category.id)
+      );
+    }
+
+    // Apply price range filters
+    if (filters?.priceRange) {
+      filteredProducts = filteredProducts.filter(product =>
+        isInPriceRange(product.price, filters.priceRange!)
+      );
+    }
+
+    // Exclude already swiped products
+    if (filters?.excludeProductIds && filters.excludeProductIds.length > 0) {
+      filteredProducts = filteredProducts.filter(product =>
+        !filters.excludeProductIds!.includes(product.id)
+      );
+    }
+
+    return filteredProducts;
+  }
+
+  /**
+   * Slice a product list into a paginated feed response
+   */
+  private static paginate(
+    products: ProductCard[],
+    pagination: PaginationParams,
+    filters?: FeedFilters
+  ): ProductFeedResponse {
+    const startIndex = (pagination.page - 1) * pagination.limit;
+    const endIndex = startIndex + pagination.limit;
+
+    return {
+      products: products.slice(startIndex, endIndex),
+      pagination: {
+        page: pagination.page,
+        limit: pagination.limit,
+        total: products.length,
+        hasMore: endIndex < products.length,
+      },
+      filters: {
+        categories: filters?.categories || [],
+        priceRange: filters?.priceRange,
+      },
+    };
+  }
+
   /**
    * Simulate network delay for development
    */
@@ -1395,10 +1577,10 @@ export class ProductFeedService {
   /**
    * Refresh product feed (useful for pull-to-refresh)
    */
-  static async refreshFeed(): Promise<ProductFeedResponse> {
+  static async refreshFeed(userId?: string): Promise<ProductFeedResponse> {
     try {
       // Clear any cached data and get fresh feed
-      return await this.getPersonalizedFeed({ page: 1, limit: 10 });
+      return await this.getPersonalizedFeed({ page: 1, limit: 10 }, userId);
     } catch (error) {
       console.error('Error refreshing feed:', error);
       throw new Error('Failed to refresh feed');
@@ -0,0 +1,471 @@
+import { FacetCount, PriceBucketFacet, ProductCard, SearchFacets } from '../types';
+
+export interface SearchFilters {
+  categories?: string[];
+  brands?: string[];
+  priceRange?: { min: number; max: number };
+}
+
+export interface SearchMatch {
+  product: ProductCard;
+  score: number;
+  matchedTerms: string[];
+}
+
+export interface SearchResult {
+  matches: SearchMatch[];
+  facets: SearchFacets;
+  total: number;
+}
+
+type SearchField = 'title' | 'category' | 'specifications' | 'description';
+
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  title: 3,
+  category: 2,
+  specifications: 1.5,
+  description: 1,
+};
+
+const EXACT_MATCH_FACTOR = 1;
+const PREFIX_MATCH_FACTOR = 0.8;
+const FUZZY_MATCH_FACTOR = 0.6;
+const TITLE_PHRASE_BOOST = 2;
+const MIN_PREFIX_LENGTH = 2;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'in',
+  'is', 'it', 'of', 'on', 'or', 'the', 'to', 'with',
+]);
+
+const PRICE_BUCKETS: Array<{ value: string; label: string; min: number; max?: number }> = [
+  { value: '0-25', label: 'Under $25', min: 0, max: 25 },
+  { value: '25-50', label: '$25 - $50', min: 25, max: 50 },
+  { value: '50-100', label: '$50 - $100', min: 50, max: 100 },
+  { value: '100-250', label: '$100 - $250', min: 100, max: 250 },
+  { value: '250-500', label: '$250 - $500', min: 250, max: 500 },
+  { value: '500+', label: '$500 & up', min: 500 },
+];
+
+/**
+ * Whether a price falls in a range. Ranges are half-open like the price
+ * buckets, so a $50 item is only in $50 - $100; a range without a max has
+ * no upper bound.
+ */
+export const isInPriceRange = (price: number, range: { min: number; max?: number }): boolean =>
+  price >= range.min && (range.max === undefined || price < range.max);
+
+// Signatures of catalogs already hashed; catalogs are not edited in place
+const catalogSignatures = new WeakMap<ProductCard[], string>();
+
+/**
+ * 32-bit FNV-1a hash of a string, as hex
+ */
+const hashText = (text: string): string => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16);
+};
+
+/**
+ * Split text into normalized search tokens (lowercase, no diacritics, no stop words)
+ */
+export const tokenize = (text: string): string[] => {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(token => token.length > 0 && !STOP_WORDS.has(token));
+};
+
+/**
+ * Levenshtein distance with an early exit once maxDistance is exceeded
+ */
+export const editDistance = (a: string, b: string, maxDistance: number = Infinity): number => {
+  if (Math.abs(a.length - b.length) > maxDistance) {
+    return maxDistance + 1;
+  }
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      rowMin = Math.min(rowMin, current[j]);
+    }
+
+    if (rowMin > maxDistance) {
+      return maxDistance + 1;
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+};
+
+/**
+ * Allowed typos grow with token length so short words stay precise
+ */
+const maxTyposFor = (token: string): number => {
+  if (token.length >= 8) return 2;
+  if (token.length >= 4) return 1;
+  return 0;
+};
+
+/**
+ * Resolve a display brand from product specifications
+ */
+export const getProductBrand = (product: ProductCard): string | null => {
+  const specs = product.specifications || {};
+  const brand = specs.brand ?? specs.Brand;
+  return typeof brand === 'string' && brand.trim() ? brand.trim() : null;
+};
+
+/**
+ * In-memory inverted index over product cards.
+ * Postings hold a field-weighted term frequency per product.
+ */
+export class ProductSearchIndex {
+  private postings = new Map<string, Map<string, number>>();
+  private products = new Map<string, ProductCard>();
+  private signature = '';
+
+  constructor(products: ProductCard[] = []) {
+    this.build(products);
+  }
+
+  /**
+   * Rebuild the index from a product list
+   */
+  build(products: ProductCard[]): void {
+    this.postings.clear();
+    this.products.clear();
+
+    products.forEach(product => {
+      this.products.set(product.id, product);
+      this.indexProduct(product);
+    });
+
+    this.signature = ProductSearchIndex.signatureFor(products);
+  }
+
+  /**
+   * Cheap identity for a catalog so callers can skip redundant rebuilds.
+   * Hashes the product contents, so an edited title or price also rebuilds.
+   * The hash is kept per catalog array, so a catalog is hashed once.
+   */
+  static signatureFor(products: ProductCard[]): string {
+    let signature = catalogSignatures.get(products);
+    if (signature === undefined) {
+      signature = `${products.length}:${hashText(JSON.stringify(products))}`;
+      catalogSignatures.set(products, signature);
+    }
+    return signature;
+  }
+
+  getSignature(): string {
+    return this.signature;
+  }
+
+  getTermCount(): number {
+    return this.postings.size;
+  }
+
+  getProductCount(): number {
+    return this.products.size;
+  }
+
+  private indexProduct(product: ProductCard): void {
+    const specificationText = Object.entries(product.specifications || {})
+      .map(([key, value]) => `${key} ${Array.isArray(value) ? value.join(' ') : String(value)}`)
+      .join(' ');
+
+    const fields: Record<SearchField, string> = {
+      title: product.title || '',
+      category: `${product.category?.name || ''} ${product.category?.id || ''}`,
+      specifications: specificationText,
+      description: product.description || '',
+    };
+
+    (Object.keys(fields) as SearchField[]).forEach(field => {
+      tokenize(fields[field]).forEach(term => {
+        let docs = this.postings.get(term);
+        if (!docs) {
+          docs = new Map();
+          this.postings.set(term, docs);
+        }
+        docs.set(product.id, (docs.get(product.id) || 0) + FIELD_WEIGHTS[field]);
+      });
+    });
+  }
+
+  private inverseDocumentFrequency(term: string): number {
+    const docCount = this.postings.get(term)?.size || 0;
+    return Math.log(1 + (this.products.size - docCount + 0.5) / (docCount + 0.5));
+  }
+
+  /**
+   * Find index terms matching a query token, with a match-quality factor
+   */
+  private expandToken(token: string): Array<{ term: string; factor: number }> {
+    const expansions: Array<{ term: string; factor: number }> = [];
+    const maxTypos = maxTyposFor(token);
+
+    this.postings.forEach((_, term) => {
+      if (term === token) {
+        expansions.push({ term, factor: EXACT_MATCH_FACTOR });
+      } else if (token.length >= MIN_PREFIX_LENGTH && term.startsWith(token)) {
+        expansions.push({ term, factor: PREFIX_MATCH_FACTOR });
+      } else if (maxTypos > 0) {
+        const distance = editDistance(token, term, maxTypos);
+        if (distance <= maxTypos) {
+          expansions.push({ term, factor: FUZZY_MATCH_FACTOR / distance });
+        }
+      }
+    });
+
+    return expansions;
+  }
+
+  /**
+   * Run a query against the index. Every query token must match
+   * (exactly, by prefix or within the typo budget) for a product to be returned.
+   */
+  search(query: string, filters?: SearchFilters): SearchResult {
+    const queryTokens = [...new Set(tokenize(query))];
+
+    if (queryTokens.length === 0) {
+      return { matches: [], facets: this.buildFacets([]), total: 0 };
+    }
+
+    let candidateScores: Map<string, { score: number; terms: Set<string> }> | null = null;
+
+    for (const token of queryTokens) {
+      const tokenScores = new Map<string, { score: number; term: string }>();
+
+      this.expandToken(token).forEach(({ term, factor }) => {
+        const idf = this.inverseDocumentFrequency(term);
+        this.postings.get(term)!.forEach((weight, productId) => {
+          const score = factor * idf * (1 + Math.log(weight));
+          const existing = tokenScores.get(productId);
+          // Keep the best expansion per token so prefix fan-out is not over-counted
+          if (!existing || score > existing.score) {
+            tokenScores.set(productId, { score, term });
+          }
+        });
+      });
+
+      const next = new Map<string, { score: number; terms: Set<string> }>();
+      tokenScores.forEach(({ score, term }, productId) => {
+        if (candidateScores === null) {
+          next.set(productId, { score, terms: new Set([term]) });
+        } else {
+          const previous = candidateScores.get(productId);
+          if (previous) {
+            previous.terms.add(term);
+            next.set(productId, { score: previous.score + score, terms: previous.terms });
+          }
+        }
+      });
+      candidateScores = next;
+
+      if (candidateScores.size === 0) {
+        break;
+      }
+    }
+
+    const normalizedQuery = queryTokens.join(' ');
+    const matches: SearchMatch[] = [];
+    candidateScores!.forEach(({ score, terms }, productId) => {
+      const product = this.products.get(productId)!;
+      const titleBoost = tokenize(product.title).join(' ').includes(normalizedQuery)
+        ? TITLE_PHRASE_BOOST
+        : 0;
+      matches.push({ product, score: score + titleBoost, matchedTerms: [...terms] });
+    });
+
+    matches.sort((a, b) => b.score - a.score || a.product.title.localeCompare(b.product.title));
+
+    // Facets describe the query result before facet filters are applied
+    const facets = this.buildFacets(matches.map(match => match.product));
+    const filtered = matches.filter(match => ProductSearchIndex.matchesFilters(match.product, filters));
+
+    return { matches: filtered, facets, total: filtered.length };
+  }
+
+  /**
+   * Suggest completed queries by expanding the last token to indexed terms,
+   * most common terms first
+   */
+  suggest(query: string, limit: number = 5): string[] {
+    const tokens = tokenize(query);
+    const lastToken = tokens.pop();
+
+    if (!lastToken || lastToken.length < MIN_PREFIX_LENGTH) {
+      return [];
+    }
+
+    const prefix = tokens.length > 0 ? `${tokens.join(' ')} ` : '';
+    const completions: Array<{ term: string; docCount: number }> = [];
+
+    this.postings.forEach((docs, term) => {
+      if (term.startsWith(lastToken) && term !== lastToken && !/^\d+$/.test(term)) {
+        completions.push({ term, docCount: docs.size });
+      }
+    });
+
+    return completions
+      .sort((a, b) => b.docCount - a.docCount || a.term.localeCompare(b.term))
+      .slice(0, limit)
+      .map(({ term }) => `${prefix}${term}`);
+  }
+
+  /**
+   * Check a product against category, brand and price filters
+   */
+  static matchesFilters(product: ProductCard, filters?: SearchFilters): boolean {
+    if (filters?.categories && filters.categories.length > 0) {
+      if (!filters.categories.includes(product.category.id)) {
+        return false;
+      }
+    }
+
+    if (filters?.brands && filters.brands.length > 0) {
+      const brand = getProductBrand(product);
+      if (!brand || !filters.brands.includes(brand)) {
+        return false;
+      }
+    }
+
+    if (filters?.priceRange && !isInPriceRange(product.price, filters.priceRange)) {
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Count categories, brands and price buckets across a product list
+   */
+  buildFacets(products: ProductCard[]): SearchFacets {
+    const categories = new Map<string, FacetCount>();
+    const brands = new Map<string, FacetCount>();
+    const priceBuckets: PriceBucketFacet[] = PRICE_BUCKETS.map(bucket => ({ ...bucket, count: 0 }));
+
+    products.forEach(product => {
+      const category = categories.get(product.category.id);
+      if (category) {
+        category.count++;
+      } else {
+        categories.set(product.category.id, {
+          value: product.category.id,
+          label: product.category.name,
+          count: 1,
+        });
+      }
+
+      const brand = getProductBrand(product);
+      if (brand) {
+        const existing = brands.get(brand);
+        if (existing) {
+          existing.count++;
+        } else {
+          brands.set(brand, { value: brand, label: brand, count: 1 });
+        }
+      }
+
+      const bucket = priceBuckets.find(item => isInPriceRange(product.price, item));
+      if (bucket) {
+        bucket.count++;
+      }
+    });
+
+    const byCount = (a: FacetCount, b: FacetCount) => b.count - a.count || a.label.localeCompare(b.label);
+
+    return {
+      categories: [...categories.values()].sort(byCount),
+      brands: [...brands.values()].sort(byCount),
+      priceBuckets: priceBuckets.filter(bucket => bucket.count > 0),
+    };
+  }
+}
+
+/**
+ * Search service that keeps an index over the current catalog and only
+ * rebuilds it when the set of products changes.
+ */
+export class ProductSearchService {
+  private index = new ProductSearchIndex();
+  // The catalog array last searched, which needs no new dedupe or hash
+  private indexedCatalog: ProductCard[] | null = null;
+
+  /**
+   * Make sure the index reflects the given catalog
+   */
+  ensureIndexed(products: ProductCard[]): void {
+    this.indexedCatalog = null;
+    if (ProductSearchIndex.signatureFor(products) !== this.index.getSignature()) {
+      this.index.build(products);
+    }
+  }
+
+  /**
+   * Search a catalog, de-duplicating products by id (first occurrence wins)
+   */
+  search(query: string, catalog: ProductCard[], filters?: SearchFilters): SearchResult {
+    this.indexCatalog(catalog);
+    return this.index.search(query, filters);
+  }
+
+  /**
+   * Suggest query completions from the given catalog
+   */
+  suggest(query: string, catalog: ProductCard[], limit: number = 5): string[] {
+    this.indexCatalog(catalog);
+    return this.index.suggest(query, limit);
+  }
+
+  private indexCatalog(catalog: ProductCard[]): void {
+    if (catalog !== this.indexedCatalog) {
+      this.ensureIndexed(this.dedupe(catalog));
+      this.indexedCatalog = catalog;
+    }
+  }
+
+  private dedupe(catalog: ProductCard[]): ProductCard[] {
+    const unique = new Map<string, ProductCard>();
+    catalog.forEach(product => {
+      if (!unique.has(product.id)) {
+        unique.set(product.id, product);
+      }
+    });
+    return [...unique.values()];
+  }
+
+  getIndex(): ProductSearchIndex {
+    return this.index;
+  }
+}
+
+// Singleton instance for global use
+let productSearchServiceInstance: ProductSearchService | null = null;
+
+export const getProductSearchService = (): ProductSearchService => {
+  if (!productSearchServiceInstance) {
+    productSearchServiceInstance = new ProductSearchService();
+  }
+
+  return productSearchServiceInstance;
+};
+
+export const resetProductSearchService = (): void => {
+  productSearchServiceInstance = null;
+};
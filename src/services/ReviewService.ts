@@ -1,2 +1,356 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  ProductReview,
+  ReviewEligibility,
+  ReviewInput,
+  ReviewModerationStatus,
+  ReviewPage,
+  ReviewQuery,
+  ReviewSortOrder,
+  ReviewSummary,
+  StarRating,
+} from '../types/reviews';
+import { OrderService } from './OrderService';
 
+export const REVIEW_BODY_MIN_LENGTH = 10;
+export const REVIEW_BODY_MAX_LENGTH = 2000;
+const DEFAULT_PAGE_SIZE = 5;
+
+/**
+ * Terms that hold a review for manual moderation instead of publishing it
+ */
+const HELD_FOR_MODERATION_PATTERNS = [/https?:\/\//i, /www\./i, /\b(?:promo ?code|discount code)\b/i];
+
+/**
+ * Reviews shown for the mock catalog before anyone has written one
+ */
+const SEED_REVIEWS: ProductReview[] = [
+  {
+    id: 'review-seed-1',
+    productId: 'prod-1',
+    userId: 'seed-user-1',
+    authorName: 'Maya R.',
+    rating: 5,
+    title: 'Best noise cancelling I have tried',
+    body: 'Battery easily lasts a week of commuting and the noise cancelling is excellent on the train.',
+    createdAt: new Date('2024-03-02T10:00:00Z'),
+    helpfulCount: 12,
+    moderationStatus: 'approved',
+    verifiedPurchase: true,
+  },
+  {
+    id: 'review-seed-2',
+    productId: 'prod-1',
+    userId: 'seed-user-2',
+    authorName: 'Jonas K.',
+    rating: 4,
+    body: 'Great sound, though the ear cushions get warm after a couple of hours.',
+    createdAt: new Date('2024-02-14T18:30:00Z'),
+    helpfulCount: 4,
+    moderationStatus: 'approved',
+    verifiedPurchase: true,
+  },
+  {
+    id: 'review-seed-3',
+    productId: 'prod-2',
+    userId: 'seed-user-3',
+    authorName: 'Priya S.',
+    rating: 5,
+    title: 'Soft and true to size',
+    body: 'Ordered my usual size and it fits perfectly. Still soft after several washes.',
+    createdAt: new Date('2024-01-20T09:15:00Z'),
+    helpfulCount: 7,
+    moderationStatus: 'approved',
+    verifiedPurchase: true,
+  },
+  {
+    id: 'review-seed-4',
+    productId: 'prod-2',
+    userId: 'seed-user-4',
+    authorName: 'Tom W.',
+    rating: 3,
+    body: 'Nice fabric but the color was a little lighter than in the photos.',
+    createdAt: new Date('2024-01-05T14:45:00Z'),
+    helpfulCount: 2,
+    moderationStatus: 'approved',
+    verifiedPurchase: false,
+  },
+];
+
+/**
+ * Review service interface for reading, writing and moderating product reviews
+ */
+export interface ReviewService {
+  getReviews(productId: string, query?: ReviewQuery): Promise<ReviewPage>;
+  getReviewSummary(productId: string): Promise<ReviewSummary>;
+  getReviewEligibility(productId: string, userId: string): Promise<ReviewEligibility>;
+  submitReview(userId: string, input: ReviewInput): Promise<ProductReview>;
+  voteHelpful(reviewId: string, userId: string): Promise<ProductReview>;
+  moderateReview(reviewId: string, status: ReviewModerationStatus, note?: string): Promise<ProductReview>;
+}
+
+export interface ReviewServiceOptions {
+  /** Publish reviews that pass the content screen without waiting for a moderator */
+  autoApprove?: boolean;
+  seedReviews?: ProductReview[];
+}
+
+const emptyHistogram = (): Record<StarRating, number> => ({ 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 });
+
+const compareReviews = (sort: ReviewSortOrder) => (a: ProductReview, b: ProductReview): number => {
+  const byDate = b.createdAt.getTime() - a.createdAt.getTime();
+  switch (sort) {
+    case 'helpful':
+      return b.helpfulCount - a.helpfulCount || byDate;
+    case 'rating_high':
+      return b.rating - a.rating || byDate;
+    case 'rating_low':
+      return a.rating - b.rating || byDate;
+    default:
+      return byDate;
+  }
+};
+
+/**
+ * Implementation of ReviewService backed by local storage.
+ * Only shoppers with the product in their order history can write a review.
+ */
+export class ReviewServiceImpl implements ReviewService {
+  private static readonly REVIEWS_STORAGE_KEY = '@swipely_reviews';
+  private static readonly HELPFUL_VOTES_STORAGE_KEY = '@swipely_review_votes';
+  private reviews: ProductReview[] = [];
+  private helpfulVotes: Record<string, string[]> = {};
+  private isInitialized = false;
+  private readonly autoApprove: boolean;
+  private readonly seedReviews: ProductReview[];
+
+  constructor(options: ReviewServiceOptions = {}) {
+    this.autoApprove = options.autoApprove ?? true;
+    this.seedReviews = options.seedReviews ?? SEED_REVIEWS;
+  }
+
+  /**
+   * Load reviews and helpful votes from storage
+   */
+  private async initialize(): Promise<void> {
+    if (this.isInitialized) return;
+
+    try {
+      const [storedReviews, storedVotes] = await Promise.all([
+        AsyncStorage.getItem(ReviewServiceImpl.REVIEWS_STORAGE_KEY),
+        AsyncStorage.getItem(ReviewServiceImpl.HELPFUL_VOTES_STORAGE_KEY),
+      ]);
+
+      if (storedReviews) {
+        this.reviews = (JSON.parse(storedReviews) as ProductReview[]).map(review => ({
+          ...review,
+          createdAt: new Date(review.createdAt),
+        }));
+      } else {
+        this.reviews = this.seedReviews.map(review => ({ ...review }));
+      }
+      this.helpfulVotes = storedVotes ? JSON.parse(storedVotes) : {};
+    } catch (error) {
+      console.error('Failed to initialize review service:', error);
+      this.reviews = this.seedReviews.map(review => ({ ...review }));
+      this.helpfulVotes = {};
+    }
+
+    this.isInitialized = true;
+  }
+
+  private async saveToStorage(): Promise<void> {
+    try {
+      await AsyncStorage.setItem(ReviewServiceImpl.REVIEWS_STORAGE_KEY, JSON.stringify(this.reviews));
+      await AsyncStorage.setItem(
+        ReviewServiceImpl.HELPFUL_VOTES_STORAGE_KEY,
+        JSON.stringify(this.helpfulVotes)
+      );
+    } catch (error) {
+      console.error('Failed to save reviews to storage:', error);
+      throw new Error('Failed to save reviews');
+    }
+  }
+
+  private findReview(reviewId: string): ProductReview {
+    const review = this.reviews.find(candidate => candidate.id === reviewId);
+    if (!review) {
+      throw new Error('Review not found');
+    }
+    return review;
+  }
+
+  private async hasPurchased(productId: string, userId: string): Promise<boolean> {
+    const orders = await OrderService.getOrderHistory(userId);
+    return orders.some(order => order.items.some(item => item.productId === productId));
+  }
+
+  private requiresModeration(input: ReviewInput): boolean {
+    const text = `${input.title ?? ''} ${input.body}`;
+    return HELD_FOR_MODERATION_PATTERNS.some(pattern => pattern.test(text));
+  }
+
+  async getReviews(productId: string, query: ReviewQuery = {}): Promise<ReviewPage> {
+    await this.initialize();
+
+    const page = Math.max(1, query.page ?? 1);
+    const limit = Math.max(1, query.limit ?? DEFAULT_PAGE_SIZE);
+    const visible = this.reviews
+      .filter(
+        review =>
+          review.productId === productId &&
+          (review.moderationStatus === 'approved' ||
+            (query.viewerId !== undefined && review.userId === query.viewerId))
+      )
+      .sort(compareReviews(query.sort ?? 'recent'));
+
+    const start = (page - 1) * limit;
+    return {
+      reviews: visible.slice(start, start + limit),
+      page,
+      limit,
+      total: visible.length,
+      hasMore: start + limit < visible.length,
+    };
+  }
+
+  async getReviewSummary(productId: string): Promise<ReviewSummary> {
+    await this.initialize();
+
+    const histogram = emptyHistogram();
+    let ratingTotal = 0;
+    let totalReviews = 0;
+
+    this.reviews.forEach(review => {
+      if (review.productId !== productId || review.moderationStatus !== 'approved') return;
+      histogram[review.rating] += 1;
+      ratingTotal += review.rating;
+      totalReviews += 1;
+    });
+
+    return {
+      productId,
+      averageRating: totalReviews > 0 ? parseFloat((ratingTotal / totalReviews).toFixed(1)) : 0,
+      totalReviews,
+      histogram,
+    };
+  }
+
+  async getReviewEligibility(productId: string, userId: string): Promise<ReviewEligibility> {
+    await this.initialize();
+
+    const alreadyReviewed = this.reviews.some(
+      review =>
+        review.productId === productId &&
+        review.userId === userId &&
+        review.moderationStatus !== 'rejected'
+    );
+    if (alreadyReviewed) {
+      return { canReview: false, reason: 'already_reviewed' };
+    }
+
+    if (!(await this.hasPurchased(productId, userId))) {
+      return { canReview: false, reason: 'not_purchased' };
+    }
+
+    return { canReview: true };
+  }
+
+  async submitReview(userId: string, input: ReviewInput): Promise<ProductReview> {
+    if (!Number.isInteger(input.rating) || input.rating < 1 || input.rating > 5) {
+      throw new Error('Rating must be a whole number from 1 to 5');
+    }
+    const body = input.body.trim();
+    if (body.length < REVIEW_BODY_MIN_LENGTH) {
+      throw new Error(`Review must be at least ${REVIEW_BODY_MIN_LENGTH} characters`);
+    }
+    if (body.length > REVIEW_BODY_MAX_LENGTH) {
+      throw new Error(`Review must be at most ${REVIEW_BODY_MAX_LENGTH} characters`);
+    }
+
+    const eligibility = await this.getReviewEligibility(input.productId, userId);
+    if (eligibility.reason === 'already_reviewed') {
+      throw new Error('You have already reviewed this product');
+    }
+    if (eligibility.reason === 'not_purchased') {
+      throw new Error('Only customers who bought this product can review it');
+    }
+
+    const review: ProductReview = {
+      id: `review-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      productId: input.productId,
+      userId,
+      authorName: input.authorName.trim() || 'Swipely shopper',
+      rating: input.rating as StarRating,
+      title: input.title?.trim() || undefined,
+      body,
+      createdAt: new Date(),
+      helpfulCount: 0,
+      moderationStatus:
+        this.autoApprove && !this.requiresModeration(input) ? 'approved' : 'pending',
+      verifiedPurchase: true,
+    };
+
+    this.reviews = [review, ...this.reviews];
+    await this.saveToStorage();
+    return review;
+  }
+
+  async voteHelpful(reviewId: string, userId: string): Promise<ProductReview> {
+    await this.initialize();
+
+    const review = this.findReview(reviewId);
+    if (review.userId === userId) {
+      throw new Error('You cannot vote on your own review');
+    }
+    if (review.moderationStatus !== 'approved') {
+      throw new Error('Only published reviews can be voted on');
+    }
+
+    const voters = this.helpfulVotes[reviewId] ?? [];
+    if (voters.includes(userId)) {
+      return review;
+    }
+
+    this.helpfulVotes[reviewId] = [...voters, userId];
+    review.helpfulCount += 1;
+    await this.saveToStorage();
+    return review;
+  }
+
+  async moderateReview(
+    reviewId: string,
+    status: ReviewModerationStatus,
+    note?: string
+  ): Promise<ProductReview> {
+    await this.initialize();
+
+    const review = this.findReview(reviewId);
+    review.moderationStatus = status;
+    review.moderationNote = note;
+    await this.saveToStorage();
+    return review;
+  }
+}
+
+/**
+ * Singleton instance of the review service
+ */
+let reviewServiceInstance: ReviewService | null = null;
+
+/**
+ * Get the singleton instance of the review service
+ */
+export const getReviewService = (): ReviewService => {
+  if (!reviewServiceInstance) {
+    reviewServiceInstance = new ReviewServiceImpl();
+  }
+  return reviewServiceInstance;
+};
+
+/**
+ * Reset the review service instance (useful for testing)
+ */
+export const resetReviewService = (): void => {
+  reviewServiceInstance = null;
+};
@@ -0,0 +1,70 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+const RECENT_SEARCHES_KEY = '@swipely_recent_searches';
+const MAX_RECENT_SEARCHES = 10;
+
+export class SearchHistoryService {
+  /**
+   * Get recent search queries, newest first
+   */
+  static async getRecentSearches(): Promise<string[]> {
+    try {
+      const stored = await AsyncStorage.getItem(RECENT_SEARCHES_KEY);
+      return stored ? JSON.parse(stored) : [];
+    } catch (error) {
+      console.error('Error getting recent searches:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Record a search query, moving it to the front if it already exists
+   */
+  static async addRecentSearch(query: string): Promise<string[]> {
+    const trimmed = query.trim();
+    if (!trimmed) {
+      return this.getRecentSearches();
+    }
+
+    try {
+      const recent = await this.getRecentSearches();
+      const updated = [
+        trimmed,
+        ...recent.filter(item => item.toLowerCase() !== trimmed.toLowerCase()),
+      ].slice(0, MAX_RECENT_SEARCHES);
+
+      await AsyncStorage.setItem(RECENT_SEARCHES_KEY, JSON.stringify(updated));
+      return updated;
+    } catch (error) {
+      console.error('Error saving recent search:', error);
+      throw new Error('Failed to save recent search');
+    }
+  }
+
+  /**
+   * Remove a single query from recent searches
+   */
+  static async removeRecentSearch(query: string): Promise<string[]> {
+    try {
+      const recent = await this.getRecentSearches();
+      const updated = recent.filter(item => item !== query);
+      await AsyncStorage.setItem(RECENT_SEARCHES_KEY, JSON.stringify(updated));
+      return updated;
+    } catch (error) {
+      console.error('Error removing recent search:', error);
+      throw new Error('Failed to remove recent search');
+    }
+  }
+
+  /**
+   * Clear all recent searches
+   */
+  static async clearRecentSearches(): Promise<void> {
+    try {
+      await AsyncStorage.removeItem(RECENT_SEARCHES_KEY);
+    } catch (error) {
+      console.error('Error clearing recent searches:', error);
+      throw new Error('Failed to clear recent searches');
+    }
+  }
+}
@@ -1,11 +1,31 @@
 import * as Haptics from 'expo-haptics';
 import { ProductFeedService } from './ProductFeedService';
-import { SwipeAction, SwipeActionResponse } from '../types';
+import { SwipeAction, SwipeActionResponse, SwipeActionType, SwipeDirection } from '../types';
+
+/**
+ * Action recorded for each swipe direction
+ */
+export const SWIPE_DIRECTION_ACTIONS: Record<SwipeDirection, SwipeActionType> = {
+  left: 'skip',
+  right: 'like',
+  up: 'cart',
+  down: 'superlike',
+};
+
+/**
+ * Direction a card leaves in for each action (used to reverse it on undo)
+ */
+export const getSwipeDirectionForAction = (action: SwipeActionType): SwipeDirection =>
+  (Object.keys(SWIPE_DIRECTION_ACTIONS) as SwipeDirection[]).find(
+    direction => SWIPE_DIRECTION_ACTIONS[direction] === action
+  ) || 'left';
 
 export interface SwipeActionHandler {
   onSwipeLeft: (productId: string) => Promise<void>;
   onSwipeRight: (productId: string) => Promise<void>;
-  recordSwipeAction: (productId: string, action: 'like' | 'skip', userId: string) => Promise<SwipeActionResponse>;
+  onSwipeUp: (productId: string) => Promise<void>;
+  onSwipeDown: (productId: string) => Promise<void>;
+  recordSwipeAction: (productId: string, action: SwipeActionType, userId: string) => Promise<SwipeActionResponse>;
 }
 
 export class SwipeActionService implements SwipeActionHandler {
@@ -23,9 +43,7 @@ export class SwipeActionService implements SwipeActionHandler {
   async onSwipeLeft(productId: string): Promise<void> {
     try {
       // Provide haptic feedback for skip action
-      if (this.hapticEnabled) {
-        await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
-      }
+      await this.playSwipeFeedback('skip');
 
       // Record the skip action
       await this.recordSwipeAction(productId, 'skip', this.userId);
@@ -41,9 +59,7 @@ export class SwipeActionService implements SwipeActionHandler {
   async onSwipeRight(productId: string): Promise<void> {
     try {
       // Provide haptic feedback for like action
-      if (this.hapticEnabled) {
-        await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
-      }
+      await this.playSwipeFeedback('like');
 
       // Record the like action
       await this.recordSwipeAction(productId, 'like', this.userId);
@@ -53,12 +69,83 @@ export class SwipeActionService implements SwipeActionHandler {
     }
   }
 
+  /**
+   * Handle up swipe (add to cart) action
+   */
+  async onSwipeUp(productId: string): Promise<void> {
+    try {
+      await this.playSwipeFeedback('cart');
+      await this.recordSwipeAction(productId, 'cart', this.userId);
+    } catch (error) {
+      console.error('Error handling up swipe:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Handle down swipe (super-like) action
+   */
+  async onSwipeDown(productId: string): Promise<void> {
+    try {
+      await this.playSwipeFeedback('superlike');
+      await this.recordSwipeAction(productId, 'superlike', this.userId);
+    } catch (error) {
+      console.error('Error handling down swipe:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Handle a swipe in any direction
+   */
+  async onSwipe(direction: SwipeDirection, productId: string): Promise<void> {
+    switch (direction) {
+      case 'left':
+        return this.onSwipeLeft(productId);
+      case 'right':
+        return this.onSwipeRight(productId);
+      case 'up':
+        return this.onSwipeUp(productId);
+      case 'down':
+        return this.onSwipeDown(productId);
+    }
+  }
+
+  /**
+   * Play the haptic feedback for a swipe without recording it.
+   * Used when the caller records the swipe itself (e.g. the feed's undo stack).
+   * Each action has its own pattern.
+   */
+  async playSwipeFeedback(action: SwipeActionType): Promise<void> {
+    if (!this.hapticEnabled) {
+      return;
+    }
+
+    switch (action) {
+      case 'skip':
+        await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+        break;
+      case 'like':
+        await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+        break;
+      case 'cart':
+        await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+        break;
+      case 'superlike':
+        // Double heavy tap sets super-like apart from a regular like
+        await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Heavy);
+        await new Promise(resolve => setTimeout(resolve, 100));
+        await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Heavy);
+        break;
+    }
+  }
+
   /**
    * Record swipe action using ProductFeedService
    */
   async recordSwipeAction(
     productId: string, 
-    action: 'like' | 'skip', 
+    action: SwipeActionType, 
     userId: string
   ): Promise<SwipeActionResponse> {
     try {
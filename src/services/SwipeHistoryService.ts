@@ -0,0 +1,281 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { SwipeAction } from '../types';
+
+/**
+ * Persisted swipe entry. Category is denormalized so history can be
+ * queried without resolving every product.
+ */
+export interface SwipeHistoryEntry extends SwipeAction {
+  categoryId?: string;
+}
+
+/**
+ * Filters for querying swipe history
+ */
+export interface SwipeHistoryQuery {
+  action?: SwipeAction['action'];
+  categoryId?: string;
+  from?: Date;
+  to?: Date;
+  limit?: number;
+}
+
+/**
+ * Retention limits applied whenever history is loaded or written
+ */
+export interface SwipeHistoryRetention {
+  maxEntries: number;
+  maxAgeDays: number;
+}
+
+/**
+ * Swipe history service interface for durable, per-user swipe storage
+ */
+export interface SwipeHistoryService {
+  recordSwipe(entry: SwipeHistoryEntry): Promise<void>;
+  removeSwipe(userId: string, productId: string, timestamp: Date): Promise<boolean>;
+  getHistory(userId: string): Promise<SwipeHistoryEntry[]>;
+  query(userId: string, query?: SwipeHistoryQuery): Promise<SwipeHistoryEntry[]>;
+  getRecentlySwipedProductIds(userId: string, withinDays: number): Promise<string[]>;
+  migrateEntries(entries: SwipeHistoryEntry[]): Promise<number>;
+  clearHistory(userId: string): Promise<void>;
+  setRetention(retention: Partial<SwipeHistoryRetention>): void;
+  getRetention(): SwipeHistoryRetention;
+}
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+const DEFAULT_RETENTION: SwipeHistoryRetention = {
+  maxEntries: 1000,
+  maxAgeDays: 90,
+};
+
+/**
+ * Implementation of SwipeHistoryService backed by AsyncStorage
+ */
+export class SwipeHistoryServiceImpl implements SwipeHistoryService {
+  private static readonly STORAGE_KEY_PREFIX = '@swipely_swipe_history_';
+  private cache = new Map<string, SwipeHistoryEntry[]>();
+  private retention: SwipeHistoryRetention;
+
+  constructor(retention: Partial<SwipeHistoryRetention> = {}) {
+    this.retention = { ...DEFAULT_RETENTION, ...retention };
+  }
+
+  private getStorageKey(userId: string): string {
+    return `${SwipeHistoryServiceImpl.STORAGE_KEY_PREFIX}${userId}`;
+  }
+
+  /**
+   * Load a user's history from storage (once per user)
+   */
+  private async load(userId: string): Promise<SwipeHistoryEntry[]> {
+    const cached = this.cache.get(userId);
+    if (cached) {
+      return cached;
+    }
+
+    let entries: SwipeHistoryEntry[] = [];
+    try {
+      const stored = await AsyncStorage.getItem(this.getStorageKey(userId));
+      if (stored) {
+        const parsed: SwipeHistoryEntry[] = JSON.parse(stored);
+        // Convert date strings back to Date objects
+        entries = parsed.map(entry => ({
+          ...entry,
+          timestamp: new Date(entry.timestamp),
+        }));
+      }
+    } catch (error) {
+      console.error('Failed to load swipe history:', error);
+      entries = [];
+    }
+
+    entries = this.applyRetention(entries);
+    this.cache.set(userId, entries);
+    return entries;
+  }
+
+  /**
+   * Save a user's history to storage
+   */
+  private async save(userId: string, entries: SwipeHistoryEntry[]): Promise<void> {
+    this.cache.set(userId, entries);
+    try {
+      await AsyncStorage.setItem(this.getStorageKey(userId), JSON.stringify(entries));
+    } catch (error) {
+      console.error('Failed to save swipe history:', error);
+      throw new Error('Failed to save swipe history data');
+    }
+  }
+
+  /**
+   * Drop entries older than maxAgeDays and keep only the newest maxEntries
+   */
+  private applyRetention(entries: SwipeHistoryEntry[]): SwipeHistoryEntry[] {
+    const cutoff = Date.now() - this.retention.maxAgeDays * MS_PER_DAY;
+    const sorted = entries
+      .filter(entry => entry.timestamp.getTime() >= cutoff)
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+
+    return sorted.length > this.retention.maxEntries
+      ? sorted.slice(sorted.length - this.retention.maxEntries)
+      : sorted;
+  }
+
+  /**
+   * Record a single swipe for its user
+   */
+  async recordSwipe(entry: SwipeHistoryEntry): Promise<void> {
+    const entries = await this.load(entry.userId);
+    const next = this.applyRetention([
+      ...entries,
+      { ...entry, timestamp: new Date(entry.timestamp) },
+    ]);
+    await this.save(entry.userId, next);
+  }
+
+  /**
+   * Remove a single recorded swipe (e.g. when the user undoes it).
+   * Returns false if no matching entry was found.
+   */
+  async removeSwipe(userId: string, productId: string, timestamp: Date): Promise<boolean> {
+    const entries = await this.load(userId);
+    const time = new Date(timestamp).getTime();
+    const index = entries.findIndex(
+      entry => entry.productId === productId && entry.timestamp.getTime() === time
+    );
+
+    if (index === -1) {
+      return false;
+    }
+
+    await this.save(userId, [...entries.slice(0, index), ...entries.slice(index + 1)]);
+    return true;
+  }
+
+  /**
+   * Get a user's full retained history, oldest first
+   */
+  async getHistory(userId: string): Promise<SwipeHistoryEntry[]> {
+    const entries = await this.load(userId);
+    return [...entries];
+  }
+
+  /**
+   * Query a user's history by action, category and date range.
+   * Results are newest first.
+   */
+  async query(userId: string, query: SwipeHistoryQuery = {}): Promise<SwipeHistoryEntry[]> {
+    const entries = await this.load(userId);
+
+    const results = entries
+      .filter(entry => {
+        if (query.action && entry.action !== query.action) {
+          return false;
+        }
+        if (query.categoryId && entry.categoryId !== query.categoryId) {
+          return false;
+        }
+        if (query.from && entry.timestamp.getTime() < query.from.getTime()) {
+          return false;
+        }
+        if (query.to && entry.timestamp.getTime() > query.to.getTime()) {
+          return false;
+        }
+        return true;
+      })
+      .reverse();
+
+    return query.limit !== undefined ? results.slice(0, query.limit) : results;
+  }
+
+  /**
+   * Get unique product IDs swiped by the user within the last N days
+   */
+  async getRecentlySwipedProductIds(userId: string, withinDays: number): Promise<string[]> {
+    const from = new Date(Date.now() - withinDays * MS_PER_DAY);
+    const entries = await this.query(userId, { from });
+    return [...new Set(entries.map(entry => entry.productId))];
+  }
+
+  /**
+   * Import entries recorded elsewhere (e.g. the in-memory session history).
+   * Entries already present are skipped. Returns the number imported.
+   */
+  async migrateEntries(entries: SwipeHistoryEntry[]): Promise<number> {
+    const byUser = new Map<string, SwipeHistoryEntry[]>();
+    entries.forEach(entry => {
+      const list = byUser.get(entry.userId) || [];
+      list.push({ ...entry, timestamp: new Date(entry.timestamp) });
+      byUser.set(entry.userId, list);
+    });
+
+    let imported = 0;
+    for (const [userId, incoming] of byUser) {
+      const existing = await this.load(userId);
+      const seen = new Set(
+        existing.map(entry => `${entry.productId}:${entry.timestamp.getTime()}`)
+      );
+      const fresh = incoming.filter(
+        entry => !seen.has(`${entry.productId}:${entry.timestamp.getTime()}`)
+      );
+
+      if (fresh.length > 0) {
+        imported += fresh.length;
+        await this.save(userId, this.applyRetention([...existing, ...fresh]));
+      }
+    }
+
+    return imported;
+  }
+
+  /**
+   * Clear a user's swipe history
+   */
+  async clearHistory(userId: string): Promise<void> {
+    this.cache.set(userId, []);
+    try {
+      await AsyncStorage.removeItem(this.getStorageKey(userId));
+    } catch (error) {
+      console.error('Failed to clear swipe history:', error);
+      throw new Error('Failed to clear swipe history data');
+    }
+  }
+
+  /**
+   * Update retention limits. Applied on the next write.
+   */
+  setRetention(retention: Partial<SwipeHistoryRetention>): void {
+    this.retention = { ...this.retention, ...retention };
+  }
+
+  /**
+   * Get current retention limits
+   */
+  getRetention(): SwipeHistoryRetention {
+    return { ...this.retention };
+  }
+}
+
+/**
+ * Singleton instance of the swipe history service
+ */
+let swipeHistoryServiceInstance: SwipeHistoryService | null = null;
+
+/**
+ * Get the singleton instance of the swipe history service
+ */
+export const getSwipeHistoryService = (): SwipeHistoryService => {
+  if (!swipeHistoryServiceInstance) {
+    swipeHistoryServiceInstance = new SwipeHistoryServiceImpl();
+  }
+  return swipeHistoryServiceInstance;
+};
+
+/**
+ * Reset the swipe history service instance (useful for testing)
+ */
+export const resetSwipeHistoryService = (): void => {
+  swipeHistoryServiceInstance = null;
+};
@@ -0,0 +1,322 @@
+import { ProductCard, SwipeAction, SwipeActionType } from '../types';
+import { ProductFeedProvider } from '../data/providers/ProductFeedProvider';
+import { WishlistProvider } from '../data/providers/WishlistProvider';
+import { CartProvider } from '../data/providers/CartProvider';
+import { SkippedProductsService } from './SkippedProductsService';
+import { AnalyticsService } from './AnalyticsService';
+import { getSwipeDirectionForAction } from './SwipeActionService';
+import { getItemCollectionIds } from './WishlistService';
+import { getCartLineId, getDefaultVariantSelection } from '../utils/productVariants';
+
+/**
+ * Side effects a swipe actually applied. Only these are rolled back on undo,
+ * so state that existed before the swipe is left alone.
+ */
+export interface AppliedSwipeEffects {
+  wishlistAdded: boolean;
+  /** Collection a like filed an already wishlisted product in */
+  collectionAdded?: string;
+  skippedAdded: boolean;
+  /** Cart quantity before a cart swipe added one; undefined if nothing was added */
+  cartQuantityBefore?: number;
+  /** Cart line the swipe added to, which includes the default variant if the product has any */
+  cartLineId?: string;
+  swipeAction?: SwipeAction;
+  addedCategoryPreference?: string;
+  analyticsTracked: boolean;
+}
+
+/**
+ * A swipe that can still be undone
+ */
+export interface SwipeUndoEntry {
+  product: ProductCard;
+  action: SwipeActionType;
+  userId: string;
+  cardIndex: number;
+  applied: AppliedSwipeEffects;
+  /** Resolves once every side effect has been attempted; never rejects */
+  settled: Promise<void>;
+}
+
+/**
+ * Outcome of an undo. Rollback is best effort: each effect is reverted
+ * independently and failures are collected rather than aborting the undo.
+ */
+export interface SwipeUndoResult {
+  entry: SwipeUndoEntry;
+  errors: Error[];
+}
+
+/**
+ * Per-swipe choices made by the user
+ */
+export interface SwipeOptions {
+  /** Wishlist collection a like saves into; the default collection when absent */
+  collectionId?: string;
+}
+
+/**
+ * Collaborators whose side effects a swipe applies and an undo reverts
+ */
+export interface SwipeUndoTargets {
+  wishlist: Pick<
+    WishlistProvider,
+    'addToWishlist' | 'removeFromWishlist' | 'removeFromCollection' | 'isInWishlist' | 'getWishlistItems'
+  >;
+  skipped: Pick<SkippedProductsService, 'addSkippedProduct' | 'removeSkippedProduct' | 'isProductSkipped'>;
+  cart: Pick<CartProvider, 'addToCart' | 'removeFromCart' | 'updateQuantity' | 'getCartItems'>;
+  feed: Pick<ProductFeedProvider, 'recordSwipeAction' | 'undoSwipeAction'>;
+  analytics: Pick<AnalyticsService, 'trackSwipe' | 'markSwipeUndone'>;
+}
+
+/**
+ * Swipe undo service interface for applying swipes and taking them back
+ */
+export interface SwipeUndoService {
+  recordSwipe(
+    product: ProductCard,
+    action: SwipeActionType,
+    userId: string,
+    cardIndex: number,
+    options?: SwipeOptions
+  ): Promise<AppliedSwipeEffects>;
+  undo(): Promise<SwipeUndoResult | null>;
+  canUndo(): boolean;
+  getDepth(): number;
+  clear(): void;
+}
+
+const DEFAULT_MAX_DEPTH = 20;
+
+const toError = (error: unknown): Error =>
+  error instanceof Error ? error : new Error(String(error));
+
+/**
+ * Implementation of SwipeUndoService with an in-memory, multi-level stack.
+ * Swipes older than maxDepth drop off the bottom and become permanent.
+ */
+export class SwipeUndoServiceImpl implements SwipeUndoService {
+  private stack: SwipeUndoEntry[] = [];
+  private targets: SwipeUndoTargets;
+  private readonly maxDepth: number;
+
+  constructor(targets: SwipeUndoTargets, maxDepth: number = DEFAULT_MAX_DEPTH) {
+    this.targets = targets;
+    this.maxDepth = maxDepth;
+  }
+
+  /**
+   * Apply a swipe's side effects and push it onto the undo stack.
+   * The entry is pushed synchronously so an undo issued while effects are
+   * still in flight waits for them instead of racing them.
+   * Rejects with the first failure after all effects have been attempted.
+   */
+  recordSwipe(
+    product: ProductCard,
+    action: SwipeActionType,
+    userId: string,
+    cardIndex: number,
+    options: SwipeOptions = {}
+  ): Promise<AppliedSwipeEffects> {
+    const applied: AppliedSwipeEffects = {
+      wishlistAdded: false,
+      skippedAdded: false,
+      analyticsTracked: false,
+    };
+    const errors: Error[] = [];
+
+    const settled = this.applyEffects(product, action, userId, options, applied, errors);
+
+    this.stack.push({ product, action, userId, cardIndex, applied, settled });
+    if (this.stack.length > this.maxDepth) {
+      this.stack.splice(0, this.stack.length - this.maxDepth);
+    }
+
+    return settled.then(() => {
+      if (errors.length > 0) {
+        throw errors[0];
+      }
+      return applied;
+    });
+  }
+
+  /**
+   * Undo the most recent swipe, reverting its side effects newest first
+   */
+  async undo(): Promise<SwipeUndoResult | null> {
+    const entry = this.stack.pop();
+    if (!entry) {
+      return null;
+    }
+
+    await entry.settled;
+
+    const { applied, product, userId } = entry;
+    const errors: Error[] = [];
+    const attempt = async (revert: () => Promise<unknown>) => {
+      try {
+        await revert();
+      } catch (error) {
+        errors.push(toError(error));
+      }
+    };
+
+    if (applied.analyticsTracked) {
+      await attempt(() => this.targets.analytics.markSwipeUndone(product.id, userId));
+    }
+    if (applied.swipeAction) {
+      const { swipeAction, addedCategoryPreference } = applied;
+      await attempt(() => this.targets.feed.undoSwipeAction(swipeAction, addedCategoryPreference));
+    }
+    if (applied.skippedAdded) {
+      await attempt(() => this.targets.skipped.removeSkippedProduct(product.id));
+    }
+    if (applied.wishlistAdded) {
+      await attempt(() => this.targets.wishlist.removeFromWishlist(product.id));
+    }
+    if (applied.collectionAdded) {
+      const collectionId = applied.collectionAdded;
+      await attempt(() => this.targets.wishlist.removeFromCollection(product.id, collectionId));
+    }
+    if (applied.cartQuantityBefore !== undefined) {
+      const quantity = applied.cartQuantityBefore;
+      const lineId = applied.cartLineId ?? product.id;
+      await attempt(() =>
+        quantity > 0
+          ? this.targets.cart.updateQuantity(lineId, quantity)
+          : this.targets.cart.removeFromCart(lineId)
+      );
+    }
+
+    if (errors.length > 0) {
+      console.warn('Swipe undo completed with errors:', errors);
+    }
+
+    return { entry, errors };
+  }
+
+  canUndo(): boolean {
+    return this.stack.length > 0;
+  }
+
+  getDepth(): number {
+    return this.stack.length;
+  }
+
+  /**
+   * Drop all undo history (e.g. when the feed is replaced)
+   */
+  clear(): void {
+    this.stack = [];
+  }
+
+  /**
+   * Swap the collaborators used for new swipes and undos
+   */
+  setTargets(targets: SwipeUndoTargets): void {
+    this.targets = targets;
+  }
+
+  private async applyEffects(
+    product: ProductCard,
+    action: SwipeActionType,
+    userId: string,
+    options: SwipeOptions,
+    applied: AppliedSwipeEffects,
+    errors: Error[]
+  ): Promise<void> {
+    const { wishlist, skipped, cart, feed, analytics } = this.targets;
+
+    try {
+      if (action === 'like' || action === 'superlike') {
+        if (options.collectionId) {
+          // A product already on the wishlist is filed in the chosen collection
+          // too; undo takes it back out of only that collection
+          const existing = (await wishlist.getWishlistItems()).find(
+            item => item.productId === product.id
+          );
+          const alreadyInCollection =
+            !!existing && getItemCollectionIds(existing).includes(options.collectionId);
+          await wishlist.addToWishlist(product.id, options.collectionId);
+          applied.wishlistAdded = !existing;
+          if (existing && !alreadyInCollection) {
+            applied.collectionAdded = options.collectionId;
+          }
+        } else {
+          const alreadyWishlisted = await wishlist.isInWishlist(product.id);
+          if (!alreadyWishlisted) {
+            await wishlist.addToWishlist(product.id);
+          }
+          applied.wishlistAdded = !alreadyWishlisted;
+        }
+      } else if (action === 'cart') {
+        const selectedVariants = getDefaultVariantSelection(product);
+        const lineId = getCartLineId(product.id, selectedVariants);
+        const existing = (await cart.getCartItems()).find(
+          item => getCartLineId(item.productId, item.selectedVariants) === lineId
+        );
+        await cart.addToCart(product.id, 1, selectedVariants);
+        applied.cartQuantityBefore = existing?.quantity ?? 0;
+        applied.cartLineId = lineId;
+      } else if (!(await skipped.isProductSkipped(product.id))) {
+        await skipped.addSkippedProduct(product.id, product.category.id || 'general');
+        applied.skippedAdded = true;
+      }
+    } catch (error) {
+      errors.push(toError(error));
+    }
+
+    try {
+      const response = await feed.recordSwipeAction(product.id, action, userId);
+      applied.swipeAction = response.swipeAction;
+      applied.addedCategoryPreference = response.addedCategoryPreference;
+    } catch (error) {
+      errors.push(toError(error));
+    }
+
+    try {
+      await analytics.trackSwipe(
+        product.id,
+        action,
+        product.category.id,
+        product.price,
+        { direction: getSwipeDirectionForAction(action) },
+        userId
+      );
+      applied.analyticsTracked = true;
+    } catch (error) {
+      errors.push(toError(error));
+    }
+  }
+}
+
+/**
+ * Singleton instance of the swipe undo service
+ */
+let swipeUndoServiceInstance: SwipeUndoServiceImpl | null = null;
+
+/**
+ * Get the singleton instance of the swipe undo service.
+ * Targets are required on first use; passing them again replaces them.
+ */
+export const getSwipeUndoService = (targets?: SwipeUndoTargets): SwipeUndoService => {
+  if (!swipeUndoServiceInstance && targets) {
+    swipeUndoServiceInstance = new SwipeUndoServiceImpl(targets);
+  } else if (swipeUndoServiceInstance && targets) {
+    swipeUndoServiceInstance.setTargets(targets);
+  }
+
+  if (!swipeUndoServiceInstance) {
+    throw new Error('SwipeUndoService not initialized. Please provide undo targets.');
+  }
+
+  return swipeUndoServiceInstance;
+};
+
+/**
+ * Reset the swipe undo service instance (useful for testing)
+ */
+export const resetSwipeUndoService = (): void => {
+  swipeUndoServiceInstance = null;
+};
@@ -0,0 +1,134 @@
+import { AppConfig } from '../config/env';
+import type { SyncData } from './DataSyncService';
+
+/** Edit counters per device, e.g. `{ ios_123: 2, android_456: 1 }`. */
+export type VersionVector = Record<string, number>;
+
+export type VersionVectorOrder = 'equal' | 'before' | 'after' | 'concurrent';
+
+export interface SyncPullResult {
+  records: SyncData[];
+  cursor: number;
+}
+
+export interface SyncPushRecordResult {
+  id: string;
+  status: 'accepted' | 'unchanged' | 'stale' | 'conflict';
+  record: SyncData;
+}
+
+export interface SyncPushResult {
+  results: SyncPushRecordResult[];
+  cursor: number;
+}
+
+export interface SyncTransport {
+  pull(userId: string, since: number): Promise<SyncPullResult>;
+  push(userId: string, deviceId: string, records: SyncData[]): Promise<SyncPushResult>;
+}
+
+/**
+ * Compare two version vectors. 'after' means `a` has seen every edit in `b` and
+ * more; 'concurrent' means each side has edits the other has not seen.
+ */
+export const compareVersionVectors = (
+  a: VersionVector = {},
+  b: VersionVector = {}
+): VersionVectorOrder => {
+  let aAhead = false;
+  let bAhead = false;
+
+  for (const deviceId of new Set([...Object.keys(a), ...Object.keys(b)])) {
+    const aCounter = a[deviceId] || 0;
+    const bCounter = b[deviceId] || 0;
+    if (aCounter > bCounter) aAhead = true;
+    if (bCounter > aCounter) bAhead = true;
+  }
+
+  if (aAhead && bAhead) return 'concurrent';
+  if (aAhead) return 'after';
+  if (bAhead) return 'before';
+  return 'equal';
+};
+
+export const mergeVersionVectors = (
+  a: VersionVector = {},
+  b: VersionVector = {}
+): VersionVector => {
+  const merged: VersionVector = { ...a };
+  for (const [deviceId, counter] of Object.entries(b)) {
+    merged[deviceId] = Math.max(merged[deviceId] || 0, counter);
+  }
+  return merged;
+};
+
+/**
+ * Used when there is no sync server (mock data mode): nothing comes back from a
+ * pull and every push is accepted as-is.
+ */
+export class LocalSyncTransport implements SyncTransport {
+  async pull(_userId: string, since: number): Promise<SyncPullResult> {
+    return { records: [], cursor: since };
+  }
+
+  async push(_userId: string, _deviceId: string, records: SyncData[]): Promise<SyncPushResult> {
+    return {
+      results: records.map(record => ({ id: record.id, status: 'accepted', record })),
+      cursor: 0,
+    };
+  }
+}
+
+export class HttpSyncTransport implements SyncTransport {
+  private readonly baseUrl: string;
+
+  constructor(baseUrl: string = AppConfig.api.baseUrl) {
+    this.baseUrl = baseUrl;
+  }
+
+  private ensureConfigured(): void {
+    if (!this.baseUrl) {
+      throw new Error('API mode is enabled but EXPO_PUBLIC_API_BASE_URL is not configured.');
+    }
+  }
+
+  async pull(userId: string, since: number): Promise<SyncPullResult> {
+    this.ensureConfigured();
+    const response = await fetch(
+      `${this.baseUrl}/sync?userId=${encodeURIComponent(userId)}&since=${since}`,
+      { method: 'GET' }
+    );
+
+    if (!response.ok) {
+      throw new Error(`Failed to pull sync data: ${response.status}`);
+    }
+
+    const data = await response.json();
+    return {
+      records: Array.isArray(data.records) ? data.records : [],
+      cursor: Number(data.cursor) || since,
+    };
+  }
+
+  async push(userId: string, deviceId: string, records: SyncData[]): Promise<SyncPushResult> {
+    this.ensureConfigured();
+    const response = await fetch(`${this.baseUrl}/sync`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ userId, deviceId, records }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to push sync data: ${response.status}`);
+    }
+
+    const data = await response.json();
+    return {
+      results: Array.isArray(data.results) ? data.results : [],
+      cursor: Number(data.cursor) || 0,
+    };
+  }
+}
+
+export const createSyncTransport = (): SyncTransport =>
+  AppConfig.features.useMockData ? new LocalSyncTransport() : new HttpSyncTransport();
@@ -0,0 +1,288 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { ProductCard } from '../types';
+import { WishlistItem } from './WishlistService';
+
+/**
+ * Price and availability of a wishlisted product when it was last checked
+ */
+export interface WishlistSnapshot {
+  price: number;
+  currency: string;
+  availability: boolean;
+  recordedAt: number;
+}
+
+export type WishlistAlertType = 'price_drop' | 'back_in_stock' | 'out_of_stock';
+
+/**
+ * An entry in the in-app notification inbox
+ */
+export interface WishlistAlert {
+  id: string;
+  productId: string;
+  productTitle: string;
+  type: WishlistAlertType;
+  currency: string;
+  previousPrice?: number;
+  currentPrice?: number;
+  createdAt: number;
+  read: boolean;
+}
+
+/**
+ * Wishlist alert service interface for price-drop and stock-change alerts
+ */
+export interface WishlistAlertService {
+  recordSnapshot(product: ProductCard): Promise<void>;
+  getSnapshot(productId: string): Promise<WishlistSnapshot | null>;
+  removeProduct(productId: string): Promise<void>;
+  checkForChanges(items: (WishlistItem & { product: ProductCard })[]): Promise<WishlistAlert[]>;
+  setAlertsEnabled(productId: string, enabled: boolean): Promise<void>;
+  getMutedProductIds(): Promise<string[]>;
+  getAlerts(): Promise<WishlistAlert[]>;
+  markAlertRead(alertId: string): Promise<void>;
+  markAllAlertsRead(): Promise<void>;
+  clearAlerts(): Promise<void>;
+}
+
+interface WishlistAlertState {
+  snapshots: Record<string, WishlistSnapshot>;
+  mutedProductIds: string[];
+  alerts: WishlistAlert[];
+}
+
+const MAX_ALERTS = 50;
+
+const toSnapshot = (product: ProductCard): WishlistSnapshot => ({
+  price: product.price,
+  currency: product.currency,
+  availability: product.availability,
+  recordedAt: Date.now(),
+});
+
+/**
+ * Short label for the badge on a wishlist item
+ */
+export const getWishlistAlertLabel = (type: WishlistAlertType): string => {
+  switch (type) {
+    case 'price_drop':
+      return 'Price drop';
+    case 'back_in_stock':
+      return 'Back in stock';
+    default:
+      return 'Sold out';
+  }
+};
+
+/**
+ * Full sentence for the notification inbox
+ */
+export const describeWishlistAlert = (alert: WishlistAlert): string => {
+  switch (alert.type) {
+    case 'price_drop':
+      return `${alert.productTitle} dropped from ${alert.currency} ${alert.previousPrice?.toFixed(2)} to ${alert.currency} ${alert.currentPrice?.toFixed(2)}`;
+    case 'back_in_stock':
+      return `${alert.productTitle} is back in stock`;
+    default:
+      return `${alert.productTitle} is out of stock`;
+  }
+};
+
+/**
+ * Implementation of WishlistAlertService backed by AsyncStorage. Snapshots
+ * are kept on the device, so alerts work the same with either wishlist provider.
+ */
+export class WishlistAlertServiceImpl implements WishlistAlertService {
+  private static readonly STORAGE_KEY = '@swipely_wishlist_alerts';
+  private state: WishlistAlertState | null = null;
+
+  private async load(): Promise<WishlistAlertState> {
+    if (this.state) {
+      return this.state;
+    }
+
+    let state: WishlistAlertState = { snapshots: {}, mutedProductIds: [], alerts: [] };
+    try {
+      const stored = await AsyncStorage.getItem(WishlistAlertServiceImpl.STORAGE_KEY);
+      if (stored) {
+        state = { ...state, ...JSON.parse(stored) };
+      }
+    } catch (error) {
+      console.error('Failed to load wishlist alerts:', error);
+    }
+
+    this.state = state;
+    return state;
+  }
+
+  private async save(): Promise<void> {
+    try {
+      await AsyncStorage.setItem(WishlistAlertServiceImpl.STORAGE_KEY, JSON.stringify(this.state));
+    } catch (error) {
+      console.error('Failed to save wishlist alerts:', error);
+      throw new Error('Failed to save wishlist alerts');
+    }
+  }
+
+  /**
+   * Record the price and availability a product had when it was wishlisted
+   */
+  async recordSnapshot(product: ProductCard): Promise<void> {
+    const state = await this.load();
+    state.snapshots[product.id] = toSnapshot(product);
+    await this.save();
+  }
+
+  async getSnapshot(productId: string): Promise<WishlistSnapshot | null> {
+    const state = await this.load();
+    return state.snapshots[productId] ?? null;
+  }
+
+  async removeProduct(productId: string): Promise<void> {
+    const state = await this.load();
+    delete state.snapshots[productId];
+    state.mutedProductIds = state.mutedProductIds.filter(id => id !== productId);
+    state.alerts = state.alerts.filter(alert => alert.productId !== productId);
+    await this.save();
+  }
+
+  private detectChange(
+    snapshot: WishlistSnapshot,
+    product: ProductCard
+  ): Omit<WishlistAlert, 'id' | 'createdAt' | 'read'> | null {
+    const base = { productId: product.id, productTitle: product.title, currency: product.currency };
+
+    if (!snapshot.availability && product.availability) {
+      return { ...base, type: 'back_in_stock' };
+    }
+    if (snapshot.availability && !product.availability) {
+      return { ...base, type: 'out_of_stock' };
+    }
+    // Prices in another currency cannot be compared
+    if (product.currency === snapshot.currency && product.price < snapshot.price) {
+      return {
+        ...base,
+        type: 'price_drop',
+        previousPrice: snapshot.price,
+        currentPrice: product.price,
+      };
+    }
+    return null;
+  }
+
+  /**
+   * Compare current product data with the stored snapshots, raise alerts for
+   * price drops and stock changes, and move the snapshots forward so each
+   * change is reported once. Items with alerts turned off are still
+   * tracked, just silently. Returns the alerts raised by this check.
+   */
+  async checkForChanges(
+    items: (WishlistItem & { product: ProductCard })[]
+  ): Promise<WishlistAlert[]> {
+    const state = await this.load();
+    const muted = new Set(state.mutedProductIds);
+    const wishlisted = new Set(items.map(item => item.productId));
+    const raised: WishlistAlert[] = [];
+
+    for (const { productId, product } of items) {
+      // A zero price is the placeholder used when product details failed to load
+      if (product.price <= 0) {
+        continue;
+      }
+
+      const snapshot = state.snapshots[productId];
+      const change = snapshot ? this.detectChange(snapshot, product) : null;
+
+      if (change && !muted.has(productId)) {
+        raised.push({
+          ...change,
+          id: `alert_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+          createdAt: Date.now(),
+          read: false,
+        });
+      }
+
+      // Items added before alerts existed get their first snapshot here; a
+      // price rise moves the baseline too, so a later cut is still a drop
+      if (
+        !snapshot ||
+        snapshot.price !== product.price ||
+        snapshot.currency !== product.currency ||
+        snapshot.availability !== product.availability
+      ) {
+        state.snapshots[productId] = toSnapshot(product);
+      }
+    }
+
+    // Forget products that have left the wishlist
+    Object.keys(state.snapshots)
+      .filter(productId => !wishlisted.has(productId))
+      .forEach(productId => delete state.snapshots[productId]);
+
+    state.alerts = [...[...raised].reverse(), ...state.alerts].slice(0, MAX_ALERTS);
+    await this.save();
+    return raised;
+  }
+
+  async setAlertsEnabled(productId: string, enabled: boolean): Promise<void> {
+    const state = await this.load();
+    const others = state.mutedProductIds.filter(id => id !== productId);
+    state.mutedProductIds = enabled ? others : [...others, productId];
+    await this.save();
+  }
+
+  async getMutedProductIds(): Promise<string[]> {
+    const state = await this.load();
+    return [...state.mutedProductIds];
+  }
+
+  /**
+   * Inbox contents, newest first
+   */
+  async getAlerts(): Promise<WishlistAlert[]> {
+    const state = await this.load();
+    return [...state.alerts];
+  }
+
+  async markAlertRead(alertId: string): Promise<void> {
+    const state = await this.load();
+    state.alerts = state.alerts.map(alert =>
+      alert.id === alertId ? { ...alert, read: true } : alert
+    );
+    await this.save();
+  }
+
+  async markAllAlertsRead(): Promise<void> {
+    const state = await this.load();
+    state.alerts = state.alerts.map(alert => ({ ...alert, read: true }));
+    await this.save();
+  }
+
+  async clearAlerts(): Promise<void> {
+    const state = await this.load();
+    state.alerts = [];
+    await this.save();
+  }
+}
+
+/**
+ * Singleton instance of the wishlist alert service
+ */
+let wishlistAlertServiceInstance: WishlistAlertService | null = null;
+
+/**
+ * Get the singleton instance of the wishlist alert service
+ */
+export const getWishlistAlertService = (): WishlistAlertService => {
+  if (!wishlistAlertServiceInstance) {
+    wishlistAlertServiceInstance = new WishlistAlertServiceImpl();
+  }
+  return wishlistAlertServiceInstance;
+};
+
+/**
+ * Reset the wishlist alert service instance (useful for testing)
+ */
+export const resetWishlistAlertService = (): void => {
+  wishlistAlertServiceInstance = null;
+};
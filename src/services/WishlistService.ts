@@ -1,6 +1,7 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { ProductCard } from '../types';
 import { ProductDetailsService } from './ProductDetailsService';
+import { dataSyncService, DataSyncService, SyncStorage } from './DataSyncService';
 
 /**
  * Wishlist item interface
@@ -8,22 +9,104 @@ import { ProductDetailsService } from './ProductDetailsService';
 export interface WishlistItem {
   productId: string;
   addedAt: Date;
+  /** Collections the item is saved in; absent on items saved before collections existed */
+  collectionIds?: string[];
   product?: ProductCard;
 }
 
+/**
+ * A named wishlist such as "Gift ideas". Every user has one default
+ * collection, which cannot be deleted.
+ */
+export interface WishlistCollection {
+  id: string;
+  name: string;
+  createdAt: Date;
+  isDefault: boolean;
+}
+
+export const DEFAULT_WISHLIST_COLLECTION_ID = 'default';
+export const DEFAULT_WISHLIST_COLLECTION_NAME = 'My Wishlist';
+
+/**
+ * Collections an item belongs to, treating items saved before collections
+ * existed as part of the default collection
+ */
+export const getItemCollectionIds = (item: Pick<WishlistItem, 'collectionIds'>): string[] =>
+  item.collectionIds && item.collectionIds.length > 0
+    ? item.collectionIds
+    : [DEFAULT_WISHLIST_COLLECTION_ID];
+
+const createDefaultCollection = (): WishlistCollection => ({
+  id: DEFAULT_WISHLIST_COLLECTION_ID,
+  name: DEFAULT_WISHLIST_COLLECTION_NAME,
+  createdAt: new Date(),
+  isDefault: true,
+});
+
+/**
+ * A shared list of products, identified by an unguessable token
+ */
+export interface WishlistShareLink {
+  token: string;
+  title: string;
+  productIds: string[];
+  createdAt: string;
+}
+
+/**
+ * What someone opening a share link sees: the products with current details
+ */
+export interface SharedWishlist {
+  token: string;
+  title: string;
+  createdAt: string;
+  products: ProductCard[];
+  /** Shared products that no longer exist */
+  unavailableCount: number;
+  /** Shared products that could not be loaded right now; they may load on a retry */
+  failedCount?: number;
+}
+
+export const getWishlistShareUrl = (token: string): string =>
+  `swipely://wishlist/shared/${token}`;
+
+/**
+ * Stored wishlist. Before collections existed the key held a bare item array.
+ */
+export interface StoredWishlist {
+  collections: WishlistCollection[];
+  items: WishlistItem[];
+}
+
 /**
  * Wishlist service interface for managing liked products
  * Requirements: 5.1, 5.2, 5.4
  */
 export interface WishlistService {
-  addToWishlist(productId: string): Promise<void>;
+  addToWishlist(productId: string, collectionId?: string): Promise<void>;
   removeFromWishlist(productId: string): Promise<void>;
+  removeFromCollection(productId: string, collectionId: string): Promise<void>;
+  getCollections(): Promise<WishlistCollection[]>;
+  createCollection(name: string): Promise<WishlistCollection>;
+  renameCollection(collectionId: string, name: string): Promise<WishlistCollection>;
+  deleteCollection(collectionId: string): Promise<void>;
+  createShareLink(productIds: string[], title: string): Promise<WishlistShareLink>;
+  getSharedWishlist(token: string): Promise<SharedWishlist>;
   getWishlistItems(): Promise<WishlistItem[]>;
   getWishlistItemsWithDetails(): Promise<(WishlistItem & { product: ProductCard })[]>;
   isInWishlist(productId: string): Promise<boolean>;
   clearWishlist(): Promise<void>;
   getWishlistCount(): Promise<number>;
   syncWithBackend(): Promise<void>;
+  /** Replace the wishlist with a copy synced from another device */
+  applySyncedData(data: Partial<StoredWishlist>): Promise<void>;
+}
+
+export interface WishlistServiceOptions {
+  storage?: SyncStorage;
+  /** Where the wishlist's own edits are recorded for other devices */
+  syncService?: Pick<DataSyncService, 'recordChange'>;
 }
 
 /**
@@ -33,11 +116,17 @@ export interface WishlistService {
 export class WishlistServiceImpl implements WishlistService {
   private static readonly WISHLIST_STORAGE_KEY = '@swipely_wishlist';
   private static readonly SYNC_TIMESTAMP_KEY = '@swipely_wishlist_sync';
+  private static readonly SHARE_LINKS_KEY = '@swipely_wishlist_shares';
   private wishlistItems: WishlistItem[] = [];
+  private collections: WishlistCollection[] = [createDefaultCollection()];
   private isInitialized = false;
+  private readonly storage: SyncStorage;
+  private readonly syncService: Pick<DataSyncService, 'recordChange'>;
 
-  constructor() {
+  constructor(options: WishlistServiceOptions = {}) {
     // Don't call initialize here since it's async
+    this.storage = options.storage ?? AsyncStorage;
+    this.syncService = options.syncService ?? dataSyncService;
   }
 
   /**
@@ -48,16 +137,14 @@ export class WishlistServiceImpl implements WishlistService {
 
     try {
       console.log('Initializing wishlist service...');
-      const storedWishlist = await AsyncStorage.getItem(WishlistServiceImpl.WISHLIST_STORAGE_KEY);
+      const storedWishlist = await this.storage.getItem(WishlistServiceImpl.WISHLIST_STORAGE_KEY);
       console.log('Stored wishlist data:', storedWishlist);
       
       if (storedWishlist) {
-        this.wishlistItems = JSON.parse(storedWishlist);
-        // Convert date strings back to Date objects
-        this.wishlistItems = this.wishlistItems.map(item => ({
-          ...item,
-          addedAt: new Date(item.addedAt)
-        }));
+        const parsed: StoredWishlist | WishlistItem[] = JSON.parse(storedWishlist);
+        // A bare array is a wishlist saved before collections existed; its
+        // items move into the default collection and are written back on the next save
+        this.loadStored(Array.isArray(parsed) ? { collections: [], items: parsed } : parsed);
         console.log('Loaded wishlist items from storage:', this.wishlistItems.length);
       } else {
         console.log('No stored wishlist data found');
@@ -70,17 +157,39 @@ export class WishlistServiceImpl implements WishlistService {
     }
   }
 
+  /**
+   * Take items and collections from stored data, converting date strings
+   * back to Date objects
+   */
+  private loadStored(stored: Partial<StoredWishlist>): void {
+    this.wishlistItems = (stored.items ?? []).map(item => ({
+      ...item,
+      addedAt: new Date(item.addedAt),
+      collectionIds: getItemCollectionIds(item),
+    }));
+    this.collections = (stored.collections ?? []).map(collection => ({
+      ...collection,
+      createdAt: new Date(collection.createdAt),
+    }));
+    if (!this.collections.some(collection => collection.isDefault)) {
+      this.collections.unshift(createDefaultCollection());
+    }
+  }
+
   /**
    * Save wishlist items to local storage
    */
   private async saveToStorage(): Promise<void> {
     try {
       console.log('Saving wishlist to storage:', this.wishlistItems.length, 'items');
-      await AsyncStorage.setItem(
-        WishlistServiceImpl.WISHLIST_STORAGE_KEY,
-        JSON.stringify(this.wishlistItems)
-      );
+      const stored: StoredWishlist = {
+        collections: this.collections,
+        items: this.wishlistItems,
+      };
+      await this.storage.setItem(WishlistServiceImpl.WISHLIST_STORAGE_KEY, JSON.stringify(stored));
       console.log('Successfully saved wishlist to storage');
+      // Other devices pick the edit up on the next sync
+      await this.syncService.recordChange('wishlist_items', stored);
     } catch (error) {
       console.error('Failed to save wishlist to storage:', error);
       throw new Error('Failed to save wishlist data');
@@ -88,31 +197,213 @@ export class WishlistServiceImpl implements WishlistService {
   }
 
   /**
-   * Add a product to the wishlist
+   * Broadcast local changes without holding up the caller
+   */
+  private syncInBackground(): void {
+    this.syncWithBackend().catch(error => {
+      console.warn('Background wishlist sync failed:', error);
+    });
+  }
+
+  private findCollection(collectionId: string): WishlistCollection {
+    const collection = this.collections.find(c => c.id === collectionId);
+    if (!collection) {
+      throw new Error('Collection not found');
+    }
+    return collection;
+  }
+
+  /**
+   * Collection names are trimmed and must be unique, ignoring case
+   */
+  private validateCollectionName(name: string, collectionId?: string): string {
+    const trimmed = name.trim();
+    if (!trimmed) {
+      throw new Error('Collection name cannot be empty');
+    }
+    const duplicate = this.collections.some(
+      c => c.id !== collectionId && c.name.toLowerCase() === trimmed.toLowerCase()
+    );
+    if (duplicate) {
+      throw new Error('A collection with that name already exists');
+    }
+    return trimmed;
+  }
+
+  /**
+   * Add a product to the wishlist, in the default collection unless another
+   * one is given. A product already on the wishlist is added to the collection.
    * Requirements: 5.1, 5.2
    */
-  async addToWishlist(productId: string): Promise<void> {
+  async addToWishlist(
+    productId: string,
+    collectionId: string = DEFAULT_WISHLIST_COLLECTION_ID
+  ): Promise<void> {
     await this.initialize();
+    this.findCollection(collectionId);
 
-    // Check if product is already in wishlist
     const existingItem = this.wishlistItems.find(item => item.productId === productId);
     if (existingItem) {
-      // Product already in wishlist, no need to add again
-      return;
+      const collectionIds = getItemCollectionIds(existingItem);
+      if (collectionIds.includes(collectionId)) {
+        // Product already in this collection, no need to add again
+        return;
+      }
+      existingItem.collectionIds = [...collectionIds, collectionId];
+    } else {
+      this.wishlistItems.push({
+        productId,
+        addedAt: new Date(),
+        collectionIds: [collectionId],
+      });
     }
 
-    const newItem: WishlistItem = {
-      productId,
-      addedAt: new Date()
+    await this.saveToStorage();
+    this.syncInBackground();
+  }
+
+  /**
+   * Remove a product from one collection. A product that is left in no
+   * collection leaves the wishlist.
+   */
+  async removeFromCollection(productId: string, collectionId: string): Promise<void> {
+    await this.initialize();
+
+    const item = this.wishlistItems.find(i => i.productId === productId);
+    const collectionIds = item ? getItemCollectionIds(item) : [];
+    if (!item || !collectionIds.includes(collectionId)) {
+      throw new Error('Product not found in collection');
+    }
+
+    const remaining = collectionIds.filter(id => id !== collectionId);
+    if (remaining.length === 0) {
+      this.wishlistItems = this.wishlistItems.filter(i => i.productId !== productId);
+    } else {
+      item.collectionIds = remaining;
+    }
+
+    await this.saveToStorage();
+    this.syncInBackground();
+  }
+
+  /**
+   * Get all collections, default first
+   */
+  async getCollections(): Promise<WishlistCollection[]> {
+    await this.initialize();
+    return this.collections.map(collection => ({ ...collection }));
+  }
+
+  async createCollection(name: string): Promise<WishlistCollection> {
+    await this.initialize();
+
+    const collection: WishlistCollection = {
+      id: `collection_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      name: this.validateCollectionName(name),
+      createdAt: new Date(),
+      isDefault: false,
     };
 
-    this.wishlistItems.push(newItem);
+    this.collections.push(collection);
     await this.saveToStorage();
-    
-    // Sync with backend in background
-    this.syncWithBackend().catch(error => {
-      console.warn('Background wishlist sync failed:', error);
+    this.syncInBackground();
+    return { ...collection };
+  }
+
+  async renameCollection(collectionId: string, name: string): Promise<WishlistCollection> {
+    await this.initialize();
+
+    const collection = this.findCollection(collectionId);
+    collection.name = this.validateCollectionName(name, collectionId);
+
+    await this.saveToStorage();
+    this.syncInBackground();
+    return { ...collection };
+  }
+
+  /**
+   * Delete a collection. Items that were only in it move to the default
+   * collection, so deleting a collection never drops anything from the wishlist.
+   */
+  async deleteCollection(collectionId: string): Promise<void> {
+    await this.initialize();
+
+    if (this.findCollection(collectionId).isDefault) {
+      throw new Error('The default collection cannot be deleted');
+    }
+
+    this.collections = this.collections.filter(c => c.id !== collectionId);
+    this.wishlistItems = this.wishlistItems.map(item => {
+      const remaining = getItemCollectionIds(item).filter(id => id !== collectionId);
+      return {
+        ...item,
+        collectionIds: remaining.length > 0 ? remaining : [DEFAULT_WISHLIST_COLLECTION_ID],
+      };
     });
+
+    await this.saveToStorage();
+    this.syncInBackground();
+  }
+
+  private async loadShareLinks(): Promise<Record<string, WishlistShareLink>> {
+    const stored = await this.storage.getItem(WishlistServiceImpl.SHARE_LINKS_KEY);
+    return stored ? JSON.parse(stored) : {};
+  }
+
+  /**
+   * Create a share link for some products. Without a backend the link is kept
+   * on this device, so it only opens here; the API provider stores it server side.
+   */
+  async createShareLink(productIds: string[], title: string): Promise<WishlistShareLink> {
+    if (productIds.length === 0) {
+      throw new Error('Nothing to share');
+    }
+
+    const link: WishlistShareLink = {
+      token: `${Date.now().toString(36)}${Math.random().toString(36).substr(2, 9)}${Math.random().toString(36).substr(2, 9)}`,
+      title: title.trim() || DEFAULT_WISHLIST_COLLECTION_NAME,
+      productIds: [...new Set(productIds)],
+      createdAt: new Date().toISOString(),
+    };
+
+    try {
+      const links = await this.loadShareLinks();
+      links[link.token] = link;
+      await this.storage.setItem(WishlistServiceImpl.SHARE_LINKS_KEY, JSON.stringify(links));
+    } catch (error) {
+      console.error('Failed to save share link:', error);
+      throw new Error('Failed to create share link');
+    }
+    return link;
+  }
+
+  /**
+   * Resolve a share link to current product details, leaving out products
+   * that can no longer be loaded
+   */
+  async getSharedWishlist(token: string): Promise<SharedWishlist> {
+    const link = (await this.loadShareLinks())[token];
+    if (!link) {
+      throw new Error('Share link not found');
+    }
+
+    const products = await Promise.all(
+      link.productIds.map(productId =>
+        ProductDetailsService.getProductDetails(productId).catch(error => {
+          console.warn(`Failed to load shared product ${productId}:`, error);
+          return null;
+        })
+      )
+    );
+    const available = products.filter((product): product is ProductCard => product !== null);
+
+    return {
+      token: link.token,
+      title: link.title,
+      createdAt: link.createdAt,
+      products: available,
+      unavailableCount: products.length - available.length,
+    };
   }
 
   /**
@@ -131,10 +422,7 @@ export class WishlistServiceImpl implements WishlistService {
 
     await this.saveToStorage();
     
-    // Sync with backend in background
-    this.syncWithBackend().catch(error => {
-      console.warn('Background wishlist sync failed:', error);
-    });
+    this.syncInBackground();
   }
 
   /**
@@ -203,10 +491,7 @@ export class WishlistServiceImpl implements WishlistService {
     this.wishlistItems = [];
     await this.saveToStorage();
     
-    // Sync with backend in background
-    this.syncWithBackend().catch(error => {
-      console.warn('Background wishlist sync failed:', error);
-    });
+    this.syncInBackground();
   }
 
   /**
@@ -231,7 +516,7 @@ export class WishlistServiceImpl implements WishlistService {
       // 4. Update local storage with merged data
       
       // For now, we'll just update the sync timestamp
-      await AsyncStorage.setItem(
+      await this.storage.setItem(
         WishlistServiceImpl.SYNC_TIMESTAMP_KEY,
         new Date().toISOString()
       );
@@ -243,12 +528,26 @@ export class WishlistServiceImpl implements WishlistService {
     }
   }
 
+  /**
+   * Replace the wishlist with a copy synced from another device. The copy is
+   * already recorded, so it is saved without recording a new edit.
+   */
+  async applySyncedData(data: Partial<StoredWishlist>): Promise<void> {
+    this.loadStored(data);
+    this.isInitialized = true;
+    const stored: StoredWishlist = {
+      collections: this.collections,
+      items: this.wishlistItems,
+    };
+    await this.storage.setItem(WishlistServiceImpl.WISHLIST_STORAGE_KEY, JSON.stringify(stored));
+  }
+
   /**
    * Get the last sync timestamp
    */
   async getLastSyncTimestamp(): Promise<Date | null> {
     try {
-      const timestamp = await AsyncStorage.getItem(WishlistServiceImpl.SYNC_TIMESTAMP_KEY);
+      const timestamp = await this.storage.getItem(WishlistServiceImpl.SYNC_TIMESTAMP_KEY);
       return timestamp ? new Date(timestamp) : null;
     } catch (error) {
       console.error('Failed to get sync timestamp:', error);
@@ -1,5 +1,6 @@
 import { ProductFeedService } from '../ProductFeedService';
 import { CategoryPreferenceService } from '../CategoryPreferenceService';
+import { getFeedRankingService, resetFeedRankingService } from '../FeedRankingService';
 import { ProductFeedResponse, CategoryPreferences } from '../../types';
 
 // Mock CategoryPreferenceService
@@ -90,6 +91,50 @@ describe('ProductFeedService', () => {
         expect(product.id).not.toBe('prod-1');
       });
     });
+
+    it('should exclude products swiped in a previous session', async () => {
+      const mockPreferences: CategoryPreferences = {
+        selectedCategories: ['electronics'],
+        lastUpdated: new Date(),
+      };
+      mockCategoryPreferenceService.getUserPreferences.mockResolvedValue(mockPreferences);
+
+      await ProductFeedService.recordSwipeAction('prod-1', 'skip', 'user-persisted');
+      ProductFeedService.clearSession();
+
+      const response = await ProductFeedService.getPersonalizedFeed(
+        { page: 1, limit: 50 },
+        'user-persisted'
+      );
+
+      response.products.forEach(product => {
+        expect(product.id).not.toBe('prod-1');
+      });
+    });
+
+    it('should page through one ranked order without repeating or skipping products', async () => {
+      mockCategoryPreferenceService.getUserPreferences.mockResolvedValue({
+        selectedCategories: [],
+        lastUpdated: new Date(),
+      });
+      // Heavy exploration makes every ranking pass order the feed differently
+      resetFeedRankingService();
+      getFeedRankingService({ explorationRate: 0.9 });
+
+      const seen: string[] = [];
+      let page = 1;
+      let hasMore = true;
+      while (hasMore) {
+        const response = await ProductFeedService.getPersonalizedFeed({ page, limit: 10 });
+        seen.push(...response.products.map(product => product.id));
+        hasMore = response.pagination.hasMore;
+        page += 1;
+      }
+
+      resetFeedRankingService();
+      expect(new Set(seen).size).toBe(seen.length);
+      expect(seen).toHaveLength(ProductFeedService.getAllProducts().length);
+    });
   });
 
   describe('recordSwipeAction', () => {
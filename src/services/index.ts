@@ -16,6 +16,23 @@ export { CategoryPreferenceService } from './CategoryPreferenceService';
 
 // Product feed services
 export { ProductFeedService } from './ProductFeedService';
+export { 
+  FeedRankingService, 
+  getFeedRankingService, 
+  resetFeedRankingService 
+} from './FeedRankingService';
+export { 
+  SwipeHistoryService, 
+  SwipeHistoryServiceImpl, 
+  getSwipeHistoryService, 
+  resetSwipeHistoryService 
+} from './SwipeHistoryService';
+export { 
+  ProductSearchService, 
+  ProductSearchIndex, 
+  getProductSearchService, 
+  resetProductSearchService 
+} from './ProductSearchService';
 
 // Swipe action services
 export { 
@@ -25,6 +42,13 @@ export {
   resetSwipeActionService 
 } from './SwipeActionService';
 
+export { 
+  SwipeUndoService, 
+  SwipeUndoServiceImpl, 
+  getSwipeUndoService, 
+  resetSwipeUndoService 
+} from './SwipeUndoService';
+
 // Product details service
 export { ProductDetailsService } from './ProductDetailsService';
 
@@ -35,7 +59,30 @@ export { SkippedProductsService } from './SkippedProductsService';
 
 // Other services
 export { OfflineModeService } from './OfflineModeService';
+export { 
+  ConnectivityMonitor, 
+  ConnectivityMonitorImpl, 
+  getConnectivityMonitor, 
+  resetConnectivityMonitor 
+} from './ConnectivityMonitor';
+export { 
+  OutboxService, 
+  OutboxServiceImpl, 
+  getOutboxService, 
+  resetOutboxService 
+} from './OutboxService';
 export { ErrorHandlingService } from './ErrorHandlingService';
 export { CrashReportingService } from './CrashReportingService';
 export { AnalyticsService } from './AnalyticsService';
+export { 
+  AnalyticsTransport, 
+  HttpAnalyticsTransport, 
+  ANALYTICS_SCHEMA_VERSION 
+} from './AnalyticsTransport';
 export { ABTestingService } from './ABTestingService';
+export { 
+  ExperimentConfigService, 
+  ExperimentConfigServiceImpl, 
+  getExperimentConfigService, 
+  resetExperimentConfigService 
+} from './ExperimentConfigService';
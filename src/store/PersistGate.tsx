@@ -0,0 +1,27 @@
+import React, { useEffect, useState } from 'react';
+import { Persistor } from './persistence';
+
+interface PersistGateProps {
+  persistor: Persistor;
+  /** Rendered until the persisted state has been merged into the store */
+  loading?: React.ReactNode;
+  children: React.ReactNode;
+}
+
+/**
+ * Delays rendering the app until rehydration finishes, so screens never
+ * fetch or render over state that is about to be replaced.
+ */
+export const PersistGate: React.FC<PersistGateProps> = ({ persistor, loading = null, children }) => {
+  const [bootstrapped, setBootstrapped] = useState(persistor.isBootstrapped());
+
+  useEffect(() => {
+    if (persistor.isBootstrapped()) {
+      setBootstrapped(true);
+      return;
+    }
+    return persistor.subscribe(() => setBootstrapped(true));
+  }, [persistor]);
+
+  return <>{bootstrapped ? children : loading}</>;
+};
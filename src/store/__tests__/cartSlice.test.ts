@@ -0,0 +1,84 @@
+import { createAppStore } from '../index';
+import {
+  addToCart,
+  fetchCart,
+  selectCartCount,
+  selectCartItems,
+  selectCartTotal,
+  updateCartQuantity,
+} from '../slices/cartSlice';
+import { getCartProvider } from '../../data/providers';
+import { ProductCard } from '../../types';
+
+jest.mock('../../data/providers', () => ({
+  getCartProvider: jest.fn(),
+}));
+
+const product: ProductCard = {
+  id: 'p1',
+  title: 'Headphones',
+  price: 50,
+  currency: 'USD',
+  imageUrls: [],
+  category: { id: 'electronics', name: 'Electronics' },
+  description: '',
+  specifications: {},
+  availability: true,
+};
+
+const mockCartProvider = {
+  addToCart: jest.fn(),
+  updateQuantity: jest.fn(),
+  getCartItemsWithDetails: jest.fn(),
+};
+
+describe('cartSlice', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (getCartProvider as jest.Mock).mockReturnValue(mockCartProvider);
+  });
+
+  it('should count units rather than lines', async () => {
+    mockCartProvider.getCartItemsWithDetails.mockResolvedValue([
+      { productId: 'p1', quantity: 3, addedAt: new Date('2024-01-01'), product },
+    ]);
+    const store = createAppStore();
+
+    await store.dispatch(fetchCart());
+
+    expect(selectCartItems(store.getState())).toHaveLength(1);
+    expect(selectCartCount(store.getState())).toBe(3);
+    expect(selectCartTotal(store.getState())).toBe(150);
+  });
+
+  it('should replace items with the provider cart after a mutation', async () => {
+    mockCartProvider.addToCart.mockResolvedValue(undefined);
+    mockCartProvider.getCartItemsWithDetails.mockResolvedValue([
+      { productId: 'p1', quantity: 1, addedAt: new Date('2024-01-01'), product },
+    ]);
+    const store = createAppStore();
+
+    await store.dispatch(addToCart({ productId: 'p1' })).unwrap();
+
+    expect(mockCartProvider.addToCart).toHaveBeenCalledWith('p1', 1, undefined);
+    expect(selectCartCount(store.getState())).toBe(1);
+    expect(store.getState().cart.status).toBe('succeeded');
+  });
+
+  it('should keep the last known cart when a mutation fails', async () => {
+    mockCartProvider.getCartItemsWithDetails.mockResolvedValue([
+      { productId: 'p1', quantity: 2, addedAt: new Date('2024-01-01'), product },
+    ]);
+    mockCartProvider.updateQuantity.mockRejectedValue(new Error('Update failed'));
+    const store = createAppStore();
+    await store.dispatch(fetchCart());
+
+    await expect(
+      store.dispatch(updateCartQuantity({ lineId: 'p1', quantity: 5 })).unwrap()
+    ).rejects.toEqual(expect.objectContaining({ message: 'Update failed' }));
+
+    expect(selectCartCount(store.getState())).toBe(2);
+    expect(store.getState().cart.status).toBe('succeeded');
+    expect(store.getState().cart.error).toBe('Update failed');
+  });
+});
@@ -0,0 +1,118 @@
+import { createAppStore, persistConfig } from '../index';
+import { getStorageKey, Persistor, PersistStorage, persistStore } from '../persistence';
+import { fetchCart } from '../slices/cartSlice';
+import { setCurrentIndex } from '../slices/feedSlice';
+import { setPaymentMethod, setShippingAddress } from '../slices/checkoutSlice';
+import { ProductCard } from '../../types';
+
+const product: ProductCard = {
+  id: 'p1',
+  title: 'Headphones',
+  price: 50,
+  currency: 'USD',
+  imageUrls: [],
+  category: { id: 'electronics', name: 'Electronics' },
+  description: '',
+  specifications: {},
+  availability: true,
+};
+
+const createMemoryStorage = (): PersistStorage & { data: Map<string, string> } => {
+  const data = new Map<string, string>();
+  return {
+    data,
+    getItem: async key => data.get(key) ?? null,
+    setItem: async (key, value) => {
+      data.set(key, value);
+    },
+    removeItem: async key => {
+      data.delete(key);
+    },
+  };
+};
+
+const waitForBootstrap = (persistor: Persistor) =>
+  new Promise<void>(resolve => {
+    if (persistor.isBootstrapped()) {
+      resolve();
+      return;
+    }
+    const unsubscribe = persistor.subscribe(() => {
+      unsubscribe();
+      resolve();
+    });
+  });
+
+describe('store persistence', () => {
+  it('should restore whitelisted state on the next launch', async () => {
+    const storage = createMemoryStorage();
+    const store = createAppStore();
+    const persistor = persistStore(store, { ...persistConfig, storage, throttle: 0 });
+    await waitForBootstrap(persistor);
+
+    store.dispatch(
+      fetchCart.fulfilled(
+        [{ productId: 'p1', quantity: 2, addedAt: new Date('2024-03-01T10:00:00.000Z'), product }],
+        'request-1'
+      )
+    );
+    store.dispatch(setCurrentIndex(4));
+    await persistor.flush();
+
+    const nextStore = createAppStore();
+    await waitForBootstrap(persistStore(nextStore, { ...persistConfig, storage }));
+
+    const { cart, feed } = nextStore.getState();
+    expect(cart.items[0].quantity).toBe(2);
+    expect(cart.items[0].addedAt).toBeInstanceOf(Date);
+    expect(cart.items[0].addedAt.toISOString()).toBe('2024-03-01T10:00:00.000Z');
+    // Status is not persisted, so the cart still reloads from the provider
+    expect(cart.status).toBe('idle');
+    // No products were saved, so the index has nothing to point at
+    expect(feed.currentIndex).toBe(0);
+  });
+
+  it('should never write payment details to storage', async () => {
+    const storage = createMemoryStorage();
+    const store = createAppStore();
+    const persistor = persistStore(store, { ...persistConfig, storage, throttle: 0 });
+    await waitForBootstrap(persistor);
+
+    store.dispatch(
+      setShippingAddress({
+        street: '1 Main St',
+        city: 'Springfield',
+        state: 'IL',
+        postalCode: '62701',
+        country: 'US',
+      })
+    );
+    store.dispatch(
+      setPaymentMethod({
+        cardNumber: '4242 4242 4242 4242',
+        expirationDate: '12/30',
+        cvv: '123',
+        cardholderName: 'Jane Doe',
+      })
+    );
+    await persistor.flush();
+
+    const saved = storage.data.get(getStorageKey(persistConfig.key)) ?? '';
+    expect(saved).toContain('1 Main St');
+    expect(saved).not.toContain('4242');
+    expect(saved).not.toContain('cvv');
+  });
+
+  it('should start fresh when the stored state is unreadable', async () => {
+    const storage = createMemoryStorage();
+    storage.data.set(getStorageKey(persistConfig.key), '{not json');
+    const warnSpy = jest.spyOn(console, 'warn').mockImplementation();
+
+    const store = createAppStore();
+    await waitForBootstrap(persistStore(store, { ...persistConfig, storage }));
+
+    expect(store.getState().cart.items).toEqual([]);
+    expect(warnSpy).toHaveBeenCalled();
+    warnSpy.mockRestore();
+  });
+});
@@ -1,34 +1,57 @@
-import { configureStore, createSlice } from '@reduxjs/toolkit';
+import { combineReducers, configureStore, isPlain } from '@reduxjs/toolkit';
+import authReducer from './slices/authSlice';
+import feedReducer from './slices/feedSlice';
+import cartReducer from './slices/cartSlice';
+import wishlistReducer from './slices/wishlistSlice';
+import skippedReducer from './slices/skippedSlice';
+import checkoutReducer from './slices/checkoutSlice';
+import { PERSIST, PersistConfig, REHYDRATE } from './persistence';
 
-// Temporary placeholder slice for testing
-const placeholderSlice = createSlice({
-  name: 'placeholder',
-  initialState: { value: 0 },
-  reducers: {
-    increment: (state) => {
-      state.value += 1;
-    },
-  },
+const rootReducer = combineReducers({
+  auth: authReducer,
+  feed: feedReducer,
+  cart: cartReducer,
+  wishlist: wishlistReducer,
+  skipped: skippedReducer,
+  checkout: checkoutReducer,
 });
 
-// Placeholder reducer - will be replaced with actual slices
-const rootReducer = {
-  placeholder: placeholderSlice.reducer,
-  // auth: authSlice.reducer,
-  // products: productsSlice.reducer,
-  // cart: cartSlice.reducer,
-  // wishlist: wishlistSlice.reducer,
+export type RootState = ReturnType<typeof rootReducer>;
+
+/**
+ * Fields that survive an app restart. Payment details are deliberately left out.
+ */
+export const persistConfig: PersistConfig = {
+  key: 'root',
+  whitelist: {
+    auth: ['user'],
+    feed: ['products', 'currentIndex'],
+    cart: ['items'],
+    wishlist: ['items', 'collections', 'rightSwipeTarget'],
+    skipped: ['items'],
+    checkout: ['currentStep', 'cartItems', 'shippingAddress', 'shippingMethod'],
+  },
 };
 
-export const store = configureStore({
-  reducer: rootReducer,
-  middleware: (getDefaultMiddleware) =>
-    getDefaultMiddleware({
-      serializableCheck: {
-        ignoredActions: ['persist/PERSIST', 'persist/REHYDRATE'],
-      },
-    }),
-});
+export const createAppStore = (preloadedState?: Partial<RootState>) =>
+  configureStore({
+    reducer: rootReducer,
+    preloadedState,
+    middleware: (getDefaultMiddleware) =>
+      getDefaultMiddleware({
+        serializableCheck: {
+          ignoredActions: [PERSIST, REHYDRATE],
+          // Domain types carry Date fields (addedAt, createdAt, skippedAt)
+          isSerializable: (value: unknown) => isPlain(value) || value instanceof Date,
+        },
+      }),
+  });
+
+export const store = createAppStore();
+
+export type AppStore = ReturnType<typeof createAppStore>;
+export type AppDispatch = AppStore['dispatch'];
 
-export type RootState = ReturnType<typeof store.getState>;
-export type AppDispatch = typeof store.dispatch;
\ No newline at end of file
+export * from './hooks';
+export { persistStore } from './persistence';
+export { PersistGate } from './PersistGate';
@@ -0,0 +1,182 @@
+/**
+ * Store persistence
+ * A small redux-persist style layer: whitelisted slice fields are written to
+ * AsyncStorage and merged back into the store through a REHYDRATE action.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { createAction } from '@reduxjs/toolkit';
+
+export const PERSIST = 'persist/PERSIST';
+export const REHYDRATE = 'persist/REHYDRATE';
+
+/**
+ * Persisted fields keyed by slice name
+ */
+export type PersistedState = Record<string, Record<string, unknown>>;
+
+export const persistStarted = createAction(PERSIST);
+export const rehydrate = createAction<PersistedState>(REHYDRATE);
+
+export interface PersistStorage {
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+  removeItem(key: string): Promise<void>;
+}
+
+export interface PersistConfig {
+  key: string;
+  /** Fields to persist for each slice; anything not listed stays in memory only */
+  whitelist: Record<string, string[]>;
+  storage?: PersistStorage;
+  /** Minimum delay between writes in milliseconds */
+  throttle?: number;
+}
+
+export interface Persistor {
+  isBootstrapped(): boolean;
+  subscribe(listener: () => void): () => void;
+  flush(): Promise<void>;
+  purge(): Promise<void>;
+}
+
+interface PersistableStore {
+  getState(): unknown;
+  dispatch(action: { type: string }): unknown;
+  subscribe(listener: () => void): () => void;
+}
+
+const DEFAULT_THROTTLE = 500;
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z$/;
+
+/**
+ * Items carry Date fields (addedAt, skippedAt, createdAt); JSON turns them into
+ * ISO strings, so they are revived on the way back in.
+ */
+const reviveDates = (_key: string, value: unknown): unknown =>
+  typeof value === 'string' && ISO_DATE_PATTERN.test(value) ? new Date(value) : value;
+
+export const getStorageKey = (key: string): string => `persist:${key}`;
+
+const pickPersistedState = (
+  state: Record<string, Record<string, unknown>>,
+  whitelist: Record<string, string[]>
+): PersistedState => {
+  const persisted: PersistedState = {};
+
+  Object.entries(whitelist).forEach(([sliceName, fields]) => {
+    const slice = state[sliceName];
+    if (!slice) return;
+
+    persisted[sliceName] = {};
+    fields.forEach(field => {
+      if (field in slice) {
+        persisted[sliceName][field] = slice[field];
+      }
+    });
+  });
+
+  return persisted;
+};
+
+/**
+ * Reads the persisted state for a slice from a REHYDRATE payload
+ */
+export const getRehydratedSlice = <T>(payload: PersistedState, sliceName: string): Partial<T> =>
+  (payload[sliceName] ?? {}) as Partial<T>;
+
+/**
+ * Rehydrate the store from storage and keep storage in sync with later changes
+ */
+export const persistStore = (store: PersistableStore, config: PersistConfig): Persistor => {
+  const storage = config.storage ?? AsyncStorage;
+  const storageKey = getStorageKey(config.key);
+  const throttle = config.throttle ?? DEFAULT_THROTTLE;
+  const listeners = new Set<() => void>();
+
+  let bootstrapped = false;
+  let writeTimer: ReturnType<typeof setTimeout> | null = null;
+  const lastSlices: Record<string, unknown> = {};
+
+  const getState = () => store.getState() as Record<string, Record<string, unknown>>;
+
+  const write = async (): Promise<void> => {
+    writeTimer = null;
+    try {
+      const persisted = pickPersistedState(getState(), config.whitelist);
+      await storage.setItem(storageKey, JSON.stringify(persisted));
+    } catch (error) {
+      console.error('Error persisting store:', error);
+    }
+  };
+
+  const hasWhitelistedChanges = (): boolean => {
+    const state = getState();
+    let changed = false;
+
+    Object.keys(config.whitelist).forEach(sliceName => {
+      if (state[sliceName] !== lastSlices[sliceName]) {
+        changed = true;
+      }
+      lastSlices[sliceName] = state[sliceName];
+    });
+
+    return changed;
+  };
+
+  store.subscribe(() => {
+    // Writing before rehydration would overwrite the saved state with initial state
+    if (!bootstrapped || !hasWhitelistedChanges()) return;
+
+    if (!writeTimer) {
+      writeTimer = setTimeout(write, throttle);
+    }
+  });
+
+  const bootstrap = async (): Promise<void> => {
+    store.dispatch(persistStarted());
+
+    let persisted: PersistedState = {};
+    try {
+      const stored = await storage.getItem(storageKey);
+      if (stored) {
+        persisted = JSON.parse(stored, reviveDates);
+      }
+    } catch (error) {
+      console.warn('Failed to read persisted store, starting fresh:', error);
+    }
+
+    store.dispatch(rehydrate(persisted));
+    hasWhitelistedChanges();
+    bootstrapped = true;
+    listeners.forEach(listener => listener());
+  };
+
+  bootstrap();
+
+  return {
+    isBootstrapped: () => bootstrapped,
+
+    subscribe(listener: () => void) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    async flush() {
+      if (writeTimer) {
+        clearTimeout(writeTimer);
+      }
+      await write();
+    },
+
+    async purge() {
+      if (writeTimer) {
+        clearTimeout(writeTimer);
+        writeTimer = null;
+      }
+      await storage.removeItem(storageKey);
+    },
+  };
+};
@@ -0,0 +1,58 @@
+/**
+ * Auth slice
+ * Mirrors the auth service's current user so screens read it from the store
+ */
+
+import { createAsyncThunk, createSlice, PayloadAction } from '@reduxjs/toolkit';
+import { getAuthService } from '../../services';
+import { User } from '../../types';
+import { getRehydratedSlice, rehydrate } from '../persistence';
+
+export interface AuthState {
+  user: User | null;
+  /** True once the auth service has reported its first state */
+  initialized: boolean;
+}
+
+const initialState: AuthState = {
+  user: null,
+  initialized: false,
+};
+
+export const signOut = createAsyncThunk('auth/signOut', async () => {
+  await getAuthService().signOut();
+});
+
+const authSlice = createSlice({
+  name: 'auth',
+  initialState,
+  reducers: {
+    authStateChanged(state, action: PayloadAction<User | null>) {
+      state.user = action.payload;
+      state.initialized = true;
+    },
+  },
+  extraReducers: builder => {
+    builder
+      .addCase(rehydrate, (state, action) => {
+        const persisted = getRehydratedSlice<AuthState>(action.payload, 'auth');
+        if (persisted.user !== undefined) {
+          state.user = persisted.user;
+        }
+      })
+      .addCase(signOut.fulfilled, state => {
+        state.user = null;
+      });
+  },
+});
+
+export const { authStateChanged } = authSlice.actions;
+export default authSlice.reducer;
+
+interface AuthRootState {
+  auth: AuthState;
+}
+
+export const selectCurrentUser = (state: AuthRootState) => state.auth.user;
+export const selectIsAuthenticated = (state: AuthRootState) => state.auth.user !== null;
+export const selectAuthInitialized = (state: AuthRootState) => state.auth.initialized;
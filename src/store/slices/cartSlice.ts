@@ -0,0 +1,125 @@
+/**
+ * Cart slice
+ * Single source of truth for cart contents and counts across screens
+ */
+
+import { createAsyncThunk, createSelector, createSlice, isFulfilled, isRejected } from '@reduxjs/toolkit';
+import { getCartProvider } from '../../data/providers';
+import { CartItem, ProductCard } from '../../types';
+import { getRehydratedSlice, rehydrate } from '../persistence';
+import { getVariantPrice, VariantSelection } from '../../utils/productVariants';
+import { LoadStatus } from '../types';
+
+export type CartItemWithProduct = CartItem & { product: ProductCard };
+
+export interface CartState {
+  items: CartItemWithProduct[];
+  status: LoadStatus;
+  error: string | null;
+}
+
+const initialState: CartState = {
+  items: [],
+  status: 'idle',
+  error: null,
+};
+
+// Lines are addressed by getCartLineId, which is the product ID for lines without variants.
+// Every mutation returns the provider's cart afterwards so the store never guesses
+export const fetchCart = createAsyncThunk('cart/fetchCart', async () =>
+  getCartProvider().getCartItemsWithDetails()
+);
+
+export const addToCart = createAsyncThunk(
+  'cart/addToCart',
+  async ({
+    productId,
+    quantity = 1,
+    selectedVariants,
+  }: {
+    productId: string;
+    quantity?: number;
+    selectedVariants?: VariantSelection;
+  }) => {
+    const provider = getCartProvider();
+    await provider.addToCart(productId, quantity, selectedVariants);
+    return provider.getCartItemsWithDetails();
+  }
+);
+
+export const removeFromCart = createAsyncThunk('cart/removeFromCart', async (lineId: string) => {
+  const provider = getCartProvider();
+  await provider.removeFromCart(lineId);
+  return provider.getCartItemsWithDetails();
+});
+
+export const updateCartQuantity = createAsyncThunk(
+  'cart/updateQuantity',
+  async ({ lineId, quantity }: { lineId: string; quantity: number }) => {
+    const provider = getCartProvider();
+    await provider.updateQuantity(lineId, quantity);
+    return provider.getCartItemsWithDetails();
+  }
+);
+
+export const clearCart = createAsyncThunk('cart/clearCart', async () => {
+  const provider = getCartProvider();
+  await provider.clearCart();
+  return provider.getCartItemsWithDetails();
+});
+
+const cartThunks = [fetchCart, addToCart, removeFromCart, updateCartQuantity, clearCart] as const;
+
+const cartSlice = createSlice({
+  name: 'cart',
+  initialState,
+  reducers: {},
+  extraReducers: builder => {
+    builder
+      .addCase(rehydrate, (state, action) => {
+        const persisted = getRehydratedSlice<CartState>(action.payload, 'cart');
+        if (persisted.items) {
+          state.items = persisted.items;
+        }
+      })
+      .addCase(fetchCart.pending, state => {
+        state.status = 'loading';
+      })
+      .addMatcher(isFulfilled(...cartThunks), (state, action) => {
+        state.items = action.payload;
+        state.status = 'succeeded';
+        state.error = null;
+      })
+      .addMatcher(isRejected(...cartThunks), (state, action) => {
+        // A failed mutation leaves the last known cart in place
+        if (action.type === fetchCart.rejected.type) {
+          state.status = 'failed';
+        }
+        state.error = action.error.message ?? 'Cart request failed';
+      });
+  },
+});
+
+export default cartSlice.reducer;
+
+interface CartRootState {
+  cart: CartState;
+}
+
+export const selectCartItems = (state: CartRootState) => state.cart.items;
+export const selectCartStatus = (state: CartRootState) => state.cart.status;
+
+/**
+ * Total number of units in the cart, used for every badge and toast
+ */
+export const countCartItems = (items: CartItem[]): number =>
+  items.reduce((count, item) => count + item.quantity, 0);
+
+export const selectCartCount = createSelector([selectCartItems], countCartItems);
+
+export const selectCartTotal = createSelector([selectCartItems], items =>
+  items.reduce(
+    (total, item) => total + getVariantPrice(item.product, item.selectedVariants) * item.quantity,
+    0
+  )
+);
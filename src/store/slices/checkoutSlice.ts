@@ -0,0 +1,192 @@
+/**
+ * Checkout slice
+ * Step progression, address and payment details for the checkout flow
+ */
+
+import {
+  createAsyncThunk,
+  createSelector,
+  createSlice,
+  PayloadAction,
+  ThunkAction,
+  UnknownAction,
+} from '@reduxjs/toolkit';
+import {
+  calculateCartTotals,
+  CHECKOUT_STEPS,
+  getCheckoutLineId,
+  validateCheckoutStep,
+} from '../../services/CheckoutService';
+import { OrderService } from '../../services/OrderService';
+import { getOrderProvider } from '../../data/providers';
+import {
+  CartItem,
+  CheckoutState,
+  Order,
+  PaymentMethod,
+  ShippingAddress,
+  ShippingMethodId,
+} from '../../types/checkout';
+import { getRehydratedSlice, rehydrate } from '../persistence';
+import { clearCart } from './cartSlice';
+
+const initialState: CheckoutState = {
+  currentStep: 'cart',
+  cartItems: [],
+};
+
+interface CheckoutRootState {
+  checkout: CheckoutState;
+}
+
+/**
+ * Create and save the order for the current checkout, then empty the cart it came from
+ */
+export const placeOrder = createAsyncThunk<Order, string, { state: CheckoutRootState }>(
+  'checkout/placeOrder',
+  async (userId, { getState, dispatch }) => {
+    const { cartItems, shippingAddress, shippingMethod } = getState().checkout;
+    if (cartItems.length === 0 || !shippingAddress) {
+      throw new Error('Checkout is missing items or a shipping address');
+    }
+
+    const totals = calculateCartTotals(cartItems, { shippingAddress, shippingMethod });
+    const order = OrderService.createOrder(
+      cartItems,
+      shippingAddress,
+      totals.subtotal,
+      totals.tax,
+      totals.shipping,
+      userId
+    );
+    await getOrderProvider().saveOrder(order);
+
+    // The order is placed even if the cart could not be emptied
+    try {
+      await dispatch(clearCart()).unwrap();
+    } catch (error) {
+      console.warn('Failed to clear cart after placing order:', error);
+    }
+
+    return order;
+  }
+);
+
+const checkoutSlice = createSlice({
+  name: 'checkout',
+  initialState,
+  reducers: {
+    initializeCheckout(_state, action: PayloadAction<CartItem[]>) {
+      return { currentStep: 'cart', cartItems: action.payload };
+    },
+    // Items are addressed by cart line ID so two sizes of one product stay separate
+    updateCheckoutItem(state, action: PayloadAction<{ lineId: string; quantity: number }>) {
+      const { lineId, quantity } = action.payload;
+      if (quantity <= 0) {
+        state.cartItems = state.cartItems.filter(item => getCheckoutLineId(item) !== lineId);
+        return;
+      }
+      const existingItem = state.cartItems.find(item => getCheckoutLineId(item) === lineId);
+      if (existingItem) {
+        existingItem.quantity = quantity;
+      }
+    },
+    removeCheckoutItem(state, action: PayloadAction<string>) {
+      state.cartItems = state.cartItems.filter(item => getCheckoutLineId(item) !== action.payload);
+    },
+    setShippingAddress(state, action: PayloadAction<ShippingAddress>) {
+      state.shippingAddress = action.payload;
+    },
+    setShippingMethod(state, action: PayloadAction<ShippingMethodId>) {
+      state.shippingMethod = action.payload;
+    },
+    setPaymentMethod(state, action: PayloadAction<PaymentMethod>) {
+      state.paymentMethod = action.payload;
+    },
+    nextStep(state) {
+      const currentIndex = CHECKOUT_STEPS.indexOf(state.currentStep);
+      if (currentIndex >= CHECKOUT_STEPS.length - 1) return;
+
+      const validation = validateCheckoutStep(state);
+      if (!validation.isValid) {
+        state.error = Object.values(validation.errors)[0];
+        return;
+      }
+
+      state.currentStep = CHECKOUT_STEPS[currentIndex + 1];
+      state.error = undefined;
+    },
+    goToPreviousStep(state) {
+      const currentIndex = CHECKOUT_STEPS.indexOf(state.currentStep);
+      if (currentIndex > 0) {
+        state.currentStep = CHECKOUT_STEPS[currentIndex - 1];
+        state.error = undefined;
+      }
+    },
+    setCheckoutError(state, action: PayloadAction<string | undefined>) {
+      state.error = action.payload;
+    },
+    setProcessing(state, action: PayloadAction<boolean>) {
+      state.isProcessing = action.payload;
+    },
+    resetCheckout() {
+      return initialState;
+    },
+  },
+  extraReducers: builder => {
+    builder
+      .addCase(rehydrate, (state, action) => {
+        const persisted = getRehydratedSlice<CheckoutState>(action.payload, 'checkout');
+        return { ...state, ...persisted };
+      })
+      .addCase(placeOrder.pending, state => {
+        state.isProcessing = true;
+        state.error = undefined;
+      })
+      .addCase(placeOrder.fulfilled, (_state, action) => ({
+        ...initialState,
+        order: action.payload,
+      }))
+      .addCase(placeOrder.rejected, (state, action) => {
+        state.isProcessing = false;
+        state.error = action.error.message ?? 'Failed to place order';
+      });
+  },
+});
+
+export const {
+  initializeCheckout,
+  updateCheckoutItem,
+  removeCheckoutItem,
+  setShippingAddress,
+  setShippingMethod,
+  setPaymentMethod,
+  goToPreviousStep,
+  setCheckoutError,
+  setProcessing,
+  resetCheckout,
+} = checkoutSlice.actions;
+export default checkoutSlice.reducer;
+
+/**
+ * Validate the current step and move on. Returns the resulting state so callers
+ * can show the validation error, if any.
+ */
+export const proceedToNextStep =
+  (): ThunkAction<CheckoutState, CheckoutRootState, unknown, UnknownAction> =>
+  (dispatch, getState) => {
+    dispatch(checkoutSlice.actions.nextStep());
+    return getState().checkout;
+  };
+
+export const selectCheckout = (state: CheckoutRootState) => state.checkout;
+export const selectCheckoutItems = (state: CheckoutRootState) => state.checkout.cartItems;
+export const selectCheckoutStep = (state: CheckoutRootState) => state.checkout.currentStep;
+export const selectCheckoutOrder = (state: CheckoutRootState) => state.checkout.order;
+export const selectShippingAddress = (state: CheckoutRootState) => state.checkout.shippingAddress;
+export const selectShippingMethod = (state: CheckoutRootState) => state.checkout.shippingMethod;
+export const selectCheckoutTotals = createSelector(
+  [selectCheckoutItems, selectShippingAddress, selectShippingMethod],
+  (cartItems, shippingAddress, shippingMethod) =>
+    calculateCartTotals(cartItems, { shippingAddress, shippingMethod })
+);
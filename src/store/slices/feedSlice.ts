@@ -0,0 +1,106 @@
+/**
+ * Feed slice
+ * Personalized product feed and the position of the top card
+ */
+
+import { createAsyncThunk, createSlice, PayloadAction } from '@reduxjs/toolkit';
+import { getProductFeedProvider } from '../../data/providers';
+import { ProductCard } from '../../types';
+import { getRehydratedSlice, rehydrate } from '../persistence';
+import { LoadStatus } from '../types';
+
+const FEED_PAGE_SIZE = 10;
+
+export interface FeedState {
+  products: ProductCard[];
+  currentIndex: number;
+  status: LoadStatus;
+  refreshing: boolean;
+  error: string | null;
+}
+
+const initialState: FeedState = {
+  products: [],
+  currentIndex: 0,
+  status: 'idle',
+  refreshing: false,
+  error: null,
+};
+
+export const fetchFeed = createAsyncThunk('feed/fetchFeed', async (userId: string) => {
+  const response = await getProductFeedProvider().getPersonalizedFeed(
+    { page: 1, limit: FEED_PAGE_SIZE },
+    userId
+  );
+  return response.products;
+});
+
+export const refreshFeed = createAsyncThunk('feed/refreshFeed', async (userId: string) => {
+  const response = await getProductFeedProvider().refreshFeed(userId);
+  return response.products;
+});
+
+const feedSlice = createSlice({
+  name: 'feed',
+  initialState,
+  reducers: {
+    advanceCard(state) {
+      state.currentIndex += 1;
+    },
+    setCurrentIndex(state, action: PayloadAction<number>) {
+      state.currentIndex = action.payload;
+    },
+  },
+  extraReducers: builder => {
+    builder
+      .addCase(rehydrate, (state, action) => {
+        const persisted = getRehydratedSlice<FeedState>(action.payload, 'feed');
+        if (persisted.products && persisted.products.length > 0) {
+          state.products = persisted.products;
+          state.currentIndex = Math.min(persisted.currentIndex ?? 0, persisted.products.length);
+          state.status = 'succeeded';
+        }
+      })
+      .addCase(fetchFeed.pending, state => {
+        state.status = 'loading';
+        state.error = null;
+      })
+      .addCase(fetchFeed.fulfilled, (state, action) => {
+        state.products = action.payload;
+        state.currentIndex = 0;
+        state.status = 'succeeded';
+      })
+      .addCase(fetchFeed.rejected, (state, action) => {
+        state.status = 'failed';
+        state.error = action.error.message ?? 'Failed to load feed';
+      })
+      .addCase(refreshFeed.pending, state => {
+        state.refreshing = true;
+        state.error = null;
+      })
+      .addCase(refreshFeed.fulfilled, (state, action) => {
+        state.products = action.payload;
+        state.currentIndex = 0;
+        state.refreshing = false;
+        state.status = 'succeeded';
+      })
+      .addCase(refreshFeed.rejected, (state, action) => {
+        state.refreshing = false;
+        state.error = action.error.message ?? 'Failed to refresh feed';
+      });
+  },
+});
+
+export const { advanceCard, setCurrentIndex } = feedSlice.actions;
+export default feedSlice.reducer;
+
+interface FeedRootState {
+  feed: FeedState;
+}
+
+export const selectFeedProducts = (state: FeedRootState) => state.feed.products;
+export const selectCurrentCardIndex = (state: FeedRootState) => state.feed.currentIndex;
+export const selectFeedStatus = (state: FeedRootState) => state.feed.status;
+export const selectFeedRefreshing = (state: FeedRootState) => state.feed.refreshing;
+export const selectRemainingProductCount = (state: FeedRootState) =>
+  Math.max(state.feed.products.length - state.feed.currentIndex, 0);
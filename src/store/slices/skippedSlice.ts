@@ -0,0 +1,102 @@
+/**
+ * Skipped products slice
+ */
+
+import { createAsyncThunk, createSelector, createSlice, isFulfilled, isRejected } from '@reduxjs/toolkit';
+import { getSkippedProductsService, SkippedProductItem } from '../../services/SkippedProductsService';
+import { ProductCard } from '../../types';
+import { getRehydratedSlice, rehydrate } from '../persistence';
+import { LoadStatus } from '../types';
+
+export type SkippedItemWithProduct = SkippedProductItem & { product: ProductCard };
+
+export interface SkippedState {
+  items: SkippedItemWithProduct[];
+  status: LoadStatus;
+  error: string | null;
+}
+
+const initialState: SkippedState = {
+  items: [],
+  status: 'idle',
+  error: null,
+};
+
+export const fetchSkipped = createAsyncThunk('skipped/fetchSkipped', async () =>
+  getSkippedProductsService().getSkippedProductsWithDetails()
+);
+
+export const skipProduct = createAsyncThunk(
+  'skipped/skipProduct',
+  async ({ productId, category }: { productId: string; category: string }) => {
+    const service = getSkippedProductsService();
+    await service.addSkippedProduct(productId, category);
+    return service.getSkippedProductsWithDetails();
+  }
+);
+
+export const unskipProduct = createAsyncThunk('skipped/unskipProduct', async (productId: string) => {
+  const service = getSkippedProductsService();
+  await service.removeSkippedProduct(productId);
+  return service.getSkippedProductsWithDetails();
+});
+
+export const clearSkippedCategory = createAsyncThunk(
+  'skipped/clearCategory',
+  async (category: string) => {
+    const service = getSkippedProductsService();
+    await service.clearSkippedProductsByCategory(category);
+    return service.getSkippedProductsWithDetails();
+  }
+);
+
+const skippedThunks = [fetchSkipped, skipProduct, unskipProduct, clearSkippedCategory] as const;
+
+const skippedSlice = createSlice({
+  name: 'skipped',
+  initialState,
+  reducers: {},
+  extraReducers: builder => {
+    builder
+      .addCase(rehydrate, (state, action) => {
+        const persisted = getRehydratedSlice<SkippedState>(action.payload, 'skipped');
+        if (persisted.items) {
+          state.items = persisted.items;
+        }
+      })
+      .addCase(fetchSkipped.pending, state => {
+        state.status = 'loading';
+      })
+      .addMatcher(isFulfilled(...skippedThunks), (state, action) => {
+        state.items = action.payload;
+        state.status = 'succeeded';
+        state.error = null;
+      })
+      .addMatcher(isRejected(...skippedThunks), (state, action) => {
+        if (action.type === fetchSkipped.rejected.type) {
+          state.status = 'failed';
+        }
+        state.error = action.error.message ?? 'Skipped products request failed';
+      });
+  },
+});
+
+export default skippedSlice.reducer;
+
+interface SkippedRootState {
+  skipped: SkippedState;
+}
+
+export const selectSkippedItems = (state: SkippedRootState) => state.skipped.items;
+export const selectSkippedStatus = (state: SkippedRootState) => state.skipped.status;
+
+/**
+ * Categories that still have skipped products, with how many each
+ */
+export const selectSkippedCategoryCounts = createSelector([selectSkippedItems], items => {
+  const counts = new Map<string, number>();
+  items.forEach(item => {
+    counts.set(item.category, (counts.get(item.category) ?? 0) + 1);
+  });
+  return Array.from(counts, ([category, count]) => ({ category, count }));
+});
@@ -0,0 +1,300 @@
+/**
+ * Wishlist slice
+ */
+
+import {
+  createAsyncThunk,
+  createSlice,
+  isFulfilled,
+  isRejected,
+  PayloadAction,
+} from '@reduxjs/toolkit';
+import { getWishlistProvider } from '../../data/providers';
+import { WishlistCollection, WishlistItem } from '../../data/providers/WishlistProvider';
+import { getWishlistAlertService, WishlistAlert } from '../../services/WishlistAlertService';
+import { ProductCard } from '../../types';
+import { getRehydratedSlice, rehydrate } from '../persistence';
+import { LoadStatus } from '../types';
+
+export type WishlistItemWithProduct = WishlistItem & { product: ProductCard };
+
+/**
+ * Where a right swipe saves a product: straight into the default collection,
+ * or into one the user picks each time
+ */
+export type RightSwipeTarget = 'default' | 'prompt';
+
+export interface WishlistState {
+  items: WishlistItemWithProduct[];
+  status: LoadStatus;
+  error: string | null;
+  alerts: WishlistAlert[];
+  mutedProductIds: string[];
+  collections: WishlistCollection[];
+  rightSwipeTarget: RightSwipeTarget;
+}
+
+const initialState: WishlistState = {
+  items: [],
+  status: 'idle',
+  error: null,
+  alerts: [],
+  mutedProductIds: [],
+  collections: [],
+  rightSwipeTarget: 'default',
+};
+
+const readAlertState = async () => {
+  const alertService = getWishlistAlertService();
+  return {
+    alerts: await alertService.getAlerts(),
+    mutedProductIds: await alertService.getMutedProductIds(),
+  };
+};
+
+export const loadWishlistAlerts = createAsyncThunk('wishlist/loadAlerts', readAlertState);
+
+/**
+ * Compare the wishlist with the price and stock snapshots and add any
+ * changes to the notification inbox
+ */
+export const checkWishlistAlerts = createAsyncThunk(
+  'wishlist/checkAlerts',
+  async (items: WishlistItemWithProduct[]) => {
+    await getWishlistAlertService().checkForChanges(items);
+    return readAlertState();
+  }
+);
+
+export const markWishlistAlertRead = createAsyncThunk(
+  'wishlist/markAlertRead',
+  async (alertId: string) => {
+    await getWishlistAlertService().markAlertRead(alertId);
+    return readAlertState();
+  }
+);
+
+export const markAllWishlistAlertsRead = createAsyncThunk(
+  'wishlist/markAllAlertsRead',
+  async () => {
+    await getWishlistAlertService().markAllAlertsRead();
+    return readAlertState();
+  }
+);
+
+export const setWishlistItemAlerts = createAsyncThunk(
+  'wishlist/setItemAlerts',
+  async ({ productId, enabled }: { productId: string; enabled: boolean }) => {
+    await getWishlistAlertService().setAlertsEnabled(productId, enabled);
+    return readAlertState();
+  }
+);
+
+export const fetchWishlist = createAsyncThunk(
+  'wishlist/fetchWishlist',
+  async (_: void, { dispatch }) => {
+    const items = await getWishlistProvider().getWishlistItemsWithDetails();
+    await dispatch(checkWishlistAlerts(items));
+    return items;
+  }
+);
+
+/**
+ * Add a product to the wishlist and, when it is new, record the price and
+ * stock it was saved at
+ */
+const addAndSnapshot = async (productId: string, collectionId?: string) => {
+  const provider = getWishlistProvider();
+  const wasWishlisted = await provider.isInWishlist(productId).catch(() => false);
+  await provider.addToWishlist(productId, collectionId);
+  const items = await provider.getWishlistItemsWithDetails();
+
+  const added = items.find(item => item.productId === productId);
+  if (added && !wasWishlisted) {
+    try {
+      await getWishlistAlertService().recordSnapshot(added.product);
+    } catch (error) {
+      console.warn('Failed to record wishlist price snapshot:', error);
+    }
+  }
+
+  return items;
+};
+
+export const addToWishlist = createAsyncThunk('wishlist/addToWishlist', async (productId: string) =>
+  addAndSnapshot(productId)
+);
+
+export const addToWishlistCollection = createAsyncThunk(
+  'wishlist/addToCollection',
+  async ({ productId, collectionId }: { productId: string; collectionId: string }) =>
+    addAndSnapshot(productId, collectionId)
+);
+
+export const removeFromWishlistCollection = createAsyncThunk(
+  'wishlist/removeFromCollection',
+  async ({ productId, collectionId }: { productId: string; collectionId: string }, { dispatch }) => {
+    const provider = getWishlistProvider();
+    await provider.removeFromCollection(productId, collectionId);
+    if (!(await provider.isInWishlist(productId))) {
+      await getWishlistAlertService().removeProduct(productId);
+      await dispatch(loadWishlistAlerts());
+    }
+    return provider.getWishlistItemsWithDetails();
+  }
+);
+
+export const removeFromWishlist = createAsyncThunk(
+  'wishlist/removeFromWishlist',
+  async (productId: string, { dispatch }) => {
+    const provider = getWishlistProvider();
+    await provider.removeFromWishlist(productId);
+    await getWishlistAlertService().removeProduct(productId);
+    await dispatch(loadWishlistAlerts());
+    return provider.getWishlistItemsWithDetails();
+  }
+);
+
+export const clearWishlist = createAsyncThunk('wishlist/clearWishlist', async () => {
+  const provider = getWishlistProvider();
+  await provider.clearWishlist();
+  return provider.getWishlistItemsWithDetails();
+});
+
+export const fetchWishlistCollections = createAsyncThunk('wishlist/fetchCollections', async () =>
+  getWishlistProvider().getCollections()
+);
+
+export const createWishlistCollection = createAsyncThunk(
+  'wishlist/createCollection',
+  async (name: string) => {
+    const provider = getWishlistProvider();
+    await provider.createCollection(name);
+    return provider.getCollections();
+  }
+);
+
+export const renameWishlistCollection = createAsyncThunk(
+  'wishlist/renameCollection',
+  async ({ collectionId, name }: { collectionId: string; name: string }) => {
+    const provider = getWishlistProvider();
+    await provider.renameCollection(collectionId, name);
+    return provider.getCollections();
+  }
+);
+
+/**
+ * Delete a collection. Items only in that collection move to the default
+ * one, so the items are reloaded too.
+ */
+export const deleteWishlistCollection = createAsyncThunk(
+  'wishlist/deleteCollection',
+  async (collectionId: string) => {
+    const provider = getWishlistProvider();
+    await provider.deleteCollection(collectionId);
+    return {
+      collections: await provider.getCollections(),
+      items: await provider.getWishlistItemsWithDetails(),
+    };
+  }
+);
+
+const wishlistThunks = [
+  fetchWishlist,
+  addToWishlist,
+  addToWishlistCollection,
+  removeFromWishlist,
+  removeFromWishlistCollection,
+  clearWishlist,
+] as const;
+const collectionThunks = [
+  fetchWishlistCollections,
+  createWishlistCollection,
+  renameWishlistCollection,
+] as const;
+const alertThunks = [
+  loadWishlistAlerts,
+  checkWishlistAlerts,
+  markWishlistAlertRead,
+  markAllWishlistAlertsRead,
+  setWishlistItemAlerts,
+] as const;
+
+const wishlistSlice = createSlice({
+  name: 'wishlist',
+  initialState,
+  reducers: {
+    setRightSwipeTarget(state, action: PayloadAction<RightSwipeTarget>) {
+      state.rightSwipeTarget = action.payload;
+    },
+  },
+  extraReducers: builder => {
+    builder
+      .addCase(rehydrate, (state, action) => {
+        const persisted = getRehydratedSlice<WishlistState>(action.payload, 'wishlist');
+        if (persisted.items) {
+          state.items = persisted.items;
+        }
+        if (persisted.collections) {
+          state.collections = persisted.collections;
+        }
+        if (persisted.rightSwipeTarget) {
+          state.rightSwipeTarget = persisted.rightSwipeTarget;
+        }
+      })
+      .addCase(fetchWishlist.pending, state => {
+        state.status = 'loading';
+      })
+      .addCase(deleteWishlistCollection.fulfilled, (state, action) => {
+        state.collections = action.payload.collections;
+        state.items = action.payload.items;
+        state.error = null;
+      })
+      .addMatcher(isFulfilled(...wishlistThunks), (state, action) => {
+        state.items = action.payload;
+        state.status = 'succeeded';
+        state.error = null;
+      })
+      .addMatcher(isRejected(...wishlistThunks), (state, action) => {
+        if (action.type === fetchWishlist.rejected.type) {
+          state.status = 'failed';
+        }
+        state.error = action.error.message ?? 'Wishlist request failed';
+      })
+      .addMatcher(isFulfilled(...collectionThunks), (state, action) => {
+        state.collections = action.payload;
+        state.error = null;
+      })
+      .addMatcher(isRejected(...collectionThunks, deleteWishlistCollection), (state, action) => {
+        state.error = action.error.message ?? 'Collection request failed';
+      })
+      .addMatcher(isFulfilled(...alertThunks), (state, action) => {
+        state.alerts = action.payload.alerts;
+        state.mutedProductIds = action.payload.mutedProductIds;
+      });
+  },
+});
+
+export const { setRightSwipeTarget } = wishlistSlice.actions;
+
+export default wishlistSlice.reducer;
+
+interface WishlistRootState {
+  wishlist: WishlistState;
+}
+
+export const selectWishlistItems = (state: WishlistRootState) => state.wishlist.items;
+export const selectWishlistStatus = (state: WishlistRootState) => state.wishlist.status;
+export const selectWishlistCount = (state: WishlistRootState) => state.wishlist.items.length;
+export const selectIsInWishlist = (state: WishlistRootState, productId: string) =>
+  state.wishlist.items.some(item => item.productId === productId);
+export const selectWishlistCollections = (state: WishlistRootState) => state.wishlist.collections;
+export const selectRightSwipeTarget = (state: WishlistRootState) =>
+  state.wishlist.rightSwipeTarget;
+export const selectWishlistAlerts = (state: WishlistRootState) => state.wishlist.alerts;
+export const selectUnreadWishlistAlertCount = (state: WishlistRootState) =>
+  state.wishlist.alerts.filter(alert => !alert.read).length;
+export const selectUnreadWishlistAlertForProduct = (state: WishlistRootState, productId: string) =>
+  state.wishlist.alerts.find(alert => alert.productId === productId && !alert.read);
+export const selectAreWishlistAlertsEnabled = (state: WishlistRootState, productId: string) =>
+  !state.wishlist.mutedProductIds.includes(productId);
@@ -0,0 +1,8 @@
+/**
+ * Shared store types
+ */
+
+/**
+ * Lifecycle of data loaded through an async thunk
+ */
+export type LoadStatus = 'idle' | 'loading' | 'succeeded' | 'failed';
@@ -335,6 +335,9 @@ export const MaterialElevation = {
 export const AndroidGestures = {
   swipeThreshold: 60,
   velocityThreshold: 400,
+  // Vertical swipes (cart / super-like) need a firmer flick, in px/s
+  upVelocityThreshold: 700,
+  downVelocityThreshold: 800,
   panThreshold: 8,
   longPressDelay: 500,
   doubleTapDelay: 300,
@@ -223,6 +223,9 @@ export const IOSAnimations = {
 export const IOSGestures = {
   swipeThreshold: 50,
   velocityThreshold: 500,
+  // Vertical swipes (cart / super-like) need a firmer flick, in px/s
+  upVelocityThreshold: 800,
+  downVelocityThreshold: 900,
   panThreshold: 10,
   longPressDelay: 500,
 };
\ No newline at end of file
@@ -10,6 +10,14 @@ export interface CartItem {
   quantity: number;
   imageUrl: string;
   category?: string;
+  /** Category ID used for tax exemptions; falls back to the category name */
+  categoryId?: string;
+  /** Shipping weight per unit; the rules' default weight is used when absent */
+  weightKg?: number;
+  /** Variant option values, e.g. { Size: 'M' } */
+  selectedVariants?: Record<string, string>;
+  /** SKU of the selected variant */
+  variantId?: string;
 }
 
 export interface ShippingAddress {
@@ -29,6 +37,27 @@ export interface PaymentMethod {
   isDefault?: boolean;
 }
 
+export type OrderStatus = 'completed' | 'shipped' | 'delivered' | 'cancelled' | 'refunded';
+
+/**
+ * One line of a refund, keyed by the checkout line ID of the order item
+ */
+export interface RefundLineItem {
+  lineId: string;
+  productId: string;
+  variantId?: string;
+  quantity: number;
+  amount: number;
+}
+
+export interface OrderRefund {
+  refundId: string;
+  amount: number;
+  items: RefundLineItem[];
+  reason: 'cancellation' | 'return';
+  createdAt: Date;
+}
+
 export interface Order {
   orderId: string;
   confirmationNumber: string;
@@ -39,17 +68,21 @@ export interface Order {
   tax: number;
   shipping: number;
   total: number;
-  status: 'completed' | 'shipped' | 'delivered';
+  status: OrderStatus;
   createdAt: Date;
   estimatedDelivery: Date;
+  refunds?: OrderRefund[];
 }
 
 export type CheckoutStep = 'cart' | 'shipping' | 'payment' | 'confirmation';
 
+export type ShippingMethodId = 'standard' | 'express';
+
 export interface CheckoutState {
   currentStep: CheckoutStep;
   cartItems: CartItem[];
   shippingAddress?: ShippingAddress;
+  shippingMethod?: ShippingMethodId;
   paymentMethod?: PaymentMethod;
   order?: Order;
   error?: string;
@@ -83,9 +116,24 @@ export interface PaymentResult {
   success: boolean;
   orderId?: string;
   confirmationNumber?: string;
+  refundId?: string;
   error?: string;
 }
 
+/**
+ * How a cart calculation was reached
+ */
+export interface CartCalculationBreakdown {
+  /** Matched tax rule; null when the default rate applied */
+  taxRuleId: string | null;
+  taxRate: number;
+  taxableSubtotal: number;
+  exemptSubtotal: number;
+  shippingMethod: ShippingMethodId;
+  shippingWeightKg: number;
+  freeShippingApplied: boolean;
+}
+
 /**
  * Cart calculation result
  */
@@ -94,4 +142,59 @@ export interface CartCalculation {
   tax: number;
   shipping: number;
   total: number;
+  breakdown: CartCalculationBreakdown;
+}
+
+/**
+ * Tax rate for a region. More specific rules (state, postal code prefix) win
+ * over country-wide ones.
+ */
+export interface TaxRule {
+  id: string;
+  country: string;
+  state?: string;
+  postalCodePrefix?: string;
+  rate: number;
+  /** Category IDs that are not taxed under this rule */
+  exemptCategories?: string[];
+}
+
+/**
+ * Shipping price band; the first tier whose limits the cart fits in applies
+ */
+export interface ShippingTier {
+  maxWeightKg?: number;
+  maxSubtotal?: number;
+  cost: number;
+}
+
+export interface ShippingMethodRule {
+  id: ShippingMethodId;
+  label: string;
+  estimatedDays: string;
+  freeShippingThreshold?: number;
+  tiers: ShippingTier[];
+}
+
+export interface PricingRules {
+  tax: {
+    defaultRate: number;
+    rules: TaxRule[];
+  };
+  shipping: {
+    defaultMethod: ShippingMethodId;
+    defaultItemWeightKg: number;
+    methods: ShippingMethodRule[];
+  };
+}
+
+/**
+ * A shipping method priced for a specific cart
+ */
+export interface ShippingOption {
+  method: ShippingMethodId;
+  label: string;
+  estimatedDays: string;
+  cost: number;
+  freeShippingApplied: boolean;
 }
@@ -20,6 +20,7 @@ export type MainTabParamList = {
 export type MainStackParamList = {
   MainTabs: undefined;
   ProductDetails: { productId: string; product?: ProductCard; onActionComplete?: () => void };
+  Search: { q?: string } | undefined;
   CategorySelection: { isInitialSetup?: boolean };
   SkippedProducts: { category: string };
   Faq: {};
@@ -29,6 +30,9 @@ export type MainStackParamList = {
   Confirmation: { orderId?: string; confirmationNumber?: string };
   OrderHistory: undefined;
   OrderDetails: { order: any };
+  SyncConflicts: undefined;
+  Notifications: undefined;
+  SharedWishlist: { token: string };
 };
 
 // User types
@@ -103,17 +107,43 @@ export interface ProductCard {
   specifications: Record<string, any>;
   availability: boolean;
   reviewRating?: number;
+  /** Packed weight per unit, used for shipping rates */
+  shippingWeightKg?: number;
+  /** Options the shopper picks from, e.g. Size: S/M/L */
+  variantOptions?: ProductVariantOption[];
+  /** Purchasable option combinations; absent for products without variants */
+  variants?: ProductVariant[];
+}
+
+export interface ProductVariantOption {
+  name: string;
+  values: string[];
+}
+
+// One sellable combination of option values (a SKU)
+export interface ProductVariant {
+  id: string;
+  options: Record<string, string>;
+  /** Overrides the product price when set */
+  price?: number;
+  stock: number;
 }
 
 // Interaction types
+export type SwipeDirection = "left" | "right" | "up" | "down";
+
+// left = skip, right = like, up = add to cart, down = super-like (opens details)
+export type SwipeActionType = "like" | "skip" | "cart" | "superlike";
+
 export interface SwipeAction {
   userId: string;
   productId: string;
-  action: "like" | "skip";
+  action: SwipeActionType;
   timestamp: Date;
   sessionId: string;
 }
 
+// Cart lines are keyed by product and variant selection (see getCartLineId)
 export interface CartItem {
   productId: string;
   quantity: number;
@@ -166,6 +196,25 @@ export interface ProductFeedResponse {
     categories: string[];
     priceRange?: { min: number; max: number };
   };
+  facets?: SearchFacets;
+}
+
+// Search facet types
+export interface FacetCount {
+  value: string;
+  label: string;
+  count: number;
+}
+
+export interface PriceBucketFacet extends FacetCount {
+  min: number;
+  max?: number;
+}
+
+export interface SearchFacets {
+  categories: FacetCount[];
+  brands: FacetCount[];
+  priceBuckets: PriceBucketFacet[];
 }
 
 export interface CategoryListResponse {
@@ -182,6 +231,10 @@ export interface SwipeActionResponse {
   success: boolean;
   message?: string;
   updatedPreferences?: CategoryPreferences;
+  /** The action as recorded, so it can be undone later */
+  swipeAction?: SwipeAction;
+  /** Category this swipe added to the user's preferences, if any */
+  addedCategoryPreference?: string;
 }
 
 // Re-export authentication service types for convenience
@@ -0,0 +1,63 @@
+/**
+ * Product review type definitions
+ */
+
+export type ReviewModerationStatus = 'pending' | 'approved' | 'rejected';
+
+export type ReviewSortOrder = 'recent' | 'helpful' | 'rating_high' | 'rating_low';
+
+export type StarRating = 1 | 2 | 3 | 4 | 5;
+
+export interface ProductReview {
+  id: string;
+  productId: string;
+  userId: string;
+  authorName: string;
+  rating: StarRating;
+  title?: string;
+  body: string;
+  createdAt: Date;
+  helpfulCount: number;
+  /** Only approved reviews are shown to other shoppers */
+  moderationStatus: ReviewModerationStatus;
+  moderationNote?: string;
+  verifiedPurchase: boolean;
+}
+
+export interface ReviewInput {
+  productId: string;
+  rating: number;
+  title?: string;
+  body: string;
+  authorName: string;
+}
+
+export interface ReviewQuery {
+  page?: number;
+  limit?: number;
+  sort?: ReviewSortOrder;
+  /** Lets the author see their own pending review */
+  viewerId?: string;
+}
+
+export interface ReviewPage {
+  reviews: ProductReview[];
+  page: number;
+  limit: number;
+  total: number;
+  hasMore: boolean;
+}
+
+export interface ReviewSummary {
+  productId: string;
+  averageRating: number;
+  totalReviews: number;
+  histogram: Record<StarRating, number>;
+}
+
+export type ReviewEligibilityReason = 'not_purchased' | 'already_reviewed';
+
+export interface ReviewEligibility {
+  canReview: boolean;
+  reason?: ReviewEligibilityReason;
+}
@@ -9,8 +9,9 @@
 
 import { Dimensions } from 'react-native';
 import { runOnJS } from 'react-native-reanimated';
+import { SwipeDirection } from '../types';
 
-const { width: screenWidth } = Dimensions.get('window');
+const { width: screenWidth, height: screenHeight } = Dimensions.get('window');
 
 interface GestureState {
   lastX: number;
@@ -27,6 +28,28 @@ interface ThrottleConfig {
   velocityThreshold?: number; // Minimum velocity to track
 }
 
+/**
+ * Distance and velocity a swipe must exceed to commit in one direction.
+ * Velocity is in the same unit the caller passes in (px/ms by default).
+ */
+export interface SwipeThreshold {
+  distance: number;
+  velocity: number;
+}
+
+export type SwipeThresholds = Record<SwipeDirection, SwipeThreshold>;
+
+/**
+ * Vertical swipes need a firmer flick than horizontal ones so that
+ * slightly diagonal drags are not mistaken for cart / super-like.
+ */
+export const DEFAULT_SWIPE_THRESHOLDS: SwipeThresholds = {
+  left: { distance: screenWidth * 0.25, velocity: 0.5 },
+  right: { distance: screenWidth * 0.25, velocity: 0.5 },
+  up: { distance: screenHeight * 0.18, velocity: 0.8 },
+  down: { distance: screenHeight * 0.18, velocity: 0.9 },
+};
+
 /**
  * Advanced gesture handler with worklet-based optimization
  * Runs calculations on UI thread to avoid bridge overhead
@@ -148,6 +171,47 @@ export class AdvancedGestureHandler {
     return 'none';
   }
 
+  /**
+   * Resolve a four-direction swipe from translation and velocity.
+   * The dominant axis picks the candidate direction; it commits if either its
+   * distance or its velocity (towards that direction) exceeds the threshold.
+   */
+  static resolveSwipeDirection(
+    translationX: number,
+    translationY: number,
+    velocityX: number,
+    velocityY: number,
+    thresholds: SwipeThresholds = DEFAULT_SWIPE_THRESHOLDS
+  ): SwipeDirection | 'none' {
+    const horizontal = Math.abs(translationX) >= Math.abs(translationY);
+    const direction: SwipeDirection = horizontal
+      ? (translationX < 0 ? 'left' : 'right')
+      : (translationY < 0 ? 'up' : 'down');
+
+    const distance = horizontal ? Math.abs(translationX) : Math.abs(translationY);
+    const axisVelocity = horizontal ? velocityX : velocityY;
+    const towardsVelocity = direction === 'left' || direction === 'up' ? -axisVelocity : axisVelocity;
+    const threshold = thresholds[direction];
+
+    if (distance > threshold.distance || towardsVelocity > threshold.velocity) {
+      return direction;
+    }
+
+    return 'none';
+  }
+
+  /**
+   * Four-direction variant of shouldCommitSwipe using the cached gesture velocity
+   */
+  static shouldCommitDirectionalSwipe(
+    translationX: number,
+    translationY: number,
+    thresholds: SwipeThresholds = DEFAULT_SWIPE_THRESHOLDS
+  ): SwipeDirection | 'none' {
+    const { x, y } = this.getVelocity();
+    return this.resolveSwipeDirection(translationX, translationY, x, y, thresholds);
+  }
+
   /**
    * Calculate optimal animation duration based on velocity
    * Faster swipes = shorter animation
@@ -185,16 +249,25 @@ export class AdvancedGestureHandler {
 
   /**
    * Calculate overlay opacity based on swipe distance
-   * Avoids complex interpolation calculations
+   * Avoids complex interpolation calculations.
+   * Only the overlays on the dominant axis are shown.
    */
   static calculateOverlayOpacity(
     translationX: number,
-    swipeThreshold: number = screenWidth * 0.25
-  ): { like: number; skip: number } {
-    const likeOpacity = translationX > 0 ? this.clamp(translationX / swipeThreshold, 0, 1) : 0;
-    const skipOpacity = translationX < 0 ? this.clamp(Math.abs(translationX) / swipeThreshold, 0, 1) : 0;
+    swipeThreshold: number = screenWidth * 0.25,
+    translationY: number = 0,
+    verticalThreshold: number = DEFAULT_SWIPE_THRESHOLDS.up.distance
+  ): { like: number; skip: number; cart: number; superlike: number } {
+    const horizontal = Math.abs(translationX) >= Math.abs(translationY);
+    const horizontalOpacity = horizontal ? this.clamp(Math.abs(translationX) / swipeThreshold, 0, 1) : 0;
+    const verticalOpacity = horizontal ? 0 : this.clamp(Math.abs(translationY) / verticalThreshold, 0, 1);
 
-    return { like: likeOpacity, skip: skipOpacity };
+    return {
+      like: translationX > 0 ? horizontalOpacity : 0,
+      skip: translationX < 0 ? horizontalOpacity : 0,
+      cart: translationY < 0 ? verticalOpacity : 0,
+      superlike: translationY > 0 ? verticalOpacity : 0,
+    };
   }
 
   /**
@@ -1,5 +1,6 @@
 import { Platform, Dimensions } from 'react-native';
 import * as Haptics from 'expo-haptics';
+import { SwipeDirection } from '../types';
 
 export interface PlatformFeatures {
   hasNotch: boolean;
@@ -80,6 +81,26 @@ export const HapticFeedback = {
       Haptics.selectionAsync();
     }
   },
+
+  // Distinct pattern per swipe direction: skip, like, cart, super-like
+  swipe: (direction: SwipeDirection) => {
+    switch (direction) {
+      case 'left':
+        HapticFeedback.light();
+        break;
+      case 'right':
+        HapticFeedback.success();
+        break;
+      case 'up':
+        HapticFeedback.medium();
+        setTimeout(HapticFeedback.success, 120);
+        break;
+      case 'down':
+        HapticFeedback.heavy();
+        setTimeout(HapticFeedback.heavy, 100);
+        break;
+    }
+  },
 };
 
 export const getIOSNavigationOptions = () => ({
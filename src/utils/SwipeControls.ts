@@ -0,0 +1,114 @@
+/**
+ * Non-gesture swipe controls
+ * Keyboard shortcuts (web) and screen reader actions (iOS/Android) map onto
+ * the same commands so they drive the card through the gesture code path.
+ */
+
+import { ProductCard, SwipeDirection } from '../types';
+
+/**
+ * A swipe in one of the four directions, or opening the product details
+ */
+export type SwipeCommand = SwipeDirection | 'details';
+
+/**
+ * Web keyboard bindings, keyed by KeyboardEvent.key (lowercased)
+ */
+export const SWIPE_KEY_BINDINGS: Record<string, SwipeCommand> = {
+  arrowleft: 'left',
+  arrowright: 'right',
+  arrowup: 'up',
+  arrowdown: 'down',
+  x: 'left',
+  l: 'right',
+  c: 'up',
+  s: 'down',
+  enter: 'details',
+  d: 'details',
+};
+
+/**
+ * Shortcut help shown to keyboard users
+ */
+export const SWIPE_KEYBOARD_HINT = '← / X skip · → / L like · ↑ / C cart · ↓ / S super-like · Enter details';
+
+/**
+ * Minimal shape of a DOM keyboard event, so this module does not depend on DOM typings
+ */
+export interface SwipeKeyEvent {
+  key: string;
+  altKey?: boolean;
+  ctrlKey?: boolean;
+  metaKey?: boolean;
+  repeat?: boolean;
+  target?: unknown;
+}
+
+const isEditableTarget = (target: unknown): boolean => {
+  if (!target || typeof target !== 'object') {
+    return false;
+  }
+
+  const element = target as { tagName?: string; isContentEditable?: boolean };
+  const tagName = element.tagName?.toUpperCase();
+  return tagName === 'INPUT' || tagName === 'TEXTAREA' || tagName === 'SELECT' || !!element.isContentEditable;
+};
+
+/**
+ * Resolve a keyboard event to a swipe command.
+ * Ignores held-down repeats, modifier chords (browser shortcuts) and typing in form fields.
+ */
+export const getSwipeCommandForKey = (event: SwipeKeyEvent): SwipeCommand | null => {
+  if (event.repeat || event.altKey || event.ctrlKey || event.metaKey) {
+    return null;
+  }
+  if (isEditableTarget(event.target)) {
+    return null;
+  }
+
+  return SWIPE_KEY_BINDINGS[event.key.toLowerCase()] ?? null;
+};
+
+/**
+ * Custom actions exposed to VoiceOver and TalkBack on each card
+ */
+export const SWIPE_ACCESSIBILITY_ACTIONS: { name: string; label: string }[] = [
+  { name: 'like', label: 'Like' },
+  { name: 'skip', label: 'Skip' },
+  { name: 'details', label: 'View details' },
+  { name: 'addToCart', label: 'Add to cart' },
+  { name: 'superlike', label: 'Super like' },
+];
+
+const ACCESSIBILITY_ACTION_COMMANDS: Record<string, SwipeCommand> = {
+  like: 'right',
+  skip: 'left',
+  details: 'details',
+  addToCart: 'up',
+  superlike: 'down',
+  // Double-tap on the focused card
+  activate: 'details',
+};
+
+/**
+ * Resolve an accessibility action name to a swipe command
+ */
+export const getSwipeCommandForAccessibilityAction = (actionName: string): SwipeCommand | null =>
+  ACCESSIBILITY_ACTION_COMMANDS[actionName] ?? null;
+
+/**
+ * Spoken description of a product card
+ */
+export const getProductAccessibilityLabel = (product: ProductCard): string => {
+  const parts = [product.title, `$${product.price.toFixed(2)}`, product.category.name];
+  if (!product.availability) {
+    parts.push('out of stock');
+  }
+  return parts.join(', ');
+};
+
+/**
+ * Live-region announcement when a new card reaches the top of the stack
+ */
+export const getNextProductAnnouncement = (product?: ProductCard): string =>
+  product ? `Next product: ${getProductAccessibilityLabel(product)}` : 'No more products';
@@ -0,0 +1,262 @@
+/**
+ * Statistics for A/B test results: two-proportion z-tests of each variant
+ * against the control, a chi-square check for sample ratio mismatch, and a
+ * minimum sample guard so early noise cannot declare a winner.
+ */
+
+export interface VariantCounts {
+  variantId: string;
+  isControl: boolean;
+  /** Share of test traffic the variant should get (0-100) */
+  allocation: number;
+  exposures: number;
+  conversions: number;
+}
+
+export interface VariantStatistics extends VariantCounts {
+  conversionRate: number;
+  /** Relative change in conversion rate against the control; unset for the control */
+  lift?: number;
+  pValue?: number;
+  /** 1 - pValue */
+  significance?: number;
+  /** 95% interval for the conversion rate difference against the control */
+  differenceInterval?: [number, number];
+}
+
+export type ABTestDecision =
+  | 'insufficient_data'
+  | 'sample_ratio_mismatch'
+  | 'no_winner'
+  | 'winner';
+
+export interface ABTestAnalysis {
+  variants: VariantStatistics[];
+  hasMinimumSample: boolean;
+  sampleRatioPValue: number;
+  sampleRatioMismatch: boolean;
+  decision: ABTestDecision;
+  winnerVariantId: string | null;
+}
+
+export interface ABTestAnalysisOptions {
+  /** Family-wise significance level, split across the treatment variants */
+  alpha?: number;
+  /** Exposures every variant needs before a winner can be called */
+  minSampleSize?: number;
+  /** Traffic split p-value below which assignment is treated as broken */
+  sampleRatioAlpha?: number;
+}
+
+const DEFAULT_ANALYSIS_OPTIONS: Required<ABTestAnalysisOptions> = {
+  alpha: 0.05,
+  minSampleSize: 100,
+  sampleRatioAlpha: 0.001,
+};
+
+const Z_95 = 1.959964;
+
+/**
+ * Abramowitz and Stegun 7.1.26, accurate to about 1.5e-7
+ */
+const erf = (x: number): number => {
+  const sign = x < 0 ? -1 : 1;
+  const abs = Math.abs(x);
+  const t = 1 / (1 + 0.3275911 * abs);
+  const poly =
+    ((((1.061405429 * t - 1.453152027) * t + 1.421413741) * t - 0.284496736) * t + 0.254829592) * t;
+  return sign * (1 - poly * Math.exp(-abs * abs));
+};
+
+export const normalCdf = (z: number): number => 0.5 * (1 + erf(z / Math.SQRT2));
+
+const LANCZOS_COEFFICIENTS = [
+  76.18009172947146, -86.50532032941677, 24.01409824083091, -1.231739572450155,
+  0.1208650973866179e-2, -0.5395239384953e-5,
+];
+
+const logGamma = (x: number): number => {
+  let y = x;
+  const tmp = x + 5.5 - (x + 0.5) * Math.log(x + 5.5);
+  let series = 1.000000000190015;
+  for (const coefficient of LANCZOS_COEFFICIENTS) {
+    y += 1;
+    series += coefficient / y;
+  }
+  return -tmp + Math.log((2.5066282746310005 * series) / x);
+};
+
+/**
+ * Upper regularized incomplete gamma function Q(a, x), by series below
+ * a + 1 and by continued fraction above
+ */
+const regularizedGammaQ = (a: number, x: number): number => {
+  if (x <= 0) {
+    return 1;
+  }
+
+  const prefix = Math.exp(-x + a * Math.log(x) - logGamma(a));
+
+  if (x < a + 1) {
+    let term = 1 / a;
+    let sum = term;
+    for (let n = 1; n < 500 && Math.abs(term) > Math.abs(sum) * 1e-12; n++) {
+      term *= x / (a + n);
+      sum += term;
+    }
+    return Math.max(0, 1 - sum * prefix);
+  }
+
+  const tiny = 1e-300;
+  let b = x + 1 - a;
+  let c = 1 / tiny;
+  let d = 1 / b;
+  let h = d;
+  for (let i = 1; i < 500; i++) {
+    const an = -i * (i - a);
+    b += 2;
+    d = an * d + b;
+    d = Math.abs(d) < tiny ? tiny : d;
+    c = b + an / c;
+    c = Math.abs(c) < tiny ? tiny : c;
+    d = 1 / d;
+    const delta = d * c;
+    h *= delta;
+    if (Math.abs(delta - 1) < 1e-12) {
+      break;
+    }
+  }
+  return prefix * h;
+};
+
+export const chiSquarePValue = (statistic: number, degreesOfFreedom: number): number =>
+  regularizedGammaQ(degreesOfFreedom / 2, statistic / 2);
+
+/**
+ * Two-sided z-test for the difference between two conversion rates, using
+ * the pooled rate for the standard error
+ */
+export const twoProportionZTest = (
+  controlConversions: number,
+  controlExposures: number,
+  variantConversions: number,
+  variantExposures: number
+): { z: number; pValue: number } => {
+  if (controlExposures === 0 || variantExposures === 0) {
+    return { z: 0, pValue: 1 };
+  }
+
+  const pooled = (controlConversions + variantConversions) / (controlExposures + variantExposures);
+  const standardError = Math.sqrt(
+    pooled * (1 - pooled) * (1 / controlExposures + 1 / variantExposures)
+  );
+  if (standardError === 0) {
+    return { z: 0, pValue: 1 };
+  }
+
+  const z =
+    (variantConversions / variantExposures - controlConversions / controlExposures) / standardError;
+  return { z, pValue: Math.min(1, 2 * (1 - normalCdf(Math.abs(z)))) };
+};
+
+/**
+ * Chi-square goodness of fit of the observed exposures against the
+ * configured allocation. A tiny p-value means assignment or logging is
+ * broken and the results should not be trusted.
+ */
+export const sampleRatioPValue = (variants: VariantCounts[]): number => {
+  const totalExposures = variants.reduce((sum, variant) => sum + variant.exposures, 0);
+  const totalAllocation = variants.reduce((sum, variant) => sum + variant.allocation, 0);
+  if (totalExposures === 0 || totalAllocation === 0 || variants.length < 2) {
+    return 1;
+  }
+
+  const statistic = variants.reduce((sum, variant) => {
+    const expected = (totalExposures * variant.allocation) / totalAllocation;
+    return expected > 0 ? sum + (variant.exposures - expected) ** 2 / expected : sum;
+  }, 0);
+  return chiSquarePValue(statistic, variants.length - 1);
+};
+
+/**
+ * Compare every variant with the control and decide whether the test has
+ * a winner. Significance is Bonferroni-corrected across the treatments; the
+ * control wins only when every treatment is significantly worse.
+ */
+export const analyzeABTest = (
+  counts: VariantCounts[],
+  options: ABTestAnalysisOptions = {}
+): ABTestAnalysis => {
+  const { alpha, minSampleSize, sampleRatioAlpha } = { ...DEFAULT_ANALYSIS_OPTIONS, ...options };
+  const control = counts.find(variant => variant.isControl);
+  const rate = (variant: VariantCounts) =>
+    variant.exposures > 0 ? variant.conversions / variant.exposures : 0;
+
+  const variants: VariantStatistics[] = counts.map(variant => {
+    const conversionRate = rate(variant);
+    if (!control || variant.isControl) {
+      return { ...variant, conversionRate };
+    }
+
+    const controlRate = rate(control);
+    const { pValue } = twoProportionZTest(
+      control.conversions,
+      control.exposures,
+      variant.conversions,
+      variant.exposures
+    );
+    const difference = conversionRate - controlRate;
+    const unpooledError =
+      control.exposures > 0 && variant.exposures > 0
+        ? Math.sqrt(
+            (controlRate * (1 - controlRate)) / control.exposures +
+              (conversionRate * (1 - conversionRate)) / variant.exposures
+          )
+        : 0;
+
+    return {
+      ...variant,
+      conversionRate,
+      lift: controlRate > 0 ? difference / controlRate : undefined,
+      pValue,
+      significance: 1 - pValue,
+      differenceInterval: [difference - Z_95 * unpooledError, difference + Z_95 * unpooledError],
+    };
+  });
+
+  const hasMinimumSample =
+    counts.length > 0 && counts.every(variant => variant.exposures >= minSampleSize);
+  const srmPValue = hasMinimumSample ? sampleRatioPValue(counts) : 1;
+  const analysis = {
+    variants,
+    hasMinimumSample,
+    sampleRatioPValue: srmPValue,
+    sampleRatioMismatch: srmPValue < sampleRatioAlpha,
+  };
+
+  if (!control || !hasMinimumSample) {
+    return { ...analysis, decision: 'insufficient_data', winnerVariantId: null };
+  }
+  if (analysis.sampleRatioMismatch) {
+    return { ...analysis, decision: 'sample_ratio_mismatch', winnerVariantId: null };
+  }
+
+  const treatments = variants.filter(variant => !variant.isControl);
+  const adjustedAlpha = alpha / Math.max(1, treatments.length);
+  const isSignificant = (variant: VariantStatistics) => (variant.pValue ?? 1) < adjustedAlpha;
+  const controlRate = rate(control);
+
+  const better = treatments
+    .filter(variant => isSignificant(variant) && variant.conversionRate > controlRate)
+    .sort((a, b) => b.conversionRate - a.conversionRate);
+  if (better.length > 0) {
+    return { ...analysis, decision: 'winner', winnerVariantId: better[0].variantId };
+  }
+
+  const controlWins = treatments.every(
+    variant => isSignificant(variant) && variant.conversionRate < controlRate
+  );
+  return controlWins
+    ? { ...analysis, decision: 'winner', winnerVariantId: control.variantId }
+    : { ...analysis, decision: 'no_winner', winnerVariantId: null };
+};
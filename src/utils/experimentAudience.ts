@@ -0,0 +1,75 @@
+import { Platform } from 'react-native';
+import { AppConfig } from '../config/env';
+import { ABTestAudience } from '../services/ABTestingService';
+
+/**
+ * What the device knows about itself when deciding whether it belongs to an
+ * experiment's audience
+ */
+export interface AudienceContext {
+  platform: string;
+  /** ISO 3166 alpha-2 code, when the device locale has a region */
+  country?: string;
+  appVersion: string;
+}
+
+/**
+ * Compare dotted version strings numerically; missing parts count as 0, so
+ * 1.2 equals 1.2.0 and 1.10.0 is newer than 1.9.0
+ */
+export const compareVersions = (a: string, b: string): number => {
+  const left = a.split('.').map(part => parseInt(part, 10) || 0);
+  const right = b.split('.').map(part => parseInt(part, 10) || 0);
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    const difference = (left[i] ?? 0) - (right[i] ?? 0);
+    if (difference !== 0) {
+      return difference > 0 ? 1 : -1;
+    }
+  }
+  return 0;
+};
+
+/**
+ * Whether the device falls inside the audience. Version bounds are
+ * inclusive. A device with no known country is left out of country-targeted
+ * audiences. User segments are assigned on the backend and are not checked
+ * here.
+ */
+export const matchesAudience = (audience: ABTestAudience, context: AudienceContext): boolean => {
+  if (audience.platforms?.length && !audience.platforms.some(platform => platform === context.platform)) {
+    return false;
+  }
+
+  if (audience.countries?.length) {
+    const country = context.country?.toUpperCase();
+    if (!country || !audience.countries.some(code => code.toUpperCase() === country)) {
+      return false;
+    }
+  }
+
+  if (audience.minAppVersion && compareVersions(context.appVersion, audience.minAppVersion) < 0) {
+    return false;
+  }
+  if (audience.maxAppVersion && compareVersions(context.appVersion, audience.maxAppVersion) > 0) {
+    return false;
+  }
+
+  return true;
+};
+
+const getDeviceCountry = (): string | undefined => {
+  try {
+    const region = Intl.DateTimeFormat().resolvedOptions().locale.split('-').find(
+      (part, index) => index > 0 && /^[A-Za-z]{2}$/.test(part)
+    );
+    return region?.toUpperCase();
+  } catch {
+    return undefined;
+  }
+};
+
+export const getDeviceAudienceContext = (): AudienceContext => ({
+  platform: Platform.OS,
+  country: getDeviceCountry(),
+  appVersion: AppConfig.app.version,
+});
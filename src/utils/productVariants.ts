@@ -0,0 +1,112 @@
+/**
+ * Product variant helpers
+ * Resolves option selections to variants, and keys cart lines by product and variant.
+ */
+
+import { ProductCard, ProductVariant } from '../types';
+
+export type VariantSelection = Record<string, string>;
+
+const hasSelection = (selection?: VariantSelection): selection is VariantSelection =>
+  !!selection && Object.keys(selection).length > 0;
+
+export const hasVariants = (product: ProductCard): boolean =>
+  !!product.variants && product.variants.length > 0;
+
+/**
+ * Stable key for a cart line. Lines without a selection keep the plain product ID,
+ * so carts saved before variants existed still resolve.
+ */
+export const getCartLineId = (productId: string, selection?: VariantSelection): string => {
+  if (!hasSelection(selection)) {
+    return productId;
+  }
+
+  const options = Object.keys(selection)
+    .sort()
+    .map(name => `${name}=${selection[name]}`)
+    .join('|');
+  return `${productId}::${options}`;
+};
+
+const matchesSelection = (variant: ProductVariant, selection: VariantSelection): boolean =>
+  Object.entries(selection).every(([name, value]) => variant.options[name] === value);
+
+/**
+ * The variant matching every option in a complete selection
+ */
+export const findVariant = (
+  product: ProductCard,
+  selection?: VariantSelection
+): ProductVariant | undefined => {
+  if (!hasVariants(product) || !hasSelection(selection)) {
+    return undefined;
+  }
+
+  return product.variants!.find(
+    variant =>
+      Object.keys(variant.options).length === Object.keys(selection).length &&
+      matchesSelection(variant, selection)
+  );
+};
+
+/**
+ * Whether every option has a value picked
+ */
+export const isSelectionComplete = (product: ProductCard, selection?: VariantSelection): boolean =>
+  (product.variantOptions ?? []).every(option => !!selection?.[option.name]);
+
+/**
+ * Unit price for a product, taking the selected variant's price when it has one
+ */
+export const getVariantPrice = (product: ProductCard, selection?: VariantSelection): number =>
+  findVariant(product, selection)?.price ?? product.price;
+
+/**
+ * Units available for a selection; products without variants use their availability flag
+ */
+export const getVariantStock = (product: ProductCard, selection?: VariantSelection): number => {
+  if (!hasVariants(product)) {
+    return product.availability ? Number.POSITIVE_INFINITY : 0;
+  }
+  return findVariant(product, selection)?.stock ?? 0;
+};
+
+/**
+ * Whether picking `value` for `optionName` can still lead to an in-stock variant,
+ * given the other options already selected
+ */
+export const isOptionValueAvailable = (
+  product: ProductCard,
+  selection: VariantSelection,
+  optionName: string,
+  value: string
+): boolean => {
+  const candidate = { ...selection, [optionName]: value };
+  return (product.variants ?? []).some(
+    variant => variant.stock > 0 && matchesSelection(variant, candidate)
+  );
+};
+
+/**
+ * Selection used when the shopper does not pick one (details screen defaults and
+ * quick add-to-cart from the feed): the first variant in stock.
+ */
+export const getDefaultVariantSelection = (product: ProductCard): VariantSelection | undefined => {
+  if (!hasVariants(product)) {
+    return undefined;
+  }
+
+  const variant = product.variants!.find(item => item.stock > 0) ?? product.variants![0];
+  return { ...variant.options };
+};
+
+/**
+ * Human-readable selection, e.g. "Size: M · Color: Black"
+ */
+export const formatVariantSelection = (selection?: VariantSelection): string =>
+  hasSelection(selection)
+    ? Object.entries(selection)
+        .map(([name, value]) => `${name}: ${value}`)
+        .join(' · ')
+    : '';